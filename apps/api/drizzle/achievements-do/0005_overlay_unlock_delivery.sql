@@ -0,0 +1,3 @@
+ALTER TABLE `achievement_unlock_outbox` ADD `overlay_state` text DEFAULT 'pending' NOT NULL;
+--> statement-breakpoint
+UPDATE `achievement_unlock_outbox` SET `overlay_state` = 'abandoned';
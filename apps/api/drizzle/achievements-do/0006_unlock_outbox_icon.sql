@@ -0,0 +1 @@
+ALTER TABLE `achievement_unlock_outbox` ADD `achievement_icon` text DEFAULT '1f3c6' NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE `achievement_definitions` ADD `status` text DEFAULT 'active' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `achievement_definitions` ADD `rule` text;
\ No newline at end of file
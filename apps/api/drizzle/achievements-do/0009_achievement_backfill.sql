@@ -0,0 +1,28 @@
+CREATE TABLE `achievement_backfill_runs` (
+  `id` text PRIMARY KEY NOT NULL,
+  `mode` text NOT NULL CHECK (`mode` IN ('apply', 'dry_run')),
+  `status` text NOT NULL CHECK (`status` IN ('collecting', 'applying', 'completed', 'failed')),
+  `song_request_cursor` text,
+  `song_requests_collected` integer DEFAULT false NOT NULL,
+  `raffle_roll_cursor` text,
+  `raffle_rolls_collected` integer DEFAULT false NOT NULL,
+  `collected_events` integer DEFAULT 0 NOT NULL,
+  `processed_events` integer DEFAULT 0 NOT NULL,
+  `replayed_events` integer DEFAULT 0 NOT NULL,
+  `unlocked_achievements` integer DEFAULT 0 NOT NULL,
+  `changes` text,
+  `error` text,
+  `started_at` text NOT NULL,
+  `updated_at` text NOT NULL,
+  `completed_at` text
+);
+--> statement-breakpoint
+CREATE TABLE `achievement_backfill_events` (
+  `run_id` text NOT NULL,
+  `event_id` text NOT NULL,
+  `timestamp` text NOT NULL,
+  `event` text NOT NULL,
+  PRIMARY KEY(`run_id`, `event_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_achievement_backfill_events_order` ON `achievement_backfill_events` (`run_id`, `timestamp`, `event_id`);
@@ -0,0 +1,32 @@
+ALTER TABLE `achievement_definitions` ADD `tiers` text;--> statement-breakpoint
+ALTER TABLE `achievement_definitions` ADD `repeatable` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `user_achievements` ADD `level` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `achievement_unlock_outbox` ADD `level` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `achievement_unlock_outbox` ADD `level_label` text;--> statement-breakpoint
+UPDATE `user_achievements` SET `level` = 1 WHERE `unlocked_at` IS NOT NULL;--> statement-breakpoint
+-- Fold the request and roll count ladders into one tiered achievement each.
+UPDATE `user_achievements` SET `progress` = (
+  SELECT MAX(`ladder`.`progress`) FROM `user_achievements` AS `ladder`
+  WHERE `ladder`.`user_id` = `user_achievements`.`user_id`
+    AND `ladder`.`achievement_id` IN ('request_10', 'request_50', 'request_100')
+) WHERE `achievement_id` = 'request_10';--> statement-breakpoint
+UPDATE `user_achievements` SET `progress` = (
+  SELECT MAX(`ladder`.`progress`) FROM `user_achievements` AS `ladder`
+  WHERE `ladder`.`user_id` = `user_achievements`.`user_id`
+    AND `ladder`.`achievement_id` IN ('roll_25', 'roll_100')
+) WHERE `achievement_id` = 'roll_25';--> statement-breakpoint
+UPDATE `user_achievements` SET `level` = CASE
+  WHEN `progress` >= 100 THEN 3
+  WHEN `progress` >= 50 THEN 2
+  WHEN `unlocked_at` IS NOT NULL THEN 1
+  ELSE 0
+END WHERE `achievement_id` = 'request_10';--> statement-breakpoint
+UPDATE `user_achievements` SET `level` = CASE
+  WHEN `progress` >= 100 THEN 2
+  WHEN `unlocked_at` IS NOT NULL THEN 1
+  ELSE 0
+END WHERE `achievement_id` = 'roll_25';--> statement-breakpoint
+DELETE FROM `user_achievements` WHERE `achievement_id` IN ('request_50', 'request_100', 'roll_100');--> statement-breakpoint
+UPDATE `achievement_definitions` SET `name` = 'DJ', `description` = 'Request 10, 50, and 100 songs', `tiers` = '[50,100]' WHERE `id` = 'request_10';--> statement-breakpoint
+UPDATE `achievement_definitions` SET `description` = 'Enter 25 and 100 raffles', `tiers` = '[100]' WHERE `id` = 'roll_25';--> statement-breakpoint
+UPDATE `achievement_definitions` SET `status` = 'retired' WHERE `id` IN ('request_50', 'request_100', 'roll_100');
@@ -0,0 +1,5 @@
+INSERT OR IGNORE INTO `achievement_definitions` (`id`, `name`, `description`, `icon`, `category`, `threshold`, `trigger_event`, `scope`, `tiers`) VALUES
+  ('first_chatter', 'First Chatter', 'First to chat in the stream', '1f4ac', 'special', NULL, 'stream_first_chat', 'session', NULL),
+  ('chatterbox', 'Chatterbox', 'Chat in 30 different minutes of one stream', '1f5e3', 'engagement', 30, 'chat_message', 'session', NULL),
+  ('familiar_face', 'Familiar Face', 'Chat on 5, 25, and 100 streams', '1f44b', 'engagement', 5, 'chat_stream', 'cumulative', '[25,100]'),
+  ('first_command', 'At Your Command', 'Use a chat command for the first time', '2328', 'engagement', NULL, 'chat_command', 'cumulative', NULL);
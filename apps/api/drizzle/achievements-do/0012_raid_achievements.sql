@@ -0,0 +1,4 @@
+INSERT OR IGNORE INTO `achievement_definitions` (`id`, `name`, `description`, `icon`, `category`, `threshold`, `trigger_event`, `scope`, `tiers`) VALUES
+  ('first_raid', 'Raid Party', 'Raid the channel for the first time', '1fa82', 'engagement', 1, 'raid', 'cumulative', NULL),
+  ('raid_3', 'Raid Regular', 'Raid the channel 3 times', '2694', 'engagement', 3, 'raid', 'cumulative', NULL),
+  ('biggest_raid', 'Biggest Raid', 'Bring the biggest raid the channel has seen', '1f3c6', 'special', NULL, 'raid_record', 'cumulative', NULL);
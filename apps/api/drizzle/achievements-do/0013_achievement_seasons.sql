@@ -0,0 +1,39 @@
+CREATE TABLE `seasons` (
+  `id` text PRIMARY KEY NOT NULL,
+  `name` text NOT NULL,
+  `starts_at` text NOT NULL,
+  `ends_at` text NOT NULL,
+  `reset_season_progress` integer DEFAULT true NOT NULL,
+  `created_at` text NOT NULL,
+  `archived_at` text,
+  CHECK (`ends_at` > `starts_at`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_seasons_starts_at` ON `seasons` (`starts_at`);
+--> statement-breakpoint
+CREATE TABLE `season_user_achievements` (
+  `season_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `user_display_name` text NOT NULL,
+  `achievement_id` text NOT NULL,
+  `progress` integer NOT NULL,
+  `level` integer NOT NULL,
+  `unlocked_at` text,
+  PRIMARY KEY(`season_id`, `user_id`, `achievement_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_season_user_achievements_unlocked` ON `season_user_achievements` (`season_id`, `unlocked_at`);
+--> statement-breakpoint
+CREATE TABLE `season_raffle_standings` (
+  `season_id` text NOT NULL,
+  `rank` integer NOT NULL,
+  `user_id` text NOT NULL,
+  `display_name` text NOT NULL,
+  `total_rolls` integer NOT NULL,
+  `total_wins` integer NOT NULL,
+  `closest_distance` integer,
+  `closest_roll` integer,
+  `closest_winning_number` integer,
+  `last_rolled_at` text NOT NULL,
+  PRIMARY KEY(`season_id`, `rank`)
+);
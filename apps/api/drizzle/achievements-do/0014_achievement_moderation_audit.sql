@@ -0,0 +1,14 @@
+CREATE TABLE `achievement_moderation_audit` (
+  `id` text PRIMARY KEY NOT NULL,
+  `action` text NOT NULL CHECK (`action` IN ('grant', 'revoke')),
+  `user_id` text NOT NULL,
+  `user_display_name` text NOT NULL,
+  `achievement_id` text NOT NULL,
+  `reason` text NOT NULL,
+  `actor` text NOT NULL,
+  `created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_achievement_moderation_audit_created` ON `achievement_moderation_audit` (`created_at`);
+--> statement-breakpoint
+CREATE INDEX `idx_achievement_moderation_audit_viewer` ON `achievement_moderation_audit` (`user_id`, `achievement_id`);
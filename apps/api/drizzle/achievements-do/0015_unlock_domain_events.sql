@@ -0,0 +1,3 @@
+ALTER TABLE `achievement_unlock_outbox` ADD `domain_event_state` text DEFAULT 'pending' NOT NULL;
+--> statement-breakpoint
+UPDATE `achievement_unlock_outbox` SET `domain_event_state` = 'abandoned';
@@ -0,0 +1,32 @@
+CREATE TABLE `achievement_event_credits` (
+  `event_id` text NOT NULL,
+  `achievement_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `credited_at` text NOT NULL,
+  PRIMARY KEY(`event_id`, `achievement_id`)
+);
+--> statement-breakpoint
+-- Earlier history counted toward the seeded definitions, which existed from the start, and
+-- toward definitions a completed backfill replayed. Definitions created later were never
+-- backfilled, so their history is left uncredited for the next backfill to count.
+INSERT INTO `achievement_event_credits` (`event_id`, `achievement_id`, `user_id`, `credited_at`)
+SELECT `event_history`.`event_id`, `achievement_definitions`.`id`, `event_history`.`user_id`, `event_history`.`timestamp`
+FROM `event_history`
+CROSS JOIN `achievement_definitions`
+WHERE `achievement_definitions`.`scope` = 'cumulative'
+  AND (
+    `achievement_definitions`.`id` IN ('first_request', 'request_10', 'request_50', 'request_100', 'first_roll', 'roll_25', 'roll_100', 'first_win', 'close_call', 'closest_ever')
+    OR EXISTS (
+      SELECT 1
+      FROM `achievement_backfill_runs`, json_each(`achievement_backfill_runs`.`changes`) AS `change`
+      WHERE `achievement_backfill_runs`.`mode` = 'apply'
+        AND `achievement_backfill_runs`.`status` = 'completed'
+        AND json_extract(`change`.`value`, '$.achievementId') = `achievement_definitions`.`id`
+    )
+  )
+  AND (
+    (`event_history`.`event_type` = 'song_request_success'
+      AND `achievement_definitions`.`trigger_event` IN ('song_request', 'stream_first_request', 'request_streak', 'rule'))
+    OR (`event_history`.`event_type` = 'raffle_roll'
+      AND `achievement_definitions`.`trigger_event` IN ('raffle_roll', 'raffle_win', 'raffle_close', 'raffle_closest_record', 'rule'))
+  );
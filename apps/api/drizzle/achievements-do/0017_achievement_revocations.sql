@@ -0,0 +1 @@
+ALTER TABLE `user_achievements` ADD `revoked_at` text;
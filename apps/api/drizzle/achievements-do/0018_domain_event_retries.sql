@@ -0,0 +1 @@
+ALTER TABLE `achievement_unlock_outbox` ADD `domain_event_attempts` integer DEFAULT 0 NOT NULL;
@@ -3,6 +3,20 @@ import m0001 from "./0001_add_user_streaks.sql";
 import m0002 from "./0002_add_event_history.sql";
 import m0003 from "./0003_event_history_idempotency.sql";
 import m0004 from "./0004_transactional_achievement_delivery.sql";
+import m0005 from "./0005_overlay_unlock_delivery.sql";
+import m0006 from "./0006_unlock_outbox_icon.sql";
+import m0007 from "./0007_managed_achievement_definitions.sql";
+import m0008 from "./0008_achievement_rule_expressions.sql";
+import m0009 from "./0009_achievement_backfill.sql";
+import m0010 from "./0010_tiered_achievements.sql";
+import m0011 from "./0011_chat_activity_achievements.sql";
+import m0012 from "./0012_raid_achievements.sql";
+import m0013 from "./0013_achievement_seasons.sql";
+import m0014 from "./0014_achievement_moderation_audit.sql";
+import m0015 from "./0015_unlock_domain_events.sql";
+import m0016 from "./0016_achievement_event_credits.sql";
+import m0017 from "./0017_achievement_revocations.sql";
+import m0018 from "./0018_domain_event_retries.sql";
 import journal from "./meta/_journal.json";
 
 export default {
@@ -13,5 +27,19 @@ export default {
 		m0002,
 		m0003,
 		m0004,
+		m0005,
+		m0006,
+		m0007,
+		m0008,
+		m0009,
+		m0010,
+		m0011,
+		m0012,
+		m0013,
+		m0014,
+		m0015,
+		m0016,
+		m0017,
+		m0018,
 	},
 };
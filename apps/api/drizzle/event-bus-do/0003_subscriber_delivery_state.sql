@@ -0,0 +1,57 @@
+CREATE TABLE `__new_pending_events` (
+  `id` text NOT NULL,
+  `subscriber` text NOT NULL,
+  `event` text NOT NULL,
+  `attempts` integer DEFAULT 0 NOT NULL,
+  `next_retry_at` text NOT NULL,
+  `created_at` text NOT NULL,
+  PRIMARY KEY (`id`, `subscriber`)
+);
+--> statement-breakpoint
+INSERT INTO `__new_pending_events` (`id`, `subscriber`, `event`, `attempts`, `next_retry_at`, `created_at`)
+SELECT `id`, 'achievements', `event`, `attempts`, `next_retry_at`, `created_at` FROM `pending_events`;
+--> statement-breakpoint
+DROP TABLE `pending_events`;
+--> statement-breakpoint
+ALTER TABLE `__new_pending_events` RENAME TO `pending_events`;
+--> statement-breakpoint
+CREATE INDEX `idx_pending_next_retry` ON `pending_events` (`next_retry_at`);
+--> statement-breakpoint
+CREATE INDEX `idx_pending_subscriber_created` ON `pending_events` (`subscriber`, `created_at`);
+--> statement-breakpoint
+CREATE TABLE `__new_dead_letter_queue` (
+  `id` text NOT NULL,
+  `subscriber` text NOT NULL,
+  `event` text NOT NULL,
+  `error` text NOT NULL,
+  `attempts` integer NOT NULL,
+  `first_failed_at` text NOT NULL,
+  `last_failed_at` text NOT NULL,
+  `expires_at` text NOT NULL,
+  PRIMARY KEY (`id`, `subscriber`)
+);
+--> statement-breakpoint
+INSERT INTO `__new_dead_letter_queue` (`id`, `subscriber`, `event`, `error`, `attempts`, `first_failed_at`, `last_failed_at`, `expires_at`)
+SELECT `id`, 'achievements', `event`, `error`, `attempts`, `first_failed_at`, `last_failed_at`, `expires_at` FROM `dead_letter_queue`;
+--> statement-breakpoint
+DROP TABLE `dead_letter_queue`;
+--> statement-breakpoint
+ALTER TABLE `__new_dead_letter_queue` RENAME TO `dead_letter_queue`;
+--> statement-breakpoint
+CREATE INDEX `idx_dlq_expires_at` ON `dead_letter_queue` (`expires_at`);
+--> statement-breakpoint
+CREATE TABLE `__new_delivered_events` (
+  `id` text NOT NULL,
+  `subscriber` text NOT NULL,
+  `delivered_at` text NOT NULL,
+  PRIMARY KEY (`id`, `subscriber`)
+);
+--> statement-breakpoint
+INSERT INTO `__new_delivered_events` (`id`, `subscriber`, `delivered_at`)
+SELECT `id`, 'achievements', `delivered_at` FROM `delivered_events`;
+--> statement-breakpoint
+DROP TABLE `delivered_events`;
+--> statement-breakpoint
+ALTER TABLE `__new_delivered_events` RENAME TO `delivered_events`;
+--> statement-breakpoint
+CREATE INDEX `idx_delivered_subscriber_at` ON `delivered_events` (`subscriber`, `delivered_at`);
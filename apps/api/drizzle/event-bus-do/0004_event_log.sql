@@ -0,0 +1,11 @@
+CREATE TABLE `event_log` (
+  `id` text PRIMARY KEY NOT NULL,
+  `type` text NOT NULL,
+  `event` text NOT NULL,
+  `occurred_at` text NOT NULL,
+  `recorded_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_event_log_occurred` ON `event_log` (`occurred_at`,`id`);
+--> statement-breakpoint
+CREATE INDEX `idx_event_log_recorded_at` ON `event_log` (`recorded_at`);
@@ -0,0 +1,7 @@
+ALTER TABLE `dead_letter_queue` ADD `type` text DEFAULT '' NOT NULL;
+--> statement-breakpoint
+UPDATE `dead_letter_queue` SET `type` = coalesce(json_extract(`event`, '$.type'), '') WHERE json_valid(`event`);
+--> statement-breakpoint
+ALTER TABLE `dead_letter_queue` ADD `error_tag` text DEFAULT 'UnknownError' NOT NULL;
+--> statement-breakpoint
+CREATE INDEX `idx_dlq_first_failed_at` ON `dead_letter_queue` (`first_failed_at`);
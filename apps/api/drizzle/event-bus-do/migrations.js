@@ -1,6 +1,9 @@
 import m0000 from "./0000_pending_events.sql";
 import m0001 from "./0001_dead_letter_queue.sql";
 import m0002 from "./0002_delivery_receipts.sql";
+import m0003 from "./0003_subscriber_delivery_state.sql";
+import m0004 from "./0004_event_log.sql";
+import m0005 from "./0005_dead_letter_filters.sql";
 import journal from "./meta/_journal.json";
 
 export default {
@@ -9,5 +12,8 @@ export default {
 		m0000,
 		m0001,
 		m0002,
+		m0003,
+		m0004,
+		m0005,
 	},
 };
@@ -0,0 +1,20 @@
+CREATE TABLE `outbound_webhook_deliveries` (
+	`event_id` text NOT NULL,
+	`webhook_id` text NOT NULL,
+	`status` integer NOT NULL,
+	`delivered_at` text NOT NULL,
+	PRIMARY KEY(`event_id`, `webhook_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_outbound_webhook_deliveries_delivered_at` ON `outbound_webhook_deliveries` (`delivered_at`);--> statement-breakpoint
+CREATE TABLE `outbound_webhooks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`url` text NOT NULL,
+	`secret` text NOT NULL,
+	`format` text NOT NULL,
+	`topics` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
@@ -0,0 +1,7 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+	schema: "./src/durable-objects/schemas/outbound-webhook-do.schema.ts",
+	out: "./drizzle/outbound-webhook-do",
+	dialect: "sqlite",
+});
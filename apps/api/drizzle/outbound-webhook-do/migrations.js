@@ -0,0 +1,9 @@
+import m0000 from "./0000_fixed_beyonder.sql";
+import journal from "./meta/_journal.json";
+
+export default {
+	journal,
+	migrations: {
+		m0000,
+	},
+};
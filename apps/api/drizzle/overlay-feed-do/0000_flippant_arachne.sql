@@ -0,0 +1,10 @@
+CREATE TABLE `overlay_events` (
+	`cursor` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`event_id` text NOT NULL,
+	`type` text NOT NULL,
+	`event` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `overlay_events_event_id_unique` ON `overlay_events` (`event_id`);--> statement-breakpoint
+CREATE INDEX `idx_overlay_events_created_at` ON `overlay_events` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `overlay_alerts` (
+	`alert_id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`alert` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`created_at` text NOT NULL,
+	`shown_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `idx_overlay_alerts_status_created_at` ON `overlay_alerts` (`status`,`created_at`);
\ No newline at end of file
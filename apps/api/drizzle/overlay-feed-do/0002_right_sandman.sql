@@ -0,0 +1,6 @@
+CREATE TABLE `overlay_theme_presets` (
+	`name` text PRIMARY KEY NOT NULL,
+	`theme` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE `overlay_alerts` ADD `occurred_at` text;
+--> statement-breakpoint
+UPDATE `overlay_alerts` SET `occurred_at` = strftime('%Y-%m-%dT%H:%M:%fZ', json_extract(`alert`, '$.occurredAt')) WHERE json_valid(`alert`);
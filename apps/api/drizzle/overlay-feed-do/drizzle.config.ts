@@ -0,0 +1,7 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+	schema: "./src/durable-objects/schemas/overlay-feed-do.schema.ts",
+	out: "./drizzle/overlay-feed-do",
+	dialect: "sqlite",
+});
@@ -0,0 +1,15 @@
+import m0000 from "./0000_flippant_arachne.sql";
+import m0001 from "./0001_chemical_ironclad.sql";
+import m0002 from "./0002_right_sandman.sql";
+import m0003 from "./0003_alert_occurred_at.sql";
+import journal from "./meta/_journal.json";
+
+export default {
+	journal,
+	migrations: {
+		m0000,
+		m0001,
+		m0002,
+		m0003,
+	},
+};
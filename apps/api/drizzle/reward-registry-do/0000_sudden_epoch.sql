@@ -0,0 +1,21 @@
+CREATE TABLE `reward_bindings` (
+	`reward_id` text PRIMARY KEY NOT NULL,
+	`handler` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `unrecognized_redemptions` (
+	`redemption_id` text PRIMARY KEY NOT NULL,
+	`reward_id` text NOT NULL,
+	`reward_title` text NOT NULL,
+	`user_id` text NOT NULL,
+	`user_display_name` text NOT NULL,
+	`user_input` text NOT NULL,
+	`redeemed_at` text NOT NULL,
+	`recorded_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_unrecognized_redemptions_reward_id` ON `unrecognized_redemptions` (`reward_id`);--> statement-breakpoint
+CREATE INDEX `idx_unrecognized_redemptions_recorded_at` ON `unrecognized_redemptions` (`recorded_at`);
\ No newline at end of file
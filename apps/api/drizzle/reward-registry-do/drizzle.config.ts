@@ -0,0 +1,7 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+	schema: "./src/durable-objects/schemas/reward-registry-do.schema.ts",
+	out: "./drizzle/reward-registry-do",
+	dialect: "sqlite",
+});
@@ -0,0 +1,9 @@
+import m0000 from "./0000_sudden_epoch.sql";
+import journal from "./meta/_journal.json";
+
+export default {
+	journal,
+	migrations: {
+		m0000,
+	},
+};
@@ -0,0 +1,6 @@
+CREATE TABLE `skip_votes` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`user_display_name` text NOT NULL,
+	`track_id` text NOT NULL,
+	`voted_at` text NOT NULL
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `song_request_policies` (
+	`permission` text PRIMARY KEY NOT NULL,
+	`max_pending_requests` integer NOT NULL,
+	`cooldown_seconds` integer NOT NULL,
+	`updated_at` text NOT NULL
+);
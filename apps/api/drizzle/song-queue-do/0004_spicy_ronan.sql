@@ -0,0 +1,14 @@
+CREATE TABLE `track_blocklist` (
+	`kind` text NOT NULL,
+	`spotify_id` text NOT NULL,
+	`label` text,
+	`created_at` text NOT NULL,
+	PRIMARY KEY(`kind`, `spotify_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `track_content_rules` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`ban_explicit` integer NOT NULL,
+	`max_duration_seconds` integer,
+	`updated_at` text NOT NULL
+);
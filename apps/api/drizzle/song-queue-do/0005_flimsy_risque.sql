@@ -0,0 +1,2 @@
+ALTER TABLE `pending_requests` ADD `reward_id` text;--> statement-breakpoint
+ALTER TABLE `pending_requests` ADD `redemption_id` text;
\ No newline at end of file
@@ -1,5 +1,9 @@
 import m0000 from "./0000_mean_clint_barton.sql";
 import m0001 from "./0001_worried_blizzard.sql";
+import m0002 from "./0002_massive_millenium_guard.sql";
+import m0003 from "./0003_stale_colonel_america.sql";
+import m0004 from "./0004_spicy_ronan.sql";
+import m0005 from "./0005_flimsy_risque.sql";
 import journal from "./meta/_journal.json";
 
 export default {
@@ -7,5 +11,9 @@ export default {
 	migrations: {
 		m0000,
 		m0001,
+		m0002,
+		m0003,
+		m0004,
+		m0005,
 	},
 };
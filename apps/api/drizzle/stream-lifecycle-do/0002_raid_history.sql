@@ -0,0 +1,13 @@
+CREATE TABLE `raids` (
+	`id` text PRIMARY KEY NOT NULL,
+	`raider_user_id` text NOT NULL,
+	`raider_login` text NOT NULL,
+	`raider_display_name` text NOT NULL,
+	`viewers` integer NOT NULL,
+	`raided_at` text NOT NULL,
+	`stream_session_id` text,
+	`is_new_record` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_raids_raider_user_id` ON `raids` (`raider_user_id`);--> statement-breakpoint
+CREATE INDEX `idx_raids_viewers` ON `raids` (`viewers`);
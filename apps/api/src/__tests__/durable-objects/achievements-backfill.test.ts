@@ -0,0 +1,365 @@
+/**
+ * Achievement Backfill tests
+ *
+ * Tests the pure replay ordering and the AchievementsDO backfill run against
+ * seeded Song Request history and Raffle Rolls.
+ */
+
+import { runInDurableObject } from "cloudflare:test";
+import { env } from "cloudflare:workers";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { describe, expect, it } from "vite-plus/test";
+
+import { initializeDurableObjectAgentStub } from "../../adapters/cloudflare/durable-object-agent-stub";
+import {
+	createRaffleRollEvent,
+	createSongRequestSuccessEvent,
+	type SongRequestSuccessEvent,
+} from "../../domain/domain-event";
+import { AchievementsDO } from "../../durable-objects/achievements-do";
+import { replayAchievementBackfill } from "../../durable-objects/achievements/backfill";
+import * as achievementSchema from "../../durable-objects/schemas/achievements-do.schema";
+import * as songQueueSchema from "../../durable-objects/schemas/song-queue-do.schema";
+import { SONG_QUEUE_DO_NAME, SongQueueDO } from "../../durable-objects/song-queue-do";
+import { deriveSagaEventId } from "../../lib/saga-event-id";
+import { createAchievementsStub, ensureNamedTwitchTokenStub } from "../helpers/durable-objects";
+
+import type { AchievementBackfillRun } from "../../domain/achievement";
+import type { KeyboardRaffleDO } from "../../durable-objects/keyboard-raffle-do";
+
+function songRequestAt(id: string, timestamp: string, userId = "user-1"): SongRequestSuccessEvent {
+	return {
+		...createSongRequestSuccessEvent({
+			id,
+			userId,
+			userDisplayName: `Viewer ${userId}`,
+			sagaId: `saga-${id}`,
+			trackId: "spotify:track:abc123",
+		}),
+		timestamp,
+	};
+}
+
+async function seedRequestHistory(
+	requests: readonly { eventId: string; userId: string; requestedAt: string }[],
+): Promise<void> {
+	const stub = env.SONG_QUEUE_DO.get(env.SONG_QUEUE_DO.idFromName(SONG_QUEUE_DO_NAME));
+	await stub.setName(SONG_QUEUE_DO_NAME);
+	await runInDurableObject(stub, async (instance: SongQueueDO) => {
+		const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
+		for (const request of requests) {
+			await db.insert(songQueueSchema.requestHistory).values({
+				eventId: request.eventId,
+				trackId: "4iV5W9uYEdYUVa79Axb7Rh",
+				trackName: "Test Track",
+				artists: JSON.stringify(["Test Artist"]),
+				album: "Test Album",
+				albumCoverUrl: null,
+				requesterUserId: request.userId,
+				requesterDisplayName: `Viewer ${request.userId}`,
+				requestedAt: request.requestedAt,
+				fulfilledAt: request.requestedAt,
+			});
+		}
+	});
+}
+
+async function waitForBackfillRun(
+	stub: DurableObjectStub<AchievementsDO>,
+	runId: string,
+	maxPolls = 200,
+): Promise<AchievementBackfillRun> {
+	for (let poll = 0; poll < maxPolls; poll += 1) {
+		const result = await stub.getBackfillRun(runId);
+		if (result.status === "ok" && result.value !== null) {
+			if (result.value.status === "completed" || result.value.status === "failed") {
+				return result.value;
+			}
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+	throw new Error(`Timed out waiting for achievement backfill ${runId}`);
+}
+
+describe("replayAchievementBackfill", () => {
+	it("replays events oldest first, skipping ones already processed", () => {
+		const definitions = [
+			{
+				id: "request_2",
+				name: "Two Requests",
+				description: "Request two songs",
+				icon: "1f3b6",
+				category: "song_request" as const,
+				threshold: 2,
+				triggerEvent: "song_request" as const,
+				scope: "cumulative" as const,
+				rule: null,
+			},
+		];
+		const replay = replayAchievementBackfill({
+			events: [
+				songRequestAt("event-c", "2026-01-03T00:00:00.000Z"),
+				songRequestAt("event-a", "2026-01-01T00:00:00.000Z"),
+				songRequestAt("event-b", "2026-01-02T00:00:00.000Z"),
+				songRequestAt("event-a", "2026-01-01T00:00:00.000Z"),
+			],
+			definitions,
+			viewers: new Map(),
+			creditedAchievementIds: new Map([["event-b", new Set(["request_2"])]]),
+		});
+
+		expect(replay.replayedEvents.map((event) => event.id)).toEqual(["event-a", "event-c"]);
+		expect(replay.changes).toEqual([
+			expect.objectContaining({
+				userId: "user-1",
+				achievementId: "request_2",
+				progressBefore: 0,
+				progress: 2,
+				unlockedAt: "2026-01-03T00:00:00.000Z",
+				newlyUnlocked: true,
+			}),
+		]);
+	});
+
+	it("counts events already credited elsewhere toward a definition created after them", () => {
+		const definition = {
+			id: "request_2",
+			name: "Two Requests",
+			description: "Request two songs",
+			icon: "1f3b6",
+			category: "song_request" as const,
+			threshold: 2,
+			triggerEvent: "song_request" as const,
+			scope: "cumulative" as const,
+			rule: null,
+		};
+		const replay = replayAchievementBackfill({
+			events: [
+				songRequestAt("event-a", "2026-01-01T00:00:00.000Z"),
+				songRequestAt("event-b", "2026-01-02T00:00:00.000Z"),
+			],
+			definitions: [definition, { ...definition, id: "request_3", threshold: 3 }],
+			viewers: new Map([
+				[
+					"user-1",
+					{
+						progressByAchievementId: new Map([
+							[
+								"request_3",
+								{
+									achievementId: "request_3",
+									progress: 2,
+									unlockedAt: null,
+									level: 0,
+									eventId: null,
+								},
+							],
+						]),
+						eventHistory: [],
+					},
+				],
+			]),
+			creditedAchievementIds: new Map([
+				["event-a", new Set(["request_3"])],
+				["event-b", new Set(["request_3"])],
+			]),
+		});
+
+		expect(replay.changes).toEqual([
+			expect.objectContaining({ achievementId: "request_2", progressBefore: 0, progress: 2 }),
+		]);
+		expect(replay.credits).toEqual([
+			expect.objectContaining({ eventId: "event-a", achievementId: "request_2" }),
+			expect.objectContaining({ eventId: "event-b", achievementId: "request_2" }),
+		]);
+	});
+
+	it("orders raffle rolls after earlier requests regardless of source", () => {
+		const replay = replayAchievementBackfill({
+			events: [
+				{
+					...createRaffleRollEvent({
+						id: "roll-1",
+						userId: "user-1",
+						userDisplayName: "Viewer user-1",
+						sagaId: "saga-roll-1",
+						roll: 10,
+						winningNumber: 5000,
+						distance: 4990,
+						isWinner: false,
+						isNewRecord: false,
+					}),
+					timestamp: "2026-01-02T00:00:00.000Z",
+				},
+				songRequestAt("request-1", "2026-01-01T00:00:00.000Z"),
+			],
+			definitions: [],
+			viewers: new Map(),
+			creditedAchievementIds: new Map(),
+		});
+
+		expect(replay.replayedEvents.map((event) => event.id)).toEqual(["request-1", "roll-1"]);
+	});
+});
+
+describe("AchievementsDO backfill", () => {
+	it("previews, applies, and skips history already counted", async () => {
+		await ensureNamedTwitchTokenStub();
+		const userId = `user-${crypto.randomUUID()}`;
+		const requests = Array.from({ length: 3 }, (_, index) => ({
+			eventId: `backfill-${crypto.randomUUID()}`,
+			userId,
+			requestedAt: `2026-01-0${index + 1}T12:00:00.000Z`,
+		}));
+		await seedRequestHistory(requests);
+		const raffle = await initializeDurableObjectAgentStub(
+			env.KEYBOARD_RAFFLE_DO.getByName("keyboard-raffle"),
+			"keyboard-raffle",
+		);
+		const rollId = `roll-${crypto.randomUUID()}`;
+		const rollResult = await (raffle as DurableObjectStub<KeyboardRaffleDO>).recordRoll({
+			id: rollId,
+			userId,
+			displayName: `Viewer ${userId}`,
+			roll: 100,
+			winningNumber: 5000,
+			rolledAt: "2026-01-04T12:00:00.000Z",
+		});
+		expect(rollResult.status).toBe("ok");
+
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const [firstRequest] = requests;
+		if (firstRequest === undefined) throw new Error("Expected seeded request history");
+		// The first request was already counted live, so the backfill must not count it again.
+		await stub.handleEvent(
+			createSongRequestSuccessEvent({
+				id: await deriveSagaEventId(firstRequest.eventId),
+				userId,
+				userDisplayName: `Viewer ${userId}`,
+				sagaId: firstRequest.eventId,
+				trackId: "spotify:track:abc123",
+			}),
+		);
+
+		const dryRunStart = await stub.startBackfill({ dryRun: true });
+		expect(dryRunStart.status).toBe("ok");
+		if (dryRunStart.status !== "ok") return;
+		const conflict = await stub.startBackfill({});
+		expect(conflict.status === "error" ? conflict.error._tag : null).toBe(
+			"AchievementBackfillInProgressError",
+		);
+		const dryRun = await waitForBackfillRun(stub, dryRunStart.value.id);
+		expect(dryRun).toMatchObject({ mode: "dry_run", status: "completed", replayedEvents: 3 });
+		expect(dryRun.changes).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ userId, achievementId: "first_roll", progressAfter: 1 }),
+				expect.objectContaining({
+					userId,
+					achievementId: "request_10",
+					progressBefore: 1,
+					progressAfter: 3,
+				}),
+			]),
+		);
+		const beforeApply = await stub.getUserAchievements(`Viewer ${userId}`);
+		expect(
+			beforeApply.status === "ok"
+				? (beforeApply.value.find((achievement) => achievement.achievementId === "first_roll")
+						?.progress ?? 0)
+				: null,
+		).toBe(0);
+
+		const applyStart = await stub.startBackfill({});
+		expect(applyStart.status).toBe("ok");
+		if (applyStart.status !== "ok") return;
+		const applied = await waitForBackfillRun(stub, applyStart.value.id);
+		expect(applied).toMatchObject({
+			mode: "apply",
+			status: "completed",
+			collectedEvents: 4,
+			replayedEvents: 3,
+			// The only roll so far is both a first roll and the closest record.
+			unlockedAchievements: 2,
+			changes: null,
+		});
+
+		const rows = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.userAchievements)
+				.where(eq(achievementSchema.userAchievements.userId, userId));
+		});
+		const byId = new Map(rows.map((row) => [row.achievementId, row]));
+		expect(byId.get("request_10")?.progress).toBe(3);
+		expect(byId.get("first_roll")).toMatchObject({
+			progress: 1,
+			unlockedAt: "2026-01-04T12:00:00.000Z",
+			announcementState: "suppressed",
+		});
+		expect(byId.get("closest_ever")?.announcementState).toBe("suppressed");
+
+		const rerunStart = await stub.startBackfill({});
+		if (rerunStart.status !== "ok") throw new Error("Expected the rerun to start");
+		const rerun = await waitForBackfillRun(stub, rerunStart.value.id);
+		expect(rerun).toMatchObject({ status: "completed", replayedEvents: 0 });
+		const latest = await stub.getBackfillRun();
+		expect(latest.status === "ok" ? latest.value?.id : null).toBe(rerunStart.value.id);
+	});
+
+	it("credits earlier live history to a definition created afterwards", async () => {
+		await ensureNamedTwitchTokenStub();
+		const userId = `user-${crypto.randomUUID()}`;
+		const requests = Array.from({ length: 2 }, (_, index) => ({
+			eventId: `late-definition-${crypto.randomUUID()}`,
+			userId,
+			requestedAt: `2026-02-0${index + 1}T12:00:00.000Z`,
+		}));
+		await seedRequestHistory(requests);
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		for (const request of requests) {
+			const handled = await stub.handleEvent(
+				createSongRequestSuccessEvent({
+					id: await deriveSagaEventId(request.eventId),
+					userId,
+					userDisplayName: `Viewer ${userId}`,
+					sagaId: request.eventId,
+					trackId: "spotify:track:abc123",
+				}),
+			);
+			expect(handled.status).toBe("ok");
+		}
+		const created = await stub.createDefinition({
+			id: "late_requests_2",
+			name: "Late Bloomer",
+			description: "Request two songs",
+			icon: "1f3b6",
+			category: "song_request",
+			threshold: 2,
+			triggerEvent: "song_request",
+			scope: "cumulative",
+		});
+		expect(created.status).toBe("ok");
+
+		const start = await stub.startBackfill({});
+		if (start.status !== "ok") throw new Error("Expected the backfill to start");
+		expect(await waitForBackfillRun(stub, start.value.id)).toMatchObject({ status: "completed" });
+
+		const rows = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.userAchievements)
+				.where(eq(achievementSchema.userAchievements.userId, userId));
+		});
+		const byId = new Map(rows.map((row) => [row.achievementId, row]));
+		expect(byId.get("late_requests_2")).toMatchObject({
+			progress: 2,
+			unlockedAt: "2026-02-02T12:00:00.000Z",
+			announcementState: "suppressed",
+		});
+		// Definitions that existed when the requests arrived counted them live, not again.
+		expect(byId.get("request_10")?.progress).toBe(2);
+	});
+});
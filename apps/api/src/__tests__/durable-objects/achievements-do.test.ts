@@ -4,12 +4,18 @@
  * Tests public achievement behavior through the Durable Object interface.
  */
 
+import { Result } from "better-result";
 import { runInDurableObject } from "cloudflare:test";
+import { env } from "cloudflare:workers";
 import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
-import { describe, expect, it } from "vite-plus/test";
+import { describe, expect, it, vi } from "vite-plus/test";
 
+import { initializeDurableObjectAgentStub } from "../../adapters/cloudflare/durable-object-agent-stub";
+import { DurableObjectDomainEventPublisher } from "../../adapters/cloudflare/durable-object-domain-event-publisher";
+import { DomainEventPublishError } from "../../capabilities/domain-event-publisher";
 import {
+	createChatMessageObservedEvent,
 	createRaffleRollEvent,
 	createSongRequestSuccessEvent,
 	createStreamOfflineEvent,
@@ -17,8 +23,11 @@ import {
 } from "../../domain/domain-event";
 import { AchievementsDO } from "../../durable-objects/achievements-do";
 import * as achievementSchema from "../../durable-objects/schemas/achievements-do.schema";
+import { HISTORICAL_EVENT_FIXTURES } from "../fixtures/domain-events";
 import { createAchievementsStub, ensureNamedTwitchTokenStub } from "../helpers/durable-objects";
 
+import type { RaffleLeaderboardEntry } from "../../domain/keyboard-raffle";
+
 describe("AchievementsDO", () => {
 	it("unlocks first-request achievements for the first successful request of a stream", async () => {
 		await ensureNamedTwitchTokenStub();
@@ -53,6 +62,24 @@ describe("AchievementsDO", () => {
 		}
 	});
 
+	it("counts Song Request Success events persisted at an older schema version", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+
+		const result = await stub.handleEvent({
+			...HISTORICAL_EVENT_FIXTURES.song_request_success[1],
+			id: crypto.randomUUID(),
+			sagaId: `saga-${crypto.randomUUID()}`,
+		});
+		expect(result.status).toBe("ok");
+
+		const progress = await stub.getUserAchievements("TestUser");
+		expect(progress.status).toBe("ok");
+		if (progress.status === "ok") {
+			expect(progress.value.find((item) => item.achievementId === "request_10")?.progress).toBe(1);
+		}
+	});
+
 	it("resets session achievements on stream start without clearing cumulative unlocks", async () => {
 		await ensureNamedTwitchTokenStub();
 		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
@@ -218,6 +245,140 @@ describe("AchievementsDO", () => {
 		expect(effect).toMatchObject({
 			effectId: `${event.id}:first_request`,
 			metricState: "claimed",
+			achievementIcon: "1f3b5",
+			overlayState: "sent",
+			domainEventState: "sent",
+		});
+	});
+
+	it("retries a failed achievement_unlocked publish with backoff before abandoning it", async () => {
+		await ensureNamedTwitchTokenStub();
+		const publish = vi
+			.spyOn(DurableObjectDomainEventPublisher.prototype, "publish")
+			.mockImplementation(async (event) =>
+				Result.err(
+					new DomainEventPublishError({
+						eventId: event.id,
+						eventType: event.type,
+						failure: "transport",
+					}),
+				),
+			);
+		try {
+			const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+			const event = createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "unpublished-viewer",
+				userDisplayName: "UnpublishedViewer",
+				sagaId: "saga-unpublished",
+				trackId: "spotify:track:unpublished",
+			});
+			expect((await stub.handleEvent(event)).status).toBe("ok");
+			const effectId = `${event.id}:first_request`;
+
+			const result = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+				const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+				const readEffect = async () => {
+					const [row] = await db
+						.select()
+						.from(achievementSchema.achievementUnlockOutbox)
+						.where(eq(achievementSchema.achievementUnlockOutbox.effectId, effectId));
+					return row;
+				};
+
+				await instance.processAchievementUnlockEffects({ effectId });
+				const retrying = await readEffect();
+				const retries = instance
+					.getSchedules()
+					.filter((schedule) => schedule.callback === "processAchievementUnlockEffects");
+
+				await db
+					.update(achievementSchema.achievementUnlockOutbox)
+					.set({ domainEventAttempts: 4 })
+					.where(eq(achievementSchema.achievementUnlockOutbox.effectId, effectId));
+				await instance.processAchievementUnlockEffects({ effectId });
+				return { retrying, retries, exhausted: await readEffect() };
+			});
+
+			expect(result.retrying).toMatchObject({ domainEventState: "pending" });
+			expect(result.retrying?.domainEventAttempts).toBeGreaterThan(0);
+			expect(result.retries).toContainEqual(
+				expect.objectContaining({ payload: { effectId }, type: "delayed" }),
+			);
+			expect(result.exhausted).toMatchObject({ domainEventState: "abandoned" });
+		} finally {
+			publish.mockRestore();
+		}
+	});
+
+	it("records replayed unlocks as suppressed instead of announcing them", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const event = createSongRequestSuccessEvent({
+			id: crypto.randomUUID(),
+			userId: "replay-viewer",
+			userDisplayName: "ReplayViewer",
+			sagaId: "saga-replay",
+			trackId: "spotify:track:replay",
+		});
+
+		expect((await stub.handleEvent(event, { replay: true })).status).toBe("ok");
+
+		const state = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return {
+				outbox: await db.select().from(achievementSchema.achievementUnlockOutbox),
+				unlocks: await db
+					.select()
+					.from(achievementSchema.userAchievements)
+					.where(eq(achievementSchema.userAchievements.userId, "replay-viewer")),
+			};
+		});
+		expect(state.outbox).toEqual([]);
+		expect(state.unlocks).toContainEqual(
+			expect.objectContaining({ achievementId: "first_request", announcementState: "suppressed" }),
+		);
+	});
+
+	it("rebuilds progress from a replayed event that was already delivered without counting it twice", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const event = createSongRequestSuccessEvent({
+			id: crypto.randomUUID(),
+			userId: "rebuild-viewer",
+			userDisplayName: "RebuildViewer",
+			sagaId: "saga-rebuild",
+			trackId: "spotify:track:rebuild",
+		});
+		expect((await stub.handleEvent(event)).status).toBe("ok");
+		const created = await stub.createDefinition({
+			id: "rebuilt_request",
+			name: "Rebuilt",
+			description: "Request a song before this existed",
+			icon: "1f3b6",
+			category: "song_request",
+			threshold: 1,
+			triggerEvent: "song_request",
+			scope: "cumulative",
+		});
+		expect(created.status).toBe("ok");
+
+		expect((await stub.handleEvent(event, { replay: true })).status).toBe("ok");
+		expect((await stub.handleEvent(event, { replay: true })).status).toBe("ok");
+
+		const rows = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.userAchievements)
+				.where(eq(achievementSchema.userAchievements.userId, "rebuild-viewer"));
+		});
+		const byId = new Map(rows.map((row) => [row.achievementId, row]));
+		expect(byId.get("request_10")?.progress).toBe(1);
+		expect(byId.get("rebuilt_request")).toMatchObject({
+			progress: 1,
+			level: 1,
+			announcementState: "suppressed",
 		});
 	});
 
@@ -235,6 +396,793 @@ describe("AchievementsDO", () => {
 		}
 	});
 
+	it("reports each Achievement's rarity with its first and latest unlocker", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		for (const userId of ["user-a", "user-b"]) {
+			await stub.handleEvent(
+				createSongRequestSuccessEvent({
+					id: crypto.randomUUID(),
+					userId,
+					userDisplayName: `Requester ${userId}`,
+					sagaId: `saga-${userId}`,
+					trackId: "spotify:track:abc123",
+				}),
+			);
+		}
+		for (const userId of ["user-c", "user-d"]) {
+			await stub.handleEvent(
+				createRaffleRollEvent({
+					id: crypto.randomUUID(),
+					userId,
+					userDisplayName: `Roller ${userId}`,
+					sagaId: `saga-${userId}`,
+					roll: 4242,
+					winningNumber: 1234,
+					distance: 3008,
+					isWinner: false,
+					isNewRecord: false,
+				}),
+			);
+		}
+
+		const definitions = await stub.getDefinitions();
+
+		expect(definitions.status).toBe("ok");
+		if (definitions.status === "ok") {
+			const byId = new Map(definitions.value.map((definition) => [definition.id, definition]));
+			expect(byId.get("first_request")?.rarity).toEqual({
+				unlockedCount: 2,
+				knownViewers: 4,
+				percentage: 50,
+				firstUnlocker: expect.objectContaining({
+					userId: "user-a",
+					userDisplayName: "Requester user-a",
+				}),
+				latestUnlocker: expect.objectContaining({ userId: "user-b" }),
+			});
+			expect(byId.get("biggest_raid")?.rarity).toEqual({
+				unlockedCount: 0,
+				knownViewers: 4,
+				percentage: 0,
+				firstUnlocker: null,
+				latestUnlocker: null,
+			});
+		}
+	});
+
+	it("builds a Viewer profile from a case-insensitive login lookup", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		await stub.handleEvent(
+			createStreamOnlineEvent({
+				id: crypto.randomUUID(),
+				streamId: "stream-profile",
+				startedAt: "2026-04-07T14:15:00.000Z",
+			}),
+		);
+		await stub.handleEvent({
+			...createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "user-profile",
+				userDisplayName: "ProfileUser",
+				sagaId: "saga-profile",
+				trackId: "spotify:track:abc123",
+			}),
+			timestamp: "2026-04-07T14:20:00.000Z",
+		});
+
+		const [profile, unknown, invalid] = await Promise.all([
+			stub.getViewerProfile("@profileuser"),
+			stub.getViewerProfile("nobody"),
+			stub.getViewerProfile(""),
+		]);
+
+		expect(profile.status).toBe("ok");
+		if (profile.status === "ok") {
+			expect(profile.value).toMatchObject({
+				userId: "user-profile",
+				userDisplayName: "ProfileUser",
+				requestStreak: { sessionStreak: 1, longestStreak: 1 },
+			});
+			expect(
+				profile.value?.achievements.find(
+					(achievement) => achievement.achievementId === "first_request",
+				),
+			).toMatchObject({ unlocked: true });
+			expect(profile.value?.recentActivity).toContainEqual({
+				kind: "song_request",
+				occurredAt: "2026-04-07T14:20:00.000Z",
+				trackId: "spotify:track:abc123",
+			});
+			expect(profile.value?.recentActivity).toContainEqual(
+				expect.objectContaining({ kind: "achievement_unlocked", achievementId: "first_request" }),
+			);
+		}
+		expect(unknown).toEqual({ status: "ok", value: null });
+		expect(invalid.status).toBe("error");
+	});
+
+	it("rejects Achievement Definitions the rules cannot evaluate", async () => {
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const definition = {
+			id: "streak_2",
+			name: "Warming Up",
+			description: "2 successful requests in a row",
+			icon: "1f321",
+			category: "engagement",
+			threshold: 2,
+			triggerEvent: "request_streak",
+			scope: "session",
+		};
+
+		const shortStreak = await stub.createDefinition(definition);
+		const uncountedRolls = await stub.createDefinition({
+			...definition,
+			id: "any_roll",
+			threshold: null,
+			triggerEvent: "raffle_roll",
+		});
+		const duplicate = await stub.createDefinition({
+			...definition,
+			id: "first_request",
+			threshold: 3,
+		});
+		const streakWithoutThreshold = await stub.updateDefinition("streak_3", { threshold: null });
+
+		for (const rejected of [shortStreak, uncountedRolls, streakWithoutThreshold]) {
+			expect(rejected.status).toBe("error");
+			if (rejected.status === "error") {
+				expect(rejected.error._tag).toBe("AchievementDefinitionValidationError");
+			}
+		}
+		expect(duplicate.status).toBe("error");
+		if (duplicate.status === "error") {
+			expect(duplicate.error._tag).toBe("AchievementDefinitionConflictError");
+		}
+	});
+
+	it("folds request milestones into one tiered Achievement and repeats repeatable ones", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+
+		const definitions = await stub.getDefinitions();
+		expect(definitions.status).toBe("ok");
+		if (definitions.status === "ok") {
+			const ids = definitions.value.map((definition) => definition.id);
+			expect(ids).not.toContain("request_50");
+			expect(ids).not.toContain("roll_100");
+			expect(definitions.value.find((definition) => definition.id === "request_10")).toMatchObject({
+				threshold: 10,
+				tiers: [50, 100],
+				repeatable: false,
+			});
+		}
+
+		const tieredRepeatable = await stub.createDefinition({
+			id: "roll_every_2",
+			name: "Regular Roller",
+			description: "Every 2 raffle rolls",
+			icon: "1f3b2",
+			category: "raffle",
+			threshold: 2,
+			triggerEvent: "raffle_roll",
+			tiers: [4],
+			repeatable: true,
+		});
+		expect(tieredRepeatable.status === "error" ? tieredRepeatable.error._tag : null).toBe(
+			"AchievementDefinitionValidationError",
+		);
+		const repeatable = await stub.createDefinition({
+			id: "roll_every_2",
+			name: "Regular Roller",
+			description: "Every 2 raffle rolls",
+			icon: "1f3b2",
+			category: "raffle",
+			threshold: 2,
+			triggerEvent: "raffle_roll",
+			repeatable: true,
+		});
+		expect(repeatable.status).toBe("ok");
+
+		for (const index of [1, 2, 3, 4]) {
+			await stub.handleEvent(
+				createRaffleRollEvent({
+					id: crypto.randomUUID(),
+					userId: "repeat-viewer",
+					userDisplayName: "RepeatViewer",
+					sagaId: `saga-repeat-${index}`,
+					roll: 100,
+					winningNumber: 5000,
+					distance: 4900,
+					isWinner: false,
+					isNewRecord: false,
+				}),
+			);
+		}
+
+		const unlocked = await stub.getUnlockedAchievements("RepeatViewer");
+		expect(unlocked.status).toBe("ok");
+		if (unlocked.status === "ok") {
+			expect(unlocked.value.find((achievement) => achievement.id === "roll_every_2")).toMatchObject(
+				{ level: 2, levelLabel: "×2" },
+			);
+		}
+		const effects = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.achievementUnlockOutbox)
+				.where(eq(achievementSchema.achievementUnlockOutbox.achievementId, "roll_every_2"));
+		});
+		expect(effects.map((effect) => effect.level).sort()).toEqual([1, 2]);
+	});
+
+	it("awards the First Chatter once and counts each chatted stream once per Viewer", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const chat = (userId: string, commandName: string | null = null) =>
+			stub.handleEvent(
+				createChatMessageObservedEvent({
+					id: crypto.randomUUID(),
+					userId,
+					userDisplayName: `Chatter ${userId}`,
+					commandName,
+				}),
+			);
+
+		await chat("early-chatter");
+		await stub.handleEvent(
+			createStreamOnlineEvent({
+				id: crypto.randomUUID(),
+				streamId: "stream-chat",
+				startedAt: new Date().toISOString(),
+			}),
+		);
+		await chat("first-chatter");
+		await chat("first-chatter", "song");
+		await chat("second-chatter");
+
+		const progressOf = async (userId: string) => {
+			const result = await stub.getUserAchievements(`Chatter ${userId}`);
+			if (result.status !== "ok") throw new Error("Expected Achievement Progress");
+			return new Map(result.value.map((achievement) => [achievement.achievementId, achievement]));
+		};
+		const first = await progressOf("first-chatter");
+		expect(first.get("first_chatter")?.unlockedAt).toEqual(expect.any(String));
+		expect(first.get("familiar_face")?.progress).toBe(1);
+		expect(first.get("chatterbox")?.progress).toBe(2);
+		expect(first.get("first_command")?.unlockedAt).toEqual(expect.any(String));
+		const second = await progressOf("second-chatter");
+		expect(second.get("first_chatter")?.unlockedAt ?? null).toBeNull();
+		expect(second.get("familiar_face")?.progress).toBe(1);
+		const early = await progressOf("early-chatter");
+		expect(early.get("familiar_face")?.progress ?? 0).toBe(0);
+	});
+
+	it("unlocks Viewers whose existing progress meets a lowered threshold", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		for (const index of [1, 2, 3]) {
+			await stub.handleEvent(
+				createSongRequestSuccessEvent({
+					id: crypto.randomUUID(),
+					userId: "threshold-viewer",
+					userDisplayName: "ThresholdViewer",
+					sagaId: `saga-threshold-${index}`,
+					trackId: `spotify:track:threshold-${index}`,
+				}),
+			);
+		}
+
+		const raised = await stub.updateDefinition("request_10", { threshold: 20 });
+		expect(raised).toMatchObject({ status: "ok", value: { unlockedViewers: 0 } });
+		const lowered = await stub.updateDefinition("request_10", { threshold: 3 });
+		expect(lowered).toMatchObject({
+			status: "ok",
+			value: { definition: { id: "request_10", threshold: 3 }, unlockedViewers: 1 },
+		});
+
+		const unlocked = await stub.getUnlockedAchievements("ThresholdViewer");
+		expect(unlocked.status).toBe("ok");
+		if (unlocked.status === "ok") {
+			expect(unlocked.value.map((achievement) => achievement.id)).toContain("request_10");
+		}
+		const effects = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.achievementUnlockOutbox)
+				.where(eq(achievementSchema.achievementUnlockOutbox.achievementId, "request_10"));
+		});
+		expect(effects).toEqual([
+			expect.objectContaining({
+				userId: "threshold-viewer",
+				achievementName: "DJ",
+				level: 1,
+				levelLabel: "Bronze",
+			}),
+		]);
+	});
+
+	it("grants and revokes Achievements by hand with an audit trail", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		await stub.handleEvent(
+			createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "moderated-viewer",
+				userDisplayName: "ModeratedViewer",
+				sagaId: "saga-moderated",
+				trackId: "spotify:track:moderated",
+			}),
+		);
+		const unlockCount = async () => {
+			const leaderboard = await stub.getLeaderboard({ limit: 10 });
+			return leaderboard.status === "ok" ? (leaderboard.value[0]?.count ?? 0) : null;
+		};
+		const before = await unlockCount();
+		const input = {
+			achievementId: "request_10",
+			viewer: "@moderatedviewer",
+			reason: "Requested plenty before the bot existed",
+			actor: "SomeMod",
+		};
+
+		const granted = await stub.grantAchievement(input);
+		expect(granted).toMatchObject({
+			status: "ok",
+			value: { action: "grant", userId: "moderated-viewer", userDisplayName: "ModeratedViewer" },
+		});
+		expect(await stub.grantAchievement(input)).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementModerationConflictError", reason: "unlocked" },
+		});
+		expect(await unlockCount()).toBe((before ?? 0) + 1);
+		const effects = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementSchema });
+			return db
+				.select()
+				.from(achievementSchema.achievementUnlockOutbox)
+				.where(eq(achievementSchema.achievementUnlockOutbox.achievementId, "request_10"));
+		});
+		expect(effects).toEqual([
+			expect.objectContaining({ userId: "moderated-viewer", level: 1, levelLabel: "Bronze" }),
+		]);
+
+		const revoked = await stub.revokeAchievement({ ...input, reason: "Granted by mistake" });
+		expect(revoked).toMatchObject({ status: "ok", value: { action: "revoke" } });
+		expect(await stub.revokeAchievement(input)).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementModerationConflictError", reason: "locked" },
+		});
+		expect(await unlockCount()).toBe(before);
+		const progress = await stub.getUserAchievements("ModeratedViewer");
+		expect(progress.status).toBe("ok");
+		if (progress.status === "ok") {
+			expect(
+				progress.value.find((achievement) => achievement.achievementId === "request_10"),
+			).toMatchObject({
+				progress: 0,
+				unlocked: false,
+			});
+		}
+
+		expect(await stub.grantAchievement({ ...input, viewer: "nobody" })).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementViewerNotFoundError" },
+		});
+		expect(await stub.grantAchievement({ ...input, achievementId: "missing" })).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementNotFoundError" },
+		});
+		expect(await stub.grantAchievement({ ...input, reason: " " })).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementQueryValidationError" },
+		});
+		const audit = await stub.getModerationAudit({ achievementId: "request_10" });
+		expect(audit).toMatchObject({
+			status: "ok",
+			value: [
+				{ action: "revoke", reason: "Granted by mistake", actor: "SomeMod" },
+				{ action: "grant", reason: "Requested plenty before the bot existed" },
+			],
+		});
+	});
+
+	it("stops progress for disabled and retired definitions while keeping earned unlocks", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const requestSong = (index: number) =>
+			stub.handleEvent(
+				createSongRequestSuccessEvent({
+					id: crypto.randomUUID(),
+					userId: "lifecycle-viewer",
+					userDisplayName: "LifecycleViewer",
+					sagaId: `saga-lifecycle-${index}`,
+					trackId: `spotify:track:lifecycle-${index}`,
+				}),
+			);
+
+		await requestSong(1);
+		expect((await stub.updateDefinition("request_10", { status: "disabled" })).status).toBe("ok");
+		await requestSong(2);
+		const definitions = await stub.getDefinitions();
+		expect(
+			definitions.status === "ok" ? definitions.value.map((definition) => definition.id) : [],
+		).not.toContain("request_10");
+		const progress = await stub.getUserAchievements("LifecycleViewer");
+		expect(
+			progress.status === "ok" ? progress.value.map((item) => item.achievementId) : [],
+		).toEqual(expect.not.arrayContaining(["request_10"]));
+
+		expect((await stub.updateDefinition("request_10", { status: "active" })).status).toBe("ok");
+		const retired = await stub.retireDefinition("first_request");
+		expect(retired).toMatchObject({ status: "ok", value: { status: "retired" } });
+		await requestSong(3);
+
+		const reactivated = await stub.getUserAchievements("LifecycleViewer");
+		if (reactivated.status === "ok") {
+			const byId = new Map(reactivated.value.map((item) => [item.achievementId, item]));
+			expect(byId.get("request_10")?.progress).toBe(2);
+			expect(byId.has("first_request")).toBe(false);
+		}
+		const unlocked = await stub.getUnlockedAchievements("LifecycleViewer");
+		expect(unlocked.status === "ok" ? unlocked.value.map((item) => item.id) : []).toContain(
+			"first_request",
+		);
+		const editRetired = await stub.updateDefinition("first_request", { threshold: 2 });
+		const recreateRetired = await stub.createDefinition({
+			id: "first_request",
+			name: "First Timer",
+			description: "Request your first song",
+			icon: "1f3b5",
+			category: "song_request",
+			threshold: 1,
+			triggerEvent: "song_request",
+		});
+		for (const rejected of [editRetired, recreateRetired]) {
+			expect(rejected).toMatchObject({
+				status: "error",
+				error: { _tag: "AchievementDefinitionConflictError", reason: "retired" },
+			});
+		}
+		const managed = await stub.listManagedDefinitions();
+		expect(managed.status === "ok" ? managed.value : []).toEqual(
+			expect.arrayContaining([expect.objectContaining({ id: "first_request", status: "retired" })]),
+		);
+	});
+
+	it("unlocks a rule achievement from the Viewer's earlier events", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const rule = {
+			kind: "all",
+			rules: [
+				{ kind: "count", event: "raffle_roll", scope: "cumulative", atLeast: 1 },
+				{ kind: "count", event: "song_request", scope: "cumulative", atLeast: 1 },
+			],
+		};
+		const definition = {
+			id: "all_rounder",
+			name: "All-Rounder",
+			description: "Enter a raffle and request a song",
+			icon: "1f3af",
+			category: "special",
+			threshold: null,
+			triggerEvent: "rule",
+			rule,
+		};
+
+		const misplacedRule = await stub.createDefinition({
+			...definition,
+			threshold: 5,
+			triggerEvent: "song_request",
+		});
+		expect(misplacedRule).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementDefinitionValidationError" },
+		});
+		expect(await stub.createDefinition(definition)).toMatchObject({
+			status: "ok",
+			value: { id: "all_rounder", rule },
+		});
+
+		await stub.handleEvent(
+			createRaffleRollEvent({
+				id: crypto.randomUUID(),
+				userId: "rule-viewer",
+				userDisplayName: "RuleViewer",
+				sagaId: "saga-rule-roll",
+				roll: 1200,
+				winningNumber: 5000,
+				distance: 3800,
+				isWinner: false,
+				isNewRecord: false,
+			}),
+		);
+		const beforeRequest = await stub.getUnlockedAchievements("RuleViewer");
+		expect(
+			beforeRequest.status === "ok" ? beforeRequest.value.map((item) => item.id) : [],
+		).not.toContain("all_rounder");
+
+		await stub.handleEvent(
+			createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "rule-viewer",
+				userDisplayName: "RuleViewer",
+				sagaId: "saga-rule-request",
+				trackId: "spotify:track:rule",
+				artistIds: ["artist-a"],
+			}),
+		);
+		const afterRequest = await stub.getUnlockedAchievements("RuleViewer");
+		expect(afterRequest.status === "ok" ? afterRequest.value.map((item) => item.id) : []).toContain(
+			"all_rounder",
+		);
+	});
+
+	it("keeps a revoked rule achievement from counting the history it was revoked for", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		expect(
+			await stub.createDefinition({
+				id: "revoked_rounder",
+				name: "All-Rounder",
+				description: "Enter a raffle and request a song",
+				icon: "1f3af",
+				category: "special",
+				threshold: null,
+				triggerEvent: "rule",
+				rule: {
+					kind: "all",
+					rules: [
+						{ kind: "count", event: "raffle_roll", scope: "cumulative", atLeast: 1 },
+						{ kind: "count", event: "song_request", scope: "cumulative", atLeast: 1 },
+					],
+				},
+			}),
+		).toMatchObject({ status: "ok" });
+		const later = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+		const roll = (timestamp: string) =>
+			stub.handleEvent({
+				...createRaffleRollEvent({
+					id: crypto.randomUUID(),
+					userId: "revoked-rule-viewer",
+					userDisplayName: "RevokedRuleViewer",
+					sagaId: `saga-${crypto.randomUUID()}`,
+					roll: 1200,
+					winningNumber: 5000,
+					distance: 3800,
+					isWinner: false,
+					isNewRecord: false,
+				}),
+				timestamp,
+			});
+		const request = (timestamp: string) =>
+			stub.handleEvent({
+				...createSongRequestSuccessEvent({
+					id: crypto.randomUUID(),
+					userId: "revoked-rule-viewer",
+					userDisplayName: "RevokedRuleViewer",
+					sagaId: `saga-${crypto.randomUUID()}`,
+					trackId: "spotify:track:rule",
+				}),
+				timestamp,
+			});
+		const unlocked = async () => {
+			const result = await stub.getUnlockedAchievements("RevokedRuleViewer");
+			return result.status === "ok" && result.value.some((item) => item.id === "revoked_rounder");
+		};
+
+		await roll(later(-2));
+		await request(later(-1));
+		expect(await unlocked()).toBe(true);
+		expect(
+			await stub.revokeAchievement({
+				achievementId: "revoked_rounder",
+				viewer: "RevokedRuleViewer",
+				reason: "Alt account",
+				actor: "SomeMod",
+			}),
+		).toMatchObject({ status: "ok" });
+
+		await request(later(1));
+		expect(await unlocked()).toBe(false);
+		await roll(later(2));
+		expect(await unlocked()).toBe(true);
+	});
+
+	it("archives Season standings at rollover and resets season-scoped progress", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const raffle = await initializeDurableObjectAgentStub(
+			env.KEYBOARD_RAFFLE_DO.getByName("keyboard-raffle"),
+			"keyboard-raffle",
+		);
+		await raffle.recordRoll({
+			id: "season-roll",
+			userId: "season-viewer",
+			displayName: "SeasonViewer",
+			roll: 500,
+			winningNumber: 500,
+			rolledAt: new Date().toISOString(),
+		});
+		const seasonal = await stub.createDefinition({
+			id: "season_regular",
+			name: "Season Regular",
+			description: "Request a song this season",
+			icon: "1f343",
+			category: "song_request",
+			threshold: 1,
+			triggerEvent: "song_request",
+			scope: "season",
+		});
+		expect(seasonal).toMatchObject({ status: "ok", value: { scope: "season" } });
+		const season = {
+			id: "2026-autumn",
+			name: "Autumn 2026",
+			startsAt: "2026-01-01T00:00:00.000Z",
+			endsAt: "2099-01-01T00:00:00.000Z",
+		};
+		expect(await stub.createSeason(season)).toMatchObject({
+			status: "ok",
+			value: { id: "2026-autumn", status: "active", resetSeasonProgress: true, archivedAt: null },
+		});
+		expect(await stub.createSeason(season)).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementSeasonConflictError", reason: "exists" },
+		});
+		expect(
+			await stub.createSeason({ ...season, id: "2026-overlap", startsAt: "2098-01-01T00:00:00Z" }),
+		).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementSeasonConflictError", reason: "overlaps" },
+		});
+
+		await stub.handleEvent(
+			createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "season-viewer",
+				userDisplayName: "SeasonViewer",
+				sagaId: "saga-season",
+				trackId: "spotify:track:season",
+			}),
+		);
+		const live = await stub.getSeasonLeaderboard("2026-autumn");
+		expect(live).toMatchObject({
+			status: "ok",
+			value: {
+				season: { status: "active" },
+				achievements: [{ userDisplayName: "SeasonViewer", count: expect.any(Number) }],
+				raffle: [expect.objectContaining({ userId: "season-viewer", totalWins: 1 })],
+			},
+		});
+
+		const rolledOver = await stub.rollOverSeason("2026-autumn");
+		expect(rolledOver).toMatchObject({
+			status: "ok",
+			value: { status: "archived", archivedAt: expect.any(String) },
+		});
+		if (rolledOver.status === "ok") {
+			expect(Date.parse(rolledOver.value.endsAt)).toBeLessThanOrEqual(Date.now());
+		}
+		expect(await stub.rollOverSeason("2026-autumn")).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementSeasonConflictError", reason: "archived" },
+		});
+		expect(await stub.rollOverSeason("missing-season")).toMatchObject({
+			status: "error",
+			error: { _tag: "AchievementSeasonNotFoundError" },
+		});
+
+		const progress = await stub.getUserAchievements("SeasonViewer");
+		const byId = new Map(
+			(progress.status === "ok" ? progress.value : []).map((item) => [item.achievementId, item]),
+		);
+		expect(byId.get("season_regular")).toMatchObject({ progress: 0, unlocked: false });
+		expect(byId.get("first_request")).toMatchObject({ unlocked: true });
+
+		const archived = await stub.getSeasonLeaderboard("2026-autumn", { limit: 5 });
+		expect(live.status === "ok" && archived.status === "ok").toBe(true);
+		if (live.status === "ok" && archived.status === "ok") {
+			expect(archived.value.season.status).toBe("archived");
+			expect(archived.value.achievements).toEqual(live.value.achievements);
+			expect(archived.value.raffle).toEqual(live.value.raffle);
+		}
+		expect(await stub.getSeasonLeaderboard("missing-season")).toEqual({
+			status: "ok",
+			value: null,
+		});
+		expect(await stub.listSeasons()).toMatchObject({
+			status: "ok",
+			value: [{ id: "2026-autumn", status: "archived" }],
+		});
+	});
+
+	it("ranks each Season's raffle standings by only the Rolls made during it", async () => {
+		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
+		const raffle = await initializeDurableObjectAgentStub(
+			env.KEYBOARD_RAFFLE_DO.getByName("keyboard-raffle"),
+			"keyboard-raffle",
+		);
+		const roll = (id: string, userId: string, winning: boolean, rolledAt: string) =>
+			raffle.recordRoll({
+				id,
+				userId,
+				displayName: userId === "spring-viewer" ? "SpringViewer" : "SummerViewer",
+				roll: 500,
+				winningNumber: winning ? 500 : 520,
+				rolledAt,
+			});
+		await roll("before-spring", "summer-viewer", true, "2025-12-31T23:59:59.000Z");
+		await roll("spring-win", "spring-viewer", true, "2026-01-10T00:00:00.000Z");
+		await roll("spring-close", "spring-viewer", false, "2026-02-10T00:00:00.000Z");
+		await roll("summer-win", "summer-viewer", true, "2026-06-01T00:00:00.000Z");
+		await roll("summer-miss", "spring-viewer", false, "2026-06-02T00:00:00.000Z");
+
+		expect(
+			await stub.createSeason({
+				id: "2026-spring",
+				name: "Spring 2026",
+				startsAt: "2026-01-01T00:00:00.000Z",
+				endsAt: "2026-06-01T00:00:00.000Z",
+			}),
+		).toMatchObject({ status: "ok" });
+		expect(
+			await stub.createSeason({
+				id: "2026-summer",
+				name: "Summer 2026",
+				startsAt: "2026-06-01T00:00:00.000Z",
+				endsAt: "2099-01-01T00:00:00.000Z",
+			}),
+		).toMatchObject({ status: "ok" });
+		// Spring has already ended, so its scheduled rollover archives it right away.
+		let spring = await stub.getSeasonLeaderboard("2026-spring");
+		for (let poll = 0; poll < 200; poll += 1) {
+			if (spring.status === "ok" && spring.value?.season.status === "archived") break;
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			spring = await stub.getSeasonLeaderboard("2026-spring");
+		}
+		expect(spring).toMatchObject({
+			status: "ok",
+			value: {
+				season: { status: "archived" },
+				raffle: [
+					{
+						userId: "spring-viewer",
+						totalRolls: 2,
+						totalWins: 1,
+						closestDistance: 20,
+						lastRolledAt: "2026-02-10T00:00:00.000Z",
+					},
+				],
+			},
+		});
+		if (spring.status === "ok") expect(spring.value?.raffle).toHaveLength(1);
+
+		// Other tests share the Keyboard Raffle, so only this test's Viewers are compared.
+		const ownViewers = new Set(["spring-viewer", "summer-viewer"]);
+		const ownRolls = (entries: readonly RaffleLeaderboardEntry[] | undefined) =>
+			(entries ?? []).filter((entry) => ownViewers.has(entry.userId));
+		const summer = await stub.getSeasonLeaderboard("2026-summer");
+		expect(summer).toMatchObject({ status: "ok", value: { season: { status: "active" } } });
+		expect(ownRolls(summer.status === "ok" ? summer.value?.raffle : [])).toMatchObject([
+			{ userId: "summer-viewer", totalRolls: 1, totalWins: 1, closestDistance: null },
+			{ userId: "spring-viewer", totalRolls: 1, totalWins: 0, closestDistance: 20 },
+		]);
+
+		expect(await stub.rollOverSeason("2026-summer")).toMatchObject({ status: "ok" });
+		const archivedSummer = await stub.getSeasonLeaderboard("2026-summer");
+		expect(archivedSummer.status === "ok" && archivedSummer.value?.raffle).toEqual(
+			summer.status === "ok" && summer.value?.raffle,
+		);
+		expect(archivedSummer).toMatchObject({
+			status: "ok",
+			value: { season: { status: "archived" } },
+		});
+	});
+
 	it("returns a precise error for an invalid persisted Achievement Definition", async () => {
 		const stub = await createAchievementsStub(`achievements-${crypto.randomUUID()}`);
 		const result = await runInDurableObject(stub, async (instance: AchievementsDO) => {
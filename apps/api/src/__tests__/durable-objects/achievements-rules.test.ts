@@ -1,16 +1,28 @@
 import { describe, expect, it } from "vite-plus/test";
 
-import { createSongRequestSuccessEvent } from "../../domain/domain-event";
+import {
+	createChatMessageObservedEvent,
+	createRaffleRollEvent,
+	createRaidReceivedEvent,
+	createSongRequestSuccessEvent,
+} from "../../domain/domain-event";
 import {
 	evaluateAchievementRules,
+	type AchievementFacts,
 	type AchievementRuleDefinition,
+	type ViewerEventFact,
 } from "../../durable-objects/achievements/rules";
 
+import type { AchievementRuleExpression } from "../../domain/achievement";
+
 function definition(params: {
 	id: string;
 	triggerEvent: AchievementRuleDefinition["triggerEvent"];
 	threshold: number | null;
 	scope?: AchievementRuleDefinition["scope"];
+	rule?: AchievementRuleExpression;
+	tiers?: number[];
+	repeatable?: boolean;
 }): AchievementRuleDefinition {
 	return {
 		id: params.id,
@@ -21,9 +33,118 @@ function definition(params: {
 		threshold: params.threshold,
 		triggerEvent: params.triggerEvent,
 		scope: params.scope ?? "cumulative",
+		rule: params.rule ?? null,
+		tiers: params.tiers ?? null,
+		repeatable: params.repeatable ?? false,
+	};
+}
+
+const STREAM_STARTED_AT = "2026-04-07T14:00:00.000Z";
+
+function priorEvent(
+	type: ViewerEventFact["type"],
+	timestamp: string,
+	overrides: Partial<ViewerEventFact> = {},
+): ViewerEventFact {
+	return {
+		eventId: crypto.randomUUID(),
+		type,
+		timestamp,
+		artistIds: [],
+		isWinner: false,
+		...overrides,
+	};
+}
+
+function ruleFacts(
+	rule: AchievementRuleExpression,
+	eventHistory: ViewerEventFact[],
+	threshold: number | null = null,
+): AchievementFacts {
+	return {
+		definitions: [definition({ id: "compound", triggerEvent: "rule", threshold, rule })],
+		viewer: {
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			progressByAchievementId: new Map(),
+			eventHistory,
+		},
+		streamSession: {
+			isLive: true,
+			currentStreamStartedAt: STREAM_STARTED_AT,
+			isStreamOpenerCandidate: false,
+		},
+	};
+}
+
+function songRequestAt(timestamp: string, artistIds: string[] = []) {
+	return {
+		...createSongRequestSuccessEvent({
+			id: crypto.randomUUID(),
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-rule",
+			trackId: "spotify:track:rule",
+			artistIds,
+		}),
+		timestamp,
 	};
 }
 
+function raffleRollAt(timestamp: string) {
+	return {
+		...createRaffleRollEvent({
+			id: crypto.randomUUID(),
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-roll",
+			roll: 1200,
+			winningNumber: 5000,
+			distance: 3800,
+			isWinner: false,
+			isNewRecord: false,
+		}),
+		timestamp,
+	};
+}
+
+function levelFacts(
+	levelled: AchievementRuleDefinition,
+	progress: { progress: number; level: number },
+): AchievementFacts {
+	return {
+		definitions: [levelled],
+		viewer: {
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			progressByAchievementId: new Map([
+				[
+					levelled.id,
+					{
+						achievementId: levelled.id,
+						progress: progress.progress,
+						unlockedAt: progress.level > 0 ? "2026-04-01T00:00:00.000Z" : null,
+						level: progress.level,
+						eventId: null,
+					},
+				],
+			]),
+		},
+		streamSession: {
+			isLive: false,
+			currentStreamStartedAt: null,
+			isStreamOpenerCandidate: false,
+		},
+	};
+}
+
+function compoundProgress(decisions: ReturnType<typeof evaluateAchievementRules>) {
+	return decisions.find(
+		(decision) =>
+			decision.kind === "upsert-achievement-progress" && decision.achievementId === "compound",
+	);
+}
+
 describe("evaluateAchievementRules", () => {
 	it("unlocks the Stream Opener for the first Song Request in a Stream Session", () => {
 		const now = "2026-04-07T14:16:00.000Z";
@@ -128,4 +249,459 @@ describe("evaluateAchievementRules", () => {
 			}),
 		);
 	});
+
+	it("ignores a Request Streak that was already running when its achievement was revoked", () => {
+		const now = "2026-04-07T14:18:00.000Z";
+		const evaluate = (sessionStartedAt: string) =>
+			evaluateAchievementRules({
+				event: {
+					...createSongRequestSuccessEvent({
+						id: "00000000-0000-4000-8000-000000000003",
+						userId: "user-123",
+						userDisplayName: "TestUser",
+						sagaId: "saga-456",
+						trackId: "spotify:track:def456",
+					}),
+					timestamp: now,
+				},
+				now,
+				facts: {
+					definitions: [
+						definition({ id: "streak_3", triggerEvent: "request_streak", threshold: 3 }),
+					],
+					viewer: {
+						userId: "user-123",
+						userDisplayName: "TestUser",
+						progressByAchievementId: new Map([
+							[
+								"streak_3",
+								{
+									achievementId: "streak_3",
+									progress: 0,
+									unlockedAt: null,
+									level: 0,
+									eventId: null,
+									revokedAt: "2026-04-07T14:16:00.000Z",
+								},
+							],
+						]),
+						requestStreak: {
+							userId: "user-123",
+							userDisplayName: "TestUser",
+							sessionStreak: 4,
+							longestStreak: 4,
+							lastRequestAt: "2026-04-07T14:17:00.000Z",
+							sessionStartedAt,
+						},
+					},
+					streamSession: {
+						isLive: true,
+						currentStreamStartedAt: sessionStartedAt,
+						isStreamOpenerCandidate: false,
+					},
+				},
+			});
+
+		expect(
+			evaluate("2026-04-07T14:15:00.000Z").filter(
+				(decision) => decision.kind === "upsert-achievement-progress",
+			),
+		).toEqual([]);
+		expect(evaluate("2026-04-07T14:17:30.000Z")).toContainEqual(
+			expect.objectContaining({
+				kind: "upsert-achievement-progress",
+				achievementId: "streak_3",
+				progress: 5,
+			}),
+		);
+	});
+
+	it("does not unlock a reset season-scoped Achievement again from progress made before the reset", () => {
+		const now = "2026-04-07T15:00:00.000Z";
+		const seasonProgressResetAt = "2026-04-07T14:30:00.000Z";
+		const requests: AchievementRuleExpression = {
+			kind: "count",
+			event: "song_request",
+			scope: "cumulative",
+			atLeast: 3,
+		};
+		const facts = (resetAt: string | null): AchievementFacts => ({
+			definitions: [
+				definition({
+					id: "season_streak_3",
+					triggerEvent: "request_streak",
+					threshold: 3,
+					scope: "season",
+				}),
+				definition({
+					id: "season_requests",
+					triggerEvent: "rule",
+					threshold: null,
+					scope: "season",
+					rule: requests,
+				}),
+			],
+			viewer: {
+				userId: "user-123",
+				userDisplayName: "TestUser",
+				progressByAchievementId: new Map(),
+				requestStreak: {
+					userId: "user-123",
+					userDisplayName: "TestUser",
+					sessionStreak: 4,
+					longestStreak: 4,
+					lastRequestAt: "2026-04-07T14:50:00.000Z",
+					sessionStartedAt: STREAM_STARTED_AT,
+				},
+				eventHistory: [
+					priorEvent("song_request_success", "2026-04-07T14:10:00.000Z"),
+					priorEvent("song_request_success", "2026-04-07T14:20:00.000Z"),
+					priorEvent("song_request_success", "2026-04-07T14:50:00.000Z"),
+				],
+			},
+			streamSession: {
+				isLive: true,
+				currentStreamStartedAt: STREAM_STARTED_AT,
+				isStreamOpenerCandidate: false,
+			},
+			seasonProgressResetAt: resetAt,
+		});
+		const unlocked = (resetAt: string | null) =>
+			evaluateAchievementRules({ event: songRequestAt(now), now, facts: facts(resetAt) })
+				.filter((decision) => decision.kind === "upsert-achievement-progress")
+				.filter((decision) => decision.newlyUnlocked)
+				.map((decision) => decision.achievementId);
+
+		expect(unlocked(seasonProgressResetAt)).toEqual([]);
+		expect(unlocked(null)).toEqual(["season_streak_3", "season_requests"]);
+	});
+
+	describe("Achievement Rule Expressions", () => {
+		const rollsAndRequests: AchievementRuleExpression = {
+			kind: "all",
+			rules: [
+				{ kind: "count", event: "raffle_roll", scope: "session", atLeast: 3 },
+				{ kind: "count", event: "song_request", scope: "session", atLeast: 2 },
+			],
+		};
+
+		it("unlocks once every counted condition holds within the Stream Session", () => {
+			const now = "2026-04-07T15:00:00.000Z";
+			const history = [
+				priorEvent("raffle_roll", "2026-04-07T14:10:00.000Z"),
+				priorEvent("raffle_roll", "2026-04-07T14:20:00.000Z"),
+				priorEvent("raffle_roll", "2026-04-07T14:30:00.000Z"),
+				// Before this Stream Session started, so it does not count
+				priorEvent("song_request_success", "2026-04-06T20:00:00.000Z"),
+			];
+
+			const notYet = evaluateAchievementRules({
+				event: songRequestAt(now),
+				now,
+				facts: ruleFacts(rollsAndRequests, history),
+			});
+			expect(compoundProgress(notYet)).toBeUndefined();
+
+			const unlocked = evaluateAchievementRules({
+				event: songRequestAt(now),
+				now,
+				facts: ruleFacts(rollsAndRequests, [
+					...history,
+					priorEvent("song_request_success", "2026-04-07T14:40:00.000Z"),
+				]),
+			});
+			expect(compoundProgress(unlocked)).toMatchObject({
+				progress: 1,
+				newlyUnlocked: true,
+				unlockedAt: now,
+			});
+		});
+
+		it("counts Song Requests that share an artist with the current request", () => {
+			const now = "2026-04-07T15:00:00.000Z";
+			const sameArtist: AchievementRuleExpression = {
+				kind: "count",
+				event: "song_request",
+				scope: "cumulative",
+				atLeast: 3,
+				sameArtist: true,
+			};
+			const history = [
+				priorEvent("song_request_success", "2026-03-01T20:00:00.000Z", { artistIds: ["artist-a"] }),
+				priorEvent("song_request_success", "2026-03-02T20:00:00.000Z", {
+					artistIds: ["artist-b", "artist-a"],
+				}),
+				priorEvent("song_request_success", "2026-03-03T20:00:00.000Z", { artistIds: ["artist-c"] }),
+			];
+
+			const otherArtist = evaluateAchievementRules({
+				event: songRequestAt(now, ["artist-c"]),
+				now,
+				facts: ruleFacts(sameArtist, history),
+			});
+			expect(compoundProgress(otherArtist)).toBeUndefined();
+
+			const matchingArtist = evaluateAchievementRules({
+				event: songRequestAt(now, ["artist-a"]),
+				now,
+				facts: ruleFacts(sameArtist, history),
+			});
+			expect(compoundProgress(matchingArtist)).toMatchObject({ newlyUnlocked: true });
+		});
+
+		it("matches Raffle Rolls early in the Stream Session and counts each match toward a threshold", () => {
+			const earlyRoll: AchievementRuleExpression = {
+				kind: "all",
+				rules: [
+					{ kind: "event", event: "raffle_roll" },
+					{ kind: "stream_elapsed", atMostMinutes: 10 },
+				],
+			};
+
+			const early = evaluateAchievementRules({
+				event: raffleRollAt("2026-04-07T14:09:00.000Z"),
+				now: "2026-04-07T14:09:00.000Z",
+				facts: ruleFacts(earlyRoll, [], 2),
+			});
+			expect(compoundProgress(early)).toMatchObject({ progress: 1, newlyUnlocked: false });
+
+			const late = evaluateAchievementRules({
+				event: raffleRollAt("2026-04-07T14:11:00.000Z"),
+				now: "2026-04-07T14:11:00.000Z",
+				facts: ruleFacts(earlyRoll, [], 2),
+			});
+			expect(compoundProgress(late)).toBeUndefined();
+
+			const earlyRequest = evaluateAchievementRules({
+				event: songRequestAt("2026-04-07T14:05:00.000Z"),
+				now: "2026-04-07T14:05:00.000Z",
+				facts: ruleFacts(earlyRoll, [], 2),
+			});
+			expect(compoundProgress(earlyRequest)).toBeUndefined();
+		});
+	});
+	describe("Achievement Levels", () => {
+		const now = "2026-04-07T14:20:00.000Z";
+
+		it("reaches the next Achievement Tier without unlocking the Achievement again", () => {
+			const dj = definition({
+				id: "request_10",
+				triggerEvent: "song_request",
+				threshold: 10,
+				tiers: [50, 100],
+			});
+
+			const silver = evaluateAchievementRules({
+				event: songRequestAt(now),
+				now,
+				facts: levelFacts(dj, { progress: 49, level: 1 }),
+			});
+			expect(silver).toContainEqual(
+				expect.objectContaining({
+					kind: "upsert-achievement-progress",
+					progress: 50,
+					level: 2,
+					newlyUnlocked: false,
+				}),
+			);
+			expect(silver).toContainEqual(
+				expect.objectContaining({
+					kind: "queue-achievement-unlock-effect",
+					level: 2,
+					levelLabel: "Silver",
+				}),
+			);
+
+			const between = evaluateAchievementRules({
+				event: songRequestAt(now),
+				now,
+				facts: levelFacts(dj, { progress: 50, level: 2 }),
+			});
+			expect(between).toContainEqual(
+				expect.objectContaining({ kind: "upsert-achievement-progress", progress: 51, level: 2 }),
+			);
+			expect(between.some((decision) => decision.kind === "queue-achievement-unlock-effect")).toBe(
+				false,
+			);
+
+			const gold = evaluateAchievementRules({
+				event: songRequestAt(now),
+				now,
+				facts: levelFacts(dj, { progress: 100, level: 3 }),
+			});
+			expect(gold.map((decision) => decision.kind)).toEqual(["update-request-streak"]);
+		});
+
+		it("unlocks a repeatable Achievement again at every multiple of its threshold", () => {
+			const rolls = definition({
+				id: "roll_10",
+				triggerEvent: "raffle_roll",
+				threshold: 10,
+				repeatable: true,
+			});
+
+			const second = evaluateAchievementRules({
+				event: raffleRollAt(now),
+				now,
+				facts: levelFacts(rolls, { progress: 19, level: 1 }),
+			});
+			expect(second).toContainEqual(
+				expect.objectContaining({ kind: "upsert-achievement-progress", progress: 20, level: 2 }),
+			);
+			expect(second).toContainEqual(
+				expect.objectContaining({
+					kind: "queue-achievement-unlock-effect",
+					level: 2,
+					levelLabel: "×2",
+				}),
+			);
+		});
+	});
+	describe("Chat Activity", () => {
+		const chatDefinitions = [
+			definition({
+				id: "chatterbox",
+				triggerEvent: "chat_message",
+				threshold: 2,
+				scope: "session",
+			}),
+			definition({
+				id: "first_chatter",
+				triggerEvent: "stream_first_chat",
+				threshold: null,
+				scope: "session",
+			}),
+			definition({ id: "familiar_face", triggerEvent: "chat_stream", threshold: 5 }),
+			definition({ id: "first_command", triggerEvent: "chat_command", threshold: null }),
+		];
+
+		function chatDecisions(params: {
+			commandName: string | null;
+			isLive: boolean;
+			isFirstChatterCandidate: boolean;
+			chattedThisStream: boolean;
+		}) {
+			const decisions = evaluateAchievementRules({
+				event: createChatMessageObservedEvent({
+					id: crypto.randomUUID(),
+					userId: "user-123",
+					userDisplayName: "TestUser",
+					commandName: params.commandName,
+				}),
+				now: "2026-04-07T14:20:00.000Z",
+				facts: {
+					definitions: chatDefinitions,
+					viewer: {
+						userId: "user-123",
+						userDisplayName: "TestUser",
+						progressByAchievementId: new Map(),
+						chattedThisStream: params.chattedThisStream,
+					},
+					streamSession: {
+						isLive: params.isLive,
+						currentStreamStartedAt: params.isLive ? STREAM_STARTED_AT : null,
+						isStreamOpenerCandidate: false,
+						isFirstChatterCandidate: params.isFirstChatterCandidate,
+					},
+				},
+			});
+			return decisions.flatMap((decision) =>
+				decision.kind === "upsert-achievement-progress" ? [decision.achievementId] : [],
+			);
+		}
+
+		it("counts the first chat of a Stream Session toward every chat Achievement", () => {
+			expect(
+				chatDecisions({
+					commandName: "song",
+					isLive: true,
+					isFirstChatterCandidate: true,
+					chattedThisStream: false,
+				}),
+			).toEqual(["chatterbox", "first_chatter", "familiar_face", "first_command"]);
+		});
+
+		it("counts a stream once per Viewer and ignores stream-only triggers offline", () => {
+			expect(
+				chatDecisions({
+					commandName: null,
+					isLive: true,
+					isFirstChatterCandidate: false,
+					chattedThisStream: true,
+				}),
+			).toEqual(["chatterbox"]);
+			expect(
+				chatDecisions({
+					commandName: null,
+					isLive: false,
+					isFirstChatterCandidate: false,
+					chattedThisStream: false,
+				}),
+			).toEqual(["chatterbox"]);
+		});
+	});
+
+	describe("Raids", () => {
+		const raidDefinitions = [
+			definition({ id: "raid_3", triggerEvent: "raid", threshold: 3 }),
+			definition({ id: "biggest_raid", triggerEvent: "raid_record", threshold: null }),
+		];
+
+		function raidDecisions(isNewRecord: boolean, raids = 0) {
+			return evaluateAchievementRules({
+				event: createRaidReceivedEvent({
+					id: "raid-event",
+					userId: "raider-1",
+					userDisplayName: "Raider",
+					sagaId: "raid-saga",
+					viewers: 42,
+					isNewRecord,
+				}),
+				now: "2026-04-07T14:20:00.000Z",
+				facts: {
+					definitions: raidDefinitions,
+					viewer: {
+						userId: "raider-1",
+						userDisplayName: "Raider",
+						progressByAchievementId: new Map([
+							[
+								"raid_3",
+								{
+									achievementId: "raid_3",
+									progress: raids,
+									unlockedAt: null,
+									level: 0,
+									eventId: null,
+								},
+							],
+						]),
+					},
+					streamSession: {
+						isLive: true,
+						currentStreamStartedAt: STREAM_STARTED_AT,
+						isStreamOpenerCandidate: false,
+					},
+				},
+			}).filter((decision) => decision.kind === "upsert-achievement-progress");
+		}
+
+		it("counts every Raid and unlocks the repeat-raider Achievement on the third", () => {
+			expect(raidDecisions(false, 2)).toEqual([
+				expect.objectContaining({ achievementId: "raid_3", progress: 3, newlyUnlocked: true }),
+			]);
+		});
+
+		it("unlocks the biggest-raid Achievement only for a record Raid", () => {
+			expect(raidDecisions(true).map((decision) => decision.achievementId)).toEqual([
+				"raid_3",
+				"biggest_raid",
+			]);
+			expect(raidDecisions(true)).toContainEqual(
+				expect.objectContaining({
+					achievementId: "biggest_raid",
+					eventId: "raid-event-raid-record",
+				}),
+			);
+		});
+	});
 });
@@ -87,6 +87,32 @@ describe("CommandsDO", () => {
 				"I am using Hex by Kit Langton: https://hex.kitlangton.com/",
 			);
 		}
+
+		const voteSkipResult = await stub.getCommand("voteskip");
+		expect(voteSkipResult.status).toBe("ok");
+		if (voteSkipResult.status === "ok") {
+			expect(voteSkipResult.value.responseType).toBe("computed");
+			expect(voteSkipResult.value.handlerKey).toBe("voteskip");
+		}
+
+		for (const [name, permission] of [
+			["remove", "moderator"],
+			["wrongsong", "everyone"],
+			["clearqueue", "moderator"],
+			["raids", "everyone"],
+			["profile", "everyone"],
+			["achievement", "moderator"],
+		] as const) {
+			const result = await stub.getCommand(name);
+			expect(result.status).toBe("ok");
+			if (result.status === "ok") {
+				expect(result.value).toMatchObject({
+					responseType: "computed",
+					handlerKey: name,
+					permission,
+				});
+			}
+		}
 	});
 
 	it("creates, updates, and deletes runtime commands", async () => {
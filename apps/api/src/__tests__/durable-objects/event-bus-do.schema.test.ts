@@ -7,6 +7,7 @@
 import { describe, expect, it } from "vite-plus/test";
 
 import {
+	EVENT_SCHEMA_VERSIONS,
 	EventSchema,
 	EventSource,
 	EventType,
@@ -14,6 +15,7 @@ import {
 	SongRequestSuccessEventSchema,
 	StreamOfflineEventSchema,
 	StreamOnlineEventSchema,
+	VersionedEventSchema,
 	createRaffleRollEvent,
 	createSongRequestSuccessEvent,
 	createStreamOfflineEvent,
@@ -23,19 +25,21 @@ import {
 	isStreamOfflineEvent,
 	isStreamOnlineEvent,
 } from "../../domain/domain-event";
+import { HISTORICAL_EVENT_FIXTURES } from "../fixtures/domain-events";
 
 describe("Event Schema", () => {
 	describe("SongRequestSuccessEvent", () => {
 		const validEvent = {
 			id: "550e8400-e29b-41d4-a716-446655440000",
 			type: EventType.SongRequestSuccess,
-			v: 1,
+			v: 2,
 			timestamp: "2026-01-30T12:00:00.000Z",
 			source: EventSource.SongRequestSaga,
 			userId: "user-123",
 			userDisplayName: "TestUser",
 			sagaId: "saga-456",
 			trackId: "spotify:track:abc123",
+			artistIds: ["artist-1"],
 		};
 
 		it("should validate valid event", () => {
@@ -54,7 +58,7 @@ describe("Event Schema", () => {
 		it("should reject wrong version", () => {
 			const result = SongRequestSuccessEventSchema.safeParse({
 				...validEvent,
-				v: 2,
+				v: 1,
 			});
 			expect(result.success).toBe(false);
 		});
@@ -196,13 +200,14 @@ describe("Event Schema", () => {
 			const event = {
 				id: "550e8400-e29b-41d4-a716-446655440000",
 				type: EventType.SongRequestSuccess,
-				v: 1,
+				v: 2,
 				timestamp: "2026-01-30T12:00:00.000Z",
 				source: EventSource.SongRequestSaga,
 				userId: "user-123",
 				userDisplayName: "TestUser",
 				sagaId: "saga-456",
 				trackId: "spotify:track:abc123",
+				artistIds: [],
 			};
 			const result = EventSchema.safeParse(event);
 			expect(result.success).toBe(true);
@@ -251,13 +256,14 @@ describe("Event Schema", () => {
 		const songRequestEvent = {
 			id: "550e8400-e29b-41d4-a716-446655440000",
 			type: "song_request_success",
-			v: 1,
+			v: 2,
 			timestamp: "2026-01-30T12:00:00.000Z",
 			source: "SongRequestSagaDO",
 			userId: "user-123",
 			userDisplayName: "TestUser",
 			sagaId: "saga-456",
 			trackId: "spotify:track:abc123",
+			artistIds: [] as string[],
 		} as const;
 
 		const raffleRollEvent = {
@@ -359,6 +365,76 @@ describe("Event Schema", () => {
 		});
 	});
 
+	describe("Versioned events", () => {
+		const fixtures = Object.entries(HISTORICAL_EVENT_FIXTURES).flatMap(([type, versions]) =>
+			Object.entries(versions).map(([v, payload]) => ({ type, v: Number(v), payload })),
+		);
+
+		it("has a fixture for every version of every event type", () => {
+			for (const [type, current] of Object.entries(EVENT_SCHEMA_VERSIONS)) {
+				const versions = fixtures.filter((fixture) => fixture.type === type).map(({ v }) => v);
+				expect(versions).toEqual(Array.from({ length: current }, (_, index) => index + 1));
+			}
+		});
+
+		it.each(fixtures)("decodes $type v$v at the current version", ({ type, payload }) => {
+			const result = VersionedEventSchema.safeParse(payload);
+
+			expect(result.success).toBe(true);
+			if (result.success) {
+				expect(result.data.type).toBe(type);
+				expect(result.data.v).toBe(EVENT_SCHEMA_VERSIONS[result.data.type]);
+				expect(result.data.id).toBe(payload.id);
+				expect(result.data.correlationId).toBe(payload.correlationId);
+			}
+		});
+
+		it("upcasts a v1 Song Request Success with no artist IDs to an empty list", () => {
+			const result = VersionedEventSchema.safeParse(
+				HISTORICAL_EVENT_FIXTURES.song_request_success[1],
+			);
+
+			expect(result.success && result.data.type === EventType.SongRequestSuccess).toBe(true);
+			if (result.success && result.data.type === EventType.SongRequestSuccess) {
+				expect(result.data.v).toBe(2);
+				expect(result.data.artistIds).toEqual([]);
+			}
+		});
+
+		it("keeps artist IDs that a v1 Song Request Success already carried", () => {
+			const result = VersionedEventSchema.safeParse({
+				...HISTORICAL_EVENT_FIXTURES.song_request_success[1],
+				artistIds: ["artist-1"],
+			});
+
+			expect(result.success ? result.data : null).toMatchObject({ v: 2, artistIds: ["artist-1"] });
+		});
+
+		it("rejects a malformed older payload instead of upcasting it", () => {
+			const result = VersionedEventSchema.safeParse({
+				...HISTORICAL_EVENT_FIXTURES.song_request_success[1],
+				trackId: 42,
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error?.issues[0]?.message).toContain("Cannot upcast song_request_success v1");
+		});
+
+		it("rejects versions newer than the current schema", () => {
+			const result = VersionedEventSchema.safeParse({
+				...HISTORICAL_EVENT_FIXTURES.stream_online[1],
+				v: 2,
+			});
+
+			expect(result.success).toBe(false);
+		});
+
+		it("rejects payloads without a type or version", () => {
+			expect(VersionedEventSchema.safeParse(null).success).toBe(false);
+			expect(VersionedEventSchema.safeParse({ type: "stream_online" }).success).toBe(false);
+		});
+	});
+
 	describe("Factory functions", () => {
 		it("createSongRequestSuccessEvent should create valid event", () => {
 			const event = createSongRequestSuccessEvent({
@@ -370,7 +446,7 @@ describe("Event Schema", () => {
 			});
 
 			expect(event.type).toBe(EventType.SongRequestSuccess);
-			expect(event.v).toBe(1);
+			expect(event.v).toBe(2);
 			expect(event.source).toBe(EventSource.SongRequestSaga);
 			expect(event.userId).toBe("user-123");
 			expect(event.trackId).toBe("spotify:track:abc123");
@@ -9,18 +9,21 @@ import { env } from "cloudflare:workers";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { beforeEach, describe, expect, it } from "vite-plus/test";
 
+import { OUTBOUND_WEBHOOK_NAME } from "../../adapters/cloudflare/durable-object-outbound-webhooks";
 import { createSongRequestSuccessEvent } from "../../domain/domain-event";
 import { EventBusDO } from "../../durable-objects/event-bus-do";
 import * as eventBusSchema from "../../durable-objects/schemas/event-bus-do.schema";
 import {
 	deadLetterQueue,
 	deliveredEvents,
+	eventLog,
 	pendingEvents,
 } from "../../durable-objects/schemas/event-bus-do.schema";
 import {
 	ensureAchievementsSingletonStub,
 	ensureNamedTwitchTokenStub,
 } from "../helpers/durable-objects";
+import { fetchMock } from "../helpers/fetch-mock";
 
 function createTestEvent(overrides: { id?: string } = {}) {
 	return createSongRequestSuccessEvent({
@@ -36,6 +39,7 @@ async function seedPendingRow(
 	instance: EventBusDO,
 	params: {
 		id: string;
+		subscriber?: string;
 		event: string;
 		attempts: number;
 		nextRetryAt: string;
@@ -43,15 +47,33 @@ async function seedPendingRow(
 	},
 ): Promise<void> {
 	const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
-	await db.insert(pendingEvents).values(params);
+	await db.insert(pendingEvents).values({ subscriber: "achievements", ...params });
+}
+
+async function seedEventLogRow(
+	instance: EventBusDO,
+	event: ReturnType<typeof createTestEvent>,
+	recordedAt = new Date().toISOString(),
+): Promise<void> {
+	const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
+	await db.insert(eventLog).values({
+		id: event.id,
+		type: event.type,
+		event: JSON.stringify(event),
+		occurredAt: event.timestamp,
+		recordedAt,
+	});
 }
 
 async function seedDlqRow(
 	instance: EventBusDO,
 	params: {
 		id: string;
+		subscriber?: string;
+		type?: string;
 		event: string;
 		error: string;
+		errorTag?: string;
 		attempts: number;
 		firstFailedAt: string;
 		lastFailedAt: string;
@@ -59,7 +81,7 @@ async function seedDlqRow(
 	},
 ): Promise<void> {
 	const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
-	await db.insert(deadLetterQueue).values(params);
+	await db.insert(deadLetterQueue).values({ subscriber: "achievements", ...params });
 }
 
 describe("EventBusDO", () => {
@@ -122,7 +144,9 @@ describe("EventBusDO", () => {
 
 			expect(result.publishResult.status).toBe("ok");
 			expect(result.pending).toHaveLength(0);
-			expect(result.receipts).toContainEqual(expect.objectContaining({ id: event.id }));
+			expect(result.receipts).toContainEqual(
+				expect.objectContaining({ id: event.id, subscriber: "achievements" }),
+			);
 		});
 	});
 
@@ -287,7 +311,11 @@ describe("EventBusDO", () => {
 
 			expect(result.replayResult.status).toBe("ok");
 			if (result.replayResult.status === "ok") {
-				expect(result.replayResult.value).toEqual({ success: true, eventId: event.id });
+				expect(result.replayResult.value).toEqual({
+					success: true,
+					eventId: event.id,
+					deliveries: [{ subscriber: "achievements", success: true }],
+				});
 			}
 			expect(result.remainingDlq.status).toBe("ok");
 			if (result.remainingDlq.status === "ok") {
@@ -295,6 +323,36 @@ describe("EventBusDO", () => {
 			}
 		});
 
+		it("upcasts DLQ rows persisted at an older event schema version", async () => {
+			const { artistIds: _artistIds, ...current } = createTestEvent();
+			const event = { ...current, v: 1 };
+			const createdAt = new Date(Date.now() - 10_000).toISOString();
+			const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await seedDlqRow(instance, {
+					id: event.id,
+					event: JSON.stringify(event),
+					error: "boom",
+					attempts: 3,
+					firstFailedAt: createdAt,
+					lastFailedAt: createdAt,
+					expiresAt,
+				});
+
+				const listed = await instance.getDLQ();
+				const replayResult = await instance.replayDLQ(event.id);
+				return { listed, replayResult };
+			});
+
+			expect(
+				result.listed.status === "ok" ? result.listed.value.items[0]?.event : null,
+			).toMatchObject({ id: event.id, v: 2, artistIds: [] });
+			expect(result.replayResult.status === "ok" ? result.replayResult.value.success : null).toBe(
+				true,
+			);
+		});
+
 		it("deletes an existing DLQ row", async () => {
 			const event = createTestEvent();
 			const createdAt = new Date(Date.now() - 10_000).toISOString();
@@ -323,6 +381,17 @@ describe("EventBusDO", () => {
 			}
 		});
 
+		it("rejects a replay aimed at an unregistered subscriber", async () => {
+			const result = await runInDurableObject(stub, (instance: EventBusDO) =>
+				instance.replayDLQ(crypto.randomUUID(), "nobody"),
+			);
+
+			expect(result.status).toBe("error");
+			if (result.status === "error") {
+				expect(result.error._tag).toBe("EventBusValidationError");
+			}
+		});
+
 		it("returns DLQItemNotFoundError when deleting a missing row", async () => {
 			const result = await runInDurableObject(stub, (instance: EventBusDO) =>
 				instance.deleteDLQ(crypto.randomUUID()),
@@ -334,4 +403,421 @@ describe("EventBusDO", () => {
 			}
 		});
 	});
+
+	describe("DLQ bulk operations", () => {
+		const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+		async function seedDeadLetter(
+			instance: EventBusDO,
+			params: { errorTag: string; failedAt: string; event?: string; id?: string },
+		): Promise<string> {
+			const event = createTestEvent(params.id === undefined ? {} : { id: params.id });
+			await seedDlqRow(instance, {
+				id: event.id,
+				type: event.type,
+				event: params.event ?? JSON.stringify(event),
+				error: `Handler achievements failed for event type ${event.type}`,
+				errorTag: params.errorTag,
+				attempts: 3,
+				firstFailedAt: params.failedAt,
+				lastFailedAt: params.failedAt,
+				expiresAt,
+			});
+			return event.id;
+		}
+
+		it("summarizes dead letters by error reason", async () => {
+			const summary = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T10:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T11:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "AchievementDbError",
+					failedAt: "2026-01-01T12:00:00.000Z",
+				});
+				return instance.getDLQSummary();
+			});
+
+			expect(summary.status === "ok" ? summary.value : null).toEqual({
+				totalCount: 3,
+				reasons: [
+					{
+						errorTag: "SpotifyUnavailableError",
+						count: 2,
+						subscribers: ["achievements"],
+						eventTypes: ["song_request_success"],
+						oldestFailedAt: "2026-01-01T10:00:00.000Z",
+						newestFailedAt: "2026-01-01T11:00:00.000Z",
+					},
+					{
+						errorTag: "AchievementDbError",
+						count: 1,
+						subscribers: ["achievements"],
+						eventTypes: ["song_request_success"],
+						oldestFailedAt: "2026-01-01T12:00:00.000Z",
+						newestFailedAt: "2026-01-01T12:00:00.000Z",
+					},
+				],
+			});
+		});
+
+		it("counts matches on a dry run and deletes only dead letters matching every filter", async () => {
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T10:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-02T10:00:00.000Z",
+				});
+				const kept = await seedDeadLetter(instance, {
+					errorTag: "AchievementDbError",
+					failedAt: "2026-01-01T10:00:00.000Z",
+				});
+				const filter = {
+					types: ["song_request_success"],
+					subscriber: "achievements",
+					errorTags: ["SpotifyUnavailableError"],
+					from: "2026-01-01T00:00:00Z",
+					to: "2026-01-03T00:00:00Z",
+				};
+				const dryRun = await instance.bulkDeleteDLQ(filter);
+				const afterDryRun = await instance.getDLQ();
+				const deleted = await instance.bulkDeleteDLQ({ ...filter, dryRun: false });
+				const remaining = await instance.getDLQ();
+				return { kept, dryRun, afterDryRun, deleted, remaining };
+			});
+
+			expect(result.dryRun.status === "ok" ? result.dryRun.value : null).toEqual({
+				dryRun: true,
+				matched: 2,
+				deleted: 0,
+			});
+			expect(result.afterDryRun.status === "ok" ? result.afterDryRun.value.totalCount : null).toBe(
+				3,
+			);
+			expect(result.deleted.status === "ok" ? result.deleted.value : null).toEqual({
+				dryRun: false,
+				matched: 2,
+				deleted: 2,
+			});
+			expect(
+				result.remaining.status === "ok"
+					? result.remaining.value.items.map((item) => [item.id, item.errorTag])
+					: null,
+			).toEqual([[result.kept, "AchievementDbError"]]);
+		});
+
+		it("replays matches one page at a time and reports items it cannot replay", async () => {
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				const malformed = await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T09:00:00.000Z",
+					event: "{invalid-json",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T10:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T11:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "AchievementDbError",
+					failedAt: "2026-01-01T08:00:00.000Z",
+				});
+				const filter = { errorTags: ["SpotifyUnavailableError"] };
+				const dryRun = await instance.bulkReplayDLQ(filter);
+				const firstPage = await instance.bulkReplayDLQ({ ...filter, limit: 2, dryRun: false });
+				const secondPage = await instance.bulkReplayDLQ({ ...filter, limit: 2, dryRun: false });
+				const remaining = await instance.getDLQ();
+				return { malformed, dryRun, firstPage, secondPage, remaining };
+			});
+
+			expect(result.dryRun.status === "ok" ? result.dryRun.value : null).toEqual({
+				dryRun: true,
+				matched: 3,
+				replayed: 0,
+				failures: [],
+				remaining: 3,
+			});
+			expect(result.firstPage.status === "ok" ? result.firstPage.value : null).toEqual({
+				dryRun: false,
+				matched: 3,
+				replayed: 1,
+				failures: [
+					{
+						eventId: result.malformed,
+						subscriber: "achievements",
+						error: "Malformed JSON in DLQ item",
+					},
+				],
+				remaining: 1,
+			});
+			expect(result.secondPage.status === "ok" ? result.secondPage.value : null).toMatchObject({
+				matched: 2,
+				replayed: 1,
+				remaining: 0,
+			});
+			expect(
+				result.remaining.status === "ok"
+					? result.remaining.value.items.map((item) => item.errorTag).sort()
+					: null,
+			).toEqual(["AchievementDbError", "SpotifyUnavailableError"]);
+		});
+
+		it("rejects malformed filters", async () => {
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => ({
+				backwards: await instance.bulkReplayDLQ({
+					from: "2026-01-02T00:00:00Z",
+					to: "2026-01-01T00:00:00Z",
+				}),
+				unknownType: await instance.bulkDeleteDLQ({ types: ["not_an_event"] }),
+				unknownField: await instance.bulkDeleteDLQ({ handler: "achievements" }),
+				unfiltered: await instance.bulkDeleteDLQ({ dryRun: false }),
+				overLimit: await instance.bulkReplayDLQ({ limit: 500 }),
+			}));
+
+			for (const rejected of [
+				result.backwards,
+				result.unknownType,
+				result.unknownField,
+				result.unfiltered,
+				result.overLimit,
+			]) {
+				expect(rejected.status === "error" ? rejected.error._tag : null).toBe(
+					"EventBusValidationError",
+				);
+			}
+		});
+
+		it("deletes the whole DLQ only when asked for all of it", async () => {
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await seedDeadLetter(instance, {
+					errorTag: "SpotifyUnavailableError",
+					failedAt: "2026-01-01T10:00:00.000Z",
+				});
+				await seedDeadLetter(instance, {
+					errorTag: "AchievementDbError",
+					failedAt: "2026-01-02T10:00:00.000Z",
+				});
+				return {
+					dryRun: await instance.bulkDeleteDLQ({ all: true }),
+					deleted: await instance.bulkDeleteDLQ({ all: true, dryRun: false }),
+					remaining: await instance.getDLQ(),
+				};
+			});
+
+			expect(result.dryRun.status === "ok" ? result.dryRun.value : null).toEqual({
+				dryRun: true,
+				matched: 2,
+				deleted: 0,
+			});
+			expect(result.deleted.status === "ok" ? result.deleted.value : null).toEqual({
+				dryRun: false,
+				matched: 2,
+				deleted: 2,
+			});
+			expect(result.remaining.status === "ok" ? result.remaining.value.totalCount : null).toBe(0);
+		});
+	});
+
+	describe("subscriber delivery state", () => {
+		it("reports each subscriber's backlog and drops deliveries for unregistered subscribers", async () => {
+			const delivered = createTestEvent();
+			const pending = createTestEvent();
+			const failed = createTestEvent();
+			const orphaned = createTestEvent();
+			const createdAt = new Date(Date.now() - 10_000).toISOString();
+
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await instance.publish(delivered);
+				await seedPendingRow(instance, {
+					id: pending.id,
+					event: JSON.stringify(pending),
+					attempts: 1,
+					nextRetryAt: new Date(Date.now() + 60_000).toISOString(),
+					createdAt,
+				});
+				await seedDlqRow(instance, {
+					id: failed.id,
+					event: JSON.stringify(failed),
+					error: "boom",
+					attempts: 3,
+					firstFailedAt: createdAt,
+					lastFailedAt: createdAt,
+					expiresAt: new Date(Date.now() + 60_000).toISOString(),
+				});
+				await seedPendingRow(instance, {
+					id: orphaned.id,
+					subscriber: "retired-subscriber",
+					event: JSON.stringify(orphaned),
+					attempts: 0,
+					nextRetryAt: new Date(Date.now() - 1_000).toISOString(),
+					createdAt,
+				});
+
+				await instance.retryDueEventsTick();
+				return { lag: await instance.getSubscriberLag(), pending: await instance.getPending() };
+			});
+
+			expect(result.pending.status).toBe("ok");
+			if (result.pending.status === "ok") {
+				expect(result.pending.value.items).toEqual([
+					expect.objectContaining({ id: pending.id, subscriber: "achievements" }),
+				]);
+			}
+			expect(result.lag.status).toBe("ok");
+			if (result.lag.status === "ok") {
+				const achievements = result.lag.value.find((lag) => lag.subscriber === "achievements");
+				expect(result.lag.value.map((lag) => lag.subscriber)).toEqual(["achievements", "webhooks"]);
+				expect(achievements).toMatchObject({
+					subscriber: "achievements",
+					pendingCount: 1,
+					deadLetterCount: 1,
+					oldestPendingAt: createdAt,
+				});
+				expect(achievements?.eventTypes).toContain(delivered.type);
+				expect(achievements?.lagMs).toBeGreaterThanOrEqual(10_000);
+				expect(achievements?.lastDeliveredAt).not.toBeNull();
+			}
+		});
+
+		it("fans one event out to each subscriber and retries only the one that failed", async () => {
+			const event = createTestEvent();
+			const webhooks = env.OUTBOUND_WEBHOOK_DO.getByName(OUTBOUND_WEBHOOK_NAME);
+			await webhooks.setName(OUTBOUND_WEBHOOK_NAME);
+			const endpoint = await webhooks.createWebhook({
+				name: "Flaky endpoint",
+				url: "https://hooks.example.com/flaky",
+				secret: "event-bus-test-webhook-secret",
+				topics: ["song_request_success"],
+			});
+			if (endpoint.status === "error") throw endpoint.error;
+
+			try {
+				fetchMock
+					.get("https://hooks.example.com")
+					.intercept({ path: "/flaky", method: "POST" })
+					.reply(503);
+				const failed = await runInDurableObject(stub, async (instance: EventBusDO) => {
+					const publishResult = await instance.publish(event);
+					const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
+					return {
+						publishResult,
+						receipts: await db.select().from(deliveredEvents),
+						pending: await db.select().from(pendingEvents),
+						lag: await instance.getSubscriberLag(),
+					};
+				});
+
+				expect(failed.publishResult.status).toBe("ok");
+				expect(failed.receipts.map((receipt) => receipt.subscriber)).toEqual(["achievements"]);
+				expect(failed.pending.map((pending) => pending.subscriber)).toEqual(["webhooks"]);
+				expect(failed.lag.status === "ok" ? failed.lag.value : null).toEqual([
+					expect.objectContaining({ subscriber: "achievements", pendingCount: 0 }),
+					expect.objectContaining({ subscriber: "webhooks", pendingCount: 1 }),
+				]);
+
+				fetchMock
+					.get("https://hooks.example.com")
+					.intercept({ path: "/flaky", method: "POST" })
+					.reply(204);
+				const retried = await runInDurableObject(stub, async (instance: EventBusDO) => {
+					const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
+					await db
+						.update(pendingEvents)
+						.set({ nextRetryAt: new Date(Date.now() - 1_000).toISOString() });
+					await instance.retryDueEventsTick();
+					return {
+						receipts: await db.select().from(deliveredEvents),
+						pending: await db.select().from(pendingEvents),
+					};
+				});
+
+				expect(retried.pending).toEqual([]);
+				expect(retried.receipts.map((receipt) => receipt.subscriber).sort()).toEqual([
+					"achievements",
+					"webhooks",
+				]);
+			} finally {
+				await webhooks.deleteWebhook(endpoint.value.id);
+			}
+		});
+	});
+
+	describe("Event Log", () => {
+		it("logs each accepted event once and drops entries past retention", async () => {
+			const event = createTestEvent();
+			const expired = createTestEvent();
+
+			const logged = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				await seedEventLogRow(
+					instance,
+					expired,
+					new Date(Date.now() - 91 * 24 * 60 * 60 * 1000).toISOString(),
+				);
+				await instance.publish(event);
+				await instance.publish(event);
+				const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
+				return db.select().from(eventLog);
+			});
+
+			expect(logged.map((entry) => entry.id)).toEqual([event.id]);
+		});
+
+		it("replays a time range to one subscriber page by page without recording receipts", async () => {
+			const at = (minute: number) => `2026-10-01T12:0${minute}:00.000Z`;
+			const events = [0, 1, 2, 3].map((minute) => ({
+				...createTestEvent(),
+				timestamp: at(minute),
+			}));
+
+			const result = await runInDurableObject(stub, async (instance: EventBusDO) => {
+				for (const event of events) {
+					await seedEventLogRow(instance, event);
+				}
+				const request = { subscriber: "webhooks", from: at(0), to: at(3), limit: 2 };
+				const first = await instance.replayEvents(request);
+				const second =
+					first.status === "ok" && first.value.nextCursor !== null
+						? await instance.replayEvents({ ...request, after: first.value.nextCursor })
+						: null;
+				const db = drizzle(instance.ctx.storage, { schema: eventBusSchema });
+				return { first, second, receipts: await db.select().from(deliveredEvents) };
+			});
+
+			expect(result.first.status === "ok" ? result.first.value : null).toEqual({
+				subscriber: "webhooks",
+				replayed: 2,
+				failures: [],
+				nextCursor: { occurredAt: at(1), id: events[1]?.id },
+			});
+			expect(result.second?.status === "ok" ? result.second.value : null).toMatchObject({
+				replayed: 1,
+				nextCursor: null,
+			});
+			expect(result.receipts).toEqual([]);
+		});
+
+		it("rejects replays of event types the subscriber does not receive", async () => {
+			const result = await runInDurableObject(stub, (instance: EventBusDO) =>
+				instance.replayEvents({
+					subscriber: "webhooks",
+					from: "2026-10-01T00:00:00.000Z",
+					to: "2026-10-02T00:00:00.000Z",
+					types: ["raid_received"],
+				}),
+			);
+
+			expect(result.status === "error" ? result.error._tag : null).toBe("EventBusValidationError");
+		});
+	});
 });
@@ -0,0 +1,248 @@
+/**
+ * OutboundWebhookDO integration tests
+ *
+ * Tests Outbound Webhook administration and signed, per-endpoint delivery of domain events.
+ */
+
+import { runInDurableObject } from "cloudflare:test";
+import { env } from "cloudflare:workers";
+import { beforeEach, describe, expect, it } from "vite-plus/test";
+
+import { createRaffleRollEvent, createStreamOnlineEvent } from "../../domain/domain-event";
+import { OutboundWebhookDO } from "../../durable-objects/outbound-webhook-do";
+import { signOutboundWebhookPayload } from "../../lib/outbound-webhook-payloads";
+import { fetchMock } from "../helpers/fetch-mock";
+
+import type { CreateOutboundWebhookInput } from "../../domain/outbound-webhook";
+
+const SECRET = "outbound-webhook-test-secret";
+
+function endpoint(overrides: Partial<CreateOutboundWebhookInput> = {}): CreateOutboundWebhookInput {
+	return {
+		name: "Discord #live",
+		url: "https://hooks.example.com/live",
+		secret: SECRET,
+		topics: ["stream_online"],
+		...overrides,
+	};
+}
+
+function streamOnline() {
+	return createStreamOnlineEvent({
+		id: crypto.randomUUID(),
+		streamId: "stream-1",
+		startedAt: new Date().toISOString(),
+	});
+}
+
+describe("OutboundWebhookDO", () => {
+	let stub: DurableObjectStub<OutboundWebhookDO>;
+
+	beforeEach(async () => {
+		const name = `outbound-webhooks-${crypto.randomUUID()}`;
+		stub = env.OUTBOUND_WEBHOOK_DO.get(env.OUTBOUND_WEBHOOK_DO.idFromName(name));
+		await stub.setName(name);
+	});
+
+	it("registers, edits, and deletes endpoints without reading secrets back", async () => {
+		const result = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			const created = await instance.createWebhook(
+				endpoint({ topics: ["stream_online", "stream_online", "raffle_win"] }),
+			);
+			if (created.status === "error") throw created.error;
+			const updated = await instance.updateWebhook(created.value.id, {
+				format: "discord",
+				enabled: false,
+			});
+			const listed = await instance.listWebhooks();
+			const deleted = await instance.deleteWebhook(created.value.id);
+			const deletedAgain = await instance.deleteWebhook(created.value.id);
+			return { created: created.value, updated, listed, deleted, deletedAgain };
+		});
+
+		expect(result.created).toMatchObject({
+			format: "json",
+			topics: ["stream_online", "raffle_win"],
+			enabled: true,
+		});
+		expect(result.created).not.toHaveProperty("secret");
+		expect(result.updated.status === "ok" ? result.updated.value : null).toMatchObject({
+			format: "discord",
+			enabled: false,
+		});
+		expect(result.listed.status === "ok" ? result.listed.value : null).toHaveLength(1);
+		expect(result.deleted.status === "ok" ? result.deleted.value : null).toBe(true);
+		expect(result.deletedAgain.status === "ok" ? result.deletedAgain.value : null).toBe(false);
+	});
+
+	it("rejects plain HTTP URLs, short secrets, and empty edits", async () => {
+		const result = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => ({
+			http: await instance.createWebhook(endpoint({ url: "http://hooks.example.com/live" })),
+			shortSecret: await instance.createWebhook(endpoint({ secret: "short" })),
+			emptyEdit: await instance.updateWebhook(crypto.randomUUID(), {}),
+			missing: await instance.updateWebhook(crypto.randomUUID(), { enabled: false }),
+		}));
+
+		for (const rejected of [result.http, result.shortSecret, result.emptyEdit]) {
+			expect(rejected.status === "error" ? rejected.error._tag : null).toBe(
+				"OutboundWebhookValidationError",
+			);
+		}
+		expect(result.missing.status === "error" ? result.missing.error._tag : null).toBe(
+			"OutboundWebhookNotFoundError",
+		);
+	});
+
+	it("posts a signed payload to each subscribed, enabled endpoint", async () => {
+		const event = streamOnline();
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/live", method: "POST" })
+			.reply(204);
+
+		const result = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			await instance.createWebhook(endpoint());
+			await instance.createWebhook(
+				endpoint({ url: "https://hooks.example.com/off", enabled: false }),
+			);
+			await instance.createWebhook(
+				endpoint({ url: "https://hooks.example.com/raffle", topics: ["raffle_win"] }),
+			);
+			return instance.handleEvent(event);
+		});
+
+		expect(result.status).toBe("ok");
+		const requests = fetchMock.getRequests();
+		expect(requests).toHaveLength(1);
+		const [request] = requests;
+		const body = request?.body ?? "";
+		expect(JSON.parse(body)).toMatchObject({
+			id: event.id,
+			topic: "stream_online",
+			event: { id: event.id, type: "stream_online", streamId: "stream-1" },
+		});
+		const timestamp = request?.headers["x-webhook-timestamp"] ?? "";
+		expect(request?.headers["x-webhook-signature"]).toBe(
+			`sha256=${await signOutboundWebhookPayload(SECRET, timestamp, body)}`,
+		);
+		expect(request?.headers["x-webhook-event-id"]).toBe(event.id);
+	});
+
+	it("renders Discord embeds for Discord endpoints", async () => {
+		fetchMock
+			.get("https://discord.com")
+			.intercept({ path: "/api/webhooks/1/token", method: "POST" })
+			.reply(204);
+
+		await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			await instance.createWebhook(
+				endpoint({ url: "https://discord.com/api/webhooks/1/token", format: "discord" }),
+			);
+			return instance.handleEvent(streamOnline());
+		});
+
+		const [request] = fetchMock.getRequests();
+		expect(JSON.parse(request?.body ?? "")).toEqual({
+			embeds: [expect.objectContaining({ title: "🔴 Stream is live!" })],
+		});
+	});
+
+	it("fails the delivery when an endpoint rejects it and retries only that endpoint", async () => {
+		const event = streamOnline();
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/live", method: "POST" })
+			.reply(204);
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/flaky", method: "POST" })
+			.reply(503);
+
+		const first = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			await instance.createWebhook(endpoint());
+			await instance.createWebhook(endpoint({ url: "https://hooks.example.com/flaky" }));
+			return instance.handleEvent(event);
+		});
+
+		expect(first.status === "error" ? first.error._tag : null).toBe("OutboundWebhookDeliveryError");
+
+		fetchMock.reset();
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/flaky", method: "POST" })
+			.reply(200);
+
+		const retry = await runInDurableObject(stub, (instance: OutboundWebhookDO) =>
+			instance.handleEvent(event),
+		);
+
+		expect(retry.status).toBe("ok");
+		expect(fetchMock.getRequests().map((request) => request.url)).toEqual([
+			"https://hooks.example.com/flaky",
+		]);
+	});
+
+	it("fails only the endpoint whose stored format cannot be read", async () => {
+		const event = streamOnline();
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/live", method: "POST" })
+			.reply(204);
+
+		const result = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			await instance.createWebhook(endpoint());
+			const broken = await instance.createWebhook(
+				endpoint({ url: "https://hooks.example.com/broken" }),
+			);
+			if (broken.status === "error") throw broken.error;
+			instance.ctx.storage.sql.exec(
+				"UPDATE outbound_webhooks SET format = 'xml' WHERE id = ?",
+				broken.value.id,
+			);
+			return { brokenId: broken.value.id, delivery: await instance.handleEvent(event) };
+		});
+
+		expect(
+			result.delivery.status === "error" &&
+				result.delivery.error._tag === "OutboundWebhookDeliveryError"
+				? result.delivery.error.failures
+				: null,
+		).toEqual([{ webhookId: result.brokenId, status: null }]);
+		expect(fetchMock.getRequests().map((request) => request.url)).toEqual([
+			"https://hooks.example.com/live",
+		]);
+	});
+
+	it("posts only winning Rolls to raffle_win endpoints", async () => {
+		const roll = (isWinner: boolean) =>
+			createRaffleRollEvent({
+				id: crypto.randomUUID(),
+				userId: "user-1",
+				userDisplayName: "Viewer",
+				sagaId: crypto.randomUUID(),
+				roll: 4242,
+				winningNumber: isWinner ? 4242 : 1,
+				distance: isWinner ? 0 : 4241,
+				isWinner,
+				isNewRecord: false,
+			});
+		fetchMock
+			.get("https://hooks.example.com")
+			.intercept({ path: "/raffle", method: "POST" })
+			.reply(204);
+
+		const result = await runInDurableObject(stub, async (instance: OutboundWebhookDO) => {
+			await instance.createWebhook(
+				endpoint({ url: "https://hooks.example.com/raffle", topics: ["raffle_win"] }),
+			);
+			return {
+				loss: await instance.handleEvent(roll(false)),
+				win: await instance.handleEvent(roll(true)),
+			};
+		});
+
+		expect(result.loss.status).toBe("ok");
+		expect(result.win.status).toBe("ok");
+		expect(fetchMock.getRequests()).toHaveLength(1);
+	});
+});
@@ -0,0 +1,279 @@
+/**
+ * OverlayFeedDO integration tests
+ *
+ * Tests publication and cursor-based WebSocket replay through the Agent interface.
+ */
+
+import { runInDurableObject } from "cloudflare:test";
+import { env } from "cloudflare:workers";
+import { beforeEach, describe, expect, it } from "vite-plus/test";
+
+import {
+	OverlayEventType,
+	OverlayFeedFrameSchema,
+	type OverlayEvent,
+	type OverlayFeedFrame,
+} from "../../domain/overlay-event";
+import { OverlayFeedDO } from "../../durable-objects/overlay-feed-do";
+
+function createRaffleResult(
+	overrides: { id?: string; roll?: number; isWinner?: boolean } = {},
+): OverlayEvent {
+	return {
+		id: overrides.id ?? crypto.randomUUID(),
+		type: OverlayEventType.RaffleResult,
+		occurredAt: new Date().toISOString(),
+		userDisplayName: "TestUser",
+		roll: overrides.roll ?? 42,
+		winningNumber: 100,
+		distance: Math.abs((overrides.roll ?? 42) - 100),
+		isWinner: overrides.isWinner ?? false,
+		isNewRecord: false,
+	};
+}
+
+function createAchievementUnlocked(overrides: { occurredAt?: string } = {}): OverlayEvent {
+	return {
+		id: `${crypto.randomUUID()}:first_request`,
+		type: OverlayEventType.AchievementUnlocked,
+		occurredAt: overrides.occurredAt ?? new Date().toISOString(),
+		userDisplayName: "TestUser",
+		achievementId: "first_request",
+		achievementName: "First Timer",
+		achievementDescription: "Request your first song",
+		achievementIcon: "1f3b5",
+		category: "song_request",
+	};
+}
+
+/** Opens an overlay socket and resolves frames as they arrive. */
+async function connectOverlay(
+	stub: DurableObjectStub<OverlayFeedDO>,
+	feedName: string,
+	query = "",
+): Promise<{ socket: WebSocket; nextFrames: (count: number) => Promise<OverlayFeedFrame[]> }> {
+	const response = await stub.fetch(`http://overlay-feed/overlay/events${query}`, {
+		headers: { Upgrade: "websocket", "x-partykit-room": feedName },
+	});
+	const socket = response.webSocket;
+	if (socket === null) throw new Error(`Expected WebSocket upgrade, got ${response.status}`);
+
+	const received: OverlayFeedFrame[] = [];
+	const waiters: Array<() => void> = [];
+	socket.addEventListener("message", (message) => {
+		received.push(OverlayFeedFrameSchema.parse(JSON.parse(String(message.data))));
+		for (const waiter of waiters.splice(0)) waiter();
+	});
+	socket.accept();
+
+	return {
+		socket,
+		nextFrames: async (count) => {
+			while (received.length < count) {
+				await new Promise<void>((resolve) => waiters.push(resolve));
+			}
+			return received.splice(0, count);
+		},
+	};
+}
+
+describe("OverlayFeedDO", () => {
+	let stub: DurableObjectStub<OverlayFeedDO>;
+	let feedName: string;
+
+	beforeEach(async () => {
+		feedName = `overlay-feed-${crypto.randomUUID()}`;
+		stub = env.OVERLAY_FEED_DO.get(env.OVERLAY_FEED_DO.idFromName(feedName));
+		await stub.setName(feedName);
+	});
+
+	describe("publish", () => {
+		it("rejects an invalid overlay event", async () => {
+			const result = await runInDurableObject(stub, (instance: OverlayFeedDO) =>
+				instance.publish({ type: "unknown" }),
+			);
+
+			expect(result.status).toBe("error");
+			if (result.status === "error") {
+				expect(result.error._tag).toBe("OverlayFeedValidationError");
+			}
+		});
+
+		it("assigns increasing cursors and acknowledges a republished event id", async () => {
+			const first = createRaffleResult();
+			const result = await runInDurableObject(stub, async (instance: OverlayFeedDO) => ({
+				first: await instance.publish(first),
+				second: await instance.publish(createRaffleResult()),
+				republished: await instance.publish(first),
+			}));
+
+			expect(result.first).toEqual(expect.objectContaining({ status: "ok", value: 1 }));
+			expect(result.second).toEqual(expect.objectContaining({ status: "ok", value: 2 }));
+			expect(result.republished).toEqual(expect.objectContaining({ status: "ok", value: 1 }));
+		});
+	});
+
+	describe("overlay connections", () => {
+		it("streams only live events when connecting without a cursor", async () => {
+			await stub.publish(createRaffleResult({ roll: 1 }));
+			const overlay = await connectOverlay(stub, feedName);
+
+			expect(await overlay.nextFrames(1)).toEqual([{ kind: "ready", cursor: 1, truncated: false }]);
+
+			const live = createRaffleResult({ roll: 2 });
+			await stub.publish(live);
+			expect(await overlay.nextFrames(1)).toEqual([{ kind: "event", cursor: 2, event: live }]);
+			overlay.socket.close();
+		});
+
+		it("replays events after the resume cursor before marking the overlay ready", async () => {
+			const missed = [
+				createRaffleResult({ roll: 1 }),
+				createRaffleResult({ roll: 2 }),
+				createRaffleResult({ roll: 3 }),
+			];
+			for (const event of missed) await stub.publish(event);
+
+			const overlay = await connectOverlay(stub, feedName, "?cursor=1");
+
+			expect(await overlay.nextFrames(3)).toEqual([
+				{ kind: "event", cursor: 2, event: missed[1] },
+				{ kind: "event", cursor: 3, event: missed[2] },
+				{ kind: "ready", cursor: 3, truncated: false },
+			]);
+			overlay.socket.close();
+		});
+
+		it("replays the whole feed as truncated when the resume cursor is ahead of it", async () => {
+			const event = createRaffleResult();
+			await stub.publish(event);
+
+			const overlay = await connectOverlay(stub, feedName, "?cursor=99");
+
+			expect(await overlay.nextFrames(2)).toEqual([
+				{ kind: "event", cursor: 1, event },
+				{ kind: "ready", cursor: 1, truncated: true },
+			]);
+			overlay.socket.close();
+		});
+	});
+
+	describe("alert display queue", () => {
+		it("queues achievement unlocks and raffle wins but not other overlay events", async () => {
+			const unlock = createAchievementUnlocked();
+			const win = createRaffleResult({ roll: 100, isWinner: true });
+			await stub.publish(createRaffleResult({ roll: 1 }));
+			await stub.publish({
+				id: crypto.randomUUID(),
+				type: OverlayEventType.NowPlayingChanged,
+				occurredAt: new Date().toISOString(),
+				track: null,
+			});
+			await stub.publish(unlock);
+			await stub.publish(win);
+			await stub.publish(unlock);
+
+			const alerts = await runInDurableObject(stub, async (instance: OverlayFeedDO) => {
+				const seen = [];
+				for (;;) {
+					const next = await instance.nextAlert();
+					if (next.status === "error" || next.value === null) return { seen, last: next };
+					seen.push(next.value);
+					await instance.markAlertShown(next.value.id);
+				}
+			});
+
+			expect(alerts.seen).toEqual([unlock, win]);
+			expect(alerts.last).toEqual(expect.objectContaining({ status: "ok", value: null }));
+		});
+
+		it("keeps the head alert until it is marked shown", async () => {
+			const first = createAchievementUnlocked();
+			const second = createRaffleResult({ roll: 100, isWinner: true });
+			await stub.publish(first);
+			await stub.publish(second);
+
+			const result = await runInDurableObject(stub, async (instance: OverlayFeedDO) => ({
+				before: await instance.nextAlert(),
+				reloaded: await instance.nextAlert(),
+				marked: await instance.markAlertShown(first.id),
+				markedAgain: await instance.markAlertShown(first.id),
+				unknown: await instance.markAlertShown("missing-alert"),
+				after: await instance.nextAlert(),
+			}));
+
+			expect(result.before).toEqual(expect.objectContaining({ status: "ok", value: first }));
+			expect(result.reloaded).toEqual(expect.objectContaining({ status: "ok", value: first }));
+			expect(result.marked).toEqual(expect.objectContaining({ status: "ok", value: true }));
+			expect(result.markedAgain).toEqual(expect.objectContaining({ status: "ok", value: true }));
+			expect(result.unknown).toEqual(expect.objectContaining({ status: "ok", value: false }));
+			expect(result.after).toEqual(expect.objectContaining({ status: "ok", value: second }));
+		});
+
+		it("expires alerts whose event happened before the display window", async () => {
+			const stale = createAchievementUnlocked({
+				occurredAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+			});
+			const fresh = createRaffleResult({ roll: 100, isWinner: true });
+			await stub.publish(stale);
+			await stub.publish(fresh);
+
+			const result = await runInDurableObject(stub, (instance: OverlayFeedDO) =>
+				instance.nextAlert(),
+			);
+
+			expect(result).toEqual(expect.objectContaining({ status: "ok", value: fresh }));
+		});
+	});
+	describe("theme presets", () => {
+		it("rejects preset names and themes that cannot be served", async () => {
+			const result = await runInDurableObject(stub, async (instance: OverlayFeedDO) => ({
+				palette: await instance.saveThemePreset("catppuccin-latte", {}),
+				badName: await instance.saveThemePreset("../scene", {}),
+				badFont: await instance.saveThemePreset("scene", { font: "comic-sans" }),
+				badColor: await instance.saveThemePreset("scene", { colors: { base: "red" } }),
+			}));
+
+			for (const rejected of Object.values(result)) {
+				expect(rejected.status).toBe("error");
+				if (rejected.status === "error") {
+					expect(rejected.error._tag).toBe("OverlayFeedValidationError");
+				}
+			}
+		});
+
+		it("stores, lists, and deletes presets by name", async () => {
+			const result = await runInDurableObject(stub, async (instance: OverlayFeedDO) => {
+				await instance.saveThemePreset("zebra", { font: "fira-code" });
+				await instance.saveThemePreset("alpha", { colors: { accent: "#ff0088" } });
+				return {
+					fetched: await instance.getThemePreset("alpha"),
+					listed: await instance.listThemePresets(),
+					deleted: await instance.deleteThemePreset("zebra"),
+					deletedAgain: await instance.deleteThemePreset("zebra"),
+					missing: await instance.getThemePreset("zebra"),
+				};
+			});
+
+			expect(result.fetched).toEqual(
+				expect.objectContaining({
+					status: "ok",
+					value: expect.objectContaining({
+						name: "alpha",
+						theme: {
+							palette: "catppuccin-macchiato",
+							font: "ibm-plex-mono",
+							colors: { accent: "#ff0088" },
+						},
+					}),
+				}),
+			);
+			expect(
+				result.listed.status === "ok" ? result.listed.value.map((preset) => preset.name) : [],
+			).toEqual(["alpha", "zebra"]);
+			expect(result.deleted).toEqual(expect.objectContaining({ status: "ok", value: true }));
+			expect(result.deletedAgain).toEqual(expect.objectContaining({ status: "ok", value: false }));
+			expect(result.missing).toEqual(expect.objectContaining({ status: "ok", value: null }));
+		});
+	});
+});
@@ -5,8 +5,14 @@ import { describe, expect, it } from "vite-plus/test";
 
 import { RaidShoutoutSagaDO } from "../../durable-objects/raid-shoutout-saga-do";
 import * as sagaSchema from "../../durable-objects/schemas/saga.schema";
+import { StreamLifecycleDO } from "../../durable-objects/stream-lifecycle-do";
 import { TwitchTokenDO } from "../../durable-objects/twitch-token-do";
 import { VALID_TOKEN_RESPONSE, mockTwitchChatMessage } from "../fixtures/twitch";
+import {
+	ensureAchievementsSingletonStub,
+	waitForAchievementQueuesToDrain,
+	waitForAchievementUnlockEffectsToDrain,
+} from "../helpers/durable-objects";
 import { fetchMock } from "../helpers/fetch-mock";
 
 async function createRaidShoutoutSagaStub(
@@ -51,13 +57,22 @@ function mockRetryableTwitchShoutoutFailure(toBroadcasterId: string): void {
 	}
 }
 
-function mockRetryableTwitchChatFailure(): void {
-	for (let attempt = 0; attempt < 4; attempt += 1) {
-		fetchMock
-			.get("https://api.twitch.tv")
-			.intercept({ path: "/helix/chat/messages", method: "POST" })
-			.reply(503, "Service unavailable");
+/**
+ * Mocks the chat announcements of the raid Achievements a Raid unlocks and
+ * waits for them to be sent, so they cannot consume a later test's mocks.
+ */
+async function expectRaidAchievementAnnouncements(
+	raiderDisplayName: string,
+	announcements: number,
+	run: () => Promise<void>,
+): Promise<void> {
+	const achievements = await ensureAchievementsSingletonStub();
+	for (let announcement = 0; announcement < announcements; announcement += 1) {
+		mockTwitchChatMessage(fetchMock);
 	}
+	await run();
+	await waitForAchievementQueuesToDrain(achievements, raiderDisplayName);
+	await waitForAchievementUnlockEffectsToDrain(achievements, raiderDisplayName);
 }
 
 async function waitForSagaCompletion(
@@ -102,18 +117,21 @@ describe("RaidShoutoutSagaDO", () => {
 		mockTwitchChatMessage(fetchMock);
 		mockTwitchShoutout(raiderUserId);
 
-		const result = await stub.start({
-			messageId: `message-${crypto.randomUUID()}`,
-			receivedAt: "2026-05-25T00:00:00.000Z",
-			raider: {
-				userId: raiderUserId,
-				login: "raiderlogin",
-				displayName: "RaiderLogin",
-			},
-			viewers: 42,
+		// The first Raid is both a first raid and the biggest so far.
+		await expectRaidAchievementAnnouncements("RaiderLogin", 2, async () => {
+			const result = await stub.start({
+				messageId: `message-${crypto.randomUUID()}`,
+				receivedAt: "2026-05-25T00:00:00.000Z",
+				raider: {
+					userId: raiderUserId,
+					login: "raiderlogin",
+					displayName: "RaiderLogin",
+				},
+				viewers: 42,
+			});
+			expect(result.status).toBe("ok");
 		});
 
-		expect(result.status).toBe("ok");
 		const status = await stub.getStatus();
 		expect(status).toMatchObject({
 			status: "ok",
@@ -121,6 +139,94 @@ describe("RaidShoutoutSagaDO", () => {
 		});
 	});
 
+	it("records the Raid and unlocks raid Achievements for the raiding broadcaster", async () => {
+		await ensureTwitchTokenStub();
+		const streamLifecycle = env.STREAM_LIFECYCLE_DO.get(
+			env.STREAM_LIFECYCLE_DO.idFromName("stream-lifecycle"),
+		);
+		await streamLifecycle.setName("stream-lifecycle");
+		const raiderUserId = `history-raider-${crypto.randomUUID()}`;
+		const displayName = `HistoryRaider${crypto.randomUUID()}`;
+		const stub = await createRaidShoutoutSagaStub(`raid-shoutout-${crypto.randomUUID()}`);
+		mockTwitchChatMessage(fetchMock);
+		mockTwitchShoutout(raiderUserId);
+
+		await expectRaidAchievementAnnouncements(displayName, 2, async () => {
+			const result = await stub.start({
+				messageId: `message-${crypto.randomUUID()}`,
+				receivedAt: "2026-05-25T00:00:00.000Z",
+				raider: { userId: raiderUserId, login: "historyraider", displayName },
+				viewers: 10_000,
+			});
+			expect(result.status).toBe("ok");
+		});
+
+		const topRaiders = await runInDurableObject(streamLifecycle, (instance: StreamLifecycleDO) =>
+			instance.getTopRaiders(100),
+		);
+		expect(topRaiders.status === "ok" ? topRaiders.value : []).toContainEqual(
+			expect.objectContaining({ userId: raiderUserId, raids: 1, biggestRaid: 10_000 }),
+		);
+		const achievements = await ensureAchievementsSingletonStub();
+		const progress = await achievements.getUserAchievements(displayName);
+		const unlocked =
+			progress.status === "ok"
+				? progress.value
+						.filter((achievement) => achievement.unlockedAt !== null)
+						.map((achievement) => achievement.achievementId)
+				: [];
+		expect(unlocked).toEqual(expect.arrayContaining(["first_raid", "biggest_raid"]));
+	});
+
+	it("records and publishes the Raid before a failed chat thank-you ends the saga", async () => {
+		await ensureTwitchTokenStub();
+		const streamLifecycle = env.STREAM_LIFECYCLE_DO.get(
+			env.STREAM_LIFECYCLE_DO.idFromName("stream-lifecycle"),
+		);
+		await streamLifecycle.setName("stream-lifecycle");
+		const raiderUserId = `unthanked-raider-${crypto.randomUUID()}`;
+		const displayName = `UnthankedRaider${crypto.randomUUID()}`;
+		const stub = await createRaidShoutoutSagaStub(`raid-shoutout-${crypto.randomUUID()}`);
+		fetchMock
+			.get("https://api.twitch.tv")
+			.intercept({ path: "/helix/chat/messages", method: "POST" })
+			.reply(400, "Chat unavailable");
+
+		await expectRaidAchievementAnnouncements(displayName, 1, async () => {
+			const result = await stub.start({
+				messageId: `message-${crypto.randomUUID()}`,
+				receivedAt: "2026-05-25T00:00:00.000Z",
+				raider: { userId: raiderUserId, login: "unthankedraider", displayName },
+				viewers: 1,
+			});
+			expect(result.status).toBe("error");
+		});
+
+		expect(await stub.getStatus()).toMatchObject({ status: "ok", value: { status: "FAILED" } });
+		const chatStep = await runInDurableObject(stub, async (instance: RaidShoutoutSagaDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
+			return db.query.sagaSteps.findFirst({
+				where: (step, operators) => operators.eq(step.stepName, "send-chat-thanks"),
+			});
+		});
+		expect(chatStep).toMatchObject({ state: "FAILED" });
+		const topRaiders = await runInDurableObject(streamLifecycle, (instance: StreamLifecycleDO) =>
+			instance.getTopRaiders(100),
+		);
+		expect(topRaiders.status === "ok" ? topRaiders.value : []).toContainEqual(
+			expect.objectContaining({ userId: raiderUserId, raids: 1 }),
+		);
+		const achievements = await ensureAchievementsSingletonStub();
+		const progress = await achievements.getUserAchievements(displayName);
+		const unlocked =
+			progress.status === "ok"
+				? progress.value
+						.filter((achievement) => achievement.unlockedAt !== null)
+						.map((achievement) => achievement.achievementId)
+				: [];
+		expect(unlocked).toContain("first_raid");
+	}, 20_000);
+
 	it("does not repeat chat or native shoutout work when the same message is retried", async () => {
 		await ensureTwitchTokenStub();
 		const raiderUserId = "raider-user-id";
@@ -166,21 +272,23 @@ describe("RaidShoutoutSagaDO", () => {
 		mockTwitchChatMessage(fetchMock);
 		mockRetryableTwitchShoutoutFailure(raiderUserId);
 
-		const start = await stub.start({
-			messageId: `message-${crypto.randomUUID()}`,
-			receivedAt: "2026-05-25T00:00:00.000Z",
-			raider: {
-				userId: raiderUserId,
-				login: "retryraider",
-				displayName: "RetryRaider",
-			},
-			viewers: 42,
-		});
+		await expectRaidAchievementAnnouncements("RetryRaider", 1, async () => {
+			const start = await stub.start({
+				messageId: `message-${crypto.randomUUID()}`,
+				receivedAt: "2026-05-25T00:00:00.000Z",
+				raider: {
+					userId: raiderUserId,
+					login: "retryraider",
+					displayName: "RetryRaider",
+				},
+				viewers: 42,
+			});
 
-		expect(start.status).toBe("error");
-		if (start.status === "error") {
-			expect(start.error).toMatchObject({ _tag: "SagaStepRetrying" });
-		}
+			expect(start.status).toBe("error");
+			if (start.status === "error") {
+				expect(start.error).toMatchObject({ _tag: "SagaStepRetrying" });
+			}
+		});
 
 		const retryState = await runInDurableObject(stub, async (instance: RaidShoutoutSagaDO) => {
 			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
@@ -237,8 +345,10 @@ describe("RaidShoutoutSagaDO", () => {
 			.intercept({ path: twitchShoutoutPath(raiderUserId), method: "POST" })
 			.reply(400, "Invalid shoutout");
 
-		const result = await stub.start(params);
-		expect(result.status).toBe("error");
+		await expectRaidAchievementAnnouncements("TerminalRaider", 1, async () => {
+			const result = await stub.start(params);
+			expect(result.status).toBe("error");
+		});
 		expect(await stub.getStatus()).toMatchObject({ status: "ok", value: { status: "FAILED" } });
 		const persisted = await runInDurableObject(stub, async (instance: RaidShoutoutSagaDO) => {
 			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
@@ -506,32 +616,37 @@ describe("RaidShoutoutSagaDO", () => {
 				END
 			`);
 		});
-		mockRetryableTwitchChatFailure();
+		mockTwitchChatMessage(fetchMock);
+		mockRetryableTwitchShoutoutFailure("schedule-failure-raider");
+
+		await expectRaidAchievementAnnouncements("ScheduleFailure", 1, async () => {
+			const result = await stub.start({
+				messageId: `message-${crypto.randomUUID()}`,
+				receivedAt: "2026-05-25T00:00:00.000Z",
+				raider: {
+					userId: "schedule-failure-raider",
+					login: "schedulefailure",
+					displayName: "ScheduleFailure",
+				},
+				viewers: 42,
+			});
 
-		const result = await stub.start({
-			messageId: `message-${crypto.randomUUID()}`,
-			receivedAt: "2026-05-25T00:00:00.000Z",
-			raider: {
-				userId: "schedule-failure-raider",
-				login: "schedulefailure",
-				displayName: "ScheduleFailure",
-			},
-			viewers: 42,
+			expect(result.status).toBe("error");
+			if (result.status === "error") {
+				expect(result.error).toMatchObject({
+					_tag: "SagaScheduleError",
+					operation: "schedule",
+				});
+			}
 		});
-
-		expect(result.status).toBe("error");
-		if (result.status === "error") {
-			expect(result.error).toMatchObject({
-				_tag: "SagaScheduleError",
-				operation: "schedule",
-			});
-		}
 		const pending = await runInDurableObject(stub, async (instance: RaidShoutoutSagaDO) => {
 			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
-			return db.query.sagaSteps.findFirst();
+			return db.query.sagaSteps.findFirst({
+				where: (step, operators) => operators.eq(step.stepName, "create-native-shoutout"),
+			});
 		});
 		expect(pending).toMatchObject({
-			stepName: "send-chat-thanks",
+			stepName: "create-native-shoutout",
 			state: "PENDING",
 			attempt: 1,
 			nextRetryAt: expect.any(String),
@@ -0,0 +1,153 @@
+/**
+ * RewardRegistryDO integration tests
+ *
+ * Tests Reward Binding administration and recording of unbound reward redemptions.
+ */
+
+import { runInDurableObject } from "cloudflare:test";
+import { env } from "cloudflare:workers";
+import { beforeEach, describe, expect, it } from "vite-plus/test";
+
+import { RewardRegistryDO } from "../../durable-objects/reward-registry-do";
+
+import type { TwitchRedemption } from "../../lib/channel-point-redemptions";
+
+function redemption(
+	overrides: { id?: string; rewardId?: string; title?: string; redeemedAt?: string } = {},
+): TwitchRedemption {
+	return {
+		id: overrides.id ?? crypto.randomUUID(),
+		broadcaster_user_id: "broadcaster-1",
+		broadcaster_user_login: "broadcaster",
+		broadcaster_user_name: "Broadcaster",
+		user_id: "user-1",
+		user_login: "viewer",
+		user_name: "Viewer",
+		user_input: "",
+		status: "unfulfilled",
+		reward: {
+			id: overrides.rewardId ?? "hydrate-reward",
+			title: overrides.title ?? "Hydrate",
+			cost: 100,
+			prompt: "",
+		},
+		redeemed_at: overrides.redeemedAt ?? new Date().toISOString(),
+	};
+}
+
+describe("RewardRegistryDO", () => {
+	let stub: DurableObjectStub<RewardRegistryDO>;
+
+	beforeEach(async () => {
+		const registryName = `reward-registry-${crypto.randomUUID()}`;
+		stub = env.REWARD_REGISTRY_DO.get(env.REWARD_REGISTRY_DO.idFromName(registryName));
+		await stub.setName(registryName);
+	});
+
+	it("rejects bindings whose handler cannot run", async () => {
+		const result = await runInDurableObject(stub, async (instance: RewardRegistryDO) => ({
+			unknownKind: await instance.saveReward("reward-1", { handler: { kind: "tts" } }),
+			unknownSaga: await instance.saveReward("reward-1", {
+				handler: { kind: "custom_saga", saga: "raid-shoutout" },
+			}),
+			emptyTemplate: await instance.saveReward("reward-1", {
+				handler: { kind: "chat_message", template: "   " },
+			}),
+			blankRewardId: await instance.saveReward(" ", { handler: { kind: "song_request" } }),
+		}));
+
+		for (const rejected of Object.values(result)) {
+			expect(rejected.status).toBe("error");
+			if (rejected.status === "error") {
+				expect(rejected.error._tag).toBe("RewardRegistryValidationError");
+			}
+		}
+	});
+
+	it("stores, replaces, resolves, and deletes bindings", async () => {
+		const result = await runInDurableObject(stub, async (instance: RewardRegistryDO) => {
+			const created = await instance.saveReward("hydrate-reward", {
+				handler: { kind: "counter_increment", commandName: "hydrate" },
+			});
+			await instance.saveReward("alpha-reward", { handler: { kind: "song_request" } });
+			const replaced = await instance.saveReward("hydrate-reward", {
+				handler: { kind: "chat_message", template: "Drink up, {user}!" },
+				enabled: false,
+			});
+			return {
+				created,
+				replaced,
+				resolved: await instance.resolveReward("hydrate-reward"),
+				listed: await instance.listRewards(),
+				deleted: await instance.deleteReward("hydrate-reward"),
+				deletedAgain: await instance.deleteReward("hydrate-reward"),
+				missing: await instance.resolveReward("hydrate-reward"),
+			};
+		});
+
+		expect(result.created.status).toBe("ok");
+		expect(result.replaced.status).toBe("ok");
+		if (result.created.status === "ok" && result.replaced.status === "ok") {
+			expect(result.replaced.value).toEqual({
+				rewardId: "hydrate-reward",
+				handler: { kind: "chat_message", template: "Drink up, {user}!" },
+				enabled: false,
+				createdAt: result.created.value.createdAt,
+				updatedAt: expect.any(String),
+			});
+			expect(result.resolved).toEqual(
+				expect.objectContaining({ status: "ok", value: result.replaced.value }),
+			);
+		}
+		expect(
+			result.listed.status === "ok" ? result.listed.value.map((binding) => binding.rewardId) : [],
+		).toEqual(["alpha-reward", "hydrate-reward"]);
+		expect(result.deleted).toEqual(expect.objectContaining({ status: "ok", value: true }));
+		expect(result.deletedAgain).toEqual(expect.objectContaining({ status: "ok", value: false }));
+		expect(result.missing).toEqual(expect.objectContaining({ status: "ok", value: null }));
+	});
+
+	it("records unbound redemptions once and clears them when the reward is bound", async () => {
+		const first = redemption({ title: "Hydrate", redeemedAt: "2026-01-22T12:00:00.000Z" });
+		const latest = redemption({ title: "Hydrate!", redeemedAt: "2026-01-22T13:00:00.000Z" });
+		const other = redemption({ rewardId: "stretch-reward", title: "Stretch" });
+
+		const result = await runInDurableObject(stub, async (instance: RewardRegistryDO) => {
+			await instance.recordUnrecognizedRedemption(first);
+			await instance.recordUnrecognizedRedemption(first);
+			await instance.recordUnrecognizedRedemption(latest);
+			await instance.recordUnrecognizedRedemption(other);
+			const before = await instance.listUnrecognizedRewards();
+			await instance.saveReward("hydrate-reward", {
+				handler: { kind: "counter_increment", commandName: "hydrate" },
+			});
+			return { before, after: await instance.listUnrecognizedRewards() };
+		});
+
+		expect(result.before).toEqual(
+			expect.objectContaining({
+				status: "ok",
+				value: [
+					{
+						rewardId: "stretch-reward",
+						rewardTitle: "Stretch",
+						redemptions: 1,
+						lastRedeemedAt: other.redeemed_at,
+					},
+					{
+						rewardId: "hydrate-reward",
+						rewardTitle: "Hydrate!",
+						redemptions: 2,
+						lastRedeemedAt: "2026-01-22T13:00:00.000Z",
+					},
+				],
+			}),
+		);
+		expect(result.after).toEqual(
+			expect.objectContaining({
+				status: "ok",
+				value: [expect.objectContaining({ rewardId: "stretch-reward" })],
+			}),
+		);
+	});
+});
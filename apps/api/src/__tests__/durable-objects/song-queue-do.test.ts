@@ -7,11 +7,17 @@
 
 import { runInDurableObject } from "cloudflare:test";
 import { env } from "cloudflare:workers";
+import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vite-plus/test";
 
+import { NowPlayingChangedOverlayEventSchema, OverlayEventType } from "../../domain/overlay-event";
+import { OverlayFeedDO } from "../../durable-objects/overlay-feed-do";
+import * as overlayFeedSchema from "../../durable-objects/schemas/overlay-feed-do.schema";
+import { overlayEvents } from "../../durable-objects/schemas/overlay-feed-do.schema";
 import {
 	pendingRequests,
+	skipVotes,
 	spotifyQueueSnapshot,
 	type InsertPendingRequest,
 	type InsertSpotifyQueueSnapshotItem,
@@ -26,7 +32,13 @@ import {
 	mockSpotifyCurrentlyPlaying,
 	mockSpotifyQueue,
 	mockSpotifyQueueError,
+	mockSpotifyRemoveFromQueue,
+	mockSpotifySkipTrack,
 } from "../fixtures/spotify";
+import {
+	VALID_TOKEN_RESPONSE as VALID_TWITCH_TOKEN_RESPONSE,
+	mockTwitchRedemptionUpdate,
+} from "../fixtures/twitch";
 import { fetchMock } from "../helpers/fetch-mock";
 
 async function seedSnapshot(
@@ -65,6 +77,32 @@ function mockSpotifyPlayback(
 		});
 }
 
+async function seedFreshNowPlaying(
+	stub: DurableObjectStub<SongQueueDO>,
+	trackId = "now-playing-track",
+): Promise<void> {
+	const syncedAt = new Date().toISOString();
+	await runInDurableObject(stub, async (instance: SongQueueDO) => {
+		await seedSnapshot(instance, [
+			{
+				position: 0,
+				trackId,
+				trackName: "Now Playing Track",
+				artists: JSON.stringify(["Test Artist"]),
+				album: "Test Album",
+				albumCoverUrl: null,
+				syncedAt,
+				source: "autoplay",
+			},
+		]);
+		instance.setState({ ...instance.state, lastSyncAt: syncedAt });
+	});
+}
+
+function createSkipVote(userId: string) {
+	return { userId, userDisplayName: `Viewer ${userId}`, votedAt: new Date().toISOString() };
+}
+
 async function expireSongQueueSnapshot(stub: DurableObjectStub<SongQueueDO>): Promise<void> {
 	await runInDurableObject(stub, (instance: SongQueueDO) => {
 		instance.setState({
@@ -936,6 +974,42 @@ describe("SongQueueDO", () => {
 				expect(result.value.tracks[0]?.id).not.toBe("old-queue-track");
 			}
 		});
+
+		it("publishes Now Playing changes to the Overlay Feed once per change", async () => {
+			const feed = env.OVERLAY_FEED_DO.get(env.OVERLAY_FEED_DO.idFromName("overlay-feed"));
+			await feed.setName("overlay-feed");
+			const readNowPlayingEvents = () =>
+				runInDurableObject(feed, async (instance: OverlayFeedDO) => {
+					const rows = await drizzle(instance.ctx.storage, { schema: overlayFeedSchema })
+						.select()
+						.from(overlayEvents)
+						.where(eq(overlayEvents.type, OverlayEventType.NowPlayingChanged));
+					return rows.map((row) =>
+						NowPlayingChangedOverlayEventSchema.parse(JSON.parse(row.event)),
+					);
+				});
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedFreshNowPlaying(stub, "previous-track");
+			const before = await readNowPlayingEvents();
+
+			await expireSongQueueSnapshot(stub);
+			mockSpotifyCurrentlyPlaying(fetchMock);
+			mockSpotifyQueue(fetchMock);
+			await stub.getCurrentlyPlaying();
+			const afterChange = await readNowPlayingEvents();
+
+			await expireSongQueueSnapshot(stub);
+			mockSpotifyCurrentlyPlaying(fetchMock);
+			mockSpotifyQueue(fetchMock);
+			await stub.getCurrentlyPlaying();
+			const afterUnchanged = await readNowPlayingEvents();
+
+			expect(afterChange).toHaveLength(before.length + 1);
+			expect(afterChange.at(-1)?.track).toEqual(
+				expect.objectContaining({ id: QUEUE_RESPONSE.currently_playing.id, source: "autoplay" }),
+			);
+			expect(afterUnchanged).toHaveLength(afterChange.length);
+		});
 	});
 
 	describe("reconciliation behavior", () => {
@@ -1024,6 +1098,40 @@ describe("SongQueueDO", () => {
 				expect(upcoming.value.tracks[0]).toMatchObject({ eventId: second.eventId });
 		});
 
+		it("fulfills a Song Request's redemption only once it reaches Now Playing", async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			const twitchTokenStub = env.TWITCH_TOKEN_DO.get(
+				env.TWITCH_TOKEN_DO.idFromName("twitch-token"),
+			);
+			await twitchTokenStub.setName("twitch-token");
+			await twitchTokenStub.setTokens(VALID_TWITCH_TOKEN_RESPONSE);
+			const track = QUEUE_RESPONSE.currently_playing;
+			const otherTrack = { ...track, id: "other-track", name: "Other Track" };
+			const request = createPendingRequest({
+				eventId: "fulfilled-at-now-playing",
+				trackId: track.id,
+				requestedAt: new Date().toISOString(),
+				rewardId: "song-reward",
+				redemptionId: "now-playing-redemption",
+			});
+			await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				await seedPending(instance, [request]);
+			});
+
+			mockSpotifyPlayback(otherTrack, [track]);
+			await stub.getSongQueue(10);
+			expect(fetchMock.getRequests().some((sent) => sent.method === "PATCH")).toBe(false);
+
+			await expireSongQueueSnapshot(stub);
+			mockSpotifyPlayback(track, []);
+			mockTwitchRedemptionUpdate(fetchMock);
+			await stub.getCurrentlyPlaying();
+
+			const fulfillment = fetchMock.getRequests().find((sent) => sent.method === "PATCH");
+			expect(fulfillment?.url).toContain("id=now-playing-redemption");
+			expect(fulfillment?.body).toBe(JSON.stringify({ status: "FULFILLED" }));
+		});
+
 		it("moves the previous position 0 user request into history when it finishes playing", async () => {
 			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
 
@@ -1132,4 +1240,488 @@ describe("SongQueueDO", () => {
 			}
 		});
 	});
+
+	describe("castSkipVote", () => {
+		it("counts one vote per viewer against Now Playing", async () => {
+			await seedFreshNowPlaying(stub);
+
+			const firstResult = await stub.castSkipVote(createSkipVote("viewer-a"));
+			const repeatResult = await stub.castSkipVote(createSkipVote("viewer-a"));
+
+			expect(firstResult).toEqual({
+				status: "ok",
+				value: {
+					_tag: "SkipVoteRecorded",
+					track: { id: "now-playing-track", name: "Now Playing Track" },
+					votes: 1,
+					requiredVotes: 2,
+					alreadyVoted: false,
+				},
+			});
+			expect(repeatResult.status).toBe("ok");
+			if (repeatResult.status === "ok") {
+				expect(repeatResult.value).toMatchObject({ votes: 1, alreadyVoted: true });
+			}
+		});
+
+		it("skips Now Playing and clears votes once the threshold is reached", async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedFreshNowPlaying(stub);
+			mockSpotifySkipTrack(fetchMock);
+
+			await stub.castSkipVote(createSkipVote("viewer-a"));
+			const result = await stub.castSkipVote(createSkipVote("viewer-b"));
+
+			expect(result.status).toBe("ok");
+			if (result.status === "ok") {
+				expect(result.value).toMatchObject({ _tag: "TrackSkipped", votes: 2, requiredVotes: 2 });
+			}
+			const remainingVotes = await runInDurableObject(stub, (instance: SongQueueDO) =>
+				drizzle(instance.ctx.storage, { schema: songQueueSchema }).select().from(skipVotes),
+			);
+			expect(remainingVotes).toHaveLength(0);
+		});
+
+		it("reports a failed Spotify skip as a Spotify error and keeps the votes", async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedFreshNowPlaying(stub);
+			fetchMock
+				.get("https://api.spotify.com")
+				.intercept({ path: "/v1/me/player/next", method: "POST" })
+				.reply(404);
+
+			await stub.castSkipVote(createSkipVote("viewer-a"));
+			const result = await stub.castSkipVote(createSkipVote("viewer-b"));
+
+			expect(result).toMatchObject({
+				status: "error",
+				error: {
+					_tag: "SongQueueSpotifyError",
+					operation: "castSkipVote.skipTrack",
+					spotifyErrorTag: "SpotifyNoActiveDeviceError",
+				},
+			});
+			const remainingVotes = await runInDurableObject(stub, (instance: SongQueueDO) =>
+				drizzle(instance.ctx.storage, { schema: songQueueSchema }).select().from(skipVotes),
+			);
+			expect(remainingVotes).toHaveLength(2);
+		});
+
+		it("reports the skip when only the follow-up refresh cannot be scheduled", async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedFreshNowPlaying(stub);
+			mockSpotifySkipTrack(fetchMock);
+			await stub.castSkipVote(createSkipVote("viewer-a"));
+
+			const result = await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				const schedule = vi
+					.spyOn(instance, "schedule")
+					.mockRejectedValue(new Error("alarm storage unavailable"));
+				try {
+					return await instance.castSkipVote(createSkipVote("viewer-b"));
+				} finally {
+					schedule.mockRestore();
+				}
+			});
+
+			expect(result).toMatchObject({
+				status: "ok",
+				value: { _tag: "TrackSkipped", votes: 2, requiredVotes: 2 },
+			});
+		});
+
+		it("resets votes when a sync observes a new Now Playing track", async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedFreshNowPlaying(stub, "previous-track");
+			await stub.castSkipVote(createSkipVote("viewer-a"));
+			await expireSongQueueSnapshot(stub);
+
+			mockSpotifyCurrentlyPlaying(fetchMock);
+			mockSpotifyQueue(fetchMock);
+			await stub.getCurrentlyPlaying();
+
+			const remainingVotes = await runInDurableObject(stub, (instance: SongQueueDO) =>
+				drizzle(instance.ctx.storage, { schema: songQueueSchema }).select().from(skipVotes),
+			);
+			expect(remainingVotes).toHaveLength(0);
+		});
+	});
+
+	describe("checkSongRequestPolicy", () => {
+		const requestedAt = "2026-01-22T12:10:00.000Z";
+
+		it("rejects a Viewer at the default everyone Pending Request limit", async () => {
+			await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				await seedPending(instance, [
+					createPendingRequest({
+						eventId: "policy-pending-1",
+						requestedAt: "2026-01-22T11:00:00.000Z",
+					}),
+					createPendingRequest({
+						eventId: "policy-pending-2",
+						requestedAt: "2026-01-22T11:01:00.000Z",
+					}),
+				]);
+			});
+
+			const result = await stub.checkSongRequestPolicy({
+				eventId: "policy-check",
+				requesterUserId: TEST_PENDING_REQUEST.requesterUserId,
+				permission: "everyone",
+				requestedAt,
+			});
+
+			expect(result).toEqual({
+				status: "ok",
+				value: {
+					_tag: "PendingRequestLimitReached",
+					permission: "everyone",
+					pendingRequests: 2,
+					maxPendingRequests: 2,
+				},
+			});
+		});
+
+		it("applies the cooldown from the Viewer's most recent played request", async () => {
+			await stub.persistRequest(
+				createPendingRequest({
+					eventId: "policy-history",
+					requestedAt: "2026-01-22T12:08:00.000Z",
+				}),
+			);
+			await stub.writeHistory("policy-history", "2026-01-22T12:09:00.000Z");
+
+			const result = await stub.checkSongRequestPolicy({
+				eventId: "policy-check",
+				requesterUserId: TEST_PENDING_REQUEST.requesterUserId,
+				permission: "everyone",
+				requestedAt,
+			});
+
+			expect(result).toEqual({
+				status: "ok",
+				value: {
+					_tag: "SongRequestCoolingDown",
+					permission: "everyone",
+					cooldownSeconds: 300,
+					retryAfterSeconds: 180,
+				},
+			});
+		});
+
+		it("applies a stored role override instead of the default", async () => {
+			await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				await seedPending(instance, [
+					createPendingRequest({
+						eventId: "policy-vip-1",
+						requestedAt: "2026-01-22T11:00:00.000Z",
+					}),
+				]);
+			});
+
+			const updated = await stub.updateSongRequestPolicy({
+				permission: "vip",
+				maxPendingRequests: 1,
+				cooldownSeconds: 0,
+			});
+			expect(updated.status).toBe("ok");
+
+			const result = await stub.checkSongRequestPolicy({
+				eventId: "policy-check",
+				requesterUserId: TEST_PENDING_REQUEST.requesterUserId,
+				permission: "vip",
+				requestedAt,
+			});
+			expect(result).toMatchObject({
+				status: "ok",
+				value: { _tag: "PendingRequestLimitReached", maxPendingRequests: 1 },
+			});
+
+			const policies = await stub.getSongRequestPolicies();
+			expect(policies).toEqual({
+				status: "ok",
+				value: [
+					{ permission: "everyone", maxPendingRequests: 2, cooldownSeconds: 300 },
+					{ permission: "vip", maxPendingRequests: 1, cooldownSeconds: 0 },
+					{ permission: "moderator", maxPendingRequests: 10, cooldownSeconds: 0 },
+				],
+			});
+		});
+	});
+
+	describe("admitRequest", () => {
+		it("rejects a redemption once admitted requests fill the role's quota", async () => {
+			const admissions = await Promise.all(
+				["admit-1", "admit-2", "admit-3"].map((eventId, index) =>
+					stub.admitRequest(
+						createPendingRequest({
+							eventId,
+							requestedAt: `2026-01-22T12:0${index}:00.000Z`,
+						}),
+						"moderator",
+					),
+				),
+			);
+			await stub.updateSongRequestPolicy({
+				permission: "vip",
+				maxPendingRequests: 3,
+				cooldownSeconds: 0,
+			});
+
+			const rejected = await stub.admitRequest(
+				createPendingRequest({ eventId: "admit-4", requestedAt: "2026-01-22T12:05:00.000Z" }),
+				"vip",
+			);
+
+			expect(admissions.map((result) => result.status)).toEqual(["ok", "ok", "ok"]);
+			expect(rejected).toEqual({
+				status: "ok",
+				value: {
+					_tag: "PendingRequestLimitReached",
+					permission: "vip",
+					pendingRequests: 3,
+					maxPendingRequests: 3,
+				},
+			});
+			await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
+				const rows = await db.select().from(songQueueSchema.pendingRequests);
+				expect(rows.map((row) => row.eventId).sort()).toEqual(["admit-1", "admit-2", "admit-3"]);
+			});
+		});
+
+		it("enforces the cooldown between concurrent redemptions from one Viewer", async () => {
+			const [first, second] = await Promise.all([
+				stub.admitRequest(
+					createPendingRequest({ eventId: "cooldown-1", requestedAt: "2026-01-22T12:00:00.000Z" }),
+					"everyone",
+				),
+				stub.admitRequest(
+					createPendingRequest({ eventId: "cooldown-2", requestedAt: "2026-01-22T12:01:00.000Z" }),
+					"everyone",
+				),
+			]);
+
+			expect(first).toEqual({
+				status: "ok",
+				value: { _tag: "SongRequestAllowed", permission: "everyone" },
+			});
+			expect(second).toMatchObject({
+				status: "ok",
+				value: { _tag: "SongRequestCoolingDown", retryAfterSeconds: 240 },
+			});
+		});
+
+		it("allows re-admitting an already persisted request without counting it against itself", async () => {
+			const request = createPendingRequest({ eventId: "readmit-1" });
+			await stub.admitRequest(request, "everyone");
+
+			const readmitted = await stub.admitRequest(request, "everyone");
+
+			expect(readmitted).toEqual({
+				status: "ok",
+				value: { _tag: "SongRequestAllowed", permission: "everyone" },
+			});
+		});
+	});
+
+	describe("checkTrackContent", () => {
+		const track = {
+			trackId: "contentTrack1",
+			artistIds: ["contentArtist1", "contentArtist2"],
+			explicit: true,
+			durationMs: 420_000,
+		};
+
+		it("allows any Spotify Track under the default rules", async () => {
+			const result = await stub.checkTrackContent(track);
+
+			expect(result).toEqual({ status: "ok", value: { _tag: "TrackContentAllowed" } });
+		});
+
+		it("rejects blocklisted artists before explicit and duration rules", async () => {
+			await stub.updateTrackContentRules({ banExplicit: true, maxDurationSeconds: 300 });
+			const added = await stub.addTrackBlocklistEntry({
+				kind: "artist",
+				spotifyId: "contentArtist2",
+				label: "Too loud",
+			});
+			expect(added).toMatchObject({ status: "ok", value: { kind: "artist", label: "Too loud" } });
+
+			expect(await stub.checkTrackContent(track)).toEqual({
+				status: "ok",
+				value: { _tag: "ArtistBlocklisted", artistId: "contentArtist2", label: "Too loud" },
+			});
+
+			expect(
+				await stub.removeTrackBlocklistEntry({ kind: "artist", spotifyId: "contentArtist2" }),
+			).toEqual({ status: "ok", value: true });
+			expect(await stub.checkTrackContent(track)).toEqual({
+				status: "ok",
+				value: { _tag: "ExplicitTrackBanned" },
+			});
+			expect(await stub.checkTrackContent({ ...track, explicit: false })).toEqual({
+				status: "ok",
+				value: { _tag: "TrackTooLong", durationSeconds: 420, maxDurationSeconds: 300 },
+			});
+			expect(await stub.getTrackContentFilter()).toEqual({
+				status: "ok",
+				value: { rules: { banExplicit: true, maxDurationSeconds: 300 }, blocklist: [] },
+			});
+		});
+	});
+
+	describe("queue moderation", () => {
+		const nowPlaying = createPendingRequest({
+			eventId: "now-playing-event",
+			trackId: "nowPlayingTrack",
+			trackName: "Now Playing Song",
+			requesterUserId: "viewer-np",
+			requesterDisplayName: "NowPlayingViewer",
+			requestedAt: "2026-01-22T11:50:00.000Z",
+		});
+		const first = createPendingRequest({
+			eventId: "first-event",
+			trackId: "firstTrack",
+			trackName: "First Song",
+			requesterUserId: "viewer-a",
+			requesterDisplayName: "ViewerA",
+			requestedAt: "2026-01-22T12:00:00.000Z",
+			rewardId: "song-reward",
+			redemptionId: "first-redemption",
+		});
+		const second = createPendingRequest({
+			eventId: "second-event",
+			trackId: "secondTrack",
+			trackName: "Second Song",
+			requesterUserId: "viewer-b",
+			requesterDisplayName: "ViewerB",
+			requestedAt: "2026-01-22T12:01:00.000Z",
+			rewardId: "song-reward",
+			redemptionId: "second-redemption",
+		});
+
+		async function seedQueuedRequests(): Promise<void> {
+			const syncedAt = new Date().toISOString();
+			await runInDurableObject(stub, async (instance: SongQueueDO) => {
+				await seedPending(instance, [nowPlaying, first, second]);
+				await seedSnapshot(
+					instance,
+					[nowPlaying, first, second].map((request, position) => ({
+						position,
+						trackId: request.trackId,
+						trackName: request.trackName,
+						artists: request.artists,
+						album: request.album,
+						albumCoverUrl: request.albumCoverUrl,
+						syncedAt,
+						source: "user",
+						eventId: request.eventId,
+						requesterUserId: request.requesterUserId,
+						requesterDisplayName: request.requesterDisplayName,
+						requestedAt: request.requestedAt,
+					})),
+				);
+				instance.setState({ ...instance.state, lastSyncAt: syncedAt });
+			});
+		}
+
+		async function pendingEventIds(): Promise<string[]> {
+			const rows = await runInDurableObject(stub, (instance: SongQueueDO) =>
+				drizzle(instance.ctx.storage, { schema: songQueueSchema }).select().from(pendingRequests),
+			);
+			return rows.map((row) => row.eventId).sort();
+		}
+
+		beforeEach(async () => {
+			await tokenStub.setTokens(VALID_TOKEN_RESPONSE);
+			await seedQueuedRequests();
+		});
+
+		it("removes the Song Request at a Spotify Queue position from Spotify and storage", async () => {
+			mockSpotifyRemoveFromQueue(fetchMock, "spotify:track:secondTrack");
+
+			const result = await stub.removeSongRequest({ _tag: "QueuePosition", position: 2 });
+
+			expect(result).toEqual({
+				status: "ok",
+				value: {
+					_tag: "SongRequestRemoved",
+					request: {
+						eventId: "second-event",
+						trackId: "secondTrack",
+						trackName: "Second Song",
+						requesterUserId: "viewer-b",
+						requesterDisplayName: "ViewerB",
+					},
+				},
+			});
+			expect(await pendingEventIds()).toEqual(["first-event", "now-playing-event"]);
+			expect(
+				fetchMock.getRequests().filter((request) => request.url.includes("/player/command/")),
+			).toHaveLength(1);
+		});
+
+		it("matches a requester case-insensitively and never selects Now Playing", async () => {
+			mockSpotifyRemoveFromQueue(fetchMock, "spotify:track:firstTrack");
+
+			const removed = await stub.removeSongRequest({ _tag: "Requester", displayName: "viewera" });
+			const playing = await stub.removeSongRequest({
+				_tag: "Requester",
+				displayName: "NowPlayingViewer",
+			});
+
+			expect(removed).toMatchObject({
+				status: "ok",
+				value: { _tag: "SongRequestRemoved", request: { eventId: "first-event" } },
+			});
+			expect(playing).toEqual({ status: "ok", value: { _tag: "SongRequestNotFound" } });
+		});
+
+		it("withdraws a Viewer's latest Song Request and refunds its redemption", async () => {
+			const twitchTokenStub = env.TWITCH_TOKEN_DO.get(
+				env.TWITCH_TOKEN_DO.idFromName("twitch-token"),
+			);
+			await twitchTokenStub.setName("twitch-token");
+			await twitchTokenStub.setTokens(VALID_TWITCH_TOKEN_RESPONSE);
+			mockSpotifyRemoveFromQueue(fetchMock, "spotify:track:firstTrack");
+			mockTwitchRedemptionUpdate(fetchMock);
+
+			const result = await stub.withdrawSongRequest("viewer-a");
+
+			expect(result).toMatchObject({
+				status: "ok",
+				value: {
+					_tag: "SongRequestWithdrawn",
+					request: { eventId: "first-event" },
+					refunded: true,
+				},
+			});
+			const refund = fetchMock.getRequests().find((request) => request.method === "PATCH");
+			expect(refund?.url).toContain("id=first-redemption");
+			expect(refund?.body).toBe(JSON.stringify({ status: "CANCELED" }));
+			expect(await pendingEventIds()).toEqual(["now-playing-event", "second-event"]);
+		});
+
+		it("leaves a Song Request that reached Now Playing in place without a refund", async () => {
+			const result = await stub.withdrawSongRequest("viewer-np");
+
+			expect(result).toMatchObject({
+				status: "ok",
+				value: { _tag: "SongRequestNowPlaying", request: { eventId: "now-playing-event" } },
+			});
+			expect(fetchMock.getRequests()).toHaveLength(0);
+			expect(await pendingEventIds()).toHaveLength(3);
+		});
+
+		it("clears every upcoming Song Request but Now Playing", async () => {
+			mockSpotifyRemoveFromQueue(fetchMock, "spotify:track:firstTrack");
+			mockSpotifyRemoveFromQueue(fetchMock, "spotify:track:secondTrack");
+
+			const result = await stub.clearSongRequests();
+
+			expect(result).toEqual({ status: "ok", value: { removed: 2, failed: 0 } });
+			expect(await pendingEventIds()).toEqual(["now-playing-event"]);
+		});
+	});
 });
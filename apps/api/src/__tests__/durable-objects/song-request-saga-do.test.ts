@@ -17,21 +17,30 @@ import { SongQueueDO } from "../../durable-objects/song-queue-do";
 import { SongRequestSagaDO } from "../../durable-objects/song-request-saga-do";
 import { SpotifyTokenDO } from "../../durable-objects/spotify-token-do";
 import { TwitchTokenDO } from "../../durable-objects/twitch-token-do";
-import { TEST_PENDING_REQUEST, createSongRequestParams } from "../fixtures/song-request";
 import {
+	TEST_PENDING_REQUEST,
+	createPendingRequest,
+	createSongRequestParams,
+} from "../fixtures/song-request";
+import {
+	TRACK_INFO,
 	VALID_TOKEN_RESPONSE as VALID_SPOTIFY_TOKEN_RESPONSE,
 	mockSpotifyAddToQueue,
 	mockSpotifyGetTrack,
+	mockSpotifySearch,
 	mockSpotifyTokenRefreshError,
 } from "../fixtures/spotify";
 import {
 	VALID_TOKEN_RESPONSE as VALID_TWITCH_TOKEN_RESPONSE,
 	mockTwitchChatMessage,
+	mockTwitchModerators,
 	mockTwitchRedemptionUpdate,
+	mockTwitchVips,
 } from "../fixtures/twitch";
 import {
 	ensureAchievementsSingletonStub,
 	waitForAchievementQueuesToDrain,
+	waitForAchievementUnlockEffectsToDrain,
 } from "../helpers/durable-objects";
 import { fetchMock } from "../helpers/fetch-mock";
 
@@ -95,17 +104,16 @@ async function cancelSongQueueSchedules(stub: DurableObjectStub<SongQueueDO>): P
 	});
 }
 
-function mockTwitchRedemptionFailure(status: number): void {
-	const attemptCount = status >= 500 ? 4 : 1;
-	for (let attempt = 0; attempt < attemptCount; attempt += 1) {
-		fetchMock
-			.get("https://api.twitch.tv")
-			.intercept({
-				path: /\/helix\/channel_points\/custom_rewards\/redemptions/,
-				method: "PATCH",
-			})
-			.reply(status, "Redemption update failed");
+async function waitForChatMessages(count: number, maxPolls = 200): Promise<string[]> {
+	for (let poll = 0; poll < maxPolls; poll += 1) {
+		const messages = fetchMock
+			.getRequests()
+			.filter((request) => new URL(request.url).pathname === "/helix/chat/messages")
+			.map((request): string => JSON.parse(request.body ?? "{}").message);
+		if (messages.length >= count) return messages;
+		await new Promise((resolve) => setTimeout(resolve, 10));
 	}
+	throw new Error(`Timed out waiting for ${count} chat messages`);
 }
 
 describe("SongRequestSagaDO", () => {
@@ -176,12 +184,12 @@ describe("SongRequestSagaDO", () => {
 		await ensureEventBusStub();
 		mockSpotifyGetTrack(fetchMock, trackId);
 		mockSpotifyAddToQueue(fetchMock);
-		mockTwitchRedemptionUpdate(fetchMock);
 		mockTwitchChatMessage(fetchMock);
 		mockTwitchChatMessage(fetchMock);
 
 		await stub.retrySagaTick();
 		await waitForAchievementQueuesToDrain(achievementsStub, params.user_name);
+		await waitForAchievementUnlockEffectsToDrain(achievementsStub, params.user_name);
 		await cancelSongRequestSagaSchedules(stub);
 		await cancelSongQueueSchedules(songQueueStub);
 
@@ -547,53 +555,6 @@ describe("SongRequestSagaDO", () => {
 		});
 	});
 
-	it("keeps failed Spotify Queue compensation durable without claiming a refund", async () => {
-		await ensureSpotifyTokenStub();
-		await ensureTwitchTokenStub();
-		const songQueueStub = await ensureSongQueueStub();
-		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
-		const params = createSongRequestParams({ id: `redemption-${crypto.randomUUID()}` });
-		const trackId = "4iV5W9uYEdYUVa79Axb7Rh";
-
-		mockSpotifyGetTrack(fetchMock, trackId);
-		mockSpotifyAddToQueue(fetchMock);
-		mockTwitchRedemptionFailure(400);
-
-		const result = await stub.start(params);
-
-		expect(result.status).toBe("error");
-		const status = await stub.getStatus();
-		expect(status).toMatchObject({ status: "ok", value: { status: "COMPENSATING" } });
-		const pendingRequest = await runInDurableObject(
-			songQueueStub,
-			async (instance: SongQueueDO) => {
-				const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
-				return db.query.pendingRequests.findFirst({
-					where: (request, operators) => operators.eq(request.eventId, stub.id.toString()),
-				});
-			},
-		);
-		expect(pendingRequest).toBeDefined();
-
-		const compensatedSteps = await runInDurableObject(stub, async (instance: SongRequestSagaDO) => {
-			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
-			return db.query.sagaSteps.findMany();
-		});
-		expect(compensatedSteps).toEqual(
-			expect.arrayContaining([
-				expect.objectContaining({ stepName: "persist-request", state: "SUCCEEDED" }),
-				expect.objectContaining({
-					stepName: "add-to-spotify-queue",
-					state: "COMPENSATION_PENDING",
-					nextRetryAt: expect.any(String),
-				}),
-			]),
-		);
-		expect(compensatedSteps.some((step) => step.stepName === "refund-redemption")).toBe(false);
-		await cancelSongRequestSagaSchedules(stub);
-		await cancelSongQueueSchedules(songQueueStub);
-	}, 20_000);
-
 	it("refunds without blaming the viewer when Spotify authorization was revoked", async () => {
 		const spotifyTokenStub = await ensureSpotifyTokenStub();
 		await ensureTwitchTokenStub();
@@ -642,7 +603,7 @@ describe("SongRequestSagaDO", () => {
 		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
 		const params = createSongRequestParams({
 			id: `redemption-${crypto.randomUUID()}`,
-			user_input: "definitely not a spotify url",
+			user_input: "https://open.spotify.com/album/4iV5W9uYEdYUVa79Axb7Rh",
 		});
 
 		mockTwitchRedemptionUpdate(fetchMock);
@@ -674,4 +635,221 @@ describe("SongRequestSagaDO", () => {
 			});
 		}
 	});
+
+	it("refunds a Viewer over the Pending Request limit without queueing the track", async () => {
+		await ensureSpotifyTokenStub();
+		await ensureTwitchTokenStub();
+		const songQueueStub = await ensureSongQueueStub();
+		const userId = `policy-viewer-${crypto.randomUUID()}`;
+		await runInDurableObject(songQueueStub, async (instance: SongQueueDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
+			await db
+				.insert(songQueueSchema.pendingRequests)
+				.values([
+					createPendingRequest({ eventId: `${userId}-1`, requesterUserId: userId }),
+					createPendingRequest({ eventId: `${userId}-2`, requesterUserId: userId }),
+				]);
+		});
+
+		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
+		const params = createSongRequestParams({
+			id: `redemption-${crypto.randomUUID()}`,
+			user_id: userId,
+		});
+
+		mockSpotifyGetTrack(fetchMock, "4iV5W9uYEdYUVa79Axb7Rh");
+		mockTwitchModerators(fetchMock);
+		mockTwitchVips(fetchMock);
+		mockTwitchRedemptionUpdate(fetchMock);
+		mockTwitchChatMessage(fetchMock);
+
+		const startResult = await stub.start(params);
+
+		expect(startResult.status).toBe("ok");
+		const statusResult = await stub.getStatus();
+		expect(statusResult).toMatchObject({
+			status: "ok",
+			value: { status: "FAILED", error: expect.stringContaining("PendingRequestLimitReached") },
+		});
+		const redemptionRequest = fetchMock.getRequests().find((request) => request.method === "PATCH");
+		expect(redemptionRequest?.body).toBe(JSON.stringify({ status: "CANCELED" }));
+		const chatRequest = fetchMock
+			.getRequests()
+			.find((request) => new URL(request.url).pathname === "/helix/chat/messages");
+		expect(chatRequest?.body).not.toBeNull();
+		if (chatRequest?.body !== null && chatRequest?.body !== undefined) {
+			expect(JSON.parse(chatRequest.body)).toMatchObject({
+				message: `@${params.user_name} you already have 2 song requests waiting (limit 2) and your points have been refunded.`,
+			});
+		}
+	});
+
+	it("applies the everyone policy when the Viewer's channel role cannot be read", async () => {
+		await ensureSpotifyTokenStub();
+		await ensureTwitchTokenStub();
+		const songQueueStub = await ensureSongQueueStub();
+		const userId = `role-lookup-viewer-${crypto.randomUUID()}`;
+		await runInDurableObject(songQueueStub, async (instance: SongQueueDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
+			await db
+				.insert(songQueueSchema.pendingRequests)
+				.values([
+					createPendingRequest({ eventId: `${userId}-1`, requesterUserId: userId }),
+					createPendingRequest({ eventId: `${userId}-2`, requesterUserId: userId }),
+				]);
+		});
+
+		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
+		const params = createSongRequestParams({
+			id: `redemption-${crypto.randomUUID()}`,
+			user_id: userId,
+		});
+
+		mockSpotifyGetTrack(fetchMock, "4iV5W9uYEdYUVa79Axb7Rh");
+		fetchMock
+			.get("https://api.twitch.tv")
+			.intercept({ path: /\/helix\/moderation\/moderators/ })
+			.reply(403, JSON.stringify({ error: "Forbidden", message: "Missing scope" }));
+		mockTwitchRedemptionUpdate(fetchMock);
+		mockTwitchChatMessage(fetchMock);
+
+		const startResult = await stub.start(params);
+
+		expect(startResult.status).toBe("ok");
+		const statusResult = await stub.getStatus();
+		expect(statusResult).toMatchObject({
+			status: "ok",
+			value: { status: "FAILED", error: expect.stringContaining("PendingRequestLimitReached") },
+		});
+		const chatMessages = await waitForChatMessages(1);
+		expect(chatMessages[0]).toBe(
+			`@${params.user_name} you already have 2 song requests waiting (limit 2) and your points have been refunded.`,
+		);
+	});
+
+	it("resolves free-text input through Spotify search and records the resolution path", async () => {
+		await ensureSpotifyTokenStub();
+		await ensureTwitchTokenStub();
+		const songQueueStub = await ensureSongQueueStub();
+		const achievementsStub = await ensureAchievementsSingletonStub();
+		await ensureEventBusStub();
+		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
+		const params = createSongRequestParams({
+			id: `redemption-${crypto.randomUUID()}`,
+			user_name: `searcher${crypto.randomUUID().slice(0, 8)}`,
+			user_input: "test artist - test track",
+		});
+
+		mockSpotifySearch(fetchMock, [
+			{ ...TRACK_INFO, id: "popularButWrong1", name: "Something Else" },
+			TRACK_INFO,
+		]);
+		mockSpotifyAddToQueue(fetchMock);
+		mockTwitchChatMessage(fetchMock);
+		mockTwitchChatMessage(fetchMock);
+
+		const startResult = await stub.start(params);
+		await waitForAchievementQueuesToDrain(achievementsStub, params.user_name);
+		await waitForAchievementUnlockEffectsToDrain(achievementsStub, params.user_name);
+		const chatMessages = await waitForChatMessages(2);
+		await cancelSongRequestSagaSchedules(stub);
+		await cancelSongQueueSchedules(songQueueStub);
+
+		expect(startResult.status).toBe("ok");
+		expect(await stub.getStatus()).toMatchObject({ status: "ok", value: { status: "COMPLETED" } });
+		const queueRequest = fetchMock
+			.getRequests()
+			.find((request) => request.url.includes("/v1/me/player/queue"));
+		expect(queueRequest?.url).toContain(encodeURIComponent(`spotify:track:${TRACK_INFO.id}`));
+		expect(
+			fetchMock
+				.getRequests()
+				.some((request) => request.method === "PATCH" && request.url.includes(params.id)),
+		).toBe(false);
+		expect(chatMessages).toContain(
+			`@${params.user_name} found "Test Track" by Test Artist and added it to the queue!`,
+		);
+
+		const trackInfoStep = await runInDurableObject(stub, async (instance: SongRequestSagaDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: sagaSchema });
+			return db.query.sagaSteps.findFirst({
+				where: (step, { eq }) => eq(step.stepName, "get-track-info"),
+			});
+		});
+		expect(JSON.parse(trackInfoStep?.resultJson ?? "null")).toMatchObject({
+			id: TRACK_INFO.id,
+			resolution: { path: "search", query: "test artist - test track", confidence: 1 },
+		});
+	}, 20_000);
+
+	it("refunds free-text input without a confident Spotify search match", async () => {
+		await ensureSpotifyTokenStub();
+		await ensureTwitchTokenStub();
+		const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
+		const params = createSongRequestParams({
+			id: `redemption-${crypto.randomUUID()}`,
+			user_input: "completely unrelated words",
+		});
+
+		mockSpotifySearch(fetchMock);
+		mockTwitchRedemptionUpdate(fetchMock);
+		mockTwitchChatMessage(fetchMock);
+
+		await stub.start(params);
+
+		expect(await stub.getStatus()).toMatchObject({
+			status: "ok",
+			value: { status: "FAILED", error: expect.stringContaining("No confident Spotify match") },
+		});
+		const chatRequest = fetchMock
+			.getRequests()
+			.find((request) => new URL(request.url).pathname === "/helix/chat/messages");
+		expect(JSON.parse(chatRequest?.body ?? "{}")).toMatchObject({
+			message: `@${params.user_name} I couldn't find a confident Spotify match for your song request and your points have been refunded. Try "artist - title" or a Spotify track link.`,
+		});
+	});
+
+	it("refunds a blocklisted Spotify Track without persisting or queueing it", async () => {
+		await ensureSpotifyTokenStub();
+		await ensureTwitchTokenStub();
+		const songQueueStub = await ensureSongQueueStub();
+		const blocked = { kind: "track", spotifyId: TRACK_INFO.id } as const;
+		await songQueueStub.addTrackBlocklistEntry({ ...blocked, label: null });
+
+		try {
+			const stub = await createSongRequestSagaStub(`song-request-saga-${crypto.randomUUID()}`);
+			const params = createSongRequestParams({ id: `redemption-${crypto.randomUUID()}` });
+
+			mockSpotifyGetTrack(fetchMock, TRACK_INFO.id);
+			mockTwitchRedemptionUpdate(fetchMock);
+			mockTwitchChatMessage(fetchMock);
+
+			const startResult = await stub.start(params);
+
+			expect(startResult.status).toBe("ok");
+			expect(await stub.getStatus()).toMatchObject({
+				status: "ok",
+				value: { status: "FAILED", error: expect.stringContaining("TrackBlocklisted") },
+			});
+			const requests = fetchMock.getRequests();
+			expect(requests.find((request) => request.method === "PATCH")?.body).toBe(
+				JSON.stringify({ status: "CANCELED" }),
+			);
+			const chatRequest = requests.find(
+				(request) => new URL(request.url).pathname === "/helix/chat/messages",
+			);
+			expect(JSON.parse(chatRequest?.body ?? "{}")).toMatchObject({
+				message: `@${params.user_name} "${TRACK_INFO.name}" can't be requested on this channel and your points have been refunded.`,
+			});
+			await runInDurableObject(songQueueStub, async (instance: SongQueueDO) => {
+				const db = drizzle(instance.ctx.storage, { schema: songQueueSchema });
+				const pending = await db.query.pendingRequests.findFirst({
+					where: (table, { eq }) => eq(table.requesterUserId, params.user_id),
+				});
+				expect(pending).toBeUndefined();
+			});
+		} finally {
+			await songQueueStub.removeTrackBlocklistEntry(blocked);
+		}
+	});
 });
@@ -179,6 +179,54 @@ describe("StreamLifecycleDO", () => {
 		}
 	});
 
+	it("records raids once against the live Stream Session and ranks raiders", async () => {
+		const raid = (id: string, raiderUserId: string, viewers: number, raidedAt: string) => ({
+			id,
+			raiderUserId,
+			raiderLogin: `login-${raiderUserId}`,
+			raiderDisplayName: `Raider ${raiderUserId}`,
+			viewers,
+			raidedAt,
+		});
+		const offlineRaid = await stub.recordRaid(raid("raid-1", "1", 10, "2026-01-21T12:00:00.000Z"));
+		await stub.onStreamOnline(ONLINE_AT);
+		const smallerRaid = await stub.recordRaid(raid("raid-2", "2", 5, "2026-01-22T12:10:00.000Z"));
+		const biggerRaid = await stub.recordRaid(raid("raid-3", "1", 40, "2026-01-22T12:20:00.000Z"));
+		const retried = await stub.recordRaid(raid("raid-3", "1", 999, "2026-01-22T12:30:00.000Z"));
+		const invalid = await stub.recordRaid({ id: "raid-4", viewers: -1 });
+		const topRaiders = await stub.getTopRaiders(10);
+
+		expect(offlineRaid).toEqual({
+			status: "ok",
+			value: expect.objectContaining({ streamSessionId: null, isNewRecord: true }),
+		});
+		expect(smallerRaid).toEqual({
+			status: "ok",
+			value: expect.objectContaining({ streamSessionId: expect.any(String), isNewRecord: false }),
+		});
+		expect(biggerRaid).toEqual({
+			status: "ok",
+			value: expect.objectContaining({ viewers: 40, isNewRecord: true }),
+		});
+		expect(retried).toEqual(biggerRaid);
+		expect(invalid.status).toBe("error");
+		expect(topRaiders).toEqual({
+			status: "ok",
+			value: [
+				{
+					userId: "1",
+					login: "login-1",
+					displayName: "Raider 1",
+					raids: 2,
+					totalViewers: 50,
+					biggestRaid: 40,
+					lastRaidedAt: "2026-01-22T12:20:00.000Z",
+				},
+				expect.objectContaining({ userId: "2", raids: 1, totalViewers: 5 }),
+			],
+		});
+	});
+
 	it("does not poll viewer count while offline", async () => {
 		await stub.pollViewerCountTick();
 
@@ -0,0 +1,138 @@
+/**
+ * Domain event payloads as persisted at every schema version
+ */
+
+import type { EventType } from "../../domain/domain-event";
+
+const BASE = {
+	timestamp: "2026-01-30T12:00:00.000Z",
+	correlationId: "correlation-1",
+};
+
+/**
+ * Persisted payloads keyed by event type, then by schema version. Older
+ * versions must keep decoding through the upcaster chain after the current
+ * schema moves on, so never edit or drop an entry here; add one instead.
+ */
+export const HISTORICAL_EVENT_FIXTURES = {
+	song_request_success: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440000",
+			type: "song_request_success",
+			v: 1,
+			source: "SongRequestSagaDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-456",
+			trackId: "spotify:track:abc123",
+		},
+		2: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440001",
+			type: "song_request_success",
+			v: 2,
+			source: "SongRequestSagaDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-456",
+			trackId: "spotify:track:abc123",
+			artistIds: ["artist-1", "artist-2"],
+		},
+	},
+	raffle_roll: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440002",
+			type: "raffle_roll",
+			v: 1,
+			source: "KeyboardRaffleSagaDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-789",
+			roll: 4200,
+			winningNumber: 7777,
+			distance: 3577,
+			isWinner: false,
+			isNewRecord: false,
+		},
+	},
+	stream_online: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440003",
+			type: "stream_online",
+			v: 1,
+			source: "StreamLifecycleDO",
+			streamId: "stream-123",
+			startedAt: "2026-01-30T11:55:00.000Z",
+		},
+	},
+	stream_offline: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440004",
+			type: "stream_offline",
+			v: 1,
+			source: "StreamLifecycleDO",
+			streamId: "stream-123",
+			endedAt: "2026-01-30T14:00:00.000Z",
+		},
+	},
+	song_skipped: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440005",
+			type: "song_skipped",
+			v: 1,
+			source: "SongQueueDO",
+			trackId: "track-123",
+			trackName: "Test Track",
+			requestEventId: null,
+			requesterUserId: null,
+			votes: 3,
+			requiredVotes: 3,
+		},
+	},
+	chat_message_observed: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440006",
+			type: "chat_message_observed",
+			v: 1,
+			source: "EventSubWebhookDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			commandName: "song",
+		},
+	},
+	raid_received: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440007",
+			type: "raid_received",
+			v: 1,
+			source: "RaidShoutoutSagaDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			sagaId: "saga-321",
+			viewers: 42,
+			isNewRecord: true,
+		},
+	},
+	achievement_unlocked: {
+		1: {
+			...BASE,
+			id: "550e8400-e29b-41d4-a716-446655440008",
+			type: "achievement_unlocked",
+			v: 1,
+			source: "AchievementsDO",
+			userId: "user-123",
+			userDisplayName: "TestUser",
+			achievementId: "first_request",
+			achievementName: "First Request",
+			achievementDescription: "Request your first song",
+			level: 1,
+		},
+	},
+} as const satisfies Record<EventType, Record<number, Record<string, unknown>>>;
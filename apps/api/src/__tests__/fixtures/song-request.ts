@@ -57,6 +57,7 @@ export function createPendingRequest(
 
 /**
  * Create song request params with custom values
+ * Each call gets a distinct Viewer so Song Request Policy limits do not leak between tests.
  */
 export function createSongRequestParams(
 	overrides: Partial<SongRequestParams> = {},
@@ -65,5 +66,6 @@ export function createSongRequestParams(
 		...SONG_REQUEST_PARAMS,
 		...overrides,
 		id: overrides.id ?? `redemption-${Date.now()}`,
+		user_id: overrides.user_id ?? `user-${crypto.randomUUID()}`,
 	};
 }
@@ -35,6 +35,7 @@ export const TRACK_INFO = {
 		name: "Test Album",
 		images: [{ url: "https://example.com/cover.jpg", height: 64, width: 64 }],
 	},
+	explicit: false,
 	duration_ms: 180000,
 };
 
@@ -96,6 +97,18 @@ export function mockSpotifyGetTrack(mock: FetchMock, trackId: string): void {
 		});
 }
 
+/**
+ * Mock Spotify track search endpoint
+ */
+export function mockSpotifySearch(mock: FetchMock, items: readonly unknown[] = [TRACK_INFO]): void {
+	mock
+		.get("https://api.spotify.com")
+		.intercept({ path: /^\/v1\/search\?/ })
+		.reply(200, JSON.stringify({ tracks: { items } }), {
+			headers: { "content-type": "application/json" },
+		});
+}
+
 /**
  * Mock Spotify add to queue endpoint
  */
@@ -151,6 +164,57 @@ export function mockSpotifyQueueError(
 		.reply(status, body);
 }
 
+/**
+ * Mock the device, client token, and connect-state calls that remove one queued track
+ */
+export function mockSpotifyRemoveFromQueue(mock: FetchMock, trackUri: string): void {
+	const deviceId = "test-device";
+	const clientToken = JSON.stringify({
+		granted_token: { token: "test-client-token", expires_after_seconds: 3600 },
+	});
+	mock
+		.get("https://api.spotify.com")
+		.intercept({ path: "/v1/me/player/devices" })
+		.reply(
+			200,
+			JSON.stringify({
+				devices: [{ id: deviceId, is_active: true, name: "Test Device", type: "Computer" }],
+			}),
+			{ headers: { "content-type": "application/json" } },
+		);
+	mock
+		.get("https://clienttoken.spotify.com")
+		.intercept({ path: "/v1/clienttoken", method: "POST" })
+		.reply(200, clientToken, { headers: { "content-type": "application/json" } });
+	mock
+		.get("https://gue1-spclient.spotify.com")
+		.intercept({ path: `/connect-state/v1/devices/hobs_${deviceId}`, method: "PUT" })
+		.reply(
+			200,
+			JSON.stringify({
+				player_state: {
+					timestamp: "0",
+					context_uri: "",
+					queue_revision: "1",
+					next_tracks: [{ uri: trackUri, uid: "q0", metadata: {}, provider: "queue" }],
+					prev_tracks: [],
+				},
+			}),
+			{ headers: { "content-type": "application/json" } },
+		);
+	mock
+		.get("https://clienttoken.spotify.com")
+		.intercept({ path: "/v1/clienttoken", method: "POST" })
+		.reply(200, clientToken, { headers: { "content-type": "application/json" } });
+	mock
+		.get("https://gue1-spclient.spotify.com")
+		.intercept({
+			path: `/connect-state/v1/player/command/from/${deviceId}/to/${deviceId}`,
+			method: "POST",
+		})
+		.reply(200, "{}");
+}
+
 /**
  * Mock Spotify skip track endpoint
  */
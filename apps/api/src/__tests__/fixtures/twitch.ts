@@ -19,6 +19,8 @@ export const VALID_TOKEN_RESPONSE: TwitchTokenResponse = {
 		"user:read:chat",
 		"user:write:chat",
 		"moderator:manage:shoutouts",
+		"moderation:read",
+		"channel:read:vips",
 	],
 };
 
@@ -108,6 +110,30 @@ export function mockTwitchRedemptionUpdate(mock: FetchMock): void {
 		});
 }
 
+/**
+ * Mock Twitch moderator lookup endpoint
+ */
+export function mockTwitchModerators(mock: FetchMock, userIds: string[] = []): void {
+	mock
+		.get("https://api.twitch.tv")
+		.intercept({ path: /\/helix\/moderation\/moderators/ })
+		.reply(200, JSON.stringify({ data: userIds.map((userId) => ({ user_id: userId })) }), {
+			headers: { "content-type": "application/json" },
+		});
+}
+
+/**
+ * Mock Twitch VIP lookup endpoint
+ */
+export function mockTwitchVips(mock: FetchMock, userIds: string[] = []): void {
+	mock
+		.get("https://api.twitch.tv")
+		.intercept({ path: /\/helix\/channels\/vips/ })
+		.reply(200, JSON.stringify({ data: userIds.map((userId) => ({ user_id: userId })) }), {
+			headers: { "content-type": "application/json" },
+		});
+}
+
 /**
  * Mock Twitch chat message endpoint
  */
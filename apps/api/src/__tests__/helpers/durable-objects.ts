@@ -1,7 +1,10 @@
 import { runInDurableObject } from "cloudflare:test";
 import { env } from "cloudflare:workers";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/durable-sqlite";
 
 import { AchievementsDO } from "../../durable-objects/achievements-do";
+import * as achievementsSchema from "../../durable-objects/schemas/achievements-do.schema";
 import { SpotifyTokenDO } from "../../durable-objects/spotify-token-do";
 import { TwitchTokenDO } from "../../durable-objects/twitch-token-do";
 
@@ -57,3 +60,34 @@ export async function waitForAchievementQueuesToDrain(
 
 	throw new Error(`Timed out waiting for achievement queue to drain for ${userDisplayName}`);
 }
+
+/** Waits until the unlock outbox effects queued for one viewer have been dispatched. */
+export async function waitForAchievementUnlockEffectsToDrain(
+	stub: DurableObjectStub<AchievementsDO>,
+	userDisplayName: string,
+	maxPolls = 200,
+): Promise<void> {
+	for (let poll = 0; poll < maxPolls; poll += 1) {
+		const queuedCount = await runInDurableObject(stub, async (instance: AchievementsDO) => {
+			const db = drizzle(instance.ctx.storage, { schema: achievementsSchema });
+			const effects = await db
+				.select({ effectId: achievementsSchema.achievementUnlockOutbox.effectId })
+				.from(achievementsSchema.achievementUnlockOutbox)
+				.where(eq(achievementsSchema.achievementUnlockOutbox.userDisplayName, userDisplayName));
+			return effects.reduce(
+				(count, { effectId }) => count + instance.getQueues("effectId", effectId).length,
+				0,
+			);
+		});
+
+		if (queuedCount === 0) {
+			return;
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, 0));
+	}
+
+	throw new Error(
+		`Timed out waiting for achievement unlock effects to drain for ${userDisplayName}`,
+	);
+}
@@ -22,6 +22,7 @@ interface PendingReply {
 export interface ReceivedRequest {
 	readonly url: string;
 	readonly method: string;
+	readonly headers: Readonly<Record<string, string>>;
 	readonly body: string | null;
 }
 
@@ -89,7 +90,7 @@ export class FetchMock {
 
 	/** Returns copies of requests received during the current test. */
 	getRequests(): ReadonlyArray<ReceivedRequest> {
-		return this.received.map((request) => ({ ...request }));
+		return this.received.map((request) => ({ ...request, headers: { ...request.headers } }));
 	}
 
 	/** Clears request expectations and recorded requests between tests. */
@@ -108,6 +109,7 @@ export class FetchMock {
 		this.received.push({
 			url: request.url,
 			method: request.method,
+			headers: Object.fromEntries(request.headers),
 			body: typeof init?.body === "string" ? init.body : null,
 		});
 		const url = new URL(request.url);
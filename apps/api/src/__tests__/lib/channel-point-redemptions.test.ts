@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vite-plus/test";
 
 import {
-	parseKnownRewardRedemption,
+	renderRewardChatMessage,
+	routeRewardRedemption,
 	type TwitchRedemption,
 } from "../../lib/channel-point-redemptions";
 
+import type { RewardBinding, RewardHandler } from "../../domain/channel-point-reward";
+
 function redemptionForReward(rewardId: string): TwitchRedemption {
 	return {
 		id: "redemption-1",
@@ -26,45 +29,70 @@ function redemptionForReward(rewardId: string): TwitchRedemption {
 	};
 }
 
-describe("parseKnownRewardRedemption", () => {
-	it("returns song request redemption evidence for the configured song request reward", () => {
-		const result = parseKnownRewardRedemption(redemptionForReward("song-reward"), {
-			songRequestRewardId: "song-reward",
-			keyboardRaffleRewardId: "raffle-reward",
+const routingConfig = {
+	songRequestRewardId: "song-reward",
+	keyboardRaffleRewardId: "raffle-reward",
+};
+
+function bindingFor(rewardId: string, handler: RewardHandler, enabled = true): RewardBinding {
+	return {
+		rewardId,
+		handler,
+		enabled,
+		createdAt: "2026-01-22T12:00:00.000Z",
+		updatedAt: "2026-01-22T12:00:00.000Z",
+	};
+}
+
+describe("routeRewardRedemption", () => {
+	it("routes the configured song request and raffle rewards to their sagas", () => {
+		const song = routeRewardRedemption(redemptionForReward("song-reward"), null, routingConfig);
+		expect(song.status === "ok" && song.value).toEqual({
+			_tag: "HandledReward",
+			handler: { kind: "song_request" },
+			source: "configuration",
 		});
 
-		expect(result.status).toBe("ok");
-		if (result.status === "ok") {
-			expect(result.value._tag).toBe("SongRequestRedemption");
-			expect(result.value.reward.id).toBe("song-reward");
-		}
+		const raffle = routeRewardRedemption(redemptionForReward("raffle-reward"), null, routingConfig);
+		expect(raffle.status === "ok" && raffle.value).toEqual({
+			_tag: "HandledReward",
+			handler: { kind: "keyboard_raffle" },
+			source: "configuration",
+		});
 	});
 
-	it("returns keyboard raffle redemption evidence for the configured raffle reward", () => {
-		const result = parseKnownRewardRedemption(redemptionForReward("raffle-reward"), {
-			songRequestRewardId: "song-reward",
-			keyboardRaffleRewardId: "raffle-reward",
+	it("prefers a registry binding over the configured reward ids", () => {
+		const rebound = routeRewardRedemption(
+			redemptionForReward("song-reward"),
+			bindingFor("song-reward", { kind: "chat_message", template: "Requests are closed, {user}" }),
+			routingConfig,
+		);
+		expect(rebound.status === "ok" && rebound.value).toEqual({
+			_tag: "HandledReward",
+			handler: { kind: "chat_message", template: "Requests are closed, {user}" },
+			source: "registry",
 		});
 
-		expect(result.status).toBe("ok");
-		if (result.status === "ok") {
-			expect(result.value._tag).toBe("KeyboardRaffleRedemption");
-			expect(result.value.reward.id).toBe("raffle-reward");
-		}
+		const disabled = routeRewardRedemption(
+			redemptionForReward("hydrate"),
+			bindingFor("hydrate", { kind: "counter_increment", commandName: "hydrate" }, false),
+			routingConfig,
+		);
+		expect(disabled.status === "ok" && disabled.value._tag).toBe("DisabledReward");
 	});
 
-	it("returns typed errors for unknown rewards and invalid routing config", () => {
-		const unknown = parseKnownRewardRedemption(redemptionForReward("mystery-reward"), {
-			songRequestRewardId: "song-reward",
-			keyboardRaffleRewardId: "raffle-reward",
-		});
+	it("reports unbound rewards as unrecognized instead of failing", () => {
+		const result = routeRewardRedemption(
+			redemptionForReward("mystery-reward"),
+			null,
+			routingConfig,
+		);
 
-		expect(unknown.status).toBe("error");
-		if (unknown.status === "error") {
-			expect(unknown.error._tag).toBe("UnknownRewardError");
-		}
+		expect(result.status === "ok" && result.value).toEqual({ _tag: "UnrecognizedReward" });
+	});
 
-		const missingConfig = parseKnownRewardRedemption(redemptionForReward("song-reward"), {
+	it("returns typed errors for invalid routing config", () => {
+		const missingConfig = routeRewardRedemption(redemptionForReward("song-reward"), null, {
 			keyboardRaffleRewardId: "raffle-reward",
 		});
 
@@ -73,7 +101,7 @@ describe("parseKnownRewardRedemption", () => {
 			expect(missingConfig.error._tag).toBe("RewardRoutingConfigError");
 		}
 
-		const duplicateConfig = parseKnownRewardRedemption(redemptionForReward("song-reward"), {
+		const duplicateConfig = routeRewardRedemption(redemptionForReward("song-reward"), null, {
 			songRequestRewardId: "same-reward",
 			keyboardRaffleRewardId: "same-reward",
 		});
@@ -85,3 +113,14 @@ describe("parseKnownRewardRedemption", () => {
 		}
 	});
 });
+
+describe("renderRewardChatMessage", () => {
+	it("fills the viewer, input, and reward placeholders", () => {
+		const message = renderRewardChatMessage("{user} redeemed {reward}: {input} ({unknown})", {
+			...redemptionForReward("song-reward"),
+			user_input: "  hello  ",
+		});
+
+		expect(message).toBe("Viewer redeemed Song Request: hello ({unknown})");
+	});
+});
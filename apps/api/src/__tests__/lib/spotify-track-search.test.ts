@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vite-plus/test";
+
+import {
+	parseSpotifySearchQuery,
+	pickSpotifySearchMatch,
+	scoreSpotifySearchCandidate,
+} from "../../lib/spotify-track-search";
+
+const ONE_MORE_TIME = { name: "One More Time", artists: ["Daft Punk"] };
+const ONE_MORE_TIME_LIVE = { name: "One More Time - Live", artists: ["Daft Punk"] };
+const UNRELATED = { name: "Time", artists: ["Pink Floyd"] };
+
+describe("parseSpotifySearchQuery", () => {
+	it("collapses whitespace in free-text input", () => {
+		expect(parseSpotifySearchQuery("  Daft Punk  -   One More Time ")).toEqual({
+			status: "ok",
+			value: "Daft Punk - One More Time",
+		});
+	});
+
+	it.each([
+		"https://open.spotify.com/album/4iV5W9uYEdYUVa79Axb7Rh",
+		"spotify:album:4iV5W9uYEdYUVa79Axb7Rh",
+		"ok",
+	])("rejects link-like or too-short input %s", (input) => {
+		expect(parseSpotifySearchQuery(input).status).toBe("error");
+	});
+});
+
+describe("pickSpotifySearchMatch", () => {
+	it("scores artist and title input regardless of order, accents, or version suffixes", () => {
+		expect(scoreSpotifySearchCandidate("daft punk - one more time", ONE_MORE_TIME)).toBe(1);
+		expect(scoreSpotifySearchCandidate("One More Time by Daft Punk", ONE_MORE_TIME)).toBe(1);
+		expect(scoreSpotifySearchCandidate("dáft punk one more time", ONE_MORE_TIME_LIVE)).toBe(1);
+	});
+
+	it("prefers the closest match over Spotify's top result", () => {
+		expect(pickSpotifySearchMatch("daft punk one more time", [UNRELATED, ONE_MORE_TIME])).toEqual({
+			track: ONE_MORE_TIME,
+			confidence: 1,
+		});
+	});
+
+	it("returns null when no result reaches the minimum confidence", () => {
+		expect(
+			pickSpotifySearchMatch("never gonna give you up", [UNRELATED, ONE_MORE_TIME]),
+		).toBeNull();
+	});
+});
@@ -1,13 +1,21 @@
-import { exports } from "cloudflare:workers";
+import { env, exports } from "cloudflare:workers";
 import { describe, expect, it } from "vite-plus/test";
 
+import { DurableObjectAchievementReader } from "../../adapters/cloudflare/durable-object-http-state";
+import { LoggingTracer } from "../../capabilities/tracer";
+import { logger } from "../../lib/logger";
+
 describe("Achievement HTTP routes", () => {
 	it("returns parsed Achievement Definitions", async () => {
 		const response = await exports.default.fetch("http://example.com/api/achievements/definitions");
 		expect(response.status).toBe(200);
 		const body = await response.json<Array<{ id: string; category: string }>>();
 		expect(body).toContainEqual(
-			expect.objectContaining({ id: "first_request", category: "song_request" }),
+			expect.objectContaining({
+				id: "first_request",
+				category: "song_request",
+				rarity: expect.objectContaining({ unlockedCount: expect.any(Number) }),
+			}),
 		);
 	});
 
@@ -39,4 +47,43 @@ describe("Achievement HTTP routes", () => {
 		expect(unlocked.status).toBe(200);
 		expect(await unlocked.json()).toEqual([]);
 	});
+
+	it("lists Seasons and serves one Season's leaderboard", async () => {
+		const achievements = new DurableObjectAchievementReader(
+			env.ACHIEVEMENTS_DO,
+			new LoggingTracer(logger),
+		);
+		const created = await achievements.createSeason({
+			id: "2098-summer",
+			name: "Summer 2098",
+			startsAt: "2098-06-01T00:00:00.000Z",
+			endsAt: "2098-09-01T00:00:00.000Z",
+		});
+		expect(created.status).toBe("ok");
+
+		const seasons = await exports.default.fetch("http://example.com/api/seasons");
+		expect(seasons.status).toBe(200);
+		expect(await seasons.json()).toContainEqual(
+			expect.objectContaining({ id: "2098-summer", name: "Summer 2098", status: "upcoming" }),
+		);
+
+		const leaderboard = await exports.default.fetch(
+			"http://example.com/api/seasons/2098-summer/leaderboard?limit=5",
+		);
+		expect(leaderboard.status).toBe(200);
+		expect(await leaderboard.json()).toEqual({
+			season: expect.objectContaining({ id: "2098-summer" }),
+			achievements: [],
+			raffle: [],
+		});
+
+		const missing = await exports.default.fetch(
+			"http://example.com/api/seasons/unknown-season/leaderboard",
+		);
+		expect(missing.status).toBe(404);
+		for (const path of ["Not A Season/leaderboard", "2098-summer/leaderboard?limit=101"]) {
+			const response = await exports.default.fetch(`http://example.com/api/seasons/${path}`);
+			expect(response.status).toBe(400);
+		}
+	});
 });
@@ -1,15 +1,24 @@
 import { env } from "cloudflare:workers";
 import { describe, expect, it } from "vite-plus/test";
+import { z } from "zod";
 
 import { DurableObjectChatCommands } from "../../adapters/cloudflare/durable-object-chat-commands";
 import { DurableObjectEventBusAdministration } from "../../adapters/cloudflare/durable-object-event-bus-administration";
 import { DurableObjectAchievementReader } from "../../adapters/cloudflare/durable-object-http-state";
+import { DurableObjectOutboundWebhooks } from "../../adapters/cloudflare/durable-object-outbound-webhooks";
+import { DurableObjectOverlayFeed } from "../../adapters/cloudflare/durable-object-overlay-feed";
 import { DurableObjectRaffleStatistics } from "../../adapters/cloudflare/durable-object-raffle-statistics";
+import { DurableObjectRewardRegistry } from "../../adapters/cloudflare/durable-object-reward-registry";
 import { DurableObjectSongQueue } from "../../adapters/cloudflare/durable-object-song-queue";
 import { createAdminRoutes } from "../../adapters/http/create-admin-routes";
 import { LoggingTracer } from "../../capabilities/tracer";
+import { createSongRequestSuccessEvent } from "../../domain/domain-event";
 import { logger } from "../../lib/logger";
 import { RedactedValue } from "../../lib/redacted";
+import {
+	ensureAchievementsSingletonStub,
+	ensureNamedTwitchTokenStub,
+} from "../helpers/durable-objects";
 
 const ADMIN_SECRET = "admin-command-test-secret";
 const tracer = new LoggingTracer(logger);
@@ -21,6 +30,9 @@ const admin = createAdminRoutes({
 	chatCommands: new DurableObjectChatCommands(env.COMMANDS_DO, tracer),
 	songQueue: new DurableObjectSongQueue(env.SONG_QUEUE_DO, tracer),
 	raffles: new DurableObjectRaffleStatistics(env.KEYBOARD_RAFFLE_DO, tracer),
+	overlayThemes: new DurableObjectOverlayFeed(env.OVERLAY_FEED_DO, tracer),
+	rewards: new DurableObjectRewardRegistry(env.REWARD_REGISTRY_DO, tracer),
+	webhooks: new DurableObjectOutboundWebhooks(env.OUTBOUND_WEBHOOK_DO, tracer),
 	logger,
 });
 
@@ -82,4 +94,478 @@ describe("Admin Chat Command routes", () => {
 		expect(response.status).toBe(400);
 		expect(await response.json()).toEqual({ error: "Viewer display name must not be empty" });
 	});
+
+	it("stores a Song Request Policy override for a Viewer role", async () => {
+		const broadcaster = await adminRequest("/song-request-policies/broadcaster", {
+			method: "PUT",
+			body: JSON.stringify({ maxPendingRequests: 1, cooldownSeconds: 0 }),
+		});
+		expect(broadcaster.status).toBe(400);
+
+		const updated = await adminRequest("/song-request-policies/vip", {
+			method: "PUT",
+			body: JSON.stringify({ maxPendingRequests: 6, cooldownSeconds: 30 }),
+		});
+		expect(updated.status).toBe(200);
+
+		const listed = await adminRequest("/song-request-policies", { method: "GET" });
+		expect(await listed.json()).toContainEqual({
+			permission: "vip",
+			maxPendingRequests: 6,
+			cooldownSeconds: 30,
+		});
+	});
+
+	it("manages the Track Blocklist and rejects removal of unknown entries", async () => {
+		const invalid = await adminRequest("/content-filter/blocklist", {
+			method: "POST",
+			body: JSON.stringify({ kind: "album", spotifyId: "blockedAlbum1" }),
+		});
+		expect(invalid.status).toBe(400);
+
+		const added = await adminRequest("/content-filter/blocklist", {
+			method: "POST",
+			body: JSON.stringify({ kind: "track", spotifyId: "blockedTrack1" }),
+		});
+		expect(added.status).toBe(201);
+		expect(await added.json()).toMatchObject({
+			kind: "track",
+			spotifyId: "blockedTrack1",
+			label: null,
+		});
+
+		const filter = await adminRequest("/content-filter", { method: "GET" });
+		expect(await filter.json()).toMatchObject({
+			rules: { banExplicit: false, maxDurationSeconds: null },
+			blocklist: [{ kind: "track", spotifyId: "blockedTrack1" }],
+		});
+
+		const removed = await adminRequest("/content-filter/blocklist/track/blockedTrack1", {
+			method: "DELETE",
+		});
+		expect(removed.status).toBe(200);
+
+		const missing = await adminRequest("/content-filter/blocklist/track/blockedTrack1", {
+			method: "DELETE",
+		});
+		expect(missing.status).toBe(404);
+	});
+
+	it("manages Overlay Theme presets", async () => {
+		const shadowing = await adminRequest("/overlay-themes/catppuccin-mocha", {
+			method: "PUT",
+			body: JSON.stringify({}),
+		});
+		expect(shadowing.status).toBe(400);
+
+		const invalidColor = await adminRequest("/overlay-themes/stage-left", {
+			method: "PUT",
+			body: JSON.stringify({ colors: { accent: "red; background: url(x)" } }),
+		});
+		expect(invalidColor.status).toBe(400);
+
+		const created = await adminRequest("/overlay-themes/stage-left", {
+			method: "PUT",
+			body: JSON.stringify({ palette: "catppuccin-latte", colors: { accent: "#ff0088" } }),
+		});
+		expect(created.status).toBe(200);
+		const createdPreset = await created.json<{ createdAt: string }>();
+		expect(createdPreset).toMatchObject({
+			name: "stage-left",
+			theme: { palette: "catppuccin-latte", font: "ibm-plex-mono", colors: { accent: "#ff0088" } },
+		});
+
+		const replaced = await adminRequest("/overlay-themes/stage-left", {
+			method: "PUT",
+			body: JSON.stringify({ font: "system-sans" }),
+		});
+		expect(await replaced.json()).toMatchObject({
+			createdAt: createdPreset.createdAt,
+			theme: { palette: "catppuccin-macchiato", font: "system-sans", colors: {} },
+		});
+
+		const listed = await adminRequest("/overlay-themes", { method: "GET" });
+		expect(await listed.json()).toMatchObject({
+			presets: [{ name: "stage-left" }],
+			fonts: expect.arrayContaining(["ibm-plex-mono", "system-sans"]),
+		});
+
+		const deleted = await adminRequest("/overlay-themes/stage-left", { method: "DELETE" });
+		expect(deleted.status).toBe(200);
+		const missing = await adminRequest("/overlay-themes/stage-left", { method: "DELETE" });
+		expect(missing.status).toBe(404);
+	});
+
+	it("manages Channel Point Reward Bindings", async () => {
+		const invalid = await adminRequest("/rewards/hydrate-reward", {
+			method: "PUT",
+			body: JSON.stringify({ handler: { kind: "custom_saga", saga: "unknown" } }),
+		});
+		expect(invalid.status).toBe(400);
+
+		const saved = await adminRequest("/rewards/hydrate-reward", {
+			method: "PUT",
+			body: JSON.stringify({ handler: { kind: "chat_message", template: "Drink up, {user}!" } }),
+		});
+		expect(saved.status).toBe(200);
+		expect(await saved.json()).toMatchObject({
+			rewardId: "hydrate-reward",
+			handler: { kind: "chat_message", template: "Drink up, {user}!" },
+			enabled: true,
+		});
+
+		const listed = await adminRequest("/rewards", { method: "GET" });
+		expect(await listed.json()).toMatchObject({
+			rewards: [{ rewardId: "hydrate-reward" }],
+			unrecognized: [],
+			handlerKinds: expect.arrayContaining(["counter_increment", "custom_saga"]),
+		});
+
+		const deleted = await adminRequest("/rewards/hydrate-reward", { method: "DELETE" });
+		expect(deleted.status).toBe(200);
+		const missing = await adminRequest("/rewards/hydrate-reward", { method: "DELETE" });
+		expect(missing.status).toBe(404);
+	});
+
+	it("manages Achievement Definitions and rejects rules the evaluator cannot run", async () => {
+		const definition = {
+			id: "request_250",
+			name: "Resident DJ",
+			description: "Request 250 songs",
+			icon: "1f3db",
+			category: "song_request",
+			threshold: 250,
+			triggerEvent: "song_request",
+		};
+
+		const shortStreak = await adminRequest("/achievements/definitions", {
+			method: "POST",
+			body: JSON.stringify({ ...definition, triggerEvent: "request_streak", threshold: 2 }),
+		});
+		expect(shortStreak.status).toBe(400);
+		const tieredRepeatable = await adminRequest("/achievements/definitions", {
+			method: "POST",
+			body: JSON.stringify({ ...definition, tiers: [500], repeatable: true }),
+		});
+		expect(tieredRepeatable.status).toBe(400);
+
+		const created = await adminRequest("/achievements/definitions", {
+			method: "POST",
+			body: JSON.stringify(definition),
+		});
+		expect(created.status).toBe(201);
+		expect(await created.json()).toEqual({
+			...definition,
+			scope: "cumulative",
+			rule: null,
+			tiers: null,
+			repeatable: false,
+			status: "active",
+		});
+
+		const duplicate = await adminRequest("/achievements/definitions", {
+			method: "POST",
+			body: JSON.stringify(definition),
+		});
+		expect(duplicate.status).toBe(409);
+
+		const uncounted = await adminRequest("/achievements/definitions/request_250", {
+			method: "PATCH",
+			body: JSON.stringify({ threshold: null }),
+		});
+		expect(uncounted.status).toBe(400);
+		expect(await uncounted.json()).toMatchObject({ code: "AchievementDefinitionValidationError" });
+
+		const disabled = await adminRequest("/achievements/definitions/request_250", {
+			method: "PATCH",
+			body: JSON.stringify({ status: "disabled", threshold: 200 }),
+		});
+		expect(disabled.status).toBe(200);
+		expect(await disabled.json()).toEqual({
+			definition: {
+				...definition,
+				threshold: 200,
+				scope: "cumulative",
+				rule: null,
+				tiers: null,
+				repeatable: false,
+				status: "disabled",
+			},
+			unlockedViewers: 0,
+		});
+
+		const listed = await adminRequest("/achievements/definitions", { method: "GET" });
+		expect(await listed.json()).toMatchObject({
+			definitions: expect.arrayContaining([
+				expect.objectContaining({ id: "first_request", status: "active" }),
+				expect.objectContaining({ id: "request_250", status: "disabled" }),
+			]),
+			triggerEvents: expect.arrayContaining(["request_streak"]),
+		});
+
+		const retired = await adminRequest("/achievements/definitions/request_250", {
+			method: "DELETE",
+		});
+		expect(retired.status).toBe(200);
+		const editRetired = await adminRequest("/achievements/definitions/request_250", {
+			method: "PATCH",
+			body: JSON.stringify({ status: "active" }),
+		});
+		expect(editRetired.status).toBe(409);
+		const missing = await adminRequest("/achievements/definitions/request_9000", {
+			method: "DELETE",
+		});
+		expect(missing.status).toBe(404);
+	});
+
+	it("starts an Achievement Backfill dry run and reports its progress", async () => {
+		const invalid = await adminRequest("/achievements/backfill", {
+			method: "POST",
+			body: JSON.stringify({ dryRun: "yes" }),
+		});
+		expect(invalid.status).toBe(400);
+
+		const started = await adminRequest("/achievements/backfill", {
+			method: "POST",
+			body: JSON.stringify({ dryRun: true }),
+		});
+		expect(started.status).toBe(202);
+		const { run } = z
+			.object({ run: z.object({ id: z.string(), mode: z.string() }) })
+			.parse(await started.json());
+		expect(run.mode).toBe("dry_run");
+
+		const latest = await adminRequest("/achievements/backfill", { method: "GET" });
+		expect(latest.status).toBe(200);
+		expect(await latest.json()).toMatchObject({ run: { id: run.id, mode: "dry_run" } });
+
+		const missing = await adminRequest("/achievements/backfill/unknown-run", { method: "GET" });
+		expect(missing.status).toBe(404);
+	});
+
+	it("creates Seasons and rolls them over once", async () => {
+		const season = {
+			id: "2020-spring",
+			name: "Spring 2020",
+			startsAt: "2020-03-01T00:00:00.000Z",
+			endsAt: "2099-06-01T00:00:00.000Z",
+			resetSeasonProgress: false,
+		};
+		const invalid = await adminRequest("/seasons", {
+			method: "POST",
+			body: JSON.stringify({ ...season, endsAt: season.startsAt }),
+		});
+		expect(invalid.status).toBe(400);
+
+		const created = await adminRequest("/seasons", {
+			method: "POST",
+			body: JSON.stringify(season),
+		});
+		expect(created.status).toBe(201);
+		expect(await created.json()).toMatchObject({ id: "2020-spring", status: "active" });
+
+		const overlapping = await adminRequest("/seasons", {
+			method: "POST",
+			body: JSON.stringify({ ...season, id: "2020-overlap" }),
+		});
+		expect(overlapping.status).toBe(409);
+
+		const rolledOver = await adminRequest("/seasons/2020-spring/rollover", { method: "POST" });
+		expect(rolledOver.status).toBe(200);
+		expect(await rolledOver.json()).toMatchObject({
+			season: { id: "2020-spring", status: "archived", archivedAt: expect.any(String) },
+		});
+
+		const again = await adminRequest("/seasons/2020-spring/rollover", { method: "POST" });
+		expect(again.status).toBe(409);
+		const missing = await adminRequest("/seasons/unknown-season/rollover", { method: "POST" });
+		expect(missing.status).toBe(404);
+	});
+
+	it("grants and revokes one Viewer's Achievement with an audit trail", async () => {
+		await ensureNamedTwitchTokenStub();
+		const stub = await ensureAchievementsSingletonStub();
+		await stub.handleEvent(
+			createSongRequestSuccessEvent({
+				id: crypto.randomUUID(),
+				userId: "admin-moderated-viewer",
+				userDisplayName: "AdminModeratedViewer",
+				sagaId: "saga-admin-moderated",
+				trackId: "spotify:track:admin-moderated",
+			}),
+		);
+		const body = JSON.stringify({ viewer: "AdminModeratedViewer", reason: "Stream giveaway" });
+
+		const invalid = await adminRequest("/achievements/request_10/grant", {
+			method: "POST",
+			body: JSON.stringify({ viewer: "AdminModeratedViewer" }),
+		});
+		expect(invalid.status).toBe(400);
+		const granted = await adminRequest("/achievements/request_10/grant", { method: "POST", body });
+		expect(granted.status).toBe(200);
+		expect(await granted.json()).toMatchObject({
+			entry: { action: "grant", userId: "admin-moderated-viewer", actor: "admin" },
+		});
+		const again = await adminRequest("/achievements/request_10/grant", { method: "POST", body });
+		expect(again.status).toBe(409);
+		const unknownViewer = await adminRequest("/achievements/request_10/grant", {
+			method: "POST",
+			body: JSON.stringify({ viewer: "never-seen-viewer", reason: "Stream giveaway" }),
+		});
+		expect(unknownViewer.status).toBe(404);
+
+		const revoked = await adminRequest("/achievements/request_10/revoke", { method: "POST", body });
+		expect(revoked.status).toBe(200);
+		const missing = await adminRequest("/achievements/missing_one/revoke", {
+			method: "POST",
+			body,
+		});
+		expect(missing.status).toBe(404);
+
+		const audit = await adminRequest("/achievements/moderation?achievementId=request_10", {
+			method: "GET",
+		});
+		expect(audit.status).toBe(200);
+		expect(await audit.json()).toMatchObject({
+			entries: [
+				{ action: "revoke", userDisplayName: "AdminModeratedViewer" },
+				{ action: "grant", reason: "Stream giveaway" },
+			],
+		});
+	});
+
+	it("replays an Event Log range to one subscriber and rejects malformed ranges", async () => {
+		const replayed = await adminRequest("/event-bus/replay", {
+			method: "POST",
+			body: JSON.stringify({
+				subscriber: "achievements",
+				from: "2026-01-01T00:00:00Z",
+				to: "2026-01-02T00:00:00Z",
+			}),
+		});
+		expect(replayed.status).toBe(200);
+		expect(await replayed.json()).toEqual({
+			subscriber: "achievements",
+			replayed: 0,
+			failures: [],
+			nextCursor: null,
+		});
+
+		const backwards = await adminRequest("/event-bus/replay", {
+			method: "POST",
+			body: JSON.stringify({
+				subscriber: "achievements",
+				from: "2026-01-02T00:00:00Z",
+				to: "2026-01-01T00:00:00Z",
+			}),
+		});
+		expect(backwards.status).toBe(400);
+	});
+
+	it("summarizes, dry-runs, and bulk-administers dead letters by filter", async () => {
+		const summary = await adminRequest("/dlq/summary", { method: "GET" });
+		expect(summary.status).toBe(200);
+		expect(await summary.json()).toMatchObject({ totalCount: expect.any(Number) });
+
+		const filter = { errorTags: ["NoSuchError"], from: "2026-01-01T00:00:00Z" };
+		const replayed = await adminRequest("/dlq/replay", {
+			method: "POST",
+			body: JSON.stringify(filter),
+		});
+		expect(replayed.status).toBe(200);
+		expect(await replayed.json()).toEqual({
+			dryRun: true,
+			matched: 0,
+			replayed: 0,
+			failures: [],
+			remaining: 0,
+		});
+
+		const deleted = await adminRequest("/dlq/delete", {
+			method: "POST",
+			body: JSON.stringify({ ...filter, dryRun: false }),
+		});
+		expect(deleted.status).toBe(200);
+		expect(await deleted.json()).toEqual({ dryRun: false, matched: 0, deleted: 0 });
+
+		const unknownField = await adminRequest("/dlq/delete", {
+			method: "POST",
+			body: JSON.stringify({ handler: "achievements" }),
+		});
+		expect(unknownField.status).toBe(400);
+
+		const unfiltered = await adminRequest("/dlq/delete", {
+			method: "POST",
+			body: JSON.stringify({ dryRun: false }),
+		});
+		expect(unfiltered.status).toBe(400);
+	});
+
+	it("manages Outbound Webhooks without exposing their secrets", async () => {
+		const created = await adminRequest("/webhooks", {
+			method: "POST",
+			body: JSON.stringify({
+				name: "Discord #live",
+				url: "https://discord.com/api/webhooks/1/token",
+				secret: "admin-webhook-test-secret",
+				format: "discord",
+				topics: ["stream_online", "achievement_unlocked"],
+			}),
+		});
+		expect(created.status).toBe(201);
+		const webhook = z.object({ id: z.string() }).parse(await created.json());
+
+		const updated = await adminRequest(`/webhooks/${webhook.id}`, {
+			method: "PATCH",
+			body: JSON.stringify({ enabled: false }),
+		});
+		expect(updated.status).toBe(200);
+
+		const listed = await adminRequest("/webhooks", { method: "GET" });
+		const body = await listed.json();
+		expect(body).toMatchObject({ webhooks: [{ id: webhook.id, enabled: false }] });
+		expect(JSON.stringify(body)).not.toContain("admin-webhook-test-secret");
+
+		const insecure = await adminRequest("/webhooks", {
+			method: "POST",
+			body: JSON.stringify({
+				name: "Plain",
+				url: "http://example.com/hook",
+				secret: "admin-webhook-test-secret",
+				topics: ["stream_online"],
+			}),
+		});
+		expect(insecure.status).toBe(400);
+
+		const missing = await adminRequest(`/webhooks/${crypto.randomUUID()}`, {
+			method: "PATCH",
+			body: JSON.stringify({ enabled: true }),
+		});
+		expect(missing.status).toBe(404);
+
+		const deleted = await adminRequest(`/webhooks/${webhook.id}`, { method: "DELETE" });
+		expect(deleted.status).toBe(200);
+		const deletedAgain = await adminRequest(`/webhooks/${webhook.id}`, { method: "DELETE" });
+		expect(deletedAgain.status).toBe(404);
+	});
+
+	it("reports Event Bus lag for every registered subscriber", async () => {
+		const response = await adminRequest("/event-bus/subscribers", { method: "GET" });
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			subscribers: [
+				expect.objectContaining({ subscriber: "achievements" }),
+				expect.objectContaining({
+					subscriber: "webhooks",
+					eventTypes: expect.arrayContaining(["achievement_unlocked"]),
+				}),
+			],
+		});
+
+		const invalid = await adminRequest(`/dlq/${crypto.randomUUID()}?subscriber=nobody`, {
+			method: "DELETE",
+		});
+		expect(invalid.status).toBe(400);
+	});
 });
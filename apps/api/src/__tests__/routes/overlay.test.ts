@@ -0,0 +1,165 @@
+import { env, exports } from "cloudflare:workers";
+import { describe, expect, it } from "vite-plus/test";
+
+import { DurableObjectOverlayFeed } from "../../adapters/cloudflare/durable-object-overlay-feed";
+import { LoggingTracer } from "../../capabilities/tracer";
+import { logger } from "../../lib/logger";
+
+describe("Overlay HTTP routes", () => {
+	it("requires a WebSocket upgrade for the overlay event stream", async () => {
+		const response = await exports.default.fetch("http://example.com/overlay/events");
+		expect(response.status).toBe(426);
+	});
+
+	it("rejects invalid resume cursors before upgrading", async () => {
+		for (const cursor of ["-1", "1.5", "not-a-number"]) {
+			const response = await exports.default.fetch(
+				`http://example.com/overlay/events?cursor=${cursor}`,
+				{ headers: { Upgrade: "websocket" } },
+			);
+			expect(response.status).toBe(400);
+		}
+	});
+
+	it("upgrades overlay connections and sends the ready frame", async () => {
+		const response = await exports.default.fetch("http://example.com/overlay/events?cursor=0", {
+			headers: { Upgrade: "websocket" },
+		});
+		expect(response.status).toBe(101);
+		const socket = response.webSocket;
+		if (socket === null) throw new Error("Expected WebSocket upgrade");
+
+		const frame = new Promise<unknown>((resolve) => {
+			socket.addEventListener("message", (message) => resolve(JSON.parse(String(message.data))));
+		});
+		socket.accept();
+
+		expect(await frame).toEqual(expect.objectContaining({ kind: "ready", truncated: false }));
+		socket.close();
+	});
+
+	it("serves the alerts overlay page", async () => {
+		const response = await exports.default.fetch("http://example.com/overlay/alerts");
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toContain("text/html");
+		expect(await response.text()).toContain("/overlay/alerts/");
+	});
+
+	it("reports an empty alert queue and unknown alert acknowledgements", async () => {
+		const next = await exports.default.fetch("http://example.com/overlay/alerts/next");
+		expect(next.status).toBe(200);
+		expect(await next.json()).toEqual({ alert: null });
+
+		const shown = await exports.default.fetch(
+			"http://example.com/overlay/alerts/missing-alert/shown",
+			{ method: "POST", headers: { Authorization: `Bearer ${env.OVERLAY_SECRET}` } },
+		);
+		expect(shown.status).toBe(404);
+	});
+
+	it("requires the overlay or administrator secret to acknowledge alerts", async () => {
+		const url = "http://example.com/overlay/alerts/missing-alert/shown";
+
+		const missing = await exports.default.fetch(url, { method: "POST" });
+		const wrong = await exports.default.fetch(url, {
+			method: "POST",
+			headers: { Authorization: "Bearer not-the-secret" },
+		});
+		const administrator = await exports.default.fetch(url, {
+			method: "POST",
+			headers: { Authorization: `Bearer ${env.ADMIN_SECRET}` },
+		});
+
+		expect(missing.status).toBe(401);
+		expect(wrong.status).toBe(403);
+		expect(administrator.status).toBe(404);
+	});
+
+	it("forwards the alerts page token when acknowledging alerts", async () => {
+		const response = await exports.default.fetch(
+			`http://example.com/overlay/alerts?token=${env.OVERLAY_SECRET}`,
+		);
+		expect(response.status).toBe(200);
+		const page = await response.text();
+		expect(page).toContain('new URLSearchParams(location.search).get("token")');
+		expect(page).not.toContain(env.OVERLAY_SECRET);
+	});
+
+	it("serves the queue overlay with layout options from the query string", async () => {
+		const response = await exports.default.fetch(
+			"http://example.com/overlay/queue?count=3&orientation=horizontal&compact=true",
+		);
+		expect(response.status).toBe(200);
+		const page = await response.text();
+		expect(page).toContain('class="queue horizontal compact"');
+		expect(page).toContain('data-count="3"');
+	});
+
+	it("defaults the queue overlay layout", async () => {
+		const response = await exports.default.fetch("http://example.com/overlay/queue");
+		expect(response.status).toBe(200);
+		const page = await response.text();
+		expect(page).toContain('class="queue vertical "');
+		expect(page).toContain('data-count="5"');
+	});
+
+	it("rejects invalid queue overlay options", async () => {
+		for (const query of [
+			"count=0",
+			"count=11",
+			"orientation=diagonal",
+			"compact=maybe",
+			"count=2&count=3",
+			"theme=Latte",
+		]) {
+			const response = await exports.default.fetch(`http://example.com/overlay/queue?${query}`);
+			expect(response.status).toBe(400);
+		}
+	});
+
+	it("themes overlay pages with a built-in palette", async () => {
+		const response = await exports.default.fetch(
+			"http://example.com/overlay/now-playing?theme=catppuccin-latte",
+		);
+		expect(response.status).toBe(200);
+		const page = await response.text();
+		expect(page).toContain("--overlay-base: #eff1f5;");
+		expect(page).toContain('--overlay-font: "IBM Plex Mono", ui-monospace, monospace;');
+	});
+
+	it("themes overlay pages with a stored preset", async () => {
+		const overlayFeed = new DurableObjectOverlayFeed(
+			env.OVERLAY_FEED_DO,
+			new LoggingTracer(logger),
+		);
+		const saved = await overlayFeed.saveThemePreset("scene-two", {
+			palette: "catppuccin-mocha",
+			font: "system-sans",
+			colors: { accent: "#ff0088" },
+		});
+		expect(saved.status).toBe("ok");
+
+		for (const page of ["now-playing", "alerts", "queue"]) {
+			const response = await exports.default.fetch(
+				`http://example.com/overlay/${page}?theme=scene-two`,
+			);
+			expect(response.status).toBe(200);
+			const body = await response.text();
+			expect(body).toContain("--overlay-base: #1e1e2e;");
+			expect(body).toContain("--overlay-accent: #ff0088;");
+			expect(body).toContain('--overlay-font: system-ui, -apple-system, "Segoe UI", sans-serif;');
+		}
+	});
+
+	it("rejects unknown and malformed overlay themes", async () => {
+		const unknown = await exports.default.fetch(
+			"http://example.com/overlay/alerts?theme=never-saved",
+		);
+		expect(unknown.status).toBe(404);
+
+		const malformed = await exports.default.fetch(
+			"http://example.com/overlay/now-playing?theme=Not%20A%20Slug",
+		);
+		expect(malformed.status).toBe(400);
+	});
+});
@@ -0,0 +1,61 @@
+import { exports } from "cloudflare:workers";
+import { describe, expect, it } from "vite-plus/test";
+
+import { createRaffleRollEvent } from "../../domain/domain-event";
+import {
+	ensureAchievementsSingletonStub,
+	ensureNamedTwitchTokenStub,
+} from "../helpers/durable-objects";
+
+describe("Viewer Profile routes", () => {
+	it("returns a Viewer Profile as JSON and HTML by login or display name", async () => {
+		await ensureNamedTwitchTokenStub();
+		const achievements = await ensureAchievementsSingletonStub();
+		await achievements.handleEvent(
+			createRaffleRollEvent({
+				id: crypto.randomUUID(),
+				userId: "424242",
+				userDisplayName: "ProfileViewer",
+				sagaId: "profile-saga",
+				roll: 4242,
+				winningNumber: 1234,
+				distance: 3008,
+				isWinner: false,
+				isNewRecord: false,
+			}),
+		);
+
+		const json = await exports.default.fetch("http://example.com/api/profile/profileviewer");
+		expect(json.status).toBe(200);
+		const profile = await json.json<{
+			recentActivity: Array<{ kind: string }>;
+			achievements: { unlocked: number };
+		}>();
+		expect(profile).toMatchObject({
+			userId: "424242",
+			displayName: "ProfileViewer",
+			songRequests: { total: 0, topTracks: [] },
+			raffle: null,
+			requestStreak: null,
+		});
+		expect(profile.achievements.unlocked).toBeGreaterThan(0);
+		expect(profile.recentActivity.map((activity) => activity.kind)).toEqual(
+			expect.arrayContaining(["raffle_roll", "achievement_unlocked"]),
+		);
+
+		const page = await exports.default.fetch("http://example.com/profile/@ProfileViewer");
+		expect(page.status).toBe(200);
+		expect(page.headers.get("content-type")).toContain("text/html");
+		expect(await page.text()).toContain("<h1>ProfileViewer</h1>");
+	});
+
+	it("returns 404 for a Viewer nobody has seen", async () => {
+		const response = await exports.default.fetch("http://example.com/api/profile/nobody-here");
+		expect(response.status).toBe(404);
+		await response.text();
+
+		const page = await exports.default.fetch("http://example.com/profile/nobody-here");
+		expect(page.status).toBe(404);
+		await page.text();
+	});
+});
@@ -1,8 +1,15 @@
+import { runDurableObjectAlarm } from "cloudflare:test";
 import { env, exports } from "cloudflare:workers";
 import { describe, expect, it } from "vite-plus/test";
 
+import { RewardRegistryDO } from "../../durable-objects/reward-registry-do";
 import { TwitchTokenDO } from "../../durable-objects/twitch-token-do";
-import { VALID_TOKEN_RESPONSE, mockTwitchChatMessage } from "../fixtures/twitch";
+import { CHAT_ACTIVITY_THROTTLE_NAME, chatActivityWindow } from "../../lib/chat-activity";
+import {
+	VALID_TOKEN_RESPONSE,
+	mockTwitchChatMessage,
+	mockTwitchRedemptionUpdate,
+} from "../fixtures/twitch";
 import {
 	ensureAchievementsSingletonStub,
 	ensureNamedSpotifyTokenStub,
@@ -86,6 +93,34 @@ function eventSubSubscription(type: string, overrides: Record<string, unknown> =
 	};
 }
 
+function redemptionNotificationBody(
+	rewardId: string,
+	overrides: { redemptionId?: string; userInput?: string } = {},
+): string {
+	return JSON.stringify({
+		subscription: eventSubSubscription("channel.channel_points_custom_reward_redemption.add"),
+		event: {
+			id: overrides.redemptionId ?? `redemption-${crypto.randomUUID()}`,
+			user_id: "viewer-id",
+			user_login: "viewer",
+			user_name: "Viewer",
+			broadcaster_user_id: env.TWITCH_BROADCASTER_ID,
+			broadcaster_user_login: "dillon",
+			broadcaster_user_name: "dillon",
+			reward: { id: rewardId, title: "Hydrate", cost: 1, prompt: "" },
+			user_input: overrides.userInput ?? "",
+			status: "unfulfilled",
+			redeemed_at: new Date().toISOString(),
+		},
+	});
+}
+
+async function ensureRewardRegistryStub(): Promise<DurableObjectStub<RewardRegistryDO>> {
+	const stub = env.REWARD_REGISTRY_DO.get(env.REWARD_REGISTRY_DO.idFromName("reward-registry"));
+	await stub.setName("reward-registry");
+	return stub;
+}
+
 function mockTwitchShoutout(toBroadcasterId: string): void {
 	const expectedPath = new RegExp(
 		`^/helix/chat/shoutouts\\?` +
@@ -307,27 +342,168 @@ describe("Twitch webhooks", () => {
 		});
 		expect(chatResponse.status).toBe(200);
 
-		const redemptionBody = JSON.stringify({
-			subscription: eventSubSubscription("channel.channel_points_custom_reward_redemption.add"),
-			event: {
-				id: `redemption-${crypto.randomUUID()}`,
-				user_id: "viewer-id",
-				user_login: "viewer",
-				user_name: "Viewer",
-				broadcaster_user_id: env.TWITCH_BROADCASTER_ID,
-				broadcaster_user_login: "dillon",
-				broadcaster_user_name: "dillon",
-				reward: { id: "unknown-reward", title: "Unknown", cost: 1, prompt: "" },
-				user_input: "",
-				status: "unfulfilled",
-				redeemed_at: new Date().toISOString(),
-			},
-		});
+		const rewardId = `unknown-reward-${crypto.randomUUID()}`;
 		const redemptionResponse = await postSignedEventSub({
 			subscriptionType: "channel.channel_points_custom_reward_redemption.add",
-			body: redemptionBody,
+			body: redemptionNotificationBody(rewardId),
 		});
 		expect(redemptionResponse.status).toBe(200);
+
+		const registry = await ensureRewardRegistryStub();
+		const unrecognized = await registry.listUnrecognizedRewards();
+		expect(unrecognized.status).toBe("ok");
+		if (unrecognized.status === "ok") {
+			expect(unrecognized.value).toContainEqual(
+				expect.objectContaining({ rewardId, rewardTitle: "Hydrate", redemptions: 1 }),
+			);
+		}
+	});
+
+	it("lets each Viewer publish Chat Activity once per window and command", async () => {
+		const throttle = env.EVENTSUB_WEBHOOK_DO.getByName(CHAT_ACTIVITY_THROTTLE_NAME);
+		const userId = `chatter-${crypto.randomUUID()}`;
+
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: null, window: 10 }),
+		).toEqual({ status: "ok", value: true });
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: null, window: 10 }),
+		).toEqual({ status: "ok", value: false });
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: "song", window: 10 }),
+		).toEqual({ status: "ok", value: true });
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: null, window: 9 }),
+		).toEqual({ status: "ok", value: false });
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: null, window: 11 }),
+		).toEqual({ status: "ok", value: true });
+		expect(await throttle.claimChatActivityWindow({ userId: "", window: 11 })).toMatchObject({
+			status: "error",
+			error: { _tag: "ChatActivityClaimError", failure: "invalid" },
+		});
+	});
+
+	it("sweeps Chat Activity claims once their window has passed", async () => {
+		const throttle = env.EVENTSUB_WEBHOOK_DO.getByName(`chat-activity-${crypto.randomUUID()}`);
+		const userId = `chatter-${crypto.randomUUID()}`;
+		const currentWindow = chatActivityWindow(new Date().toISOString());
+
+		await throttle.claimChatActivityWindow({ userId, commandName: null, window: 10 });
+		await throttle.claimChatActivityWindow({ userId, commandName: "song", window: currentWindow });
+		expect(await runDurableObjectAlarm(throttle)).toBe(true);
+
+		expect(
+			await throttle.claimChatActivityWindow({ userId, commandName: null, window: 10 }),
+		).toEqual({ status: "ok", value: true });
+		expect(
+			await throttle.claimChatActivityWindow({
+				userId,
+				commandName: "song",
+				window: currentWindow,
+			}),
+		).toEqual({ status: "ok", value: false });
+	});
+
+	it("runs the Reward Handler bound to a reward in the registry", async () => {
+		await ensureTwitchTokenStub();
+		const registry = await ensureRewardRegistryStub();
+		const counterRewardId = `counter-reward-${crypto.randomUUID()}`;
+		const chatRewardId = `chat-reward-${crypto.randomUUID()}`;
+		await registry.saveReward(counterRewardId, {
+			handler: { kind: "counter_increment", commandName: "skillissue" },
+		});
+		await registry.saveReward(chatRewardId, {
+			handler: { kind: "chat_message", template: "{user} says: {input}" },
+		});
+
+		const commandsStub = env.COMMANDS_DO.get(env.COMMANDS_DO.idFromName("commands"));
+		await commandsStub.setName("commands");
+		const before = await commandsStub.getCommandCounter("skillissue");
+		expect(before.status).toBe("ok");
+
+		mockTwitchRedemptionUpdate(fetchMock);
+		const counterMessageId = `reward-counter-${crypto.randomUUID()}`;
+		const counterResponse = await postSignedEventSub({
+			messageId: counterMessageId,
+			subscriptionType: "channel.channel_points_custom_reward_redemption.add",
+			body: redemptionNotificationBody(counterRewardId),
+		});
+		expect(counterResponse.status).toBe(200);
+		const after = await commandsStub.getCommandCounter("skillissue");
+		if (before.status === "ok") {
+			expect(after).toMatchObject({ status: "ok", value: before.value + 1 });
+		}
+		const counterReceiptStub = env.EVENTSUB_WEBHOOK_DO.get(
+			env.EVENTSUB_WEBHOOK_DO.idFromName(counterMessageId),
+		);
+		expect(await counterReceiptStub.getReceiptStatus()).toMatchObject({
+			status: "ok",
+			value: { status: "completed" },
+		});
+
+		mockTwitchChatMessage(fetchMock);
+		mockTwitchRedemptionUpdate(fetchMock);
+		const chatMessageId = `reward-chat-${crypto.randomUUID()}`;
+		const chatResponse = await postSignedEventSub({
+			messageId: chatMessageId,
+			subscriptionType: "channel.channel_points_custom_reward_redemption.add",
+			body: redemptionNotificationBody(chatRewardId, { userInput: "hello chat" }),
+		});
+		expect(chatResponse.status).toBe(200);
+		const receiptStub = env.EVENTSUB_WEBHOOK_DO.get(
+			env.EVENTSUB_WEBHOOK_DO.idFromName(chatMessageId),
+		);
+		expect(await receiptStub.getReceiptStatus()).toMatchObject({
+			status: "ok",
+			value: { status: "completed", chatCommandDelivery: "sent" },
+		});
+
+		const statusUpdates = fetchMock
+			.getRequests()
+			.filter((request) =>
+				request.url.includes("/helix/channel_points/custom_rewards/redemptions"),
+			);
+		expect(statusUpdates.map((request) => [request.method, request.body])).toEqual([
+			["PATCH", JSON.stringify({ status: "FULFILLED" })],
+			["PATCH", JSON.stringify({ status: "FULFILLED" })],
+		]);
+	});
+
+	it("refunds redemptions of a disabled reward without running its handler", async () => {
+		await ensureTwitchTokenStub();
+		const registry = await ensureRewardRegistryStub();
+		const rewardId = `disabled-reward-${crypto.randomUUID()}`;
+		await registry.saveReward(rewardId, {
+			handler: { kind: "chat_message", template: "{user} should not be announced" },
+			enabled: false,
+		});
+
+		mockTwitchRedemptionUpdate(fetchMock);
+		const messageId = `reward-disabled-${crypto.randomUUID()}`;
+		const response = await postSignedEventSub({
+			messageId,
+			subscriptionType: "channel.channel_points_custom_reward_redemption.add",
+			body: redemptionNotificationBody(rewardId),
+		});
+		expect(response.status).toBe(200);
+
+		const receiptStub = env.EVENTSUB_WEBHOOK_DO.get(env.EVENTSUB_WEBHOOK_DO.idFromName(messageId));
+		expect(await receiptStub.getReceiptStatus()).toMatchObject({
+			status: "ok",
+			value: { status: "completed" },
+		});
+		const requests = fetchMock.getRequests();
+		expect(
+			requests.some((request) => request.body?.includes("should not be announced") ?? false),
+		).toBe(false);
+		expect(
+			requests
+				.filter((request) =>
+					request.url.includes("/helix/channel_points/custom_rewards/redemptions"),
+				)
+				.map((request) => [request.method, request.body]),
+		).toEqual([["PATCH", JSON.stringify({ status: "CANCELED" })]]);
 	});
 
 	it("preserves Chat Command argument casing and checkpoints the provider send", async () => {
@@ -377,6 +553,15 @@ describe("Twitch webhooks", () => {
 			body,
 		});
 		expect(duplicate.status).toBe(200);
+
+		const achievements = await ensureAchievementsSingletonStub();
+		const progress = await achievements.getUserAchievements("ModeratorViewer");
+		expect(progress.status).toBe("ok");
+		if (progress.status === "ok") {
+			expect(
+				progress.value.find((achievement) => achievement.achievementId === "first_command"),
+			).toMatchObject({ progress: 1, unlockedAt: expect.any(String) });
+		}
 	});
 
 	it("durably accepts a completely parsed revocation", async () => {
@@ -7,7 +7,7 @@ import { parseWorkerConfiguration } from "../../configuration/worker-configurati
 import { TwitchTokenDO } from "../../durable-objects/twitch-token-do";
 import { logger } from "../../lib/logger";
 import { TwitchService } from "../../services/twitch-service";
-import { VALID_TOKEN_RESPONSE } from "../fixtures/twitch";
+import { VALID_TOKEN_RESPONSE, mockTwitchModerators, mockTwitchVips } from "../fixtures/twitch";
 import { fetchMock } from "../helpers/fetch-mock";
 
 async function ensureTwitchTokenStub(): Promise<DurableObjectStub<TwitchTokenDO>> {
@@ -55,6 +55,19 @@ describe("TwitchService", () => {
 		expect(result.status).toBe("ok");
 	});
 
+	it("resolves a Viewer's channel role from the moderator and VIP lists", async () => {
+		await ensureTwitchTokenStub();
+		mockTwitchModerators(fetchMock);
+		mockTwitchVips(fetchMock, ["vip-user-id"]);
+
+		const vip = await twitchService().getViewerPermission("vip-user-id");
+		expect(vip).toEqual({ status: "ok", value: "vip" });
+
+		const broadcaster = await twitchService().getViewerPermission(env.TWITCH_BROADCASTER_ID);
+		expect(broadcaster).toEqual({ status: "ok", value: "broadcaster" });
+		expect(fetchMock.getRequests()).toHaveLength(2);
+	});
+
 	it("confirms chat delivery from the provider response", async () => {
 		await ensureTwitchTokenStub();
 		fetchMock
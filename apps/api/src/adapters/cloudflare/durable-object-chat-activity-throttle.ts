@@ -0,0 +1,44 @@
+import { Result } from "better-result";
+
+import { ChatActivityClaimError } from "../../capabilities/eventsub-receipts";
+import { CHAT_ACTIVITY_THROTTLE_NAME } from "../../lib/chat-activity";
+import { ClaimChatActivityWindowResultCodec } from "../../lib/eventsub-receipt-rpc-result-codecs";
+
+import type { ChatActivityClaim, ChatActivityThrottle } from "../../capabilities/eventsub-receipts";
+import type { Tracer } from "../../capabilities/tracer";
+import type { Result as ResultType } from "better-result";
+
+interface ChatActivityThrottleRpcStub {
+	claimChatActivityWindow(claim: ChatActivityClaim): Promise<unknown>;
+}
+
+/** Durable Object adapter for the single EventSub webhook instance that throttles Chat Activity. */
+export class DurableObjectChatActivityThrottle implements ChatActivityThrottle {
+	constructor(
+		private readonly namespace: Cloudflare.Env["EVENTSUB_WEBHOOK_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	/** Claims one Viewer's Chat Activity window and runtime-validates the RPC result. */
+	claim(claim: ChatActivityClaim): Promise<ResultType<boolean, ChatActivityClaimError>> {
+		return this.tracer.span(
+			"durable_object.chat_activity.claim",
+			{ window: claim.window },
+			async () => {
+				let rawResult: unknown;
+				try {
+					rawResult = await this.acquireThrottleStub().claimChatActivityWindow(claim);
+				} catch (cause) {
+					return Result.err(new ChatActivityClaimError({ failure: "transport", cause }));
+				}
+				const parsed = await ClaimChatActivityWindowResultCodec.deserializeUnsafe(rawResult);
+				if (parsed.status === "ok" || ChatActivityClaimError.is(parsed.error)) return parsed;
+				return Result.err(new ChatActivityClaimError({ failure: "protocol", cause: parsed.error }));
+			},
+		);
+	}
+
+	private acquireThrottleStub(): ChatActivityThrottleRpcStub {
+		return this.namespace.getByName(CHAT_ACTIVITY_THROTTLE_NAME);
+	}
+}
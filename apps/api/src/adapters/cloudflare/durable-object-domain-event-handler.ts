@@ -2,11 +2,14 @@ import { Result } from "better-result";
 
 import { DomainEventHandleError } from "../../capabilities/domain-event-handler";
 import { HandleAchievementEventResultCodec } from "../../lib/achievement-rpc-result-codecs";
+import { HandleOutboundWebhookEventResultCodec } from "../../lib/outbound-webhook-rpc-result-codecs";
 import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
+import { OUTBOUND_WEBHOOK_NAME } from "./durable-object-outbound-webhooks";
 
 import type { DomainEventHandler } from "../../capabilities/domain-event-handler";
 import type { Tracer } from "../../capabilities/tracer";
 import type { Event } from "../../domain/domain-event";
+import type { EventDelivery } from "../../domain/event-subscriber";
 import type { Result as ResultType } from "better-result";
 
 /** Durable Object adapter that applies domain events to Achievement rules and state. */
@@ -17,10 +20,13 @@ export class DurableObjectAchievementEventHandler implements DomainEventHandler
 	) {}
 
 	/** Handles one event through the runtime-validated Achievements RPC contract. */
-	handleEvent(event: Event): Promise<ResultType<void, DomainEventHandleError>> {
+	handleEvent(
+		event: Event,
+		delivery?: EventDelivery,
+	): Promise<ResultType<void, DomainEventHandleError>> {
 		return this.tracer.span(
 			"durable_object.achievements.handle_event",
-			{ event_id: event.id, event_type: event.type },
+			{ event_id: event.id, event_type: event.type, replay: delivery?.replay ?? false },
 			async () => {
 				let rawResult: unknown;
 				try {
@@ -28,7 +34,7 @@ export class DurableObjectAchievementEventHandler implements DomainEventHandler
 						this.namespace.getByName("achievements"),
 						"achievements",
 					);
-					rawResult = await stub.handleEvent(event);
+					rawResult = await stub.handleEvent(event, delivery);
 				} catch (cause) {
 					return Result.err(
 						new DomainEventHandleError({ eventId: event.id, failure: "transport", cause }),
@@ -47,3 +53,45 @@ export class DurableObjectAchievementEventHandler implements DomainEventHandler
 		);
 	}
 }
+
+/** Durable Object adapter that posts domain events to subscribed Outbound Webhooks. */
+export class DurableObjectOutboundWebhookEventHandler implements DomainEventHandler {
+	constructor(
+		private readonly namespace: Cloudflare.Env["OUTBOUND_WEBHOOK_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	/** Handles one event through the runtime-validated Outbound Webhook RPC contract. */
+	handleEvent(
+		event: Event,
+		delivery?: EventDelivery,
+	): Promise<ResultType<void, DomainEventHandleError>> {
+		return this.tracer.span(
+			"durable_object.outbound_webhooks.handle_event",
+			{ event_id: event.id, event_type: event.type, replay: delivery?.replay ?? false },
+			async () => {
+				let rawResult: unknown;
+				try {
+					const stub = await initializeDurableObjectAgentStub(
+						this.namespace.getByName(OUTBOUND_WEBHOOK_NAME),
+						OUTBOUND_WEBHOOK_NAME,
+					);
+					rawResult = await stub.handleEvent(event, delivery);
+				} catch (cause) {
+					return Result.err(
+						new DomainEventHandleError({ eventId: event.id, failure: "transport", cause }),
+					);
+				}
+				const parsed = await HandleOutboundWebhookEventResultCodec.deserializeUnsafe(rawResult);
+				if (parsed.status === "ok") return Result.ok(undefined);
+				return Result.err(
+					new DomainEventHandleError({
+						eventId: event.id,
+						failure: "remote",
+						remoteErrorTag: parsed.error._tag,
+					}),
+				);
+			},
+		);
+	}
+}
@@ -7,24 +7,47 @@ import {
 	type EventBusError,
 } from "../../lib/errors";
 import {
+	BulkDeleteDeadLetterEventsResultCodec,
+	BulkReplayDeadLetterEventsResultCodec,
 	DeleteDeadLetterEventResultCodec,
 	GetDeadLetterEventsResultCodec,
+	GetDeadLetterSummaryResultCodec,
+	GetEventSubscriberLagResultCodec,
 	GetPendingEventsResultCodec,
 	ReplayDeadLetterEventResultCodec,
+	ReplayEventLogResultCodec,
 } from "../../lib/event-bus-rpc-result-codecs";
 import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
 
 import type {
+	DeadLetterBulkDeleteRequest,
+	DeadLetterBulkDeleteResult,
+	DeadLetterBulkReplayRequest,
+	DeadLetterBulkReplayResult,
 	DeadLetterList,
 	DeadLetterReplayResult,
+	DeadLetterSummary,
 	EventBusAdministration,
 	EventBusAdministrationError,
+	EventLogReplayRequest,
+	EventLogReplayResult,
+	EventSubscriberLag,
 	PendingEventList,
 } from "../../capabilities/event-bus-administration";
 import type { Tracer } from "../../capabilities/tracer";
+import type { EventSubscriber } from "../../domain/event-subscriber";
 import type { Result as ResultType } from "better-result";
 
-type EventBusAdministrationOperation = "getPending" | "getDLQ" | "replayDLQ" | "deleteDLQ";
+type EventBusAdministrationOperation =
+	| "getPending"
+	| "getDLQ"
+	| "replayDLQ"
+	| "deleteDLQ"
+	| "getDLQSummary"
+	| "bulkReplayDLQ"
+	| "bulkDeleteDLQ"
+	| "getSubscriberLag"
+	| "replayEvents";
 
 /** Durable Object adapter for validated Event Bus administration RPC. */
 export class DurableObjectEventBusAdministration implements EventBusAdministration {
@@ -57,22 +80,72 @@ export class DurableObjectEventBusAdministration implements EventBusAdministrati
 
 	replayDeadLetter(
 		id: string,
+		subscriber?: EventSubscriber,
 	): Promise<ResultType<DeadLetterReplayResult, EventBusAdministrationError>> {
 		return this.call(
 			"replayDLQ",
-			(stub) => stub.replayDLQ(id),
+			(stub) => stub.replayDLQ(id, subscriber),
 			(value) => ReplayDeadLetterEventResultCodec.deserializeUnsafe(value),
 		);
 	}
 
-	deleteDeadLetter(id: string): Promise<ResultType<void, EventBusAdministrationError>> {
+	deleteDeadLetter(
+		id: string,
+		subscriber?: EventSubscriber,
+	): Promise<ResultType<void, EventBusAdministrationError>> {
 		return this.call(
 			"deleteDLQ",
-			(stub) => stub.deleteDLQ(id),
+			(stub) => stub.deleteDLQ(id, subscriber),
 			(value) => DeleteDeadLetterEventResultCodec.deserializeUnsafe(value),
 		);
 	}
 
+	getDeadLetterSummary(): Promise<ResultType<DeadLetterSummary, EventBusAdministrationError>> {
+		return this.call(
+			"getDLQSummary",
+			(stub) => stub.getDLQSummary(),
+			(value) => GetDeadLetterSummaryResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	replayDeadLetters(
+		request: DeadLetterBulkReplayRequest,
+	): Promise<ResultType<DeadLetterBulkReplayResult, EventBusAdministrationError>> {
+		return this.call(
+			"bulkReplayDLQ",
+			(stub) => stub.bulkReplayDLQ(request),
+			(value) => BulkReplayDeadLetterEventsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	deleteDeadLetters(
+		request: DeadLetterBulkDeleteRequest,
+	): Promise<ResultType<DeadLetterBulkDeleteResult, EventBusAdministrationError>> {
+		return this.call(
+			"bulkDeleteDLQ",
+			(stub) => stub.bulkDeleteDLQ(request),
+			(value) => BulkDeleteDeadLetterEventsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	getSubscriberLag(): Promise<ResultType<EventSubscriberLag[], EventBusAdministrationError>> {
+		return this.call(
+			"getSubscriberLag",
+			(stub) => stub.getSubscriberLag(),
+			(value) => GetEventSubscriberLagResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	replayEventLog(
+		request: EventLogReplayRequest,
+	): Promise<ResultType<EventLogReplayResult, EventBusAdministrationError>> {
+		return this.call(
+			"replayEvents",
+			(stub) => stub.replayEvents(request),
+			(value) => ReplayEventLogResultCodec.deserializeUnsafe(value),
+		);
+	}
+
 	private call<T>(
 		operation: EventBusAdministrationOperation,
 		invoke: (
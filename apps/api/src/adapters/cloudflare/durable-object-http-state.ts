@@ -3,29 +3,51 @@ import { Result } from "better-result";
 import {
 	ApplicationStateError,
 	type AchievementAdministration,
+	type AchievementModeration,
 	type AchievementReader,
 	type ApplicationStateOperation,
 	type StreamLifecycle,
 } from "../../capabilities/http-state-readers";
 import {
+	type AchievementBackfillRun,
 	type AchievementDebugTableCounts,
 	type AchievementDebugUserSnapshot,
-	type AchievementDefinition,
+	type AchievementDefinitionWithRarity,
+	type AchievementDefinitionUpdateResult,
 	type AchievementLeaderboardEntry,
 	type AchievementResetResult,
+	type CreateAchievementDefinitionInput,
+	type ManagedAchievementDefinition,
+	type StartAchievementBackfillInput,
 	type UnlockedAchievement,
+	type UpdateAchievementDefinitionInput,
 	type ViewerAchievementProgress,
 } from "../../domain/achievement";
 import {
+	CreateAchievementDefinitionResultCodec,
+	CreateSeasonResultCodec,
+	GetAchievementBackfillRunResultCodec,
 	GetAchievementDefinitionsResultCodec,
 	GetAchievementLeaderboardResultCodec,
+	GetAchievementModerationAuditResultCodec,
 	GetAchievementTableCountsResultCodec,
 	GetAchievementUserSnapshotResultCodec,
+	GetSeasonLeaderboardResultCodec,
 	GetUnlockedAchievementsResultCodec,
+	GetViewerAchievementProfileResultCodec,
 	GetViewerAchievementsResultCodec,
+	GrantAchievementResultCodec,
+	ListManagedAchievementDefinitionsResultCodec,
+	ListSeasonsResultCodec,
 	ResetOneTimeAchievementsResultCodec,
+	RetireAchievementDefinitionResultCodec,
+	RevokeAchievementResultCodec,
+	RollOverSeasonResultCodec,
+	StartAchievementBackfillResultCodec,
+	UpdateAchievementDefinitionResultCodec,
 } from "../../lib/achievement-rpc-result-codecs";
 import {
+	GetLatestViewerCountResultCodec,
 	GetStreamLifecycleStateResultCodec,
 	StreamOfflineResultCodec,
 	StreamOnlineResultCodec,
@@ -33,7 +55,14 @@ import {
 import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
 
 import type { Tracer } from "../../capabilities/tracer";
+import type {
+	AchievementModerationAuditQuery,
+	AchievementModerationEntry,
+	AchievementModerationInput,
+} from "../../domain/achievement-moderation";
+import type { CreateSeasonInput, Season, SeasonLeaderboard } from "../../domain/season";
 import type { StreamLifecycleState } from "../../domain/stream-lifecycle";
+import type { ViewerAchievementProfile } from "../../domain/viewer-profile";
 import type { DurableObjectAgentStub } from "./durable-object-agent-stub";
 import type { Result as ResultType } from "better-result";
 
@@ -41,19 +70,35 @@ type StateRpcError = Readonly<{ _tag: string }>;
 
 const ApplicationStateSpanNames: Readonly<Record<ApplicationStateOperation, string>> = {
 	getStreamState: "durable_object.stream_lifecycle.get_stream_state",
+	getLatestViewerCount: "durable_object.stream_lifecycle.get_latest_viewer_count",
 	markStreamOnline: "durable_object.stream_lifecycle.mark_stream_online",
 	markStreamOffline: "durable_object.stream_lifecycle.mark_stream_offline",
 	getAchievementDefinitions: "durable_object.achievements.get_definitions",
 	getAchievementLeaderboard: "durable_object.achievements.get_leaderboard",
 	getViewerAchievements: "durable_object.achievements.get_viewer_achievements",
 	getViewerUnlockedAchievements: "durable_object.achievements.get_viewer_unlocked_achievements",
+	getViewerAchievementProfile: "durable_object.achievements.get_viewer_profile",
 	resetOneTimeAchievements: "durable_object.achievements.reset_one_time_achievements",
 	getAchievementDebugTableCounts: "durable_object.achievements.get_debug_table_counts",
 	getAchievementDebugUserSnapshot: "durable_object.achievements.get_debug_user_snapshot",
+	listAchievementDefinitions: "durable_object.achievements.list_managed_definitions",
+	createAchievementDefinition: "durable_object.achievements.create_definition",
+	updateAchievementDefinition: "durable_object.achievements.update_definition",
+	retireAchievementDefinition: "durable_object.achievements.retire_definition",
+	startAchievementBackfill: "durable_object.achievements.start_backfill",
+	getAchievementBackfillRun: "durable_object.achievements.get_backfill_run",
+	listSeasons: "durable_object.achievements.list_seasons",
+	getSeasonLeaderboard: "durable_object.achievements.get_season_leaderboard",
+	createSeason: "durable_object.achievements.create_season",
+	rollOverSeason: "durable_object.achievements.roll_over_season",
+	grantAchievement: "durable_object.achievements.grant_achievement",
+	revokeAchievement: "durable_object.achievements.revoke_achievement",
+	getAchievementModerationAudit: "durable_object.achievements.get_moderation_audit",
 };
 
 interface StreamLifecycleRpcStub extends DurableObjectAgentStub {
 	getStreamState(): Promise<unknown>;
+	getLatestViewerCount(): Promise<unknown>;
 	onStreamOnline(startedAt: string): Promise<unknown>;
 	onStreamOffline(endedAt?: string): Promise<unknown>;
 }
@@ -63,9 +108,26 @@ interface AchievementReaderRpcStub extends DurableObjectAgentStub {
 	getLeaderboard(options: { readonly limit: number }): Promise<unknown>;
 	getUserAchievements(viewer: string): Promise<unknown>;
 	getUnlockedAchievements(viewer: string): Promise<unknown>;
+	getViewerProfile(viewer: string): Promise<unknown>;
 	resetOneTimeAchievements(viewer?: string): Promise<unknown>;
 	getDebugTableCounts(): Promise<unknown>;
 	getDebugUserSnapshot(viewer: string): Promise<unknown>;
+	listManagedDefinitions(): Promise<unknown>;
+	createDefinition(input: CreateAchievementDefinitionInput): Promise<unknown>;
+	updateDefinition(
+		achievementId: string,
+		patch: UpdateAchievementDefinitionInput,
+	): Promise<unknown>;
+	retireDefinition(achievementId: string): Promise<unknown>;
+	startBackfill(input: StartAchievementBackfillInput): Promise<unknown>;
+	getBackfillRun(runId: string | null): Promise<unknown>;
+	listSeasons(): Promise<unknown>;
+	getSeasonLeaderboard(seasonId: string, options: { readonly limit: number }): Promise<unknown>;
+	createSeason(input: CreateSeasonInput): Promise<unknown>;
+	rollOverSeason(seasonId: string): Promise<unknown>;
+	grantAchievement(input: AchievementModerationInput): Promise<unknown>;
+	revokeAchievement(input: AchievementModerationInput): Promise<unknown>;
+	getModerationAudit(query: AchievementModerationAuditQuery): Promise<unknown>;
 }
 
 /** Durable Object adapter for runtime-validated Stream Lifecycle reads and transitions. */
@@ -86,6 +148,17 @@ export class DurableObjectStreamLifecycle implements StreamLifecycle {
 		});
 	}
 
+	/** Reads and parses the latest live viewer count snapshot. */
+	getLatestViewerCount(): Promise<ResultType<number | null, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "stream-lifecycle",
+			operation: "getLatestViewerCount",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireStreamLifecycleStub()).getLatestViewerCount(),
+			deserializeUnsafe: (value) => GetLatestViewerCountResultCodec.deserializeUnsafe(value),
+		});
+	}
+
 	/** Marks a Stream Session online at its authoritative Twitch timestamp. */
 	markStreamOnline(startedAt: string): Promise<ResultType<void, ApplicationStateError>> {
 		return callApplicationStateRpc({
@@ -118,7 +191,7 @@ export class DurableObjectStreamLifecycle implements StreamLifecycle {
 
 /** Durable Object adapter for runtime-validated public Achievement projections. */
 export class DurableObjectAchievementReader
-	implements AchievementReader, AchievementAdministration
+	implements AchievementReader, AchievementAdministration, AchievementModeration
 {
 	constructor(
 		private readonly namespace: Cloudflare.Env["ACHIEVEMENTS_DO"],
@@ -163,8 +236,180 @@ export class DurableObjectAchievementReader
 		});
 	}
 
-	/** Reads and parses all persisted Achievement Definitions. */
-	getDefinitions(): Promise<ResultType<readonly AchievementDefinition[], ApplicationStateError>> {
+	/** Lists every Achievement Definition with its lifecycle status. */
+	listDefinitions(): Promise<
+		ResultType<readonly ManagedAchievementDefinition[], ApplicationStateError>
+	> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "listAchievementDefinitions",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).listManagedDefinitions(),
+			deserializeUnsafe: (value) =>
+				ListManagedAchievementDefinitionsResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Creates one Achievement Definition. */
+	createDefinition(
+		input: CreateAchievementDefinitionInput,
+	): Promise<ResultType<ManagedAchievementDefinition, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "createAchievementDefinition",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).createDefinition(input),
+			deserializeUnsafe: (value) => CreateAchievementDefinitionResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Edits one Achievement Definition and reports how many Viewers it unlocked. */
+	updateDefinition(
+		achievementId: string,
+		patch: UpdateAchievementDefinitionInput,
+	): Promise<ResultType<AchievementDefinitionUpdateResult, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "updateAchievementDefinition",
+			tracer: this.tracer,
+			invoke: async () =>
+				(await this.acquireAchievementReaderStub()).updateDefinition(achievementId, patch),
+			deserializeUnsafe: (value) => UpdateAchievementDefinitionResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Retires one Achievement Definition. */
+	retireDefinition(
+		achievementId: string,
+	): Promise<ResultType<ManagedAchievementDefinition, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "retireAchievementDefinition",
+			tracer: this.tracer,
+			invoke: async () =>
+				(await this.acquireAchievementReaderStub()).retireDefinition(achievementId),
+			deserializeUnsafe: (value) => RetireAchievementDefinitionResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Starts an Achievement Backfill run. */
+	startBackfill(
+		input: StartAchievementBackfillInput,
+	): Promise<ResultType<AchievementBackfillRun, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "startAchievementBackfill",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).startBackfill(input),
+			deserializeUnsafe: (value) => StartAchievementBackfillResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Reads one Achievement Backfill run, or the latest when no id is given. */
+	getBackfillRun(
+		runId?: string,
+	): Promise<ResultType<AchievementBackfillRun | null, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "getAchievementBackfillRun",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).getBackfillRun(runId ?? null),
+			deserializeUnsafe: (value) => GetAchievementBackfillRunResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Creates one Season and schedules its rollover. */
+	createSeason(input: CreateSeasonInput): Promise<ResultType<Season, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "createSeason",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).createSeason(input),
+			deserializeUnsafe: (value) => CreateSeasonResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Rolls one Season over now. */
+	rollOverSeason(seasonId: string): Promise<ResultType<Season, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "rollOverSeason",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).rollOverSeason(seasonId),
+			deserializeUnsafe: (value) => RollOverSeasonResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Grants one Viewer an Achievement by hand. */
+	grantAchievement(
+		input: AchievementModerationInput,
+	): Promise<ResultType<AchievementModerationEntry, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "grantAchievement",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).grantAchievement(input),
+			deserializeUnsafe: (value) => GrantAchievementResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Revokes one Viewer's Achievement by hand. */
+	revokeAchievement(
+		input: AchievementModerationInput,
+	): Promise<ResultType<AchievementModerationEntry, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "revokeAchievement",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).revokeAchievement(input),
+			deserializeUnsafe: (value) => RevokeAchievementResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Reads and parses the Achievement Moderation audit. */
+	getModerationAudit(
+		query: AchievementModerationAuditQuery,
+	): Promise<ResultType<readonly AchievementModerationEntry[], ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "getAchievementModerationAudit",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).getModerationAudit(query),
+			deserializeUnsafe: (value) =>
+				GetAchievementModerationAuditResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Reads and parses every Season. */
+	listSeasons(): Promise<ResultType<readonly Season[], ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "listSeasons",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).listSeasons(),
+			deserializeUnsafe: (value) => ListSeasonsResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Reads and parses one Season's standings. */
+	getSeasonLeaderboard(
+		seasonId: string,
+		options: { readonly limit: number },
+	): Promise<ResultType<SeasonLeaderboard | null, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "getSeasonLeaderboard",
+			tracer: this.tracer,
+			invoke: async () =>
+				(await this.acquireAchievementReaderStub()).getSeasonLeaderboard(seasonId, options),
+			deserializeUnsafe: (value) => GetSeasonLeaderboardResultCodec.deserializeUnsafe(value),
+		});
+	}
+
+	/** Reads and parses all active Achievement Definitions with their rarity. */
+	getDefinitions(): Promise<
+		ResultType<readonly AchievementDefinitionWithRarity[], ApplicationStateError>
+	> {
 		return callApplicationStateRpc({
 			resource: "achievements",
 			operation: "getAchievementDefinitions",
@@ -214,6 +459,19 @@ export class DurableObjectAchievementReader
 		});
 	}
 
+	/** Reads and parses one Viewer's Achievement profile; null when no Viewer matches. */
+	getViewerAchievementProfile(
+		viewer: string,
+	): Promise<ResultType<ViewerAchievementProfile | null, ApplicationStateError>> {
+		return callApplicationStateRpc({
+			resource: "achievements",
+			operation: "getViewerAchievementProfile",
+			tracer: this.tracer,
+			invoke: async () => (await this.acquireAchievementReaderStub()).getViewerProfile(viewer),
+			deserializeUnsafe: (value) => GetViewerAchievementProfileResultCodec.deserializeUnsafe(value),
+		});
+	}
+
 	private acquireAchievementReaderStub(): Promise<AchievementReaderRpcStub> {
 		return initializeDurableObjectAgentStub(
 			this.namespace.getByName("achievements"),
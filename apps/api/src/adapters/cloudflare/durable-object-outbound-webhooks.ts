@@ -0,0 +1,119 @@
+import { Result } from "better-result";
+
+import { OutboundWebhookStoreError } from "../../capabilities/outbound-webhooks";
+import {
+	CreateOutboundWebhookResultCodec,
+	DeleteOutboundWebhookResultCodec,
+	ListOutboundWebhooksResultCodec,
+	UpdateOutboundWebhookResultCodec,
+} from "../../lib/outbound-webhook-rpc-result-codecs";
+import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
+
+import type {
+	OutboundWebhookAdministration,
+	OutboundWebhookOperation,
+} from "../../capabilities/outbound-webhooks";
+import type { Tracer } from "../../capabilities/tracer";
+import type {
+	CreateOutboundWebhookInput,
+	OutboundWebhook,
+	UpdateOutboundWebhookInput,
+} from "../../domain/outbound-webhook";
+import type { OutboundWebhookError } from "../../lib/errors";
+import type { Result as ResultType } from "better-result";
+
+/** Singleton name of the Outbound Webhook Durable Object. */
+export const OUTBOUND_WEBHOOK_NAME = "outbound-webhooks";
+
+const OutboundWebhookSpanNames: Readonly<Record<OutboundWebhookOperation, string>> = {
+	listWebhooks: "durable_object.outbound_webhooks.list_webhooks",
+	createWebhook: "durable_object.outbound_webhooks.create_webhook",
+	updateWebhook: "durable_object.outbound_webhooks.update_webhook",
+	deleteWebhook: "durable_object.outbound_webhooks.delete_webhook",
+};
+
+/** Durable Object adapter for administering the singleton Outbound Webhook registry. */
+export class DurableObjectOutboundWebhooks implements OutboundWebhookAdministration {
+	constructor(
+		private readonly namespace: Cloudflare.Env["OUTBOUND_WEBHOOK_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	/** Lists every Outbound Webhook. */
+	listWebhooks(): Promise<ResultType<readonly OutboundWebhook[], OutboundWebhookStoreError>> {
+		return this.call(
+			"listWebhooks",
+			(stub) => stub.listWebhooks(),
+			(value) => ListOutboundWebhooksResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Registers one Outbound Webhook. */
+	createWebhook(
+		input: CreateOutboundWebhookInput,
+	): Promise<ResultType<OutboundWebhook, OutboundWebhookStoreError>> {
+		return this.call(
+			"createWebhook",
+			(stub) => stub.createWebhook(input),
+			(value) => CreateOutboundWebhookResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Edits one Outbound Webhook. */
+	updateWebhook(
+		webhookId: string,
+		patch: UpdateOutboundWebhookInput,
+	): Promise<ResultType<OutboundWebhook, OutboundWebhookStoreError>> {
+		return this.call(
+			"updateWebhook",
+			(stub) => stub.updateWebhook(webhookId, patch),
+			(value) => UpdateOutboundWebhookResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Deletes one Outbound Webhook. */
+	deleteWebhook(webhookId: string): Promise<ResultType<boolean, OutboundWebhookStoreError>> {
+		return this.call(
+			"deleteWebhook",
+			(stub) => stub.deleteWebhook(webhookId),
+			(value) => DeleteOutboundWebhookResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	private call<T>(
+		operation: OutboundWebhookOperation,
+		invoke: (
+			stub: Awaited<ReturnType<DurableObjectOutboundWebhooks["acquireStub"]>>,
+		) => Promise<unknown>,
+		deserializeUnsafe: (
+			value: unknown,
+		) => ResultType<T, OutboundWebhookError> | Promise<ResultType<T, OutboundWebhookError>>,
+	): Promise<ResultType<T, OutboundWebhookStoreError>> {
+		return this.tracer.span(OutboundWebhookSpanNames[operation], { operation }, async () => {
+			let rawResult: unknown;
+			try {
+				rawResult = await invoke(await this.acquireStub());
+			} catch (cause) {
+				return Result.err(
+					new OutboundWebhookStoreError({ operation, failure: "transport", cause }),
+				);
+			}
+			const parsed = await deserializeUnsafe(rawResult);
+			if (parsed.status === "ok") return Result.ok(parsed.value);
+			return Result.err(
+				new OutboundWebhookStoreError({
+					operation,
+					failure: "remote",
+					remoteErrorTag: parsed.error._tag,
+				}),
+			);
+		});
+	}
+
+	private acquireStub() {
+		return initializeDurableObjectAgentStub(
+			this.namespace.getByName(OUTBOUND_WEBHOOK_NAME),
+			OUTBOUND_WEBHOOK_NAME,
+		);
+	}
+}
@@ -0,0 +1,226 @@
+import { Result } from "better-result";
+
+import { OverlayAlertQueueError, OverlayFeedPublishError } from "../../capabilities/overlay-feed";
+import { OverlayThemeStoreError } from "../../capabilities/overlay-themes";
+import {
+	DeleteOverlayThemePresetResultCodec,
+	GetOverlayThemePresetResultCodec,
+	ListOverlayThemePresetsResultCodec,
+	MarkOverlayAlertShownResultCodec,
+	NextOverlayAlertResultCodec,
+	PublishOverlayEventResultCodec,
+	SaveOverlayThemePresetResultCodec,
+} from "../../lib/overlay-feed-rpc-result-codecs";
+import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
+
+import type {
+	OverlayAlertQueue,
+	OverlayFeedConnections,
+	OverlayFeedPublisher,
+} from "../../capabilities/overlay-feed";
+import type {
+	OverlayThemeAdministration,
+	OverlayThemeOperation,
+	OverlayThemeReader,
+} from "../../capabilities/overlay-themes";
+import type { Tracer } from "../../capabilities/tracer";
+import type { OverlayAlert, OverlayEvent } from "../../domain/overlay-event";
+import type { OverlayTheme, OverlayThemePreset } from "../../domain/overlay-theme";
+import type { OverlayFeedError } from "../../lib/errors";
+import type { Result as ResultType } from "better-result";
+
+const OVERLAY_FEED_NAME = "overlay-feed";
+
+const OverlayThemeSpanNames: Readonly<Record<OverlayThemeOperation, string>> = {
+	getThemePreset: "durable_object.overlay_feed.get_theme_preset",
+	listThemePresets: "durable_object.overlay_feed.list_theme_presets",
+	saveThemePreset: "durable_object.overlay_feed.save_theme_preset",
+	deleteThemePreset: "durable_object.overlay_feed.delete_theme_preset",
+};
+
+/** Durable Object adapter for the singleton Overlay Feed and its theme presets. */
+export class DurableObjectOverlayFeed
+	implements
+		OverlayFeedPublisher,
+		OverlayFeedConnections,
+		OverlayAlertQueue,
+		OverlayThemeReader,
+		OverlayThemeAdministration
+{
+	constructor(
+		private readonly namespace: Cloudflare.Env["OVERLAY_FEED_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	/** Appends one event through the singleton Overlay Feed RPC contract. */
+	publish(event: OverlayEvent): Promise<ResultType<void, OverlayFeedPublishError>> {
+		return this.tracer.span(
+			"durable_object.overlay_feed.publish",
+			{ event_id: event.id, event_type: event.type },
+			async () => {
+				let rawResult: unknown;
+				try {
+					rawResult = await (await this.acquireStub()).publish(event);
+				} catch (cause) {
+					return Result.err(
+						new OverlayFeedPublishError({
+							eventId: event.id,
+							eventType: event.type,
+							failure: "transport",
+							cause,
+						}),
+					);
+				}
+				const parsed = await PublishOverlayEventResultCodec.deserializeUnsafe(rawResult);
+				if (parsed.status === "ok") return Result.ok(undefined);
+				return Result.err(
+					new OverlayFeedPublishError({
+						eventId: event.id,
+						eventType: event.type,
+						failure: "remote",
+						remoteErrorTag: parsed.error._tag,
+					}),
+				);
+			},
+		);
+	}
+
+	/** Reads the head of the alert display queue. */
+	nextAlert(): Promise<ResultType<OverlayAlert | null, OverlayAlertQueueError>> {
+		return this.tracer.span("durable_object.overlay_feed.next_alert", {}, async () => {
+			let rawResult: unknown;
+			try {
+				rawResult = await (await this.acquireStub()).nextAlert();
+			} catch (cause) {
+				return Result.err(
+					new OverlayAlertQueueError({ operation: "nextAlert", failure: "transport", cause }),
+				);
+			}
+			const parsed = await NextOverlayAlertResultCodec.deserializeUnsafe(rawResult);
+			if (parsed.status === "ok") return Result.ok(parsed.value);
+			return Result.err(
+				new OverlayAlertQueueError({
+					operation: "nextAlert",
+					failure: "remote",
+					remoteErrorTag: parsed.error._tag,
+				}),
+			);
+		});
+	}
+
+	/** Marks one alert shown so it leaves the display queue. */
+	markAlertShown(alertId: string): Promise<ResultType<boolean, OverlayAlertQueueError>> {
+		return this.tracer.span(
+			"durable_object.overlay_feed.mark_alert_shown",
+			{ alert_id: alertId },
+			async () => {
+				let rawResult: unknown;
+				try {
+					rawResult = await (await this.acquireStub()).markAlertShown(alertId);
+				} catch (cause) {
+					return Result.err(
+						new OverlayAlertQueueError({
+							operation: "markAlertShown",
+							failure: "transport",
+							cause,
+						}),
+					);
+				}
+				const parsed = await MarkOverlayAlertShownResultCodec.deserializeUnsafe(rawResult);
+				if (parsed.status === "ok") return Result.ok(parsed.value);
+				return Result.err(
+					new OverlayAlertQueueError({
+						operation: "markAlertShown",
+						failure: "remote",
+						remoteErrorTag: parsed.error._tag,
+					}),
+				);
+			},
+		);
+	}
+
+	/** Reads one Overlay Theme preset by name. */
+	getThemePreset(
+		name: string,
+	): Promise<ResultType<OverlayThemePreset | null, OverlayThemeStoreError>> {
+		return this.callThemeStore(
+			"getThemePreset",
+			(stub) => stub.getThemePreset(name),
+			(value) => GetOverlayThemePresetResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Lists every Overlay Theme preset. */
+	listThemePresets(): Promise<ResultType<readonly OverlayThemePreset[], OverlayThemeStoreError>> {
+		return this.callThemeStore(
+			"listThemePresets",
+			(stub) => stub.listThemePresets(),
+			(value) => ListOverlayThemePresetsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Creates or replaces one Overlay Theme preset. */
+	saveThemePreset(
+		name: string,
+		theme: OverlayTheme,
+	): Promise<ResultType<OverlayThemePreset, OverlayThemeStoreError>> {
+		return this.callThemeStore(
+			"saveThemePreset",
+			(stub) => stub.saveThemePreset(name, theme),
+			(value) => SaveOverlayThemePresetResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Deletes one Overlay Theme preset. */
+	deleteThemePreset(name: string): Promise<ResultType<boolean, OverlayThemeStoreError>> {
+		return this.callThemeStore(
+			"deleteThemePreset",
+			(stub) => stub.deleteThemePreset(name),
+			(value) => DeleteOverlayThemePresetResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Forwards a WebSocket upgrade to the Overlay Feed, naming the PartyServer room. */
+	connect(request: Request): Promise<Response> {
+		const headers = new Headers(request.headers);
+		headers.set("x-partykit-room", OVERLAY_FEED_NAME);
+		return this.namespace
+			.getByName(OVERLAY_FEED_NAME)
+			.fetch(new Request(request.url, { method: request.method, headers }));
+	}
+
+	private callThemeStore<T>(
+		operation: OverlayThemeOperation,
+		invoke: (
+			stub: Awaited<ReturnType<DurableObjectOverlayFeed["acquireStub"]>>,
+		) => Promise<unknown>,
+		deserializeUnsafe: (
+			value: unknown,
+		) => ResultType<T, OverlayFeedError> | Promise<ResultType<T, OverlayFeedError>>,
+	): Promise<ResultType<T, OverlayThemeStoreError>> {
+		return this.tracer.span(OverlayThemeSpanNames[operation], { operation }, async () => {
+			let rawResult: unknown;
+			try {
+				rawResult = await invoke(await this.acquireStub());
+			} catch (cause) {
+				return Result.err(new OverlayThemeStoreError({ operation, failure: "transport", cause }));
+			}
+			const parsed = await deserializeUnsafe(rawResult);
+			if (parsed.status === "ok") return Result.ok(parsed.value);
+			return Result.err(
+				new OverlayThemeStoreError({
+					operation,
+					failure: "remote",
+					remoteErrorTag: parsed.error._tag,
+				}),
+			);
+		});
+	}
+
+	private acquireStub() {
+		return initializeDurableObjectAgentStub(
+			this.namespace.getByName(OVERLAY_FEED_NAME),
+			OVERLAY_FEED_NAME,
+		);
+	}
+}
@@ -4,6 +4,7 @@ import { KeyboardRaffleRollStoreError } from "../../capabilities/keyboard-raffle
 import {
 	RaffleStatisticsReadError,
 	RaffleViewerNotFoundError,
+	type RaffleRollHistory,
 	type RaffleStatistics,
 	type RaffleStatisticsError,
 	type RaffleStatisticsOperation,
@@ -12,6 +13,7 @@ import {
 	DeleteKeyboardRaffleRollResultCodec,
 	GetKeyboardRaffleDisplayNameStatsResultCodec,
 	GetKeyboardRaffleLeaderboardResultCodec,
+	GetKeyboardRaffleRollsAfterResultCodec,
 	GetKeyboardRaffleViewerStatsResultCodec,
 	RecordKeyboardRaffleRollResultCodec,
 } from "../../lib/keyboard-raffle-rpc-result-codecs";
@@ -21,6 +23,7 @@ import type { KeyboardRaffleRollStore } from "../../capabilities/keyboard-raffle
 import type { Tracer } from "../../capabilities/tracer";
 import type {
 	KeyboardRaffleRoll,
+	KeyboardRaffleRollCursor,
 	RecordKeyboardRaffleRoll,
 	RaffleLeaderboardEntry,
 	RaffleLeaderboardQuery,
@@ -35,10 +38,13 @@ interface RaffleStatisticsRpcStub extends DurableObjectAgentStub {
 	getUserStatsByDisplayName(displayName: string): Promise<unknown>;
 	recordRoll(input: RecordKeyboardRaffleRoll): Promise<unknown>;
 	deleteRollById(rollId: string): Promise<unknown>;
+	getRollsAfter(cursor: KeyboardRaffleRollCursor | null, limit: number): Promise<unknown>;
 }
 
 /** Durable Object adapter for validated Raffle Leaderboard and Viewer-statistics RPC. */
-export class DurableObjectRaffleStatistics implements RaffleStatistics, KeyboardRaffleRollStore {
+export class DurableObjectRaffleStatistics
+	implements RaffleStatistics, RaffleRollHistory, KeyboardRaffleRollStore
+{
 	constructor(
 		private readonly namespace: Cloudflare.Env["KEYBOARD_RAFFLE_DO"],
 		private readonly tracer: Tracer,
@@ -99,6 +105,23 @@ export class DurableObjectRaffleStatistics implements RaffleStatistics, Keyboard
 		);
 	}
 
+	async getRollsAfter(
+		cursor: KeyboardRaffleRollCursor | null,
+		limit: number,
+	): Promise<ResultType<readonly KeyboardRaffleRoll[], RaffleStatisticsReadError>> {
+		const result = await this.call(
+			"getRollsAfter",
+			async () => (await this.acquireRaffleStatisticsStub()).getRollsAfter(cursor, limit),
+			(value) => GetKeyboardRaffleRollsAfterResultCodec.deserializeUnsafe(value),
+		);
+		if (result.status === "ok") return Result.ok(result.value);
+		if (RaffleStatisticsReadError.is(result.error)) return Result.err(result.error);
+		// Roll reads have no Viewer lookup, so a not-found answer is a protocol violation.
+		return Result.err(
+			new RaffleStatisticsReadError({ operation: "getRollsAfter", failure: "protocol" }),
+		);
+	}
+
 	private acquireRaffleStatisticsStub(): Promise<RaffleStatisticsRpcStub> {
 		return initializeDurableObjectAgentStub(
 			this.namespace.getByName("keyboard-raffle"),
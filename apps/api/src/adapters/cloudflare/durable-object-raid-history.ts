@@ -0,0 +1,86 @@
+import { Result } from "better-result";
+
+import {
+	RaidHistoryError,
+	type RaidHistoryOperation,
+	type RaidRecorder,
+	type RaidStatistics,
+} from "../../capabilities/raid-history";
+import {
+	GetTopRaidersResultCodec,
+	RecordRaidResultCodec,
+} from "../../lib/stream-lifecycle-rpc-result-codecs";
+import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
+
+import type { Tracer } from "../../capabilities/tracer";
+import type { Raid, RecordRaid, TopRaider } from "../../domain/raid";
+import type { DurableObjectAgentStub } from "./durable-object-agent-stub";
+import type { Result as ResultType } from "better-result";
+
+type RaidHistoryRemoteError = Readonly<{ _tag: string }>;
+interface RaidHistoryRpcStub extends DurableObjectAgentStub {
+	recordRaid(input: RecordRaid): Promise<unknown>;
+	getTopRaiders(limit: number): Promise<unknown>;
+}
+
+/** Durable Object adapter for validated Raid history RPC on the Stream Lifecycle. */
+export class DurableObjectRaidHistory implements RaidRecorder, RaidStatistics {
+	constructor(
+		private readonly namespace: Cloudflare.Env["STREAM_LIFECYCLE_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	recordRaid(input: RecordRaid): Promise<ResultType<Raid, RaidHistoryError>> {
+		return this.call(
+			"recordRaid",
+			async () => (await this.acquireStreamLifecycleStub()).recordRaid(input),
+			(value) => RecordRaidResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	getTopRaiders(limit: number): Promise<ResultType<readonly TopRaider[], RaidHistoryError>> {
+		return this.call(
+			"getTopRaiders",
+			async () => (await this.acquireStreamLifecycleStub()).getTopRaiders(limit),
+			(value) => GetTopRaidersResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	private acquireStreamLifecycleStub(): Promise<RaidHistoryRpcStub> {
+		return initializeDurableObjectAgentStub(
+			this.namespace.getByName("stream-lifecycle"),
+			"stream-lifecycle",
+		);
+	}
+
+	private call<T>(
+		operation: RaidHistoryOperation,
+		invoke: () => Promise<unknown>,
+		deserializeUnsafe: (
+			value: unknown,
+		) => ResultType<T, RaidHistoryRemoteError> | Promise<ResultType<T, RaidHistoryRemoteError>>,
+	): Promise<ResultType<T, RaidHistoryError>> {
+		return this.tracer.span(
+			`durable_object.stream_lifecycle.${operation}`,
+			{ operation },
+			async () => {
+				let rawResult: unknown;
+				try {
+					rawResult = await invoke();
+				} catch (cause) {
+					return Result.err(new RaidHistoryError({ operation, failure: "transport", cause }));
+				}
+				const result = await deserializeUnsafe(rawResult);
+				return result.status === "ok"
+					? Result.ok(result.value)
+					: Result.err(
+							new RaidHistoryError({
+								operation,
+								failure: "remote",
+								remoteErrorTag: result.error._tag,
+							}),
+						);
+			},
+		);
+	}
+}
@@ -0,0 +1,144 @@
+import { Result } from "better-result";
+
+import { RewardRegistryStoreError } from "../../capabilities/reward-registry";
+import {
+	DeleteRewardBindingResultCodec,
+	ListRewardBindingsResultCodec,
+	ListUnrecognizedRewardsResultCodec,
+	RecordUnrecognizedRedemptionResultCodec,
+	ResolveRewardResultCodec,
+	SaveRewardBindingResultCodec,
+} from "../../lib/reward-registry-rpc-result-codecs";
+import { initializeDurableObjectAgentStub } from "./durable-object-agent-stub";
+
+import type {
+	RewardRegistryAdministration,
+	RewardRegistryOperation,
+	RewardRouter,
+} from "../../capabilities/reward-registry";
+import type { Tracer } from "../../capabilities/tracer";
+import type {
+	RewardBinding,
+	SaveRewardBindingInput,
+	UnrecognizedReward,
+} from "../../domain/channel-point-reward";
+import type { TwitchRedemption } from "../../lib/channel-point-redemptions";
+import type { RewardRegistryError } from "../../lib/errors";
+import type { Result as ResultType } from "better-result";
+
+const REWARD_REGISTRY_NAME = "reward-registry";
+
+const RewardRegistrySpanNames: Readonly<Record<RewardRegistryOperation, string>> = {
+	resolveReward: "durable_object.reward_registry.resolve_reward",
+	recordUnrecognizedRedemption: "durable_object.reward_registry.record_unrecognized_redemption",
+	listRewards: "durable_object.reward_registry.list_rewards",
+	saveReward: "durable_object.reward_registry.save_reward",
+	deleteReward: "durable_object.reward_registry.delete_reward",
+	listUnrecognizedRewards: "durable_object.reward_registry.list_unrecognized_rewards",
+};
+
+/** Durable Object adapter for the singleton Channel Point reward registry. */
+export class DurableObjectRewardRegistry implements RewardRouter, RewardRegistryAdministration {
+	constructor(
+		private readonly namespace: Cloudflare.Env["REWARD_REGISTRY_DO"],
+		private readonly tracer: Tracer,
+	) {}
+
+	/** Reads the Reward Binding for one reward id. */
+	resolveReward(
+		rewardId: string,
+	): Promise<ResultType<RewardBinding | null, RewardRegistryStoreError>> {
+		return this.call(
+			"resolveReward",
+			(stub) => stub.resolveReward(rewardId),
+			(value) => ResolveRewardResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Records a redemption of an unbound reward. */
+	recordUnrecognizedRedemption(
+		redemption: TwitchRedemption,
+	): Promise<ResultType<void, RewardRegistryStoreError>> {
+		return this.call(
+			"recordUnrecognizedRedemption",
+			(stub) => stub.recordUnrecognizedRedemption(redemption),
+			(value) => RecordUnrecognizedRedemptionResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Lists every Reward Binding. */
+	listRewards(): Promise<ResultType<readonly RewardBinding[], RewardRegistryStoreError>> {
+		return this.call(
+			"listRewards",
+			(stub) => stub.listRewards(),
+			(value) => ListRewardBindingsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Creates or replaces one Reward Binding. */
+	saveReward(
+		rewardId: string,
+		input: SaveRewardBindingInput,
+	): Promise<ResultType<RewardBinding, RewardRegistryStoreError>> {
+		return this.call(
+			"saveReward",
+			(stub) => stub.saveReward(rewardId, input),
+			(value) => SaveRewardBindingResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Deletes one Reward Binding. */
+	deleteReward(rewardId: string): Promise<ResultType<boolean, RewardRegistryStoreError>> {
+		return this.call(
+			"deleteReward",
+			(stub) => stub.deleteReward(rewardId),
+			(value) => DeleteRewardBindingResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Lists unbound rewards that viewers have redeemed. */
+	listUnrecognizedRewards(): Promise<
+		ResultType<readonly UnrecognizedReward[], RewardRegistryStoreError>
+	> {
+		return this.call(
+			"listUnrecognizedRewards",
+			(stub) => stub.listUnrecognizedRewards(),
+			(value) => ListUnrecognizedRewardsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	private call<T>(
+		operation: RewardRegistryOperation,
+		invoke: (
+			stub: Awaited<ReturnType<DurableObjectRewardRegistry["acquireStub"]>>,
+		) => Promise<unknown>,
+		deserializeUnsafe: (
+			value: unknown,
+		) => ResultType<T, RewardRegistryError> | Promise<ResultType<T, RewardRegistryError>>,
+	): Promise<ResultType<T, RewardRegistryStoreError>> {
+		return this.tracer.span(RewardRegistrySpanNames[operation], { operation }, async () => {
+			let rawResult: unknown;
+			try {
+				rawResult = await invoke(await this.acquireStub());
+			} catch (cause) {
+				return Result.err(new RewardRegistryStoreError({ operation, failure: "transport", cause }));
+			}
+			const parsed = await deserializeUnsafe(rawResult);
+			if (parsed.status === "ok") return Result.ok(parsed.value);
+			return Result.err(
+				new RewardRegistryStoreError({
+					operation,
+					failure: "remote",
+					remoteErrorTag: parsed.error._tag,
+				}),
+			);
+		});
+	}
+
+	private acquireStub() {
+		return initializeDurableObjectAgentStub(
+			this.namespace.getByName(REWARD_REGISTRY_NAME),
+			REWARD_REGISTRY_NAME,
+		);
+	}
+}
@@ -7,46 +7,92 @@ import {
 	type SongQueueOperation,
 } from "../../capabilities/song-queue";
 import {
+	type AddTrackBlocklistEntryInput,
 	type PendingRequestInput,
+	type RequestHistoryCursor,
+	type RequestHistoryItem,
 	type RequestHistoryResult,
+	type SongRequestPermission,
+	type SongRequestPolicy,
+	type SongRequestPolicyCheck,
+	type SongRequestPolicyDecision,
+	type SongRequestRemoval,
+	type SongRequestSelector,
+	type SongRequestWithdrawal,
+	type SongRequestsCleared,
 	type SpotifyQueueResult,
 	type TopRequestedTrack,
 	type TopSongRequester,
+	type TrackBlocklistEntry,
+	type TrackBlocklistKey,
+	type TrackContentCheck,
+	type TrackContentDecision,
+	type TrackContentFilter,
+	type TrackContentRules,
 } from "../../domain/song-request";
 import { SONG_QUEUE_DO_NAME } from "../../durable-objects/song-queue-do";
 import {
+	AddTrackBlocklistEntryResultCodec,
+	AdmitSongRequestResultCodec,
+	CastSkipVoteResultCodec,
+	CheckSongRequestPolicyResultCodec,
+	CheckTrackContentResultCodec,
+	ClearSongRequestsResultCodec,
 	DeleteSongRequestResultCodec,
 	GetCurrentlyPlayingResultCodec,
 	GetDisplayNameRequestCountResultCodec,
+	GetRequestHistoryAfterResultCodec,
 	GetRequestHistoryResultCodec,
 	GetSongQueueResultCodec,
+	GetSongRequestPoliciesResultCodec,
 	GetTopRequestersResultCodec,
 	GetTopTracksResultCodec,
+	GetTrackContentFilterResultCodec,
 	GetUserRequestCountResultCodec,
 	GetUserTopTracksResultCodec,
 	PersistSongRequestResultCodec,
+	RemoveSongRequestResultCodec,
+	RemoveTrackBlocklistEntryResultCodec,
+	UpdateSongRequestPolicyResultCodec,
+	UpdateTrackContentRulesResultCodec,
+	WithdrawSongRequestResultCodec,
 } from "../../lib/song-queue-rpc-result-codecs";
 
 import type { Tracer } from "../../capabilities/tracer";
-import type { NowPlaying } from "../../domain/spotify-queue";
+import type { NowPlaying, SkipVoteInput, SkipVoteResult } from "../../domain/spotify-queue";
 import type { Result as ResultType } from "better-result";
 
 const SongQueueSpanNames: Readonly<Record<SongQueueOperation, string>> = {
 	persistPendingRequest: "durable_object.song_queue.persist_pending_request",
+	admitPendingRequest: "durable_object.song_queue.admit_pending_request",
 	deletePendingRequest: "durable_object.song_queue.delete_pending_request",
 	getSpotifyQueue: "durable_object.song_queue.get_spotify_queue",
 	getNowPlaying: "durable_object.song_queue.get_now_playing",
 	getRequestHistory: "durable_object.song_queue.get_request_history",
+	getRequestHistoryAfter: "durable_object.song_queue.get_request_history_after",
 	getViewerRequestCount: "durable_object.song_queue.get_viewer_request_count",
 	getViewerRequestCountByDisplayName:
 		"durable_object.song_queue.get_viewer_request_count_by_display_name",
 	getTopTracks: "durable_object.song_queue.get_top_tracks",
 	getViewerTopTracks: "durable_object.song_queue.get_viewer_top_tracks",
 	getTopRequesters: "durable_object.song_queue.get_top_requesters",
+	castSkipVote: "durable_object.song_queue.cast_skip_vote",
+	checkSongRequestPolicy: "durable_object.song_queue.check_song_request_policy",
+	getSongRequestPolicies: "durable_object.song_queue.get_song_request_policies",
+	updateSongRequestPolicy: "durable_object.song_queue.update_song_request_policy",
+	checkTrackContent: "durable_object.song_queue.check_track_content",
+	getTrackContentFilter: "durable_object.song_queue.get_track_content_filter",
+	updateTrackContentRules: "durable_object.song_queue.update_track_content_rules",
+	addTrackBlocklistEntry: "durable_object.song_queue.add_track_blocklist_entry",
+	removeTrackBlocklistEntry: "durable_object.song_queue.remove_track_blocklist_entry",
+	removeSongRequest: "durable_object.song_queue.remove_song_request",
+	withdrawSongRequest: "durable_object.song_queue.withdraw_song_request",
+	clearSongRequests: "durable_object.song_queue.clear_song_requests",
 };
 
 interface SongQueueRpcHandle {
 	persistRequest(request: PendingRequestInput): Promise<unknown>;
+	admitRequest(request: PendingRequestInput, permission: SongRequestPermission): Promise<unknown>;
 	deleteRequest(eventId: string): Promise<unknown>;
 	getSongQueue(limit: number): Promise<unknown>;
 	getCurrentlyPlaying(): Promise<unknown>;
@@ -56,11 +102,24 @@ interface SongQueueRpcHandle {
 		since?: string,
 		until?: string,
 	): Promise<unknown>;
+	getRequestHistoryAfter(cursor: RequestHistoryCursor | null, limit: number): Promise<unknown>;
 	getUserRequestCount(userId: string): Promise<unknown>;
 	getUserRequestCountByDisplayName(displayName: string): Promise<unknown>;
 	getTopTracks(limit: number): Promise<unknown>;
 	getTopTracksByUser(userId: string, limit: number): Promise<unknown>;
 	getTopRequesters(limit: number): Promise<unknown>;
+	castSkipVote(vote: SkipVoteInput): Promise<unknown>;
+	checkSongRequestPolicy(check: SongRequestPolicyCheck): Promise<unknown>;
+	getSongRequestPolicies(): Promise<unknown>;
+	updateSongRequestPolicy(policy: SongRequestPolicy): Promise<unknown>;
+	checkTrackContent(check: TrackContentCheck): Promise<unknown>;
+	getTrackContentFilter(): Promise<unknown>;
+	updateTrackContentRules(rules: TrackContentRules): Promise<unknown>;
+	addTrackBlocklistEntry(entry: AddTrackBlocklistEntryInput): Promise<unknown>;
+	removeTrackBlocklistEntry(key: TrackBlocklistKey): Promise<unknown>;
+	removeSongRequest(selector: SongRequestSelector): Promise<unknown>;
+	withdrawSongRequest(userId: string): Promise<unknown>;
+	clearSongRequests(): Promise<unknown>;
 	[Symbol.dispose]?(): void;
 }
 
@@ -81,6 +140,19 @@ export class DurableObjectSongQueue implements SongQueue {
 		);
 	}
 
+	/** Admits a Pending Request under its Viewer role's policy through the Song Queue RPC contract. */
+	admitPendingRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<ResultType<SongRequestPolicyDecision, SongQueueFailure>> {
+		return this.call(
+			"admitPendingRequest",
+			"admitRequest",
+			(handle) => handle.admitRequest(request, permission),
+			(value) => AdmitSongRequestResultCodec.deserializeUnsafe(value),
+		);
+	}
+
 	/** Deletes a Pending Request through the runtime-validated Song Queue RPC contract. */
 	deletePendingRequest(eventId: string): Promise<ResultType<void, SongQueueFailure>> {
 		return this.call(
@@ -126,6 +198,19 @@ export class DurableObjectSongQueue implements SongQueue {
 		);
 	}
 
+	/** Reads Request History oldest first after a (requestedAt, eventId) cursor. */
+	getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<ResultType<RequestHistoryItem[], SongQueueFailure>> {
+		return this.call(
+			"getRequestHistoryAfter",
+			"getRequestHistoryAfter",
+			(handle) => handle.getRequestHistoryAfter(cursor, limit),
+			(value) => GetRequestHistoryAfterResultCodec.deserializeUnsafe(value),
+		);
+	}
+
 	/** Counts fulfilled Song Requests for one stable Viewer ID. */
 	getViewerRequestCount(userId: string): Promise<ResultType<number, SongQueueFailure>> {
 		return this.call(
@@ -181,6 +266,142 @@ export class DurableObjectSongQueue implements SongQueue {
 		);
 	}
 
+	/** Records one Viewer's Skip Vote against Now Playing. */
+	castSkipVote(vote: SkipVoteInput): Promise<ResultType<SkipVoteResult, SongQueueFailure>> {
+		return this.call(
+			"castSkipVote",
+			"castSkipVote",
+			(handle) => handle.castSkipVote(vote),
+			(value) => CastSkipVoteResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Applies one role's Song Request Policy to a Viewer's redemption. */
+	checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<ResultType<SongRequestPolicyDecision, SongQueueFailure>> {
+		return this.call(
+			"checkSongRequestPolicy",
+			"checkSongRequestPolicy",
+			(handle) => handle.checkSongRequestPolicy(check),
+			(value) => CheckSongRequestPolicyResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Lists the effective Song Request Policy of every Viewer role. */
+	getSongRequestPolicies(): Promise<ResultType<SongRequestPolicy[], SongQueueFailure>> {
+		return this.call(
+			"getSongRequestPolicies",
+			"getSongRequestPolicies",
+			(handle) => handle.getSongRequestPolicies(),
+			(value) => GetSongRequestPoliciesResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Stores one Viewer role's Song Request Policy. */
+	updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<ResultType<SongRequestPolicy, SongQueueFailure>> {
+		return this.call(
+			"updateSongRequestPolicy",
+			"updateSongRequestPolicy",
+			(handle) => handle.updateSongRequestPolicy(policy),
+			(value) => UpdateSongRequestPolicyResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Checks one Spotify Track against the Track Content Rules and Track Blocklist. */
+	checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<ResultType<TrackContentDecision, SongQueueFailure>> {
+		return this.call(
+			"checkTrackContent",
+			"checkTrackContent",
+			(handle) => handle.checkTrackContent(check),
+			(value) => CheckTrackContentResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Reads the effective Track Content Rules and the full Track Blocklist. */
+	getTrackContentFilter(): Promise<ResultType<TrackContentFilter, SongQueueFailure>> {
+		return this.call(
+			"getTrackContentFilter",
+			"getTrackContentFilter",
+			(handle) => handle.getTrackContentFilter(),
+			(value) => GetTrackContentFilterResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Stores the Track Content Rules. */
+	updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<ResultType<TrackContentRules, SongQueueFailure>> {
+		return this.call(
+			"updateTrackContentRules",
+			"updateTrackContentRules",
+			(handle) => handle.updateTrackContentRules(rules),
+			(value) => UpdateTrackContentRulesResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Bans one Spotify Track or artist. */
+	addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<ResultType<TrackBlocklistEntry, SongQueueFailure>> {
+		return this.call(
+			"addTrackBlocklistEntry",
+			"addTrackBlocklistEntry",
+			(handle) => handle.addTrackBlocklistEntry(entry),
+			(value) => AddTrackBlocklistEntryResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Lifts one Track Blocklist ban. */
+	removeTrackBlocklistEntry(
+		key: TrackBlocklistKey,
+	): Promise<ResultType<boolean, SongQueueFailure>> {
+		return this.call(
+			"removeTrackBlocklistEntry",
+			"removeTrackBlocklistEntry",
+			(handle) => handle.removeTrackBlocklistEntry(key),
+			(value) => RemoveTrackBlocklistEntryResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Removes one upcoming Pending Request on a moderator's behalf. */
+	removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<ResultType<SongRequestRemoval, SongQueueFailure>> {
+		return this.call(
+			"removeSongRequest",
+			"removeSongRequest",
+			(handle) => handle.removeSongRequest(selector),
+			(value) => RemoveSongRequestResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Withdraws a Viewer's latest Pending Request. */
+	withdrawSongRequest(
+		userId: string,
+	): Promise<ResultType<SongRequestWithdrawal, SongQueueFailure>> {
+		return this.call(
+			"withdrawSongRequest",
+			"withdrawSongRequest",
+			(handle) => handle.withdrawSongRequest(userId),
+			(value) => WithdrawSongRequestResultCodec.deserializeUnsafe(value),
+		);
+	}
+
+	/** Removes every upcoming Pending Request. */
+	clearSongRequests(): Promise<ResultType<SongRequestsCleared, SongQueueFailure>> {
+		return this.call(
+			"clearSongRequests",
+			"clearSongRequests",
+			(handle) => handle.clearSongRequests(),
+			(value) => ClearSongRequestsResultCodec.deserializeUnsafe(value),
+		);
+	}
+
 	private call<T>(
 		operation: SongQueueOperation,
 		rpcMethod: string,
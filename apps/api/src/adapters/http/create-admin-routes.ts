@@ -7,21 +7,71 @@
 import { Hono } from "hono";
 import { z } from "zod";
 
+import {
+	DeadLetterBulkDeleteRequestSchema,
+	DeadLetterBulkReplayRequestSchema,
+	EventLogReplayRequestSchema,
+} from "../../capabilities/event-bus-administration";
+import {
+	AchievementDefinitionIdSchema,
+	AchievementScopeSchema,
+	AchievementTriggerEventSchema,
+	CreateAchievementDefinitionInputSchema,
+	StartAchievementBackfillInputSchema,
+	UpdateAchievementDefinitionInputSchema,
+} from "../../domain/achievement";
+import {
+	ACHIEVEMENT_MODERATION_AUDIT_LIMIT,
+	AchievementModerationInputSchema,
+} from "../../domain/achievement-moderation";
+import {
+	ChannelPointRewardIdSchema,
+	REWARD_HANDLER_KINDS,
+	SaveRewardBindingInputSchema,
+} from "../../domain/channel-point-reward";
 import {
 	CreateChatCommandInputSchema as CreateCommandInputSchema,
 	UpdateChatCommandInputSchema as UpdateCommandInputSchema,
 } from "../../domain/chat-command-definition";
+import { EventSubscriberSchema } from "../../domain/event-subscriber";
+import {
+	CreateOutboundWebhookInputSchema,
+	OutboundWebhookIdSchema,
+	UpdateOutboundWebhookInputSchema,
+} from "../../domain/outbound-webhook";
+import {
+	OVERLAY_FONT_STACKS,
+	OVERLAY_PALETTES,
+	OverlayThemePresetNameSchema,
+	OverlayThemeSchema,
+} from "../../domain/overlay-theme";
+import { CreateSeasonInputSchema, SeasonIdSchema } from "../../domain/season";
+import {
+	AddTrackBlocklistEntryInputSchema,
+	SongRequestPolicyPermissionSchema,
+	TrackBlocklistKeySchema,
+	UpdateSongRequestPolicyInputSchema,
+	UpdateTrackContentRulesInputSchema,
+} from "../../domain/song-request";
 import { constantTimeEquals } from "../../lib/crypto";
-import { DLQItemNotFoundError } from "../../lib/errors";
+import { DLQItemNotFoundError, EventBusValidationError } from "../../lib/errors";
 import { type AppRouteEnv } from "../../lib/request-context";
 
 import type { ChatCommandAdministration } from "../../capabilities/chat-command-administration";
 import type { EventBusAdministration } from "../../capabilities/event-bus-administration";
 import type {
 	AchievementAdministration,
+	AchievementModeration,
 	AchievementReader,
+	ApplicationStateError,
 } from "../../capabilities/http-state-readers";
+import type {
+	OutboundWebhookAdministration,
+	OutboundWebhookStoreError,
+} from "../../capabilities/outbound-webhooks";
+import type { OverlayThemeAdministration } from "../../capabilities/overlay-themes";
 import type { RaffleStatistics } from "../../capabilities/raffle-statistics";
+import type { RewardRegistryAdministration } from "../../capabilities/reward-registry";
 import type { SongQueue } from "../../capabilities/song-queue";
 import type { Logger } from "../../lib/logger";
 import type { RedactedValue } from "../../lib/redacted";
@@ -30,10 +80,13 @@ import type { RedactedValue } from "../../lib/redacted";
 export type AdminRouteDependencies = Readonly<{
 	administratorSecret: RedactedValue<string>;
 	eventBus: EventBusAdministration;
-	achievements: AchievementReader & AchievementAdministration;
+	achievements: AchievementReader & AchievementAdministration & AchievementModeration;
 	chatCommands: ChatCommandAdministration;
 	songQueue: SongQueue;
 	raffles: RaffleStatistics;
+	overlayThemes: OverlayThemeAdministration;
+	rewards: RewardRegistryAdministration;
+	webhooks: OutboundWebhookAdministration;
 	logger: Logger;
 }>;
 
@@ -150,14 +203,75 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 		return c.json(result.value);
 	});
 
+	/**
+	 * GET /admin/event-bus/subscribers
+	 * Per-subscriber pending and dead-letter backlog, and how long the oldest pending delivery has waited
+	 */
+	admin.get("/event-bus/subscribers", async (c) => {
+		const result = await dependencies.eventBus.getSubscriberLag();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to get subscriber lag", { error: result.error.message });
+			return c.json({ error: "Failed to fetch subscriber lag" }, 500);
+		}
+
+		return c.json({ subscribers: result.value });
+	});
+
+	/**
+	 * POST /admin/event-bus/replay
+	 * Re-deliver one page of Event Log entries in a time range to one subscriber,
+	 * marked as a replay; page on by posting `nextCursor` back as `after`
+	 */
+	admin.post("/event-bus/replay", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = EventLogReplayRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid replay request", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.eventBus.replayEventLog(parsed.data);
+
+		if (result.status === "error") {
+			if (EventBusValidationError.is(result.error)) {
+				return c.json({ error: result.error.parseError }, 400);
+			}
+			logger.error("Admin: Failed to replay Event Log", {
+				subscriber: parsed.data.subscriber,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to replay Event Log" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * Query params schema for DLQ replay and delete; without a subscriber every failed subscriber is targeted
+	 */
+	const DLQItemQuerySchema = z.object({
+		subscriber: EventSubscriberSchema.optional(),
+	});
+
 	/**
 	 * POST /admin/dlq/:id/replay
 	 * Retry delivery of a specific failed event
 	 */
 	admin.post("/dlq/:id/replay", async (c) => {
 		const id = c.req.param("id");
+		const queryResult = DLQItemQuerySchema.safeParse({ subscriber: c.req.query("subscriber") });
+
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
 
-		const result = await dependencies.eventBus.replayDeadLetter(id);
+		const result = await dependencies.eventBus.replayDeadLetter(id, queryResult.data.subscriber);
 
 		if (result.status === "error") {
 			logger.error("Admin: Failed to replay DLQ item", { id, error: result.error.message });
@@ -175,6 +289,7 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 			return c.json({
 				message: "Event replayed successfully",
 				eventId: replayResult.eventId,
+				deliveries: replayResult.deliveries,
 			});
 		}
 
@@ -183,6 +298,7 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 				message: "Replay failed - event remains in DLQ",
 				eventId: replayResult.eventId,
 				error: replayResult.error,
+				deliveries: replayResult.deliveries,
 			},
 			200,
 		);
@@ -194,8 +310,13 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 	 */
 	admin.delete("/dlq/:id", async (c) => {
 		const id = c.req.param("id");
+		const queryResult = DLQItemQuerySchema.safeParse({ subscriber: c.req.query("subscriber") });
+
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
 
-		const result = await dependencies.eventBus.deleteDeadLetter(id);
+		const result = await dependencies.eventBus.deleteDeadLetter(id, queryResult.data.subscriber);
 
 		if (result.status === "error") {
 			logger.error("Admin: Failed to delete DLQ item", { id, error: result.error.message });
@@ -210,6 +331,83 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 		return c.json({ message: "Event deleted from DLQ", eventId: id });
 	});
 
+	/**
+	 * GET /admin/dlq/summary
+	 * Dead letters grouped by error reason, largest group first
+	 */
+	admin.get("/dlq/summary", async (c) => {
+		const result = await dependencies.eventBus.getDeadLetterSummary();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to summarize DLQ", { error: result.error.message });
+			return c.json({ error: "Failed to summarize DLQ" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * POST /admin/dlq/replay
+	 * Retry delivery of every dead letter matching a filter, one page per call;
+	 * only counts the matches unless the body sets `dryRun: false`
+	 */
+	admin.post("/dlq/replay", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = DeadLetterBulkReplayRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid DLQ replay request", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.eventBus.replayDeadLetters(parsed.data);
+
+		if (result.status === "error") {
+			if (EventBusValidationError.is(result.error)) {
+				return c.json({ error: result.error.parseError }, 400);
+			}
+			logger.error("Admin: Failed to bulk replay DLQ", { error: result.error.message });
+			return c.json({ error: "Failed to replay DLQ items" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * POST /admin/dlq/delete
+	 * Discard every dead letter matching a filter, or every one with `all: true`;
+	 * only counts the matches unless the body sets `dryRun: false`
+	 */
+	admin.post("/dlq/delete", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = DeadLetterBulkDeleteRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid DLQ delete request", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.eventBus.deleteDeadLetters(parsed.data);
+
+		if (result.status === "error") {
+			if (EventBusValidationError.is(result.error)) {
+				return c.json({ error: result.error.parseError }, 400);
+			}
+			logger.error("Admin: Failed to bulk delete DLQ", { error: result.error.message });
+			return c.json({ error: "Failed to delete DLQ items" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
 	// =============================================================================
 	// Achievement Routes
 	// =============================================================================
@@ -256,6 +454,143 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 		});
 	});
 
+	/**
+	 * Query params schema for GET /admin/achievements/moderation
+	 */
+	const AchievementModerationAuditQuerySchema = z.object({
+		achievementId: AchievementDefinitionIdSchema.optional(),
+		limit: z.coerce.number().int().positive().max(ACHIEVEMENT_MODERATION_AUDIT_LIMIT).default(50),
+	});
+
+	/** Body of a grant or revocation; the achievement comes from the path. */
+	const AchievementModerationBodySchema = AchievementModerationInputSchema.omit({
+		achievementId: true,
+		actor: true,
+	});
+
+	/**
+	 * POST /admin/achievements/:id/grant
+	 * Grant one Viewer an Achievement by hand. The unlock is announced in chat
+	 * and on the overlay like any other.
+	 *
+	 * Body: { viewer: string, reason: string }
+	 */
+	admin.post("/achievements/:id/grant", async (c) => {
+		const id = AchievementDefinitionIdSchema.safeParse(c.req.param("id"));
+		if (!id.success) {
+			return c.json({ error: "Invalid achievement id", details: id.error.issues }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = AchievementModerationBodySchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid achievement grant", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.grantAchievement({
+			...parsed.data,
+			achievementId: id.data,
+			actor: "admin",
+		});
+
+		if (result.status === "error") {
+			const failure = describeAchievementModerationError(result.error, id.data, parsed.data.viewer);
+			if (failure === null) {
+				logger.error("Admin: Failed to grant achievement", {
+					achievementId: id.data,
+					viewer: parsed.data.viewer,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to grant achievement" }, 500);
+			}
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
+		}
+
+		return c.json({ message: "Achievement granted", entry: result.value });
+	});
+
+	/**
+	 * POST /admin/achievements/:id/revoke
+	 * Revoke one Viewer's Achievement. Its progress starts over and it stops
+	 * counting toward the leaderboard and rarity.
+	 *
+	 * Body: { viewer: string, reason: string }
+	 */
+	admin.post("/achievements/:id/revoke", async (c) => {
+		const id = AchievementDefinitionIdSchema.safeParse(c.req.param("id"));
+		if (!id.success) {
+			return c.json({ error: "Invalid achievement id", details: id.error.issues }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = AchievementModerationBodySchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid achievement revocation", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.revokeAchievement({
+			...parsed.data,
+			achievementId: id.data,
+			actor: "admin",
+		});
+
+		if (result.status === "error") {
+			const failure = describeAchievementModerationError(result.error, id.data, parsed.data.viewer);
+			if (failure === null) {
+				logger.error("Admin: Failed to revoke achievement", {
+					achievementId: id.data,
+					viewer: parsed.data.viewer,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to revoke achievement" }, 500);
+			}
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
+		}
+
+		return c.json({ message: "Achievement revoked", entry: result.value });
+	});
+
+	/**
+	 * GET /admin/achievements/moderation
+	 * Audit of Achievements granted or revoked by hand, newest first
+	 *
+	 * Query params:
+	 * - achievementId: (optional) Only entries for this Achievement
+	 * - limit: (optional) Most entries to return, default 50
+	 */
+	admin.get("/achievements/moderation", async (c) => {
+		const queryResult = AchievementModerationAuditQuerySchema.safeParse({
+			achievementId: c.req.query("achievementId"),
+			limit: c.req.query("limit"),
+		});
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.getModerationAudit(queryResult.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to fetch achievement moderation audit", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to fetch achievement moderation audit" }, 500);
+		}
+
+		return c.json({ entries: result.value });
+	});
+
 	/**
 	 * GET /admin/achievements/debug/counts
 	 * Table-level counts for achievements state
@@ -294,27 +629,31 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 	});
 
 	/**
-	 * GET /admin/commands
-	 * List all persisted command definitions.
+	 * GET /admin/achievements/definitions
+	 * List every Achievement Definition, including disabled and retired ones.
 	 */
-	admin.get("/commands", async (c) => {
-		const result = await dependencies.chatCommands.getAllCommands();
+	admin.get("/achievements/definitions", async (c) => {
+		const result = await dependencies.achievements.listDefinitions();
 
 		if (result.status === "error") {
-			logger.error("Admin: Failed to list commands", {
+			logger.error("Admin: Failed to list achievement definitions", {
 				error: result.error.message,
 			});
-			return c.json({ error: "Failed to list commands" }, 500);
+			return c.json({ error: "Failed to list achievement definitions" }, 500);
 		}
 
-		return c.json(result.value);
+		return c.json({
+			definitions: result.value,
+			triggerEvents: AchievementTriggerEventSchema.options,
+			scopes: AchievementScopeSchema.options,
+		});
 	});
 
 	/**
-	 * POST /admin/commands
-	 * Create a new persisted command definition.
+	 * POST /admin/achievements/definitions
+	 * Create an Achievement Definition; progress starts with the next matching event.
 	 */
-	admin.post("/commands", async (c) => {
+	admin.post("/achievements/definitions", async (c) => {
 		let body: unknown;
 		try {
 			body = await c.req.json();
@@ -322,41 +661,39 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 			return c.json({ error: "Invalid JSON body" }, 400);
 		}
 
-		const parsed = CreateCommandInputSchema.safeParse(body);
+		const parsed = CreateAchievementDefinitionInputSchema.safeParse(body);
 		if (!parsed.success) {
-			return c.json({ error: "Invalid command payload", details: parsed.error.issues }, 400);
+			return c.json({ error: "Invalid achievement definition", details: parsed.error.issues }, 400);
 		}
 
-		const result = await dependencies.chatCommands.createCommand(parsed.data);
+		const result = await dependencies.achievements.createDefinition(parsed.data);
 
 		if (result.status === "error") {
-			switch (result.error._tag) {
-				case "CommandAlreadyExistsError":
-				case "CommandAliasConflictError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 409);
-				case "CommandInputParseError":
-				case "CommandInvalidDefinitionError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 400);
-				case "CommandsDbError":
-					logger.error("Admin: Failed to create command", {
-						command: parsed.data.name,
-						error_tag: result.error._tag,
-						error: result.error.message,
-					});
-					return c.json({ error: "Failed to create command" }, 500);
+			const failure = describeAchievementDefinitionError(result.error, parsed.data.id);
+			if (failure === null) {
+				logger.error("Admin: Failed to create achievement definition", {
+					achievementId: parsed.data.id,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to create achievement definition" }, 500);
 			}
-			return c.json({ error: "Failed to create command" }, 500);
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
 		}
 
 		return c.json(result.value, 201);
 	});
 
 	/**
-	 * PATCH /admin/commands/:name
-	 * Update a persisted command definition.
+	 * PATCH /admin/achievements/definitions/:id
+	 * Edit, disable, or re-enable an Achievement Definition. Viewers whose
+	 * progress meets a changed threshold unlock it immediately.
 	 */
-	admin.patch("/commands/:name", async (c) => {
-		const name = c.req.param("name");
+	admin.patch("/achievements/definitions/:id", async (c) => {
+		const id = AchievementDefinitionIdSchema.safeParse(c.req.param("id"));
+		if (!id.success) {
+			return c.json({ error: "Invalid achievement id", details: id.error.issues }, 400);
+		}
+
 		let body: unknown;
 		try {
 			body = await c.req.json();
@@ -364,76 +701,357 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 			return c.json({ error: "Invalid JSON body" }, 400);
 		}
 
-		const parsed = UpdateCommandInputSchema.safeParse(body);
+		const parsed = UpdateAchievementDefinitionInputSchema.safeParse(body);
 		if (!parsed.success) {
-			return c.json({ error: "Invalid command patch", details: parsed.error.issues }, 400);
+			return c.json({ error: "Invalid achievement patch", details: parsed.error.issues }, 400);
 		}
 
-		const result = await dependencies.chatCommands.updateCommand(name, parsed.data);
+		const result = await dependencies.achievements.updateDefinition(id.data, parsed.data);
 
 		if (result.status === "error") {
-			logger.error("Admin: Failed to update command", {
-				command: name,
-				error: result.error.message,
-			});
-
-			switch (result.error._tag) {
-				case "CommandNotFoundError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 404);
-				case "InvalidCommandNameError":
-				case "CommandInputParseError":
-				case "CommandInvalidDefinitionError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 400);
-				case "CommandAliasConflictError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 409);
-				case "CommandsDbError":
-					return c.json({ error: "Failed to update command" }, 500);
+			const failure = describeAchievementDefinitionError(result.error, id.data);
+			if (failure === null) {
+				logger.error("Admin: Failed to update achievement definition", {
+					achievementId: id.data,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to update achievement definition" }, 500);
 			}
-			return c.json({ error: "Failed to update command" }, 500);
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
 		}
 
 		return c.json(result.value);
 	});
 
 	/**
-	 * DELETE /admin/commands/:name
-	 * Delete a persisted command definition.
+	 * DELETE /admin/achievements/definitions/:id
+	 * Retire an Achievement Definition. Earned unlocks are kept and the id stays reserved.
 	 */
-	admin.delete("/commands/:name", async (c) => {
-		const name = c.req.param("name");
-		const result = await dependencies.chatCommands.deleteCommand(name);
+	admin.delete("/achievements/definitions/:id", async (c) => {
+		const id = AchievementDefinitionIdSchema.safeParse(c.req.param("id"));
+		if (!id.success) {
+			return c.json({ error: "Invalid achievement id", details: id.error.issues }, 400);
+		}
 
-		if (result.status === "error") {
-			logger.error("Admin: Failed to delete command", {
-				command: name,
-				error: result.error.message,
-			});
+		const result = await dependencies.achievements.retireDefinition(id.data);
 
-			switch (result.error._tag) {
-				case "CommandNotFoundError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 404);
-				case "InvalidCommandNameError":
-					return c.json({ error: result.error.message, code: result.error._tag }, 400);
-				case "CommandAliasConflictError":
-				case "CommandInvalidDefinitionError":
-				case "CommandsDbError":
-					return c.json({ error: "Failed to delete command" }, 500);
+		if (result.status === "error") {
+			const failure = describeAchievementDefinitionError(result.error, id.data);
+			if (failure === null) {
+				logger.error("Admin: Failed to retire achievement definition", {
+					achievementId: id.data,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to retire achievement definition" }, 500);
 			}
-			return c.json({ error: "Failed to delete command" }, 500);
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
 		}
 
-		return c.json({ message: "Command deleted", command: name });
+		return c.json({ message: "Achievement retired", definition: result.value });
 	});
 
 	/**
-	 * GET /admin/commands/debug/snapshot
-	 * Full command registry snapshot (definitions, values, and counters).
+	 * POST /admin/achievements/backfill
+	 * Start replaying Song Request history and Raffle Rolls into Achievement
+	 * progress. With `dryRun: true` the run only records the changes it would make.
 	 */
-	admin.get("/commands/debug/snapshot", async (c) => {
-		const result = await dependencies.chatCommands.getDebugSnapshot();
+	admin.post("/achievements/backfill", async (c) => {
+		// An empty body starts a real run with the defaults.
+		const text = await c.req.text();
+		let body: unknown = {};
+		if (text.trim() !== "") {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return c.json({ error: "Invalid JSON body" }, 400);
+			}
+		}
 
-		if (result.status === "error") {
-			logger.error("Admin: Failed to get commands debug snapshot", {
+		const parsed = StartAchievementBackfillInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid backfill request", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.startBackfill(parsed.data);
+
+		if (result.status === "error") {
+			if (result.error.remoteErrorTag === "AchievementBackfillInProgressError") {
+				return c.json(
+					{
+						error: "An achievement backfill is already running",
+						code: result.error.remoteErrorTag,
+					},
+					409,
+				);
+			}
+			logger.error("Admin: Failed to start achievement backfill", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to start achievement backfill" }, 500);
+		}
+
+		return c.json({ run: result.value }, 202);
+	});
+
+	/**
+	 * GET /admin/achievements/backfill
+	 * Progress of the latest Achievement Backfill run, including a dry run's changes.
+	 */
+	admin.get("/achievements/backfill", async (c) => {
+		const result = await dependencies.achievements.getBackfillRun();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to fetch achievement backfill", { error: result.error.message });
+			return c.json({ error: "Failed to fetch achievement backfill" }, 500);
+		}
+		if (result.value === null) {
+			return c.json({ error: "No achievement backfill has run" }, 404);
+		}
+
+		return c.json({ run: result.value });
+	});
+
+	/**
+	 * GET /admin/achievements/backfill/:runId
+	 * Progress of one Achievement Backfill run.
+	 */
+	admin.get("/achievements/backfill/:runId", async (c) => {
+		const runId = c.req.param("runId");
+		const result = await dependencies.achievements.getBackfillRun(runId);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to fetch achievement backfill", {
+				runId,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to fetch achievement backfill" }, 500);
+		}
+		if (result.value === null) {
+			return c.json({ error: `No achievement backfill run ${runId}` }, 404);
+		}
+
+		return c.json({ run: result.value });
+	});
+
+	/**
+	 * POST /admin/seasons
+	 * Create a Season. It rolls over automatically when it ends.
+	 */
+	admin.post("/seasons", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = CreateSeasonInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid season", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.createSeason(parsed.data);
+
+		if (result.status === "error") {
+			if (result.error.remoteErrorTag === "AchievementSeasonConflictError") {
+				return c.json(
+					{
+						error: `Season ${parsed.data.id} already exists or overlaps another season`,
+						code: result.error.remoteErrorTag,
+					},
+					409,
+				);
+			}
+			logger.error("Admin: Failed to create season", {
+				seasonId: parsed.data.id,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to create season" }, 500);
+		}
+
+		return c.json(result.value, 201);
+	});
+
+	/**
+	 * POST /admin/seasons/:id/rollover
+	 * Roll a Season over now: archive its standings and, if the Season asks
+	 * for it, reset season-scoped Achievement progress.
+	 */
+	admin.post("/seasons/:id/rollover", async (c) => {
+		const id = SeasonIdSchema.safeParse(c.req.param("id"));
+		if (!id.success) {
+			return c.json({ error: "Invalid season id", details: id.error.issues }, 400);
+		}
+
+		const result = await dependencies.achievements.rollOverSeason(id.data);
+
+		if (result.status === "error") {
+			switch (result.error.remoteErrorTag) {
+				case "AchievementSeasonNotFoundError":
+					return c.json(
+						{ error: `No season named ${id.data}`, code: result.error.remoteErrorTag },
+						404,
+					);
+				case "AchievementSeasonConflictError":
+					return c.json(
+						{
+							error: `Season ${id.data} is already archived or has not started`,
+							code: result.error.remoteErrorTag,
+						},
+						409,
+					);
+			}
+			logger.error("Admin: Failed to roll over season", {
+				seasonId: id.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to roll over season" }, 500);
+		}
+
+		return c.json({ message: "Season archived", season: result.value });
+	});
+
+	/**
+	 * GET /admin/commands
+	 * List all persisted command definitions.
+	 */
+	admin.get("/commands", async (c) => {
+		const result = await dependencies.chatCommands.getAllCommands();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to list commands", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to list commands" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * POST /admin/commands
+	 * Create a new persisted command definition.
+	 */
+	admin.post("/commands", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = CreateCommandInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid command payload", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.chatCommands.createCommand(parsed.data);
+
+		if (result.status === "error") {
+			switch (result.error._tag) {
+				case "CommandAlreadyExistsError":
+				case "CommandAliasConflictError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 409);
+				case "CommandInputParseError":
+				case "CommandInvalidDefinitionError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 400);
+				case "CommandsDbError":
+					logger.error("Admin: Failed to create command", {
+						command: parsed.data.name,
+						error_tag: result.error._tag,
+						error: result.error.message,
+					});
+					return c.json({ error: "Failed to create command" }, 500);
+			}
+			return c.json({ error: "Failed to create command" }, 500);
+		}
+
+		return c.json(result.value, 201);
+	});
+
+	/**
+	 * PATCH /admin/commands/:name
+	 * Update a persisted command definition.
+	 */
+	admin.patch("/commands/:name", async (c) => {
+		const name = c.req.param("name");
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = UpdateCommandInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid command patch", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.chatCommands.updateCommand(name, parsed.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to update command", {
+				command: name,
+				error: result.error.message,
+			});
+
+			switch (result.error._tag) {
+				case "CommandNotFoundError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 404);
+				case "InvalidCommandNameError":
+				case "CommandInputParseError":
+				case "CommandInvalidDefinitionError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 400);
+				case "CommandAliasConflictError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 409);
+				case "CommandsDbError":
+					return c.json({ error: "Failed to update command" }, 500);
+			}
+			return c.json({ error: "Failed to update command" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * DELETE /admin/commands/:name
+	 * Delete a persisted command definition.
+	 */
+	admin.delete("/commands/:name", async (c) => {
+		const name = c.req.param("name");
+		const result = await dependencies.chatCommands.deleteCommand(name);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to delete command", {
+				command: name,
+				error: result.error.message,
+			});
+
+			switch (result.error._tag) {
+				case "CommandNotFoundError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 404);
+				case "InvalidCommandNameError":
+					return c.json({ error: result.error.message, code: result.error._tag }, 400);
+				case "CommandAliasConflictError":
+				case "CommandInvalidDefinitionError":
+				case "CommandsDbError":
+					return c.json({ error: "Failed to delete command" }, 500);
+			}
+			return c.json({ error: "Failed to delete command" }, 500);
+		}
+
+		return c.json({ message: "Command deleted", command: name });
+	});
+
+	/**
+	 * GET /admin/commands/debug/snapshot
+	 * Full command registry snapshot (definitions, values, and counters).
+	 */
+	admin.get("/commands/debug/snapshot", async (c) => {
+		const result = await dependencies.chatCommands.getDebugSnapshot();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to get commands debug snapshot", {
 				error: result.error.message,
 			});
 			return c.json({ error: "Failed to fetch commands debug snapshot" }, 500);
@@ -442,6 +1060,481 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 		return c.json(result.value);
 	});
 
+	// =============================================================================
+	// Song Request Policy Routes
+	// =============================================================================
+
+	/**
+	 * GET /admin/song-request-policies
+	 * List the effective quota and cooldown for each Viewer role.
+	 */
+	admin.get("/song-request-policies", async (c) => {
+		const result = await dependencies.songQueue.getSongRequestPolicies();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to list song request policies", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to list song request policies" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * PUT /admin/song-request-policies/:permission
+	 * Replace one Viewer role's quota and cooldown (everyone, vip, or moderator).
+	 */
+	admin.put("/song-request-policies/:permission", async (c) => {
+		const permission = SongRequestPolicyPermissionSchema.safeParse(c.req.param("permission"));
+		if (!permission.success) {
+			return c.json({ error: "Permission must be one of everyone, vip, or moderator" }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = UpdateSongRequestPolicyInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid song request policy", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.songQueue.updateSongRequestPolicy({
+			permission: permission.data,
+			...parsed.data,
+		});
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to update song request policy", {
+				permission: permission.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to update song request policy" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	// =============================================================================
+	// Track Content Filter Routes
+	// =============================================================================
+
+	/**
+	 * GET /admin/content-filter
+	 * Read the Track Content Rules and every Track Blocklist entry.
+	 */
+	admin.get("/content-filter", async (c) => {
+		const result = await dependencies.songQueue.getTrackContentFilter();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to read track content filter", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to read track content filter" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * PUT /admin/content-filter/rules
+	 * Replace the explicit-track ban and maximum duration (null for no limit).
+	 */
+	admin.put("/content-filter/rules", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = UpdateTrackContentRulesInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid track content rules", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.songQueue.updateTrackContentRules(parsed.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to update track content rules", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to update track content rules" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * POST /admin/content-filter/blocklist
+	 * Ban a Spotify track or artist by ID, with an optional moderator-facing label.
+	 */
+	admin.post("/content-filter/blocklist", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = AddTrackBlocklistEntryInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid blocklist entry", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.songQueue.addTrackBlocklistEntry(parsed.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to add blocklist entry", {
+				kind: parsed.data.kind,
+				spotify_id: parsed.data.spotifyId,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to add blocklist entry" }, 500);
+		}
+
+		return c.json(result.value, 201);
+	});
+
+	/**
+	 * DELETE /admin/content-filter/blocklist/:kind/:spotifyId
+	 * Lift one track or artist ban.
+	 */
+	admin.delete("/content-filter/blocklist/:kind/:spotifyId", async (c) => {
+		const key = TrackBlocklistKeySchema.safeParse({
+			kind: c.req.param("kind"),
+			spotifyId: c.req.param("spotifyId"),
+		});
+		if (!key.success) {
+			return c.json({ error: "Invalid blocklist entry", details: key.error.issues }, 400);
+		}
+
+		const result = await dependencies.songQueue.removeTrackBlocklistEntry(key.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to remove blocklist entry", {
+				kind: key.data.kind,
+				spotify_id: key.data.spotifyId,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to remove blocklist entry" }, 500);
+		}
+
+		if (!result.value) {
+			return c.json(
+				{ error: `No ${key.data.kind} blocklist entry for ${key.data.spotifyId}` },
+				404,
+			);
+		}
+
+		return c.json({ message: "Blocklist entry removed", ...key.data });
+	});
+
+	// =============================================================================
+	// Overlay Theme Routes
+	// =============================================================================
+
+	/**
+	 * GET /admin/overlay-themes
+	 * List stored presets alongside the built-in palettes and fonts they build on.
+	 */
+	admin.get("/overlay-themes", async (c) => {
+		const result = await dependencies.overlayThemes.listThemePresets();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to list overlay theme presets", {
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to list overlay theme presets" }, 500);
+		}
+
+		return c.json({
+			presets: result.value,
+			palettes: OVERLAY_PALETTES,
+			fonts: Object.keys(OVERLAY_FONT_STACKS),
+		});
+	});
+
+	/**
+	 * PUT /admin/overlay-themes/:name
+	 * Create or replace a preset: a palette, a font, and optional color overrides.
+	 */
+	admin.put("/overlay-themes/:name", async (c) => {
+		const name = OverlayThemePresetNameSchema.safeParse(c.req.param("name"));
+		if (!name.success) {
+			return c.json({ error: "Invalid preset name", details: name.error.issues }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = OverlayThemeSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid overlay theme", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.overlayThemes.saveThemePreset(name.data, parsed.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to save overlay theme preset", {
+				preset: name.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to save overlay theme preset" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * DELETE /admin/overlay-themes/:name
+	 * Delete a preset; overlays that select it respond 404 until it is recreated.
+	 */
+	admin.delete("/overlay-themes/:name", async (c) => {
+		const name = OverlayThemePresetNameSchema.safeParse(c.req.param("name"));
+		if (!name.success) {
+			return c.json({ error: "Invalid preset name", details: name.error.issues }, 400);
+		}
+
+		const result = await dependencies.overlayThemes.deleteThemePreset(name.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to delete overlay theme preset", {
+				preset: name.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to delete overlay theme preset" }, 500);
+		}
+
+		if (!result.value) {
+			return c.json({ error: `No overlay theme preset named ${name.data}` }, 404);
+		}
+
+		return c.json({ message: "Overlay theme preset deleted", name: name.data });
+	});
+
+	// =============================================================================
+	// Channel Point Reward Routes
+	// =============================================================================
+
+	/**
+	 * GET /admin/rewards
+	 * List Reward Bindings and the unbound rewards viewers have redeemed.
+	 */
+	admin.get("/rewards", async (c) => {
+		const [bindingsResult, unrecognizedResult] = await Promise.all([
+			dependencies.rewards.listRewards(),
+			dependencies.rewards.listUnrecognizedRewards(),
+		]);
+
+		if (bindingsResult.status === "error") {
+			logger.error("Admin: Failed to list reward bindings", {
+				error: bindingsResult.error.message,
+			});
+			return c.json({ error: "Failed to list rewards" }, 500);
+		}
+
+		if (unrecognizedResult.status === "error") {
+			logger.error("Admin: Failed to list unrecognized rewards", {
+				error: unrecognizedResult.error.message,
+			});
+			return c.json({ error: "Failed to list rewards" }, 500);
+		}
+
+		return c.json({
+			rewards: bindingsResult.value,
+			unrecognized: unrecognizedResult.value,
+			handlerKinds: REWARD_HANDLER_KINDS,
+		});
+	});
+
+	/**
+	 * PUT /admin/rewards/:rewardId
+	 * Bind a Twitch custom reward to a Reward Handler, replacing any existing binding.
+	 */
+	admin.put("/rewards/:rewardId", async (c) => {
+		const rewardId = ChannelPointRewardIdSchema.safeParse(c.req.param("rewardId"));
+		if (!rewardId.success) {
+			return c.json({ error: "Invalid reward id", details: rewardId.error.issues }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = SaveRewardBindingInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid reward binding", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.rewards.saveReward(rewardId.data, parsed.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to save reward binding", {
+				rewardId: rewardId.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to save reward binding" }, 500);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * DELETE /admin/rewards/:rewardId
+	 * Unbind a reward. The configured song request and raffle rewards fall back
+	 * to their sagas; any other reward becomes unrecognized again.
+	 */
+	admin.delete("/rewards/:rewardId", async (c) => {
+		const rewardId = ChannelPointRewardIdSchema.safeParse(c.req.param("rewardId"));
+		if (!rewardId.success) {
+			return c.json({ error: "Invalid reward id", details: rewardId.error.issues }, 400);
+		}
+
+		const result = await dependencies.rewards.deleteReward(rewardId.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to delete reward binding", {
+				rewardId: rewardId.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to delete reward binding" }, 500);
+		}
+
+		if (!result.value) {
+			return c.json({ error: `No binding for reward ${rewardId.data}` }, 404);
+		}
+
+		return c.json({ message: "Reward binding deleted", rewardId: rewardId.data });
+	});
+
+	// =============================================================================
+	// Outbound Webhook Routes
+	// =============================================================================
+
+	/**
+	 * GET /admin/webhooks
+	 * List Outbound Webhooks. Secrets are never returned.
+	 */
+	admin.get("/webhooks", async (c) => {
+		const result = await dependencies.webhooks.listWebhooks();
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to list outbound webhooks", { error: result.error.message });
+			return c.json({ error: "Failed to list outbound webhooks" }, 500);
+		}
+
+		return c.json({ webhooks: result.value });
+	});
+
+	/**
+	 * POST /admin/webhooks
+	 * Register an Outbound Webhook for a set of topics.
+	 */
+	admin.post("/webhooks", async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = CreateOutboundWebhookInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid outbound webhook", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.webhooks.createWebhook(parsed.data);
+
+		if (result.status === "error") {
+			const failure = describeOutboundWebhookError(result.error, null);
+			if (failure === null) {
+				logger.error("Admin: Failed to create outbound webhook", { error: result.error.message });
+				return c.json({ error: "Failed to create outbound webhook" }, 500);
+			}
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
+		}
+
+		return c.json(result.value, 201);
+	});
+
+	/**
+	 * PATCH /admin/webhooks/:webhookId
+	 * Edit an Outbound Webhook's name, URL, secret, format, topics, or enabled flag.
+	 */
+	admin.patch("/webhooks/:webhookId", async (c) => {
+		const webhookId = OutboundWebhookIdSchema.safeParse(c.req.param("webhookId"));
+		if (!webhookId.success) {
+			return c.json({ error: "Invalid webhook id", details: webhookId.error.issues }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+
+		const parsed = UpdateOutboundWebhookInputSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: "Invalid outbound webhook patch", details: parsed.error.issues }, 400);
+		}
+
+		const result = await dependencies.webhooks.updateWebhook(webhookId.data, parsed.data);
+
+		if (result.status === "error") {
+			const failure = describeOutboundWebhookError(result.error, webhookId.data);
+			if (failure === null) {
+				logger.error("Admin: Failed to update outbound webhook", {
+					webhookId: webhookId.data,
+					error: result.error.message,
+				});
+				return c.json({ error: "Failed to update outbound webhook" }, 500);
+			}
+			return c.json({ error: failure.error, code: failure.code }, failure.status);
+		}
+
+		return c.json(result.value);
+	});
+
+	/**
+	 * DELETE /admin/webhooks/:webhookId
+	 * Delete an Outbound Webhook and its delivery receipts.
+	 */
+	admin.delete("/webhooks/:webhookId", async (c) => {
+		const webhookId = OutboundWebhookIdSchema.safeParse(c.req.param("webhookId"));
+		if (!webhookId.success) {
+			return c.json({ error: "Invalid webhook id", details: webhookId.error.issues }, 400);
+		}
+
+		const result = await dependencies.webhooks.deleteWebhook(webhookId.data);
+
+		if (result.status === "error") {
+			logger.error("Admin: Failed to delete outbound webhook", {
+				webhookId: webhookId.data,
+				error: result.error.message,
+			});
+			return c.json({ error: "Failed to delete outbound webhook" }, 500);
+		}
+
+		if (!result.value) {
+			return c.json({ error: `No outbound webhook ${webhookId.data}` }, 404);
+		}
+
+		return c.json({ message: "Outbound webhook deleted", webhookId: webhookId.data });
+	});
+
 	/**
 	 * GET /admin/debug/stats/:user
 	 * Debug what !stats <user> would resolve to.
@@ -544,3 +1637,82 @@ export function createAdminRoutes(dependencies: AdminRouteDependencies): Hono<Ap
 
 	return admin;
 }
+
+/** Describes a failed Achievement Definition change by its remote error, or null for a server failure. */
+function describeAchievementDefinitionError(
+	error: ApplicationStateError,
+	achievementId: string,
+): { status: 400 | 404 | 409; error: string; code: string } | null {
+	switch (error.remoteErrorTag) {
+		case "AchievementDefinitionValidationError":
+			return {
+				status: 400,
+				error: `Achievement ${achievementId} would not be supported by the achievement rules`,
+				code: error.remoteErrorTag,
+			};
+		case "AchievementNotFoundError":
+			return {
+				status: 404,
+				error: `No achievement named ${achievementId}`,
+				code: error.remoteErrorTag,
+			};
+		case "AchievementDefinitionConflictError":
+			return {
+				status: 409,
+				error: `Achievement ${achievementId} already exists or is retired`,
+				code: error.remoteErrorTag,
+			};
+		default:
+			return null;
+	}
+}
+
+function describeAchievementModerationError(
+	error: ApplicationStateError,
+	achievementId: string,
+	viewer: string,
+): { status: 404 | 409; error: string; code: string } | null {
+	switch (error.remoteErrorTag) {
+		case "AchievementNotFoundError":
+			return {
+				status: 404,
+				error: `No achievement named ${achievementId}`,
+				code: error.remoteErrorTag,
+			};
+		case "AchievementViewerNotFoundError":
+			return { status: 404, error: `No viewer named ${viewer}`, code: error.remoteErrorTag };
+		case "AchievementDefinitionConflictError":
+			return {
+				status: 409,
+				error: `Achievement ${achievementId} is retired`,
+				code: error.remoteErrorTag,
+			};
+		case "AchievementModerationConflictError":
+			return {
+				status: 409,
+				error: `${viewer} already has ${achievementId}, or has not unlocked it`,
+				code: error.remoteErrorTag,
+			};
+		default:
+			return null;
+	}
+}
+
+/** Describes a rejected Outbound Webhook change by its remote error, or null for a server failure. */
+function describeOutboundWebhookError(
+	error: OutboundWebhookStoreError,
+	webhookId: string | null,
+): { status: 400 | 404; error: string; code: string } | null {
+	switch (error.remoteErrorTag) {
+		case "OutboundWebhookValidationError":
+			return { status: 400, error: "Invalid outbound webhook", code: error.remoteErrorTag };
+		case "OutboundWebhookNotFoundError":
+			return {
+				status: 404,
+				error: `No outbound webhook ${webhookId ?? ""}`.trim(),
+				code: error.remoteErrorTag,
+			};
+		default:
+			return null;
+	}
+}
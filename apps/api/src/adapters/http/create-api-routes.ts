@@ -8,6 +8,7 @@ import { Hono } from "hono";
 import { z } from "zod";
 
 import { SongQueueUnavailableError } from "../../capabilities/song-queue";
+import { SeasonIdSchema } from "../../domain/season";
 import { constantTimeEquals } from "../../lib/crypto";
 import { readHttpQueryParameters } from "../../lib/http-query-parameters";
 import { type AppRouteEnv, getRequestLogger } from "../../lib/request-context";
@@ -38,6 +39,7 @@ const RaffleLeaderboardQuerySchema = z
 	})
 	.strict();
 const AchievementLeaderboardQuerySchema = z.object({ limit: BoundedLimitSchema }).strict();
+const SeasonLeaderboardQuerySchema = z.object({ limit: BoundedLimitSchema }).strict();
 const SongRequestHistoryQuerySchema = z.object({ limit: BoundedLimitSchema }).strict();
 const TwitchStreamStartedAtSchema = z.iso.datetime({ offset: true });
 
@@ -261,7 +263,7 @@ export function createApiRoutes(dependencies: ApiRouteDependencies): Hono<AppRou
 
 	/**
 	 * GET /api/achievements/definitions
-	 * All achievement definitions
+	 * Active achievement definitions with unlock counts, rarity, and first/latest unlockers
 	 */
 	api.get("/achievements/definitions", async (c) => {
 		const routeLogger = getRequestLogger(c).child({
@@ -398,6 +400,84 @@ export function createApiRoutes(dependencies: ApiRouteDependencies): Hono<AppRou
 		return c.json(result.value);
 	});
 
+	// =============================================================================
+	// Season Routes
+	// =============================================================================
+
+	/**
+	 * GET /api/seasons
+	 * Every Season with its dates and status, newest first
+	 */
+	api.get("/seasons", async (c) => {
+		const routeLogger = getRequestLogger(c).child({ route: "/api/seasons", component: "route" });
+		routeLogger.info("Loading seasons", { event: "api.seasons.started" });
+		const result = await dependencies.achievements.listSeasons();
+
+		if (result.status === "error") {
+			routeLogger.error("Failed to get seasons", {
+				event: "api.seasons.failed",
+				...result.error,
+			});
+			return c.json({ error: "Failed to fetch seasons" }, 500);
+		}
+
+		routeLogger.info("Loaded seasons", {
+			event: "api.seasons.succeeded",
+			count: result.value.length,
+		});
+		return c.json(result.value);
+	});
+
+	/**
+	 * GET /api/seasons/:id/leaderboard?limit=10
+	 * One Season's Achievement and Raffle standings: archived after rollover, live before
+	 */
+	api.get("/seasons/:id/leaderboard", async (c) => {
+		const routeLogger = getRequestLogger(c).child({
+			route: "/api/seasons/:id/leaderboard",
+			component: "route",
+		});
+		const seasonId = SeasonIdSchema.safeParse(c.req.param("id"));
+		if (!seasonId.success) {
+			return c.json({ error: "Invalid season id", details: seasonId.error.issues }, 400);
+		}
+		const queryResult = SeasonLeaderboardQuerySchema.safeParse(readHttpQueryParameters(c.req.url));
+		if (!queryResult.success) {
+			routeLogger.warn("Season leaderboard query validation failed", {
+				event: "api.seasons.leaderboard.validation_failed",
+			});
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+		const { limit } = queryResult.data;
+		routeLogger.info("Loading season leaderboard", {
+			event: "api.seasons.leaderboard.started",
+			season_id: seasonId.data,
+			limit,
+		});
+		const result = await dependencies.achievements.getSeasonLeaderboard(seasonId.data, { limit });
+
+		if (result.status === "error") {
+			routeLogger.error("Failed to get season leaderboard", {
+				event: "api.seasons.leaderboard.failed",
+				season_id: seasonId.data,
+				...result.error,
+			});
+			return c.json({ error: "Failed to fetch season leaderboard" }, 500);
+		}
+		if (result.value === null) {
+			return c.json({ error: "Season not found" }, 404);
+		}
+
+		routeLogger.info("Loaded season leaderboard", {
+			event: "api.seasons.leaderboard.succeeded",
+			season_id: seasonId.data,
+			status: result.value.season.status,
+			achievement_count: result.value.achievements.length,
+			raffle_count: result.value.raffle.length,
+		});
+		return c.json(result.value);
+	});
+
 	// =============================================================================
 	// Debug Routes
 	// =============================================================================
@@ -39,6 +39,8 @@ const TWITCH_SCOPES = [
 	"user:read:chat",
 	"user:write:chat",
 	"moderator:manage:shoutouts",
+	"moderation:read",
+	"channel:read:vips",
 ].join(" ");
 
 /** Exact dependencies required by Spotify and Twitch OAuth setup routes. */
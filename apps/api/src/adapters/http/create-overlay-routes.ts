@@ -2,383 +2,1291 @@
  * Overlay routes for OBS/streaming overlays
  *
  * Provides HTML pages with transparent backgrounds for use in streaming software.
+ * Every page accepts `?theme=` naming a built-in palette or a stored Overlay
+ * Theme preset. Acknowledging a shown alert requires the overlay or
+ * administrator secret as a bearer token; the alerts page forwards its
+ * `?token=` for this.
  */
 
 import { Hono } from "hono";
-import { html } from "hono/html";
+import { html, raw } from "hono/html";
+import { z } from "zod";
 
+import { OverlayEventIdSchema, OverlayFeedConnectQuerySchema } from "../../domain/overlay-event";
+import {
+	DEFAULT_OVERLAY_THEME,
+	OverlayPaletteNameSchema,
+	OverlayThemeColorRoleSchema,
+	OverlayThemeSelectionSchema,
+	resolveOverlayTheme,
+	type OverlayThemeSelection,
+	type ResolvedOverlayTheme,
+} from "../../domain/overlay-theme";
+import { constantTimeEquals } from "../../lib/crypto";
+import { readHttpQueryParameters } from "../../lib/http-query-parameters";
 import { type AppRouteEnv } from "../../lib/request-context";
 
+import type { OverlayAlertQueue, OverlayFeedConnections } from "../../capabilities/overlay-feed";
+import type { OverlayThemeReader } from "../../capabilities/overlay-themes";
 import type { Logger } from "../../lib/logging";
+import type { RedactedValue } from "../../lib/redacted";
+import type { Context } from "hono";
 
-/** Exact dependencies required by the Now Playing overlay route. */
-export type OverlayRouteDependencies = Readonly<{ logger: Logger }>;
+/** Exact dependencies required by the overlay routes. */
+export type OverlayRouteDependencies = Readonly<{
+	logger: Logger;
+	overlayFeed: OverlayFeedConnections;
+	alerts: OverlayAlertQueue;
+	themes: OverlayThemeReader;
+	overlaySecret: RedactedValue<string>;
+	administratorSecret: RedactedValue<string>;
+}>;
 
-/** Creates the OBS Now Playing overlay route. */
+const ThemedOverlayQuerySchema = z
+	.object({ theme: OverlayThemeSelectionSchema.optional() })
+	.strict();
+const AlertsOverlayQuerySchema = z
+	.object({ theme: OverlayThemeSelectionSchema.optional(), token: z.string().optional() })
+	.strict();
+const QueueOverlayQuerySchema = z
+	.object({
+		theme: OverlayThemeSelectionSchema.optional(),
+		count: z.coerce.number().int().min(1).max(10).default(5),
+		orientation: z.enum(["vertical", "horizontal"]).default("vertical"),
+		compact: z.stringbool().default(false),
+	})
+	.strict();
+
+/**
+ * Writes a resolved theme as `--overlay-*` custom properties. Theme colors and
+ * font stacks are validated or allowlisted, so they are emitted unescaped.
+ */
+function renderThemeVariables(theme: ResolvedOverlayTheme) {
+	const colors = OverlayThemeColorRoleSchema.options.map(
+		(role) => `--overlay-${role}: ${theme.colors[role]};`,
+	);
+	return raw(`:root { ${colors.join(" ")} --overlay-font: ${theme.fontFamily}; }`);
+}
+
+/** Creates the OBS overlay pages and their live event stream. */
 export function createOverlayRoutes(
 	dependencies: OverlayRouteDependencies,
 ): Hono<AppRouteEnv<object>> {
 	const overlay = new Hono<AppRouteEnv<object>>();
 
 	/**
-	 * GET /overlay/now-playing
+	 * Resolve `?theme=` to a built-in palette or a stored preset. Returns the
+	 * error response to send when the theme cannot be loaded.
+	 */
+	async function loadOverlayTheme(
+		c: Context<AppRouteEnv<object>>,
+		route: string,
+		selection: OverlayThemeSelection | undefined,
+	): Promise<{ theme: ResolvedOverlayTheme } | { response: Response }> {
+		if (selection === undefined) {
+			return { theme: resolveOverlayTheme(DEFAULT_OVERLAY_THEME) };
+		}
+		const palette = OverlayPaletteNameSchema.safeParse(selection);
+		if (palette.success) {
+			return { theme: resolveOverlayTheme({ ...DEFAULT_OVERLAY_THEME, palette: palette.data }) };
+		}
+
+		const result = await dependencies.themes.getThemePreset(selection);
+		if (result.status === "error") {
+			dependencies.logger.error("Failed to load overlay theme preset", {
+				event: "overlay.theme.failed",
+				component: "route",
+				route,
+				theme: selection,
+				...result.error,
+			});
+			return { response: c.json({ error: "Service temporarily unavailable" }, 503) };
+		}
+		if (result.value === null) {
+			return { response: c.json({ error: `Unknown overlay theme: ${selection}` }, 404) };
+		}
+		return { theme: resolveOverlayTheme(result.value.theme) };
+	}
+
+	/**
+	 * GET /overlay/events
+	 * WebSocket stream of Overlay Feed events. Pass `?cursor=` with the last
+	 * cursor received to replay anything missed while disconnected.
+	 */
+	overlay.get("/events", async (c) => {
+		if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+			return c.json({ error: "Expected WebSocket upgrade" }, 426);
+		}
+		const queryResult = OverlayFeedConnectQuerySchema.safeParse(readHttpQueryParameters(c.req.url));
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+		dependencies.logger.info("Connecting overlay to event feed", {
+			event: "overlay.events.connecting",
+			component: "route",
+			route: "/overlay/events",
+			resumed: queryResult.data.cursor !== undefined,
+		});
+		return dependencies.overlayFeed.connect(c.req.raw);
+	});
+
+	/**
+	 * GET /overlay/alerts/next
+	 * Alert at the head of the display queue, or null when nothing is waiting
+	 */
+	overlay.get("/alerts/next", async (c) => {
+		const result = await dependencies.alerts.nextAlert();
+		if (result.status === "error") {
+			dependencies.logger.error("Failed to read next overlay alert", {
+				event: "overlay.alerts.next.failed",
+				component: "route",
+				route: "/overlay/alerts/next",
+				...result.error,
+			});
+			return c.json({ error: "Service temporarily unavailable" }, 503);
+		}
+		return c.json({ alert: result.value });
+	});
+
+	/**
+	 * POST /overlay/alerts/:alertId/shown
+	 * Removes a displayed alert from the queue so it is never replayed.
+	 * Requires Authorization: Bearer <OVERLAY_SECRET or ADMIN_SECRET>.
+	 */
+	overlay.post("/alerts/:alertId/shown", async (c) => {
+		const [scheme, token] = c.req.header("Authorization")?.split(" ") ?? [];
+		if (scheme !== "Bearer" || !token) {
+			dependencies.logger.warn("Overlay alert acknowledgement unauthenticated", {
+				event: "overlay.alerts.mark_shown.unauthenticated",
+				component: "route",
+				route: "/overlay/alerts/:alertId/shown",
+			});
+			return c.json({ error: "Missing or malformed Authorization header" }, 401);
+		}
+		const authorized = [dependencies.overlaySecret, dependencies.administratorSecret].some(
+			(secret) => {
+				const expected = secret.unsafeUnwrapForFinalIo();
+				return expected !== "" && constantTimeEquals(token, expected);
+			},
+		);
+		if (!authorized) {
+			dependencies.logger.warn("Overlay alert acknowledgement denied", {
+				event: "overlay.alerts.mark_shown.denied",
+				component: "route",
+				route: "/overlay/alerts/:alertId/shown",
+			});
+			return c.json({ error: "Invalid token" }, 403);
+		}
+
+		const alertIdResult = OverlayEventIdSchema.safeParse(c.req.param("alertId"));
+		if (!alertIdResult.success) {
+			return c.json({ error: "Invalid alert id", details: alertIdResult.error.issues }, 400);
+		}
+		const result = await dependencies.alerts.markAlertShown(alertIdResult.data);
+		if (result.status === "error") {
+			dependencies.logger.error("Failed to mark overlay alert shown", {
+				event: "overlay.alerts.mark_shown.failed",
+				component: "route",
+				route: "/overlay/alerts/:alertId/shown",
+				...result.error,
+			});
+			return c.json({ error: "Service temporarily unavailable" }, 503);
+		}
+		if (!result.value) {
+			return c.json({ error: "Alert not found" }, 404);
+		}
+		return c.body(null, 204);
+	});
+
+	/**
+	 * GET /overlay/alerts?theme=catppuccin-macchiato&token=<OVERLAY_SECRET>
+	 * HTML overlay that plays achievement unlocks and keyboard raffle wins as
+	 * toasts, one at a time. Alert events on /overlay/events wake the queue
+	 * immediately; it is also checked every 15 seconds as a fallback. The page
+	 * reads `token` from its own URL to acknowledge shown alerts.
+	 */
+	overlay.get("/alerts", async (c) => {
+		const queryResult = AlertsOverlayQuerySchema.safeParse(readHttpQueryParameters(c.req.url));
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+		const themeResult = await loadOverlayTheme(c, "/overlay/alerts", queryResult.data.theme);
+		if ("response" in themeResult) return themeResult.response;
+		const { theme } = themeResult;
+		dependencies.logger.info("Served alerts overlay page", {
+			event: "overlay.alerts_page.served",
+			component: "route",
+			route: "/overlay/alerts",
+		});
+		const overlayHtml = html`
+			<!doctype html>
+			<html lang="en">
+				<head>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<title>Alerts</title>
+					<style>
+						${renderThemeVariables(theme)} * {
+							margin: 0;
+							padding: 0;
+							box-sizing: border-box;
+						}
+
+						body {
+							background: transparent;
+							font-family: var(--overlay-font);
+							color: var(--overlay-text);
+							-webkit-font-smoothing: antialiased;
+							-moz-osx-font-smoothing: grayscale;
+							overflow: hidden;
+						}
+
+						.toast {
+							width: 420px;
+							margin: 20px auto 0;
+							background: var(--overlay-base);
+							border-left: 4px solid var(--overlay-highlight);
+							border-radius: 6px;
+							padding: 16px 20px;
+							box-shadow:
+								0 10px 15px -3px rgba(0, 0, 0, 0.1),
+								0 4px 6px -4px rgba(0, 0, 0, 0.1);
+							display: flex;
+							align-items: center;
+							gap: 16px;
+							opacity: 0;
+							transform: translateY(-24px) scale(0.96);
+							transition:
+								opacity 300ms ease,
+								transform 300ms ease;
+						}
+
+						.toast.visible {
+							opacity: 1;
+							transform: translateY(0) scale(1);
+						}
+
+						.toast.raffle {
+							border-left-color: var(--overlay-success);
+						}
+
+						.toast-icon {
+							width: 56px;
+							height: 56px;
+							flex-shrink: 0;
+							border-radius: 50%;
+							background: var(--overlay-surface);
+							display: flex;
+							align-items: center;
+							justify-content: center;
+							font-size: 30px;
+						}
+
+						.toast.visible .toast-icon {
+							animation: pop 600ms ease-out;
+						}
+
+						@keyframes pop {
+							0% {
+								transform: scale(0.4);
+							}
+							60% {
+								transform: scale(1.15);
+							}
+							100% {
+								transform: scale(1);
+							}
+						}
+
+						.toast-body {
+							min-width: 0;
+							display: flex;
+							flex-direction: column;
+							gap: 2px;
+						}
+
+						.toast-heading {
+							font-size: 11px;
+							font-weight: 600;
+							text-transform: uppercase;
+							letter-spacing: 0.05em;
+							color: var(--overlay-highlight);
+						}
+
+						.toast.raffle .toast-heading {
+							color: var(--overlay-success);
+						}
+
+						.toast-title {
+							font-size: 16px;
+							font-weight: 700;
+							white-space: nowrap;
+							overflow: hidden;
+							text-overflow: ellipsis;
+						}
+
+						.toast-detail {
+							font-size: 12px;
+							color: var(--overlay-subtext);
+						}
+
+						.toast-viewer {
+							color: var(--overlay-accent);
+						}
+					</style>
+				</head>
+				<body>
+					<div class="toast" id="toast" aria-live="polite">
+						<div class="toast-icon" id="toast-icon"></div>
+						<div class="toast-body">
+							<span class="toast-heading" id="toast-heading"></span>
+							<span class="toast-title" id="toast-title"></span>
+							<span class="toast-detail">
+								<span class="toast-viewer" id="toast-viewer"></span>
+								<span id="toast-detail"></span>
+							</span>
+						</div>
+					</div>
+
+					<script>
+						const ALERTS_PATH = "/overlay/alerts/";
+						const ALERTS_TOKEN = new URLSearchParams(location.search).get("token") ?? "";
+						const EVENTS_PATH = "/overlay/events";
+						const ALERT_EVENT_TYPES = ["achievement_unlocked", "raffle_result"];
+						const TOAST_DURATION_MS = 6000;
+						const TOAST_TRANSITION_MS = 300;
+						const TOAST_GAP_MS = 750;
+						const IDLE_CHECK_INTERVAL_MS = 15000;
+						const REQUEST_TIMEOUT_MS = 4000;
+						const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+						let draining = false;
+						let drainRequested = false;
+						let reconnectAttempt = 0;
+
+						function sleep(ms) {
+							return new Promise((resolve) => setTimeout(resolve, ms));
+						}
+
+						async function request(url, init) {
+							const controller = new AbortController();
+							const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+							try {
+								return await fetch(url, { ...init, signal: controller.signal });
+							} finally {
+								clearTimeout(timeout);
+							}
+						}
+
+						async function fetchNextAlert() {
+							try {
+								const response = await request(ALERTS_PATH + "next");
+								if (!response.ok) return null;
+								const body = await response.json();
+								const alert = body && typeof body === "object" ? body.alert : null;
+								if (!alert || typeof alert.id !== "string" || typeof alert.userDisplayName !== "string") {
+									return null;
+								}
+								return alert;
+							} catch (error) {
+								console.error("Overlay alert request failed", error);
+								return null;
+							}
+						}
+
+						async function markAlertShown(alert) {
+							try {
+								const response = await request(ALERTS_PATH + encodeURIComponent(alert.id) + "/shown", {
+									method: "POST",
+									headers: { Authorization: "Bearer " + ALERTS_TOKEN },
+								});
+								if (response.status === 401 || response.status === 403) {
+									console.error("Overlay alert acknowledgement rejected; check the overlay ?token=");
+								}
+								return response.ok || response.status === 404;
+							} catch (error) {
+								console.error("Overlay alert acknowledgement failed", error);
+								return false;
+							}
+						}
+
+						function formatAchievementIcon(icon) {
+							// Definitions store icons as hyphen-separated hex code points, e.g. "1f3b5".
+							if (!/^[0-9a-f]{2,6}(-[0-9a-f]{2,6})*$/i.test(icon)) return icon;
+							return String.fromCodePoint(...icon.split("-").map((codePoint) => parseInt(codePoint, 16)));
+						}
+
+						function renderAlert(alert) {
+							const toastEl = document.getElementById("toast");
+							const iconEl = document.getElementById("toast-icon");
+							const headingEl = document.getElementById("toast-heading");
+							const titleEl = document.getElementById("toast-title");
+							const viewerEl = document.getElementById("toast-viewer");
+							const detailEl = document.getElementById("toast-detail");
+							if (!toastEl || !iconEl || !headingEl || !titleEl || !viewerEl || !detailEl) return false;
+
+							viewerEl.textContent = "@" + alert.userDisplayName;
+							if (alert.type === "achievement_unlocked") {
+								toastEl.classList.remove("raffle");
+								iconEl.textContent = formatAchievementIcon(alert.achievementIcon);
+								headingEl.textContent = "Achievement Unlocked";
+								titleEl.textContent = alert.achievementName;
+								detailEl.textContent = alert.achievementDescription;
+							} else if (alert.type === "raffle_result") {
+								toastEl.classList.add("raffle");
+								iconEl.textContent = "⌨️";
+								headingEl.textContent = "Keyboard Raffle Winner";
+								titleEl.textContent = "Rolled " + alert.roll;
+								detailEl.textContent = "hit the winning number!";
+							} else {
+								return false;
+							}
+							return true;
+						}
+
+						async function showAlert(alert) {
+							const toastEl = document.getElementById("toast");
+							if (!toastEl || !renderAlert(alert)) return;
+							toastEl.classList.add("visible");
+							await sleep(TOAST_DURATION_MS);
+							toastEl.classList.remove("visible");
+							await sleep(TOAST_TRANSITION_MS);
+						}
+
+						async function drainAlerts() {
+							if (draining) {
+								drainRequested = true;
+								return;
+							}
+							draining = true;
+							try {
+								do {
+									drainRequested = false;
+									for (;;) {
+										const alert = await fetchNextAlert();
+										if (!alert) break;
+										await showAlert(alert);
+										if (!(await markAlertShown(alert))) return;
+										await sleep(TOAST_GAP_MS);
+									}
+								} while (drainRequested);
+							} finally {
+								draining = false;
+							}
+						}
+
+						function connectOverlayFeed() {
+							const url = new URL(EVENTS_PATH, window.location.href);
+							url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+
+							const socket = new WebSocket(url);
+							socket.addEventListener("message", (message) => {
+								try {
+									const frame = JSON.parse(message.data);
+									if (frame && frame.kind === "ready") reconnectAttempt = 0;
+									if (
+										frame &&
+										frame.kind === "event" &&
+										frame.event &&
+										ALERT_EVENT_TYPES.includes(frame.event.type)
+									) {
+										void drainAlerts();
+									}
+								} catch (error) {
+									console.error("Overlay feed frame rejected", error);
+								}
+							});
+							socket.addEventListener("close", () => {
+								const delay =
+									RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+								reconnectAttempt += 1;
+								setTimeout(connectOverlayFeed, delay);
+							});
+						}
+
+						void drainAlerts().finally(connectOverlayFeed);
+						setInterval(() => void drainAlerts(), IDLE_CHECK_INTERVAL_MS);
+					</script>
+				</body>
+			</html>
+		`;
+
+		return c.html(overlayHtml);
+	});
+
+	/**
+	 * GET /overlay/now-playing?theme=catppuccin-macchiato
 	 * HTML overlay showing currently playing track with transparent background
-	 * Polls /api/now-playing every 5 seconds for updates
+	 * Receives Now Playing changes from /overlay/events, polling /api/now-playing
+	 * every 5 seconds only while the stream is disconnected
 	 */
-	overlay.get("/now-playing", (c) => {
+	overlay.get("/now-playing", async (c) => {
+		const queryResult = ThemedOverlayQuerySchema.safeParse(readHttpQueryParameters(c.req.url));
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+		const themeResult = await loadOverlayTheme(c, "/overlay/now-playing", queryResult.data.theme);
+		if ("response" in themeResult) return themeResult.response;
+		const { theme } = themeResult;
 		dependencies.logger.info("Served now playing overlay page", {
 			event: "overlay.now_playing_page.served",
 			component: "route",
 			route: "/overlay/now-playing",
 		});
 		const overlayHtml = html`
-		<!doctype html>
-		<html lang="en">
-			<head>
-				<meta charset="UTF-8" />
-				<meta name="viewport" content="width=device-width, initial-scale=1.0" />
-				<title>Now Playing</title>
-				<style>
-					/* Catppuccin Macchiato theme colors */
-					:root {
-						--ctp-base: #24273a;
-						--ctp-text: #cad3f5;
-						--ctp-subtext: #b8c0e0;
-						--ctp-pink: #f5bde6;
-					}
-		
-					* {
-						margin: 0;
-						padding: 0;
-						box-sizing: border-box;
-					}
-		
-					body {
-						background: transparent;
-						font-family: "IBM Plex Mono", ui-monospace, monospace;
-						color: var(--ctp-text);
-						-webkit-font-smoothing: antialiased;
-						-moz-osx-font-smoothing: grayscale;
-					}
-		
-					.container {
-						width: 320px;
-						height: 120px;
-						margin: 20px auto 0;
-						background: var(--ctp-base);
-						border-radius: 6px;
-						padding: 8px;
-						box-shadow:
-							0 10px 15px -3px rgba(0, 0, 0, 0.1),
-							0 4px 6px -4px rgba(0, 0, 0, 0.1);
-						display: flex;
-						align-items: center;
-					}
-		
-					.container.empty-state {
-						gap: 16px;
-						padding: 16px 20px;
-					}
-		
-					.album-art-container {
-						width: 64px;
-						height: 64px;
-						flex-shrink: 0;
-					}
-		
-					.container.empty-state .album-art-container {
-						display: none;
-					}
-		
-					.album-art {
-						width: 64px;
-						height: 64px;
-						border-radius: 50%;
-						object-fit: cover;
-						animation: spin 5s linear infinite;
-					}
-		
-					.album-art.hidden {
-						visibility: hidden;
-					}
-		
-					@keyframes spin {
-						from {
-							transform: rotate(0deg);
-						}
-						to {
-							transform: rotate(360deg);
-						}
-					}
-		
-					.track-info {
-						flex-grow: 1;
-						min-width: 0;
-						padding-left: 16px;
-						display: flex;
-						flex-direction: column;
-						gap: 4px;
-					}
-		
-					.container.empty-state .track-info {
-						padding-left: 0;
-						gap: 0;
-					}
-		
-					.track-details {
-						display: flex;
-						flex-direction: column;
-						gap: 4px;
-					}
-		
-					.track-details.hidden {
-						display: none;
-					}
-		
-					.track-header {
-						font-size: 16px;
-						font-weight: 600;
-						line-height: 1.5rem;
-						min-height: 1.5rem;
-					}
-		
-					.container.empty-state .track-header {
-						min-height: 0;
-						max-width: 18ch;
-						line-height: 1.4;
-						text-wrap: balance;
-					}
-		
-					.track-name {
-						font-size: 14px;
-						line-height: 1.25rem;
-						min-height: 1.25rem;
-						overflow: hidden;
-						text-overflow: ellipsis;
-						white-space: nowrap;
-					}
-		
-					.track-artist {
-						font-size: 14px;
-						line-height: 1.25rem;
-						min-height: 1.25rem;
-						color: var(--ctp-subtext);
-						overflow: hidden;
-						text-overflow: ellipsis;
-						white-space: nowrap;
-					}
-		
-					.track-requester {
-						font-size: 14px;
-						line-height: 1.25rem;
-						min-height: 1.25rem;
-						color: var(--ctp-subtext);
-						overflow: hidden;
-						text-overflow: ellipsis;
-						white-space: nowrap;
-					}
-		
-					.music-icon {
-						width: 56px;
-						height: 56px;
-						flex-shrink: 0;
-						color: var(--ctp-pink);
-					}
-		
-					.container.empty-state .music-icon {
-						width: 48px;
-						height: 48px;
-					}
-				</style>
-				<link rel="preconnect" href="https://fonts.googleapis.com" />
-				<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin />
-				<link
-					href="https://fonts.googleapis.com/css2?family=IBM+Plex+Mono:wght@400;500;600&display=swap"
-					rel="stylesheet"
-				/>
-			</head>
-			<body>
-				<div id="overlay" class="container">
-					<div class="album-art-container">
-						<img id="album-art" src="" alt="" class="album-art hidden" />
-					</div>
-					<div class="track-info">
-						<h2 id="header" class="track-header">Loading...</h2>
-						<div id="track-details" class="track-details">
-							<p id="track-name" class="track-name">&nbsp;</p>
-							<p id="track-artist" class="track-artist">&nbsp;</p>
-							<p id="track-requester" class="track-requester">&nbsp;</p>
+			<!doctype html>
+			<html lang="en">
+				<head>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<title>Now Playing</title>
+					<style>
+						${renderThemeVariables(theme)} * {
+							margin: 0;
+							padding: 0;
+							box-sizing: border-box;
+						}
+
+						body {
+							background: transparent;
+							font-family: var(--overlay-font);
+							color: var(--overlay-text);
+							-webkit-font-smoothing: antialiased;
+							-moz-osx-font-smoothing: grayscale;
+						}
+
+						.container {
+							width: 320px;
+							height: 120px;
+							margin: 20px auto 0;
+							background: var(--overlay-base);
+							border-radius: 6px;
+							padding: 8px;
+							box-shadow:
+								0 10px 15px -3px rgba(0, 0, 0, 0.1),
+								0 4px 6px -4px rgba(0, 0, 0, 0.1);
+							display: flex;
+							align-items: center;
+						}
+
+						.container.empty-state {
+							gap: 16px;
+							padding: 16px 20px;
+						}
+
+						.album-art-container {
+							width: 64px;
+							height: 64px;
+							flex-shrink: 0;
+						}
+
+						.container.empty-state .album-art-container {
+							display: none;
+						}
+
+						.album-art {
+							width: 64px;
+							height: 64px;
+							border-radius: 50%;
+							object-fit: cover;
+							animation: spin 5s linear infinite;
+						}
+
+						.album-art.hidden {
+							visibility: hidden;
+						}
+
+						@keyframes spin {
+							from {
+								transform: rotate(0deg);
+							}
+							to {
+								transform: rotate(360deg);
+							}
+						}
+
+						.track-info {
+							flex-grow: 1;
+							min-width: 0;
+							padding-left: 16px;
+							display: flex;
+							flex-direction: column;
+							gap: 4px;
+						}
+
+						.container.empty-state .track-info {
+							padding-left: 0;
+							gap: 0;
+						}
+
+						.track-details {
+							display: flex;
+							flex-direction: column;
+							gap: 4px;
+						}
+
+						.track-details.hidden {
+							display: none;
+						}
+
+						.track-header {
+							font-size: 16px;
+							font-weight: 600;
+							line-height: 1.5rem;
+							min-height: 1.5rem;
+						}
+
+						.container.empty-state .track-header {
+							min-height: 0;
+							max-width: 18ch;
+							line-height: 1.4;
+							text-wrap: balance;
+						}
+
+						.track-name {
+							font-size: 14px;
+							line-height: 1.25rem;
+							min-height: 1.25rem;
+							overflow: hidden;
+							text-overflow: ellipsis;
+							white-space: nowrap;
+						}
+
+						.track-artist {
+							font-size: 14px;
+							line-height: 1.25rem;
+							min-height: 1.25rem;
+							color: var(--overlay-subtext);
+							overflow: hidden;
+							text-overflow: ellipsis;
+							white-space: nowrap;
+						}
+
+						.track-requester {
+							font-size: 14px;
+							line-height: 1.25rem;
+							min-height: 1.25rem;
+							color: var(--overlay-subtext);
+							overflow: hidden;
+							text-overflow: ellipsis;
+							white-space: nowrap;
+						}
+
+						.music-icon {
+							width: 56px;
+							height: 56px;
+							flex-shrink: 0;
+							color: var(--overlay-accent);
+						}
+
+						.container.empty-state .music-icon {
+							width: 48px;
+							height: 48px;
+						}
+					</style>
+					<link rel="preconnect" href="https://fonts.googleapis.com" />
+					<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin />
+					<link
+						href="https://fonts.googleapis.com/css2?family=IBM+Plex+Mono:wght@400;500;600&display=swap"
+						rel="stylesheet"
+					/>
+				</head>
+				<body>
+					<div id="overlay" class="container">
+						<div class="album-art-container">
+							<img id="album-art" src="" alt="" class="album-art hidden" />
 						</div>
+						<div class="track-info">
+							<h2 id="header" class="track-header">Loading...</h2>
+							<div id="track-details" class="track-details">
+								<p id="track-name" class="track-name">&nbsp;</p>
+								<p id="track-artist" class="track-artist">&nbsp;</p>
+								<p id="track-requester" class="track-requester">&nbsp;</p>
+							</div>
+						</div>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							stroke-width="2"
+							stroke-linecap="round"
+							stroke-linejoin="round"
+							class="music-icon"
+						>
+							<path d="M9 18V5l12-2v13"></path>
+							<circle cx="6" cy="18" r="3"></circle>
+							<circle cx="18" cy="16" r="3"></circle>
+						</svg>
 					</div>
-					<svg
-						xmlns="http://www.w3.org/2000/svg"
-						viewBox="0 0 24 24"
-						fill="none"
-						stroke="currentColor"
-						stroke-width="2"
-						stroke-linecap="round"
-						stroke-linejoin="round"
-						class="music-icon"
-					>
-						<path d="M9 18V5l12-2v13"></path>
-						<circle cx="6" cy="18" r="3"></circle>
-						<circle cx="18" cy="16" r="3"></circle>
-					</svg>
-				</div>
-		
-				<script>
-					const NOW_PLAYING_URL = "/api/now-playing";
-					const QUEUE_URL = "/api/queue?limit=1";
-					const POLL_INTERVAL_MS = 5000;
-					const REQUEST_TIMEOUT_MS = 4000;
-
-					let active = "currentlyPlaying";
-					let pollInFlight = false;
-					let currentState = { status: "loading" };
-					let nextUpState = { status: "loading" };
-
-					function parseTrack(input) {
-						if (!input || typeof input !== "object") return null;
-						if (typeof input.id !== "string" || typeof input.name !== "string") return null;
-						if (!Array.isArray(input.artists)) return null;
-
-						const artists = [];
-						for (const artist of input.artists) {
-							if (typeof artist === "string") {
-								artists.push(artist);
-							} else if (artist && typeof artist === "object" && typeof artist.name === "string") {
-								artists.push(artist.name);
-							} else {
-								return null;
+
+					<script>
+						const NOW_PLAYING_URL = "/api/now-playing";
+						const QUEUE_URL = "/api/queue?limit=1";
+						const EVENTS_PATH = "/overlay/events";
+						const CURSOR_STORAGE_KEY = "overlay-feed-cursor";
+						const POLL_INTERVAL_MS = 5000;
+						const NEXT_UP_REFRESH_INTERVAL_MS = 30000;
+						const REQUEST_TIMEOUT_MS = 4000;
+						const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+						let active = "currentlyPlaying";
+						let pollInFlight = false;
+						let currentState = { status: "loading" };
+						let nextUpState = { status: "loading" };
+						let feedConnected = false;
+						let reconnectAttempt = 0;
+						let lastCursor = readStoredCursor();
+
+						function parseTrack(input) {
+							if (!input || typeof input !== "object") return null;
+							if (typeof input.id !== "string" || typeof input.name !== "string") return null;
+							if (!Array.isArray(input.artists)) return null;
+
+							const artists = [];
+							for (const artist of input.artists) {
+								if (typeof artist === "string") {
+									artists.push(artist);
+								} else if (artist && typeof artist === "object" && typeof artist.name === "string") {
+									artists.push(artist.name);
+								} else {
+									return null;
+								}
+							}
+
+							for (const field of ["album", "albumCoverUrl", "requesterDisplayName"]) {
+								if (
+									input[field] !== undefined &&
+									input[field] !== null &&
+									typeof input[field] !== "string"
+								) {
+									return null;
+								}
+							}
+
+							return {
+								id: input.id,
+								name: input.name,
+								artists,
+								album: input.album || null,
+								albumCoverUrl: input.albumCoverUrl || null,
+								requesterDisplayName: input.requesterDisplayName || null,
+							};
+						}
+
+						function parseNowPlayingResponse(input) {
+							if (!input || typeof input !== "object" || !("track" in input)) return null;
+							if (input.track === null) return { status: "empty" };
+							const track = parseTrack(input.track);
+							return track ? { status: "ready", track } : null;
+						}
+
+						function parseQueueResponse(input) {
+							if (!input || typeof input !== "object" || !Array.isArray(input.tracks)) return null;
+							if (input.tracks.length === 0) return { status: "empty" };
+							const track = parseTrack(input.tracks[0]);
+							return track ? { status: "ready", track } : null;
+						}
+
+						async function fetchOverlayState(url, parseResponse) {
+							const controller = new AbortController();
+							const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+							try {
+								const response = await fetch(url, { signal: controller.signal });
+								if (!response.ok) return { status: "error" };
+								const parsed = parseResponse(await response.json());
+								return parsed || { status: "error" };
+							} catch (error) {
+								console.error("Overlay endpoint request failed", url, error);
+								return { status: "error" };
+							} finally {
+								clearTimeout(timeout);
 							}
 						}
 
-						for (const field of ["album", "albumCoverUrl", "requesterDisplayName"]) {
-							if (input[field] !== undefined && input[field] !== null && typeof input[field] !== "string") {
+						async function pollOverlayData() {
+							if (pollInFlight) return;
+							pollInFlight = true;
+							try {
+								const [latestCurrentState, latestNextUpState] = await Promise.all([
+									fetchOverlayState(NOW_PLAYING_URL, parseNowPlayingResponse),
+									fetchOverlayState(QUEUE_URL, parseQueueResponse),
+								]);
+								currentState = latestCurrentState;
+								nextUpState = latestNextUpState;
+								updateDisplay();
+							} finally {
+								pollInFlight = false;
+							}
+						}
+
+						async function refreshNextUp() {
+							nextUpState = await fetchOverlayState(QUEUE_URL, parseQueueResponse);
+							updateDisplay();
+						}
+
+						function readStoredCursor() {
+							try {
+								const stored = Number(localStorage.getItem(CURSOR_STORAGE_KEY));
+								return Number.isSafeInteger(stored) && stored > 0 ? stored : null;
+							} catch {
 								return null;
 							}
 						}
 
-						return {
-							id: input.id,
-							name: input.name,
-							artists,
-							album: input.album || null,
-							albumCoverUrl: input.albumCoverUrl || null,
-							requesterDisplayName: input.requesterDisplayName || null,
-						};
-					}
-
-					function parseNowPlayingResponse(input) {
-						if (!input || typeof input !== "object" || !("track" in input)) return null;
-						if (input.track === null) return { status: "empty" };
-						const track = parseTrack(input.track);
-						return track ? { status: "ready", track } : null;
-					}
-
-					function parseQueueResponse(input) {
-						if (!input || typeof input !== "object" || !Array.isArray(input.tracks)) return null;
-						if (input.tracks.length === 0) return { status: "empty" };
-						const track = parseTrack(input.tracks[0]);
-						return track ? { status: "ready", track } : null;
-					}
-
-					async function fetchOverlayState(url, parseResponse) {
-						const controller = new AbortController();
-						const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-						try {
-							const response = await fetch(url, { signal: controller.signal });
-							if (!response.ok) return { status: "error" };
-							const parsed = parseResponse(await response.json());
-							return parsed || { status: "error" };
-						} catch (error) {
-							console.error("Overlay endpoint request failed", url, error);
-							return { status: "error" };
-						} finally {
-							clearTimeout(timeout);
-						}
-					}
-
-					async function pollOverlayData() {
-						if (pollInFlight) return;
-						pollInFlight = true;
-						try {
-							const [latestCurrentState, latestNextUpState] = await Promise.all([
-								fetchOverlayState(NOW_PLAYING_URL, parseNowPlayingResponse),
-								fetchOverlayState(QUEUE_URL, parseQueueResponse),
-							]);
-							currentState = latestCurrentState;
-							nextUpState = latestNextUpState;
+						function rememberCursor(cursor) {
+							lastCursor = cursor;
+							try {
+								localStorage.setItem(CURSOR_STORAGE_KEY, String(cursor));
+							} catch {
+								// Without storage the cursor still survives reconnects within this page.
+							}
+						}
+
+						function applyOverlayEvent(event) {
+							if (!event || event.type !== "now_playing_changed") return;
+							if (event.track === null) {
+								currentState = { status: "empty" };
+							} else {
+								const track = parseTrack(event.track);
+								currentState = track ? { status: "ready", track } : { status: "error" };
+							}
 							updateDisplay();
-						} finally {
-							pollInFlight = false;
-						}
-					}
-
-					function updateDisplay() {
-						const activeState = active === "currentlyPlaying" ? currentState : nextUpState;
-						const overlayEl = document.getElementById("overlay");
-						const headerEl = document.getElementById("header");
-						const detailsEl = document.getElementById("track-details");
-						const nameEl = document.getElementById("track-name");
-						const artistEl = document.getElementById("track-artist");
-						const requesterEl = document.getElementById("track-requester");
-						const albumArt = document.getElementById("album-art");
-
-						if (!overlayEl || !headerEl || !detailsEl || !nameEl || !artistEl || !requesterEl || !albumArt) return;
-
-						if (activeState.status !== "ready") {
-							overlayEl.classList.add("empty-state");
-							detailsEl.classList.add("hidden");
-							headerEl.textContent = activeState.status === "error"
-								? active === "currentlyPlaying" ? "Now playing unavailable" : "Next up unavailable"
-								: activeState.status === "loading" ? "Loading..." : "Nothing is currently playing";
-							nameEl.innerHTML = "&nbsp;";
-							artistEl.innerHTML = "&nbsp;";
-							requesterEl.innerHTML = "&nbsp;";
-							albumArt.classList.add("hidden");
-							return;
-						}
-
-						overlayEl.classList.remove("empty-state");
-						detailsEl.classList.remove("hidden");
-						const track = activeState.track;
-						headerEl.textContent = active === "currentlyPlaying" ? "Now Playing" : "Next Up";
-						nameEl.textContent = track.name;
-						artistEl.textContent = track.artists.join(", ");
-						requesterEl.textContent = track.requesterDisplayName && track.requesterDisplayName !== "Unknown"
-							? "Requested by @" + track.requesterDisplayName
-							: "\u00a0";
-
-						if (track.albumCoverUrl) {
-							albumArt.src = track.albumCoverUrl;
-							albumArt.alt = (track.album || track.name) + " album art";
-							albumArt.classList.remove("hidden");
-						} else {
-							albumArt.classList.add("hidden");
-						}
-					}
-
-					function toggleOverlayView() {
-						if (currentState.status !== "ready") {
-							active = "currentlyPlaying";
-						} else if (active === "currentlyPlaying" && nextUpState.status === "ready") {
-							active = "nextUp";
-						} else {
-							active = "currentlyPlaying";
-						}
-						updateDisplay();
-					}
-
-					void pollOverlayData();
-					setInterval(() => {
-						toggleOverlayView();
-						void pollOverlayData();
-					}, POLL_INTERVAL_MS);
-				</script>
-			</body>
-		</html>
-	`;
+							void refreshNextUp();
+						}
+
+						function handleFeedFrame(frame) {
+							if (!frame || typeof frame !== "object" || !Number.isSafeInteger(frame.cursor)) return;
+							if (frame.kind === "ready") {
+								feedConnected = true;
+								reconnectAttempt = 0;
+								rememberCursor(frame.cursor);
+								if (frame.truncated) void pollOverlayData();
+							} else if (frame.kind === "event") {
+								if (lastCursor !== null && frame.cursor <= lastCursor) return;
+								rememberCursor(frame.cursor);
+								applyOverlayEvent(frame.event);
+							}
+						}
+
+						function connectOverlayFeed() {
+							const url = new URL(EVENTS_PATH, window.location.href);
+							url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+							if (lastCursor !== null) url.searchParams.set("cursor", String(lastCursor));
+
+							const socket = new WebSocket(url);
+							socket.addEventListener("message", (message) => {
+								try {
+									handleFeedFrame(JSON.parse(message.data));
+								} catch (error) {
+									console.error("Overlay feed frame rejected", error);
+								}
+							});
+							socket.addEventListener("close", () => {
+								feedConnected = false;
+								const delay =
+									RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+								reconnectAttempt += 1;
+								setTimeout(connectOverlayFeed, delay);
+							});
+						}
+
+						function updateDisplay() {
+							const activeState = active === "currentlyPlaying" ? currentState : nextUpState;
+							const overlayEl = document.getElementById("overlay");
+							const headerEl = document.getElementById("header");
+							const detailsEl = document.getElementById("track-details");
+							const nameEl = document.getElementById("track-name");
+							const artistEl = document.getElementById("track-artist");
+							const requesterEl = document.getElementById("track-requester");
+							const albumArt = document.getElementById("album-art");
+
+							if (
+								!overlayEl ||
+								!headerEl ||
+								!detailsEl ||
+								!nameEl ||
+								!artistEl ||
+								!requesterEl ||
+								!albumArt
+							)
+								return;
+
+							if (activeState.status !== "ready") {
+								overlayEl.classList.add("empty-state");
+								detailsEl.classList.add("hidden");
+								headerEl.textContent =
+									activeState.status === "error"
+										? active === "currentlyPlaying"
+											? "Now playing unavailable"
+											: "Next up unavailable"
+										: activeState.status === "loading"
+											? "Loading..."
+											: "Nothing is currently playing";
+								nameEl.innerHTML = "&nbsp;";
+								artistEl.innerHTML = "&nbsp;";
+								requesterEl.innerHTML = "&nbsp;";
+								albumArt.classList.add("hidden");
+								return;
+							}
+
+							overlayEl.classList.remove("empty-state");
+							detailsEl.classList.remove("hidden");
+							const track = activeState.track;
+							headerEl.textContent = active === "currentlyPlaying" ? "Now Playing" : "Next Up";
+							nameEl.textContent = track.name;
+							artistEl.textContent = track.artists.join(", ");
+							requesterEl.textContent =
+								track.requesterDisplayName && track.requesterDisplayName !== "Unknown"
+									? "Requested by @" + track.requesterDisplayName
+									: " ";
+
+							if (track.albumCoverUrl) {
+								albumArt.src = track.albumCoverUrl;
+								albumArt.alt = (track.album || track.name) + " album art";
+								albumArt.classList.remove("hidden");
+							} else {
+								albumArt.classList.add("hidden");
+							}
+						}
+
+						function toggleOverlayView() {
+							if (currentState.status !== "ready") {
+								active = "currentlyPlaying";
+							} else if (active === "currentlyPlaying" && nextUpState.status === "ready") {
+								active = "nextUp";
+							} else {
+								active = "currentlyPlaying";
+							}
+							updateDisplay();
+						}
+
+						void pollOverlayData().finally(connectOverlayFeed);
+						setInterval(() => {
+							toggleOverlayView();
+							if (!feedConnected) void pollOverlayData();
+						}, POLL_INTERVAL_MS);
+						setInterval(() => {
+							if (feedConnected) void refreshNextUp();
+						}, NEXT_UP_REFRESH_INTERVAL_MS);
+					</script>
+				</body>
+			</html>
+		`;
+
+		return c.html(overlayHtml);
+	});
+
+	/**
+	 * GET /overlay/queue?count=5&orientation=vertical&compact=false&theme=catppuccin-macchiato
+	 * HTML overlay listing the next upcoming tracks with their requesters.
+	 * Refreshes from /api/queue every 10 seconds and whenever Now Playing
+	 * changes on /overlay/events.
+	 */
+	overlay.get("/queue", async (c) => {
+		const queryResult = QueueOverlayQuerySchema.safeParse(readHttpQueryParameters(c.req.url));
+		if (!queryResult.success) {
+			return c.json({ error: "Invalid query parameters", details: queryResult.error.issues }, 400);
+		}
+		const { count, orientation, compact } = queryResult.data;
+		const themeResult = await loadOverlayTheme(c, "/overlay/queue", queryResult.data.theme);
+		if ("response" in themeResult) return themeResult.response;
+		const { theme } = themeResult;
+		dependencies.logger.info("Served queue overlay page", {
+			event: "overlay.queue_page.served",
+			component: "route",
+			route: "/overlay/queue",
+			count,
+			orientation,
+			compact,
+		});
+		const overlayHtml = html`
+			<!doctype html>
+			<html lang="en">
+				<head>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<title>Song Queue</title>
+					<style>
+						${renderThemeVariables(theme)} * {
+							margin: 0;
+							padding: 0;
+							box-sizing: border-box;
+						}
+
+						body {
+							background: transparent;
+							font-family: var(--overlay-font);
+							color: var(--overlay-text);
+							-webkit-font-smoothing: antialiased;
+							-moz-osx-font-smoothing: grayscale;
+						}
+
+						.queue {
+							width: 360px;
+							margin: 20px auto 0;
+							background: var(--overlay-base);
+							border-radius: 6px;
+							padding: 12px;
+							box-shadow:
+								0 10px 15px -3px rgba(0, 0, 0, 0.1),
+								0 4px 6px -4px rgba(0, 0, 0, 0.1);
+						}
+
+						.queue.horizontal {
+							width: auto;
+							max-width: calc(100vw - 40px);
+							display: inline-block;
+							margin-left: 20px;
+						}
+
+						.queue-header {
+							font-size: 11px;
+							font-weight: 600;
+							text-transform: uppercase;
+							letter-spacing: 0.05em;
+							color: var(--overlay-accent);
+							margin-bottom: 8px;
+						}
+
+						.queue-list {
+							list-style: none;
+							display: flex;
+							flex-direction: column;
+							gap: 8px;
+						}
+
+						.queue.horizontal .queue-list {
+							flex-direction: row;
+						}
+
+						.queue-entry {
+							display: flex;
+							align-items: center;
+							gap: 10px;
+							min-width: 0;
+						}
+
+						.queue.horizontal .queue-entry {
+							width: 220px;
+						}
+
+						.entry-position {
+							width: 16px;
+							flex-shrink: 0;
+							font-size: 12px;
+							color: var(--overlay-muted);
+							text-align: right;
+						}
+
+						.album-art {
+							width: 40px;
+							height: 40px;
+							flex-shrink: 0;
+							border-radius: 4px;
+							object-fit: cover;
+							background: var(--overlay-surface);
+						}
+
+						.queue.compact .album-art {
+							display: none;
+						}
+
+						.entry-details {
+							min-width: 0;
+							display: flex;
+							flex-direction: column;
+							gap: 2px;
+						}
+
+						.entry-name,
+						.entry-artist {
+							white-space: nowrap;
+							overflow: hidden;
+							text-overflow: ellipsis;
+						}
+
+						.entry-name {
+							font-size: 13px;
+							font-weight: 700;
+						}
+
+						.entry-artist,
+						.entry-source {
+							font-size: 11px;
+							color: var(--overlay-subtext);
+						}
+
+						.entry-source.user {
+							color: var(--overlay-accent);
+						}
+
+						.entry-source.autoplay {
+							color: var(--overlay-muted);
+							font-style: italic;
+						}
+
+						.queue.compact .entry-artist {
+							display: none;
+						}
+
+						.queue-empty {
+							font-size: 12px;
+							color: var(--overlay-subtext);
+						}
+					</style>
+				</head>
+				<body>
+					<section
+						class="queue ${orientation} ${compact ? "compact" : ""}"
+						id="queue"
+						data-count="${count}"
+					>
+						<div class="queue-header">Up Next</div>
+						<ol class="queue-list" id="queue-list"></ol>
+						<div class="queue-empty" id="queue-empty">Loading...</div>
+					</section>
+
+					<script>
+						const QUEUE_URL = "/api/queue";
+						const EVENTS_PATH = "/overlay/events";
+						const REFRESH_INTERVAL_MS = 10000;
+						const REQUEST_TIMEOUT_MS = 4000;
+						const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+						const queueEl = document.getElementById("queue");
+						const count = Number(queueEl ? queueEl.dataset.count : 5) || 5;
+						let refreshInFlight = false;
+						let reconnectAttempt = 0;
+
+						function parseEntry(input) {
+							if (!input || typeof input !== "object") return null;
+							if (typeof input.name !== "string" || !Array.isArray(input.artists)) return null;
+							if (input.source !== "user" && input.source !== "autoplay") return null;
+							return {
+								name: input.name,
+								artists: input.artists.filter((artist) => typeof artist === "string"),
+								album: typeof input.album === "string" ? input.album : input.name,
+								albumCoverUrl: typeof input.albumCoverUrl === "string" ? input.albumCoverUrl : null,
+								source: input.source,
+								requesterDisplayName:
+									typeof input.requesterDisplayName === "string" ? input.requesterDisplayName : null,
+							};
+						}
+
+						async function fetchQueue() {
+							const controller = new AbortController();
+							const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+							try {
+								const response = await fetch(QUEUE_URL + "?limit=" + count, {
+									signal: controller.signal,
+								});
+								if (!response.ok) return null;
+								const body = await response.json();
+								if (!body || !Array.isArray(body.tracks)) return null;
+								return body.tracks.map(parseEntry).filter((entry) => entry !== null);
+							} catch (error) {
+								console.error("Queue overlay request failed", error);
+								return null;
+							} finally {
+								clearTimeout(timeout);
+							}
+						}
+
+						function renderEntry(entry, index) {
+							const item = document.createElement("li");
+							item.className = "queue-entry";
+
+							const position = document.createElement("span");
+							position.className = "entry-position";
+							position.textContent = String(index + 1);
+							item.append(position);
+
+							const art = document.createElement("img");
+							art.className = "album-art";
+							art.alt = entry.album + " album art";
+							if (entry.albumCoverUrl) art.src = entry.albumCoverUrl;
+							item.append(art);
+
+							const details = document.createElement("div");
+							details.className = "entry-details";
+							const name = document.createElement("span");
+							name.className = "entry-name";
+							name.textContent = entry.name;
+							const artist = document.createElement("span");
+							artist.className = "entry-artist";
+							artist.textContent = entry.artists.join(", ");
+							const source = document.createElement("span");
+							source.className = "entry-source " + entry.source;
+							source.textContent =
+								entry.source === "user" && entry.requesterDisplayName
+									? "@" + entry.requesterDisplayName
+									: "Autoplay";
+							details.append(name, artist, source);
+							item.append(details);
+							return item;
+						}
+
+						function updateDisplay(entries) {
+							const listEl = document.getElementById("queue-list");
+							const emptyEl = document.getElementById("queue-empty");
+							if (!listEl || !emptyEl) return;
+
+							if (entries === null) {
+								emptyEl.textContent = "Queue unavailable";
+								emptyEl.hidden = false;
+								return;
+							}
+							listEl.replaceChildren(...entries.map(renderEntry));
+							emptyEl.textContent = entries.length === 0 ? "Nothing queued" : "";
+							emptyEl.hidden = entries.length > 0;
+						}
+
+						async function refreshQueue() {
+							if (refreshInFlight) return;
+							refreshInFlight = true;
+							try {
+								updateDisplay(await fetchQueue());
+							} finally {
+								refreshInFlight = false;
+							}
+						}
+
+						function connectOverlayFeed() {
+							const url = new URL(EVENTS_PATH, window.location.href);
+							url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+
+							const socket = new WebSocket(url);
+							socket.addEventListener("message", (message) => {
+								try {
+									const frame = JSON.parse(message.data);
+									if (frame && frame.kind === "ready") reconnectAttempt = 0;
+									if (
+										frame &&
+										frame.kind === "event" &&
+										frame.event &&
+										frame.event.type === "now_playing_changed"
+									) {
+										void refreshQueue();
+									}
+								} catch (error) {
+									console.error("Overlay feed frame rejected", error);
+								}
+							});
+							socket.addEventListener("close", () => {
+								const delay =
+									RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+								reconnectAttempt += 1;
+								setTimeout(connectOverlayFeed, delay);
+							});
+						}
+
+						void refreshQueue().finally(connectOverlayFeed);
+						setInterval(() => void refreshQueue(), REFRESH_INTERVAL_MS);
+					</script>
+				</body>
+			</html>
+		`;
 
 		return c.html(overlayHtml);
 	});
@@ -0,0 +1,268 @@
+/**
+ * Viewer Profile routes
+ *
+ * Serves one Viewer's Song Requests, Raffle statistics, Achievements, Request
+ * Streak, and recent activity as JSON and as a shareable HTML page. Both look
+ * the Viewer up by Twitch login or display name.
+ */
+
+import { Result } from "better-result";
+import { Hono } from "hono";
+import { html } from "hono/html";
+
+import { RaffleViewerNotFoundError } from "../../capabilities/raffle-statistics";
+import { formatAchievementWithLevel } from "../../domain/achievement";
+import {
+	VIEWER_PROFILE_TOP_TRACK_LIMIT,
+	ViewerProfileLookupSchema,
+	type ViewerActivity,
+	type ViewerProfile,
+} from "../../domain/viewer-profile";
+import { type AppRouteEnv, getRequestLogger } from "../../lib/request-context";
+
+import type {
+	AchievementReader,
+	ApplicationStateError,
+} from "../../capabilities/http-state-readers";
+import type {
+	RaffleStatistics,
+	RaffleStatisticsReadError,
+} from "../../capabilities/raffle-statistics";
+import type { SongQueueFailure, SongRequestStatistics } from "../../capabilities/song-queue";
+import type { Context } from "hono";
+
+/** Exact dependencies required by the Viewer Profile routes. */
+export type ProfileRouteDependencies = Readonly<{
+	achievements: AchievementReader;
+	songRequests: SongRequestStatistics;
+	raffles: RaffleStatistics;
+}>;
+
+type ViewerProfileLoadError = ApplicationStateError | SongQueueFailure | RaffleStatisticsReadError;
+
+/**
+ * Combine every store's view of one Viewer. Achievements resolves the lookup to
+ * a stable user id first; null when it knows no such Viewer.
+ */
+async function loadViewerProfile(
+	dependencies: ProfileRouteDependencies,
+	viewer: string,
+): Promise<Result<ViewerProfile | null, ViewerProfileLoadError>> {
+	const achievementResult = await dependencies.achievements.getViewerAchievementProfile(viewer);
+	if (achievementResult.status === "error") return Result.err(achievementResult.error);
+	const achievementProfile = achievementResult.value;
+	if (achievementProfile === null) return Result.ok(null);
+
+	const { userId } = achievementProfile;
+	const [requestCountResult, topTracksResult, raffleResult] = await Promise.all([
+		dependencies.songRequests.getViewerRequestCount(userId),
+		dependencies.songRequests.getViewerTopTracks(userId, VIEWER_PROFILE_TOP_TRACK_LIMIT),
+		dependencies.raffles.getViewerStats(userId),
+	]);
+	if (requestCountResult.status === "error") return Result.err(requestCountResult.error);
+	if (topTracksResult.status === "error") return Result.err(topTracksResult.error);
+	if (raffleResult.status === "error" && !RaffleViewerNotFoundError.is(raffleResult.error)) {
+		return Result.err(raffleResult.error);
+	}
+
+	const progress = achievementProfile.achievements;
+	return Result.ok({
+		userId,
+		displayName: achievementProfile.userDisplayName,
+		songRequests: { total: requestCountResult.value, topTracks: topTracksResult.value },
+		raffle: raffleResult.status === "ok" ? raffleResult.value : null,
+		achievements: {
+			unlocked: progress.filter((achievement) => achievement.unlocked).length,
+			total: progress.length,
+			progress,
+		},
+		requestStreak: achievementProfile.requestStreak,
+		recentActivity: achievementProfile.recentActivity,
+	});
+}
+
+function describeActivity(activity: ViewerActivity) {
+	switch (activity.kind) {
+		case "song_request":
+			return html`Requested
+				<a href="https://open.spotify.com/track/${activity.trackId}">a track</a>`;
+		case "raffle_roll":
+			return activity.isWinner
+				? html`Won the keyboard raffle with ${activity.roll}!`
+				: html`Rolled ${activity.roll}, ${activity.distance} away`;
+		case "raid":
+			return html`Raided with ${activity.viewers} viewers`;
+		case "achievement_unlocked":
+			return html`Unlocked <strong>${activity.name}</strong>`;
+	}
+}
+
+function renderProfilePage(profile: ViewerProfile) {
+	const unlocked = profile.achievements.progress.filter((achievement) => achievement.unlocked);
+	return html`<!doctype html>
+		<html lang="en">
+			<head>
+				<meta charset="UTF-8" />
+				<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+				<title>${profile.displayName}'s profile</title>
+				<style>
+					body {
+						font-family: system-ui, sans-serif;
+						max-width: 48rem;
+						margin: 2rem auto;
+						padding: 0 1rem;
+						background: #1e1e2e;
+						color: #cdd6f4;
+					}
+					a {
+						color: #89b4fa;
+					}
+					section {
+						margin-bottom: 2rem;
+					}
+					.stats {
+						display: flex;
+						gap: 1rem;
+						flex-wrap: wrap;
+					}
+					.stat {
+						background: #313244;
+						border-radius: 0.5rem;
+						padding: 0.75rem 1rem;
+					}
+					.stat strong {
+						display: block;
+						font-size: 1.5rem;
+					}
+					time {
+						color: #a6adc8;
+						font-size: 0.875rem;
+					}
+				</style>
+			</head>
+			<body>
+				<h1>${profile.displayName}</h1>
+				<section class="stats">
+					<div class="stat"><strong>${profile.songRequests.total}</strong> song requests</div>
+					<div class="stat">
+						<strong>${profile.achievements.unlocked}/${profile.achievements.total}</strong>
+						achievements
+					</div>
+					<div class="stat"><strong>${profile.raffle?.totalRolls ?? 0}</strong> raffle rolls</div>
+					<div class="stat"><strong>${profile.raffle?.totalWins ?? 0}</strong> raffle wins</div>
+					<div class="stat">
+						<strong>${profile.requestStreak?.longestStreak ?? 0}</strong> longest request streak
+					</div>
+				</section>
+				<section>
+					<h2>Top tracks</h2>
+					${profile.songRequests.topTracks.length === 0
+						? html`<p>No song requests yet.</p>`
+						: html`<ol>
+								${profile.songRequests.topTracks.map(
+									(track) =>
+										html`<li>
+											<a href="https://open.spotify.com/track/${track.trackId}"
+												>${track.trackName}</a
+											>
+											by ${track.artists.join(", ")} (${track.requestCount}×)
+										</li>`,
+								)}
+							</ol>`}
+				</section>
+				<section>
+					<h2>Achievements</h2>
+					${unlocked.length === 0
+						? html`<p>No achievements unlocked yet.</p>`
+						: html`<ul>
+								${unlocked.map(
+									(achievement) =>
+										html`<li>
+											<strong
+												>${formatAchievementWithLevel(
+													achievement.name,
+													achievement.levelLabel,
+												)}</strong
+											>
+											— ${achievement.description}
+										</li>`,
+								)}
+							</ul>`}
+				</section>
+				<section>
+					<h2>Recent activity</h2>
+					${profile.recentActivity.length === 0
+						? html`<p>Nothing yet.</p>`
+						: html`<ul>
+								${profile.recentActivity.map(
+									(activity) =>
+										html`<li>
+											${describeActivity(activity)}
+											<time datetime="${activity.occurredAt}">${activity.occurredAt}</time>
+										</li>`,
+								)}
+							</ul>`}
+				</section>
+			</body>
+		</html>`;
+}
+
+/** Creates the Viewer Profile JSON and HTML routes. */
+export function createProfileRoutes(
+	dependencies: ProfileRouteDependencies,
+): Hono<AppRouteEnv<object>> {
+	const profiles = new Hono<AppRouteEnv<object>>();
+
+	/**
+	 * Validate the lookup and load the profile. Returns the error response to
+	 * send when there is no profile to show.
+	 */
+	async function readProfile(
+		c: Context<AppRouteEnv<object>>,
+		route: string,
+	): Promise<{ profile: ViewerProfile } | { response: Response }> {
+		const routeLogger = getRequestLogger(c).child({ route, component: "route" });
+		const viewerResult = ViewerProfileLookupSchema.safeParse(c.req.param("user"));
+		if (!viewerResult.success) {
+			return { response: c.json({ error: "Invalid user" }, 400) };
+		}
+		const result = await loadViewerProfile(dependencies, viewerResult.data);
+		if (result.status === "error") {
+			routeLogger.error("Failed to load viewer profile", {
+				event: "profile.load.failed",
+				...result.error,
+			});
+			return { response: c.json({ error: "Failed to load profile" }, 500) };
+		}
+		if (result.value === null) {
+			return { response: c.json({ error: "User not found" }, 404) };
+		}
+		routeLogger.info("Loaded viewer profile", {
+			event: "profile.load.succeeded",
+			user_id: result.value.userId,
+		});
+		return { profile: result.value };
+	}
+
+	/**
+	 * GET /api/profile/:user
+	 * One Viewer's profile as JSON
+	 */
+	profiles.get("/api/profile/:user", async (c) => {
+		const result = await readProfile(c, "/api/profile/:user");
+		if ("response" in result) return result.response;
+		return c.json(result.profile);
+	});
+
+	/**
+	 * GET /profile/:user
+	 * Shareable HTML page of one Viewer's profile
+	 */
+	profiles.get("/profile/:user", async (c) => {
+		const result = await readProfile(c, "/profile/:user");
+		if ("response" in result) return result.response;
+		return c.html(renderProfilePage(result.profile));
+	});
+
+	return profiles;
+}
@@ -7,8 +7,10 @@ import {
 	RaffleStatisticsReadError,
 	RaffleViewerNotFoundError,
 } from "../../capabilities/raffle-statistics";
+import { RaidHistoryError } from "../../capabilities/raid-history";
 import { SongQueueUnavailableError } from "../../capabilities/song-queue";
 import { RaffleLeaderboardEntrySchema } from "../../domain/keyboard-raffle";
+import { TopRaidersSchema } from "../../domain/raid";
 import { TopRequestedTrackSchema, TopSongRequesterSchema } from "../../domain/song-request";
 import { readHttpQueryParameters } from "../../lib/http-query-parameters";
 import {
@@ -17,6 +19,7 @@ import {
 } from "../cloudflare/cloudflare-edge-response-cache";
 
 import type { RaffleStatistics } from "../../capabilities/raffle-statistics";
+import type { RaidStatistics } from "../../capabilities/raid-history";
 import type { SongRequestStatistics } from "../../capabilities/song-queue";
 import type { Logger } from "../../lib/logging";
 import type { CloudflareEdgeResponseCache } from "../cloudflare/cloudflare-edge-response-cache";
@@ -57,6 +60,7 @@ const RaffleViewerStatsResponseSchema = RaffleLeaderboardEntrySchema.extend({
 export type StatsRouteDependencies = Readonly<{
 	songRequests: SongRequestStatistics;
 	raffles: RaffleStatistics;
+	raids: RaidStatistics;
 	edgeResponseCache: CloudflareEdgeResponseCache;
 	logger: Logger;
 }>;
@@ -163,6 +167,22 @@ export function createStatsRoutes(dependencies: StatsRouteDependencies): Hono {
 		return context.json(result.value, 200, { "Cache-Control": "public, max-age=60" });
 	});
 
+	stats.get("/raids", async (context) => {
+		const query = LimitQuerySchema.safeParse(readHttpQueryParameters(context.req.url));
+		if (!query.success)
+			return context.json({ error: "Invalid query parameters", details: query.error.issues }, 400);
+		const { limit } = query.data;
+		const result = await dependencies.edgeResponseCache.readThrough({
+			key: makeStatsCacheKey("/api/stats/raids", { limit: String(limit) }),
+			maxAgeSeconds: 60,
+			schema: TopRaidersSchema,
+			load: () => dependencies.raids.getTopRaiders(limit),
+		});
+		if (result.status === "error")
+			return projectStatsFailure(context, result.error, dependencies.logger, "top_raiders");
+		return context.json(result.value, 200, { "Cache-Control": "public, max-age=60" });
+	});
+
 	return stats;
 }
 
@@ -182,7 +202,8 @@ function projectStatsFailure(
 	if (
 		EdgeCacheLoadError.is(error) ||
 		SongQueueUnavailableError.is(error) ||
-		(RaffleStatisticsReadError.is(error) && error.failure === "transport")
+		(RaffleStatisticsReadError.is(error) && error.failure === "transport") ||
+		(RaidHistoryError.is(error) && error.failure === "transport")
 	) {
 		return context.json({ error: "Service temporarily unavailable" }, 503);
 	}
@@ -3,10 +3,12 @@ import { Hono } from "hono";
 import { normalizeError, startTimer, withLogContext } from "../../lib/logger";
 import { createApiRoutes } from "./create-api-routes";
 import { createNowPlayingRoutes } from "./create-now-playing-routes";
+import { createProfileRoutes } from "./create-profile-routes";
 import { createStatsRoutes } from "./create-stats-routes";
 
 import type { AchievementReader, StreamLifecycle } from "../../capabilities/http-state-readers";
 import type { RaffleStatistics } from "../../capabilities/raffle-statistics";
+import type { RaidStatistics } from "../../capabilities/raid-history";
 import type { SongQueue } from "../../capabilities/song-queue";
 import type { Logger } from "../../lib/logger";
 import type { RedactedValue } from "../../lib/redacted";
@@ -26,6 +28,7 @@ export type WorkerHttpAppDependencies = Readonly<{
 	logger: Logger;
 	songQueue: SongQueue;
 	raffles: RaffleStatistics;
+	raids: RaidStatistics;
 	edgeResponseCache: CloudflareEdgeResponseCache;
 	administratorSecret: RedactedValue<string>;
 	streamLifecycle: StreamLifecycle;
@@ -124,10 +127,19 @@ export function createWorkerHttpApp<Bindings extends object>(
 		createStatsRoutes({
 			songRequests: dependencies.songQueue,
 			raffles: dependencies.raffles,
+			raids: dependencies.raids,
 			edgeResponseCache: dependencies.edgeResponseCache,
 			logger: dependencies.logger,
 		}),
 	);
+	app.route(
+		"/",
+		createProfileRoutes({
+			achievements: dependencies.achievements,
+			songRequests: dependencies.songQueue,
+			raffles: dependencies.raffles,
+		}),
+	);
 	app.route("/api/admin", dependencies.adminRoutes);
 	app.route("/overlay", dependencies.overlayRoutes);
 	app.get("/health", (context) => context.json({ status: "ok" }));
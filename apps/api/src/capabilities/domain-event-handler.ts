@@ -1,9 +1,10 @@
 import { TaggedError } from "better-result";
 
 import type { Event } from "../domain/domain-event";
+import type { EventDelivery } from "../domain/event-subscriber";
 import type { Result } from "better-result";
 
-/** Expected failure when Achievement rules cannot handle one domain event. */
+/** Expected failure when an Event Subscriber cannot handle one domain event. */
 export class DomainEventHandleError extends TaggedError("DomainEventHandleError")<{
 	readonly eventId: string;
 	readonly failure: "transport" | "protocol" | "remote";
@@ -21,8 +22,11 @@ export class DomainEventHandleError extends TaggedError("DomainEventHandleError"
 	}
 }
 
-/** Handles domain evidence by evaluating and persisting Achievement rules. */
+/** Handles domain events delivered to one Event Subscriber. */
 export interface DomainEventHandler {
-	/** Handles one idempotent domain event. */
-	handleEvent(event: Event): Promise<Result<void, DomainEventHandleError>>;
+	/** Handles one idempotent domain event; deliveries are live unless marked as a replay. */
+	handleEvent(
+		event: Event,
+		delivery?: EventDelivery,
+	): Promise<Result<void, DomainEventHandleError>>;
 }
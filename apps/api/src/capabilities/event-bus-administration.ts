@@ -1,15 +1,25 @@
 import { z } from "zod";
 
-import { EventSchema } from "../domain/domain-event";
+import { EventSchema, EventType } from "../domain/domain-event";
+import { EventSubscriberSchema } from "../domain/event-subscriber";
 
+import type { EventSubscriber } from "../domain/event-subscriber";
 import type { DLQItemNotFoundError, EventBusDbError, EventBusValidationError } from "../lib/errors";
 import type { Result } from "better-result";
 
+/** ISO instant normalized to UTC, so it compares as text with stored timestamps. */
+const InstantSchema = z.iso
+	.datetime({ offset: true })
+	.transform((value) => new Date(value).toISOString());
+
 /** Runtime parser for one Event Bus dead-letter item. */
 export const DeadLetterItemSchema = z.object({
 	id: z.string(),
+	subscriber: z.string(),
 	event: EventSchema.nullable(),
 	error: z.string(),
+	/** Tag of the subscriber's error, or of the remote error it relayed */
+	errorTag: z.string(),
 	attempts: z.number().int().nonnegative(),
 	firstFailedAt: z.string(),
 	lastFailedAt: z.string(),
@@ -28,6 +38,7 @@ export type DeadLetterList = z.infer<typeof DeadLetterListSchema>;
 /** Runtime parser for one pending Event Bus delivery. */
 export const PendingEventItemSchema = z.object({
 	id: z.string(),
+	subscriber: z.string(),
 	event: EventSchema.nullable(),
 	attempts: z.number().int().nonnegative(),
 	nextRetryAt: z.string(),
@@ -43,14 +54,194 @@ export const PendingEventListSchema = z.object({
 });
 export type PendingEventList = z.infer<typeof PendingEventListSchema>;
 
+/** Runtime parser for an attempted dead-letter replay to one subscriber. */
+export const DeadLetterReplayDeliverySchema = z.object({
+	subscriber: z.string(),
+	success: z.boolean(),
+	error: z.string().optional(),
+});
+
 /** Runtime parser for an attempted dead-letter replay. */
 export const DeadLetterReplayResultSchema = z.object({
+	/** True only when every replayed subscriber accepted the Event */
 	success: z.boolean(),
 	eventId: z.string(),
+	/** First subscriber failure, if any */
 	error: z.string().optional(),
+	deliveries: z.array(DeadLetterReplayDeliverySchema),
 });
 export type DeadLetterReplayResult = z.infer<typeof DeadLetterReplayResultSchema>;
 
+/**
+ * Most dead letters one bulk replay call re-delivers. Each delivery can wait out
+ * a webhook timeout, so the Event Bus also stops early once its time budget is spent.
+ */
+export const DEAD_LETTER_BULK_REPLAY_MAX_LIMIT = 100;
+
+/** Every filter is optional; an omitted one matches every dead letter. */
+const deadLetterFilterFields = {
+	types: z.array(z.enum(EventType)).min(1).optional(),
+	subscriber: EventSubscriberSchema.optional(),
+	errorTags: z.array(z.string().min(1)).min(1).optional(),
+	/** Inclusive lower bound on when the delivery first failed */
+	from: InstantSchema.optional(),
+	/** Exclusive upper bound on when the delivery first failed */
+	to: InstantSchema.optional(),
+	/** Count what would be affected without changing anything; callers opt out with `false` */
+	dryRun: z.boolean().default(true),
+};
+
+function hasOrderedRange(filter: { readonly from?: string; readonly to?: string }): boolean {
+	return filter.from === undefined || filter.to === undefined || filter.from < filter.to;
+}
+
+function hasFilterOrAll(request: {
+	readonly all?: true;
+	readonly types?: readonly string[];
+	readonly subscriber?: string;
+	readonly errorTags?: readonly string[];
+	readonly from?: string;
+	readonly to?: string;
+}): boolean {
+	return (
+		request.all === true ||
+		[request.types, request.subscriber, request.errorTags, request.from, request.to].some(
+			(filter) => filter !== undefined,
+		)
+	);
+}
+
+/** Runtime parser for a request to re-deliver every dead letter matching a filter. */
+export const DeadLetterBulkReplayRequestSchema = z
+	.strictObject({
+		...deadLetterFilterFields,
+		limit: z.number().int().min(1).max(DEAD_LETTER_BULK_REPLAY_MAX_LIMIT).default(25),
+	})
+	.refine(hasOrderedRange, { message: "from must be before to", path: ["to"] });
+/** Dead-letter bulk replay request as submitted by an administrator. */
+export type DeadLetterBulkReplayRequest = z.input<typeof DeadLetterBulkReplayRequestSchema>;
+
+/**
+ * Runtime parser for a request to delete every dead letter matching a filter.
+ * Deleting the whole DLQ takes an explicit `all: true` rather than an empty filter.
+ */
+export const DeadLetterBulkDeleteRequestSchema = z
+	.strictObject({ ...deadLetterFilterFields, all: z.literal(true).optional() })
+	.refine(hasOrderedRange, { message: "from must be before to", path: ["to"] })
+	.refine(hasFilterOrAll, { message: "Pass at least one filter or all: true", path: ["all"] });
+/** Dead-letter bulk delete request as submitted by an administrator. */
+export type DeadLetterBulkDeleteRequest = z.input<typeof DeadLetterBulkDeleteRequestSchema>;
+
+/** Parsed dead-letter filter shared by bulk replay and delete. */
+export type DeadLetterFilter = Omit<
+	z.output<typeof DeadLetterBulkDeleteRequestSchema>,
+	"dryRun" | "all"
+>;
+
+/** Runtime parser for the outcome of a dead-letter bulk replay. */
+export const DeadLetterBulkReplayResultSchema = z.object({
+	dryRun: z.boolean(),
+	/** Dead letters matching the filter */
+	matched: z.number().int().nonnegative(),
+	/** Dead letters the subscriber accepted; they leave the DLQ */
+	replayed: z.number().int().nonnegative(),
+	/** Dead letters that could not be re-delivered; they stay in the DLQ */
+	failures: z.array(z.object({ eventId: z.string(), subscriber: z.string(), error: z.string() })),
+	/** Matching dead letters past this call's limit or time budget, left for the next call */
+	remaining: z.number().int().nonnegative(),
+});
+/** Outcome of a dead-letter bulk replay. */
+export type DeadLetterBulkReplayResult = z.infer<typeof DeadLetterBulkReplayResultSchema>;
+
+/** Runtime parser for the outcome of a dead-letter bulk delete. */
+export const DeadLetterBulkDeleteResultSchema = z.object({
+	dryRun: z.boolean(),
+	matched: z.number().int().nonnegative(),
+	deleted: z.number().int().nonnegative(),
+});
+/** Outcome of a dead-letter bulk delete. */
+export type DeadLetterBulkDeleteResult = z.infer<typeof DeadLetterBulkDeleteResultSchema>;
+
+/** Runtime parser for the DLQ grouped by error reason, largest group first. */
+export const DeadLetterSummarySchema = z.object({
+	totalCount: z.number().int().nonnegative(),
+	reasons: z.array(
+		z.object({
+			errorTag: z.string(),
+			count: z.number().int().positive(),
+			subscribers: z.array(z.string()),
+			eventTypes: z.array(z.string()),
+			oldestFailedAt: z.string(),
+			newestFailedAt: z.string(),
+		}),
+	),
+});
+/** Dead letters grouped by error reason. */
+export type DeadLetterSummary = z.infer<typeof DeadLetterSummarySchema>;
+
+/** Runtime parser for one subscriber's Event Bus backlog. */
+export const EventSubscriberLagSchema = z.object({
+	subscriber: EventSubscriberSchema,
+	eventTypes: z.array(z.string()),
+	pendingCount: z.number().int().nonnegative(),
+	deadLetterCount: z.number().int().nonnegative(),
+	/** When the oldest delivery still awaiting retry was first attempted */
+	oldestPendingAt: z.string().nullable(),
+	/** Milliseconds the oldest pending delivery has been waiting, or 0 when caught up */
+	lagMs: z.number().int().nonnegative(),
+	lastDeliveredAt: z.string().nullable(),
+});
+/** How far one subscriber is behind the Event Bus. */
+export type EventSubscriberLag = z.infer<typeof EventSubscriberLagSchema>;
+
+/** Runtime parser for every registered subscriber's Event Bus backlog. */
+export const EventSubscriberLagListSchema = z.array(EventSubscriberLagSchema);
+
+/** Most Event Log entries one replay call re-delivers. */
+export const EVENT_LOG_REPLAY_MAX_LIMIT = 500;
+
+/** Runtime parser for a position in the Event Log, ordered by occurrence time then event id. */
+export const EventLogCursorSchema = z.object({
+	occurredAt: InstantSchema,
+	id: z.string().min(1),
+});
+/** Resume point for a paginated Event Log replay. */
+export type EventLogCursor = z.infer<typeof EventLogCursorSchema>;
+
+/** Runtime parser for a request to replay one time range of the Event Log to one subscriber. */
+export const EventLogReplayRequestSchema = z
+	.strictObject({
+		subscriber: EventSubscriberSchema,
+		/** Inclusive lower bound on event occurrence time */
+		from: InstantSchema,
+		/** Exclusive upper bound on event occurrence time */
+		to: InstantSchema,
+		/** Event types to replay; defaults to every type the subscriber receives */
+		types: z.array(z.enum(EventType)).min(1).optional(),
+		/** Continue after the last event of a previous page */
+		after: EventLogCursorSchema.optional(),
+		limit: z.number().int().min(1).max(EVENT_LOG_REPLAY_MAX_LIMIT).default(100),
+	})
+	.refine((request) => request.from < request.to, {
+		message: "from must be before to",
+		path: ["to"],
+	});
+/** Event Log replay request as submitted by an administrator. */
+export type EventLogReplayRequest = z.input<typeof EventLogReplayRequestSchema>;
+
+/** Runtime parser for the outcome of replaying one page of the Event Log. */
+export const EventLogReplayResultSchema = z.object({
+	subscriber: EventSubscriberSchema,
+	/** Events the subscriber accepted */
+	replayed: z.number().int().nonnegative(),
+	/** Events the subscriber rejected; they stay logged and are not retried */
+	failures: z.array(z.object({ eventId: z.string(), eventType: z.string(), error: z.string() })),
+	/** Pass as `after` to replay the next page, or null when the range is exhausted */
+	nextCursor: EventLogCursorSchema.nullable(),
+});
+/** Outcome of replaying one page of the Event Log. */
+export type EventLogReplayResult = z.infer<typeof EventLogReplayResultSchema>;
+
 export type EventBusAdministrationError =
 	| EventBusDbError
 	| EventBusValidationError
@@ -68,10 +259,30 @@ export interface EventBusAdministration {
 		readonly limit: number;
 		readonly offset: number;
 	}): Promise<Result<DeadLetterList, EventBusAdministrationError>>;
-	/** Attempts to replay one dead-letter Event. */
+	/** Attempts to replay one dead-letter Event to one subscriber, or to every subscriber it failed for. */
 	replayDeadLetter(
 		id: string,
+		subscriber?: EventSubscriber,
 	): Promise<Result<DeadLetterReplayResult, EventBusAdministrationError>>;
-	/** Permanently deletes one dead-letter Event. */
-	deleteDeadLetter(id: string): Promise<Result<void, EventBusAdministrationError>>;
+	/** Permanently deletes one dead-letter Event for one subscriber, or for every subscriber. */
+	deleteDeadLetter(
+		id: string,
+		subscriber?: EventSubscriber,
+	): Promise<Result<void, EventBusAdministrationError>>;
+	/** Groups every dead-letter Event by error reason. */
+	getDeadLetterSummary(): Promise<Result<DeadLetterSummary, EventBusAdministrationError>>;
+	/** Re-delivers up to one page of dead letters matching a filter, or only counts them on a dry run. */
+	replayDeadLetters(
+		request: DeadLetterBulkReplayRequest,
+	): Promise<Result<DeadLetterBulkReplayResult, EventBusAdministrationError>>;
+	/** Permanently deletes every dead letter matching a filter, or only counts them on a dry run. */
+	deleteDeadLetters(
+		request: DeadLetterBulkDeleteRequest,
+	): Promise<Result<DeadLetterBulkDeleteResult, EventBusAdministrationError>>;
+	/** Reports each registered subscriber's pending and dead-letter backlog. */
+	getSubscriberLag(): Promise<Result<EventSubscriberLag[], EventBusAdministrationError>>;
+	/** Re-delivers one page of logged events in a time range to one subscriber, marked as a replay. */
+	replayEventLog(
+		request: EventLogReplayRequest,
+	): Promise<Result<EventLogReplayResult, EventBusAdministrationError>>;
 }
@@ -51,3 +51,30 @@ export interface EventSubReceiptAcceptor {
 		receipt: AcceptedEventSubReceipt,
 	): Promise<Result<void, EventSubReceiptAcceptanceError>>;
 }
+
+/** Runtime parser for one Viewer's claim on a Chat Activity window for one command. */
+export const ChatActivityClaimSchema = z.object({
+	userId: z.string().min(1),
+	commandName: z.string().min(1).nullable(),
+	window: z.number().int().nonnegative(),
+});
+
+/** One Viewer's claim on a Chat Activity window for one command, or plain chat when null. */
+export type ChatActivityClaim = z.infer<typeof ChatActivityClaimSchema>;
+
+/** Expected failure when a Chat Activity window cannot be claimed. */
+export class ChatActivityClaimError extends TaggedError("ChatActivityClaimError")<{
+	readonly failure: "transport" | "protocol" | "invalid";
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: { failure: "transport" | "protocol" | "invalid"; cause?: unknown }) {
+		super({ ...args, message: `Chat Activity claim failed (${args.failure})` });
+	}
+}
+
+/** Remembers the last Chat Activity window published for each Viewer and command. */
+export interface ChatActivityThrottle {
+	/** Claims a window; false when this Viewer and command already published in it or a later one. */
+	claim(claim: ChatActivityClaim): Promise<Result<boolean, ChatActivityClaimError>>;
+}
@@ -1,15 +1,28 @@
 import { TaggedError } from "better-result";
 
 import type {
+	AchievementBackfillRun,
 	AchievementDebugTableCounts,
 	AchievementDebugUserSnapshot,
-	AchievementDefinition,
+	AchievementDefinitionWithRarity,
+	AchievementDefinitionUpdateResult,
 	AchievementLeaderboardEntry,
 	AchievementResetResult,
+	CreateAchievementDefinitionInput,
+	ManagedAchievementDefinition,
+	StartAchievementBackfillInput,
 	UnlockedAchievement,
+	UpdateAchievementDefinitionInput,
 	ViewerAchievementProgress,
 } from "../domain/achievement";
+import type {
+	AchievementModerationAuditQuery,
+	AchievementModerationEntry,
+	AchievementModerationInput,
+} from "../domain/achievement-moderation";
+import type { CreateSeasonInput, Season, SeasonLeaderboard } from "../domain/season";
 import type { StreamLifecycleState } from "../domain/stream-lifecycle";
+import type { ViewerAchievementProfile } from "../domain/viewer-profile";
 import type { Result } from "better-result";
 
 /** Expected failure while reading or transitioning public application state. */
@@ -38,20 +51,37 @@ export class ApplicationStateError extends TaggedError("ApplicationStateError")<
 /** Public state operations used for failure classification and tracing. */
 export type ApplicationStateOperation =
 	| "getStreamState"
+	| "getLatestViewerCount"
 	| "markStreamOnline"
 	| "markStreamOffline"
 	| "getAchievementDefinitions"
 	| "getAchievementLeaderboard"
 	| "getViewerAchievements"
 	| "getViewerUnlockedAchievements"
+	| "getViewerAchievementProfile"
 	| "resetOneTimeAchievements"
 	| "getAchievementDebugTableCounts"
-	| "getAchievementDebugUserSnapshot";
+	| "getAchievementDebugUserSnapshot"
+	| "listAchievementDefinitions"
+	| "createAchievementDefinition"
+	| "updateAchievementDefinition"
+	| "retireAchievementDefinition"
+	| "startAchievementBackfill"
+	| "getAchievementBackfillRun"
+	| "listSeasons"
+	| "getSeasonLeaderboard"
+	| "createSeason"
+	| "rollOverSeason"
+	| "grantAchievement"
+	| "revokeAchievement"
+	| "getAchievementModerationAudit";
 
 /** Reads and reconciles durable Stream Lifecycle state. */
 export interface StreamLifecycle {
 	/** Reads the current Stream Lifecycle State. */
 	getStreamState(): Promise<Result<StreamLifecycleState, ApplicationStateError>>;
+	/** Reads the most recent viewer count of the active Stream Session, or null while offline. */
+	getLatestViewerCount(): Promise<Result<number | null, ApplicationStateError>>;
 	/** Marks a Stream Session online at an authoritative timestamp. */
 	markStreamOnline(startedAt: string): Promise<Result<void, ApplicationStateError>>;
 	/** Marks the active Stream Session offline. */
@@ -70,12 +100,59 @@ export interface AchievementAdministration {
 	getDebugUserSnapshot(
 		viewer: string,
 	): Promise<Result<AchievementDebugUserSnapshot, ApplicationStateError>>;
+	/** Lists every Achievement Definition, including disabled and retired ones. */
+	listDefinitions(): Promise<
+		Result<readonly ManagedAchievementDefinition[], ApplicationStateError>
+	>;
+	/** Creates one Achievement Definition. */
+	createDefinition(
+		input: CreateAchievementDefinitionInput,
+	): Promise<Result<ManagedAchievementDefinition, ApplicationStateError>>;
+	/** Edits one Achievement Definition, unlocking Viewers whose progress now qualifies. */
+	updateDefinition(
+		achievementId: string,
+		patch: UpdateAchievementDefinitionInput,
+	): Promise<Result<AchievementDefinitionUpdateResult, ApplicationStateError>>;
+	/** Retires one Achievement Definition while keeping earned unlocks. */
+	retireDefinition(
+		achievementId: string,
+	): Promise<Result<ManagedAchievementDefinition, ApplicationStateError>>;
+	/** Starts replaying Song Request and Raffle Roll history into Achievement progress. */
+	startBackfill(
+		input: StartAchievementBackfillInput,
+	): Promise<Result<AchievementBackfillRun, ApplicationStateError>>;
+	/** Reads one Achievement Backfill run, or the latest without an id; null when there is none. */
+	getBackfillRun(
+		runId?: string,
+	): Promise<Result<AchievementBackfillRun | null, ApplicationStateError>>;
+	/** Creates one Season and schedules its rollover for when it ends. */
+	createSeason(input: CreateSeasonInput): Promise<Result<Season, ApplicationStateError>>;
+	/** Rolls one Season over now, archiving its standings. */
+	rollOverSeason(seasonId: string): Promise<Result<Season, ApplicationStateError>>;
+}
+
+/** Grants and revokes individual Viewers' Achievements by hand, with an audit. */
+export interface AchievementModeration {
+	/** Unlocks one Achievement for one Viewer through the normal unlock announcement path. */
+	grantAchievement(
+		input: AchievementModerationInput,
+	): Promise<Result<AchievementModerationEntry, ApplicationStateError>>;
+	/** Takes one unlocked Achievement away from one Viewer and resets its progress. */
+	revokeAchievement(
+		input: AchievementModerationInput,
+	): Promise<Result<AchievementModerationEntry, ApplicationStateError>>;
+	/** Reads the Achievement Moderation audit, newest first. */
+	getModerationAudit(
+		query: AchievementModerationAuditQuery,
+	): Promise<Result<readonly AchievementModerationEntry[], ApplicationStateError>>;
 }
 
 /** Reads public Achievement Definition, progress, unlock, and ranking projections. */
 export interface AchievementReader {
-	/** Reads all persisted Achievement Definitions. */
-	getDefinitions(): Promise<Result<readonly AchievementDefinition[], ApplicationStateError>>;
+	/** Reads all active Achievement Definitions with their rarity. */
+	getDefinitions(): Promise<
+		Result<readonly AchievementDefinitionWithRarity[], ApplicationStateError>
+	>;
 	/** Reads the Achievement ranking by unlocked count. */
 	getLeaderboard(options: {
 		readonly limit: number;
@@ -88,4 +165,15 @@ export interface AchievementReader {
 	getViewerUnlockedAchievements(
 		viewer: string,
 	): Promise<Result<readonly UnlockedAchievement[], ApplicationStateError>>;
+	/** Reads one Viewer's progress, Request Streak, and recent activity by login or display name. */
+	getViewerAchievementProfile(
+		viewer: string,
+	): Promise<Result<ViewerAchievementProfile | null, ApplicationStateError>>;
+	/** Reads every Season, newest first. */
+	listSeasons(): Promise<Result<readonly Season[], ApplicationStateError>>;
+	/** Reads one Season's archived or live standings; null for an unknown Season. */
+	getSeasonLeaderboard(
+		seasonId: string,
+		options: { readonly limit: number },
+	): Promise<Result<SeasonLeaderboard | null, ApplicationStateError>>;
 }
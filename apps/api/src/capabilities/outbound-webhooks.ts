@@ -0,0 +1,50 @@
+import { TaggedError } from "better-result";
+
+import type {
+	CreateOutboundWebhookInput,
+	OutboundWebhook,
+	UpdateOutboundWebhookInput,
+} from "../domain/outbound-webhook";
+import type { Result } from "better-result";
+
+/** Outbound Webhook operations used for failure classification and tracing. */
+export type OutboundWebhookOperation =
+	| "listWebhooks"
+	| "createWebhook"
+	| "updateWebhook"
+	| "deleteWebhook";
+
+/** Expected failure while reading or administering Outbound Webhooks. */
+export class OutboundWebhookStoreError extends TaggedError("OutboundWebhookStoreError")<{
+	readonly operation: OutboundWebhookOperation;
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		operation: OutboundWebhookOperation;
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Outbound webhook ${args.operation} failed (${args.failure})` });
+	}
+}
+
+/** Registers, edits, lists, and deletes Outbound Webhook endpoints. */
+export interface OutboundWebhookAdministration {
+	/** Lists every endpoint, without secrets. */
+	listWebhooks(): Promise<Result<readonly OutboundWebhook[], OutboundWebhookStoreError>>;
+	/** Registers one endpoint. */
+	createWebhook(
+		input: CreateOutboundWebhookInput,
+	): Promise<Result<OutboundWebhook, OutboundWebhookStoreError>>;
+	/** Applies a partial edit to one endpoint. */
+	updateWebhook(
+		webhookId: string,
+		patch: UpdateOutboundWebhookInput,
+	): Promise<Result<OutboundWebhook, OutboundWebhookStoreError>>;
+	/** Deletes one endpoint; false when the id was unknown. */
+	deleteWebhook(webhookId: string): Promise<Result<boolean, OutboundWebhookStoreError>>;
+}
@@ -0,0 +1,62 @@
+import { TaggedError } from "better-result";
+
+import type { OverlayAlert, OverlayEvent } from "../domain/overlay-event";
+import type { Result } from "better-result";
+
+/** Expected failure when an overlay event cannot be appended to the Overlay Feed. */
+export class OverlayFeedPublishError extends TaggedError("OverlayFeedPublishError")<{
+	readonly eventId: string;
+	readonly eventType: OverlayEvent["type"];
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		eventId: string;
+		eventType: OverlayEvent["type"];
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Overlay event publish failed (${args.failure})` });
+	}
+}
+
+/** Expected failure while reading or advancing the alert display queue. */
+export class OverlayAlertQueueError extends TaggedError("OverlayAlertQueueError")<{
+	readonly operation: "nextAlert" | "markAlertShown";
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		operation: "nextAlert" | "markAlertShown";
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Overlay alert queue ${args.operation} failed (${args.failure})` });
+	}
+}
+
+/** Appends display events to the Overlay Feed for fan-out to connected overlays. */
+export interface OverlayFeedPublisher {
+	/** Appends one event; republishing an event id is acknowledged without a duplicate. */
+	publish(event: OverlayEvent): Promise<Result<void, OverlayFeedPublishError>>;
+}
+
+/** Accepts overlay WebSocket connections to the Overlay Feed. */
+export interface OverlayFeedConnections {
+	/** Hands a WebSocket upgrade request to the feed and returns its handshake response. */
+	connect(request: Request): Promise<Response>;
+}
+
+/** Sequences alert toasts so overlays show one alert at a time, each only once. */
+export interface OverlayAlertQueue {
+	/** Reads the oldest alert not yet shown, or null when the queue is empty. */
+	nextAlert(): Promise<Result<OverlayAlert | null, OverlayAlertQueueError>>;
+	/** Removes a shown alert from the queue; false when the alert id is unknown. */
+	markAlertShown(alertId: string): Promise<Result<boolean, OverlayAlertQueueError>>;
+}
@@ -0,0 +1,48 @@
+import { TaggedError } from "better-result";
+
+import type { OverlayTheme, OverlayThemePreset } from "../domain/overlay-theme";
+import type { Result } from "better-result";
+
+/** Overlay Theme preset operations used for failure classification and tracing. */
+export type OverlayThemeOperation =
+	| "getThemePreset"
+	| "listThemePresets"
+	| "saveThemePreset"
+	| "deleteThemePreset";
+
+/** Expected failure while reading or administering Overlay Theme presets. */
+export class OverlayThemeStoreError extends TaggedError("OverlayThemeStoreError")<{
+	readonly operation: OverlayThemeOperation;
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		operation: OverlayThemeOperation;
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Overlay theme ${args.operation} failed (${args.failure})` });
+	}
+}
+
+/** Reads the Overlay Theme presets that overlay pages select by name. */
+export interface OverlayThemeReader {
+	/** Reads one preset, or null when no preset has that name. */
+	getThemePreset(name: string): Promise<Result<OverlayThemePreset | null, OverlayThemeStoreError>>;
+}
+
+/** Creates, replaces, lists, and deletes Overlay Theme presets. */
+export interface OverlayThemeAdministration {
+	/** Lists every preset by name. */
+	listThemePresets(): Promise<Result<readonly OverlayThemePreset[], OverlayThemeStoreError>>;
+	/** Creates or replaces one preset. */
+	saveThemePreset(
+		name: string,
+		theme: OverlayTheme,
+	): Promise<Result<OverlayThemePreset, OverlayThemeStoreError>>;
+	/** Deletes one preset; false when no preset had that name. */
+	deleteThemePreset(name: string): Promise<Result<boolean, OverlayThemeStoreError>>;
+}
@@ -1,6 +1,11 @@
 import { TaggedError } from "better-result";
 
-import type { RaffleLeaderboardEntry, RaffleLeaderboardQuery } from "../domain/keyboard-raffle";
+import type {
+	KeyboardRaffleRoll,
+	KeyboardRaffleRollCursor,
+	RaffleLeaderboardEntry,
+	RaffleLeaderboardQuery,
+} from "../domain/keyboard-raffle";
 import type { Result } from "better-result";
 
 /** Expected failure when Keyboard Raffle statistics cannot be read or parsed. */
@@ -45,7 +50,8 @@ export class RaffleViewerNotFoundError extends TaggedError("RaffleViewerNotFound
 export type RaffleStatisticsOperation =
 	| "getLeaderboard"
 	| "getViewerStats"
-	| "getViewerStatsByDisplayName";
+	| "getViewerStatsByDisplayName"
+	| "getRollsAfter";
 
 /** Expected failures returned by the Keyboard Raffle statistics capability. */
 export type RaffleStatisticsError = RaffleStatisticsReadError | RaffleViewerNotFoundError;
@@ -63,3 +69,12 @@ export interface RaffleStatistics {
 		displayName: string,
 	): Promise<Result<RaffleLeaderboardEntry, RaffleStatisticsError>>;
 }
+
+/** Reads persisted Keyboard Raffle Rolls in chronological order for replay. */
+export interface RaffleRollHistory {
+	/** Reads a bounded page of Rolls ordered by (rolledAt, id), after the cursor when given. */
+	getRollsAfter(
+		cursor: KeyboardRaffleRollCursor | null,
+		limit: number,
+	): Promise<Result<readonly KeyboardRaffleRoll[], RaffleStatisticsReadError>>;
+}
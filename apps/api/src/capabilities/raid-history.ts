@@ -0,0 +1,37 @@
+import { TaggedError } from "better-result";
+
+import type { Raid, RecordRaid, TopRaider } from "../domain/raid";
+import type { Result } from "better-result";
+
+/** Raid history operations used for typed failure classification. */
+export type RaidHistoryOperation = "recordRaid" | "getTopRaiders";
+
+/** Expected failure while recording or reading Raid history. */
+export class RaidHistoryError extends TaggedError("RaidHistoryError")<{
+	readonly operation: RaidHistoryOperation;
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		operation: RaidHistoryOperation;
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Raid history failed during ${args.operation} (${args.failure})` });
+	}
+}
+
+/** Records incoming Raids against the Stream Session they arrive during. */
+export interface RaidRecorder {
+	/** Records one idempotent Raid and returns it with derived record evidence. */
+	recordRaid(input: RecordRaid): Promise<Result<Raid, RaidHistoryError>>;
+}
+
+/** Reads Raiders ranked by their Raid history. */
+export interface RaidStatistics {
+	/** Reads a bounded ranking of Raiders by Raid count, then total viewers. */
+	getTopRaiders(limit: number): Promise<Result<readonly TopRaider[], RaidHistoryError>>;
+}
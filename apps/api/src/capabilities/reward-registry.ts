@@ -0,0 +1,63 @@
+import { TaggedError } from "better-result";
+
+import type {
+	RewardBinding,
+	SaveRewardBindingInput,
+	UnrecognizedReward,
+} from "../domain/channel-point-reward";
+import type { TwitchRedemption } from "../lib/channel-point-redemptions";
+import type { Result } from "better-result";
+
+/** Reward registry operations used for failure classification and tracing. */
+export type RewardRegistryOperation =
+	| "resolveReward"
+	| "recordUnrecognizedRedemption"
+	| "listRewards"
+	| "saveReward"
+	| "deleteReward"
+	| "listUnrecognizedRewards";
+
+/** Expected failure while reading or administering the reward registry. */
+export class RewardRegistryStoreError extends TaggedError("RewardRegistryStoreError")<{
+	readonly operation: RewardRegistryOperation;
+	readonly failure: "transport" | "remote";
+	readonly remoteErrorTag?: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: {
+		operation: RewardRegistryOperation;
+		failure: "transport" | "remote";
+		remoteErrorTag?: string;
+		cause?: unknown;
+	}) {
+		super({ ...args, message: `Reward registry ${args.operation} failed (${args.failure})` });
+	}
+}
+
+/** Looks up Reward Bindings for incoming Channel Point Redemptions. */
+export interface RewardRouter {
+	/** Reads the binding for one reward id, or null when the reward is unbound. */
+	resolveReward(rewardId: string): Promise<Result<RewardBinding | null, RewardRegistryStoreError>>;
+	/** Records a redemption of an unbound reward so an admin can wire it later. */
+	recordUnrecognizedRedemption(
+		redemption: TwitchRedemption,
+	): Promise<Result<void, RewardRegistryStoreError>>;
+}
+
+/** Creates, replaces, lists, and deletes Reward Bindings. */
+export interface RewardRegistryAdministration {
+	/** Lists every binding by reward id. */
+	listRewards(): Promise<Result<readonly RewardBinding[], RewardRegistryStoreError>>;
+	/** Creates or replaces the binding for one reward id. */
+	saveReward(
+		rewardId: string,
+		input: SaveRewardBindingInput,
+	): Promise<Result<RewardBinding, RewardRegistryStoreError>>;
+	/** Deletes one binding; false when the reward was not bound. */
+	deleteReward(rewardId: string): Promise<Result<boolean, RewardRegistryStoreError>>;
+	/** Lists unbound rewards that viewers have redeemed. */
+	listUnrecognizedRewards(): Promise<
+		Result<readonly UnrecognizedReward[], RewardRegistryStoreError>
+	>;
+}
@@ -3,13 +3,30 @@ import { TaggedError } from "better-result";
 import { SongQueueDbError } from "../lib/errors";
 
 import type {
+	AddTrackBlocklistEntryInput,
 	PendingRequestInput,
+	RequestHistoryCursor,
+	RequestHistoryItem,
 	RequestHistoryResult,
+	SongRequestPermission,
+	SongRequestPolicy,
+	SongRequestPolicyCheck,
+	SongRequestPolicyDecision,
+	SongRequestRemoval,
+	SongRequestSelector,
+	SongRequestWithdrawal,
+	SongRequestsCleared,
 	SpotifyQueueResult,
 	TopRequestedTrack,
 	TopSongRequester,
+	TrackBlocklistEntry,
+	TrackBlocklistKey,
+	TrackContentCheck,
+	TrackContentDecision,
+	TrackContentFilter,
+	TrackContentRules,
 } from "../domain/song-request";
-import type { NowPlaying } from "../domain/spotify-queue";
+import type { NowPlaying, SkipVoteInput, SkipVoteResult } from "../domain/spotify-queue";
 import type { Result } from "better-result";
 
 /** Expected failure when Song Queue input, RPC data, or persisted state cannot be parsed. */
@@ -39,6 +56,21 @@ export class SongQueueCoordinationError extends TaggedError("SongQueueCoordinati
 	}
 }
 
+/** Expected failure when Spotify cannot carry out a Song Queue playback change. */
+export class SongQueueSpotifyError extends TaggedError("SongQueueSpotifyError")<{
+	readonly operation: string;
+	readonly spotifyErrorTag: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {
+	constructor(args: { operation: string; spotifyErrorTag: string; cause?: unknown }) {
+		super({
+			...args,
+			message: `Spotify failed during ${args.operation} (${args.spotifyErrorTag})`,
+		});
+	}
+}
+
 /** Expected failure when a Song Queue Durable Object operation cannot be reached. */
 export class SongQueueUnavailableError extends TaggedError("SongQueueUnavailableError")<{
 	readonly operation: SongQueueOperation;
@@ -61,21 +93,36 @@ export class SongQueueUnavailableError extends TaggedError("SongQueueUnavailable
 /** Public Song Queue operations used to classify failures and tracing spans. */
 export type SongQueueOperation =
 	| "persistPendingRequest"
+	| "admitPendingRequest"
 	| "deletePendingRequest"
 	| "getSpotifyQueue"
 	| "getNowPlaying"
 	| "getRequestHistory"
+	| "getRequestHistoryAfter"
 	| "getViewerRequestCount"
 	| "getViewerRequestCountByDisplayName"
 	| "getTopTracks"
 	| "getViewerTopTracks"
-	| "getTopRequesters";
+	| "getTopRequesters"
+	| "castSkipVote"
+	| "checkSongRequestPolicy"
+	| "getSongRequestPolicies"
+	| "updateSongRequestPolicy"
+	| "checkTrackContent"
+	| "getTrackContentFilter"
+	| "updateTrackContentRules"
+	| "addTrackBlocklistEntry"
+	| "removeTrackBlocklistEntry"
+	| "removeSongRequest"
+	| "withdrawSongRequest"
+	| "clearSongRequests";
 
 /** Expected Song Queue failures that retain safe operation and failure context. */
 export type SongQueueFailure =
 	| SongQueueDbError
 	| SongQueueParseError
 	| SongQueueCoordinationError
+	| SongQueueSpotifyError
 	| SongQueueUnavailableError;
 
 /** Reads Now Playing and upcoming Spotify Queue state. */
@@ -90,6 +137,11 @@ export interface SongQueueReader {
 export interface PendingRequestStore {
 	/** Persists one parsed Pending Request before Spotify Queue mutation. */
 	persistPendingRequest(request: PendingRequestInput): Promise<Result<void, SongQueueFailure>>;
+	/** Persists one Pending Request only if its Viewer role's policy admits it at insert time. */
+	admitPendingRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueFailure>>;
 	/** Deletes one Pending Request during compensation or cleanup. */
 	deletePendingRequest(eventId: string): Promise<Result<void, SongQueueFailure>>;
 }
@@ -120,5 +172,75 @@ export interface SongRequestStatistics {
 	getTopRequesters(limit: number): Promise<Result<TopSongRequester[], SongQueueFailure>>;
 }
 
+/** Reads Request History in a stable chronological order for replay. */
+export interface RequestHistoryReplay {
+	/** Reads a bounded page ordered by (requestedAt, eventId), after the cursor when given. */
+	getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<Result<RequestHistoryItem[], SongQueueFailure>>;
+}
+
+/** Tallies distinct Viewer Skip Votes against Now Playing. */
+export interface SkipVoting {
+	/** Records one Viewer's Skip Vote and skips Now Playing once the threshold is reached. */
+	castSkipVote(vote: SkipVoteInput): Promise<Result<SkipVoteResult, SongQueueFailure>>;
+}
+
+/** Applies and manages per-role Song Request quotas and cooldowns. */
+export interface SongRequestPolicies {
+	/** Decides whether a Viewer in one role may add another Song Request. */
+	checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueFailure>>;
+	/** Lists the effective Song Request Policy of every Viewer role. */
+	getSongRequestPolicies(): Promise<Result<SongRequestPolicy[], SongQueueFailure>>;
+	/** Stores one Viewer role's Song Request Policy. */
+	updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<Result<SongRequestPolicy, SongQueueFailure>>;
+}
+
+/** Applies and manages the Track Content Rules and Track Blocklist. */
+export interface TrackContentFiltering {
+	/** Decides whether a Spotify Track may be requested. */
+	checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<Result<TrackContentDecision, SongQueueFailure>>;
+	/** Reads the effective Track Content Rules and the full Track Blocklist. */
+	getTrackContentFilter(): Promise<Result<TrackContentFilter, SongQueueFailure>>;
+	/** Stores the Track Content Rules. */
+	updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<Result<TrackContentRules, SongQueueFailure>>;
+	/** Bans one Spotify Track or artist, replacing any existing label. */
+	addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<Result<TrackBlocklistEntry, SongQueueFailure>>;
+	/** Lifts one ban, reporting whether it existed. */
+	removeTrackBlocklistEntry(key: TrackBlocklistKey): Promise<Result<boolean, SongQueueFailure>>;
+}
+
+/** Takes upcoming Pending Requests back out of the Spotify Queue mid-stream. */
+export interface SongRequestModeration {
+	/** Removes one upcoming Pending Request on a moderator's behalf. */
+	removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<Result<SongRequestRemoval, SongQueueFailure>>;
+	/** Removes a Viewer's latest Pending Request and refunds it if it has not reached Now Playing. */
+	withdrawSongRequest(userId: string): Promise<Result<SongRequestWithdrawal, SongQueueFailure>>;
+	/** Removes every upcoming Pending Request, leaving Now Playing untouched. */
+	clearSongRequests(): Promise<Result<SongRequestsCleared, SongQueueFailure>>;
+}
+
 /** Complete application-owned Song Queue capability used by composition roots. */
-export interface SongQueue extends SongQueueReader, PendingRequestStore, SongRequestStatistics {}
+export interface SongQueue
+	extends
+		SongQueueReader,
+		PendingRequestStore,
+		SongRequestStatistics,
+		RequestHistoryReplay,
+		SkipVoting,
+		SongRequestPolicies,
+		TrackContentFiltering,
+		SongRequestModeration {}
@@ -11,5 +11,6 @@ declare namespace Cloudflare {
 		SPOTIFY_CLIENT_SECRET: string;
 		OAUTH_SETUP_SECRET: string;
 		ADMIN_SECRET: string;
+		OVERLAY_SECRET: string;
 	}
 }
@@ -12,8 +12,10 @@ const validBindings = {
 	SPOTIFY_CLIENT_SECRET: "spotify-secret",
 	OAUTH_SETUP_SECRET: "oauth-secret",
 	ADMIN_SECRET: "admin-secret",
+	OVERLAY_SECRET: "overlay-secret",
 	SONG_REQUEST_REWARD_ID: "song-reward",
 	KEYBOARD_RAFFLE_REWARD_ID: "raffle-reward",
+	PUBLIC_BASE_URL: "https://stream.example/",
 };
 
 describe("Worker configuration", () => {
@@ -28,9 +30,30 @@ describe("Worker configuration", () => {
 				keyboardRaffleRewardId: "raffle-reward",
 			});
 			expect(String(result.value.administratorSecret)).not.toContain("admin-secret");
+			expect(String(result.value.overlaySecret)).not.toContain("overlay-secret");
+			expect(result.value.publicBaseUrl).toBe("https://stream.example");
 		}
 	});
 
+	it("parses absolute and viewer-relative skip vote thresholds", () => {
+		const defaultResult = parseWorkerConfiguration(validBindings);
+		const percentageResult = parseWorkerConfiguration({
+			...validBindings,
+			VOTE_SKIP_THRESHOLD: "25%",
+			VOTE_SKIP_MINIMUM_VOTES: "4",
+		});
+
+		expect(defaultResult.status === "ok" && defaultResult.value.voteSkip.threshold).toEqual({
+			kind: "votes",
+			votes: 3,
+		});
+		expect(percentageResult.status === "ok" && percentageResult.value.voteSkip.threshold).toEqual({
+			kind: "viewer-percentage",
+			percentage: 25,
+			minimumVotes: 4,
+		});
+	});
+
 	it("returns a typed error without exposing a missing secret value", () => {
 		const result = parseWorkerConfiguration({ ...validBindings, ADMIN_SECRET: "" });
 
@@ -3,6 +3,8 @@ import { z } from "zod";
 
 import { RedactedValue } from "../lib/redacted";
 
+import type { SkipVoteThreshold } from "../domain/spotify-queue";
+
 const WorkerBindingsConfigurationSchema = z.object({
 	TWITCH_CLIENT_ID: z.string().trim().min(1),
 	TWITCH_CLIENT_SECRET: z.string().min(1),
@@ -13,8 +15,16 @@ const WorkerBindingsConfigurationSchema = z.object({
 	SPOTIFY_CLIENT_SECRET: z.string().min(1),
 	OAUTH_SETUP_SECRET: z.string().min(1),
 	ADMIN_SECRET: z.string().min(1),
+	OVERLAY_SECRET: z.string().min(1),
 	SONG_REQUEST_REWARD_ID: z.string().trim().min(1),
 	KEYBOARD_RAFFLE_REWARD_ID: z.string().trim().min(1),
+	PUBLIC_BASE_URL: z.url({ protocol: /^https?$/u }).transform((url) => url.replace(/\/+$/u, "")),
+	VOTE_SKIP_THRESHOLD: z
+		.string()
+		.trim()
+		.regex(/^[1-9]\d{0,2}%?$/)
+		.default("3"),
+	VOTE_SKIP_MINIMUM_VOTES: z.coerce.number().int().min(1).max(1_000).default(2),
 });
 
 /** Parsed Twitch broadcaster identity used by provider and application modules. */
@@ -42,6 +52,11 @@ export type RewardRoutingConfiguration = Readonly<{
 	keyboardRaffleRewardId: string;
 }>;
 
+/** Parsed Skip Vote policy for Now Playing. */
+export type VoteSkipConfiguration = Readonly<{
+	threshold: SkipVoteThreshold;
+}>;
+
 /** Application configuration parsed once at a Worker or Durable Object composition root. */
 export type WorkerConfiguration = Readonly<{
 	twitch: TwitchProviderConfiguration;
@@ -49,7 +64,12 @@ export type WorkerConfiguration = Readonly<{
 	eventSubSecret: RedactedValue<string>;
 	oauthSetupSecret: RedactedValue<string>;
 	administratorSecret: RedactedValue<string>;
+	/** Token OBS overlays pass as `?token=` to acknowledge alerts they have shown */
+	overlaySecret: RedactedValue<string>;
 	rewardRouting: RewardRoutingConfiguration;
+	voteSkip: VoteSkipConfiguration;
+	/** Origin public pages are served from, without a trailing slash */
+	publicBaseUrl: string;
 }>;
 
 /** Expected failure when required Worker configuration cannot be parsed safely. */
@@ -84,9 +104,29 @@ export function parseWorkerConfiguration(
 		eventSubSecret: RedactedValue.fromSensitiveValue(parsed.data.TWITCH_EVENTSUB_SECRET),
 		oauthSetupSecret: RedactedValue.fromSensitiveValue(parsed.data.OAUTH_SETUP_SECRET),
 		administratorSecret: RedactedValue.fromSensitiveValue(parsed.data.ADMIN_SECRET),
+		overlaySecret: RedactedValue.fromSensitiveValue(parsed.data.OVERLAY_SECRET),
 		rewardRouting: {
 			songRequestRewardId: parsed.data.SONG_REQUEST_REWARD_ID,
 			keyboardRaffleRewardId: parsed.data.KEYBOARD_RAFFLE_REWARD_ID,
 		},
+		voteSkip: {
+			threshold: parseSkipVoteThreshold(
+				parsed.data.VOTE_SKIP_THRESHOLD,
+				parsed.data.VOTE_SKIP_MINIMUM_VOTES,
+			),
+		},
+		publicBaseUrl: parsed.data.PUBLIC_BASE_URL,
 	});
 }
+
+/** Reads `VOTE_SKIP_THRESHOLD` as an absolute vote count (`3`) or a viewer percentage (`20%`). */
+function parseSkipVoteThreshold(threshold: string, minimumVotes: number): SkipVoteThreshold {
+	if (threshold.endsWith("%")) {
+		return {
+			kind: "viewer-percentage",
+			percentage: Math.min(100, Number.parseInt(threshold, 10)),
+			minimumVotes,
+		};
+	}
+	return { kind: "votes", votes: Number.parseInt(threshold, 10) };
+}
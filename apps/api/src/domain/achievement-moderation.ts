@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+import { AchievementDefinitionIdSchema } from "./achievement";
+import { ViewerProfileLookupSchema } from "./viewer-profile";
+
+/** Most Achievement Moderation audit entries returned at once. */
+export const ACHIEVEMENT_MODERATION_AUDIT_LIMIT = 200;
+
+/** Whether a moderator granted or revoked an Achievement. */
+export const AchievementModerationActionSchema = z.enum(["grant", "revoke"]);
+/** Achievement Moderation action. */
+export type AchievementModerationAction = z.infer<typeof AchievementModerationActionSchema>;
+
+/** Runtime parser for a moderator's grant or revocation of one Viewer's Achievement. */
+export const AchievementModerationInputSchema = z.strictObject({
+	achievementId: AchievementDefinitionIdSchema,
+	/** Twitch login or display name, with or without `@` */
+	viewer: ViewerProfileLookupSchema,
+	reason: z.string().trim().min(1).max(200),
+	/** Moderator display name, or `admin` for the admin routes */
+	actor: z.string().trim().min(1).max(100),
+});
+/** A grant or revocation as submitted by a moderator. */
+export type AchievementModerationInput = z.input<typeof AchievementModerationInputSchema>;
+
+/** Runtime parser for one Achievement Moderation audit entry. */
+export const AchievementModerationEntrySchema = z.object({
+	id: z.string().min(1),
+	action: AchievementModerationActionSchema,
+	userId: z.string().min(1),
+	userDisplayName: z.string().min(1),
+	achievementId: z.string().min(1),
+	reason: z.string().min(1),
+	actor: z.string().min(1),
+	createdAt: z.iso.datetime({ offset: true }),
+});
+/** One Achievement a moderator granted or revoked by hand, and why. */
+export type AchievementModerationEntry = z.infer<typeof AchievementModerationEntrySchema>;
+
+/** Runtime parser for Achievement Moderation audit entries, newest first. */
+export const AchievementModerationEntriesSchema = z
+	.array(AchievementModerationEntrySchema)
+	.max(ACHIEVEMENT_MODERATION_AUDIT_LIMIT);
+
+/** Runtime parser for an Achievement Moderation audit query. */
+export const AchievementModerationAuditQuerySchema = z.object({
+	achievementId: AchievementDefinitionIdSchema.optional(),
+	limit: z.number().int().min(1).max(ACHIEVEMENT_MODERATION_AUDIT_LIMIT).optional().default(50),
+});
+/** Achievement Moderation audit query as submitted by an administrator. */
+export type AchievementModerationAuditQuery = z.input<typeof AchievementModerationAuditQuerySchema>;
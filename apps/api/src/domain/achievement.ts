@@ -19,15 +19,123 @@ export const AchievementTriggerEventSchema = z.enum([
 	"raffle_close",
 	"raffle_closest_record",
 	"request_streak",
+	"chat_message",
+	"stream_first_chat",
+	"chat_stream",
+	"chat_command",
+	"raid",
+	"raid_record",
+	"rule",
 ]);
 /** Event that can advance Achievement Progress. */
 export type AchievementTriggerEvent = z.infer<typeof AchievementTriggerEventSchema>;
 
-/** Runtime parser for cumulative or Stream Session Achievement scope. */
-export const AchievementScopeSchema = z.enum(["session", "cumulative"]);
+/** Runtime parser for Stream Session, Season, or cumulative Achievement scope. */
+export const AchievementScopeSchema = z.enum(["session", "season", "cumulative"]);
 /** Lifetime over which Achievement Progress accumulates. */
 export type AchievementScope = z.infer<typeof AchievementScopeSchema>;
 
+/** Runtime parser for the history an Achievement Rule Expression `count` looks back over. */
+export const AchievementRuleCountScopeSchema = AchievementScopeSchema.exclude(["season"]);
+/** History an Achievement Rule Expression `count` looks back over. */
+export type AchievementRuleCountScope = z.infer<typeof AchievementRuleCountScopeSchema>;
+
+/** Runtime parser for Viewer events an Achievement Rule Expression can test and count. */
+export const AchievementRuleEventSchema = z.enum(["song_request", "raffle_roll", "raffle_win"]);
+/** Viewer event an Achievement Rule Expression can test and count. */
+export type AchievementRuleEvent = z.infer<typeof AchievementRuleEventSchema>;
+
+/**
+ * Serializable condition evaluated against a Viewer's event. A `rule`
+ * achievement gains one progress each time its expression matches.
+ *
+ * - `all` / `any`: every / at least one nested expression matches
+ * - `event`: the event being evaluated is this kind of event
+ * - `count`: the Viewer has at least `atLeast` such events in the current
+ *   Stream Session or ever, counting the one being evaluated; with
+ *   `sameArtist`, only Song Requests sharing an artist with this one count
+ * - `stream_elapsed`: the event happened within the first `atMostMinutes`
+ *   of the live Stream Session
+ */
+export type AchievementRuleExpression =
+	| { kind: "all"; rules: AchievementRuleExpression[] }
+	| { kind: "any"; rules: AchievementRuleExpression[] }
+	| { kind: "event"; event: AchievementRuleEvent }
+	| {
+			kind: "count";
+			event: AchievementRuleEvent;
+			scope: AchievementRuleCountScope;
+			atLeast: number;
+			sameArtist?: boolean;
+	  }
+	| { kind: "stream_elapsed"; atMostMinutes: number };
+
+/** Deepest nesting of `all` / `any` an expression may use. */
+const RULE_EXPRESSION_MAX_DEPTH = 4;
+
+function ruleExpressionDepth(expression: AchievementRuleExpression): number {
+	return expression.kind === "all" || expression.kind === "any"
+		? 1 + Math.max(...expression.rules.map(ruleExpressionDepth))
+		: 0;
+}
+
+const AchievementRuleExpressionNodeSchema: z.ZodType<AchievementRuleExpression> = z.lazy(() =>
+	z.discriminatedUnion("kind", [
+		z.strictObject({
+			kind: z.literal("all"),
+			rules: z.array(AchievementRuleExpressionNodeSchema).min(1).max(8),
+		}),
+		z.strictObject({
+			kind: z.literal("any"),
+			rules: z.array(AchievementRuleExpressionNodeSchema).min(1).max(8),
+		}),
+		z.strictObject({ kind: z.literal("event"), event: AchievementRuleEventSchema }),
+		z
+			.strictObject({
+				kind: z.literal("count"),
+				event: AchievementRuleEventSchema,
+				scope: AchievementRuleCountScopeSchema,
+				atLeast: z.number().int().min(1).max(10_000),
+				sameArtist: z.boolean().optional(),
+			})
+			.refine((count) => count.sameArtist !== true || count.event === "song_request", {
+				message: "sameArtist only applies to song_request counts",
+				path: ["sameArtist"],
+			}),
+		z.strictObject({
+			kind: z.literal("stream_elapsed"),
+			atMostMinutes: z
+				.number()
+				.int()
+				.min(1)
+				.max(24 * 60),
+		}),
+	]),
+);
+
+/** Runtime parser for an Achievement Rule Expression with bounded nesting. */
+export const AchievementRuleExpressionSchema = AchievementRuleExpressionNodeSchema.refine(
+	(expression) => ruleExpressionDepth(expression) <= RULE_EXPRESSION_MAX_DEPTH,
+	{ message: `Rule expressions may nest all/any at most ${RULE_EXPRESSION_MAX_DEPTH} deep` },
+);
+
+/**
+ * Tier names, lowest first. A tiered Achievement reaches its first tier at the
+ * definition's threshold and each later tier at the matching entry of `tiers`.
+ */
+export const ACHIEVEMENT_TIER_NAMES = ["Bronze", "Silver", "Gold", "Platinum", "Diamond"] as const;
+
+const AchievementThresholdValueSchema = z.number().int().positive().max(1_000_000);
+
+/** Runtime parser for the thresholds of the tiers above an Achievement's first, ascending. */
+export const AchievementTiersSchema = z
+	.array(AchievementThresholdValueSchema)
+	.min(1)
+	.max(ACHIEVEMENT_TIER_NAMES.length - 1)
+	.refine((tiers) => tiers.every((tier, index) => index === 0 || tier > (tiers[index - 1] ?? 0)), {
+		message: "Tier thresholds must be strictly ascending",
+	});
+
 /** Runtime parser for one Achievement Definition. */
 export const AchievementDefinitionSchema = z.object({
 	id: z.string().min(1),
@@ -38,10 +146,254 @@ export const AchievementDefinitionSchema = z.object({
 	threshold: z.number().int().positive().nullable(),
 	triggerEvent: AchievementTriggerEventSchema,
 	scope: AchievementScopeSchema,
+	/** Condition of a `rule` achievement; null for every other trigger */
+	rule: AchievementRuleExpressionSchema.nullable(),
+	/** Thresholds of the Silver, Gold, … tiers; null for a single-level achievement */
+	tiers: AchievementTiersSchema.nullable(),
+	/** Unlocks again each time progress gains another `threshold` */
+	repeatable: z.boolean(),
 });
 /** Persisted metadata that defines one Achievement. */
 export type AchievementDefinition = z.infer<typeof AchievementDefinitionSchema>;
 
+/**
+ * Lowest session streak the request streak rule reports; a `request_streak`
+ * threshold below it could never be met as written.
+ */
+export const REQUEST_STREAK_MINIMUM = 3;
+
+/** Triggers whose progress counts events, so they need a threshold to unlock. */
+const COUNTING_TRIGGER_EVENTS: ReadonlySet<AchievementTriggerEvent> = new Set([
+	"song_request",
+	"raffle_roll",
+	"raffle_win",
+	"chat_message",
+	"chat_stream",
+	"raid",
+]);
+
+/**
+ * Explains why the Achievement rules cannot evaluate a definition as written,
+ * or returns null when they can.
+ */
+export function findUnsupportedAchievementRule(
+	definition: Pick<
+		AchievementDefinition,
+		"threshold" | "triggerEvent" | "rule" | "tiers" | "repeatable"
+	>,
+): string | null {
+	const levels = findUnsupportedAchievementLevels(definition);
+	if (levels !== null) {
+		return levels;
+	}
+	if (definition.triggerEvent === "rule") {
+		return definition.rule === null ? "rule achievements need a rule expression" : null;
+	}
+	if (definition.rule !== null) {
+		return "Only rule achievements take a rule expression";
+	}
+	if (definition.triggerEvent === "request_streak") {
+		return definition.threshold !== null && definition.threshold >= REQUEST_STREAK_MINIMUM
+			? null
+			: `request_streak achievements need a threshold of at least ${REQUEST_STREAK_MINIMUM}`;
+	}
+	if (COUNTING_TRIGGER_EVENTS.has(definition.triggerEvent) && definition.threshold === null) {
+		return `${definition.triggerEvent} achievements need a threshold`;
+	}
+	return null;
+}
+
+function findUnsupportedAchievementLevels(
+	definition: Pick<AchievementDefinition, "threshold" | "triggerEvent" | "tiers" | "repeatable">,
+): string | null {
+	if (definition.tiers === null && !definition.repeatable) {
+		return null;
+	}
+	if (definition.tiers !== null && definition.repeatable) {
+		return "An achievement is either tiered or repeatable, not both";
+	}
+	if (definition.threshold === null) {
+		return "Tiered and repeatable achievements need a threshold";
+	}
+	if (definition.tiers !== null && (definition.tiers[0] ?? 0) <= definition.threshold) {
+		return "Tier thresholds must be above the achievement threshold";
+	}
+	if (definition.repeatable && definition.triggerEvent === "request_streak") {
+		return "request_streak achievements measure a streak, so they cannot repeat";
+	}
+	return null;
+}
+
+/** The parts of an Achievement Definition that decide which levels it has. */
+type AchievementLevels = {
+	threshold: number | null;
+	tiers?: readonly number[] | null;
+	repeatable?: boolean;
+};
+
+/**
+ * The level a Viewer's progress reaches: the tier of a tiered Achievement,
+ * the number of unlocks of a repeatable one, and otherwise 1 once unlocked.
+ */
+export function achievementLevelForProgress(
+	definition: AchievementLevels,
+	progress: number,
+): number {
+	if (definition.threshold === null) {
+		return progress >= 1 ? 1 : 0;
+	}
+	if (progress < definition.threshold) {
+		return 0;
+	}
+	if (definition.repeatable === true) {
+		return Math.floor(progress / definition.threshold);
+	}
+	return 1 + (definition.tiers ?? []).filter((tier) => progress >= tier).length;
+}
+
+/** Highest level an Achievement can reach; null when it repeats without limit. */
+export function maxAchievementLevel(definition: AchievementLevels): number | null {
+	if (definition.repeatable === true) {
+		return null;
+	}
+	return 1 + (definition.tiers?.length ?? 0);
+}
+
+/** Progress needed to reach the level after `level`; null when there is none. */
+export function nextAchievementLevelThreshold(
+	definition: AchievementLevels,
+	level: number,
+): number | null {
+	if (definition.threshold === null) {
+		return null;
+	}
+	if (level < 1) {
+		return definition.threshold;
+	}
+	if (definition.repeatable === true) {
+		return definition.threshold * (level + 1);
+	}
+	return definition.tiers?.[level - 1] ?? null;
+}
+
+/**
+ * How a level reads to Viewers: the tier name, or `×3` for the third unlock of
+ * a repeatable Achievement. Null for single-level Achievements and level 0.
+ */
+export function describeAchievementLevel(
+	definition: Omit<AchievementLevels, "threshold">,
+	level: number,
+): string | null {
+	if (level < 1) {
+		return null;
+	}
+	if (definition.tiers !== null && definition.tiers !== undefined) {
+		return ACHIEVEMENT_TIER_NAMES[Math.min(level, ACHIEVEMENT_TIER_NAMES.length) - 1] ?? null;
+	}
+	return definition.repeatable === true ? `×${level}` : null;
+}
+
+/** An Achievement's name with its level, e.g. `DJ (Gold)`, as Viewers see it in chat. */
+export function formatAchievementWithLevel(name: string, levelLabel: string | null): string {
+	return levelLabel === null ? name : `${name} (${levelLabel})`;
+}
+
+/**
+ * Runtime parser for Achievement Definition lifecycle status. Disabled
+ * definitions stop progressing and are hidden until re-enabled; retired ones
+ * are hidden for good, while unlocks already earned are kept.
+ */
+export const AchievementDefinitionStatusSchema = z.enum(["active", "disabled", "retired"]);
+/** Lifecycle status of an Achievement Definition. */
+export type AchievementDefinitionStatus = z.infer<typeof AchievementDefinitionStatusSchema>;
+
+/** Runtime parser for Achievement Definition ids, which are permanent once created. */
+export const AchievementDefinitionIdSchema = z
+	.string()
+	.regex(/^[a-z0-9][a-z0-9_]{0,63}$/, "Expected a lowercase id such as request_250");
+
+/** Runtime parser for icons stored as hyphen-separated hex code points, e.g. "1f3b5". */
+export const AchievementIconSchema = z
+	.string()
+	.regex(/^[0-9a-f]{2,6}(-[0-9a-f]{2,6})*$/, "Expected hex code points such as 1f3b5");
+
+const AchievementThresholdSchema = AchievementThresholdValueSchema.nullable();
+
+/** Runtime parser for an Achievement Definition as administrators see it. */
+export const ManagedAchievementDefinitionSchema = AchievementDefinitionSchema.extend({
+	status: AchievementDefinitionStatusSchema,
+});
+/** Achievement Definition with its lifecycle status. */
+export type ManagedAchievementDefinition = z.infer<typeof ManagedAchievementDefinitionSchema>;
+
+/** Runtime parser for creating one Achievement Definition the rules can evaluate. */
+export const CreateAchievementDefinitionInputSchema = z
+	.strictObject({
+		id: AchievementDefinitionIdSchema,
+		name: z.string().trim().min(1).max(80),
+		description: z.string().trim().min(1).max(200),
+		icon: AchievementIconSchema,
+		category: AchievementCategorySchema,
+		threshold: AchievementThresholdSchema,
+		triggerEvent: AchievementTriggerEventSchema,
+		scope: AchievementScopeSchema.default("cumulative"),
+		rule: AchievementRuleExpressionSchema.nullable().default(null),
+		tiers: AchievementTiersSchema.nullable().default(null),
+		repeatable: z.boolean().default(false),
+	})
+	.superRefine((input, ctx) => {
+		const unsupported = findUnsupportedAchievementRule(input);
+		if (unsupported === null) {
+			return;
+		}
+		let field = input.triggerEvent === "rule" || input.rule !== null ? "rule" : "threshold";
+		if (findUnsupportedAchievementLevels(input) !== null) {
+			field = input.tiers !== null ? "tiers" : "repeatable";
+		}
+		ctx.addIssue({ code: "custom", path: [field], message: unsupported });
+	});
+/** Parsed input for creating one Achievement Definition. */
+export type CreateAchievementDefinitionInput = z.infer<
+	typeof CreateAchievementDefinitionInputSchema
+>;
+
+/**
+ * Runtime parser for a non-empty Achievement Definition patch. The trigger is
+ * fixed once created because existing progress counts that trigger's events;
+ * retire the definition and create another to track something else.
+ */
+export const UpdateAchievementDefinitionInputSchema = z
+	.strictObject({
+		name: z.string().trim().min(1).max(80).optional(),
+		description: z.string().trim().min(1).max(200).optional(),
+		icon: AchievementIconSchema.optional(),
+		category: AchievementCategorySchema.optional(),
+		threshold: AchievementThresholdSchema.optional(),
+		scope: AchievementScopeSchema.optional(),
+		rule: AchievementRuleExpressionSchema.nullable().optional(),
+		tiers: AchievementTiersSchema.nullable().optional(),
+		repeatable: z.boolean().optional(),
+		status: AchievementDefinitionStatusSchema.exclude(["retired"]).optional(),
+	})
+	.refine((patch) => Object.keys(patch).length > 0, {
+		message: "Achievement Definition patch must not be empty",
+	});
+/** Parsed non-empty Achievement Definition patch. */
+export type UpdateAchievementDefinitionInput = z.infer<
+	typeof UpdateAchievementDefinitionInputSchema
+>;
+
+/** Runtime parser for the outcome of editing an Achievement Definition. */
+export const AchievementDefinitionUpdateResultSchema = z.object({
+	definition: ManagedAchievementDefinitionSchema,
+	/** Viewers whose existing progress met the edited definition and unlocked it or a new level */
+	unlockedViewers: z.number().int().nonnegative(),
+});
+/** Outcome of editing an Achievement Definition. */
+export type AchievementDefinitionUpdateResult = z.infer<
+	typeof AchievementDefinitionUpdateResultSchema
+>;
+
 /** Runtime parser for one unlocked Achievement projection. */
 export const UnlockedAchievementSchema = z.object({
 	id: z.string().min(1),
@@ -50,6 +402,10 @@ export const UnlockedAchievementSchema = z.object({
 	icon: z.string().min(1),
 	category: AchievementCategorySchema,
 	unlockedAt: z.iso.datetime({ offset: true }),
+	/** Tier reached, or times unlocked for a repeatable Achievement */
+	level: z.number().int().positive(),
+	/** Tier name or repeat count as shown to Viewers; null for single-level Achievements */
+	levelLabel: z.string().nullable(),
 });
 /** Achievement unlocked by a Viewer. */
 export type UnlockedAchievement = z.infer<typeof UnlockedAchievementSchema>;
@@ -62,9 +418,17 @@ export const ViewerAchievementProgressSchema = z.object({
 	icon: z.string().min(1),
 	category: AchievementCategorySchema,
 	threshold: z.number().int().positive().nullable(),
+	tiers: AchievementTiersSchema.nullable(),
+	repeatable: z.boolean(),
 	progress: z.number().int().nonnegative(),
 	unlocked: z.boolean(),
 	unlockedAt: z.iso.datetime({ offset: true }).nullable(),
+	/** Tier reached, or times unlocked for a repeatable Achievement; 0 while locked */
+	level: z.number().int().nonnegative(),
+	/** Tier name or repeat count as shown to Viewers; null for single-level Achievements */
+	levelLabel: z.string().nullable(),
+	/** Progress needed for the next level; null once the last level is reached */
+	nextLevelThreshold: z.number().int().positive().nullable(),
 });
 /** One Viewer's progress toward an Achievement. */
 export type ViewerAchievementProgress = z.infer<typeof ViewerAchievementProgressSchema>;
@@ -77,6 +441,55 @@ export const AchievementLeaderboardEntrySchema = z.object({
 /** Viewer ranking by unlocked Achievement count. */
 export type AchievementLeaderboardEntry = z.infer<typeof AchievementLeaderboardEntrySchema>;
 
+/** Runtime parser for the Viewer who unlocked an Achievement at a given time. */
+export const AchievementUnlockerSchema = z.object({
+	userId: z.string().min(1),
+	userDisplayName: z.string().min(1),
+	unlockedAt: z.iso.datetime({ offset: true }),
+});
+/** Viewer who unlocked an Achievement, with when they first did. */
+export type AchievementUnlocker = z.infer<typeof AchievementUnlockerSchema>;
+
+/** Runtime parser for one Achievement's global unlock statistics. */
+export const AchievementRaritySchema = z.object({
+	unlockedCount: z.number().int().nonnegative(),
+	/** Viewers with any Achievement Progress at all */
+	knownViewers: z.number().int().nonnegative(),
+	/** Share of known Viewers who unlocked it, 0–100 with one decimal; 0 when nobody is known */
+	percentage: z.number().min(0).max(100),
+	firstUnlocker: AchievementUnlockerSchema.nullable(),
+	latestUnlocker: AchievementUnlockerSchema.nullable(),
+});
+/** How many Viewers unlocked an Achievement, and who did first and last. */
+export type AchievementRarity = z.infer<typeof AchievementRaritySchema>;
+
+/** Runtime parser for one public Achievement Definition with its rarity. */
+export const AchievementDefinitionWithRaritySchema = AchievementDefinitionSchema.extend({
+	rarity: AchievementRaritySchema,
+});
+/** Achievement Definition as shown publicly, with its global unlock statistics. */
+export type AchievementDefinitionWithRarity = z.infer<typeof AchievementDefinitionWithRaritySchema>;
+
+/** Highest unlock percentage a chat announcement still calls out as rare. */
+export const RARE_ACHIEVEMENT_PERCENTAGE = 25;
+
+/** Share of `knownViewers` as a percentage rounded to one decimal. */
+export function achievementRarityPercentage(unlockedCount: number, knownViewers: number): number {
+	return knownViewers === 0 ? 0 : Math.round((unlockedCount / knownViewers) * 1000) / 10;
+}
+
+/**
+ * Chat suffix for an unlock announcement, e.g. `Only 3% of viewers have this!`.
+ * Null unless the Achievement is rare enough to be worth mentioning.
+ */
+export function formatAchievementRarity(
+	rarity: Pick<AchievementRarity, "percentage">,
+): string | null {
+	return rarity.percentage > 0 && rarity.percentage <= RARE_ACHIEVEMENT_PERCENTAGE
+		? `Only ${rarity.percentage}% of viewers have this!`
+		: null;
+}
+
 /** Runtime parser for Achievement persistence table counts exposed to administrators. */
 export const AchievementDebugTableCountsSchema = z.object({
 	definitions: z.number().int().nonnegative(),
@@ -123,11 +536,73 @@ export const AchievementResetResultSchema = z.object({
 /** Result of resetting one-time cumulative Achievements. */
 export type AchievementResetResult = z.infer<typeof AchievementResetResultSchema>;
 
-/** Runtime parser for all public Achievement Definitions. */
-export const AchievementDefinitionsSchema = z.array(AchievementDefinitionSchema);
+/** Runtime parser for all public Achievement Definitions with their rarity. */
+export const AchievementDefinitionsSchema = z.array(AchievementDefinitionWithRaritySchema);
+/** Runtime parser for every Achievement Definition, whatever its status. */
+export const ManagedAchievementDefinitionsSchema = z.array(ManagedAchievementDefinitionSchema);
 /** Runtime parser for one Viewer's complete Achievement Progress. */
 export const ViewerAchievementProgressListSchema = z.array(ViewerAchievementProgressSchema);
 /** Runtime parser for one Viewer's unlocked Achievements. */
 export const UnlockedAchievementsSchema = z.array(UnlockedAchievementSchema);
 /** Runtime parser for a bounded Achievement leaderboard. */
 export const AchievementLeaderboardSchema = z.array(AchievementLeaderboardEntrySchema).max(100);
+
+/** Whether an Achievement Backfill writes progress or only reports what it would change. */
+export const AchievementBackfillModeSchema = z.enum(["apply", "dry_run"]);
+/** Achievement Backfill mode. */
+export type AchievementBackfillMode = z.infer<typeof AchievementBackfillModeSchema>;
+
+/**
+ * Achievement Backfill lifecycle: history is collected from the Song Queue and
+ * Keyboard Raffle, then replayed oldest first.
+ */
+export const AchievementBackfillStatusSchema = z.enum([
+	"collecting",
+	"applying",
+	"completed",
+	"failed",
+]);
+/** Achievement Backfill lifecycle status. */
+export type AchievementBackfillStatus = z.infer<typeof AchievementBackfillStatusSchema>;
+
+/** Runtime parser for administrator input that starts an Achievement Backfill. */
+export const StartAchievementBackfillInputSchema = z.strictObject({
+	dryRun: z.boolean().default(false),
+});
+/** Parsed administrator input that starts an Achievement Backfill. */
+export type StartAchievementBackfillInput = z.infer<typeof StartAchievementBackfillInputSchema>;
+
+/** Runtime parser for one Viewer's Achievement Progress changed by a backfill. */
+export const AchievementBackfillChangeSchema = z.object({
+	userId: z.string(),
+	userDisplayName: z.string(),
+	achievementId: z.string(),
+	progressBefore: z.number().int().nonnegative(),
+	progressAfter: z.number().int().nonnegative(),
+	levelAfter: z.number().int().nonnegative(),
+	/** Set when the backfill unlocks the Achievement */
+	unlockedAt: z.string().nullable(),
+});
+/** One Viewer's Achievement Progress changed by a backfill. */
+export type AchievementBackfillChange = z.infer<typeof AchievementBackfillChangeSchema>;
+
+/** Runtime parser for an Achievement Backfill run and its progress. */
+export const AchievementBackfillRunSchema = z.object({
+	id: z.string(),
+	mode: AchievementBackfillModeSchema,
+	status: AchievementBackfillStatusSchema,
+	/** Song Requests and Raffle Rolls read from history so far */
+	collectedEvents: z.number().int().nonnegative(),
+	processedEvents: z.number().int().nonnegative(),
+	/** Processed events that Achievements had not already seen */
+	replayedEvents: z.number().int().nonnegative(),
+	unlockedAchievements: z.number().int().nonnegative(),
+	/** Every progress change; recorded by dry runs only */
+	changes: z.array(AchievementBackfillChangeSchema).nullable(),
+	error: z.string().nullable(),
+	startedAt: z.string(),
+	updatedAt: z.string(),
+	completedAt: z.string().nullable(),
+});
+/** Achievement Backfill run and its progress. */
+export type AchievementBackfillRun = z.infer<typeof AchievementBackfillRunSchema>;
@@ -0,0 +1,84 @@
+/**
+ * Channel Point Reward registry schemas
+ *
+ * A Reward Binding maps one Twitch custom reward id to the Reward Handler that
+ * runs when a viewer redeems it. Bindings are stored durably and edited by
+ * admins, so a new reward can be wired without a deploy.
+ */
+
+import { z } from "zod";
+
+import { ChatCommandNameSchema } from "./chat-command-definition";
+
+/** Twitch custom reward id. */
+export const ChannelPointRewardIdSchema = z.string().trim().min(1).max(128);
+
+/**
+ * Sagas that start from a Channel Point Redemption and can therefore be bound
+ * to a reward through a `custom_saga` handler.
+ */
+export const RewardSagaNameSchema = z.enum(["song-request", "keyboard-raffle"]);
+
+export type RewardSagaName = z.infer<typeof RewardSagaNameSchema>;
+
+/**
+ * Placeholders a `chat_message` template may use: `{user}` is the viewer's
+ * display name, `{input}` their redemption text, and `{reward}` the reward title.
+ */
+export const RewardChatTemplateSchema = z.string().trim().min(1).max(500);
+
+/** What runs when a bound reward is redeemed. */
+export const RewardHandlerSchema = z.discriminatedUnion("kind", [
+	z.strictObject({ kind: z.literal("song_request") }),
+	z.strictObject({ kind: z.literal("keyboard_raffle") }),
+	z.strictObject({ kind: z.literal("chat_message"), template: RewardChatTemplateSchema }),
+	/** Adds one to the counter of an existing counter Chat Command. */
+	z.strictObject({ kind: z.literal("counter_increment"), commandName: ChatCommandNameSchema }),
+	z.strictObject({ kind: z.literal("custom_saga"), saga: RewardSagaNameSchema }),
+]);
+
+export type RewardHandler = z.infer<typeof RewardHandlerSchema>;
+export type RewardHandlerKind = RewardHandler["kind"];
+
+/** Every Reward Handler kind, for admin tooling. */
+export const REWARD_HANDLER_KINDS: readonly RewardHandlerKind[] = [
+	"song_request",
+	"keyboard_raffle",
+	"chat_message",
+	"counter_increment",
+	"custom_saga",
+];
+
+/** Admin input for creating or replacing a Reward Binding. */
+export const SaveRewardBindingInputSchema = z.strictObject({
+	handler: RewardHandlerSchema,
+	/** Disabled bindings refund redemptions without running the handler. */
+	enabled: z.boolean().default(true),
+});
+
+export type SaveRewardBindingInput = z.infer<typeof SaveRewardBindingInputSchema>;
+
+/** Stored mapping from one reward id to its Reward Handler. */
+export const RewardBindingSchema = z.object({
+	rewardId: ChannelPointRewardIdSchema,
+	handler: RewardHandlerSchema,
+	enabled: z.boolean(),
+	createdAt: z.iso.datetime({ offset: true }),
+	updatedAt: z.iso.datetime({ offset: true }),
+});
+
+export type RewardBinding = z.infer<typeof RewardBindingSchema>;
+
+/**
+ * Redemptions of a reward that has no binding, grouped by reward so an admin
+ * can see what is waiting to be wired.
+ */
+export const UnrecognizedRewardSchema = z.object({
+	rewardId: ChannelPointRewardIdSchema,
+	/** Title from the most recent redemption */
+	rewardTitle: z.string(),
+	redemptions: z.number().int().positive(),
+	lastRedeemedAt: z.iso.datetime({ offset: true }),
+});
+
+export type UnrecognizedReward = z.infer<typeof UnrecognizedRewardSchema>;
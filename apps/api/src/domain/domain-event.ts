@@ -3,6 +3,10 @@
  *
  * All domain events extend BaseEvent. Events are published by sagas/DOs
  * and routed to subscribers (primarily AchievementsDO).
+ *
+ * Each event type carries its own schema version. Persisted events are read
+ * through VersionedEventSchema, which upcasts older versions step by step to
+ * the current one.
  */
 
 import { z } from "zod";
@@ -18,6 +22,10 @@ export const EventSource = {
 	SongRequestSaga: "SongRequestSagaDO",
 	KeyboardRaffleSaga: "KeyboardRaffleSagaDO",
 	StreamLifecycle: "StreamLifecycleDO",
+	SongQueue: "SongQueueDO",
+	EventSubWebhook: "EventSubWebhookDO",
+	RaidShoutoutSaga: "RaidShoutoutSagaDO",
+	Achievements: "AchievementsDO",
 } as const;
 
 export type EventSource = (typeof EventSource)[keyof typeof EventSource];
@@ -34,10 +42,35 @@ export const EventType = {
 	RaffleRoll: "raffle_roll",
 	StreamOnline: "stream_online",
 	StreamOffline: "stream_offline",
+	SongSkipped: "song_skipped",
+	ChatMessageObserved: "chat_message_observed",
+	RaidReceived: "raid_received",
+	AchievementUnlocked: "achievement_unlocked",
 } as const;
 
 export type EventType = (typeof EventType)[keyof typeof EventType];
 
+// =============================================================================
+// Schema Versions
+// =============================================================================
+
+/**
+ * Current schema version of each event type. Bump a type's version whenever
+ * its payload changes shape, and register an upcaster from the previous
+ * version so events already persisted in retry queues, the DLQ, and the
+ * Event Log still decode.
+ */
+export const EVENT_SCHEMA_VERSIONS = {
+	[EventType.SongRequestSuccess]: 2,
+	[EventType.RaffleRoll]: 1,
+	[EventType.StreamOnline]: 1,
+	[EventType.StreamOffline]: 1,
+	[EventType.SongSkipped]: 1,
+	[EventType.ChatMessageObserved]: 1,
+	[EventType.RaidReceived]: 1,
+	[EventType.AchievementUnlocked]: 1,
+} as const satisfies Record<EventType, number>;
+
 // =============================================================================
 // Base Event Schema
 // =============================================================================
@@ -71,7 +104,7 @@ export type BaseEvent = z.infer<typeof BaseEventSchema>;
  */
 export const SongRequestSuccessEventSchema = BaseEventSchema.extend({
 	type: z.literal(EventType.SongRequestSuccess),
-	v: z.literal(1),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.SongRequestSuccess]),
 	source: z.literal(EventSource.SongRequestSaga),
 	/** Twitch user ID */
 	userId: z.string(),
@@ -81,6 +114,8 @@ export const SongRequestSuccessEventSchema = BaseEventSchema.extend({
 	sagaId: z.string(),
 	/** Spotify track ID that was queued */
 	trackId: z.string(),
+	/** Spotify artist IDs of the queued track; empty on v1 events, which predate them */
+	artistIds: z.array(z.string()),
 });
 
 export type SongRequestSuccessEvent = z.infer<typeof SongRequestSuccessEventSchema>;
@@ -94,7 +129,7 @@ export type SongRequestSuccessEvent = z.infer<typeof SongRequestSuccessEventSche
  */
 export const RaffleRollEventSchema = BaseEventSchema.extend({
 	type: z.literal(EventType.RaffleRoll),
-	v: z.literal(1),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.RaffleRoll]),
 	source: z.literal(EventSource.KeyboardRaffleSaga),
 	/** Twitch user ID */
 	userId: z.string().min(1),
@@ -142,7 +177,7 @@ export type RaffleRollEvent = z.infer<typeof RaffleRollEventSchema>;
  */
 export const StreamOnlineEventSchema = BaseEventSchema.extend({
 	type: z.literal(EventType.StreamOnline),
-	v: z.literal(1),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.StreamOnline]),
 	source: z.literal(EventSource.StreamLifecycle),
 	/** Twitch stream ID */
 	streamId: z.string(),
@@ -161,7 +196,7 @@ export type StreamOnlineEvent = z.infer<typeof StreamOnlineEventSchema>;
  */
 export const StreamOfflineEventSchema = BaseEventSchema.extend({
 	type: z.literal(EventType.StreamOffline),
-	v: z.literal(1),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.StreamOffline]),
 	source: z.literal(EventSource.StreamLifecycle),
 	/** Twitch stream ID */
 	streamId: z.string(),
@@ -171,6 +206,106 @@ export const StreamOfflineEventSchema = BaseEventSchema.extend({
 
 export type StreamOfflineEvent = z.infer<typeof StreamOfflineEventSchema>;
 
+// =============================================================================
+// Song Skipped Event
+// =============================================================================
+
+/**
+ * Published when viewer Skip Votes reach the threshold and Now Playing is skipped
+ */
+export const SongSkippedEventSchema = BaseEventSchema.extend({
+	type: z.literal(EventType.SongSkipped),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.SongSkipped]),
+	source: z.literal(EventSource.SongQueue),
+	/** Spotify track ID that was skipped */
+	trackId: z.string().min(1),
+	/** Spotify track name that was skipped */
+	trackName: z.string().min(1),
+	/** Song request event ID when the skipped track was viewer-requested */
+	requestEventId: z.string().min(1).nullable(),
+	/** Twitch user ID of the requester when the skipped track was viewer-requested */
+	requesterUserId: z.string().min(1).nullable(),
+	/** Distinct viewer votes counted against the track */
+	votes: z.number().int().positive(),
+	/** Votes required when the skip was triggered */
+	requiredVotes: z.number().int().positive(),
+});
+
+export type SongSkippedEvent = z.infer<typeof SongSkippedEventSchema>;
+
+// =============================================================================
+// Chat Message Observed Event
+// =============================================================================
+
+/**
+ * Published when a Viewer chats, at most once per Viewer and command per
+ * Chat Activity window. Carries no message text.
+ */
+export const ChatMessageObservedEventSchema = BaseEventSchema.extend({
+	type: z.literal(EventType.ChatMessageObserved),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.ChatMessageObserved]),
+	source: z.literal(EventSource.EventSubWebhook),
+	/** Twitch user ID */
+	userId: z.string().min(1),
+	/** Twitch display name */
+	userDisplayName: z.string().min(1),
+	/** Chat command the message ran, or null for plain chat */
+	commandName: z.string().min(1).nullable(),
+});
+
+export type ChatMessageObservedEvent = z.infer<typeof ChatMessageObservedEventSchema>;
+
+// =============================================================================
+// Raid Received Event
+// =============================================================================
+
+/**
+ * Published when another broadcaster raids the channel and the Raid is recorded
+ */
+export const RaidReceivedEventSchema = BaseEventSchema.extend({
+	type: z.literal(EventType.RaidReceived),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.RaidReceived]),
+	source: z.literal(EventSource.RaidShoutoutSaga),
+	/** Raiding broadcaster's Twitch user ID */
+	userId: z.string().min(1),
+	/** Raiding broadcaster's Twitch display name */
+	userDisplayName: z.string().min(1),
+	/** Saga instance ID */
+	sagaId: z.string().min(1),
+	/** Viewers the raid brought */
+	viewers: z.number().int().nonnegative(),
+	/** Whether this raid brought more viewers than any earlier Raid */
+	isNewRecord: z.boolean(),
+});
+
+export type RaidReceivedEvent = z.infer<typeof RaidReceivedEventSchema>;
+
+// =============================================================================
+// Achievement Unlocked Event
+// =============================================================================
+
+/**
+ * Published once per Achievement unlock, after the unlock is committed
+ */
+export const AchievementUnlockedEventSchema = BaseEventSchema.extend({
+	type: z.literal(EventType.AchievementUnlocked),
+	v: z.literal(EVENT_SCHEMA_VERSIONS[EventType.AchievementUnlocked]),
+	source: z.literal(EventSource.Achievements),
+	/** Twitch user ID */
+	userId: z.string().min(1),
+	/** Twitch display name */
+	userDisplayName: z.string().min(1),
+	/** Achievement Definition id */
+	achievementId: z.string().min(1),
+	/** Achievement name, including the level label for tiered Achievements */
+	achievementName: z.string().min(1),
+	achievementDescription: z.string(),
+	/** Unlocked level; 1 for single-level Achievements */
+	level: z.number().int().positive(),
+});
+
+export type AchievementUnlockedEvent = z.infer<typeof AchievementUnlockedEventSchema>;
+
 // =============================================================================
 // Event Union
 // =============================================================================
@@ -183,10 +318,68 @@ export const EventSchema = z.discriminatedUnion("type", [
 	RaffleRollEventSchema,
 	StreamOnlineEventSchema,
 	StreamOfflineEventSchema,
+	SongSkippedEventSchema,
+	ChatMessageObservedEventSchema,
+	RaidReceivedEventSchema,
+	AchievementUnlockedEventSchema,
 ]);
 
 export type Event = z.infer<typeof EventSchema>;
 
+// =============================================================================
+// Upcasters
+// =============================================================================
+
+/** Song Request Success v1, whose artist IDs were absent before they were recorded. */
+const SongRequestSuccessEventV1Schema = SongRequestSuccessEventSchema.extend({
+	v: z.literal(1),
+	artistIds: z.array(z.string()).optional(),
+});
+
+/**
+ * Upcasters by event type and the version they migrate from. Each one parses
+ * a payload of exactly that version and returns it at the next version.
+ */
+const EVENT_UPCASTERS: Partial<Record<EventType, Readonly<Record<number, z.ZodType<unknown>>>>> = {
+	[EventType.SongRequestSuccess]: {
+		1: SongRequestSuccessEventV1Schema.transform((event) => ({
+			...event,
+			v: 2,
+			artistIds: event.artistIds ?? [],
+		})),
+	},
+};
+
+const VersionedPayloadSchema = z.looseObject({ type: z.string(), v: z.number().int() });
+
+/**
+ * Runtime parser for a domain event persisted or published at any supported
+ * schema version. Older versions are upcast one step at a time, then the
+ * result is validated as the current version.
+ */
+export const VersionedEventSchema = z
+	.unknown()
+	.transform((payload, ctx) => {
+		let current = payload;
+		for (;;) {
+			const header = VersionedPayloadSchema.safeParse(current);
+			if (!header.success) return current;
+			const upcaster = EVENT_UPCASTERS[header.data.type as EventType]?.[header.data.v];
+			if (upcaster === undefined) return current;
+			const upcast = upcaster.safeParse(current);
+			if (!upcast.success) {
+				ctx.addIssue({
+					code: "custom",
+					message: `Cannot upcast ${header.data.type} v${header.data.v}: ${upcast.error.message}`,
+					input: current,
+				});
+				return z.NEVER;
+			}
+			current = upcast.data;
+		}
+	})
+	.pipe(EventSchema);
+
 // =============================================================================
 // Type Guards
 // =============================================================================
@@ -207,6 +400,22 @@ export function isStreamOfflineEvent(event: Event): event is StreamOfflineEvent
 	return event.type === EventType.StreamOffline;
 }
 
+export function isSongSkippedEvent(event: Event): event is SongSkippedEvent {
+	return event.type === EventType.SongSkipped;
+}
+
+export function isChatMessageObservedEvent(event: Event): event is ChatMessageObservedEvent {
+	return event.type === EventType.ChatMessageObserved;
+}
+
+export function isRaidReceivedEvent(event: Event): event is RaidReceivedEvent {
+	return event.type === EventType.RaidReceived;
+}
+
+export function isAchievementUnlockedEvent(event: Event): event is AchievementUnlockedEvent {
+	return event.type === EventType.AchievementUnlocked;
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -220,12 +429,13 @@ export function createSongRequestSuccessEvent(params: {
 	userDisplayName: string;
 	sagaId: string;
 	trackId: string;
+	artistIds?: string[];
 	correlationId?: string;
 }): SongRequestSuccessEvent {
 	return {
 		id: params.id,
 		type: EventType.SongRequestSuccess,
-		v: 1,
+		v: EVENT_SCHEMA_VERSIONS[EventType.SongRequestSuccess],
 		timestamp: new Date().toISOString(),
 		source: EventSource.SongRequestSaga,
 		correlationId: params.correlationId,
@@ -233,6 +443,7 @@ export function createSongRequestSuccessEvent(params: {
 		userDisplayName: params.userDisplayName,
 		sagaId: params.sagaId,
 		trackId: params.trackId,
+		artistIds: params.artistIds ?? [],
 	};
 }
 
@@ -254,7 +465,7 @@ export function createRaffleRollEvent(params: {
 	return {
 		id: params.id,
 		type: EventType.RaffleRoll,
-		v: 1,
+		v: EVENT_SCHEMA_VERSIONS[EventType.RaffleRoll],
 		timestamp: new Date().toISOString(),
 		source: EventSource.KeyboardRaffleSaga,
 		correlationId: params.correlationId,
@@ -281,7 +492,7 @@ export function createStreamOnlineEvent(params: {
 	return {
 		id: params.id,
 		type: EventType.StreamOnline,
-		v: 1,
+		v: EVENT_SCHEMA_VERSIONS[EventType.StreamOnline],
 		timestamp: new Date().toISOString(),
 		source: EventSource.StreamLifecycle,
 		correlationId: params.correlationId,
@@ -302,7 +513,7 @@ export function createStreamOfflineEvent(params: {
 	return {
 		id: params.id,
 		type: EventType.StreamOffline,
-		v: 1,
+		v: EVENT_SCHEMA_VERSIONS[EventType.StreamOffline],
 		timestamp: new Date().toISOString(),
 		source: EventSource.StreamLifecycle,
 		correlationId: params.correlationId,
@@ -310,3 +521,113 @@ export function createStreamOfflineEvent(params: {
 		endedAt: params.endedAt,
 	};
 }
+
+/**
+ * Create a new SongSkippedEvent
+ */
+export function createSongSkippedEvent(params: {
+	id: string;
+	trackId: string;
+	trackName: string;
+	requestEventId: string | null;
+	requesterUserId: string | null;
+	votes: number;
+	requiredVotes: number;
+	correlationId?: string;
+}): SongSkippedEvent {
+	return {
+		id: params.id,
+		type: EventType.SongSkipped,
+		v: EVENT_SCHEMA_VERSIONS[EventType.SongSkipped],
+		timestamp: new Date().toISOString(),
+		source: EventSource.SongQueue,
+		correlationId: params.correlationId,
+		trackId: params.trackId,
+		trackName: params.trackName,
+		requestEventId: params.requestEventId,
+		requesterUserId: params.requesterUserId,
+		votes: params.votes,
+		requiredVotes: params.requiredVotes,
+	};
+}
+
+/**
+ * Create a new ChatMessageObservedEvent
+ */
+export function createChatMessageObservedEvent(params: {
+	id: string;
+	userId: string;
+	userDisplayName: string;
+	commandName: string | null;
+	correlationId?: string;
+}): ChatMessageObservedEvent {
+	return {
+		id: params.id,
+		type: EventType.ChatMessageObserved,
+		v: EVENT_SCHEMA_VERSIONS[EventType.ChatMessageObserved],
+		timestamp: new Date().toISOString(),
+		source: EventSource.EventSubWebhook,
+		correlationId: params.correlationId,
+		userId: params.userId,
+		userDisplayName: params.userDisplayName,
+		commandName: params.commandName,
+	};
+}
+
+/**
+ * Create a new RaidReceivedEvent
+ */
+export function createRaidReceivedEvent(params: {
+	id: string;
+	userId: string;
+	userDisplayName: string;
+	sagaId: string;
+	viewers: number;
+	isNewRecord: boolean;
+	correlationId?: string;
+}): RaidReceivedEvent {
+	return {
+		id: params.id,
+		type: EventType.RaidReceived,
+		v: EVENT_SCHEMA_VERSIONS[EventType.RaidReceived],
+		timestamp: new Date().toISOString(),
+		source: EventSource.RaidShoutoutSaga,
+		correlationId: params.correlationId,
+		userId: params.userId,
+		userDisplayName: params.userDisplayName,
+		sagaId: params.sagaId,
+		viewers: params.viewers,
+		isNewRecord: params.isNewRecord,
+	};
+}
+
+/**
+ * Create a new AchievementUnlockedEvent
+ */
+export function createAchievementUnlockedEvent(params: {
+	id: string;
+	userId: string;
+	userDisplayName: string;
+	achievementId: string;
+	achievementName: string;
+	achievementDescription: string;
+	level: number;
+	/** When the unlock was committed; outbox retries keep the original time. */
+	unlockedAt: string;
+	correlationId?: string;
+}): AchievementUnlockedEvent {
+	return {
+		id: params.id,
+		type: EventType.AchievementUnlocked,
+		v: EVENT_SCHEMA_VERSIONS[EventType.AchievementUnlocked],
+		timestamp: params.unlockedAt,
+		source: EventSource.Achievements,
+		correlationId: params.correlationId,
+		userId: params.userId,
+		userDisplayName: params.userDisplayName,
+		achievementId: params.achievementId,
+		achievementName: params.achievementName,
+		achievementDescription: params.achievementDescription,
+		level: params.level,
+	};
+}
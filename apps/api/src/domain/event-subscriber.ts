@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+import { EventType } from "./domain-event";
+
+/** Consumers the Event Bus fans domain events out to, each with its own delivery state. */
+export const EventSubscriberSchema = z.enum(["achievements", "webhooks"]);
+/** One Event Bus consumer. */
+export type EventSubscriber = z.infer<typeof EventSubscriberSchema>;
+
+/**
+ * Subscribers each event type is delivered to. A subscriber's failures are
+ * retried and dead-lettered on their own without re-delivering to the others.
+ */
+export const EVENT_SUBSCRIPTIONS = {
+	[EventType.SongRequestSuccess]: ["achievements", "webhooks"],
+	[EventType.RaffleRoll]: ["achievements", "webhooks"],
+	[EventType.StreamOnline]: ["achievements", "webhooks"],
+	[EventType.StreamOffline]: ["achievements", "webhooks"],
+	[EventType.SongSkipped]: ["achievements"],
+	[EventType.ChatMessageObserved]: ["achievements"],
+	[EventType.RaidReceived]: ["achievements"],
+	[EventType.AchievementUnlocked]: ["webhooks"],
+} as const satisfies Record<EventType, readonly EventSubscriber[]>;
+
+/** Event types one subscriber receives, in registry order. */
+export function eventTypesForSubscriber(subscriber: EventSubscriber): EventType[] {
+	return (Object.keys(EVENT_SUBSCRIPTIONS) as EventType[]).filter((type) =>
+		(EVENT_SUBSCRIPTIONS[type] as readonly EventSubscriber[]).includes(subscriber),
+	);
+}
+
+/**
+ * How one domain event reaches an Event Subscriber. Replays re-deliver logged
+ * events on an administrator's request; subscribers rebuild state from them but
+ * suppress side effects such as chat announcements.
+ */
+export const EventDeliverySchema = z.object({ replay: z.boolean() });
+/** Live or replayed Event Bus delivery. */
+export type EventDelivery = z.infer<typeof EventDeliverySchema>;
@@ -30,6 +30,18 @@ export const KeyboardRaffleRollSchema = RecordKeyboardRaffleRollSchema.extend({
 /** Parsed Keyboard Raffle Roll with derived Distance and win evidence. */
 export type KeyboardRaffleRoll = z.infer<typeof KeyboardRaffleRollSchema>;
 
+/** Runtime parser for the Roll after which a chronological Roll read resumes. */
+export const KeyboardRaffleRollCursorSchema = z.strictObject({
+	rolledAt: z.iso.datetime({ offset: true }),
+	id: KeyboardRaffleIdentifierSchema,
+});
+
+/** Position in the chronological (rolledAt, id) order of persisted Rolls. */
+export type KeyboardRaffleRollCursor = z.infer<typeof KeyboardRaffleRollCursorSchema>;
+
+/** Runtime parser for a bounded chronological page of persisted Rolls. */
+export const KeyboardRaffleRollPageSchema = z.array(KeyboardRaffleRollSchema).max(100);
+
 /** Runtime parser for one Raffle Leaderboard entry. */
 export const RaffleLeaderboardEntrySchema = z.strictObject({
 	userId: KeyboardRaffleIdentifierSchema,
@@ -51,8 +63,13 @@ export const RaffleLeaderboardSchema = z.array(RaffleLeaderboardEntrySchema).max
 /** Sort order supported by the Raffle Leaderboard. */
 export type RaffleLeaderboardSort = "rolls" | "wins" | "closest";
 
-/** Bounded query for Raffle Leaderboard statistics. */
+/**
+ * Bounded query for Raffle Leaderboard statistics. A window counts only Rolls
+ * made at or after `since` and before `until`; without one, every Roll counts.
+ */
 export type RaffleLeaderboardQuery = Readonly<{
 	sortBy: RaffleLeaderboardSort;
 	limit: number;
+	since?: string;
+	until?: string;
 }>;
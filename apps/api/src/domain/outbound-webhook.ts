@@ -0,0 +1,93 @@
+import { z } from "zod";
+
+import { EventType, type Event } from "./domain-event";
+
+/** Domain happenings an Outbound Webhook can subscribe to. */
+export const OutboundWebhookTopicSchema = z.enum([
+	"stream_online",
+	"stream_offline",
+	"song_request_success",
+	"raffle_win",
+	"achievement_unlocked",
+]);
+/** Outbound Webhook topic. */
+export type OutboundWebhookTopic = z.infer<typeof OutboundWebhookTopicSchema>;
+
+/** Body shape an Outbound Webhook is posted in. */
+export const OutboundWebhookFormatSchema = z.enum(["json", "discord"]);
+/** Outbound Webhook payload format. */
+export type OutboundWebhookFormat = z.infer<typeof OutboundWebhookFormatSchema>;
+
+/** Runtime parser for a server-assigned Outbound Webhook id. */
+export const OutboundWebhookIdSchema = z.uuid();
+
+const OutboundWebhookNameSchema = z.string().trim().min(1).max(100);
+const OutboundWebhookUrlSchema = z.url({ protocol: /^https$/u }).max(2048);
+/** Shared secret the payload HMAC is keyed with; never read back. */
+const OutboundWebhookSecretSchema = z.string().min(16).max(256);
+const OutboundWebhookTopicsSchema = z
+	.array(OutboundWebhookTopicSchema)
+	.min(1)
+	.transform((topics) => [...new Set(topics)]);
+
+/** Runtime parser for a new Outbound Webhook endpoint. */
+export const CreateOutboundWebhookInputSchema = z.strictObject({
+	name: OutboundWebhookNameSchema,
+	url: OutboundWebhookUrlSchema,
+	secret: OutboundWebhookSecretSchema,
+	format: OutboundWebhookFormatSchema.default("json"),
+	topics: OutboundWebhookTopicsSchema,
+	enabled: z.boolean().default(true),
+});
+/** Outbound Webhook endpoint as submitted by an administrator. */
+export type CreateOutboundWebhookInput = z.input<typeof CreateOutboundWebhookInputSchema>;
+
+/** Runtime parser for a partial Outbound Webhook edit; at least one field is required. */
+export const UpdateOutboundWebhookInputSchema = z
+	.strictObject({
+		name: OutboundWebhookNameSchema.optional(),
+		url: OutboundWebhookUrlSchema.optional(),
+		secret: OutboundWebhookSecretSchema.optional(),
+		format: OutboundWebhookFormatSchema.optional(),
+		topics: OutboundWebhookTopicsSchema.optional(),
+		enabled: z.boolean().optional(),
+	})
+	.refine((patch) => Object.values(patch).some((value) => value !== undefined), {
+		message: "At least one field is required",
+	});
+/** Outbound Webhook edit as submitted by an administrator. */
+export type UpdateOutboundWebhookInput = z.input<typeof UpdateOutboundWebhookInputSchema>;
+
+/** Runtime parser for an Outbound Webhook as shown to administrators, without its secret. */
+export const OutboundWebhookSchema = z.object({
+	id: OutboundWebhookIdSchema,
+	name: z.string().min(1),
+	url: z.string().min(1),
+	format: OutboundWebhookFormatSchema,
+	topics: z.array(OutboundWebhookTopicSchema),
+	enabled: z.boolean(),
+	createdAt: z.iso.datetime({ offset: true }),
+	updatedAt: z.iso.datetime({ offset: true }),
+});
+/** An HTTPS endpoint that receives signed posts for the topics it subscribes to. */
+export type OutboundWebhook = z.infer<typeof OutboundWebhookSchema>;
+
+/**
+ * The topic one domain event is posted under, or null when no Outbound Webhook
+ * can subscribe to it. Only winning Rolls are posted.
+ */
+export function outboundWebhookTopicFor(event: Event): OutboundWebhookTopic | null {
+	switch (event.type) {
+		case EventType.StreamOnline:
+		case EventType.StreamOffline:
+		case EventType.SongRequestSuccess:
+		case EventType.AchievementUnlocked:
+			return event.type;
+		case EventType.RaffleRoll:
+			return event.isWinner ? "raffle_win" : null;
+		case EventType.SongSkipped:
+		case EventType.ChatMessageObserved:
+		case EventType.RaidReceived:
+			return null;
+	}
+}
@@ -0,0 +1,139 @@
+/**
+ * Overlay Feed event schemas
+ *
+ * Overlay events are display-oriented notifications pushed to OBS overlays.
+ * Unlike domain events they carry no routing or versioning metadata; each is
+ * stamped with a monotonically increasing cursor when it enters the feed.
+ */
+
+import { z } from "zod";
+
+import { AchievementCategorySchema } from "./achievement";
+import { QueuedTrackSchema } from "./spotify-queue";
+
+/**
+ * Discriminant for overlay events - used by overlay pages to pick a renderer
+ */
+export const OverlayEventType = {
+	NowPlayingChanged: "now_playing_changed",
+	AchievementUnlocked: "achievement_unlocked",
+	RaffleResult: "raffle_result",
+} as const;
+
+export type OverlayEventType = (typeof OverlayEventType)[keyof typeof OverlayEventType];
+
+const OverlayDisplayNameSchema = z.string().min(1).max(512);
+
+/**
+ * Producer-chosen overlay event identity, which alerts share
+ */
+export const OverlayEventIdSchema = z.string().min(1).max(128);
+
+const BaseOverlayEventSchema = z.object({
+	/** Producer-chosen identity; publishing the same id twice is a no-op */
+	id: OverlayEventIdSchema,
+	/** ISO 8601 instant at which the underlying change happened */
+	occurredAt: z.iso.datetime({ offset: true }),
+});
+
+/**
+ * Emitted when the Spotify sync observes a different Now Playing track or request
+ */
+export const NowPlayingChangedOverlayEventSchema = BaseOverlayEventSchema.extend({
+	type: z.literal(OverlayEventType.NowPlayingChanged),
+	/** The new Now Playing track, or null when playback stopped */
+	track: QueuedTrackSchema.nullable(),
+});
+
+export type NowPlayingChangedOverlayEvent = z.infer<typeof NowPlayingChangedOverlayEventSchema>;
+
+/**
+ * Emitted once per Achievement unlock
+ */
+export const AchievementUnlockedOverlayEventSchema = BaseOverlayEventSchema.extend({
+	type: z.literal(OverlayEventType.AchievementUnlocked),
+	userDisplayName: OverlayDisplayNameSchema,
+	achievementId: z.string().min(1).max(128),
+	achievementName: OverlayDisplayNameSchema,
+	achievementDescription: z.string().max(1_024),
+	achievementIcon: z.string().min(1).max(64),
+	category: AchievementCategorySchema,
+});
+
+export type AchievementUnlockedOverlayEvent = z.infer<typeof AchievementUnlockedOverlayEventSchema>;
+
+/**
+ * Emitted once per completed Keyboard Raffle roll
+ */
+export const RaffleResultOverlayEventSchema = BaseOverlayEventSchema.extend({
+	type: z.literal(OverlayEventType.RaffleResult),
+	userDisplayName: OverlayDisplayNameSchema,
+	roll: z.number().int().min(1).max(10000),
+	winningNumber: z.number().int().min(1).max(10000),
+	distance: z.number().int().min(0).max(9999),
+	isWinner: z.boolean(),
+	isNewRecord: z.boolean(),
+});
+
+export type RaffleResultOverlayEvent = z.infer<typeof RaffleResultOverlayEventSchema>;
+
+/**
+ * Discriminated union of all overlay events
+ */
+export const OverlayEventSchema = z.discriminatedUnion("type", [
+	NowPlayingChangedOverlayEventSchema,
+	AchievementUnlockedOverlayEventSchema,
+	RaffleResultOverlayEventSchema,
+]);
+
+export type OverlayEvent = z.infer<typeof OverlayEventSchema>;
+
+/**
+ * Overlay events that are also shown as alert toasts. Raffle results only
+ * become alerts when the roll won.
+ */
+export const OverlayAlertSchema = z.discriminatedUnion("type", [
+	AchievementUnlockedOverlayEventSchema,
+	RaffleResultOverlayEventSchema.extend({ isWinner: z.literal(true) }),
+]);
+
+export type OverlayAlert = z.infer<typeof OverlayAlertSchema>;
+
+/**
+ * Position of an event in the Overlay Feed. Overlays resume after the last
+ * cursor they rendered.
+ */
+export const OverlayFeedCursorSchema = z.number().int().nonnegative();
+
+export type OverlayFeedCursor = z.infer<typeof OverlayFeedCursorSchema>;
+
+/**
+ * Query string accepted when an overlay connects; without a cursor only live
+ * events are streamed.
+ */
+export const OverlayFeedConnectQuerySchema = z
+	.object({ cursor: z.coerce.number().pipe(OverlayFeedCursorSchema).optional() })
+	.strict();
+
+/**
+ * Frames sent to overlay WebSocket connections
+ *
+ * `event` frames are replayed from the resume cursor and then streamed live.
+ * A single `ready` frame marks the end of replay; `truncated` means events
+ * after the resume cursor were already pruned and the overlay should refetch
+ * its state over HTTP.
+ */
+export const OverlayFeedFrameSchema = z.discriminatedUnion("kind", [
+	z.object({
+		kind: z.literal("event"),
+		cursor: OverlayFeedCursorSchema,
+		event: OverlayEventSchema,
+	}),
+	z.object({
+		kind: z.literal("ready"),
+		cursor: OverlayFeedCursorSchema,
+		truncated: z.boolean(),
+	}),
+]);
+
+export type OverlayFeedFrame = z.infer<typeof OverlayFeedFrameSchema>;
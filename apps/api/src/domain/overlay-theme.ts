@@ -0,0 +1,177 @@
+/**
+ * Overlay Theme schemas
+ *
+ * A theme picks a built-in palette and font for the OBS overlay pages and may
+ * override individual color roles. Colors and fonts are restricted to values
+ * that are safe to write into a stylesheet verbatim.
+ */
+
+import { z } from "zod";
+
+/**
+ * Color roles exposed to overlay stylesheets as `--overlay-<role>` variables
+ */
+export const OverlayThemeColorRoleSchema = z.enum([
+	"base",
+	"surface",
+	"text",
+	"subtext",
+	"muted",
+	"accent",
+	"highlight",
+	"success",
+]);
+
+export type OverlayThemeColorRole = z.infer<typeof OverlayThemeColorRoleSchema>;
+
+/**
+ * Hex color in #rgb, #rrggbb, or #rrggbbaa form
+ */
+export const OverlayThemeColorSchema = z
+	.string()
+	.regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i, "Expected a hex color such as #24273a");
+
+/**
+ * Built-in palettes, one per Catppuccin flavor
+ */
+export const OverlayPaletteNameSchema = z.enum([
+	"catppuccin-latte",
+	"catppuccin-frappe",
+	"catppuccin-macchiato",
+	"catppuccin-mocha",
+]);
+
+export type OverlayPaletteName = z.infer<typeof OverlayPaletteNameSchema>;
+
+/**
+ * Allowlisted overlay font choices
+ */
+export const OverlayFontSchema = z.enum([
+	"ibm-plex-mono",
+	"jetbrains-mono",
+	"fira-code",
+	"system-mono",
+	"system-sans",
+]);
+
+export type OverlayFont = z.infer<typeof OverlayFontSchema>;
+
+/**
+ * Theme definition as written by administrators and stored in presets
+ */
+export const OverlayThemeSchema = z
+	.object({
+		palette: OverlayPaletteNameSchema.default("catppuccin-macchiato"),
+		font: OverlayFontSchema.default("ibm-plex-mono"),
+		/** Per-role overrides applied on top of the palette */
+		colors: z.partialRecord(OverlayThemeColorRoleSchema, OverlayThemeColorSchema).default({}),
+	})
+	.strict();
+
+export type OverlayTheme = z.infer<typeof OverlayThemeSchema>;
+
+/**
+ * Preset names are URL slugs and may not shadow a built-in palette, so a
+ * `?theme=` value always means exactly one thing.
+ */
+export const OverlayThemePresetNameSchema = z
+	.string()
+	.regex(/^[a-z0-9][a-z0-9-]{0,47}$/, "Expected a lowercase slug of at most 48 characters")
+	.refine((name) => !OverlayPaletteNameSchema.safeParse(name).success, {
+		message: "Preset names may not reuse a built-in palette name",
+	});
+
+/**
+ * Named theme stored durably and selected with `?theme=<name>`
+ */
+export const OverlayThemePresetSchema = z.object({
+	name: OverlayThemePresetNameSchema,
+	theme: OverlayThemeSchema,
+	createdAt: z.iso.datetime({ offset: true }),
+	updatedAt: z.iso.datetime({ offset: true }),
+});
+
+export type OverlayThemePreset = z.infer<typeof OverlayThemePresetSchema>;
+
+/**
+ * Value of the `?theme=` overlay query parameter: a built-in palette or a
+ * stored preset name
+ */
+export const OverlayThemeSelectionSchema = z.union([
+	OverlayPaletteNameSchema,
+	OverlayThemePresetNameSchema,
+]);
+
+export type OverlayThemeSelection = z.infer<typeof OverlayThemeSelectionSchema>;
+
+/** Catppuccin flavors mapped onto overlay color roles. */
+export const OVERLAY_PALETTES: Readonly<
+	Record<OverlayPaletteName, Readonly<Record<OverlayThemeColorRole, string>>>
+> = {
+	"catppuccin-latte": {
+		base: "#eff1f5",
+		surface: "#ccd0da",
+		text: "#4c4f69",
+		subtext: "#5c5f77",
+		muted: "#8c8fa1",
+		accent: "#ea76cb",
+		highlight: "#df8e1d",
+		success: "#40a02b",
+	},
+	"catppuccin-frappe": {
+		base: "#303446",
+		surface: "#414559",
+		text: "#c6d0f5",
+		subtext: "#b5bfe2",
+		muted: "#838ba7",
+		accent: "#f4b8e4",
+		highlight: "#e5c890",
+		success: "#a6d189",
+	},
+	"catppuccin-macchiato": {
+		base: "#24273a",
+		surface: "#363a4f",
+		text: "#cad3f5",
+		subtext: "#b8c0e0",
+		muted: "#8087a2",
+		accent: "#f5bde6",
+		highlight: "#eed49f",
+		success: "#a6da95",
+	},
+	"catppuccin-mocha": {
+		base: "#1e1e2e",
+		surface: "#313244",
+		text: "#cdd6f4",
+		subtext: "#bac2de",
+		muted: "#7f849c",
+		accent: "#f5c2e7",
+		highlight: "#f9e2af",
+		success: "#a6e3a1",
+	},
+};
+
+/** CSS font stacks for each font choice; OBS renders with locally installed fonts. */
+export const OVERLAY_FONT_STACKS: Readonly<Record<OverlayFont, string>> = {
+	"ibm-plex-mono": '"IBM Plex Mono", ui-monospace, monospace',
+	"jetbrains-mono": '"JetBrains Mono", ui-monospace, monospace',
+	"fira-code": '"Fira Code", ui-monospace, monospace',
+	"system-mono": "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+	"system-sans": 'system-ui, -apple-system, "Segoe UI", sans-serif',
+};
+
+/** Fully resolved colors and font stack for one overlay page. */
+export type ResolvedOverlayTheme = Readonly<{
+	colors: Readonly<Record<OverlayThemeColorRole, string>>;
+	fontFamily: string;
+}>;
+
+/** The theme overlays use when no `?theme=` is given. */
+export const DEFAULT_OVERLAY_THEME: OverlayTheme = OverlayThemeSchema.parse({});
+
+/** Applies a theme's color overrides to its palette and resolves its font stack. */
+export function resolveOverlayTheme(theme: OverlayTheme): ResolvedOverlayTheme {
+	return {
+		colors: { ...OVERLAY_PALETTES[theme.palette], ...theme.colors },
+		fontFamily: OVERLAY_FONT_STACKS[theme.font],
+	};
+}
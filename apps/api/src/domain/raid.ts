@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+/** Runtime parser for recording one incoming Raid. */
+export const RecordRaidSchema = z.strictObject({
+	id: z.string().trim().min(1).max(200),
+	raiderUserId: z.string().trim().min(1).max(200),
+	raiderLogin: z.string().trim().min(1).max(100),
+	raiderDisplayName: z.string().trim().min(1).max(100),
+	viewers: z.number().int().nonnegative(),
+	raidedAt: z.iso.datetime({ offset: true }),
+});
+
+/** Parsed input for recording exactly one incoming Raid. */
+export type RecordRaid = z.infer<typeof RecordRaidSchema>;
+
+/** Runtime parser for one persisted Raid. */
+export const RaidSchema = RecordRaidSchema.extend({
+	streamSessionId: z.string().min(1).nullable(),
+	isNewRecord: z.boolean(),
+});
+
+/** Persisted Raid with the Stream Session it arrived during and its record evidence. */
+export type Raid = z.infer<typeof RaidSchema>;
+
+/** Runtime parser for one Raider's aggregated Raid history. */
+export const TopRaiderSchema = z.strictObject({
+	userId: z.string().min(1),
+	login: z.string().min(1),
+	displayName: z.string().min(1),
+	raids: z.number().int().positive(),
+	totalViewers: z.number().int().nonnegative(),
+	biggestRaid: z.number().int().nonnegative(),
+	lastRaidedAt: z.iso.datetime({ offset: true }),
+});
+
+/** Aggregated Raid history for one Raider. */
+export type TopRaider = z.infer<typeof TopRaiderSchema>;
+
+/** Runtime parser for a bounded Raider ranking. */
+export const TopRaidersSchema = z.array(TopRaiderSchema).max(100);
@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+import { AchievementLeaderboardEntrySchema } from "./achievement";
+import { RaffleLeaderboardEntrySchema } from "./keyboard-raffle";
+
+/** Most Viewers kept in a Season's archived Raffle standings. */
+export const SEASON_STANDINGS_LIMIT = 100;
+
+/** Runtime parser for a Season id: a lowercase slug such as `2026-autumn`. */
+export const SeasonIdSchema = z
+	.string()
+	.trim()
+	.regex(/^[a-z0-9][a-z0-9_-]{0,63}$/u, "Use lowercase letters, digits, _ or -");
+
+/** Season boundaries are stored as UTC ISO strings so they compare as text. */
+const SeasonInstantSchema = z.iso
+	.datetime({ offset: true })
+	.transform((value) => new Date(value).toISOString());
+
+/**
+ * Season lifecycle: `upcoming` before it starts, `active` while it runs,
+ * `ended` once past its end but not yet rolled over, `archived` after rollover.
+ */
+export const SeasonStatusSchema = z.enum(["upcoming", "active", "ended", "archived"]);
+/** Season lifecycle state. */
+export type SeasonStatus = z.infer<typeof SeasonStatusSchema>;
+
+/** Runtime parser for one Season. */
+export const SeasonSchema = z.object({
+	id: SeasonIdSchema,
+	name: z.string().trim().min(1).max(100),
+	startsAt: z.iso.datetime({ offset: true }),
+	endsAt: z.iso.datetime({ offset: true }),
+	/** Whether rollover resets season-scoped Achievement Progress */
+	resetSeasonProgress: z.boolean(),
+	status: SeasonStatusSchema,
+	archivedAt: z.iso.datetime({ offset: true }).nullable(),
+});
+/** Named date range over which season-scoped Achievements and standings accumulate. */
+export type Season = z.infer<typeof SeasonSchema>;
+
+/** Runtime parser for every Season, newest first. */
+export const SeasonsSchema = z.array(SeasonSchema);
+
+/** Runtime parser for an administrator's new Season. */
+export const CreateSeasonInputSchema = z
+	.strictObject({
+		id: SeasonIdSchema,
+		name: z.string().trim().min(1).max(100),
+		startsAt: SeasonInstantSchema,
+		endsAt: SeasonInstantSchema,
+		resetSeasonProgress: z.boolean().default(true),
+	})
+	.refine((season) => season.endsAt > season.startsAt, {
+		message: "A Season must end after it starts",
+		path: ["endsAt"],
+	});
+/** New Season as submitted by an administrator. */
+export type CreateSeasonInput = z.input<typeof CreateSeasonInputSchema>;
+
+/** Derives a Season's lifecycle state at `now`. */
+export function seasonStatus(
+	season: { startsAt: string; endsAt: string; archivedAt: string | null },
+	now: Date,
+): SeasonStatus {
+	if (season.archivedAt !== null) return "archived";
+	const instant = now.getTime();
+	if (instant < Date.parse(season.startsAt)) return "upcoming";
+	return instant < Date.parse(season.endsAt) ? "active" : "ended";
+}
+
+/** Runtime parser for a Season leaderboard query. */
+export const SeasonLeaderboardQuerySchema = z.object({
+	limit: z.number().int().min(1).max(SEASON_STANDINGS_LIMIT).optional().default(10),
+});
+
+/** Runtime parser for one Season's Achievement and Raffle standings. */
+export const SeasonLeaderboardSchema = z.object({
+	season: SeasonSchema,
+	/** Viewers ranked by Achievements unlocked during the Season */
+	achievements: z.array(AchievementLeaderboardEntrySchema).max(SEASON_STANDINGS_LIMIT),
+	/** Raffle Leaderboard by wins, as archived at rollover or live before it */
+	raffle: z.array(RaffleLeaderboardEntrySchema).max(SEASON_STANDINGS_LIMIT),
+});
+/** One Season's standings; archived once the Season rolls over. */
+export type SeasonLeaderboard = z.infer<typeof SeasonLeaderboardSchema>;
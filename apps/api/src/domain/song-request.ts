@@ -35,6 +35,9 @@ export const PendingRequestInputSchema = z.object({
 	requesterUserId: SongRequestDomainIdSchema,
 	requesterDisplayName: SongRequestDisplayTextSchema,
 	requestedAt: SongRequestInstantSchema,
+	/** Channel Point reward and redemption to refund if the Viewer withdraws the request. */
+	rewardId: SongRequestDomainIdSchema.nullable().optional(),
+	redemptionId: SongRequestDomainIdSchema.nullable().optional(),
 });
 
 /** Parsed Pending Request accepted before Spotify Queue mutation. */
@@ -69,6 +72,18 @@ export const RequestHistoryItemSchema = z.object({
 /** Fulfilled Song Request in Request History. */
 export type RequestHistoryItem = z.infer<typeof RequestHistoryItemSchema>;
 
+/** Runtime parser for the Request History item after which a chronological read resumes. */
+export const RequestHistoryCursorSchema = z.strictObject({
+	requestedAt: SongRequestInstantSchema,
+	eventId: SongRequestDomainIdSchema,
+});
+
+/** Position in the chronological (requestedAt, eventId) order of Request History. */
+export type RequestHistoryCursor = z.infer<typeof RequestHistoryCursorSchema>;
+
+/** Runtime parser for a bounded chronological Request History page. */
+export const RequestHistoryPageSchema = z.array(RequestHistoryItemSchema).max(100);
+
 /** Runtime parser for a bounded Request History page. */
 export const RequestHistoryResultSchema = z.object({
 	requests: z.array(RequestHistoryItemSchema).max(100),
@@ -98,3 +113,310 @@ export const TopSongRequesterSchema = z.object({
 
 /** Viewer aggregation grouped by stable Viewer ID. */
 export type TopSongRequester = z.infer<typeof TopSongRequesterSchema>;
+
+/** Runtime parser for Viewer roles that carry their own Song Request Policy. */
+export const SongRequestPolicyPermissionSchema = z.enum(["everyone", "vip", "moderator"]);
+
+/** Viewer role that carries its own Song Request Policy; the broadcaster is never limited. */
+export type SongRequestPolicyPermission = z.infer<typeof SongRequestPolicyPermissionSchema>;
+
+/** Runtime parser for the Viewer role a Song Request is admitted under, including the broadcaster. */
+export const SongRequestPermissionSchema = z.enum(["everyone", "vip", "moderator", "broadcaster"]);
+
+/** Viewer role a Song Request is admitted under; the broadcaster bypasses every policy. */
+export type SongRequestPermission = z.infer<typeof SongRequestPermissionSchema>;
+
+/** Runtime parser for one role's Pending Request quota and per-Viewer cooldown. */
+export const SongRequestPolicySchema = z.object({
+	permission: SongRequestPolicyPermissionSchema,
+	maxPendingRequests: z.number().int().min(0).max(100),
+	cooldownSeconds: z.number().int().min(0).max(86_400),
+});
+
+/** Quota and cooldown applied to Song Requests from one Viewer role. */
+export type SongRequestPolicy = z.infer<typeof SongRequestPolicySchema>;
+
+/** Runtime parser for an administrator replacement of one role's Song Request Policy. */
+export const UpdateSongRequestPolicyInputSchema = SongRequestPolicySchema.omit({
+	permission: true,
+}).strict();
+
+/** Policies applied until an administrator stores an override for the role. */
+export const DEFAULT_SONG_REQUEST_POLICIES: Readonly<
+	Record<SongRequestPolicyPermission, SongRequestPolicy>
+> = {
+	everyone: { permission: "everyone", maxPendingRequests: 2, cooldownSeconds: 300 },
+	vip: { permission: "vip", maxPendingRequests: 4, cooldownSeconds: 120 },
+	moderator: { permission: "moderator", maxPendingRequests: 10, cooldownSeconds: 0 },
+};
+
+/** Runtime parser for one Song Request Policy check; the checked request itself is excluded. */
+export const SongRequestPolicyCheckSchema = z.object({
+	eventId: SongRequestDomainIdSchema,
+	requesterUserId: SongRequestDomainIdSchema,
+	permission: SongRequestPolicyPermissionSchema,
+	requestedAt: SongRequestInstantSchema,
+});
+
+/** Parsed Song Request Policy check for one Viewer and role. */
+export type SongRequestPolicyCheck = z.infer<typeof SongRequestPolicyCheckSchema>;
+
+/** Runtime parser for the outcome of a Song Request Policy check. */
+export const SongRequestPolicyDecisionSchema = z.discriminatedUnion("_tag", [
+	z.object({
+		_tag: z.literal("SongRequestAllowed"),
+		permission: SongRequestPermissionSchema,
+	}),
+	z.object({
+		_tag: z.literal("PendingRequestLimitReached"),
+		permission: SongRequestPolicyPermissionSchema,
+		pendingRequests: z.number().int().nonnegative(),
+		maxPendingRequests: z.number().int().nonnegative(),
+	}),
+	z.object({
+		_tag: z.literal("SongRequestCoolingDown"),
+		permission: SongRequestPolicyPermissionSchema,
+		cooldownSeconds: z.number().int().positive(),
+		retryAfterSeconds: z.number().int().positive(),
+	}),
+]);
+
+/** Whether a Viewer may add another Song Request, and why not when rejected. */
+export type SongRequestPolicyDecision = z.infer<typeof SongRequestPolicyDecisionSchema>;
+
+/**
+ * Applies one role's quota and cooldown to a Viewer's outstanding and most recent Song Requests.
+ * The quota counts Pending Requests; the cooldown runs from the latest pending or played request.
+ */
+export function evaluateSongRequestPolicy(
+	policy: SongRequestPolicy,
+	activity: { readonly pendingRequests: number; readonly lastRequestedAt: string | null },
+	requestedAt: string,
+): SongRequestPolicyDecision {
+	if (activity.pendingRequests >= policy.maxPendingRequests) {
+		return {
+			_tag: "PendingRequestLimitReached",
+			permission: policy.permission,
+			pendingRequests: activity.pendingRequests,
+			maxPendingRequests: policy.maxPendingRequests,
+		};
+	}
+
+	if (policy.cooldownSeconds > 0 && activity.lastRequestedAt !== null) {
+		const elapsedMs = Date.parse(requestedAt) - Date.parse(activity.lastRequestedAt);
+		const remainingMs = policy.cooldownSeconds * 1000 - elapsedMs;
+		if (remainingMs > 0) {
+			return {
+				_tag: "SongRequestCoolingDown",
+				permission: policy.permission,
+				cooldownSeconds: policy.cooldownSeconds,
+				retryAfterSeconds: Math.ceil(remainingMs / 1000),
+			};
+		}
+	}
+
+	return { _tag: "SongRequestAllowed", permission: policy.permission };
+}
+
+/** Runtime parser for the explicit and duration rules applied to every requested Spotify Track. */
+export const TrackContentRulesSchema = z.object({
+	banExplicit: z.boolean(),
+	maxDurationSeconds: z.number().int().min(30).max(3_600).nullable(),
+});
+
+/** Channel-wide Track Content Rules; a null maximum leaves duration unrestricted. */
+export type TrackContentRules = z.infer<typeof TrackContentRulesSchema>;
+
+/** Runtime parser for an administrator replacement of the Track Content Rules. */
+export const UpdateTrackContentRulesInputSchema = TrackContentRulesSchema.strict();
+
+/** Rules applied until an administrator stores an override. */
+export const DEFAULT_TRACK_CONTENT_RULES: TrackContentRules = {
+	banExplicit: false,
+	maxDurationSeconds: null,
+};
+
+const SpotifyCatalogIdSchema = z.string().regex(/^[a-zA-Z0-9]{1,64}$/);
+
+/** Runtime parser for the Spotify catalog object a Track Blocklist entry bans. */
+export const TrackBlocklistKindSchema = z.enum(["track", "artist"]);
+
+/** Spotify catalog object a Track Blocklist entry bans. */
+export type TrackBlocklistKind = z.infer<typeof TrackBlocklistKindSchema>;
+
+/** Runtime parser for one banned Spotify Track or artist. */
+export const TrackBlocklistEntrySchema = z.object({
+	kind: TrackBlocklistKindSchema,
+	spotifyId: SpotifyCatalogIdSchema,
+	label: SongRequestDisplayTextSchema.nullable(),
+	createdAt: SongRequestInstantSchema,
+});
+
+/** One banned Spotify Track or artist; the label is a moderator-facing reminder only. */
+export type TrackBlocklistEntry = z.infer<typeof TrackBlocklistEntrySchema>;
+
+/** Runtime parser for the identity of one Track Blocklist entry. */
+export const TrackBlocklistKeySchema = z.strictObject({
+	kind: TrackBlocklistKindSchema,
+	spotifyId: SpotifyCatalogIdSchema,
+});
+
+/** Identity of one Track Blocklist entry. */
+export type TrackBlocklistKey = z.infer<typeof TrackBlocklistKeySchema>;
+
+/** Runtime parser for an administrator addition to the Track Blocklist. */
+export const AddTrackBlocklistEntryInputSchema = z.strictObject({
+	kind: TrackBlocklistKindSchema,
+	spotifyId: SpotifyCatalogIdSchema,
+	label: SongRequestDisplayTextSchema.nullable().default(null),
+});
+
+/** Parsed administrator addition to the Track Blocklist. */
+export type AddTrackBlocklistEntryInput = z.infer<typeof AddTrackBlocklistEntryInputSchema>;
+
+/** Runtime parser for the stored rules and blocklist shown to administrators. */
+export const TrackContentFilterSchema = z.object({
+	rules: TrackContentRulesSchema,
+	blocklist: z.array(TrackBlocklistEntrySchema),
+});
+
+/** Stored Track Content Rules together with the full Track Blocklist. */
+export type TrackContentFilter = z.infer<typeof TrackContentFilterSchema>;
+
+/** Runtime parser for the Spotify Track attributes the content filter inspects. */
+export const TrackContentCheckSchema = z.object({
+	trackId: SongRequestDomainIdSchema,
+	artistIds: z.array(SongRequestDomainIdSchema),
+	explicit: z.boolean(),
+	durationMs: z.number().int().nonnegative().nullable(),
+});
+
+/** Spotify Track attributes checked against the content filter; null duration is unknown. */
+export type TrackContentCheck = z.infer<typeof TrackContentCheckSchema>;
+
+/** Runtime parser for the outcome of a content filter check. */
+export const TrackContentDecisionSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("TrackContentAllowed") }),
+	z.object({
+		_tag: z.literal("TrackBlocklisted"),
+		trackId: SongRequestDomainIdSchema,
+		label: SongRequestDisplayTextSchema.nullable(),
+	}),
+	z.object({
+		_tag: z.literal("ArtistBlocklisted"),
+		artistId: SongRequestDomainIdSchema,
+		label: SongRequestDisplayTextSchema.nullable(),
+	}),
+	z.object({ _tag: z.literal("ExplicitTrackBanned") }),
+	z.object({
+		_tag: z.literal("TrackTooLong"),
+		durationSeconds: z.number().int().positive(),
+		maxDurationSeconds: z.number().int().positive(),
+	}),
+]);
+
+/** Whether a Spotify Track may be requested, and which rule rejected it otherwise. */
+export type TrackContentDecision = z.infer<typeof TrackContentDecisionSchema>;
+
+/**
+ * Applies the Track Blocklist before the channel-wide rules so the rejection names the most
+ * specific reason. Unknown durations never trip the duration limit.
+ */
+export function evaluateTrackContent(
+	rules: TrackContentRules,
+	blocklist: readonly TrackBlocklistEntry[],
+	track: TrackContentCheck,
+): TrackContentDecision {
+	const bannedTrack = blocklist.find(
+		(entry) => entry.kind === "track" && entry.spotifyId === track.trackId,
+	);
+	if (bannedTrack) {
+		return { _tag: "TrackBlocklisted", trackId: track.trackId, label: bannedTrack.label };
+	}
+
+	const bannedArtist = blocklist.find(
+		(entry) => entry.kind === "artist" && track.artistIds.includes(entry.spotifyId),
+	);
+	if (bannedArtist) {
+		return {
+			_tag: "ArtistBlocklisted",
+			artistId: bannedArtist.spotifyId,
+			label: bannedArtist.label,
+		};
+	}
+
+	if (rules.banExplicit && track.explicit) return { _tag: "ExplicitTrackBanned" };
+
+	if (
+		rules.maxDurationSeconds !== null &&
+		track.durationMs !== null &&
+		track.durationMs > rules.maxDurationSeconds * 1000
+	) {
+		return {
+			_tag: "TrackTooLong",
+			durationSeconds: Math.ceil(track.durationMs / 1000),
+			maxDurationSeconds: rules.maxDurationSeconds,
+		};
+	}
+
+	return { _tag: "TrackContentAllowed" };
+}
+
+/** Runtime parser for how a moderator picks the Pending Request to remove. */
+export const SongRequestSelectorSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("QueuePosition"), position: SongRequestLimitSchema }),
+	z.object({ _tag: z.literal("Requester"), displayName: SongRequestDisplayTextSchema }),
+]);
+
+/**
+ * Picks either the upcoming Spotify Queue entry at a 1-based position, as numbered by the queue
+ * command, or the named Viewer's most recent upcoming Pending Request.
+ */
+export type SongRequestSelector = z.infer<typeof SongRequestSelectorSchema>;
+
+/** Runtime parser for a Pending Request taken out of the Spotify Queue. */
+export const RemovedSongRequestSchema = z.object({
+	eventId: SongRequestDomainIdSchema,
+	trackId: SongRequestDomainIdSchema,
+	trackName: SongRequestDisplayTextSchema,
+	requesterUserId: SongRequestDomainIdSchema,
+	requesterDisplayName: SongRequestDisplayTextSchema,
+});
+
+/** Pending Request taken out of the Spotify Queue before it was played. */
+export type RemovedSongRequest = z.infer<typeof RemovedSongRequestSchema>;
+
+/** Runtime parser for the outcome of a moderator removing one Pending Request. */
+export const SongRequestRemovalSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("SongRequestRemoved"), request: RemovedSongRequestSchema }),
+	z.object({ _tag: z.literal("SongRequestNotFound") }),
+]);
+
+/** Outcome of a moderator removing one Pending Request. */
+export type SongRequestRemoval = z.infer<typeof SongRequestRemovalSchema>;
+
+/** Runtime parser for the outcome of a Viewer withdrawing their latest Pending Request. */
+export const SongRequestWithdrawalSchema = z.discriminatedUnion("_tag", [
+	z.object({
+		_tag: z.literal("SongRequestWithdrawn"),
+		request: RemovedSongRequestSchema,
+		refunded: z.boolean(),
+	}),
+	z.object({ _tag: z.literal("SongRequestNowPlaying"), request: RemovedSongRequestSchema }),
+	z.object({ _tag: z.literal("SongRequestNotFound") }),
+]);
+
+/**
+ * Outcome of a Viewer withdrawing their latest Pending Request. A request that already reached
+ * Now Playing is left alone; otherwise it is removed and its redemption refunded when possible.
+ */
+export type SongRequestWithdrawal = z.infer<typeof SongRequestWithdrawalSchema>;
+
+/** Runtime parser for the outcome of clearing every upcoming Pending Request. */
+export const SongRequestsClearedSchema = z.object({
+	removed: z.number().int().nonnegative(),
+	failed: z.number().int().nonnegative(),
+});
+
+/** Counts of upcoming Pending Requests removed, and of those Spotify refused to remove. */
+export type SongRequestsCleared = z.infer<typeof SongRequestsClearedSchema>;
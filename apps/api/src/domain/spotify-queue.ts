@@ -59,3 +59,67 @@ export const NowPlayingSchema = z.object({
 
 /** Now Playing application contract. */
 export type NowPlaying = z.infer<typeof NowPlayingSchema>;
+
+/** Runtime parser for the number of Skip Votes required to skip Now Playing. */
+export const SkipVoteThresholdSchema = z.discriminatedUnion("kind", [
+	z.object({
+		kind: z.literal("votes"),
+		votes: z.number().int().min(1).max(1_000),
+	}),
+	z.object({
+		kind: z.literal("viewer-percentage"),
+		percentage: z.number().int().min(1).max(100),
+		minimumVotes: z.number().int().min(1).max(1_000),
+	}),
+]);
+
+/** Absolute or viewer-relative Skip Vote threshold. */
+export type SkipVoteThreshold = z.infer<typeof SkipVoteThresholdSchema>;
+
+/**
+ * Resolve the Skip Votes required for a threshold.
+ *
+ * Viewer-relative thresholds fall back to their minimum when no live viewer count is known.
+ */
+export function requiredSkipVotes(
+	threshold: SkipVoteThreshold,
+	viewerCount: number | null,
+): number {
+	if (threshold.kind === "votes") return threshold.votes;
+	if (viewerCount === null) return threshold.minimumVotes;
+	return Math.max(threshold.minimumVotes, Math.ceil((viewerCount * threshold.percentage) / 100));
+}
+
+/** Runtime parser for one Viewer's Skip Vote against Now Playing. */
+export const SkipVoteInputSchema = z.object({
+	userId: z.string().min(1).max(128),
+	userDisplayName: SpotifyQueueDisplayTextSchema,
+	votedAt: SpotifyQueueInstantSchema,
+});
+
+/** One Viewer's Skip Vote against Now Playing. */
+export type SkipVoteInput = z.infer<typeof SkipVoteInputSchema>;
+
+const SkipVoteTrackSchema = z.object({
+	id: z.string().min(1).max(128),
+	name: SpotifyQueueDisplayTextSchema,
+});
+
+const SkipVoteTallySchema = z.object({
+	track: SkipVoteTrackSchema,
+	votes: z.number().int().nonnegative(),
+	requiredVotes: z.number().int().positive(),
+});
+
+/** Runtime parser for the outcome of casting a Skip Vote. */
+export const SkipVoteResultSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("NothingPlaying") }),
+	SkipVoteTallySchema.extend({
+		_tag: z.literal("SkipVoteRecorded"),
+		alreadyVoted: z.boolean(),
+	}),
+	SkipVoteTallySchema.extend({ _tag: z.literal("TrackSkipped") }),
+]);
+
+/** Outcome of casting a Skip Vote against Now Playing. */
+export type SkipVoteResult = z.infer<typeof SkipVoteResultSchema>;
@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+import { ViewerAchievementProgressSchema } from "./achievement";
+import { RaffleLeaderboardEntrySchema } from "./keyboard-raffle";
+import { TopRequestedTrackSchema } from "./song-request";
+
+/** Most recent activity entries a Viewer Profile shows. */
+export const VIEWER_PROFILE_ACTIVITY_LIMIT = 20;
+
+/** Most requested Spotify Tracks a Viewer Profile shows. */
+export const VIEWER_PROFILE_TOP_TRACK_LIMIT = 5;
+
+/** Runtime parser for a profile lookup: a Twitch login or display name, with or without `@`. */
+export const ViewerProfileLookupSchema = z
+	.string()
+	.trim()
+	.transform((value) => value.replace(/^@+/u, ""))
+	.pipe(z.string().min(1).max(100));
+
+/** Runtime parser for one entry of a Viewer's recent activity. */
+export const ViewerActivitySchema = z.discriminatedUnion("kind", [
+	z.object({
+		kind: z.literal("song_request"),
+		occurredAt: z.iso.datetime({ offset: true }),
+		trackId: z.string().min(1),
+	}),
+	z.object({
+		kind: z.literal("raffle_roll"),
+		occurredAt: z.iso.datetime({ offset: true }),
+		roll: z.number().int(),
+		distance: z.number().int().nonnegative(),
+		isWinner: z.boolean(),
+	}),
+	z.object({
+		kind: z.literal("raid"),
+		occurredAt: z.iso.datetime({ offset: true }),
+		viewers: z.number().int().nonnegative(),
+	}),
+	z.object({
+		kind: z.literal("achievement_unlocked"),
+		occurredAt: z.iso.datetime({ offset: true }),
+		achievementId: z.string().min(1),
+		name: z.string().min(1),
+	}),
+]);
+/** One Song Request, Roll, Raid, or Achievement unlock in a Viewer's timeline. */
+export type ViewerActivity = z.infer<typeof ViewerActivitySchema>;
+
+/** Runtime parser for a Viewer's Request Streak record. */
+export const ViewerRequestStreakSchema = z.object({
+	sessionStreak: z.number().int().nonnegative(),
+	longestStreak: z.number().int().nonnegative(),
+	lastRequestAt: z.iso.datetime({ offset: true }).nullable(),
+});
+/** A Viewer's current and longest Request Streak. */
+export type ViewerRequestStreak = z.infer<typeof ViewerRequestStreakSchema>;
+
+/** Runtime parser for the Achievements share of a Viewer Profile. */
+export const ViewerAchievementProfileSchema = z.object({
+	userId: z.string().min(1),
+	userDisplayName: z.string().min(1),
+	achievements: z.array(ViewerAchievementProgressSchema),
+	requestStreak: ViewerRequestStreakSchema.nullable(),
+	/** Newest first, at most `VIEWER_PROFILE_ACTIVITY_LIMIT` entries */
+	recentActivity: z.array(ViewerActivitySchema).max(VIEWER_PROFILE_ACTIVITY_LIMIT),
+});
+/** Everything Achievements knows about one Viewer, keyed by their stable user id. */
+export type ViewerAchievementProfile = z.infer<typeof ViewerAchievementProfileSchema>;
+
+/** Runtime parser for a complete Viewer Profile. */
+export const ViewerProfileSchema = z.object({
+	userId: z.string().min(1),
+	displayName: z.string().min(1),
+	songRequests: z.object({
+		total: z.number().int().nonnegative(),
+		topTracks: z.array(TopRequestedTrackSchema).max(VIEWER_PROFILE_TOP_TRACK_LIMIT),
+	}),
+	/** Null when the Viewer has never rolled */
+	raffle: RaffleLeaderboardEntrySchema.nullable(),
+	achievements: z.object({
+		unlocked: z.number().int().nonnegative(),
+		total: z.number().int().nonnegative(),
+		progress: z.array(ViewerAchievementProgressSchema),
+	}),
+	requestStreak: ViewerRequestStreakSchema.nullable(),
+	recentActivity: z.array(ViewerActivitySchema).max(VIEWER_PROFILE_ACTIVITY_LIMIT),
+});
+/** One Viewer's Song Requests, Rolls, Achievements, and recent activity in one view. */
+export type ViewerProfile = z.infer<typeof ViewerProfileSchema>;
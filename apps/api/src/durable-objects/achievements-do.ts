@@ -7,13 +7,32 @@
 
 import { Agent, type AgentContext } from "agents";
 import { Result } from "better-result";
-import { and, count, desc, eq, gt, inArray, isNotNull, isNull, ne } from "drizzle-orm";
+import {
+	and,
+	asc,
+	count,
+	countDistinct,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+	ne,
+	sql,
+} from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
 import { z } from "zod";
 
 import migrations from "../../drizzle/achievements-do/migrations";
 import { DurableObjectTwitchAccessTokens } from "../adapters/cloudflare/durable-object-access-tokens";
+import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durable-object-domain-event-publisher";
+import { DurableObjectOverlayFeed } from "../adapters/cloudflare/durable-object-overlay-feed";
+import { DurableObjectRaffleStatistics } from "../adapters/cloudflare/durable-object-raffle-statistics";
+import { DurableObjectSongQueue } from "../adapters/cloudflare/durable-object-song-queue";
 import {
 	ProviderAccessTokenError,
 	type TwitchAccessTokens,
@@ -21,39 +40,123 @@ import {
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
 import {
+	AchievementBackfillChangeSchema,
+	AchievementBackfillRunSchema,
 	AchievementCategorySchema,
+	AchievementDefinitionIdSchema,
 	AchievementDefinitionSchema,
 	AchievementLeaderboardEntrySchema,
+	AchievementRuleExpressionSchema,
+	AchievementTiersSchema,
 	AchievementTriggerEventSchema,
+	achievementLevelForProgress,
+	achievementRarityPercentage,
+	CreateAchievementDefinitionInputSchema,
+	describeAchievementLevel,
+	findUnsupportedAchievementRule,
+	formatAchievementRarity,
+	formatAchievementWithLevel,
+	ManagedAchievementDefinitionSchema,
+	maxAchievementLevel,
+	nextAchievementLevelThreshold,
+	StartAchievementBackfillInputSchema,
 	UnlockedAchievementSchema,
+	UpdateAchievementDefinitionInputSchema,
+	type AchievementBackfillChange,
+	type AchievementBackfillRun,
 	type AchievementDebugTableCounts,
 	type AchievementDebugUserSnapshot,
 	type AchievementDefinition,
+	type AchievementDefinitionUpdateResult,
+	type AchievementDefinitionWithRarity,
 	type AchievementLeaderboardEntry,
+	type AchievementRarity,
+	type AchievementUnlocker,
+	type ManagedAchievementDefinition,
 	type UnlockedAchievement,
 	type ViewerAchievementProgress,
 } from "../domain/achievement";
-import { EventSchema, EventType, type Event } from "../domain/domain-event";
+import {
+	AchievementModerationAuditQuerySchema,
+	AchievementModerationEntriesSchema,
+	AchievementModerationInputSchema,
+	type AchievementModerationEntry,
+} from "../domain/achievement-moderation";
+import {
+	createAchievementUnlockedEvent,
+	createRaffleRollEvent,
+	createSongRequestSuccessEvent,
+	EventType,
+	VersionedEventSchema,
+	type Event,
+} from "../domain/domain-event";
+import { EventDeliverySchema } from "../domain/event-subscriber";
+import {
+	KeyboardRaffleRollCursorSchema,
+	type RaffleLeaderboardEntry,
+} from "../domain/keyboard-raffle";
+import { OverlayEventType } from "../domain/overlay-event";
+import {
+	CreateSeasonInputSchema,
+	SEASON_STANDINGS_LIMIT,
+	SeasonIdSchema,
+	SeasonLeaderboardQuerySchema,
+	SeasonLeaderboardSchema,
+	SeasonSchema,
+	seasonStatus,
+	type Season,
+	type SeasonLeaderboard,
+} from "../domain/season";
+import { RequestHistoryCursorSchema } from "../domain/song-request";
+import {
+	VIEWER_PROFILE_ACTIVITY_LIMIT,
+	ViewerActivitySchema,
+	ViewerProfileLookupSchema,
+	type ViewerAchievementProfile,
+	type ViewerActivity,
+} from "../domain/viewer-profile";
 import {
 	AchievementStreamOfflineResultCodec,
 	AchievementStreamOnlineResultCodec,
+	CreateAchievementDefinitionResultCodec,
+	CreateSeasonResultCodec,
+	GetAchievementBackfillRunResultCodec,
 	GetAchievementDefinitionsResultCodec,
 	GetAchievementLeaderboardResultCodec,
+	GetAchievementModerationAuditResultCodec,
 	GetAchievementTableCountsResultCodec,
 	GetAchievementUserSnapshotResultCodec,
+	GetSeasonLeaderboardResultCodec,
 	GetUnannouncedAchievementsResultCodec,
 	GetUnlockedAchievementsResultCodec,
+	GetViewerAchievementProfileResultCodec,
 	GetViewerAchievementsResultCodec,
+	GrantAchievementResultCodec,
 	HandleAchievementEventResultCodec,
+	ListManagedAchievementDefinitionsResultCodec,
+	ListSeasonsResultCodec,
 	RecordAchievementEventResultCodec,
 	ResetOneTimeAchievementsResultCodec,
+	RetireAchievementDefinitionResultCodec,
+	RevokeAchievementResultCodec,
+	RollOverSeasonResultCodec,
+	StartAchievementBackfillResultCodec,
+	UpdateAchievementDefinitionResultCodec,
 } from "../lib/achievement-rpc-result-codecs";
 import { writeAchievementUnlockMetric } from "../lib/analytics";
 import { rpc } from "../lib/durable-objects";
 import {
+	AchievementBackfillInProgressError,
 	AchievementDbError,
+	AchievementDefinitionConflictError,
+	AchievementDefinitionValidationError,
 	AchievementEventValidationError,
+	AchievementModerationConflictError,
+	AchievementNotFoundError,
 	AchievementQueryValidationError,
+	AchievementSeasonConflictError,
+	AchievementSeasonNotFoundError,
+	AchievementViewerNotFoundError,
 	DurableObjectError,
 	InvalidAchievementRecordError,
 	TokenUnavailableWhileStreamOfflineError,
@@ -64,22 +167,51 @@ import {
 	type StreamLifecycleHandler,
 } from "../lib/errors";
 import { logger } from "../lib/logger";
+import { deriveSagaEventId } from "../lib/saga-event-id";
 import { TwitchService } from "../services/twitch-service";
+import {
+	creditableAchievementDefinitions,
+	replayAchievementBackfill,
+	type AchievementBackfillEvent,
+	type AchievementBackfillInput,
+	type AchievementBackfillReplay,
+	type AchievementBackfillViewer,
+	type AchievementEventCredit,
+} from "./achievements/backfill";
 import {
 	evaluateAchievementRules,
 	type AchievementFacts,
 	type AchievementRuleDefinition,
+	type ViewerEventFact,
 } from "./achievements/rules";
 import * as schema from "./schemas/achievements-do.schema";
 import {
+	achievementBackfillEvents,
+	achievementBackfillRuns,
 	achievementDefinitions,
+	achievementEventCredits,
+	achievementModerationAudit,
 	achievementStreamSession,
 	achievementUnlockOutbox,
 	eventHistory,
+	seasonRaffleStandings,
+	seasons,
+	seasonUserAchievements,
 	userAchievements,
 	userStreaks,
+	type AchievementBackfillRunRecord,
+	type AchievementUnlockOutboxEffect,
+	type SeasonRecord,
 } from "./schemas/achievements-do.schema";
 
+import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
+import type { OverlayFeedPublisher } from "../capabilities/overlay-feed";
+import type {
+	RaffleRollHistory,
+	RaffleStatistics,
+	RaffleStatisticsReadError,
+} from "../capabilities/raffle-statistics";
+import type { RequestHistoryReplay, SongQueueFailure } from "../capabilities/song-queue";
 import type { Env } from "../index";
 
 // =============================================================================
@@ -90,7 +222,7 @@ import type { Env } from "../index";
 export const AchievementEventInputSchema = z.object({
 	userId: z.string().min(1),
 	userDisplayName: z.string().min(1),
-	event: AchievementTriggerEventSchema,
+	event: AchievementTriggerEventSchema.exclude(["rule"]),
 	eventId: z.string().min(1), // idempotency key
 	increment: z.number().int().positive().optional().default(1),
 	metadata: z.record(z.string(), z.unknown()).optional(),
@@ -99,12 +231,91 @@ export const AchievementEventInputSchema = z.object({
 export type AchievementEventInput = z.infer<typeof AchievementEventInputSchema>;
 
 const ANNOUNCEMENT_RETRY_DELAYS_SECONDS = [3, 5, 10] as const;
+const DOMAIN_EVENT_RETRY_DELAYS_SECONDS = [5, 30, 120, 600] as const;
 
 const AchievementUnlockEffectPayloadSchema = z.object({
 	effectId: z.string().min(1),
 });
 
-const AchievementDefinitionRecordSchema = AchievementDefinitionSchema;
+/** Rule expressions are stored as JSON text. */
+const StoredRuleExpressionSchema = z
+	.string()
+	.nullable()
+	.transform((value, ctx): unknown => {
+		if (value === null) return null;
+		try {
+			return JSON.parse(value);
+		} catch {
+			ctx.addIssue({ code: "custom", message: "Rule expression is not valid JSON" });
+			return z.NEVER;
+		}
+	})
+	.pipe(AchievementRuleExpressionSchema.nullable());
+
+/** Tier thresholds are stored as JSON text. */
+const StoredTiersSchema = z
+	.string()
+	.nullable()
+	.transform((value, ctx): unknown => {
+		if (value === null) return null;
+		try {
+			return JSON.parse(value);
+		} catch {
+			ctx.addIssue({ code: "custom", message: "Tiers are not valid JSON" });
+			return z.NEVER;
+		}
+	})
+	.pipe(AchievementTiersSchema.nullable());
+
+const AchievementDefinitionRecordSchema = AchievementDefinitionSchema.extend({
+	rule: StoredRuleExpressionSchema,
+	tiers: StoredTiersSchema,
+});
+
+const ManagedAchievementDefinitionRecordSchema = ManagedAchievementDefinitionSchema.extend({
+	rule: StoredRuleExpressionSchema,
+	tiers: StoredTiersSchema,
+});
+
+/** Event history metadata read back as Achievement Rule Expression facts. */
+const ViewerEventMetadataSchema = z.object({
+	artistIds: z.array(z.string()).default([]),
+	isWinner: z.boolean().default(false),
+});
+
+/** Song Request and Raffle Roll history read per Achievement Backfill collection step. */
+const BACKFILL_PAGE_SIZE = 100;
+
+/** Collected events replayed per backfill step; it also keeps `IN (...)` lists small. */
+const BACKFILL_BATCH_SIZE = 50;
+
+const AchievementBackfillStepPayloadSchema = z.object({
+	runId: z.string().min(1),
+});
+
+/** Backfill runs store their dry-run diff as JSON text. */
+const AchievementBackfillRunRecordSchema = AchievementBackfillRunSchema.extend({
+	changes: z
+		.string()
+		.nullable()
+		.transform((value, ctx): unknown => {
+			if (value === null) return null;
+			try {
+				return JSON.parse(value);
+			} catch {
+				ctx.addIssue({ code: "custom", message: "Backfill changes are not valid JSON" });
+				return z.NEVER;
+			}
+		})
+		.pipe(z.array(AchievementBackfillChangeSchema).nullable()),
+});
+
+/** Delay before retrying a scheduled Season rollover that failed. */
+const SEASON_ROLLOVER_RETRY_DELAY_SECONDS = 300;
+
+const SeasonRolloverPayloadSchema = z.object({
+	seasonId: SeasonIdSchema,
+});
 
 const LeaderboardOptionsSchema = z.object({
 	limit: z.number().int().min(1).max(100).optional().default(10),
@@ -123,6 +334,43 @@ export interface LeaderboardOptions {
 	limit?: number;
 }
 
+/** Failures that end an Achievement Backfill run. */
+type AchievementBackfillStepError =
+	| AchievementDbError
+	| InvalidAchievementRecordError
+	| SongQueueFailure
+	| RaffleStatisticsReadError;
+
+/** Reads a stored history cursor; null means collection starts at the oldest entry. */
+function parseAchievementBackfillCursor<T>(
+	value: string | null,
+	schema: z.ZodType<T>,
+): Result<T | null, InvalidAchievementRecordError> {
+	if (value === null) {
+		return Result.ok(null);
+	}
+	let stored: unknown;
+	try {
+		stored = JSON.parse(value);
+	} catch (cause) {
+		return Result.err(
+			new InvalidAchievementRecordError({
+				recordType: "backfill cursor",
+				parseError: String(cause),
+			}),
+		);
+	}
+	const result = schema.safeParse(stored);
+	return result.success
+		? Result.ok(result.data)
+		: Result.err(
+				new InvalidAchievementRecordError({
+					recordType: "backfill cursor",
+					parseError: result.error.message,
+				}),
+			);
+}
+
 function normalizeUserDisplayName(value: string): string {
 	return value.trim().replace(/^@+/, "").toLowerCase();
 }
@@ -131,6 +379,102 @@ function normalizeUserDisplayNameLoose(value: string): string {
 	return normalizeUserDisplayName(value).replaceAll("_", "");
 }
 
+/** Event history types that belong to one Viewer rather than the stream. */
+const VIEWER_EVENT_TYPES = [
+	EventType.SongRequestSuccess,
+	EventType.RaffleRoll,
+	EventType.ChatMessageObserved,
+	EventType.RaidReceived,
+] as const;
+
+/** Event history metadata read back as one Viewer Profile activity entry. */
+const ViewerActivityMetadataSchema = z.record(z.string(), z.unknown());
+
+function toViewerActivity(row: {
+	eventType: string;
+	timestamp: string;
+	metadata: string | null;
+}): ViewerActivity {
+	const metadata = ViewerActivityMetadataSchema.safeParse(JSON.parse(row.metadata ?? "{}"));
+	const kind =
+		row.eventType === EventType.SongRequestSuccess
+			? "song_request"
+			: row.eventType === EventType.RaidReceived
+				? "raid"
+				: "raffle_roll";
+	const result = ViewerActivitySchema.safeParse({
+		...(metadata.success ? metadata.data : {}),
+		kind,
+		occurredAt: row.timestamp,
+	});
+	if (!result.success) {
+		throw new InvalidAchievementRecordError({
+			recordType: "viewer activity",
+			parseError: result.error.message,
+		});
+	}
+	return result.data;
+}
+
+function toViewerAchievementProgress(
+	definitions: readonly AchievementDefinition[],
+	progressRows: readonly {
+		achievementId: string;
+		progress: number;
+		unlockedAt: string | null;
+		level: number;
+	}[],
+): ViewerAchievementProgress[] {
+	const progressById = new Map(progressRows.map((row) => [row.achievementId, row]));
+	return definitions.map((definition) => {
+		const progress = progressById.get(definition.id);
+		const level = progress?.level ?? 0;
+		return {
+			achievementId: definition.id,
+			name: definition.name,
+			description: definition.description,
+			icon: definition.icon,
+			category: AchievementCategorySchema.parse(definition.category),
+			threshold: definition.threshold,
+			tiers: definition.tiers,
+			repeatable: definition.repeatable,
+			progress: progress?.progress ?? 0,
+			unlocked: progress?.unlockedAt !== null && progress?.unlockedAt !== undefined,
+			unlockedAt: progress?.unlockedAt ?? null,
+			level,
+			levelLabel: describeAchievementLevel(definition, level),
+			nextLevelThreshold: nextAchievementLevelThreshold(definition, level),
+		};
+	});
+}
+
+const EMPTY_ACHIEVEMENT_RARITY: AchievementRarity = {
+	unlockedCount: 0,
+	knownViewers: 0,
+	percentage: 0,
+	firstUnlocker: null,
+	latestUnlocker: null,
+};
+
+function toAchievementUnlocker(
+	row: { userId: string; userDisplayName: string; unlockedAt: string | null } | undefined,
+): AchievementUnlocker | null {
+	return row?.unlockedAt == null
+		? null
+		: { userId: row.userId, userDisplayName: row.userDisplayName, unlockedAt: row.unlockedAt };
+}
+
+function toSeason(row: SeasonRecord, now: Date): Season {
+	const result = SeasonSchema.safeParse({ ...row, status: seasonStatus(row, now) });
+	if (!result.success) {
+		throw new InvalidAchievementRecordError({
+			recordType: "season",
+			parseError: result.error.message,
+		});
+	}
+	return result.data;
+}
+
 // =============================================================================
 // AchievementsDO Implementation
 // =============================================================================
@@ -151,6 +495,11 @@ class _AchievementsDO
 	private readonly analytics: Cloudflare.Env["ANALYTICS"];
 	private readonly twitchAccessTokens: TwitchAccessTokens;
 	private readonly twitchService: TwitchService;
+	private readonly overlayFeed: OverlayFeedPublisher;
+	private readonly domainEvents: DomainEventPublisher;
+	private readonly requestHistory: RequestHistoryReplay;
+	private readonly raffleRolls: RaffleRollHistory;
+	private readonly raffleStandings: RaffleStatistics;
 
 	initialState: AchievementsAgentState = {
 		isStreamLive: false,
@@ -171,6 +520,12 @@ class _AchievementsDO
 			configuration: configuration.value.twitch,
 			accessTokens: this.twitchAccessTokens,
 		});
+		this.overlayFeed = new DurableObjectOverlayFeed(env.OVERLAY_FEED_DO, tracer);
+		this.domainEvents = new DurableObjectDomainEventPublisher(env.EVENT_BUS_DO, tracer);
+		this.requestHistory = new DurableObjectSongQueue(env.SONG_QUEUE_DO, tracer);
+		const raffleStatistics = new DurableObjectRaffleStatistics(env.KEYBOARD_RAFFLE_DO, tracer);
+		this.raffleRolls = raffleStatistics;
+		this.raffleStandings = raffleStatistics;
 	}
 
 	async onStart(): Promise<void> {
@@ -247,7 +602,10 @@ class _AchievementsDO
 					}
 
 					const definitionRows = await tx.query.achievementDefinitions.findMany({
-						where: eq(achievementDefinitions.triggerEvent, event),
+						where: and(
+							eq(achievementDefinitions.triggerEvent, event),
+							eq(achievementDefinitions.status, "active"),
+						),
 					});
 					const definitions = definitionRows.map((row) =>
 						this.parseAchievementDefinitionRecord(row),
@@ -262,7 +620,9 @@ class _AchievementsDO
 								eq(userAchievements.achievementId, definition.id),
 							),
 						});
-						if (existing?.unlockedAt !== null && existing !== undefined) {
+						const previousLevel = existing?.level ?? 0;
+						const maxLevel = maxAchievementLevel(definition);
+						if (existing?.unlockedAt != null && maxLevel !== null && previousLevel >= maxLevel) {
 							continue;
 						}
 						const effectiveIncrement = this.calculateIncrement(definition, increment, metadata);
@@ -270,7 +630,11 @@ class _AchievementsDO
 							definition.triggerEvent === "request_streak"
 								? effectiveIncrement
 								: (existing?.progress ?? 0) + effectiveIncrement;
-						const shouldUnlock = this.shouldUnlock(definition, progress);
+						const level = Math.max(
+							previousLevel,
+							achievementLevelForProgress(definition, progress),
+						);
+						const unlockedAt = level >= 1 ? (existing?.unlockedAt ?? now) : null;
 						if (existing === undefined) {
 							await tx.insert(userAchievements).values({
 								id: crypto.randomUUID(),
@@ -278,7 +642,8 @@ class _AchievementsDO
 								userDisplayName,
 								achievementId: definition.id,
 								progress,
-								unlockedAt: shouldUnlock ? now : null,
+								unlockedAt,
+								level,
 								announcementState: "pending",
 								eventId: definition.threshold === null ? eventId : null,
 							});
@@ -288,14 +653,16 @@ class _AchievementsDO
 								.set({
 									userDisplayName,
 									progress,
-									unlockedAt: shouldUnlock ? now : null,
+									unlockedAt,
+									level,
 									eventId: definition.threshold === null ? eventId : existing.eventId,
 								})
 								.where(eq(userAchievements.id, existing.id));
 						}
-						if (!shouldUnlock) {
+						if (level <= previousLevel) {
 							continue;
 						}
+						const levelLabel = describeAchievementLevel(definition, level);
 						newlyUnlocked.push({
 							id: definition.id,
 							name: definition.name,
@@ -303,6 +670,8 @@ class _AchievementsDO
 							icon: definition.icon,
 							category: definition.category,
 							unlockedAt: now,
+							level,
+							levelLabel,
 						});
 						const effectId = `${eventId}:${definition.id}`;
 						await tx
@@ -315,7 +684,10 @@ class _AchievementsDO
 								achievementId: definition.id,
 								achievementName: definition.name,
 								achievementDescription: definition.description,
+								achievementIcon: definition.icon,
 								category: definition.category,
+								level,
+								levelLabel,
 								createdAt: now,
 								updatedAt: now,
 							})
@@ -332,18 +704,9 @@ class _AchievementsDO
 		if (transactionResult.isErr()) {
 			return Result.err(transactionResult.error);
 		}
-		for (const effectId of transactionResult.value.effectIds) {
-			const queueResult = await Result.tryPromise(() =>
-				this.queue("processAchievementUnlockEffects", { effectId }),
-			);
-			if (queueResult.isErr()) {
-				return Result.err(
-					new AchievementDbError({
-						operation: "queueAchievementUnlockEffect",
-						cause: queueResult.error,
-					}),
-				);
-			}
+		const queueResult = await this.queueAchievementUnlockEffects(transactionResult.value.effectIds);
+		if (queueResult.isErr()) {
+			return Result.err(queueResult.error);
 		}
 		return Result.ok(transactionResult.value.newlyUnlocked);
 	}
@@ -357,8 +720,10 @@ class _AchievementsDO
 	): Promise<Result<ViewerAchievementProgress[], AchievementError>> {
 		return Result.tryPromise({
 			try: async () => {
-				// Get all definitions
-				const definitionRows = await this.db.query.achievementDefinitions.findMany();
+				// Get all active definitions
+				const definitionRows = await this.db.query.achievementDefinitions.findMany({
+					where: eq(achievementDefinitions.status, "active"),
+				});
 				const definitions = definitionRows.map((row) => this.parseAchievementDefinitionRecord(row));
 
 				// Get user's progress for all achievements
@@ -366,23 +731,7 @@ class _AchievementsDO
 					where: eq(userAchievements.userDisplayName, userDisplayName),
 				});
 
-				// Map user progress by achievement ID
-				const progressMap = new Map(userProgress.map((p) => [p.achievementId, p]));
-
-				return definitions.map((def) => {
-					const progress = progressMap.get(def.id);
-					return {
-						achievementId: def.id,
-						name: def.name,
-						description: def.description,
-						icon: def.icon,
-						category: AchievementCategorySchema.parse(def.category),
-						threshold: def.threshold,
-						progress: progress?.progress ?? 0,
-						unlocked: progress?.unlockedAt !== null && progress?.unlockedAt !== undefined,
-						unlockedAt: progress?.unlockedAt ?? null,
-					};
-				});
+				return toViewerAchievementProgress(definitions, userProgress);
 			},
 			catch: (cause) =>
 				InvalidAchievementRecordError.is(cause)
@@ -391,6 +740,102 @@ class _AchievementsDO
 		});
 	}
 
+	/**
+	 * Get everything Achievements knows about one Viewer for their profile:
+	 * progress, Request Streak, and recent activity. The lookup matches a login
+	 * or display name case-insensitively, preferring the most recently active
+	 * Viewer; null when no Viewer matches.
+	 */
+	@rpc(GetViewerAchievementProfileResultCodec)
+	async getViewerProfile(
+		viewer: unknown,
+	): Promise<Result<ViewerAchievementProfile | null, AchievementError>> {
+		const viewerResult = ViewerProfileLookupSchema.safeParse(viewer);
+		if (!viewerResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: viewerResult.error.message }),
+			);
+		}
+		const normalizedViewer = normalizeUserDisplayName(viewerResult.data);
+
+		return Result.tryPromise({
+			try: async () => {
+				const identity = await this.findViewerIdentity(normalizedViewer);
+				if (identity === undefined) {
+					return null;
+				}
+
+				const [definitionRows, progressRows, streak, eventRows] = await Promise.all([
+					this.db.query.achievementDefinitions.findMany(),
+					this.db.query.userAchievements.findMany({
+						where: eq(userAchievements.userId, identity.userId),
+					}),
+					this.db.query.userStreaks.findFirst({
+						where: eq(userStreaks.userId, identity.userId),
+					}),
+					this.db.query.eventHistory.findMany({
+						where: and(
+							eq(eventHistory.userId, identity.userId),
+							inArray(eventHistory.eventType, [
+								EventType.SongRequestSuccess,
+								EventType.RaffleRoll,
+								EventType.RaidReceived,
+							]),
+						),
+						orderBy: desc(eventHistory.timestamp),
+						limit: VIEWER_PROFILE_ACTIVITY_LIMIT,
+					}),
+				]);
+				const definitions = definitionRows.map((row) =>
+					this.parseManagedAchievementDefinitionRecord(row),
+				);
+				const namesById = new Map(
+					definitions.map((definition) => [definition.id, definition.name]),
+				);
+				const activity = [
+					...eventRows.map((row) => toViewerActivity(row)),
+					...progressRows.flatMap((row): ViewerActivity[] => {
+						const name = namesById.get(row.achievementId);
+						return row.unlockedAt === null || name === undefined
+							? []
+							: [
+									{
+										kind: "achievement_unlocked",
+										occurredAt: row.unlockedAt,
+										achievementId: row.achievementId,
+										name,
+									},
+								];
+					}),
+				];
+
+				return {
+					userId: identity.userId,
+					userDisplayName: identity.userDisplayName,
+					achievements: toViewerAchievementProgress(
+						definitions.filter((definition) => definition.status === "active"),
+						progressRows,
+					),
+					requestStreak:
+						streak === undefined
+							? null
+							: {
+									sessionStreak: streak.sessionStreak,
+									longestStreak: streak.longestStreak,
+									lastRequestAt: streak.lastRequestAt,
+								},
+					recentActivity: activity
+						.sort((left, right) => Date.parse(right.occurredAt) - Date.parse(left.occurredAt))
+						.slice(0, VIEWER_PROFILE_ACTIVITY_LIMIT),
+				};
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "getViewerProfile", cause }),
+		});
+	}
+
 	/**
 	 * Get only unlocked achievements for a user
 	 */
@@ -408,6 +853,9 @@ class _AchievementsDO
 						icon: achievementDefinitions.icon,
 						category: achievementDefinitions.category,
 						unlockedAt: userAchievements.unlockedAt,
+						level: userAchievements.level,
+						tiers: achievementDefinitions.tiers,
+						repeatable: achievementDefinitions.repeatable,
 					})
 					.from(userAchievements)
 					.innerJoin(
@@ -422,11 +870,17 @@ class _AchievementsDO
 					)
 					.orderBy(desc(userAchievements.unlockedAt));
 
-				return results.flatMap((row) => {
+				return results.flatMap(({ tiers, repeatable, ...row }) => {
 					if (row.unlockedAt === null) {
 						return [];
 					}
-					const result = UnlockedAchievementRecordSchema.safeParse(row);
+					const storedTiers = StoredTiersSchema.safeParse(tiers);
+					const result = UnlockedAchievementRecordSchema.safeParse({
+						...row,
+						levelLabel: storedTiers.success
+							? describeAchievementLevel({ tiers: storedTiers.data, repeatable }, row.level)
+							: null,
+					});
 					if (!result.success) {
 						throw new InvalidAchievementRecordError({
 							recordType: "unlocked progress",
@@ -444,14 +898,23 @@ class _AchievementsDO
 	}
 
 	/**
-	 * Get all achievement definitions
+	 * Get all active achievement definitions with their rarity
 	 */
 	@rpc(GetAchievementDefinitionsResultCodec)
-	async getDefinitions(): Promise<Result<AchievementDefinition[], AchievementError>> {
+	async getDefinitions(): Promise<Result<AchievementDefinitionWithRarity[], AchievementError>> {
 		return Result.tryPromise({
 			try: async () => {
-				const rows = await this.db.query.achievementDefinitions.findMany();
-				return rows.map((row) => this.parseAchievementDefinitionRecord(row));
+				const rows = await this.db.query.achievementDefinitions.findMany({
+					where: eq(achievementDefinitions.status, "active"),
+				});
+				const definitions = rows.map((row) => this.parseAchievementDefinitionRecord(row));
+				const rarities = await this.readAchievementRarities(
+					definitions.map((definition) => definition.id),
+				);
+				return definitions.map((definition) => ({
+					...definition,
+					rarity: rarities.get(definition.id) ?? EMPTY_ACHIEVEMENT_RARITY,
+				}));
 			},
 			catch: (cause) =>
 				InvalidAchievementRecordError.is(cause)
@@ -460,6 +923,404 @@ class _AchievementsDO
 		});
 	}
 
+	/**
+	 * Unlock counts, first and latest unlocker for each given achievement. Any
+	 * Viewer with a progress row counts as known, unlocked or not.
+	 */
+	private async readAchievementRarities(
+		achievementIds: readonly string[],
+	): Promise<Map<string, AchievementRarity>> {
+		const rarities = new Map<string, AchievementRarity>();
+		if (achievementIds.length === 0) {
+			return rarities;
+		}
+		const [known] = await this.db
+			.select({ viewers: countDistinct(userAchievements.userId) })
+			.from(userAchievements);
+		const knownViewers = known?.viewers ?? 0;
+		const unlockCounts = await this.db
+			.select({
+				achievementId: userAchievements.achievementId,
+				unlockedCount: count(userAchievements.id),
+			})
+			.from(userAchievements)
+			.where(
+				and(
+					inArray(userAchievements.achievementId, [...achievementIds]),
+					isNotNull(userAchievements.unlockedAt),
+				),
+			)
+			.groupBy(userAchievements.achievementId);
+
+		for (const { achievementId, unlockedCount } of unlockCounts) {
+			const unlocked = and(
+				eq(userAchievements.achievementId, achievementId),
+				isNotNull(userAchievements.unlockedAt),
+			);
+			const columns = { userId: true, userDisplayName: true, unlockedAt: true } as const;
+			const [first, latest] = await Promise.all([
+				this.db.query.userAchievements.findFirst({
+					columns,
+					where: unlocked,
+					orderBy: [asc(userAchievements.unlockedAt), asc(userAchievements.userId)],
+				}),
+				this.db.query.userAchievements.findFirst({
+					columns,
+					where: unlocked,
+					orderBy: [desc(userAchievements.unlockedAt), desc(userAchievements.userId)],
+				}),
+			]);
+			rarities.set(achievementId, {
+				unlockedCount,
+				knownViewers,
+				percentage: achievementRarityPercentage(unlockedCount, knownViewers),
+				firstUnlocker: toAchievementUnlocker(first),
+				latestUnlocker: toAchievementUnlocker(latest),
+			});
+		}
+		for (const achievementId of achievementIds) {
+			if (!rarities.has(achievementId)) {
+				rarities.set(achievementId, { ...EMPTY_ACHIEVEMENT_RARITY, knownViewers });
+			}
+		}
+		return rarities;
+	}
+
+	// =============================================================================
+	// Definition Administration
+	// =============================================================================
+
+	/**
+	 * List every achievement definition, including disabled and retired ones
+	 */
+	@rpc(ListManagedAchievementDefinitionsResultCodec)
+	async listManagedDefinitions(): Promise<
+		Result<ManagedAchievementDefinition[], AchievementError>
+	> {
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db.query.achievementDefinitions.findMany();
+				return rows.map((row) => this.parseManagedAchievementDefinitionRecord(row));
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "listManagedDefinitions", cause }),
+		});
+	}
+
+	/**
+	 * Create an achievement definition. Progress starts with the next matching
+	 * event; ids stay reserved after retirement.
+	 */
+	@rpc(CreateAchievementDefinitionResultCodec)
+	async createDefinition(
+		input: unknown,
+	): Promise<Result<ManagedAchievementDefinition, AchievementError>> {
+		const parseResult = CreateAchievementDefinitionInputSchema.safeParse(input);
+		if (!parseResult.success) {
+			return Result.err(
+				new AchievementDefinitionValidationError({ parseError: parseResult.error.message }),
+			);
+		}
+		const definition = parseResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const row = await this.db.transaction(async (tx) => {
+					const existing = await tx.query.achievementDefinitions.findFirst({
+						columns: { status: true },
+						where: eq(achievementDefinitions.id, definition.id),
+					});
+					if (existing !== undefined) {
+						throw new AchievementDefinitionConflictError({
+							achievementId: definition.id,
+							reason: existing.status === "retired" ? "retired" : "exists",
+						});
+					}
+					const [created] = await tx
+						.insert(achievementDefinitions)
+						.values({
+							...definition,
+							rule: definition.rule === null ? null : JSON.stringify(definition.rule),
+							tiers: definition.tiers === null ? null : JSON.stringify(definition.tiers),
+							status: "active",
+						})
+						.returning();
+					return created;
+				});
+				logger.info("AchievementsDO: Created achievement definition", {
+					achievementId: definition.id,
+					triggerEvent: definition.triggerEvent,
+					threshold: definition.threshold,
+				});
+				return this.parseManagedAchievementDefinitionRecord(row);
+			},
+			catch: (cause) =>
+				AchievementDefinitionConflictError.is(cause) || InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "createDefinition", cause }),
+		});
+	}
+
+	/**
+	 * Edit or disable/re-enable an achievement definition.
+	 *
+	 * When the threshold or levels change, or the definition is re-enabled,
+	 * Viewers whose existing progress already meets it, or a higher level of it,
+	 * unlock immediately with the usual announcement and overlay effects.
+	 * Unlocks and levels are never revoked by an edit.
+	 */
+	@rpc(UpdateAchievementDefinitionResultCodec)
+	async updateDefinition(
+		achievementId: unknown,
+		patch: unknown,
+	): Promise<Result<AchievementDefinitionUpdateResult, AchievementError>> {
+		const idResult = AchievementDefinitionIdSchema.safeParse(achievementId);
+		if (!idResult.success) {
+			return Result.err(
+				new AchievementDefinitionValidationError({ parseError: idResult.error.message }),
+			);
+		}
+		const patchResult = UpdateAchievementDefinitionInputSchema.safeParse(patch);
+		if (!patchResult.success) {
+			return Result.err(
+				new AchievementDefinitionValidationError({ parseError: patchResult.error.message }),
+			);
+		}
+		const id = idResult.data;
+
+		const transactionResult = await Result.tryPromise({
+			try: async () =>
+				this.db.transaction(async (tx) => {
+					const row = await tx.query.achievementDefinitions.findFirst({
+						where: eq(achievementDefinitions.id, id),
+					});
+					if (row === undefined) {
+						throw new AchievementNotFoundError({ achievementId: id });
+					}
+					const current = this.parseManagedAchievementDefinitionRecord(row);
+					if (current.status === "retired") {
+						throw new AchievementDefinitionConflictError({ achievementId: id, reason: "retired" });
+					}
+					const updated: ManagedAchievementDefinition = { ...current, ...patchResult.data };
+					const unsupported = findUnsupportedAchievementRule(updated);
+					if (unsupported !== null) {
+						throw new AchievementDefinitionValidationError({ parseError: unsupported });
+					}
+					const { rule, tiers, ...fields } = patchResult.data;
+					await tx
+						.update(achievementDefinitions)
+						.set({
+							...fields,
+							...(rule === undefined ? {} : { rule: rule === null ? null : JSON.stringify(rule) }),
+							...(tiers === undefined
+								? {}
+								: { tiers: tiers === null ? null : JSON.stringify(tiers) }),
+						})
+						.where(eq(achievementDefinitions.id, id));
+
+					const effectIds: string[] = [];
+					if (
+						updated.status === "active" &&
+						(updated.threshold !== current.threshold ||
+							updated.status !== current.status ||
+							updated.repeatable !== current.repeatable ||
+							JSON.stringify(updated.tiers) !== JSON.stringify(current.tiers))
+					) {
+						const now = new Date().toISOString();
+						const progressRows = await tx.query.userAchievements.findMany({
+							where: eq(userAchievements.achievementId, id),
+						});
+						for (const progress of progressRows) {
+							const level = achievementLevelForProgress(updated, progress.progress);
+							if (level <= progress.level) {
+								continue;
+							}
+							const levelLabel = describeAchievementLevel(updated, level);
+							await tx
+								.update(userAchievements)
+								.set({
+									unlockedAt: progress.unlockedAt ?? now,
+									level,
+									announcementState: "pending",
+								})
+								.where(eq(userAchievements.id, progress.id));
+							const eventId = `achievement-definition:${id}:${progress.userId}:${now}`;
+							const effectId = `${eventId}:${id}`;
+							await tx
+								.insert(achievementUnlockOutbox)
+								.values({
+									effectId,
+									eventId,
+									userId: progress.userId,
+									userDisplayName: progress.userDisplayName,
+									achievementId: id,
+									achievementName: updated.name,
+									achievementDescription: updated.description,
+									achievementIcon: updated.icon,
+									category: updated.category,
+									level,
+									levelLabel,
+									createdAt: now,
+									updatedAt: now,
+								})
+								.onConflictDoNothing();
+							effectIds.push(effectId);
+						}
+					}
+					return { definition: updated, effectIds };
+				}),
+			catch: (cause) =>
+				AchievementNotFoundError.is(cause) ||
+				AchievementDefinitionConflictError.is(cause) ||
+				AchievementDefinitionValidationError.is(cause) ||
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "updateDefinition", cause }),
+		});
+		if (transactionResult.isErr()) {
+			return Result.err(transactionResult.error);
+		}
+
+		const { definition, effectIds } = transactionResult.value;
+		logger.info("AchievementsDO: Updated achievement definition", {
+			achievementId: id,
+			fields: Object.keys(patchResult.data),
+			unlockedViewers: effectIds.length,
+		});
+		const queueResult = await this.queueAchievementUnlockEffects(effectIds);
+		if (queueResult.isErr()) {
+			return Result.err(queueResult.error);
+		}
+		return Result.ok({ definition, unlockedViewers: effectIds.length });
+	}
+
+	/**
+	 * Retire an achievement definition for good. It stops progressing and leaves
+	 * public listings, while Viewers keep the unlocks they already earned.
+	 * Retiring an already retired definition is a no-op.
+	 */
+	@rpc(RetireAchievementDefinitionResultCodec)
+	async retireDefinition(
+		achievementId: unknown,
+	): Promise<Result<ManagedAchievementDefinition, AchievementError>> {
+		const idResult = AchievementDefinitionIdSchema.safeParse(achievementId);
+		if (!idResult.success) {
+			return Result.err(
+				new AchievementDefinitionValidationError({ parseError: idResult.error.message }),
+			);
+		}
+		const id = idResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const [row] = await this.db
+					.update(achievementDefinitions)
+					.set({ status: "retired" })
+					.where(eq(achievementDefinitions.id, id))
+					.returning();
+				if (row === undefined) {
+					throw new AchievementNotFoundError({ achievementId: id });
+				}
+				logger.info("AchievementsDO: Retired achievement definition", { achievementId: id });
+				return this.parseManagedAchievementDefinitionRecord(row);
+			},
+			catch: (cause) =>
+				AchievementNotFoundError.is(cause) || InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "retireDefinition", cause }),
+		});
+	}
+
+	/**
+	 * Start an Achievement Backfill: collect Song Request and Raffle Roll history,
+	 * then replay it oldest first through the Achievement rules. Events already in
+	 * event history are skipped, so a backfill never double counts. A dry run
+	 * records the progress it would change without writing any.
+	 */
+	@rpc(StartAchievementBackfillResultCodec)
+	async startBackfill(input: unknown): Promise<Result<AchievementBackfillRun, AchievementError>> {
+		const inputResult = StartAchievementBackfillInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+
+		const startResult = await Result.tryPromise({
+			try: async () => {
+				const running = await this.db.query.achievementBackfillRuns.findFirst({
+					where: inArray(achievementBackfillRuns.status, ["collecting", "applying"]),
+				});
+				if (running !== undefined) {
+					throw new AchievementBackfillInProgressError({ runId: running.id });
+				}
+				const now = new Date().toISOString();
+				const [row] = await this.db
+					.insert(achievementBackfillRuns)
+					.values({
+						id: crypto.randomUUID(),
+						mode: inputResult.data.dryRun ? "dry_run" : "apply",
+						status: "collecting",
+						startedAt: now,
+						updatedAt: now,
+					})
+					.returning();
+				if (row === undefined) throw new Error("Achievement Backfill insert returned no row");
+				return this.parseAchievementBackfillRunRecord(row);
+			},
+			catch: (cause) =>
+				AchievementBackfillInProgressError.is(cause) || InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "startBackfill", cause }),
+		});
+		if (startResult.isErr()) {
+			return Result.err(startResult.error);
+		}
+
+		const queueResult = await Result.tryPromise(() =>
+			this.queue("runAchievementBackfillStep", { runId: startResult.value.id }),
+		);
+		if (queueResult.isErr()) {
+			return Result.err(
+				new AchievementDbError({ operation: "queueAchievementBackfill", cause: queueResult.error }),
+			);
+		}
+		logger.info("AchievementsDO: Started achievement backfill", {
+			runId: startResult.value.id,
+			mode: startResult.value.mode,
+		});
+		return Result.ok(startResult.value);
+	}
+
+	/** Read one Achievement Backfill run, or the latest when no id is given. */
+	@rpc(GetAchievementBackfillRunResultCodec)
+	async getBackfillRun(
+		runId: unknown = null,
+	): Promise<Result<AchievementBackfillRun | null, AchievementError>> {
+		const idResult = z.string().min(1).nullable().safeParse(runId);
+		if (!idResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: idResult.error.message }),
+			);
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const row = await this.db.query.achievementBackfillRuns.findFirst({
+					where: idResult.data === null ? undefined : eq(achievementBackfillRuns.id, idResult.data),
+					orderBy: desc(achievementBackfillRuns.startedAt),
+				});
+				return row === undefined ? null : this.parseAchievementBackfillRunRecord(row);
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "getBackfillRun", cause }),
+		});
+	}
+
 	/**
 	 * Debug endpoint: table-level counts for achievements state.
 	 */
@@ -643,6 +1504,9 @@ class _AchievementsDO
 						icon: achievementDefinitions.icon,
 						category: achievementDefinitions.category,
 						unlockedAt: userAchievements.unlockedAt,
+						level: userAchievements.level,
+						tiers: achievementDefinitions.tiers,
+						repeatable: achievementDefinitions.repeatable,
 					})
 					.from(userAchievements)
 					.innerJoin(
@@ -670,6 +1534,11 @@ class _AchievementsDO
 										icon: r.icon,
 										category: AchievementCategorySchema.parse(r.category),
 										unlockedAt: r.unlockedAt,
+										level: r.level,
+										levelLabel: describeAchievementLevel(
+											{ tiers: StoredTiersSchema.parse(r.tiers), repeatable: r.repeatable },
+											r.level,
+										),
 									},
 								},
 							],
@@ -811,6 +1680,7 @@ class _AchievementsDO
 						.set({
 							progress: 0,
 							unlockedAt: null,
+							level: 0,
 							announcementState: "pending",
 							eventId: null,
 						})
@@ -897,6 +1767,18 @@ class _AchievementsDO
 			});
 		}
 
+		await this.announceAchievementUnlock(effect);
+
+		if (effect.overlayState === "pending") {
+			await this.publishAchievementUnlockOverlayEvent(effect);
+		}
+
+		if (effect.domainEventState === "pending") {
+			await this.publishAchievementUnlockedEvent(effect);
+		}
+	}
+
+	private async announceAchievementUnlock(effect: AchievementUnlockOutboxEffect): Promise<void> {
 		if (
 			effect.announcementState === "sent" ||
 			effect.announcementState === "abandoned" ||
@@ -930,7 +1812,10 @@ class _AchievementsDO
 			return;
 		}
 
-		const message = `🏆 @${effect.userDisplayName} unlocked "${effect.achievementName}"! ${effect.achievementDescription}`;
+		const achievement = formatAchievementWithLevel(effect.achievementName, effect.levelLabel);
+		const rarity =
+			effect.level === 1 ? await this.describeUnlockRarity(effect.achievementId) : null;
+		const message = `🏆 @${effect.userDisplayName} unlocked "${achievement}"! ${effect.achievementDescription}${rarity === null ? "" : ` ${rarity}`}`;
 		const sendResult = await this.twitchService.sendChatMessage(message);
 		if (sendResult.status === "ok") {
 			await this.db.transaction(async (tx) => {
@@ -962,6 +1847,141 @@ class _AchievementsDO
 		);
 	}
 
+	/**
+	 * Rarity suffix for a first unlock announcement. Rarity is a nicety, so a
+	 * failed lookup announces the unlock without it.
+	 */
+	private async describeUnlockRarity(achievementId: string): Promise<string | null> {
+		const rarityResult = await Result.tryPromise({
+			try: () => this.readAchievementRarities([achievementId]),
+			catch: (cause) => new AchievementDbError({ operation: "readAchievementRarities", cause }),
+		});
+		if (rarityResult.isErr()) {
+			logger.warn("AchievementsDO: Failed to read achievement rarity", {
+				achievementId,
+				error: rarityResult.error.message,
+			});
+			return null;
+		}
+		const rarity = rarityResult.value.get(achievementId);
+		return rarity === undefined ? null : formatAchievementRarity(rarity);
+	}
+
+	/**
+	 * Push one unlock to the Overlay Feed, keyed by effect so outbox replays stay idempotent.
+	 * A failed publish stays pending and is retried with the next pass over the outbox.
+	 */
+	private async publishAchievementUnlockOverlayEvent(
+		effect: AchievementUnlockOutboxEffect,
+	): Promise<void> {
+		const category = AchievementCategorySchema.safeParse(effect.category);
+		if (!category.success) {
+			logger.warn("AchievementsDO: Invalid unlock effect category", {
+				effectId: effect.effectId,
+				category: effect.category,
+			});
+			return;
+		}
+		const publishResult = await this.overlayFeed.publish({
+			id: effect.effectId,
+			type: OverlayEventType.AchievementUnlocked,
+			occurredAt: effect.createdAt,
+			userDisplayName: effect.userDisplayName,
+			achievementId: effect.achievementId,
+			achievementName: formatAchievementWithLevel(effect.achievementName, effect.levelLabel),
+			achievementDescription: effect.achievementDescription,
+			achievementIcon: effect.achievementIcon,
+			category: category.data,
+		});
+		if (publishResult.status === "error") {
+			logger.warn("AchievementsDO: Failed to publish unlock overlay event", {
+				effectId: effect.effectId,
+				error: publishResult.error.message,
+			});
+			return;
+		}
+		await this.db
+			.update(achievementUnlockOutbox)
+			.set({ overlayState: "sent", updatedAt: new Date().toISOString() })
+			.where(eq(achievementUnlockOutbox.effectId, effect.effectId));
+	}
+
+	/**
+	 * Publish one unlock to the Event Bus for Outbound Webhooks. The event id is
+	 * derived from the effect, so a retried publish is deduplicated by the bus; a
+	 * failed publish schedules another pass over the effect with backoff and is
+	 * abandoned once the delays run out.
+	 */
+	private async publishAchievementUnlockedEvent(
+		effect: AchievementUnlockOutboxEffect,
+	): Promise<void> {
+		const event = createAchievementUnlockedEvent({
+			id: await deriveSagaEventId(`achievement-unlock:${effect.effectId}`),
+			userId: effect.userId,
+			userDisplayName: effect.userDisplayName,
+			achievementId: effect.achievementId,
+			achievementName: formatAchievementWithLevel(effect.achievementName, effect.levelLabel),
+			achievementDescription: effect.achievementDescription,
+			level: effect.level,
+			unlockedAt: effect.createdAt,
+			correlationId: effect.eventId,
+		});
+		const publishResult = await this.domainEvents.publish(event);
+		if (publishResult.status === "error") {
+			logger.warn("AchievementsDO: Failed to publish achievement_unlocked event", {
+				effectId: effect.effectId,
+				attempts: effect.domainEventAttempts,
+				error: publishResult.error.message,
+			});
+			await this.retryOrAbandonAchievementUnlockedEvent(
+				effect.effectId,
+				effect.domainEventAttempts,
+			);
+			return;
+		}
+		await this.db
+			.update(achievementUnlockOutbox)
+			.set({ domainEventState: "sent", updatedAt: new Date().toISOString() })
+			.where(eq(achievementUnlockOutbox.effectId, effect.effectId));
+	}
+
+	private async retryOrAbandonAchievementUnlockedEvent(
+		effectId: string,
+		attempts: number,
+	): Promise<void> {
+		const delayInSeconds = DOMAIN_EVENT_RETRY_DELAYS_SECONDS[attempts] ?? null;
+		if (delayInSeconds === null) {
+			logger.error("AchievementsDO: Abandoned achievement_unlocked event after retries", {
+				effectId,
+				attempts,
+			});
+			await this.db
+				.update(achievementUnlockOutbox)
+				.set({ domainEventState: "abandoned", updatedAt: new Date().toISOString() })
+				.where(
+					and(
+						eq(achievementUnlockOutbox.effectId, effectId),
+						eq(achievementUnlockOutbox.domainEventState, "pending"),
+					),
+				);
+			return;
+		}
+
+		await this.db
+			.update(achievementUnlockOutbox)
+			.set({ domainEventAttempts: attempts + 1, updatedAt: new Date().toISOString() })
+			.where(eq(achievementUnlockOutbox.effectId, effectId));
+		await this.schedule(
+			delayInSeconds,
+			"processAchievementUnlockEffects",
+			{ effectId },
+			{
+				idempotent: true,
+				retry: { maxAttempts: 5 },
+			},
+		);
+	}
+
 	private async retryOrAbandonAchievementAnnouncement(
 		effectId: string,
 		attempts: number,
@@ -980,23 +2000,1141 @@ class _AchievementsDO
 			return;
 		}
 
-		await this.db
-			.update(achievementUnlockOutbox)
-			.set({
-				announcementState: "pending",
-				announcementAttempts: attempts + 1,
-				updatedAt: new Date().toISOString(),
-			})
-			.where(eq(achievementUnlockOutbox.effectId, effectId));
-		await this.schedule(
-			delayInSeconds,
-			"processAchievementUnlockEffects",
-			{ effectId },
-			{
-				idempotent: true,
-				retry: { maxAttempts: 5 },
+		await this.db
+			.update(achievementUnlockOutbox)
+			.set({
+				announcementState: "pending",
+				announcementAttempts: attempts + 1,
+				updatedAt: new Date().toISOString(),
+			})
+			.where(eq(achievementUnlockOutbox.effectId, effectId));
+		await this.schedule(
+			delayInSeconds,
+			"processAchievementUnlockEffects",
+			{ effectId },
+			{
+				idempotent: true,
+				retry: { maxAttempts: 5 },
+			},
+		);
+	}
+
+	// =============================================================================
+	// Achievement Backfill
+	// =============================================================================
+
+	/**
+	 * Advance an Achievement Backfill by one step: a page of history while
+	 * collecting, a batch of replayed events while applying. Each step queues the
+	 * next, so a long backfill never blocks live events for long. A step that
+	 * fails ends the run; an administrator can start another.
+	 */
+	async runAchievementBackfillStep(payload: unknown): Promise<void> {
+		const parseResult = AchievementBackfillStepPayloadSchema.safeParse(payload);
+		if (!parseResult.success) {
+			logger.warn("AchievementsDO: Invalid backfill step payload", {
+				error: parseResult.error.message,
+			});
+			return;
+		}
+		const runId = parseResult.data.runId;
+		const run = await this.db.query.achievementBackfillRuns.findFirst({
+			where: eq(achievementBackfillRuns.id, runId),
+		});
+		if (run === undefined || run.status === "completed" || run.status === "failed") {
+			return;
+		}
+
+		const stepResult =
+			run.status === "collecting"
+				? await this.collectAchievementBackfillPage(run)
+				: run.mode === "dry_run"
+					? await this.dryRunAchievementBackfill(run)
+					: await this.applyAchievementBackfillBatch(run);
+		if (stepResult.isErr()) {
+			logger.error("AchievementsDO: Achievement backfill failed", {
+				runId,
+				error: stepResult.error.message,
+			});
+			const now = new Date().toISOString();
+			await this.db
+				.update(achievementBackfillRuns)
+				.set({
+					status: "failed",
+					error: stepResult.error.message,
+					updatedAt: now,
+					completedAt: now,
+				})
+				.where(eq(achievementBackfillRuns.id, runId));
+			await this.db
+				.delete(achievementBackfillEvents)
+				.where(eq(achievementBackfillEvents.runId, runId));
+			return;
+		}
+		if (stepResult.value === "completed") {
+			logger.info("AchievementsDO: Completed achievement backfill", { runId, mode: run.mode });
+			return;
+		}
+		await this.queue("runAchievementBackfillStep", { runId });
+	}
+
+	/** Stages the next page of Song Request history, then of Raffle Roll history. */
+	private async collectAchievementBackfillPage(
+		run: AchievementBackfillRunRecord,
+	): Promise<Result<"continue", AchievementBackfillStepError>> {
+		if (!run.songRequestsCollected) {
+			const cursor = parseAchievementBackfillCursor(
+				run.songRequestCursor,
+				RequestHistoryCursorSchema,
+			);
+			if (cursor.isErr()) return Result.err(cursor.error);
+			const page = await this.requestHistory.getRequestHistoryAfter(
+				cursor.value,
+				BACKFILL_PAGE_SIZE,
+			);
+			if (page.isErr()) return Result.err(page.error);
+			const events = await Promise.all(
+				page.value.map(async (request) => ({
+					...createSongRequestSuccessEvent({
+						id: await deriveSagaEventId(request.eventId),
+						userId: request.requesterUserId,
+						userDisplayName: request.requesterDisplayName,
+						sagaId: request.eventId,
+						trackId: request.trackId,
+					}),
+					timestamp: request.requestedAt,
+				})),
+			);
+			const last = page.value.at(-1);
+			return this.stageAchievementBackfillEvents(run, events, {
+				songRequestCursor:
+					last === undefined
+						? run.songRequestCursor
+						: JSON.stringify({ requestedAt: last.requestedAt, eventId: last.eventId }),
+				songRequestsCollected: page.value.length < BACKFILL_PAGE_SIZE,
+			});
+		}
+
+		const cursor = parseAchievementBackfillCursor(
+			run.raffleRollCursor,
+			KeyboardRaffleRollCursorSchema,
+		);
+		if (cursor.isErr()) return Result.err(cursor.error);
+		const page = await this.raffleRolls.getRollsAfter(cursor.value, BACKFILL_PAGE_SIZE);
+		if (page.isErr()) return Result.err(page.error);
+		const events = await Promise.all(
+			page.value.map(async (roll) => ({
+				...createRaffleRollEvent({
+					id: await deriveSagaEventId(roll.id),
+					userId: roll.userId,
+					userDisplayName: roll.displayName,
+					sagaId: roll.id,
+					roll: roll.roll,
+					winningNumber: roll.winningNumber,
+					distance: roll.distance,
+					isWinner: roll.isWinner,
+					isNewRecord: roll.isNewRecord,
+				}),
+				timestamp: roll.rolledAt,
+			})),
+		);
+		const last = page.value.at(-1);
+		return this.stageAchievementBackfillEvents(run, events, {
+			raffleRollCursor:
+				last === undefined
+					? run.raffleRollCursor
+					: JSON.stringify({ rolledAt: last.rolledAt, id: last.id }),
+			raffleRollsCollected: page.value.length < BACKFILL_PAGE_SIZE,
+		});
+	}
+
+	/**
+	 * Stores collected events under the run and records how far collection got.
+	 * Events keep the ids their sagas published, so history already in event
+	 * history is recognised and skipped on replay.
+	 */
+	private async stageAchievementBackfillEvents(
+		run: AchievementBackfillRunRecord,
+		events: readonly AchievementBackfillEvent[],
+		progress: Partial<
+			Pick<
+				AchievementBackfillRunRecord,
+				"songRequestCursor" | "songRequestsCollected" | "raffleRollCursor" | "raffleRollsCollected"
+			>
+		>,
+	): Promise<Result<"continue", AchievementDbError>> {
+		const next = { ...run, ...progress };
+		return Result.tryPromise({
+			try: async () => {
+				let staged = 0;
+				for (const event of events) {
+					const inserted = await this.db
+						.insert(achievementBackfillEvents)
+						.values({
+							runId: run.id,
+							eventId: event.id,
+							timestamp: event.timestamp,
+							event: JSON.stringify(event),
+						})
+						.onConflictDoNothing()
+						.returning({ eventId: achievementBackfillEvents.eventId });
+					staged += inserted.length;
+				}
+				await this.db
+					.update(achievementBackfillRuns)
+					.set({
+						...progress,
+						status:
+							next.songRequestsCollected && next.raffleRollsCollected ? "applying" : "collecting",
+						collectedEvents: run.collectedEvents + staged,
+						updatedAt: new Date().toISOString(),
+					})
+					.where(eq(achievementBackfillRuns.id, run.id));
+				return "continue" as const;
+			},
+			catch: (cause) =>
+				new AchievementDbError({ operation: "stageAchievementBackfillEvents", cause }),
+		});
+	}
+
+	/**
+	 * Replays the next batch of collected events and writes the progress they
+	 * earn. Unlocks are recorded as suppressed rather than announced one by one;
+	 * the finished run is announced once in chat.
+	 */
+	private async applyAchievementBackfillBatch(
+		run: AchievementBackfillRunRecord,
+	): Promise<Result<"continue" | "completed", AchievementBackfillStepError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const events = await this.readStagedAchievementBackfillEvents(run.id, BACKFILL_BATCH_SIZE);
+				if (events.length === 0) {
+					const now = new Date().toISOString();
+					await this.db
+						.update(achievementBackfillRuns)
+						.set({ status: "completed", updatedAt: now, completedAt: now })
+						.where(eq(achievementBackfillRuns.id, run.id));
+					await this.announceAchievementBackfillSummary(run.unlockedAchievements);
+					return "completed" as const;
+				}
+
+				const replay = replayAchievementBackfill(
+					await this.loadAchievementBackfillInput(this.db, events),
+				);
+				await this.db.transaction(async (tx) => {
+					await this.writeAchievementBackfillReplay(tx, replay);
+					await tx.delete(achievementBackfillEvents).where(
+						and(
+							eq(achievementBackfillEvents.runId, run.id),
+							inArray(
+								achievementBackfillEvents.eventId,
+								events.map((event) => event.id),
+							),
+						),
+					);
+					await tx
+						.update(achievementBackfillRuns)
+						.set({
+							processedEvents: run.processedEvents + events.length,
+							replayedEvents: run.replayedEvents + replay.replayedEvents.length,
+							unlockedAchievements:
+								run.unlockedAchievements +
+								replay.changes.filter((change) => change.newlyUnlocked).length,
+							updatedAt: new Date().toISOString(),
+						})
+						.where(eq(achievementBackfillRuns.id, run.id));
+				});
+				return "continue" as const;
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "applyAchievementBackfillBatch", cause }),
+		});
+	}
+
+	/** Replays every collected event without writing progress and records the diff. */
+	private async dryRunAchievementBackfill(
+		run: AchievementBackfillRunRecord,
+	): Promise<Result<"completed", AchievementBackfillStepError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const events = await this.readStagedAchievementBackfillEvents(run.id);
+				const replay = replayAchievementBackfill(
+					await this.loadAchievementBackfillInput(this.db, events),
+				);
+				const changes: AchievementBackfillChange[] = replay.changes.map((change) => ({
+					userId: change.userId,
+					userDisplayName: change.userDisplayName,
+					achievementId: change.achievementId,
+					progressBefore: change.progressBefore,
+					progressAfter: change.progress,
+					levelAfter: change.level,
+					unlockedAt: change.newlyUnlocked ? change.unlockedAt : null,
+				}));
+				const now = new Date().toISOString();
+				await this.db
+					.update(achievementBackfillRuns)
+					.set({
+						status: "completed",
+						processedEvents: events.length,
+						replayedEvents: replay.replayedEvents.length,
+						unlockedAchievements: replay.changes.filter((change) => change.newlyUnlocked).length,
+						changes: JSON.stringify(changes),
+						updatedAt: now,
+						completedAt: now,
+					})
+					.where(eq(achievementBackfillRuns.id, run.id));
+				await this.db
+					.delete(achievementBackfillEvents)
+					.where(eq(achievementBackfillEvents.runId, run.id));
+				return "completed" as const;
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "dryRunAchievementBackfill", cause }),
+		});
+	}
+
+	/** Reads collected events oldest first, breaking timestamp ties by event id. */
+	private async readStagedAchievementBackfillEvents(
+		runId: string,
+		limit?: number,
+	): Promise<AchievementBackfillEvent[]> {
+		const query = this.db
+			.select({ event: achievementBackfillEvents.event })
+			.from(achievementBackfillEvents)
+			.where(eq(achievementBackfillEvents.runId, runId))
+			.orderBy(asc(achievementBackfillEvents.timestamp), asc(achievementBackfillEvents.eventId));
+		const rows = limit === undefined ? await query : await query.limit(limit);
+		return rows.map((row) => {
+			const parsed = VersionedEventSchema.safeParse(JSON.parse(row.event));
+			const event = parsed.success ? parsed.data : null;
+			if (
+				event === null ||
+				(event.type !== EventType.SongRequestSuccess && event.type !== EventType.RaffleRoll)
+			) {
+				throw new InvalidAchievementRecordError({
+					recordType: "backfill event",
+					parseError: parsed.error?.message ?? "Not a Song Request or Raffle Roll",
+				});
+			}
+			return event;
+		});
+	}
+
+	/** Loads the progress, event history, and event credits a backfill replay starts from. */
+	private async loadAchievementBackfillInput(
+		db: Pick<typeof this.db, "select" | "query">,
+		events: readonly AchievementBackfillEvent[],
+	): Promise<AchievementBackfillInput> {
+		const definitionRows = await db.query.achievementDefinitions.findMany({
+			where: eq(achievementDefinitions.status, "active"),
+		});
+		const definitions = definitionRows.map((row) =>
+			this.toAchievementRuleDefinition(this.parseAchievementDefinitionRecord(row)),
+		);
+		const needsEventHistory = definitions.some((definition) => definition.triggerEvent === "rule");
+
+		const viewers = new Map<string, AchievementBackfillViewer>();
+		for (const userId of new Set(events.map((event) => event.userId))) {
+			const progressRows = await db.query.userAchievements.findMany({
+				where: eq(userAchievements.userId, userId),
+			});
+			viewers.set(userId, {
+				progressByAchievementId: new Map(progressRows.map((row) => [row.achievementId, row])),
+				eventHistory: needsEventHistory ? await this.loadViewerEventFacts(db, userId) : [],
+			});
+		}
+
+		const creditedAchievementIds = new Map<string, Set<string>>();
+		for (let start = 0; start < events.length; start += BACKFILL_BATCH_SIZE) {
+			const eventIds = events.slice(start, start + BACKFILL_BATCH_SIZE).map((event) => event.id);
+			const [historyRows, creditRows] = await Promise.all([
+				db
+					.select({ eventId: eventHistory.eventId })
+					.from(eventHistory)
+					.where(inArray(eventHistory.eventId, eventIds)),
+				db
+					.select({
+						eventId: achievementEventCredits.eventId,
+						achievementId: achievementEventCredits.achievementId,
+					})
+					.from(achievementEventCredits)
+					.where(inArray(achievementEventCredits.eventId, eventIds)),
+			]);
+			for (const row of historyRows) creditedAchievementIds.set(row.eventId, new Set());
+			for (const row of creditRows) {
+				const credited = creditedAchievementIds.get(row.eventId) ?? new Set<string>();
+				credited.add(row.achievementId);
+				creditedAchievementIds.set(row.eventId, credited);
+			}
+		}
+
+		return { events, definitions, viewers, creditedAchievementIds };
+	}
+
+	/**
+	 * Writes a replay's history, event credits, and progress. Unlocks it records
+	 * are suppressed; the replay's caller decides how, or whether, to announce them.
+	 */
+	private async writeAchievementBackfillReplay(
+		tx: Pick<typeof this.db, "insert">,
+		replay: AchievementBackfillReplay,
+	): Promise<void> {
+		for (const event of replay.replayedEvents) {
+			const userInfo = this.extractUserInfo(event);
+			await tx
+				.insert(eventHistory)
+				.values({
+					id: crypto.randomUUID(),
+					eventType: event.type,
+					userId: userInfo.userId,
+					userDisplayName: userInfo.userDisplayName,
+					eventId: event.id,
+					timestamp: event.timestamp,
+					metadata: JSON.stringify(this.extractMetadata(event)),
+				})
+				.onConflictDoNothing({ target: eventHistory.eventId });
+		}
+		await this.insertAchievementEventCredits(tx, replay.credits);
+		for (const change of replay.changes) {
+			await tx
+				.insert(userAchievements)
+				.values({
+					id: crypto.randomUUID(),
+					userId: change.userId,
+					userDisplayName: change.userDisplayName,
+					achievementId: change.achievementId,
+					progress: change.progress,
+					unlockedAt: change.unlockedAt,
+					level: change.level,
+					announcementState: change.newlyUnlocked ? "suppressed" : "pending",
+					eventId: change.eventId,
+				})
+				.onConflictDoUpdate({
+					target: [userAchievements.userId, userAchievements.achievementId],
+					set: {
+						userDisplayName: change.userDisplayName,
+						progress: change.progress,
+						unlockedAt: change.unlockedAt,
+						level: change.level,
+						...(change.eventId === null ? {} : { eventId: change.eventId }),
+						...(change.newlyUnlocked ? { announcementState: "suppressed" } : {}),
+					},
+				});
+		}
+	}
+
+	/** Records which Achievements events were counted toward; credits already recorded are kept. */
+	private async insertAchievementEventCredits(
+		tx: Pick<typeof this.db, "insert">,
+		credits: readonly AchievementEventCredit[],
+	): Promise<void> {
+		for (const credit of credits) {
+			await tx.insert(achievementEventCredits).values(credit).onConflictDoNothing();
+		}
+	}
+
+	/** Announces a finished backfill with one chat message instead of one per unlock. */
+	private async announceAchievementBackfillSummary(unlocked: number): Promise<void> {
+		if (unlocked === 0) {
+			return;
+		}
+		const sendResult = await this.twitchService.sendChatMessage(
+			`🏆 Achievement history caught up: ${unlocked} ${unlocked === 1 ? "achievement" : "achievements"} unlocked for earlier song requests and raffle rolls!`,
+		);
+		if (sendResult.status === "error") {
+			logger.warn("AchievementsDO: Failed to announce achievement backfill", {
+				unlocked,
+				error: sendResult.error.message,
+			});
+		}
+	}
+
+	private parseAchievementBackfillRunRecord(input: unknown): AchievementBackfillRun {
+		const result = AchievementBackfillRunRecordSchema.safeParse(input);
+		if (!result.success) {
+			throw new InvalidAchievementRecordError({
+				recordType: "backfill run",
+				parseError: result.error.message,
+			});
+		}
+		return result.data;
+	}
+
+	// =============================================================================
+	// Seasons
+	// =============================================================================
+
+	/** List every Season, newest first. */
+	@rpc(ListSeasonsResultCodec)
+	async listSeasons(): Promise<Result<Season[], AchievementError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db.query.seasons.findMany({ orderBy: desc(seasons.startsAt) });
+				const now = new Date();
+				return rows.map((row) => toSeason(row, now));
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "listSeasons", cause }),
+		});
+	}
+
+	/**
+	 * Create a Season and schedule its rollover for when it ends. Seasons may
+	 * not overlap, so at most one is active at a time.
+	 */
+	@rpc(CreateSeasonResultCodec)
+	async createSeason(input: unknown): Promise<Result<Season, AchievementError>> {
+		const inputResult = CreateSeasonInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+		const season = inputResult.data;
+
+		const createResult = await Result.tryPromise({
+			try: async () => {
+				const row = await this.db.transaction(async (tx) => {
+					const existing = await tx.query.seasons.findFirst({
+						columns: { id: true },
+						where: eq(seasons.id, season.id),
+					});
+					if (existing !== undefined) {
+						throw new AchievementSeasonConflictError({ seasonId: season.id, reason: "exists" });
+					}
+					const overlapping = await tx.query.seasons.findFirst({
+						columns: { id: true },
+						where: and(lt(seasons.startsAt, season.endsAt), gt(seasons.endsAt, season.startsAt)),
+					});
+					if (overlapping !== undefined) {
+						throw new AchievementSeasonConflictError({ seasonId: season.id, reason: "overlaps" });
+					}
+					const [created] = await tx
+						.insert(seasons)
+						.values({ ...season, createdAt: new Date().toISOString() })
+						.returning();
+					return created;
+				});
+				if (row === undefined) throw new Error("Season insert returned no row");
+				return toSeason(row, new Date());
+			},
+			catch: (cause) =>
+				AchievementSeasonConflictError.is(cause) || InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "createSeason", cause }),
+		});
+		if (createResult.isErr()) {
+			return Result.err(createResult.error);
+		}
+
+		const scheduleResult = await Result.tryPromise(() =>
+			this.schedule(
+				new Date(season.endsAt),
+				"runSeasonRollover",
+				{ seasonId: season.id },
+				{ idempotent: true },
+			),
+		);
+		if (scheduleResult.isErr()) {
+			return Result.err(
+				new AchievementDbError({
+					operation: "scheduleSeasonRollover",
+					cause: scheduleResult.error,
+				}),
+			);
+		}
+		logger.info("AchievementsDO: Created season", {
+			seasonId: season.id,
+			startsAt: season.startsAt,
+			endsAt: season.endsAt,
+		});
+		return Result.ok(createResult.value);
+	}
+
+	/**
+	 * Roll a Season over now instead of waiting for its end; the Season is cut
+	 * short at the rollover time. A Season that has not started cannot roll over.
+	 */
+	@rpc(RollOverSeasonResultCodec)
+	async rollOverSeason(seasonId: unknown): Promise<Result<Season, AchievementError>> {
+		const idResult = SeasonIdSchema.safeParse(seasonId);
+		if (!idResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: idResult.error.message }),
+			);
+		}
+		return this.archiveSeason(idResult.data);
+	}
+
+	/**
+	 * Read one Season's standings: the archived snapshot once it has rolled
+	 * over, live standings while it runs. Null when no Season has the id.
+	 */
+	@rpc(GetSeasonLeaderboardResultCodec)
+	async getSeasonLeaderboard(
+		seasonId: unknown,
+		options?: unknown,
+	): Promise<Result<SeasonLeaderboard | null, AchievementError>> {
+		const idResult = SeasonIdSchema.safeParse(seasonId);
+		if (!idResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: idResult.error.message }),
+			);
+		}
+		const optionsResult = SeasonLeaderboardQuerySchema.safeParse(options ?? {});
+		if (!optionsResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: optionsResult.error.message }),
+			);
+		}
+		const { limit } = optionsResult.data;
+
+		const seasonResult = await Result.tryPromise({
+			try: async () => {
+				const row = await this.db.query.seasons.findFirst({
+					where: eq(seasons.id, idResult.data),
+				});
+				return row === undefined ? null : toSeason(row, new Date());
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "getSeasonLeaderboard", cause }),
+		});
+		if (seasonResult.isErr()) return Result.err(seasonResult.error);
+		const season = seasonResult.value;
+		if (season === null) return Result.ok(null);
+		if (season.status === "upcoming") {
+			return Result.ok({ season, achievements: [], raffle: [] });
+		}
+
+		let raffle: readonly RaffleLeaderboardEntry[];
+		if (season.status === "archived") {
+			const archivedResult = await Result.tryPromise({
+				try: () =>
+					this.db
+						.select({
+							userId: seasonRaffleStandings.userId,
+							displayName: seasonRaffleStandings.displayName,
+							totalRolls: seasonRaffleStandings.totalRolls,
+							totalWins: seasonRaffleStandings.totalWins,
+							closestDistance: seasonRaffleStandings.closestDistance,
+							closestRoll: seasonRaffleStandings.closestRoll,
+							closestWinningNumber: seasonRaffleStandings.closestWinningNumber,
+							lastRolledAt: seasonRaffleStandings.lastRolledAt,
+						})
+						.from(seasonRaffleStandings)
+						.where(eq(seasonRaffleStandings.seasonId, season.id))
+						.orderBy(asc(seasonRaffleStandings.rank))
+						.limit(limit),
+				catch: (cause) => new AchievementDbError({ operation: "getSeasonLeaderboard", cause }),
+			});
+			if (archivedResult.isErr()) return Result.err(archivedResult.error);
+			raffle = archivedResult.value;
+		} else {
+			const liveResult = await this.raffleStandings.getLeaderboard({
+				sortBy: "wins",
+				limit,
+				since: season.startsAt,
+				until: season.endsAt,
+			});
+			if (liveResult.isErr()) {
+				return Result.err(
+					new AchievementDbError({
+						operation: "readSeasonRaffleStandings",
+						cause: liveResult.error,
+					}),
+				);
+			}
+			raffle = liveResult.value;
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const achievements = await this.readSeasonAchievementStandings(season, limit);
+				const result = SeasonLeaderboardSchema.safeParse({ season, achievements, raffle });
+				if (!result.success) {
+					throw new InvalidAchievementRecordError({
+						recordType: "season standings",
+						parseError: result.error.message,
+					});
+				}
+				return result.data;
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "getSeasonLeaderboard", cause }),
+		});
+	}
+
+	/**
+	 * Scheduled at each Season's end. A Season already rolled over by an
+	 * administrator is left alone; a failed rollover is retried later.
+	 */
+	async runSeasonRollover(payload: unknown): Promise<void> {
+		const parseResult = SeasonRolloverPayloadSchema.safeParse(payload);
+		if (!parseResult.success) {
+			logger.warn("AchievementsDO: Invalid season rollover payload", {
+				error: parseResult.error.message,
+			});
+			return;
+		}
+		const { seasonId } = parseResult.data;
+		const result = await this.archiveSeason(seasonId);
+		if (
+			result.isOk() ||
+			AchievementSeasonNotFoundError.is(result.error) ||
+			AchievementSeasonConflictError.is(result.error)
+		) {
+			return;
+		}
+		logger.error("AchievementsDO: Season rollover failed; retrying", {
+			seasonId,
+			error: result.error.message,
+			retryInSeconds: SEASON_ROLLOVER_RETRY_DELAY_SECONDS,
+		});
+		await this.schedule(SEASON_ROLLOVER_RETRY_DELAY_SECONDS, "runSeasonRollover", { seasonId });
+	}
+
+	/**
+	 * Snapshot user_achievements and the Raffle Leaderboard for Rolls made during
+	 * the Season into its archive, reset season-scoped Achievement Progress when
+	 * the Season asks for it, and mark the Season archived, all in one transaction.
+	 */
+	private async archiveSeason(seasonId: string): Promise<Result<Season, AchievementError>> {
+		const seasonResult = await Result.tryPromise({
+			try: () => this.db.query.seasons.findFirst({ where: eq(seasons.id, seasonId) }),
+			catch: (cause) => new AchievementDbError({ operation: "archiveSeason", cause }),
+		});
+		if (seasonResult.isErr()) return Result.err(seasonResult.error);
+		const season = seasonResult.value;
+		if (season === undefined) {
+			return Result.err(new AchievementSeasonNotFoundError({ seasonId }));
+		}
+		if (season.archivedAt !== null) {
+			return Result.err(new AchievementSeasonConflictError({ seasonId, reason: "archived" }));
+		}
+		if (Date.parse(season.startsAt) > Date.now()) {
+			return Result.err(new AchievementSeasonConflictError({ seasonId, reason: "upcoming" }));
+		}
+
+		const now = new Date().toISOString();
+		const endsAt = season.endsAt < now ? season.endsAt : now;
+		// Read before the transaction: it is a call to another Durable Object.
+		const raffleResult = await this.raffleStandings.getLeaderboard({
+			sortBy: "wins",
+			limit: SEASON_STANDINGS_LIMIT,
+			since: season.startsAt,
+			until: endsAt,
+		});
+		if (raffleResult.isErr()) {
+			return Result.err(
+				new AchievementDbError({
+					operation: "archiveSeasonRaffleStandings",
+					cause: raffleResult.error,
+				}),
+			);
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const { archived, resetAchievementIds } = await this.db.transaction(async (tx) => {
+					// The scheduled rollover can race an administrator's, so re-check inside the transaction.
+					const current = await tx.query.seasons.findFirst({
+						columns: { archivedAt: true },
+						where: eq(seasons.id, seasonId),
+					});
+					if (current !== undefined && current.archivedAt !== null) {
+						throw new AchievementSeasonConflictError({ seasonId, reason: "archived" });
+					}
+					await tx.insert(seasonUserAchievements).select(
+						tx
+							.select({
+								seasonId: sql<string>`${seasonId}`.as("season_id"),
+								userId: userAchievements.userId,
+								userDisplayName: userAchievements.userDisplayName,
+								achievementId: userAchievements.achievementId,
+								progress: userAchievements.progress,
+								level: userAchievements.level,
+								unlockedAt: userAchievements.unlockedAt,
+							})
+							.from(userAchievements),
+					);
+					for (const [index, entry] of raffleResult.value.entries()) {
+						await tx.insert(seasonRaffleStandings).values({ seasonId, rank: index + 1, ...entry });
+					}
+
+					const seasonScoped = season.resetSeasonProgress
+						? await tx.query.achievementDefinitions.findMany({
+								where: eq(achievementDefinitions.scope, "season"),
+								columns: { id: true },
+							})
+						: [];
+					const resetIds = seasonScoped.map((definition) => definition.id);
+					if (resetIds.length > 0) {
+						await tx
+							.update(userAchievements)
+							.set({
+								progress: 0,
+								unlockedAt: null,
+								level: 0,
+								announcementState: "pending",
+								eventId: null,
+							})
+							.where(inArray(userAchievements.achievementId, resetIds));
+					}
+
+					const [row] = await tx
+						.update(seasons)
+						.set({ endsAt, archivedAt: now })
+						.where(eq(seasons.id, seasonId))
+						.returning();
+					if (row === undefined) throw new Error("Season update returned no row");
+					return { archived: row, resetAchievementIds: resetIds };
+				});
+				logger.info("AchievementsDO: Rolled over season", {
+					seasonId,
+					raffleStandings: raffleResult.value.length,
+					resetAchievementIds,
+				});
+				return toSeason(archived, new Date());
 			},
-		);
+			catch: (cause) =>
+				AchievementSeasonConflictError.is(cause) || InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "archiveSeason", cause }),
+		});
+	}
+
+	/** Viewers ranked by Achievements unlocked within the Season's date range. */
+	private async readSeasonAchievementStandings(
+		season: Season,
+		limit: number,
+	): Promise<AchievementLeaderboardEntry[]> {
+		if (season.status === "archived") {
+			const unlockedCount = count(seasonUserAchievements.achievementId);
+			return this.db
+				.select({ userDisplayName: seasonUserAchievements.userDisplayName, count: unlockedCount })
+				.from(seasonUserAchievements)
+				.where(
+					and(
+						eq(seasonUserAchievements.seasonId, season.id),
+						gte(seasonUserAchievements.unlockedAt, season.startsAt),
+						lt(seasonUserAchievements.unlockedAt, season.endsAt),
+					),
+				)
+				.groupBy(seasonUserAchievements.userDisplayName)
+				.orderBy(desc(unlockedCount))
+				.limit(limit);
+		}
+		const unlockedCount = count(userAchievements.id);
+		return this.db
+			.select({ userDisplayName: userAchievements.userDisplayName, count: unlockedCount })
+			.from(userAchievements)
+			.where(
+				and(
+					gte(userAchievements.unlockedAt, season.startsAt),
+					lt(userAchievements.unlockedAt, season.endsAt),
+				),
+			)
+			.groupBy(userAchievements.userDisplayName)
+			.orderBy(desc(unlockedCount))
+			.limit(limit);
+	}
+
+	// =============================================================================
+	// Achievement Moderation
+	// =============================================================================
+
+	/**
+	 * Grant one Viewer an Achievement by hand and record why in the audit. The
+	 * unlock goes through the unlock outbox like any other, so the announcement,
+	 * metric, and overlay still fire. Retired Achievements cannot be granted.
+	 */
+	@rpc(GrantAchievementResultCodec)
+	async grantAchievement(
+		input: unknown,
+	): Promise<Result<AchievementModerationEntry, AchievementError>> {
+		const inputResult = AchievementModerationInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+		const { achievementId, viewer, reason, actor } = inputResult.data;
+
+		const grantResult = await Result.tryPromise({
+			try: async () => {
+				const identity = await this.findViewerIdentity(normalizeUserDisplayName(viewer));
+				if (identity === undefined) {
+					throw new AchievementViewerNotFoundError({ viewer });
+				}
+				return this.db.transaction(async (tx) => {
+					const row = await tx.query.achievementDefinitions.findFirst({
+						where: eq(achievementDefinitions.id, achievementId),
+					});
+					if (row === undefined) {
+						throw new AchievementNotFoundError({ achievementId });
+					}
+					const definition = this.parseManagedAchievementDefinitionRecord(row);
+					if (definition.status === "retired") {
+						throw new AchievementDefinitionConflictError({ achievementId, reason: "retired" });
+					}
+					const existing = await tx.query.userAchievements.findFirst({
+						where: and(
+							eq(userAchievements.userId, identity.userId),
+							eq(userAchievements.achievementId, achievementId),
+						),
+					});
+					if (existing?.unlockedAt != null) {
+						throw new AchievementModerationConflictError({
+							achievementId,
+							userId: identity.userId,
+							reason: "unlocked",
+						});
+					}
+
+					const now = new Date().toISOString();
+					const entry: AchievementModerationEntry = {
+						id: crypto.randomUUID(),
+						action: "grant",
+						userId: identity.userId,
+						userDisplayName: identity.userDisplayName,
+						achievementId,
+						reason,
+						actor,
+						createdAt: now,
+					};
+					await tx.insert(achievementModerationAudit).values(entry);
+
+					const eventId = `achievement-moderation:${entry.id}`;
+					const progress = Math.max(
+						existing?.progress ?? 0,
+						nextAchievementLevelThreshold(definition, 0) ?? 1,
+					);
+					await tx
+						.insert(userAchievements)
+						.values({
+							id: crypto.randomUUID(),
+							userId: identity.userId,
+							userDisplayName: identity.userDisplayName,
+							achievementId,
+							progress,
+							unlockedAt: now,
+							level: 1,
+							announcementState: "pending",
+							eventId,
+						})
+						.onConflictDoUpdate({
+							target: [userAchievements.userId, userAchievements.achievementId],
+							set: {
+								progress,
+								unlockedAt: now,
+								level: 1,
+								announcementState: "pending",
+								eventId,
+								revokedAt: null,
+							},
+						});
+
+					const effectId = `${eventId}:${achievementId}`;
+					await tx.insert(achievementUnlockOutbox).values({
+						effectId,
+						eventId,
+						userId: identity.userId,
+						userDisplayName: identity.userDisplayName,
+						achievementId,
+						achievementName: definition.name,
+						achievementDescription: definition.description,
+						achievementIcon: definition.icon,
+						category: definition.category,
+						level: 1,
+						levelLabel: describeAchievementLevel(definition, 1),
+						createdAt: now,
+						updatedAt: now,
+					});
+					return { entry, effectId };
+				});
+			},
+			catch: (cause) =>
+				AchievementViewerNotFoundError.is(cause) ||
+				AchievementNotFoundError.is(cause) ||
+				AchievementDefinitionConflictError.is(cause) ||
+				AchievementModerationConflictError.is(cause) ||
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "grantAchievement", cause }),
+		});
+		if (grantResult.isErr()) {
+			return Result.err(grantResult.error);
+		}
+
+		const { entry, effectId } = grantResult.value;
+		logger.info("AchievementsDO: Granted achievement", {
+			achievementId,
+			userId: entry.userId,
+			actor,
+		});
+		const queueResult = await this.queueAchievementUnlockEffects([effectId]);
+		if (queueResult.isErr()) {
+			return Result.err(queueResult.error);
+		}
+		return Result.ok(entry);
+	}
+
+	/**
+	 * Revoke one Viewer's Achievement by hand and record why in the audit.
+	 * Progress starts over and nothing that happened by the revocation counts
+	 * toward it again, including `rule` history and a running request streak,
+	 * so only new activity can unlock it. The leaderboard and rarity stop
+	 * counting it, and any announcement or overlay not yet delivered is abandoned.
+	 */
+	@rpc(RevokeAchievementResultCodec)
+	async revokeAchievement(
+		input: unknown,
+	): Promise<Result<AchievementModerationEntry, AchievementError>> {
+		const inputResult = AchievementModerationInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+		const { achievementId, viewer, reason, actor } = inputResult.data;
+
+		const revokeResult = await Result.tryPromise({
+			try: async () => {
+				const identity = await this.findViewerIdentity(normalizeUserDisplayName(viewer));
+				if (identity === undefined) {
+					throw new AchievementViewerNotFoundError({ viewer });
+				}
+				return this.db.transaction(async (tx) => {
+					const definition = await tx.query.achievementDefinitions.findFirst({
+						columns: { id: true },
+						where: eq(achievementDefinitions.id, achievementId),
+					});
+					if (definition === undefined) {
+						throw new AchievementNotFoundError({ achievementId });
+					}
+					const viewerAchievement = and(
+						eq(userAchievements.userId, identity.userId),
+						eq(userAchievements.achievementId, achievementId),
+					);
+					const now = new Date().toISOString();
+					const [revoked] = await tx
+						.update(userAchievements)
+						.set({
+							progress: 0,
+							level: 0,
+							unlockedAt: null,
+							announcementState: "pending",
+							eventId: null,
+							revokedAt: now,
+						})
+						.where(and(viewerAchievement, isNotNull(userAchievements.unlockedAt)))
+						.returning({ id: userAchievements.id });
+					if (revoked === undefined) {
+						throw new AchievementModerationConflictError({
+							achievementId,
+							userId: identity.userId,
+							reason: "locked",
+						});
+					}
+
+					const undelivered = and(
+						eq(achievementUnlockOutbox.userId, identity.userId),
+						eq(achievementUnlockOutbox.achievementId, achievementId),
+					);
+					await tx
+						.update(achievementUnlockOutbox)
+						.set({ announcementState: "abandoned", updatedAt: now })
+						.where(and(undelivered, eq(achievementUnlockOutbox.announcementState, "pending")));
+					await tx
+						.update(achievementUnlockOutbox)
+						.set({ overlayState: "abandoned", updatedAt: now })
+						.where(and(undelivered, eq(achievementUnlockOutbox.overlayState, "pending")));
+					await tx
+						.update(achievementUnlockOutbox)
+						.set({ domainEventState: "abandoned", updatedAt: now })
+						.where(and(undelivered, eq(achievementUnlockOutbox.domainEventState, "pending")));
+
+					const entry: AchievementModerationEntry = {
+						id: crypto.randomUUID(),
+						action: "revoke",
+						userId: identity.userId,
+						userDisplayName: identity.userDisplayName,
+						achievementId,
+						reason,
+						actor,
+						createdAt: now,
+					};
+					await tx.insert(achievementModerationAudit).values(entry);
+					return entry;
+				});
+			},
+			catch: (cause) =>
+				AchievementViewerNotFoundError.is(cause) ||
+				AchievementNotFoundError.is(cause) ||
+				AchievementModerationConflictError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "revokeAchievement", cause }),
+		});
+		if (revokeResult.isErr()) {
+			return Result.err(revokeResult.error);
+		}
+
+		logger.info("AchievementsDO: Revoked achievement", {
+			achievementId,
+			userId: revokeResult.value.userId,
+			actor,
+		});
+		return Result.ok(revokeResult.value);
+	}
+
+	/** Read the Achievement Moderation audit, newest first. */
+	@rpc(GetAchievementModerationAuditResultCodec)
+	async getModerationAudit(
+		query?: unknown,
+	): Promise<Result<AchievementModerationEntry[], AchievementError>> {
+		const queryResult = AchievementModerationAuditQuerySchema.safeParse(query ?? {});
+		if (!queryResult.success) {
+			return Result.err(
+				new AchievementQueryValidationError({ parseError: queryResult.error.message }),
+			);
+		}
+		const { achievementId, limit } = queryResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db.query.achievementModerationAudit.findMany({
+					where:
+						achievementId === undefined
+							? undefined
+							: eq(achievementModerationAudit.achievementId, achievementId),
+					// rowid keeps entries written within the same millisecond in order
+					orderBy: [desc(achievementModerationAudit.createdAt), desc(sql`rowid`)],
+					limit,
+				});
+				const result = AchievementModerationEntriesSchema.safeParse(rows);
+				if (!result.success) {
+					throw new InvalidAchievementRecordError({
+						recordType: "moderation audit",
+						parseError: result.error.message,
+					});
+				}
+				return result.data;
+			},
+			catch: (cause) =>
+				InvalidAchievementRecordError.is(cause)
+					? cause
+					: new AchievementDbError({ operation: "getModerationAudit", cause }),
+		});
 	}
 
 	// =============================================================================
@@ -1007,18 +3145,30 @@ class _AchievementsDO
 	 * Handle events from EventBusDO
 	 *
 	 * Dispatches events to specific handlers, records to event_history for
-	 * "first request of stream" checks and audit trail.
+	 * "first request of stream" checks and audit trail. Replayed events earn
+	 * progress and unlocks like live ones, but their unlocks are recorded as
+	 * suppressed instead of being announced. Replaying a Song Request or Raffle
+	 * Roll that was already delivered counts it only toward Achievements it has
+	 * no credit for yet, so replays rebuild missing progress without counting
+	 * anything twice.
 	 */
 	@rpc(HandleAchievementEventResultCodec)
-	async handleEvent(event: unknown): Promise<Result<void, AchievementError>> {
-		const parseResult = EventSchema.safeParse(event);
+	async handleEvent(event: unknown, delivery?: unknown): Promise<Result<void, AchievementError>> {
+		const parseResult = VersionedEventSchema.safeParse(event);
 		if (!parseResult.success) {
 			return Result.err(
 				new AchievementEventValidationError({ parseError: parseResult.error.message }),
 			);
 		}
+		const deliveryResult = EventDeliverySchema.optional().safeParse(delivery);
+		if (!deliveryResult.success) {
+			return Result.err(
+				new AchievementEventValidationError({ parseError: deliveryResult.error.message }),
+			);
+		}
 
 		const validEvent = parseResult.data;
+		const replay = deliveryResult.data?.replay ?? false;
 		const transactionResult = await Result.tryPromise({
 			try: async () =>
 				this.db.transaction(async (tx) => {
@@ -1038,13 +3188,29 @@ class _AchievementsDO
 						.returning({ eventId: eventHistory.eventId });
 
 					if (insertedHistory.length === 0) {
+						if (
+							replay &&
+							(validEvent.type === EventType.SongRequestSuccess ||
+								validEvent.type === EventType.RaffleRoll)
+						) {
+							// Live delivery already counted this event for the definitions it credited;
+							// a replay only counts it toward ones created since, like a backfill.
+							await this.writeAchievementBackfillReplay(
+								tx,
+								replayAchievementBackfill(
+									await this.loadAchievementBackfillInput(tx, [validEvent]),
+								),
+							);
+						}
 						const outstanding = await tx
 							.select({ effectId: achievementUnlockOutbox.effectId })
 							.from(achievementUnlockOutbox);
 						return { effectIds: outstanding.map((row) => row.effectId), streamState: null };
 					}
 
-					const definitionRows = await tx.query.achievementDefinitions.findMany();
+					const definitionRows = await tx.query.achievementDefinitions.findMany({
+						where: eq(achievementDefinitions.status, "active"),
+					});
 					const definitions = definitionRows.map((row) =>
 						AchievementDefinitionRecordSchema.parse(row),
 					);
@@ -1077,9 +3243,12 @@ class _AchievementsDO
 
 					let viewer: AchievementFacts["viewer"];
 					let isStreamOpenerCandidate = false;
+					let isFirstChatterCandidate = false;
 					if (
 						validEvent.type === EventType.SongRequestSuccess ||
-						validEvent.type === EventType.RaffleRoll
+						validEvent.type === EventType.RaffleRoll ||
+						validEvent.type === EventType.ChatMessageObserved ||
+						validEvent.type === EventType.RaidReceived
 					) {
 						await tx
 							.update(userAchievements)
@@ -1110,6 +3279,31 @@ class _AchievementsDO
 								);
 							isStreamOpenerCandidate = (priorRequests[0]?.count ?? 0) === 0;
 						}
+						let chattedThisStream: boolean | undefined;
+						if (
+							validEvent.type === EventType.ChatMessageObserved &&
+							persistedSession?.status === "online" &&
+							persistedSession.startedAt !== null
+						) {
+							const priorChats = await tx
+								.select({ userId: eventHistory.userId })
+								.from(eventHistory)
+								.where(
+									and(
+										eq(eventHistory.eventType, EventType.ChatMessageObserved),
+										gt(eventHistory.timestamp, persistedSession.startedAt),
+										ne(eventHistory.eventId, validEvent.id),
+									),
+								)
+								.groupBy(eventHistory.userId);
+							isFirstChatterCandidate = priorChats.length === 0;
+							chattedThisStream = priorChats.some((chat) => chat.userId === validEvent.userId);
+						}
+						const eventHistoryFacts = definitions.some(
+							(definition) => definition.triggerEvent === "rule",
+						)
+							? await this.loadViewerEventFacts(tx, validEvent.userId)
+							: undefined;
 						viewer = {
 							userId: validEvent.userId,
 							userDisplayName: validEvent.userDisplayName,
@@ -1117,12 +3311,22 @@ class _AchievementsDO
 								progressRows.map((progress) => [progress.achievementId, progress]),
 							),
 							requestStreak: streak,
+							eventHistory: eventHistoryFacts,
+							chattedThisStream,
 						};
 					}
 
 					const ruleDefinitions = definitions.map((definition) =>
 						this.toAchievementRuleDefinition(definition),
 					);
+					const lastSeasonReset =
+						viewer !== undefined && definitions.some((definition) => definition.scope === "season")
+							? await tx.query.seasons.findFirst({
+									columns: { endsAt: true },
+									where: and(isNotNull(seasons.archivedAt), eq(seasons.resetSeasonProgress, true)),
+									orderBy: desc(seasons.endsAt),
+								})
+							: undefined;
 					const now =
 						validEvent.type === EventType.StreamOnline
 							? validEvent.startedAt
@@ -1139,7 +3343,9 @@ class _AchievementsDO
 								isLive: persistedSession?.status === "online",
 								currentStreamStartedAt: persistedSession?.startedAt ?? null,
 								isStreamOpenerCandidate,
+								isFirstChatterCandidate,
 							},
+							seasonProgressResetAt: lastSeasonReset?.endsAt ?? null,
 						},
 					});
 
@@ -1161,6 +3367,7 @@ class _AchievementsDO
 										achievementId: decision.achievementId,
 										progress: decision.progress,
 										unlockedAt: decision.unlockedAt,
+										level: decision.level,
 										announcementState: "pending",
 										eventId: decision.eventId,
 									});
@@ -1171,6 +3378,7 @@ class _AchievementsDO
 											userDisplayName: decision.userDisplayName,
 											progress: decision.progress,
 											unlockedAt: decision.unlockedAt,
+											level: decision.level,
 											eventId: decision.eventId ?? existing.eventId,
 										})
 										.where(eq(userAchievements.id, existing.id));
@@ -1178,6 +3386,18 @@ class _AchievementsDO
 								break;
 							}
 							case "queue-achievement-unlock-effect": {
+								if (replay) {
+									await tx
+										.update(userAchievements)
+										.set({ announcementState: "suppressed" })
+										.where(
+											and(
+												eq(userAchievements.userId, decision.userId),
+												eq(userAchievements.achievementId, decision.achievement.id),
+											),
+										);
+									break;
+								}
 								const effectId = `${validEvent.id}:${decision.achievement.id}`;
 								await tx
 									.insert(achievementUnlockOutbox)
@@ -1189,7 +3409,10 @@ class _AchievementsDO
 										achievementId: decision.achievement.id,
 										achievementName: decision.achievement.name,
 										achievementDescription: decision.achievement.description,
+										achievementIcon: decision.achievement.icon,
 										category: decision.achievement.category,
+										level: decision.level,
+										levelLabel: decision.levelLabel,
 										createdAt: now,
 										updatedAt: now,
 									})
@@ -1218,6 +3441,7 @@ class _AchievementsDO
 										.set({
 											progress: 0,
 											unlockedAt: null,
+											level: 0,
 											announcementState: "pending",
 											eventId: null,
 										})
@@ -1267,6 +3491,20 @@ class _AchievementsDO
 							}
 						}
 					}
+					if (
+						validEvent.type === EventType.SongRequestSuccess ||
+						validEvent.type === EventType.RaffleRoll
+					) {
+						await this.insertAchievementEventCredits(
+							tx,
+							creditableAchievementDefinitions(validEvent, ruleDefinitions).map((definition) => ({
+								eventId: validEvent.id,
+								achievementId: definition.id,
+								userId: validEvent.userId,
+								creditedAt: now,
+							})),
+						);
+					}
 					const finalSession = await tx.query.achievementStreamSession.findFirst({
 						where: eq(achievementStreamSession.singletonId, 1),
 					});
@@ -1287,7 +3525,14 @@ class _AchievementsDO
 			});
 		}
 
-		for (const effectId of transactionResult.value.effectIds) {
+		return this.queueAchievementUnlockEffects(transactionResult.value.effectIds);
+	}
+
+	/** Queues committed unlock outbox effects for delivery. */
+	private async queueAchievementUnlockEffects(
+		effectIds: readonly string[],
+	): Promise<Result<void, AchievementDbError>> {
+		for (const effectId of effectIds) {
 			const queueResult = await Result.tryPromise(() =>
 				this.queue("processAchievementUnlockEffects", { effectId }),
 			);
@@ -1300,10 +3545,32 @@ class _AchievementsDO
 				);
 			}
 		}
-
 		return Result.ok();
 	}
 
+	/**
+	 * Resolve a normalized login or display name to one Viewer, preferring the
+	 * most recently active match.
+	 */
+	private async findViewerIdentity(
+		normalizedViewer: string,
+	): Promise<{ userId: string; userDisplayName: string } | undefined> {
+		return (
+			(await this.db.query.eventHistory.findFirst({
+				columns: { userId: true, userDisplayName: true },
+				where: and(
+					inArray(eventHistory.eventType, [...VIEWER_EVENT_TYPES]),
+					eq(sql`lower(${eventHistory.userDisplayName})`, normalizedViewer),
+				),
+				orderBy: desc(eventHistory.timestamp),
+			})) ??
+			(await this.db.query.userAchievements.findFirst({
+				columns: { userId: true, userDisplayName: true },
+				where: eq(sql`lower(${userAchievements.userDisplayName})`, normalizedViewer),
+			}))
+		);
+	}
+
 	private parseAchievementDefinitionRecord(input: unknown): AchievementDefinition {
 		const result = AchievementDefinitionRecordSchema.safeParse(input);
 		if (!result.success) {
@@ -1315,6 +3582,56 @@ class _AchievementsDO
 		return result.data;
 	}
 
+	private parseManagedAchievementDefinitionRecord(input: unknown): ManagedAchievementDefinition {
+		const result = ManagedAchievementDefinitionRecordSchema.safeParse(input);
+		if (!result.success) {
+			throw new InvalidAchievementRecordError({
+				recordType: "definition",
+				parseError: result.error.message,
+			});
+		}
+		return result.data;
+	}
+
+	/** Reads a Viewer's Song Requests and Raffle Rolls for Achievement Rule Expressions. */
+	private async loadViewerEventFacts(
+		tx: Pick<typeof this.db, "select">,
+		userId: string,
+	): Promise<ViewerEventFact[]> {
+		const rows = await tx
+			.select({
+				eventId: eventHistory.eventId,
+				eventType: eventHistory.eventType,
+				timestamp: eventHistory.timestamp,
+				metadata: eventHistory.metadata,
+			})
+			.from(eventHistory)
+			.where(
+				and(
+					eq(eventHistory.userId, userId),
+					inArray(eventHistory.eventType, [EventType.SongRequestSuccess, EventType.RaffleRoll]),
+				),
+			);
+		return rows.flatMap((row) => {
+			if (
+				row.eventType !== EventType.SongRequestSuccess &&
+				row.eventType !== EventType.RaffleRoll
+			) {
+				return [];
+			}
+			const metadata = ViewerEventMetadataSchema.safeParse(JSON.parse(row.metadata ?? "{}"));
+			return [
+				{
+					eventId: row.eventId,
+					type: row.eventType,
+					timestamp: row.timestamp,
+					artistIds: metadata.success ? metadata.data.artistIds : [],
+					isWinner: metadata.success ? metadata.data.isWinner : false,
+				},
+			];
+		});
+	}
+
 	private toAchievementRuleDefinition(
 		definition: AchievementDefinition,
 	): AchievementRuleDefinition {
@@ -1328,11 +3645,15 @@ class _AchievementsDO
 		switch (event.type) {
 			case EventType.SongRequestSuccess:
 			case EventType.RaffleRoll:
+			case EventType.ChatMessageObserved:
+			case EventType.RaidReceived:
+			case EventType.AchievementUnlocked:
 				return { userId: event.userId, userDisplayName: event.userDisplayName };
 
 			case EventType.StreamOnline:
 			case EventType.StreamOffline:
-				// Stream events don't have user info, use system placeholder
+			case EventType.SongSkipped:
+				// Stream and skip events don't have a single user, use system placeholder
 				return { userId: "system", userDisplayName: "System" };
 		}
 	}
@@ -1343,7 +3664,11 @@ class _AchievementsDO
 	private extractMetadata(event: Event): Record<string, unknown> {
 		switch (event.type) {
 			case EventType.SongRequestSuccess:
-				return { trackId: event.trackId, sagaId: event.sagaId };
+				return {
+					trackId: event.trackId,
+					sagaId: event.sagaId,
+					artistIds: event.artistIds,
+				};
 
 			case EventType.RaffleRoll:
 				return {
@@ -1359,6 +3684,23 @@ class _AchievementsDO
 
 			case EventType.StreamOffline:
 				return { streamId: event.streamId, endedAt: event.endedAt };
+
+			case EventType.SongSkipped:
+				return {
+					trackId: event.trackId,
+					requestEventId: event.requestEventId,
+					votes: event.votes,
+					requiredVotes: event.requiredVotes,
+				};
+
+			case EventType.ChatMessageObserved:
+				return { commandName: event.commandName };
+
+			case EventType.RaidReceived:
+				return { viewers: event.viewers, isNewRecord: event.isNewRecord, sagaId: event.sagaId };
+
+			case EventType.AchievementUnlocked:
+				return { achievementId: event.achievementId, level: event.level };
 		}
 	}
 
@@ -1385,19 +3727,6 @@ class _AchievementsDO
 		return baseIncrement;
 	}
 
-	/**
-	 * Determine if achievement should unlock based on progress
-	 */
-	private shouldUnlock(definition: AchievementDefinition, progress: number): boolean {
-		// Event-based achievements (null threshold) unlock on first event
-		if (definition.threshold === null) {
-			return progress >= 1;
-		}
-
-		// Threshold-based achievements unlock when progress reaches threshold
-		return progress >= definition.threshold;
-	}
-
 	private isRetryableAnnouncementPreflightError(error: unknown): boolean {
 		return (
 			(ProviderAccessTokenError.is(error) &&
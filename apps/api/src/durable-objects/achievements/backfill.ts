@@ -0,0 +1,233 @@
+/**
+ * Achievement Backfill replay
+ *
+ * Replays historical Song Requests and Raffle Rolls through the Achievement
+ * rules, oldest first. History carries no Stream Session, so the replay runs as
+ * if the stream were offline: only cumulative Achievements progress, and
+ * request streaks are left alone. An event counts once per Achievement, so
+ * history already credited to one definition still counts for a definition
+ * created after it. Callers load Viewer state and persist the outcome; this
+ * module never touches storage.
+ */
+
+import {
+	EventType,
+	type RaffleRollEvent,
+	type SongRequestSuccessEvent,
+} from "../../domain/domain-event";
+import {
+	evaluateAchievementRules,
+	type AchievementProgressFact,
+	type AchievementRuleDefinition,
+	type ViewerEventFact,
+} from "./rules";
+
+import type { AchievementTriggerEvent } from "../../domain/achievement";
+
+export type AchievementBackfillEvent = SongRequestSuccessEvent | RaffleRollEvent;
+
+export type AchievementBackfillViewer = {
+	progressByAchievementId: ReadonlyMap<string, AchievementProgressFact>;
+	/** Earlier events, needed only when a `rule` achievement is active */
+	eventHistory: readonly ViewerEventFact[];
+};
+
+export type AchievementBackfillInput = {
+	events: readonly AchievementBackfillEvent[];
+	definitions: readonly AchievementRuleDefinition[];
+	viewers: ReadonlyMap<string, AchievementBackfillViewer>;
+	/**
+	 * Achievements each already processed event counted toward, keyed by event
+	 * id; counting an event for them again would count it twice
+	 */
+	creditedAchievementIds: ReadonlyMap<string, ReadonlySet<string>>;
+};
+
+/** An event counted toward one Achievement, recorded so it is never counted again. */
+export type AchievementEventCredit = {
+	eventId: string;
+	achievementId: string;
+	userId: string;
+	creditedAt: string;
+};
+
+export type AchievementBackfillProgress = AchievementProgressFact & {
+	userId: string;
+	userDisplayName: string;
+	progressBefore: number;
+	newlyUnlocked: boolean;
+};
+
+export type AchievementBackfillReplay = {
+	replayedEvents: AchievementBackfillEvent[];
+	/** Final progress of every Viewer Achievement the replay changed */
+	changes: AchievementBackfillProgress[];
+	credits: AchievementEventCredit[];
+};
+
+const CREDITED_TRIGGERS: Record<
+	AchievementBackfillEvent["type"],
+	ReadonlySet<AchievementTriggerEvent>
+> = {
+	[EventType.SongRequestSuccess]: new Set([
+		"song_request",
+		"stream_first_request",
+		"request_streak",
+		"rule",
+	]),
+	[EventType.RaffleRoll]: new Set([
+		"raffle_roll",
+		"raffle_win",
+		"raffle_close",
+		"raffle_closest_record",
+		"rule",
+	]),
+};
+
+/** Cumulative definitions an event is evaluated against, and credited to once it has been. */
+export function creditableAchievementDefinitions<T extends AchievementRuleDefinition>(
+	event: AchievementBackfillEvent,
+	definitions: readonly T[],
+): T[] {
+	const triggers = CREDITED_TRIGGERS[event.type];
+	return definitions.filter(
+		(definition) => definition.scope === "cumulative" && triggers.has(definition.triggerEvent),
+	);
+}
+
+export function replayAchievementBackfill(
+	input: AchievementBackfillInput,
+): AchievementBackfillReplay {
+	const viewers = new Map<
+		string,
+		{ progress: Map<string, AchievementProgressFact>; history: ViewerEventFact[] }
+	>();
+	const changes = new Map<string, AchievementBackfillProgress>();
+	const credits: AchievementEventCredit[] = [];
+	const replayedEvents: AchievementBackfillEvent[] = [];
+	const replayedEventIds = new Set<string>();
+
+	for (const event of [...input.events].sort(compareAchievementBackfillEvents)) {
+		if (replayedEventIds.has(event.id)) {
+			continue;
+		}
+		const credited = input.creditedAchievementIds.get(event.id);
+		const definitions = creditableAchievementDefinitions(event, input.definitions).filter(
+			(definition) => credited?.has(definition.id) !== true,
+		);
+		if (credited !== undefined && definitions.length === 0) {
+			continue;
+		}
+		let viewer = viewers.get(event.userId);
+		if (viewer === undefined) {
+			const loaded = input.viewers.get(event.userId);
+			viewer = {
+				progress: new Map(loaded?.progressByAchievementId),
+				history: [...(loaded?.eventHistory ?? [])],
+			};
+			viewers.set(event.userId, viewer);
+		}
+
+		const decisions = evaluateAchievementRules({
+			event,
+			now: event.timestamp,
+			facts: {
+				definitions,
+				viewer: {
+					userId: event.userId,
+					userDisplayName: event.userDisplayName,
+					progressByAchievementId: viewer.progress,
+					// Rule counts see only what had happened by the time of the event.
+					eventHistory: viewer.history.filter(
+						(fact) => Date.parse(fact.timestamp) <= Date.parse(event.timestamp),
+					),
+				},
+				streamSession: {
+					isLive: false,
+					currentStreamStartedAt: null,
+					isStreamOpenerCandidate: false,
+				},
+			},
+		});
+		for (const decision of decisions) {
+			// Streak and unlock-effect decisions describe the live stream; a replay only keeps progress.
+			if (decision.kind !== "upsert-achievement-progress") {
+				continue;
+			}
+			const key = `${decision.userId}:${decision.achievementId}`;
+			const previous = changes.get(key);
+			const original = input.viewers
+				.get(decision.userId)
+				?.progressByAchievementId.get(decision.achievementId);
+			const progress: AchievementProgressFact = {
+				achievementId: decision.achievementId,
+				progress: decision.progress,
+				unlockedAt: decision.unlockedAt,
+				level: decision.level,
+				eventId: decision.eventId,
+				revokedAt: original?.revokedAt,
+			};
+			viewer.progress.set(decision.achievementId, progress);
+			changes.set(key, {
+				...progress,
+				userId: decision.userId,
+				userDisplayName: decision.userDisplayName,
+				progressBefore: previous?.progressBefore ?? original?.progress ?? 0,
+				newlyUnlocked: (previous?.newlyUnlocked ?? false) || decision.newlyUnlocked,
+			});
+		}
+
+		for (const definition of definitions) {
+			credits.push({
+				eventId: event.id,
+				achievementId: definition.id,
+				userId: event.userId,
+				creditedAt: event.timestamp,
+			});
+		}
+		if (!viewer.history.some((fact) => fact.eventId === event.id)) {
+			viewer.history.push(toViewerEventFact(event));
+		}
+		replayedEvents.push(event);
+		replayedEventIds.add(event.id);
+	}
+
+	return {
+		replayedEvents,
+		changes: [...changes.values()].sort(
+			(left, right) =>
+				left.userId.localeCompare(right.userId) ||
+				left.achievementId.localeCompare(right.achievementId),
+		),
+		credits,
+	};
+}
+
+/** Orders history by when it happened, breaking ties by event id so replays are repeatable. */
+function compareAchievementBackfillEvents(
+	left: AchievementBackfillEvent,
+	right: AchievementBackfillEvent,
+): number {
+	return (
+		Date.parse(left.timestamp) - Date.parse(right.timestamp) ||
+		(left.id < right.id ? -1 : left.id > right.id ? 1 : 0)
+	);
+}
+
+function toViewerEventFact(event: AchievementBackfillEvent): ViewerEventFact {
+	return event.type === EventType.SongRequestSuccess
+		? {
+				eventId: event.id,
+				type: event.type,
+				timestamp: event.timestamp,
+				artistIds: event.artistIds,
+				isWinner: false,
+			}
+		: {
+				eventId: event.id,
+				type: event.type,
+				timestamp: event.timestamp,
+				artistIds: [],
+				isWinner: event.isWinner,
+			};
+}
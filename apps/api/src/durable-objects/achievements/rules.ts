@@ -1,3 +1,11 @@
+import {
+	achievementLevelForProgress,
+	describeAchievementLevel,
+	maxAchievementLevel,
+	REQUEST_STREAK_MINIMUM,
+	type AchievementRuleEvent,
+	type AchievementRuleExpression,
+} from "../../domain/achievement";
 import { EventType, type Event } from "../../domain/domain-event";
 
 export type TriggerEvent =
@@ -7,10 +15,17 @@ export type TriggerEvent =
 	| "raffle_win"
 	| "raffle_close"
 	| "raffle_closest_record"
-	| "request_streak";
+	| "request_streak"
+	| "chat_message"
+	| "stream_first_chat"
+	| "chat_stream"
+	| "chat_command"
+	| "raid"
+	| "raid_record"
+	| "rule";
 
 export type AchievementCategory = "song_request" | "raffle" | "engagement" | "special";
-export type AchievementScope = "session" | "cumulative";
+export type AchievementScope = "session" | "season" | "cumulative";
 
 export type AchievementRuleDefinition = {
 	id: string;
@@ -21,13 +36,22 @@ export type AchievementRuleDefinition = {
 	threshold: number | null;
 	triggerEvent: TriggerEvent;
 	scope: AchievementScope;
+	/** Condition of a `rule` achievement */
+	rule?: AchievementRuleExpression | null;
+	/** Thresholds of the tiers above the first */
+	tiers?: readonly number[] | null;
+	repeatable?: boolean;
 };
 
 export type AchievementProgressFact = {
 	achievementId: string;
 	progress: number;
 	unlockedAt: string | null;
+	/** Tier reached, or times unlocked for a repeatable achievement */
+	level: number;
 	eventId: string | null;
+	/** When a moderator last revoked it; nothing that happened by then counts toward it again */
+	revokedAt?: string | null;
 };
 
 export type RequestStreakFact = {
@@ -36,6 +60,17 @@ export type RequestStreakFact = {
 	sessionStreak: number;
 	longestStreak: number;
 	lastRequestAt: string | null;
+	/** Start of the Stream Session the current streak belongs to */
+	sessionStartedAt?: string | null;
+};
+
+/** One earlier Song Request or Raffle Roll by the Viewer, for Achievement Rule Expressions. */
+export type ViewerEventFact = {
+	eventId: string;
+	type: typeof EventType.SongRequestSuccess | typeof EventType.RaffleRoll;
+	timestamp: string;
+	artistIds: readonly string[];
+	isWinner: boolean;
 };
 
 export type AchievementFacts = {
@@ -45,12 +80,23 @@ export type AchievementFacts = {
 		userDisplayName: string;
 		progressByAchievementId: Map<string, AchievementProgressFact>;
 		requestStreak?: RequestStreakFact;
+		/** Needed only when a `rule` achievement counts earlier events */
+		eventHistory?: readonly ViewerEventFact[];
+		/** Whether the Viewer already chatted in the current Stream Session */
+		chattedThisStream?: boolean;
 	};
 	streamSession: {
 		isLive: boolean;
 		currentStreamStartedAt: string | null;
 		isStreamOpenerCandidate: boolean;
+		/** Whether no Viewer has chatted yet in the current Stream Session */
+		isFirstChatterCandidate?: boolean;
 	};
+	/**
+	 * End of the last Season that reset season-scoped Achievement Progress;
+	 * nothing that happened by then counts toward those Achievements again
+	 */
+	seasonProgressResetAt?: string | null;
 };
 
 export type AchievementRuleInput = {
@@ -66,18 +112,24 @@ export type UpsertAchievementProgress = {
 	achievementId: string;
 	progress: number;
 	unlockedAt: string | null;
+	level: number;
 	eventId: string | null;
+	/** First unlock; later tiers and repeats only raise `level` */
 	newlyUnlocked: boolean;
 };
 
+/** Announces an unlock, or a new tier or repeat of an achievement already unlocked. */
 export type QueueAchievementUnlockEffect = {
 	kind: "queue-achievement-unlock-effect";
 	userId: string;
 	userDisplayName: string;
+	level: number;
+	levelLabel: string | null;
 	achievement: {
 		id: string;
 		name: string;
 		description: string;
+		icon: string;
 		category: AchievementCategory;
 	};
 };
@@ -131,6 +183,13 @@ export function evaluateAchievementRules(input: AchievementRuleInput): Achieveme
 					currentStreamStartedAt: null,
 				},
 			];
+		case EventType.SongSkipped:
+		case EventType.AchievementUnlocked:
+			return [];
+		case EventType.ChatMessageObserved:
+			return evaluateChatMessageRules(input);
+		case EventType.RaidReceived:
+			return evaluateRaidRules(input);
 	}
 }
 
@@ -153,7 +212,7 @@ function evaluateSongRequestRules(input: AchievementRuleInput): AchievementRuleD
 		...nextStreak,
 	});
 
-	if (nextStreak.sessionStreak >= 3) {
+	if (nextStreak.sessionStreak >= REQUEST_STREAK_MINIMUM) {
 		decisions.push(
 			...progressForTrigger("request_streak", input, {
 				mode: "set",
@@ -162,6 +221,8 @@ function evaluateSongRequestRules(input: AchievementRuleInput): AchievementRuleD
 		);
 	}
 
+	decisions.push(...progressForRuleExpressions(input));
+
 	return decisions;
 }
 
@@ -186,6 +247,49 @@ function evaluateRaffleRules(input: AchievementRuleInput): AchievementRuleDecisi
 		decisions.push(...progressForTrigger("raffle_closest_record", input));
 	}
 
+	decisions.push(...progressForRuleExpressions(input));
+
+	return decisions;
+}
+
+function evaluateChatMessageRules(input: AchievementRuleInput): AchievementRuleDecision[] {
+	const event = input.event;
+	if (event.type !== EventType.ChatMessageObserved) {
+		return [];
+	}
+
+	const decisions: AchievementRuleDecision[] = [];
+	decisions.push(...progressForTrigger("chat_message", input));
+
+	if (input.facts.streamSession.isLive) {
+		if (input.facts.streamSession.isFirstChatterCandidate === true) {
+			decisions.push(...progressForTrigger("stream_first_chat", input));
+		}
+		if (input.facts.viewer?.chattedThisStream === false) {
+			decisions.push(...progressForTrigger("chat_stream", input));
+		}
+	}
+
+	if (event.commandName !== null) {
+		decisions.push(...progressForTrigger("chat_command", input));
+	}
+
+	return decisions;
+}
+
+function evaluateRaidRules(input: AchievementRuleInput): AchievementRuleDecision[] {
+	const event = input.event;
+	if (event.type !== EventType.RaidReceived) {
+		return [];
+	}
+
+	const decisions: AchievementRuleDecision[] = [];
+	decisions.push(...progressForTrigger("raid", input));
+
+	if (event.isNewRecord) {
+		decisions.push(...progressForTrigger("raid_record", input));
+	}
+
 	return decisions;
 }
 
@@ -216,6 +320,7 @@ function progressForTrigger(
 		mode: "increment",
 		value: 1,
 	},
+	applies: (definition: AchievementRuleDefinition) => boolean = () => true,
 ): AchievementRuleDecision[] {
 	const viewer = input.facts.viewer;
 	if (viewer === undefined) {
@@ -224,7 +329,7 @@ function progressForTrigger(
 
 	const decisions: AchievementRuleDecision[] = [];
 	const definitions = input.facts.definitions.filter(
-		(definition) => definition.triggerEvent === triggerEvent,
+		(definition) => definition.triggerEvent === triggerEvent && applies(definition),
 	);
 
 	for (const definition of definitions) {
@@ -235,13 +340,19 @@ function progressForTrigger(
 		) {
 			continue;
 		}
-		if (definition.threshold !== null && existing?.unlockedAt !== null && existing !== undefined) {
+		if (isCutOffFor(progressCutoff(definition, existing, input), input, mode)) {
+			continue;
+		}
+		const previousLevel = existing?.level ?? 0;
+		const maxLevel = maxAchievementLevel(definition);
+		if (definition.threshold !== null && maxLevel !== null && previousLevel >= maxLevel) {
 			continue;
 		}
 
 		const currentProgress = existing?.progress ?? 0;
 		const progress = mode.mode === "set" ? mode.value : currentProgress + mode.value;
-		const unlocked = shouldUnlock(definition, progress);
+		const level = Math.max(previousLevel, achievementLevelForProgress(definition, progress));
+		const unlocked = level >= 1;
 		const newlyUnlocked = unlocked && (existing === undefined || existing.unlockedAt === null);
 		const unlockedAt = unlocked ? (existing?.unlockedAt ?? input.now) : null;
 		const eventId = definition.threshold === null ? eventIdForTrigger(input, triggerEvent) : null;
@@ -253,19 +364,23 @@ function progressForTrigger(
 			achievementId: definition.id,
 			progress,
 			unlockedAt,
+			level,
 			eventId,
 			newlyUnlocked,
 		});
 
-		if (newlyUnlocked) {
+		if (level > previousLevel) {
 			decisions.push({
 				kind: "queue-achievement-unlock-effect",
 				userId: viewer.userId,
 				userDisplayName: viewer.userDisplayName,
+				level,
+				levelLabel: describeAchievementLevel(definition, level),
 				achievement: {
 					id: definition.id,
 					name: definition.name,
 					description: definition.description,
+					icon: definition.icon,
 					category: definition.category,
 				},
 			});
@@ -275,6 +390,195 @@ function progressForTrigger(
 	return decisions;
 }
 
+/**
+ * The moment before which nothing counts toward an Achievement: its revocation,
+ * or for a season-scoped one the Season reset, whichever came later.
+ */
+function progressCutoff(
+	definition: AchievementRuleDefinition,
+	existing: AchievementProgressFact | undefined,
+	input: AchievementRuleInput,
+): string | null {
+	const revokedAt = existing?.revokedAt ?? null;
+	const seasonResetAt =
+		definition.scope === "season" ? (input.facts.seasonProgressResetAt ?? null) : null;
+	if (revokedAt === null || seasonResetAt === null) {
+		return revokedAt ?? seasonResetAt;
+	}
+	return Date.parse(revokedAt) >= Date.parse(seasonResetAt) ? revokedAt : seasonResetAt;
+}
+
+/**
+ * Whether an Achievement must ignore this event: anything that happened by its
+ * cutoff, and a `set` value such as a request streak that was already running
+ * at the cutoff.
+ */
+function isCutOffFor(
+	cutoff: string | null,
+	input: AchievementRuleInput,
+	mode: { mode: "increment" | "set" },
+): boolean {
+	if (cutoff === null) {
+		return false;
+	}
+	if (Date.parse(input.event.timestamp) <= Date.parse(cutoff)) {
+		return true;
+	}
+	if (mode.mode === "set") {
+		const streakStartedAt = input.facts.viewer?.requestStreak?.sessionStartedAt;
+		return (
+			streakStartedAt === null ||
+			streakStartedAt === undefined ||
+			Date.parse(streakStartedAt) <= Date.parse(cutoff)
+		);
+	}
+	return false;
+}
+
+/** Advances each `rule` achievement whose expression matches the Viewer's event. */
+function progressForRuleExpressions(input: AchievementRuleInput): AchievementRuleDecision[] {
+	return progressForTrigger(
+		"rule",
+		input,
+		{ mode: "increment", value: 1 },
+		(definition) =>
+			definition.rule !== undefined &&
+			definition.rule !== null &&
+			matchesRuleExpression(
+				definition.rule,
+				withHistorySince(
+					input,
+					progressCutoff(
+						definition,
+						input.facts.viewer?.progressByAchievementId.get(definition.id),
+						input,
+					),
+				),
+			),
+	);
+}
+
+/** Drops the history a `rule` achievement must no longer count after its cutoff. */
+function withHistorySince(
+	input: AchievementRuleInput,
+	cutoff: string | null,
+): AchievementRuleInput {
+	const viewer = input.facts.viewer;
+	if (viewer?.eventHistory === undefined || cutoff === null) {
+		return input;
+	}
+	return {
+		...input,
+		facts: {
+			...input.facts,
+			viewer: {
+				...viewer,
+				eventHistory: viewer.eventHistory.filter(
+					(fact) => Date.parse(fact.timestamp) > Date.parse(cutoff),
+				),
+			},
+		},
+	};
+}
+
+function matchesRuleExpression(
+	expression: AchievementRuleExpression,
+	input: AchievementRuleInput,
+): boolean {
+	switch (expression.kind) {
+		case "all":
+			return expression.rules.every((rule) => matchesRuleExpression(rule, input));
+		case "any":
+			return expression.rules.some((rule) => matchesRuleExpression(rule, input));
+		case "event":
+			return isRuleEvent(currentEventFact(input), expression.event);
+		case "count":
+			return countRuleEvents(expression, input) >= expression.atLeast;
+		case "stream_elapsed": {
+			const startedAt = input.facts.streamSession.currentStreamStartedAt;
+			if (!input.facts.streamSession.isLive || startedAt === null) {
+				return false;
+			}
+			const elapsedMs = Date.parse(input.event.timestamp) - Date.parse(startedAt);
+			return elapsedMs >= 0 && elapsedMs <= expression.atMostMinutes * 60_000;
+		}
+	}
+}
+
+/** Counts the Viewer's matching events, including the one being evaluated exactly once. */
+function countRuleEvents(
+	expression: Extract<AchievementRuleExpression, { kind: "count" }>,
+	input: AchievementRuleInput,
+): number {
+	const current = currentEventFact(input);
+	if (current === null) {
+		return 0;
+	}
+	const sessionStartedAt = input.facts.streamSession.currentStreamStartedAt;
+	if (
+		expression.scope === "session" &&
+		(!input.facts.streamSession.isLive || sessionStartedAt === null)
+	) {
+		return 0;
+	}
+	const history = input.facts.viewer?.eventHistory ?? [];
+	const events = [current, ...history.filter((fact) => fact.eventId !== current.eventId)].filter(
+		(fact) =>
+			isRuleEvent(fact, expression.event) &&
+			(expression.scope === "cumulative" ||
+				(sessionStartedAt !== null && Date.parse(fact.timestamp) >= Date.parse(sessionStartedAt))),
+	);
+	if (expression.sameArtist !== true) {
+		return events.length;
+	}
+	return Math.max(
+		0,
+		...current.artistIds.map(
+			(artistId) => events.filter((fact) => fact.artistIds.includes(artistId)).length,
+		),
+	);
+}
+
+function currentEventFact(input: AchievementRuleInput): ViewerEventFact | null {
+	const event = input.event;
+	switch (event.type) {
+		case EventType.SongRequestSuccess:
+			return {
+				eventId: event.id,
+				type: event.type,
+				timestamp: event.timestamp,
+				artistIds: event.artistIds,
+				isWinner: false,
+			};
+		case EventType.RaffleRoll:
+			return {
+				eventId: event.id,
+				type: event.type,
+				timestamp: event.timestamp,
+				artistIds: [],
+				isWinner: event.isWinner,
+			};
+		case EventType.StreamOnline:
+		case EventType.StreamOffline:
+		case EventType.SongSkipped:
+		case EventType.ChatMessageObserved:
+		case EventType.RaidReceived:
+		case EventType.AchievementUnlocked:
+			return null;
+	}
+}
+
+function isRuleEvent(fact: ViewerEventFact | null, ruleEvent: AchievementRuleEvent): boolean {
+	switch (ruleEvent) {
+		case "song_request":
+			return fact?.type === EventType.SongRequestSuccess;
+		case "raffle_roll":
+			return fact?.type === EventType.RaffleRoll;
+		case "raffle_win":
+			return fact?.type === EventType.RaffleRoll && fact.isWinner;
+	}
+}
+
 function calculateNextRequestStreak(
 	viewer: NonNullable<AchievementFacts["viewer"]>,
 	now: string,
@@ -290,14 +594,6 @@ function calculateNextRequestStreak(
 	};
 }
 
-function shouldUnlock(definition: AchievementRuleDefinition, progress: number): boolean {
-	if (definition.threshold === null) {
-		return progress >= 1;
-	}
-
-	return progress >= definition.threshold;
-}
-
 function eventIdForTrigger(input: AchievementRuleInput, triggerEvent: TriggerEvent): string {
 	switch (triggerEvent) {
 		case "stream_first_request":
@@ -310,8 +606,18 @@ function eventIdForTrigger(input: AchievementRuleInput, triggerEvent: TriggerEve
 			return `${input.event.id}-close`;
 		case "raffle_closest_record":
 			return `${input.event.id}-closest-record`;
+		case "stream_first_chat":
+			return `${input.event.id}-first-chat`;
+		case "chat_stream":
+			return `${input.event.id}-chat-stream`;
+		case "raid_record":
+			return `${input.event.id}-raid-record`;
 		case "song_request":
 		case "raffle_roll":
+		case "chat_message":
+		case "chat_command":
+		case "raid":
+		case "rule":
 			return input.event.id;
 	}
 }
@@ -165,6 +165,90 @@ function createHexCommandInput(now: string): CreateCommandInput {
 	};
 }
 
+function createVoteSkipCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "voteskip",
+		description: "Vote to skip the current song",
+		category: "music",
+		responseType: "computed",
+		permission: "everyone",
+		handlerKey: "voteskip",
+		createdAt: now,
+	};
+}
+
+function createRemoveCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "remove",
+		description: "Remove a song request by queue position or requester",
+		category: "music",
+		responseType: "computed",
+		permission: "moderator",
+		handlerKey: "remove",
+		createdAt: now,
+	};
+}
+
+function createWrongSongCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "wrongsong",
+		description: "Remove your last song request and refund it if it hasn't played",
+		category: "music",
+		responseType: "computed",
+		permission: "everyone",
+		handlerKey: "wrongsong",
+		createdAt: now,
+	};
+}
+
+function createClearQueueCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "clearqueue",
+		description: "Remove every upcoming song request",
+		category: "music",
+		responseType: "computed",
+		permission: "moderator",
+		handlerKey: "clearqueue",
+		createdAt: now,
+	};
+}
+
+function createRaidsCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "raids",
+		description: "Shows the channels that raided most",
+		category: "stats",
+		responseType: "computed",
+		permission: "everyone",
+		handlerKey: "raids",
+		createdAt: now,
+	};
+}
+
+function createProfileCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "profile",
+		description: "Links a viewer's profile page",
+		category: "stats",
+		responseType: "computed",
+		permission: "everyone",
+		handlerKey: "profile",
+		createdAt: now,
+	};
+}
+
+function createAchievementModerationCommandInput(now: string): CreateCommandInput {
+	return {
+		name: "achievement",
+		description: "Grant or revoke a viewer's achievement with a reason",
+		category: "stats",
+		responseType: "computed",
+		permission: "moderator",
+		handlerKey: "achievement",
+		createdAt: now,
+	};
+}
+
 const DefaultCommandMigrations = [
 	{
 		id: "2026-05-27-add-plan-command",
@@ -187,6 +271,41 @@ const DefaultCommandMigrations = [
 		kind: "create",
 		createInput: createHexCommandInput,
 	},
+	{
+		id: "2026-10-18-add-voteskip-command",
+		kind: "create",
+		createInput: createVoteSkipCommandInput,
+	},
+	{
+		id: "2026-10-19-add-remove-command",
+		kind: "create",
+		createInput: createRemoveCommandInput,
+	},
+	{
+		id: "2026-10-19-add-wrongsong-command",
+		kind: "create",
+		createInput: createWrongSongCommandInput,
+	},
+	{
+		id: "2026-10-19-add-clearqueue-command",
+		kind: "create",
+		createInput: createClearQueueCommandInput,
+	},
+	{
+		id: "2026-10-19-add-raids-command",
+		kind: "create",
+		createInput: createRaidsCommandInput,
+	},
+	{
+		id: "2026-10-19-add-profile-command",
+		kind: "create",
+		createInput: createProfileCommandInput,
+	},
+	{
+		id: "2026-10-19-add-achievement-moderation-command",
+		kind: "create",
+		createInput: createAchievementModerationCommandInput,
+	},
 ] as const;
 
 const DefaultCommandMigrationIds = DefaultCommandMigrations.map((migration) => migration.id);
@@ -313,6 +432,9 @@ function createDefaultCommandInputs(now: string): CreateCommandInput[] {
 			handlerKey: "raffle-leaderboard",
 			createdAt: now,
 		},
+		createRaidsCommandInput(now),
+		createProfileCommandInput(now),
+		createAchievementModerationCommandInput(now),
 		{
 			name: "commands",
 			description: "Lists available commands",
@@ -349,6 +471,10 @@ function createDefaultCommandInputs(now: string): CreateCommandInput[] {
 			handlerKey: "queue",
 			createdAt: now,
 		},
+		createVoteSkipCommandInput(now),
+		createRemoveCommandInput(now),
+		createWrongSongCommandInput(now),
+		createClearQueueCommandInput(now),
 		{
 			name: "functor",
 			description: "A fun one-liner response",
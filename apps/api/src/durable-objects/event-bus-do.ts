@@ -1,6 +1,15 @@
 /**
  * EventBusDO - Singleton event router for domain events
  *
+ * Fans each event out to its registered subscribers. Pending retries, dead
+ * letters, and delivery receipts are kept per (event, subscriber), so one
+ * failing consumer never blocks or re-delivers to the others.
+ *
+ * Every accepted event is also appended to the Event Log, which outlives
+ * delivery so administrators can replay a time range to one subscriber, for
+ * example to rebuild a projection after a bug fix. Replays are marked so
+ * subscribers can suppress side effects such as chat announcements.
+ *
  * Migrated to Agent for Agent-native lifecycle and delayed scheduling.
  * SQLite remains the source of truth for pending retries and DLQ state.
  *
@@ -10,14 +19,30 @@
 
 import { Agent, type AgentContext } from "agents";
 import { Result } from "better-result";
-import { desc, eq, lte } from "drizzle-orm";
+import { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, max, min, or } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
 
 import migrations from "../../drizzle/event-bus-do/migrations";
-import { DurableObjectAchievementEventHandler } from "../adapters/cloudflare/durable-object-domain-event-handler";
+import {
+	DurableObjectAchievementEventHandler,
+	DurableObjectOutboundWebhookEventHandler,
+} from "../adapters/cloudflare/durable-object-domain-event-handler";
+import { DomainEventHandleError } from "../capabilities/domain-event-handler";
+import {
+	DeadLetterBulkDeleteRequestSchema,
+	DeadLetterBulkReplayRequestSchema,
+	EventLogReplayRequestSchema,
+} from "../capabilities/event-bus-administration";
 import { LoggingTracer } from "../capabilities/tracer";
-import { EventSchema, EventType, type Event } from "../domain/domain-event";
+import { VersionedEventSchema, type Event } from "../domain/domain-event";
+import {
+	EVENT_SUBSCRIPTIONS,
+	EventSubscriberSchema,
+	eventTypesForSubscriber,
+	type EventDelivery,
+	type EventSubscriber,
+} from "../domain/event-subscriber";
 import { rpc } from "../lib/durable-objects";
 import {
 	DLQItemNotFoundError,
@@ -27,26 +52,39 @@ import {
 	type EventBusError,
 } from "../lib/errors";
 import {
+	BulkDeleteDeadLetterEventsResultCodec,
+	BulkReplayDeadLetterEventsResultCodec,
 	DeleteDeadLetterEventResultCodec,
 	GetDeadLetterEventsResultCodec,
+	GetDeadLetterSummaryResultCodec,
+	GetEventSubscriberLagResultCodec,
 	GetPendingEventCountResultCodec,
 	GetPendingEventsResultCodec,
 	PublishDomainEventResultCodec,
 	ReplayDeadLetterEventResultCodec,
+	ReplayEventLogResultCodec,
 } from "../lib/event-bus-rpc-result-codecs";
 import { logger } from "../lib/logger";
 import * as schema from "./schemas/event-bus-do.schema";
 import {
 	deadLetterQueue,
 	deliveredEvents,
+	eventLog,
 	pendingEvents,
+	type DeadLetterEvent,
 	type PendingEvent,
 } from "./schemas/event-bus-do.schema";
 
 import type { DomainEventHandler } from "../capabilities/domain-event-handler";
 import type {
+	DeadLetterBulkDeleteResult,
+	DeadLetterBulkReplayResult,
+	DeadLetterFilter,
 	DeadLetterList as DLQListResponse,
 	DeadLetterReplayResult as ReplayResult,
+	DeadLetterSummary,
+	EventLogReplayResult,
+	EventSubscriberLag,
 	PendingEventList as PendingListResponse,
 } from "../capabilities/event-bus-administration";
 import type { Env } from "../index";
@@ -55,18 +93,50 @@ const MAX_ATTEMPTS = 3;
 const BACKOFF_DELAYS_MS: readonly [number, number, number] = [1000, 4000, 16000];
 const DLQ_RETENTION_DAYS = 30;
 const DLQ_RETENTION_MS = DLQ_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+/** Bulk replay starts no new delivery after this long, keeping one admin call well inside request limits */
+const DLQ_BULK_REPLAY_TIME_BUDGET_MS = 15_000;
+const EVENT_LOG_RETENTION_DAYS = 90;
+const EVENT_LOG_RETENTION_MS = EVENT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
 
 function getBackoffDelayMs(attempt: number): number {
 	const index = Math.min(attempt, BACKOFF_DELAYS_MS.length - 1);
 	return BACKOFF_DELAYS_MS[index] ?? BACKOFF_DELAYS_MS[0];
 }
 
-const EVENT_ROUTES = {
-	[EventType.SongRequestSuccess]: "ACHIEVEMENTS_DO",
-	[EventType.RaffleRoll]: "ACHIEVEMENTS_DO",
-	[EventType.StreamOnline]: "ACHIEVEMENTS_DO",
-	[EventType.StreamOffline]: "ACHIEVEMENTS_DO",
-} satisfies Record<EventType, "ACHIEVEMENTS_DO">;
+function pendingDelivery(eventId: string, subscriber: string) {
+	return and(eq(pendingEvents.id, eventId), eq(pendingEvents.subscriber, subscriber));
+}
+
+function deadLetterDelivery(eventId: string, subscriber?: string) {
+	return and(
+		eq(deadLetterQueue.id, eventId),
+		subscriber === undefined ? undefined : eq(deadLetterQueue.subscriber, subscriber),
+	);
+}
+
+function matchingDeadLetters(filter: DeadLetterFilter) {
+	return and(
+		filter.types === undefined ? undefined : inArray(deadLetterQueue.type, filter.types),
+		filter.subscriber === undefined ? undefined : eq(deadLetterQueue.subscriber, filter.subscriber),
+		filter.errorTags === undefined
+			? undefined
+			: inArray(deadLetterQueue.errorTag, filter.errorTags),
+		filter.from === undefined ? undefined : gte(deadLetterQueue.firstFailedAt, filter.from),
+		filter.to === undefined ? undefined : lt(deadLetterQueue.firstFailedAt, filter.to),
+	);
+}
+
+/** The tag a dead letter is grouped and filtered by: the remote error's when the subscriber relayed one. */
+function deadLetterErrorTag(error: EventBusHandlerError): string {
+	const cause: unknown = error.cause;
+	if (DomainEventHandleError.is(cause)) {
+		return cause.remoteErrorTag ?? cause._tag;
+	}
+	if (cause && typeof cause === "object" && "_tag" in cause && typeof cause._tag === "string") {
+		return cause._tag;
+	}
+	return "UnknownError";
+}
 
 interface EventBusAgentState {
 	retrySweepScheduleId: string | null;
@@ -77,7 +147,7 @@ interface EventBusAgentState {
 
 class _EventBusDO extends Agent<Env, EventBusAgentState> {
 	private db: ReturnType<typeof drizzle<typeof schema>>;
-	private readonly achievementEvents: DomainEventHandler;
+	private readonly subscribers: Record<EventSubscriber, DomainEventHandler>;
 
 	initialState: EventBusAgentState = {
 		retrySweepScheduleId: null,
@@ -89,10 +159,11 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 	constructor(ctx: AgentContext, env: Env) {
 		super(ctx, env);
 		this.db = drizzle(this.ctx.storage, { schema });
-		this.achievementEvents = new DurableObjectAchievementEventHandler(
-			env.ACHIEVEMENTS_DO,
-			new LoggingTracer(logger),
-		);
+		const tracer = new LoggingTracer(logger);
+		this.subscribers = {
+			achievements: new DurableObjectAchievementEventHandler(env.ACHIEVEMENTS_DO, tracer),
+			webhooks: new DurableObjectOutboundWebhookEventHandler(env.OUTBOUND_WEBHOOK_DO, tracer),
+		};
 	}
 
 	async onStart(): Promise<void> {
@@ -106,7 +177,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 
 	@rpc(PublishDomainEventResultCodec)
 	async publish(event: unknown): Promise<Result<void, EventBusError>> {
-		const parseResult = EventSchema.safeParse(event);
+		const parseResult = VersionedEventSchema.safeParse(event);
 		if (!parseResult.success) {
 			logger.warn("EventBusDO: Invalid event format", {
 				error: parseResult.error.message,
@@ -119,14 +190,14 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 		}
 
 		const domainEvent = parseResult.data;
-		const handlerKey = EVENT_ROUTES[domainEvent.type];
-		const receiptResult = await this.findDeliveryReceipt(domainEvent.id);
-		if (receiptResult.isErr()) {
-			return Result.err(receiptResult.error);
+		const logResult = await this.appendToEventLog(domainEvent);
+		if (logResult.isErr()) {
+			return Result.err(logResult.error);
 		}
-		if (receiptResult.value) {
-			const reconcileResult = await this.reconcileTerminalEvent(domainEvent.id);
-			return reconcileResult.isErr() ? Result.err(reconcileResult.error) : Result.ok();
+
+		const receiptsResult = await this.findDeliveryReceipts(domainEvent.id);
+		if (receiptsResult.isErr()) {
+			return Result.err(receiptsResult.error);
 		}
 
 		logger.info("EventBusDO: Publishing event", {
@@ -135,33 +206,47 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			source: domainEvent.source,
 		});
 
-		const deliveryResult = await this.deliverEvent(domainEvent, handlerKey);
+		// Subscribers are delivered one at a time so their retry and purge
+		// schedule reconciliation never interleaves.
+		let firstError: EventBusDbError | undefined;
+		for (const subscriber of EVENT_SUBSCRIPTIONS[domainEvent.type]) {
+			const result = receiptsResult.value.has(subscriber)
+				? await this.reconcileTerminalDelivery(domainEvent.id, subscriber)
+				: await this.publishToSubscriber(domainEvent, subscriber);
+			if (result.isErr()) {
+				firstError ??= result.error;
+			}
+		}
+
+		return firstError === undefined ? Result.ok() : Result.err(firstError);
+	}
+
+	private async publishToSubscriber(
+		event: Event,
+		subscriber: EventSubscriber,
+	): Promise<Result<void, EventBusDbError>> {
+		const deliveryResult = await this.deliverEvent(event, subscriber);
 		if (deliveryResult.isOk()) {
-			const receiptWriteResult = await this.recordSuccessfulDelivery(domainEvent.id);
+			const receiptWriteResult = await this.recordSuccessfulDelivery(event.id, subscriber);
 			if (receiptWriteResult.isErr()) {
 				return Result.err(receiptWriteResult.error);
 			}
 			logger.info("EventBusDO: Event delivered", {
-				eventId: domainEvent.id,
-				eventType: domainEvent.type,
-				handler: handlerKey,
+				eventId: event.id,
+				eventType: event.type,
+				subscriber,
 			});
 			return Result.ok();
 		}
 
 		logger.warn("EventBusDO: Initial delivery failed, queueing for retry", {
-			eventId: domainEvent.id,
-			eventType: domainEvent.type,
-			handler: handlerKey,
+			eventId: event.id,
+			eventType: event.type,
+			subscriber,
 			error: deliveryResult.error.message,
 		});
 
-		const queueResult = await this.queueForRetry(domainEvent, 0);
-		if (queueResult.isErr()) {
-			return Result.err(queueResult.error);
-		}
-
-		return Result.ok();
+		return this.queueForRetry(event, subscriber, 0);
 	}
 
 	async retryDueEventsTick(_scheduledFor?: string): Promise<void> {
@@ -206,41 +291,55 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 		} catch (error) {
 			logger.error("EventBusDO: Corrupted pending event JSON, deleting", {
 				eventId: pending.id,
+				subscriber: pending.subscriber,
 				error: error instanceof Error ? error.message : String(error),
 			});
-			await this.db.delete(pendingEvents).where(eq(pendingEvents.id, pending.id));
+			await this.db.delete(pendingEvents).where(pendingDelivery(pending.id, pending.subscriber));
 			return;
 		}
 
-		const parseResult = EventSchema.safeParse(parsedEvent);
+		const parseResult = VersionedEventSchema.safeParse(parsedEvent);
 		if (!parseResult.success) {
 			logger.error("EventBusDO: Corrupted pending event, deleting", {
 				eventId: pending.id,
+				subscriber: pending.subscriber,
 				error: parseResult.error.message,
 			});
-			await this.db.delete(pendingEvents).where(eq(pendingEvents.id, pending.id));
+			await this.db.delete(pendingEvents).where(pendingDelivery(pending.id, pending.subscriber));
+			return;
+		}
+
+		const subscriberResult = EventSubscriberSchema.safeParse(pending.subscriber);
+		if (!subscriberResult.success) {
+			logger.error("EventBusDO: Pending event for unregistered subscriber, deleting", {
+				eventId: pending.id,
+				subscriber: pending.subscriber,
+			});
+			await this.db.delete(pendingEvents).where(pendingDelivery(pending.id, pending.subscriber));
 			return;
 		}
 
 		const event = parseResult.data;
-		const handlerKey = EVENT_ROUTES[event.type];
+		const subscriber = subscriberResult.data;
 		const attemptNumber = pending.attempts + 1;
 
 		logger.info("EventBusDO: Retrying event delivery", {
 			eventId: event.id,
 			eventType: event.type,
+			subscriber,
 			attempt: attemptNumber,
 			maxAttempts: MAX_ATTEMPTS,
 		});
 
-		const deliveryResult = await this.deliverEvent(event, handlerKey);
+		const deliveryResult = await this.deliverEvent(event, subscriber);
 		if (deliveryResult.isOk()) {
 			logger.info("EventBusDO: Retry succeeded", {
 				eventId: event.id,
 				eventType: event.type,
+				subscriber,
 				attempt: attemptNumber,
 			});
-			const receiptResult = await this.recordSuccessfulDelivery(event.id);
+			const receiptResult = await this.recordSuccessfulDelivery(event.id, subscriber);
 			if (receiptResult.isErr()) {
 				throw receiptResult.error;
 			}
@@ -251,6 +350,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			logger.error("EventBusDO: Max retry attempts reached, moving to DLQ", {
 				eventId: event.id,
 				eventType: event.type,
+				subscriber,
 				attempts: attemptNumber,
 				error: deliveryResult.error.message,
 			});
@@ -261,14 +361,17 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			await this.db.transaction(async (tx) => {
 				await tx.insert(deadLetterQueue).values({
 					id: event.id,
+					subscriber,
+					type: event.type,
 					event: pending.event,
 					error: deliveryResult.error.message,
+					errorTag: deadLetterErrorTag(deliveryResult.error),
 					attempts: attemptNumber,
 					firstFailedAt: pending.createdAt,
 					lastFailedAt: now,
 					expiresAt,
 				});
-				await tx.delete(pendingEvents).where(eq(pendingEvents.id, pending.id));
+				await tx.delete(pendingEvents).where(pendingDelivery(pending.id, subscriber));
 			});
 			return;
 		}
@@ -279,6 +382,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 		logger.info("EventBusDO: Scheduling next retry", {
 			eventId: event.id,
 			eventType: event.type,
+			subscriber,
 			attempt: attemptNumber,
 			nextRetryAt,
 			delayMs,
@@ -290,11 +394,12 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				attempts: attemptNumber,
 				nextRetryAt,
 			})
-			.where(eq(pendingEvents.id, pending.id));
+			.where(pendingDelivery(pending.id, subscriber));
 	}
 
 	private async queueForRetry(
 		event: Event,
+		subscriber: EventSubscriber,
 		currentAttempts: number,
 	): Promise<Result<void, EventBusDbError>> {
 		const delayMs = getBackoffDelayMs(currentAttempts);
@@ -306,11 +411,12 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const [existingPending] = await this.db
 					.select({ id: pendingEvents.id })
 					.from(pendingEvents)
-					.where(eq(pendingEvents.id, event.id))
+					.where(pendingDelivery(event.id, subscriber))
 					.limit(1);
 				if (existingPending) {
 					logger.info("EventBusDO: Event already pending, reconciling retry schedule", {
 						eventId: event.id,
+						subscriber,
 					});
 					await this.ensureRetrySweepSchedule();
 					return;
@@ -319,11 +425,12 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const [existingDlq] = await this.db
 					.select({ id: deadLetterQueue.id })
 					.from(deadLetterQueue)
-					.where(eq(deadLetterQueue.id, event.id))
+					.where(deadLetterDelivery(event.id, subscriber))
 					.limit(1);
 				if (existingDlq) {
 					logger.info("EventBusDO: Event already in DLQ, reconciling purge schedule", {
 						eventId: event.id,
+						subscriber,
 					});
 					await this.ensureDlqPurgeSchedule();
 					return;
@@ -333,6 +440,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 					.insert(pendingEvents)
 					.values({
 						id: event.id,
+						subscriber,
 						event: JSON.stringify(event),
 						attempts: currentAttempts,
 						nextRetryAt,
@@ -343,6 +451,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				logger.info("EventBusDO: Event queued for retry", {
 					eventId: event.id,
 					eventType: event.type,
+					subscriber,
 					nextRetryAt,
 					delayMs,
 				});
@@ -467,30 +576,67 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 		}
 	}
 
-	private async findDeliveryReceipt(eventId: string): Promise<Result<boolean, EventBusDbError>> {
+	/**
+	 * Append one event to the Event Log, ignoring producer retries of an event
+	 * already logged, and drop entries older than the retention window.
+	 */
+	private async appendToEventLog(event: Event): Promise<Result<void, EventBusDbError>> {
 		return Result.tryPromise({
 			try: async () => {
-				const [receipt] = await this.db
-					.select({ id: deliveredEvents.id })
+				const now = new Date();
+				await this.db.transaction(async (tx) => {
+					await tx
+						.insert(eventLog)
+						.values({
+							id: event.id,
+							type: event.type,
+							event: JSON.stringify(event),
+							occurredAt: new Date(event.timestamp).toISOString(),
+							recordedAt: now.toISOString(),
+						})
+						.onConflictDoNothing();
+					await tx
+						.delete(eventLog)
+						.where(
+							lt(
+								eventLog.recordedAt,
+								new Date(now.getTime() - EVENT_LOG_RETENTION_MS).toISOString(),
+							),
+						);
+				});
+			},
+			catch: (cause) => new EventBusDbError({ operation: "appendToEventLog", cause }),
+		});
+	}
+
+	private async findDeliveryReceipts(
+		eventId: string,
+	): Promise<Result<ReadonlySet<string>, EventBusDbError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const receipts = await this.db
+					.select({ subscriber: deliveredEvents.subscriber })
 					.from(deliveredEvents)
-					.where(eq(deliveredEvents.id, eventId))
-					.limit(1);
-				return receipt !== undefined;
+					.where(eq(deliveredEvents.id, eventId));
+				return new Set(receipts.map((receipt) => receipt.subscriber));
 			},
-			catch: (cause) => new EventBusDbError({ operation: "findDeliveryReceipt", cause }),
+			catch: (cause) => new EventBusDbError({ operation: "findDeliveryReceipts", cause }),
 		});
 	}
 
-	private async recordSuccessfulDelivery(eventId: string): Promise<Result<void, EventBusDbError>> {
+	private async recordSuccessfulDelivery(
+		eventId: string,
+		subscriber: EventSubscriber,
+	): Promise<Result<void, EventBusDbError>> {
 		return Result.tryPromise({
 			try: async () => {
 				await this.db.transaction(async (tx) => {
 					await tx
 						.insert(deliveredEvents)
-						.values({ id: eventId, deliveredAt: new Date().toISOString() })
+						.values({ id: eventId, subscriber, deliveredAt: new Date().toISOString() })
 						.onConflictDoNothing();
-					await tx.delete(pendingEvents).where(eq(pendingEvents.id, eventId));
-					await tx.delete(deadLetterQueue).where(eq(deadLetterQueue.id, eventId));
+					await tx.delete(pendingEvents).where(pendingDelivery(eventId, subscriber));
+					await tx.delete(deadLetterQueue).where(deadLetterDelivery(eventId, subscriber));
 				});
 				await this.ensureRetrySweepSchedule();
 				await this.ensureDlqPurgeSchedule();
@@ -499,33 +645,38 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 		});
 	}
 
-	private async reconcileTerminalEvent(eventId: string): Promise<Result<void, EventBusDbError>> {
+	private async reconcileTerminalDelivery(
+		eventId: string,
+		subscriber: EventSubscriber,
+	): Promise<Result<void, EventBusDbError>> {
 		return Result.tryPromise({
 			try: async () => {
 				await this.db.transaction(async (tx) => {
-					await tx.delete(pendingEvents).where(eq(pendingEvents.id, eventId));
-					await tx.delete(deadLetterQueue).where(eq(deadLetterQueue.id, eventId));
+					await tx.delete(pendingEvents).where(pendingDelivery(eventId, subscriber));
+					await tx.delete(deadLetterQueue).where(deadLetterDelivery(eventId, subscriber));
 				});
 				await this.ensureRetrySweepSchedule();
 				await this.ensureDlqPurgeSchedule();
 			},
-			catch: (cause) => new EventBusDbError({ operation: "reconcileTerminalEvent", cause }),
+			catch: (cause) => new EventBusDbError({ operation: "reconcileTerminalDelivery", cause }),
 		});
 	}
 
 	private async deliverEvent(
 		event: Event,
-		handlerKey: "ACHIEVEMENTS_DO",
+		subscriber: EventSubscriber,
+		delivery?: EventDelivery,
 	): Promise<Result<void, EventBusHandlerError>> {
 		try {
-			const result = await this.achievementEvents.handleEvent(event);
+			const result = await this.subscribers[subscriber].handleEvent(event, delivery);
 
 			if (result.isErr()) {
 				const cause = result.error;
 				logger.error("EventBusDO: Handler returned error", {
 					eventId: event.id,
 					eventType: event.type,
-					handler: handlerKey,
+					subscriber,
+					replay: delivery?.replay ?? false,
 					errorTag:
 						cause && typeof cause === "object" && "_tag" in cause ? cause._tag : "UnknownError",
 					errorMessage: cause instanceof Error ? cause.message : String(cause),
@@ -535,7 +686,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				return Result.err(
 					new EventBusHandlerError({
 						eventType: event.type,
-						handlerName: handlerKey,
+						handlerName: subscriber,
 						cause: result.error,
 					}),
 				);
@@ -546,7 +697,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			logger.error("EventBusDO: Handler threw exception", {
 				eventId: event.id,
 				eventType: event.type,
-				handler: handlerKey,
+				subscriber,
 				errorMessage: error instanceof Error ? error.message : String(error),
 				errorStack: error instanceof Error ? error.stack : undefined,
 				error: error && typeof error === "object" ? JSON.stringify(error) : error,
@@ -554,7 +705,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			return Result.err(
 				new EventBusHandlerError({
 					eventType: event.type,
-					handlerName: handlerKey,
+					handlerName: subscriber,
 					cause: error,
 				}),
 			);
@@ -585,7 +736,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const items = await this.db
 					.select()
 					.from(pendingEvents)
-					.orderBy(pendingEvents.nextRetryAt)
+					.orderBy(pendingEvents.nextRetryAt, pendingEvents.subscriber)
 					.limit(limit)
 					.offset(offset);
 
@@ -595,7 +746,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const parsedItems: PendingListResponse["items"] = items.map((item) => {
 					let event: Event | null = null;
 					try {
-						const parseResult = EventSchema.safeParse(JSON.parse(item.event));
+						const parseResult = VersionedEventSchema.safeParse(JSON.parse(item.event));
 						event = parseResult.success ? parseResult.data : null;
 					} catch {
 						// Corrupted JSON - leave event as null
@@ -603,6 +754,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 
 					return {
 						id: item.id,
+						subscriber: item.subscriber,
 						event,
 						attempts: item.attempts,
 						nextRetryAt: item.nextRetryAt,
@@ -634,7 +786,7 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const items = await this.db
 					.select()
 					.from(deadLetterQueue)
-					.orderBy(desc(deadLetterQueue.lastFailedAt))
+					.orderBy(desc(deadLetterQueue.lastFailedAt), deadLetterQueue.subscriber)
 					.limit(limit)
 					.offset(offset);
 
@@ -644,15 +796,17 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 				const parsedItems: DLQListResponse["items"] = items.map((item) => {
 					let event: Event | null = null;
 					try {
-						const parseResult = EventSchema.safeParse(JSON.parse(item.event));
+						const parseResult = VersionedEventSchema.safeParse(JSON.parse(item.event));
 						event = parseResult.success ? parseResult.data : null;
 					} catch {
 						// Corrupted JSON - leave event as null
 					}
 					return {
 						id: item.id,
+						subscriber: item.subscriber,
 						event,
 						error: item.error,
+						errorTag: item.errorTag,
 						attempts: item.attempts,
 						firstFailedAt: item.firstFailedAt,
 						lastFailedAt: item.lastFailedAt,
@@ -674,53 +828,468 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 	@rpc(ReplayDeadLetterEventResultCodec)
 	async replayDLQ(
 		id: string,
+		subscriber?: string,
 	): Promise<
 		Result<ReplayResult, EventBusDbError | DLQItemNotFoundError | EventBusValidationError>
 	> {
+		const subscriberResult = EventSubscriberSchema.optional().safeParse(subscriber);
+		if (!subscriberResult.success) {
+			return Result.err(
+				new EventBusValidationError({ parseError: subscriberResult.error.message }),
+			);
+		}
+
 		const lookupResult = await Result.tryPromise({
-			try: async () => {
-				const [item] = await this.db
+			try: () =>
+				this.db
 					.select()
 					.from(deadLetterQueue)
-					.where(eq(deadLetterQueue.id, id));
-				return item;
-			},
+					.where(deadLetterDelivery(id, subscriberResult.data))
+					.orderBy(deadLetterQueue.subscriber),
 			catch: (cause) => new EventBusDbError({ operation: "replayDLQLookup", cause }),
 		});
 		if (lookupResult.isErr()) {
 			return Result.err(lookupResult.error);
 		}
-		const item = lookupResult.value;
-		if (item === undefined) {
+		const items = lookupResult.value;
+		if (items.length === 0) {
 			return Result.err(new DLQItemNotFoundError({ eventId: id }));
 		}
 
+		const deliveries: ReplayResult["deliveries"] = [];
+		for (const item of items) {
+			const deliveryResult = await this.replayDeadLetter(item);
+			if (deliveryResult.isErr()) {
+				return Result.err(deliveryResult.error);
+			}
+			deliveries.push(deliveryResult.value);
+		}
+
+		const firstFailure = deliveries.find((delivery) => !delivery.success);
+		return Result.ok({
+			success: firstFailure === undefined,
+			eventId: id,
+			...(firstFailure?.error === undefined ? {} : { error: firstFailure.error }),
+			deliveries,
+		});
+	}
+
+	@rpc(DeleteDeadLetterEventResultCodec)
+	async deleteDLQ(
+		id: string,
+		subscriber?: string,
+	): Promise<Result<void, EventBusDbError | DLQItemNotFoundError | EventBusValidationError>> {
+		const subscriberResult = EventSubscriberSchema.optional().safeParse(subscriber);
+		if (!subscriberResult.success) {
+			return Result.err(
+				new EventBusValidationError({ parseError: subscriberResult.error.message }),
+			);
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const deleted = await this.db
+					.delete(deadLetterQueue)
+					.where(deadLetterDelivery(id, subscriberResult.data))
+					.returning({ subscriber: deadLetterQueue.subscriber });
+				if (deleted.length === 0) {
+					throw new DLQItemNotFoundError({ eventId: id });
+				}
+				await this.ensureDlqPurgeSchedule();
+			},
+			catch: (cause) =>
+				DLQItemNotFoundError.is(cause)
+					? cause
+					: new EventBusDbError({ operation: "deleteDLQ", cause }),
+		});
+	}
+
+	@rpc(GetDeadLetterSummaryResultCodec)
+	async getDLQSummary(): Promise<Result<DeadLetterSummary, EventBusDbError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const groups = await this.db
+					.select({
+						errorTag: deadLetterQueue.errorTag,
+						subscriber: deadLetterQueue.subscriber,
+						type: deadLetterQueue.type,
+						count: count(),
+						oldestFailedAt: min(deadLetterQueue.firstFailedAt),
+						newestFailedAt: max(deadLetterQueue.lastFailedAt),
+					})
+					.from(deadLetterQueue)
+					.groupBy(deadLetterQueue.errorTag, deadLetterQueue.subscriber, deadLetterQueue.type);
+
+				const reasons = new Map<string, DeadLetterSummary["reasons"][number]>();
+				for (const group of groups) {
+					const reason = reasons.get(group.errorTag) ?? {
+						errorTag: group.errorTag,
+						count: 0,
+						subscribers: [],
+						eventTypes: [],
+						oldestFailedAt: group.oldestFailedAt ?? "",
+						newestFailedAt: group.newestFailedAt ?? "",
+					};
+					reason.count += group.count;
+					if (!reason.subscribers.includes(group.subscriber)) {
+						reason.subscribers.push(group.subscriber);
+					}
+					if (!reason.eventTypes.includes(group.type)) {
+						reason.eventTypes.push(group.type);
+					}
+					if (group.oldestFailedAt !== null && group.oldestFailedAt < reason.oldestFailedAt) {
+						reason.oldestFailedAt = group.oldestFailedAt;
+					}
+					if (group.newestFailedAt !== null && group.newestFailedAt > reason.newestFailedAt) {
+						reason.newestFailedAt = group.newestFailedAt;
+					}
+					reasons.set(group.errorTag, reason);
+				}
+
+				const sorted = [...reasons.values()].sort(
+					(a, b) => b.count - a.count || a.errorTag.localeCompare(b.errorTag),
+				);
+				return {
+					totalCount: sorted.reduce((total, reason) => total + reason.count, 0),
+					reasons: sorted.map((reason) => ({
+						...reason,
+						subscribers: [...reason.subscribers].sort(),
+						eventTypes: [...reason.eventTypes].sort(),
+					})),
+				};
+			},
+			catch: (cause) => new EventBusDbError({ operation: "getDLQSummary", cause }),
+		});
+	}
+
+	/**
+	 * Re-deliver dead letters matching a filter, least recently failed first,
+	 * up to `limit` per call and until the time budget runs out, whichever
+	 * comes first. Each one is replayed like a single DLQ replay;
+	 * one that fails again is reported and stays dead-lettered with a fresh
+	 * failure time, so repeated calls work through the rest before retrying it.
+	 * Unreadable items are reported on every call until they are deleted.
+	 */
+	@rpc(BulkReplayDeadLetterEventsResultCodec)
+	async bulkReplayDLQ(
+		request: unknown,
+	): Promise<Result<DeadLetterBulkReplayResult, EventBusDbError | EventBusValidationError>> {
+		const requestResult = DeadLetterBulkReplayRequestSchema.safeParse(request);
+		if (!requestResult.success) {
+			return Result.err(new EventBusValidationError({ parseError: requestResult.error.message }));
+		}
+		const { dryRun, limit, ...filter } = requestResult.data;
+
+		const lookupResult = await Result.tryPromise({
+			try: async () => {
+				const [matched] = await this.db
+					.select({ count: count() })
+					.from(deadLetterQueue)
+					.where(matchingDeadLetters(filter));
+				const items = dryRun
+					? []
+					: await this.db
+							.select()
+							.from(deadLetterQueue)
+							.where(matchingDeadLetters(filter))
+							.orderBy(
+								asc(deadLetterQueue.lastFailedAt),
+								asc(deadLetterQueue.id),
+								asc(deadLetterQueue.subscriber),
+							)
+							.limit(limit);
+				return { matched: matched?.count ?? 0, items };
+			},
+			catch: (cause) => new EventBusDbError({ operation: "bulkReplayDLQLookup", cause }),
+		});
+		if (lookupResult.isErr()) {
+			return Result.err(lookupResult.error);
+		}
+		const { matched, items } = lookupResult.value;
+
+		logger.info("EventBusDO: Bulk replaying DLQ", { ...filter, dryRun, matched });
+
+		const startedAt = Date.now();
+		let attempted = 0;
+		let replayed = 0;
+		const failures: DeadLetterBulkReplayResult["failures"] = [];
+		for (const item of items) {
+			if (Date.now() - startedAt >= DLQ_BULK_REPLAY_TIME_BUDGET_MS) {
+				logger.info("EventBusDO: Bulk DLQ replay stopped at its time budget", {
+					attempted,
+					pageSize: items.length,
+				});
+				break;
+			}
+			attempted += 1;
+			const deliveryResult = await this.replayDeadLetter(item);
+			if (deliveryResult.isErr()) {
+				if (EventBusDbError.is(deliveryResult.error)) {
+					return Result.err(deliveryResult.error);
+				}
+				failures.push({
+					eventId: item.id,
+					subscriber: item.subscriber,
+					error: deliveryResult.error.parseError,
+				});
+				continue;
+			}
+			const delivery = deliveryResult.value;
+			if (delivery.success) {
+				replayed += 1;
+				continue;
+			}
+			failures.push({
+				eventId: item.id,
+				subscriber: item.subscriber,
+				error: delivery.error ?? "Delivery failed",
+			});
+		}
+
+		return Result.ok({
+			dryRun,
+			matched,
+			replayed,
+			failures,
+			remaining: matched - attempted,
+		});
+	}
+
+	@rpc(BulkDeleteDeadLetterEventsResultCodec)
+	async bulkDeleteDLQ(
+		request: unknown,
+	): Promise<Result<DeadLetterBulkDeleteResult, EventBusDbError | EventBusValidationError>> {
+		const requestResult = DeadLetterBulkDeleteRequestSchema.safeParse(request);
+		if (!requestResult.success) {
+			return Result.err(new EventBusValidationError({ parseError: requestResult.error.message }));
+		}
+		const { dryRun, all, ...filter } = requestResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				if (dryRun) {
+					const [matched] = await this.db
+						.select({ count: count() })
+						.from(deadLetterQueue)
+						.where(matchingDeadLetters(filter));
+					return { dryRun, matched: matched?.count ?? 0, deleted: 0 };
+				}
+
+				const deleted = await this.db
+					.delete(deadLetterQueue)
+					.where(matchingDeadLetters(filter))
+					.returning({ id: deadLetterQueue.id });
+				logger.info("EventBusDO: Bulk deleted DLQ items", {
+					...filter,
+					all,
+					count: deleted.length,
+				});
+				await this.ensureDlqPurgeSchedule();
+				return { dryRun, matched: deleted.length, deleted: deleted.length };
+			},
+			catch: (cause) => new EventBusDbError({ operation: "bulkDeleteDLQ", cause }),
+		});
+	}
+
+	@rpc(GetEventSubscriberLagResultCodec)
+	async getSubscriberLag(): Promise<Result<EventSubscriberLag[], EventBusDbError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const now = Date.now();
+				const pending = await this.db
+					.select({
+						subscriber: pendingEvents.subscriber,
+						count: count(),
+						oldestPendingAt: min(pendingEvents.createdAt),
+					})
+					.from(pendingEvents)
+					.groupBy(pendingEvents.subscriber);
+				const deadLetters = await this.db
+					.select({ subscriber: deadLetterQueue.subscriber, count: count() })
+					.from(deadLetterQueue)
+					.groupBy(deadLetterQueue.subscriber);
+
+				const lag: EventSubscriberLag[] = [];
+				for (const subscriber of EventSubscriberSchema.options) {
+					const [delivered] = await this.db
+						.select({ lastDeliveredAt: max(deliveredEvents.deliveredAt) })
+						.from(deliveredEvents)
+						.where(eq(deliveredEvents.subscriber, subscriber));
+					const backlog = pending.find((row) => row.subscriber === subscriber);
+					const oldestPendingAt = backlog?.oldestPendingAt ?? null;
+					lag.push({
+						subscriber,
+						eventTypes: eventTypesForSubscriber(subscriber),
+						pendingCount: backlog?.count ?? 0,
+						deadLetterCount: deadLetters.find((row) => row.subscriber === subscriber)?.count ?? 0,
+						oldestPendingAt,
+						lagMs: oldestPendingAt === null ? 0 : Math.max(0, now - Date.parse(oldestPendingAt)),
+						lastDeliveredAt: delivered?.lastDeliveredAt ?? null,
+					});
+				}
+				return lag;
+			},
+			catch: (cause) => new EventBusDbError({ operation: "getSubscriberLag", cause }),
+		});
+	}
+
+	/**
+	 * Re-deliver one page of logged events in a time range to one subscriber,
+	 * oldest first, marked as a replay. Replays bypass receipts, retries, and
+	 * the DLQ: rejected events are reported, and the caller pages on with
+	 * `nextCursor` until it is null.
+	 */
+	@rpc(ReplayEventLogResultCodec)
+	async replayEvents(
+		request: unknown,
+	): Promise<Result<EventLogReplayResult, EventBusDbError | EventBusValidationError>> {
+		const requestResult = EventLogReplayRequestSchema.safeParse(request);
+		if (!requestResult.success) {
+			return Result.err(new EventBusValidationError({ parseError: requestResult.error.message }));
+		}
+		const { subscriber, from, to, after, limit } = requestResult.data;
+		const subscribed = eventTypesForSubscriber(subscriber);
+		const unsubscribed = requestResult.data.types?.filter((type) => !subscribed.includes(type));
+		if (unsubscribed !== undefined && unsubscribed.length > 0) {
+			return Result.err(
+				new EventBusValidationError({
+					parseError: `Subscriber ${subscriber} does not receive: ${unsubscribed.join(", ")}`,
+				}),
+			);
+		}
+
+		const pageResult = await Result.tryPromise({
+			try: () =>
+				this.db
+					.select()
+					.from(eventLog)
+					.where(
+						and(
+							gte(eventLog.occurredAt, from),
+							lt(eventLog.occurredAt, to),
+							inArray(eventLog.type, requestResult.data.types ?? subscribed),
+							after === undefined
+								? undefined
+								: or(
+										gt(eventLog.occurredAt, after.occurredAt),
+										and(eq(eventLog.occurredAt, after.occurredAt), gt(eventLog.id, after.id)),
+									),
+						),
+					)
+					.orderBy(asc(eventLog.occurredAt), asc(eventLog.id))
+					.limit(limit + 1),
+			catch: (cause) => new EventBusDbError({ operation: "replayEventsLookup", cause }),
+		});
+		if (pageResult.isErr()) {
+			return Result.err(pageResult.error);
+		}
+		const entries = pageResult.value.slice(0, limit);
+
+		logger.info("EventBusDO: Replaying Event Log", {
+			subscriber,
+			from,
+			to,
+			count: entries.length,
+		});
+
+		let replayed = 0;
+		const failures: EventLogReplayResult["failures"] = [];
+		for (const entry of entries) {
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(entry.event);
+			} catch {
+				failures.push({
+					eventId: entry.id,
+					eventType: entry.type,
+					error: "Malformed JSON in Event Log entry",
+				});
+				continue;
+			}
+			const eventResult = VersionedEventSchema.safeParse(parsed);
+			if (!eventResult.success) {
+				failures.push({
+					eventId: entry.id,
+					eventType: entry.type,
+					error: eventResult.error.message,
+				});
+				continue;
+			}
+
+			const deliveryResult = await this.deliverEvent(eventResult.data, subscriber, {
+				replay: true,
+			});
+			if (deliveryResult.isErr()) {
+				failures.push({
+					eventId: entry.id,
+					eventType: entry.type,
+					error: deliveryResult.error.message,
+				});
+				continue;
+			}
+			replayed += 1;
+		}
+
+		const last = entries.at(-1);
+		return Result.ok({
+			subscriber,
+			replayed,
+			failures,
+			nextCursor:
+				pageResult.value.length > limit && last !== undefined
+					? { occurredAt: last.occurredAt, id: last.id }
+					: null,
+		});
+	}
+
+	/**
+	 * Re-deliver one dead letter to its subscriber. Success removes it from the
+	 * DLQ; a subscriber failure keeps it with the new error and failure time.
+	 */
+	private async replayDeadLetter(
+		item: DeadLetterEvent,
+	): Promise<
+		Result<ReplayResult["deliveries"][number], EventBusDbError | EventBusValidationError>
+	> {
 		let parsed: unknown;
 		try {
 			parsed = JSON.parse(item.event);
 		} catch {
 			return Result.err(new EventBusValidationError({ parseError: "Malformed JSON in DLQ item" }));
 		}
-		const parseResult = EventSchema.safeParse(parsed);
+		const parseResult = VersionedEventSchema.safeParse(parsed);
 		if (!parseResult.success) {
 			return Result.err(new EventBusValidationError({ parseError: parseResult.error.message }));
 		}
+		const itemSubscriber = EventSubscriberSchema.safeParse(item.subscriber);
+		if (!itemSubscriber.success) {
+			return Result.err(
+				new EventBusValidationError({
+					parseError: `DLQ item targets unregistered subscriber: ${item.subscriber}`,
+				}),
+			);
+		}
 
 		const event = parseResult.data;
-		const deliveryResult = await this.deliverEvent(event, EVENT_ROUTES[event.type]);
+		const deliveryResult = await this.deliverEvent(event, itemSubscriber.data);
 		if (deliveryResult.isOk()) {
-			const receiptResult = await this.recordSuccessfulDelivery(event.id);
-			return receiptResult.isErr()
-				? Result.err(receiptResult.error)
-				: Result.ok({ success: true, eventId: event.id });
+			const receiptResult = await this.recordSuccessfulDelivery(event.id, itemSubscriber.data);
+			if (receiptResult.isErr()) {
+				return Result.err(receiptResult.error);
+			}
+			return Result.ok({ subscriber: item.subscriber, success: true });
 		}
 
 		const updateResult = await Result.tryPromise({
 			try: async () => {
 				await this.db
 					.update(deadLetterQueue)
-					.set({ lastFailedAt: new Date().toISOString(), error: deliveryResult.error.message })
-					.where(eq(deadLetterQueue.id, id));
+					.set({
+						lastFailedAt: new Date().toISOString(),
+						error: deliveryResult.error.message,
+						errorTag: deadLetterErrorTag(deliveryResult.error),
+					})
+					.where(deadLetterDelivery(item.id, item.subscriber));
 				await this.ensureDlqPurgeSchedule();
 			},
 			catch: (cause) => new EventBusDbError({ operation: "replayDLQFailureUpdate", cause }),
@@ -729,33 +1298,12 @@ class _EventBusDO extends Agent<Env, EventBusAgentState> {
 			return Result.err(updateResult.error);
 		}
 		return Result.ok({
+			subscriber: item.subscriber,
 			success: false,
-			eventId: event.id,
 			error: deliveryResult.error.message,
 		});
 	}
 
-	@rpc(DeleteDeadLetterEventResultCodec)
-	async deleteDLQ(id: string): Promise<Result<void, EventBusDbError | DLQItemNotFoundError>> {
-		return Result.tryPromise({
-			try: async () => {
-				const [item] = await this.db
-					.select({ id: deadLetterQueue.id })
-					.from(deadLetterQueue)
-					.where(eq(deadLetterQueue.id, id));
-				if (item === undefined) {
-					throw new DLQItemNotFoundError({ eventId: id });
-				}
-				await this.db.delete(deadLetterQueue).where(eq(deadLetterQueue.id, id));
-				await this.ensureDlqPurgeSchedule();
-			},
-			catch: (cause) =>
-				DLQItemNotFoundError.is(cause)
-					? cause
-					: new EventBusDbError({ operation: "deleteDLQ", cause }),
-		});
-	}
-
 	private async purgeExpiredDLQ(): Promise<void> {
 		const now = new Date().toISOString();
 		const expired = await this.db
@@ -3,24 +3,38 @@ import { DurableObject } from "cloudflare:workers";
 import { z } from "zod";
 
 import { DurableObjectTwitchAccessTokens } from "../adapters/cloudflare/durable-object-access-tokens";
+import { DurableObjectChatActivityThrottle } from "../adapters/cloudflare/durable-object-chat-activity-throttle";
 import { DurableObjectChatCommands } from "../adapters/cloudflare/durable-object-chat-commands";
+import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durable-object-domain-event-publisher";
 import { DurableObjectEventSubWorkStarters } from "../adapters/cloudflare/durable-object-eventsub-work-starters";
 import {
 	DurableObjectAchievementReader,
 	DurableObjectStreamLifecycle,
 } from "../adapters/cloudflare/durable-object-http-state";
 import { DurableObjectRaffleStatistics } from "../adapters/cloudflare/durable-object-raffle-statistics";
+import { DurableObjectRaidHistory } from "../adapters/cloudflare/durable-object-raid-history";
+import { DurableObjectRewardRegistry } from "../adapters/cloudflare/durable-object-reward-registry";
 import { DurableObjectSongQueue } from "../adapters/cloudflare/durable-object-song-queue";
 import {
 	AcceptedEventSubReceiptSchema,
+	ChatActivityClaimError,
+	ChatActivityClaimSchema,
 	EventSubReceiptCorrelationSchema,
 } from "../capabilities/eventsub-receipts";
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
+import { createChatMessageObservedEvent } from "../domain/domain-event";
 import {
-	parseKnownRewardRedemption,
+	renderRewardChatMessage,
+	routeRewardRedemption,
 	type RewardRoutingConfig,
+	type TwitchRedemption,
 } from "../lib/channel-point-redemptions";
+import {
+	CHAT_ACTIVITY_WINDOW_MS,
+	chatActivityWindow,
+	deriveChatMessageObservedEventId,
+} from "../lib/chat-activity";
 import { makeChatCommandExecutor, type ChatCommandEngineDependencies } from "../lib/chat-command";
 import { AnalyticsEngineChatCommandMetrics } from "../lib/chat-command/metrics";
 import { TwitchChatSender } from "../lib/chat-command/sender";
@@ -29,11 +43,12 @@ import { rpc } from "../lib/durable-objects";
 import {
 	EventSubReceiptConflictError,
 	EventSubReceiptCorruptError,
-	UnknownRewardError,
+	TwitchRedemptionUpdateError,
 	type EventSubAcceptanceError,
 } from "../lib/errors";
 import {
 	AcceptEventSubReceiptResultCodec,
+	ClaimChatActivityWindowResultCodec,
 	GetEventSubReceiptStatusResultCodec,
 } from "../lib/eventsub-receipt-rpc-result-codecs";
 import { parseEventSubMessage, type ParsedEventSubMessage } from "../lib/eventsub-webhook-message";
@@ -41,12 +56,21 @@ import { logger, withLogContext } from "../lib/logger";
 import { getUserPermission } from "../lib/permissions";
 import { TwitchService } from "../services/twitch-service";
 
-import type { AcceptedEventSubReceipt } from "../capabilities/eventsub-receipts";
+import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
+import type {
+	AcceptedEventSubReceipt,
+	ChatActivityThrottle,
+} from "../capabilities/eventsub-receipts";
 import type { EventSubWorkStarters } from "../capabilities/eventsub-work-starters";
 import type { StreamLifecycle } from "../capabilities/http-state-readers";
+import type { RewardRouter } from "../capabilities/reward-registry";
+import type { RewardHandler, RewardSagaName } from "../domain/channel-point-reward";
 import type { Env } from "../index";
 
 const EVENTSUB_RECEIPT_STORAGE_KEY = "eventsub-receipt";
+const CHAT_ACTIVITY_STORAGE_PREFIX = "chat-activity:";
+/** Most keys one storage.delete call accepts. */
+const STORAGE_DELETE_BATCH_SIZE = 128;
 const MAX_EVENTSUB_PROCESSING_ATTEMPTS = 20;
 
 const ChatCommandDeliverySchema = z.object({
@@ -104,12 +128,17 @@ class EventSubProcessingError extends TaggedError("EventSubProcessingError")<{
  * Durable EventSub inbox keyed by Twitch message id.
  *
  * Receipt persistence happens before processing, so HTTP acknowledgement never discards a
- * valid notification when downstream work fails. Pending work is retried by alarm.
+ * valid notification when downstream work fails. Pending work is retried by alarm. One
+ * extra instance, named for Chat Activity, holds the windows each Viewer has claimed.
  */
 class _EventSubWebhookDO extends DurableObject<Env> {
+	private readonly chatActivity: ChatActivityThrottle;
 	private readonly chatCommandDependencies: Omit<ChatCommandEngineDependencies, "sendCheckpoint">;
+	private readonly domainEvents: DomainEventPublisher;
 	private readonly rewardRouting: RewardRoutingConfig;
+	private readonly rewardRegistry: RewardRouter;
 	private readonly streamLifecycle: StreamLifecycle;
+	private readonly twitchService: TwitchService;
 	private readonly workStarters: EventSubWorkStarters;
 
 	constructor(ctx: DurableObjectState, env: Env) {
@@ -120,27 +149,31 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 		}
 		const tracer = new LoggingTracer(logger);
 		this.rewardRouting = configuration.value.rewardRouting;
+		this.rewardRegistry = new DurableObjectRewardRegistry(env.REWARD_REGISTRY_DO, tracer);
 		this.streamLifecycle = new DurableObjectStreamLifecycle(env.STREAM_LIFECYCLE_DO, tracer);
+		this.domainEvents = new DurableObjectDomainEventPublisher(env.EVENT_BUS_DO, tracer);
+		this.chatActivity = new DurableObjectChatActivityThrottle(env.EVENTSUB_WEBHOOK_DO, tracer);
 		this.workStarters = new DurableObjectEventSubWorkStarters(
 			env.SONG_REQUEST_SAGA_DO,
 			env.KEYBOARD_RAFFLE_SAGA_DO,
 			env.RAID_SHOUTOUT_SAGA_DO,
 			tracer,
 		);
+		this.twitchService = new TwitchService({
+			configuration: configuration.value.twitch,
+			accessTokens: new DurableObjectTwitchAccessTokens(env.TWITCH_TOKEN_DO, tracer),
+		});
 		const chatCommands = new DurableObjectChatCommands(env.COMMANDS_DO, tracer);
 		this.chatCommandDependencies = {
 			catalog: chatCommands,
 			counters: chatCommands,
-			sender: new TwitchChatSender(
-				new TwitchService({
-					configuration: configuration.value.twitch,
-					accessTokens: new DurableObjectTwitchAccessTokens(env.TWITCH_TOKEN_DO, tracer),
-				}),
-			),
+			sender: new TwitchChatSender(this.twitchService),
 			metrics: new AnalyticsEngineChatCommandMetrics(env.ANALYTICS),
 			achievements: new DurableObjectAchievementReader(env.ACHIEVEMENTS_DO, tracer),
 			raffles: new DurableObjectRaffleStatistics(env.KEYBOARD_RAFFLE_DO, tracer),
+			raids: new DurableObjectRaidHistory(env.STREAM_LIFECYCLE_DO, tracer),
 			songQueue: new DurableObjectSongQueue(env.SONG_QUEUE_DO, tracer),
+			publicBaseUrl: configuration.value.publicBaseUrl,
 			clock: new SystemClock(),
 			logger: logger.child({ module: "chat-command" }),
 		};
@@ -202,8 +235,33 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 		});
 	}
 
-	/** Runtime alarm callback that resumes a previously accepted EventSub receipt. */
+	/**
+	 * Claims one Viewer's Chat Activity window for a command on the Chat Activity instance.
+	 * Only the first claim of a window succeeds, so later messages in it skip publishing.
+	 * Claims are swept by alarm once their window has passed.
+	 */
+	@rpc(ClaimChatActivityWindowResultCodec)
+	async claimChatActivityWindow(input: unknown): Promise<Result<boolean, ChatActivityClaimError>> {
+		const claim = ChatActivityClaimSchema.safeParse(input);
+		if (!claim.success) {
+			return Result.err(new ChatActivityClaimError({ failure: "invalid", cause: claim.error }));
+		}
+		const key = `${CHAT_ACTIVITY_STORAGE_PREFIX}${claim.data.userId}:${claim.data.commandName ?? ""}`;
+		const claimed = await this.ctx.storage.get<number>(key);
+		if (claimed !== undefined && claimed >= claim.data.window) return Result.ok(false);
+		await this.ctx.storage.put(key, claim.data.window);
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + CHAT_ACTIVITY_WINDOW_MS);
+		}
+		return Result.ok(true);
+	}
+
+	/**
+	 * Runtime alarm callback that sweeps passed Chat Activity claims and resumes a
+	 * previously accepted EventSub receipt.
+	 */
 	async alarm(): Promise<void> {
+		await this.sweepChatActivityClaims();
 		const receiptResult = await this.readReceipt();
 		if (receiptResult.status === "error") {
 			logger.error("EventSub durable receipt is corrupt", {
@@ -218,6 +276,20 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 		}
 	}
 
+	/** Deletes Chat Activity claims for passed windows, re-arming the alarm while any remain. */
+	private async sweepChatActivityClaims(): Promise<void> {
+		const claims = await this.ctx.storage.list<number>({ prefix: CHAT_ACTIVITY_STORAGE_PREFIX });
+		if (claims.size === 0) return;
+		const currentWindow = chatActivityWindow(new Date().toISOString());
+		const passed = [...claims].filter(([, window]) => window < currentWindow).map(([key]) => key);
+		for (let start = 0; start < passed.length; start += STORAGE_DELETE_BATCH_SIZE) {
+			await this.ctx.storage.delete(passed.slice(start, start + STORAGE_DELETE_BATCH_SIZE));
+		}
+		if (passed.length < claims.size) {
+			await this.ctx.storage.setAlarm(Date.now() + CHAT_ACTIVITY_WINDOW_MS);
+		}
+	}
+
 	private async readReceipt(): Promise<
 		Result<PersistedEventSubReceipt | null, EventSubReceiptCorruptError>
 	> {
@@ -356,7 +428,7 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 					: Result.err(new EventSubProcessingError("stream.offline", result.error.message));
 			}
 			case "RewardRedemptionNotification":
-				return this.dispatchRewardRedemption(message.event);
+				return this.dispatchRewardRedemption(receipt, message.event);
 			case "RaidNotification": {
 				const result = await this.workStarters.startRaidShoutout({
 					messageId,
@@ -381,9 +453,11 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 						message_id: messageId,
 						command: delivery.commandName,
 					});
+					await this.observeChatMessage(message.event, receivedAt, delivery.commandName);
 					return Result.ok();
 				}
 				if (delivery?.status === "sent" || delivery?.status === "uncertain") {
+					await this.observeChatMessage(message.event, receivedAt, delivery.commandName);
 					return Result.ok();
 				}
 
@@ -413,13 +487,69 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 						permission: getUserPermission(message.event.badges),
 					},
 				});
-				return result.status === "ok"
-					? Result.ok()
-					: Result.err(new EventSubProcessingError("channel.chat.message", result.error.message));
+				if (result.status === "error") {
+					return Result.err(
+						new EventSubProcessingError("channel.chat.message", result.error.message),
+					);
+				}
+				await this.observeChatMessage(
+					message.event,
+					receivedAt,
+					result.value._tag === "ChatCommandCompleted" ? result.value.commandName : null,
+				);
+				return Result.ok();
 			}
 		}
 	}
 
+	/**
+	 * Publishes the Viewer's Chat Activity for Achievements, once per window and
+	 * command. Observation is best effort: a failed claim falls back to publishing
+	 * the window's deterministic event, and a failed publish is logged and never
+	 * retries the chat message.
+	 */
+	private async observeChatMessage(
+		chat: Extract<ParsedEventSubMessage, { _tag: "ChatMessageNotification" }>["event"],
+		receivedAt: string,
+		commandName: string | null,
+	): Promise<void> {
+		if (getUserPermission(chat.badges) === "broadcaster") return;
+
+		const claim = await this.chatActivity.claim({
+			userId: chat.chatter_user_id,
+			commandName,
+			window: chatActivityWindow(receivedAt),
+		});
+		if (claim.status === "ok" && !claim.value) return;
+		if (claim.status === "error") {
+			logger.warn("Failed to claim chat activity window", {
+				event: "chat_activity.claim_failed",
+				message_id: chat.message_id,
+				error_message: claim.error.message,
+			});
+		}
+
+		const event = createChatMessageObservedEvent({
+			id: await deriveChatMessageObservedEventId({
+				userId: chat.chatter_user_id,
+				commandName,
+				receivedAt,
+			}),
+			userId: chat.chatter_user_id,
+			userDisplayName: chat.chatter_user_name,
+			commandName,
+		});
+		const result = await this.domainEvents.publish(event);
+		if (result.status === "error") {
+			logger.warn("Failed to publish chat message observed event", {
+				event: "chat_activity.publish_failed",
+				event_id: event.id,
+				message_id: chat.message_id,
+				error_message: result.error.message,
+			});
+		}
+	}
+
 	private async writeChatCommandDelivery(
 		receipt: PersistedEventSubReceipt,
 		status: "sending" | "sent" | "uncertain",
@@ -443,23 +573,164 @@ class _EventSubWebhookDO extends DurableObject<Env> {
 	}
 
 	private async dispatchRewardRedemption(
+		receipt: PersistedEventSubReceipt,
 		redemption: Extract<ParsedEventSubMessage, { _tag: "RewardRedemptionNotification" }>["event"],
 	): Promise<Result<void, EventSubProcessingError>> {
-		const known = parseKnownRewardRedemption(redemption, this.rewardRouting);
-		if (known.status === "error") {
-			if (UnknownRewardError.is(known.error)) return Result.ok();
+		const binding = await this.rewardRegistry.resolveReward(redemption.reward.id);
+		if (binding.status === "error") {
 			return Result.err(
-				new EventSubProcessingError("reward routing configuration", known.error.message),
+				new EventSubProcessingError("reward registry lookup", binding.error.message),
 			);
 		}
 
-		if (known.value._tag === "SongRequestRedemption") {
-			const result = await this.workStarters.startSongRequest(known.value);
+		const route = routeRewardRedemption(redemption, binding.value, this.rewardRouting);
+		if (route.status === "error") {
+			return Result.err(
+				new EventSubProcessingError("reward routing configuration", route.error.message),
+			);
+		}
+
+		switch (route.value._tag) {
+			case "UnrecognizedReward": {
+				const recorded = await this.rewardRegistry.recordUnrecognizedRedemption(redemption);
+				if (recorded.status === "error") {
+					return Result.err(
+						new EventSubProcessingError("unrecognized reward recording", recorded.error.message),
+					);
+				}
+				logger.info("Recorded redemption of unbound reward", {
+					event: "reward.redemption.unrecognized",
+					redemption_id: redemption.id,
+					reward_id: redemption.reward.id,
+					reward_title: redemption.reward.title,
+				});
+				return Result.ok();
+			}
+			case "DisabledReward":
+				logger.info("Refunding redemption of disabled reward", {
+					event: "reward.redemption.disabled",
+					redemption_id: redemption.id,
+					reward_id: redemption.reward.id,
+				});
+				return this.updateRedemptionStatus(redemption, "CANCELED");
+			case "HandledReward":
+				return this.runRewardHandler(receipt, redemption, route.value.handler);
+		}
+	}
+
+	private async runRewardHandler(
+		receipt: PersistedEventSubReceipt,
+		redemption: TwitchRedemption,
+		handler: RewardHandler,
+	): Promise<Result<void, EventSubProcessingError>> {
+		switch (handler.kind) {
+			case "song_request":
+				return this.startRewardSaga("song-request", redemption);
+			case "keyboard_raffle":
+				return this.startRewardSaga("keyboard-raffle", redemption);
+			case "custom_saga":
+				return this.startRewardSaga(handler.saga, redemption);
+			case "counter_increment": {
+				const result = await this.chatCommandDependencies.counters.incrementCounter(
+					handler.commandName,
+					`reward-redemption:${redemption.id}`,
+				);
+				if (result.status === "error") {
+					return Result.err(
+						new EventSubProcessingError("reward counter increment", result.error.message),
+					);
+				}
+				return this.updateRedemptionStatus(redemption, "FULFILLED");
+			}
+			case "chat_message": {
+				const result = await this.sendRewardChatMessage(receipt, redemption, handler.template);
+				if (result.status === "error") return result;
+				return this.updateRedemptionStatus(redemption, "FULFILLED");
+			}
+		}
+	}
+
+	/**
+	 * Reward chat messages share the chat command send checkpoint, so a retry
+	 * never posts the same redemption message twice.
+	 */
+	private async sendRewardChatMessage(
+		receipt: PersistedEventSubReceipt,
+		redemption: TwitchRedemption,
+		template: string,
+	): Promise<Result<void, EventSubProcessingError>> {
+		const deliveryName = `reward:${redemption.reward.id}`;
+		const delivery = receipt.chatCommandDelivery;
+		if (delivery?.status === "sending") {
+			await this.writeChatCommandDelivery(receipt, "uncertain", deliveryName);
+			return Result.ok();
+		}
+		if (delivery?.status === "sent" || delivery?.status === "uncertain") {
+			return Result.ok();
+		}
+
+		await this.writeChatCommandDelivery(receipt, "sending", deliveryName);
+		const result = await this.chatCommandDependencies.sender.send(
+			renderRewardChatMessage(template, redemption),
+		);
+		if (result.status === "error") {
+			if (!isAmbiguousChatSendFailure(result.error)) {
+				await this.clearChatCommandDelivery(receipt);
+			}
+			return Result.err(new EventSubProcessingError("reward chat message", result.error.message));
+		}
+		await this.writeChatCommandDelivery(receipt, "sent", deliveryName);
+		return Result.ok();
+	}
+
+	/**
+	 * Fulfills or refunds a redemption whose handler has finished. Twitch rejects
+	 * updates to redemptions that are already resolved or belong to a reward
+	 * another client created; those are logged rather than retried, so a receipt
+	 * retried after the update landed still completes.
+	 */
+	private async updateRedemptionStatus(
+		redemption: TwitchRedemption,
+		status: "FULFILLED" | "CANCELED",
+	): Promise<Result<void, EventSubProcessingError>> {
+		const result = await this.twitchService.updateRedemptionStatus(
+			redemption.reward.id,
+			redemption.id,
+			status,
+		);
+		if (result.status === "ok") return Result.ok();
+		if (TwitchRedemptionUpdateError.is(result.error)) {
+			logger.warn("Twitch rejected redemption status update", {
+				event: "reward.redemption.status_rejected",
+				redemption_id: redemption.id,
+				reward_id: redemption.reward.id,
+				status,
+				error_message: result.error.message,
+			});
+			return Result.ok();
+		}
+		return Result.err(
+			new EventSubProcessingError("redemption status update", result.error.message),
+		);
+	}
+
+	private async startRewardSaga(
+		saga: RewardSagaName,
+		redemption: TwitchRedemption,
+	): Promise<Result<void, EventSubProcessingError>> {
+		if (saga === "song-request") {
+			const result = await this.workStarters.startSongRequest({
+				...redemption,
+				_tag: "SongRequestRedemption",
+			});
 			return result.status === "ok"
 				? Result.ok()
 				: Result.err(new EventSubProcessingError("song request saga start", result.error.message));
 		}
-		const result = await this.workStarters.startKeyboardRaffle(known.value);
+		const result = await this.workStarters.startKeyboardRaffle({
+			...redemption,
+			_tag: "KeyboardRaffleRedemption",
+		});
 		return result.status === "ok"
 			? Result.ok()
 			: Result.err(new EventSubProcessingError("keyboard raffle saga start", result.error.message));
@@ -7,13 +7,14 @@
 
 import { Agent, type AgentContext } from "agents";
 import { Result } from "better-result";
-import { desc, eq, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, lt, or, sql, type SQL, type SQLWrapper } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
 import { z } from "zod";
 
 import migrations from "../../drizzle/keyboard-raffle-do/migrations";
 import {
+	KeyboardRaffleRollCursorSchema,
 	KeyboardRaffleRollSchema as RollSchema,
 	RaffleLeaderboardEntrySchema as LeaderboardEntrySchema,
 	RecordKeyboardRaffleRollSchema as RecordRaffleRollInputSchema,
@@ -33,6 +34,7 @@ import {
 	GetClosestKeyboardRaffleRecordResultCodec,
 	GetKeyboardRaffleDisplayNameStatsResultCodec,
 	GetKeyboardRaffleLeaderboardResultCodec,
+	GetKeyboardRaffleRollsAfterResultCodec,
 	GetKeyboardRaffleViewerStatsResultCodec,
 	RecordKeyboardRaffleRollResultCodec,
 } from "../lib/keyboard-raffle-rpc-result-codecs";
@@ -48,11 +50,19 @@ import type { Env } from "../index";
 export const LeaderboardOptionsSchema = z.strictObject({
 	sortBy: z.enum(["rolls", "wins", "closest"]),
 	limit: z.number().int().positive().max(100).optional(),
+	since: z.iso.datetime({ offset: true }).optional(),
+	until: z.iso.datetime({ offset: true }).optional(),
 });
 
 /** Parsed bounded query options for the Raffle Leaderboard. */
 export type LeaderboardOptions = z.infer<typeof LeaderboardOptionsSchema>;
 
+/** Bounded query for persisted Rolls after a chronological cursor. */
+const RollsAfterQuerySchema = z.strictObject({
+	cursor: KeyboardRaffleRollCursorSchema.nullable(),
+	limit: z.number().int().positive().max(100),
+});
+
 /**
  * KeyboardRaffleDO - Agent-based durable object for keyboard raffle management.
  *
@@ -214,8 +224,69 @@ class _KeyboardRaffleDO extends Agent<Env> {
 		return result;
 	}
 
+	/**
+	 * Read persisted Rolls oldest first, resuming after a (rolledAt, id) cursor
+	 *
+	 * Used to replay Roll history in a stable order; a null cursor starts at the first Roll.
+	 */
+	@rpc(GetKeyboardRaffleRollsAfterResultCodec)
+	async getRollsAfter(
+		cursor: unknown,
+		limit: unknown,
+	): Promise<
+		Result<
+			Roll[],
+			KeyboardRaffleInputParseError | KeyboardRaffleDataParseError | KeyboardRaffleDbError
+		>
+	> {
+		const queryResult = RollsAfterQuerySchema.safeParse({ cursor, limit });
+		if (!queryResult.success) {
+			return Result.err(
+				new KeyboardRaffleInputParseError({
+					operation: "getRollsAfter",
+					issues: queryResult.error.message,
+				}),
+			);
+		}
+		const query = queryResult.data;
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db
+					.select()
+					.from(rolls)
+					.where(
+						query.cursor === null
+							? undefined
+							: or(
+									gt(rolls.rolledAt, query.cursor.rolledAt),
+									and(eq(rolls.rolledAt, query.cursor.rolledAt), gt(rolls.id, query.cursor.id)),
+								),
+					)
+					.orderBy(asc(rolls.rolledAt), asc(rolls.id))
+					.limit(query.limit);
+				return rows.map((row) => {
+					const parsed = RollSchema.safeParse(row);
+					if (!parsed.success) {
+						throw new KeyboardRaffleDataParseError({
+							operation: "getRollsAfter",
+							issues: parsed.error.message,
+						});
+					}
+					return parsed.data;
+				});
+			},
+			catch: (cause) =>
+				KeyboardRaffleDataParseError.is(cause)
+					? cause
+					: new KeyboardRaffleDbError({ operation: "getRollsAfter", cause }),
+		});
+	}
+
 	/**
 	 * Get leaderboard entries sorted by specified criteria
+	 *
+	 * With `since` or `until`, stats are aggregated over only the Rolls in
+	 * that half-open window instead of read from the all-time view.
 	 */
 	@rpc(GetKeyboardRaffleLeaderboardResultCodec)
 	async getLeaderboard(
@@ -238,22 +309,14 @@ class _KeyboardRaffleDO extends Agent<Env> {
 		const options = optionsResult.data;
 		const result = await Result.tryPromise({
 			try: async () => {
-				const orderByClause = (() => {
-					switch (options.sortBy) {
-						case "rolls":
-							return desc(raffleLeaderboard.totalRolls);
-						case "wins":
-							return desc(raffleLeaderboard.totalWins);
-						case "closest":
-							return sql`${raffleLeaderboard.closestDistance} asc nulls last`;
-					}
-				})();
-
-				const rows = await this.db
-					.select()
-					.from(raffleLeaderboard)
-					.orderBy(orderByClause)
-					.limit(options.limit ?? 10);
+				const rows =
+					options.since === undefined && options.until === undefined
+						? await this.db
+								.select()
+								.from(raffleLeaderboard)
+								.orderBy(leaderboardOrder(raffleLeaderboard, options.sortBy))
+								.limit(options.limit ?? 10)
+						: await this.readWindowedLeaderboard(options);
 				const parsed = z.array(LeaderboardEntrySchema).safeParse(rows);
 				if (!parsed.success) {
 					throw new KeyboardRaffleDataParseError({
@@ -279,6 +342,70 @@ class _KeyboardRaffleDO extends Agent<Env> {
 		return result;
 	}
 
+	/**
+	 * Aggregate the Raffle Leaderboard over Rolls within [since, until), mirroring
+	 * the raffle_leaderboard view. SQLite takes the bare display name and closest
+	 * Roll columns from the row selected by the group's single max() or min().
+	 */
+	private async readWindowedLeaderboard(options: LeaderboardOptions) {
+		const window = and(
+			options.since === undefined
+				? undefined
+				: gte(rolls.rolledAt, new Date(options.since).toISOString()),
+			options.until === undefined
+				? undefined
+				: lt(rolls.rolledAt, new Date(options.until).toISOString()),
+		);
+		const totals = this.db
+			.select({
+				userId: rolls.userId,
+				displayName: sql<string>`${rolls.displayName}`.as("display_name"),
+				totalRolls: sql<number>`count(*)`.as("total_rolls"),
+				totalWins: sql<number>`cast(sum(${rolls.isWinner}) as integer)`.as("total_wins"),
+				lastRolledAt: sql<string>`max(${rolls.rolledAt})`.as("last_rolled_at"),
+			})
+			.from(rolls)
+			.where(window)
+			.groupBy(rolls.userId)
+			.as("totals");
+		const closest = this.db
+			.select({
+				userId: sql<string>`${rolls.userId}`.as("closest_user_id"),
+				closestDistance: sql<number>`min(${rolls.distance})`.as("closest_distance"),
+				closestRoll: sql<number>`${rolls.roll}`.as("closest_roll"),
+				closestWinningNumber: sql<number>`${rolls.winningNumber}`.as("closest_winning_number"),
+			})
+			.from(rolls)
+			.where(and(window, eq(rolls.isWinner, false)))
+			.groupBy(rolls.userId)
+			.as("closest");
+
+		return this.db
+			.select({
+				userId: totals.userId,
+				displayName: totals.displayName,
+				totalRolls: totals.totalRolls,
+				totalWins: totals.totalWins,
+				closestDistance: closest.closestDistance,
+				closestRoll: closest.closestRoll,
+				closestWinningNumber: closest.closestWinningNumber,
+				lastRolledAt: totals.lastRolledAt,
+			})
+			.from(totals)
+			.leftJoin(closest, eq(totals.userId, closest.userId))
+			.orderBy(
+				leaderboardOrder(
+					{
+						totalRolls: totals.totalRolls,
+						totalWins: totals.totalWins,
+						closestDistance: closest.closestDistance,
+					},
+					options.sortBy,
+				),
+			)
+			.limit(options.limit ?? 10);
+	}
+
 	/**
 	 * Get stats for a user by their Twitch user ID
 	 *
@@ -420,4 +547,19 @@ class _KeyboardRaffleDO extends Agent<Env> {
 	}
 }
 
+/** Order Raffle Leaderboard rows from the view or a windowed aggregate by the requested stat. */
+function leaderboardOrder(
+	columns: Readonly<Record<"totalRolls" | "totalWins" | "closestDistance", SQLWrapper>>,
+	sortBy: LeaderboardOptions["sortBy"],
+): SQL {
+	switch (sortBy) {
+		case "rolls":
+			return desc(columns.totalRolls);
+		case "wins":
+			return desc(columns.totalWins);
+		case "closest":
+			return sql`${columns.closestDistance} asc nulls last`;
+	}
+}
+
 export { _KeyboardRaffleDO as KeyboardRaffleDO };
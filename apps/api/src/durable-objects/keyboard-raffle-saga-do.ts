@@ -4,10 +4,12 @@ import { z } from "zod";
 
 import { DurableObjectTwitchAccessTokens } from "../adapters/cloudflare/durable-object-access-tokens";
 import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durable-object-domain-event-publisher";
+import { DurableObjectOverlayFeed } from "../adapters/cloudflare/durable-object-overlay-feed";
 import { DurableObjectRaffleStatistics } from "../adapters/cloudflare/durable-object-raffle-statistics";
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
 import { createRaffleRollEvent } from "../domain/domain-event";
+import { OverlayEventType } from "../domain/overlay-event";
 import { writeRaffleRollMetric } from "../lib/analytics";
 import { noResultCodec, zodSagaCodec } from "../lib/codecs";
 import {
@@ -30,6 +32,7 @@ import { CryptoRaffleRandom, type RaffleRandom } from "./raffle-random";
 
 import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
 import type { KeyboardRaffleRollStore } from "../capabilities/keyboard-raffle-roll-store";
+import type { OverlayFeedPublisher } from "../capabilities/overlay-feed";
 import type { Env } from "../index";
 
 /** Boundary schema for canonical Keyboard Raffle redemption parameters. */
@@ -133,6 +136,12 @@ const PublishEventStep: SagaStepDefinition<void> = {
 	options: { timeout: 10000, maxRetries: 5, retryAllErrors: true },
 };
 
+const PublishOverlayEventStep: SagaStepDefinition<void> = {
+	name: "publish-overlay-event",
+	resultCodec: noResultCodec,
+	options: { timeout: 10000, maxRetries: 3, retryAllErrors: true },
+};
+
 const SendChatMessageStep: SagaStepDefinition<void> = {
 	name: "send-chat-message",
 	resultCodec: noResultCodec,
@@ -148,6 +157,7 @@ const KEYBOARD_RAFFLE_SAGA: SagaHostDefinition<KeyboardRaffleParams> = {
 class _KeyboardRaffleSagaDO extends SagaHost<KeyboardRaffleParams, KeyboardRaffleSagaError> {
 	private readonly analytics: Cloudflare.Env["ANALYTICS"];
 	private readonly domainEvents: DomainEventPublisher;
+	private readonly overlayFeed: OverlayFeedPublisher;
 	private readonly raffleRolls: KeyboardRaffleRollStore;
 	private readonly twitchService: TwitchService;
 
@@ -164,6 +174,7 @@ class _KeyboardRaffleSagaDO extends SagaHost<KeyboardRaffleParams, KeyboardRaffl
 		}
 		const tracer = new LoggingTracer(logger);
 		this.domainEvents = new DurableObjectDomainEventPublisher(env.EVENT_BUS_DO, tracer);
+		this.overlayFeed = new DurableObjectOverlayFeed(env.OVERLAY_FEED_DO, tracer);
 		this.raffleRolls = new DurableObjectRaffleStatistics(env.KEYBOARD_RAFFLE_DO, tracer);
 		this.twitchService = new TwitchService({
 			configuration: configuration.value.twitch,
@@ -298,6 +309,31 @@ class _KeyboardRaffleSagaDO extends SagaHost<KeyboardRaffleParams, KeyboardRaffl
 			return this.handleStepError(publishResult.error, params, runner);
 		}
 
+		const overlayResult = await runner.executeStep(PublishOverlayEventStep, async () => {
+			const result = await this.overlayFeed.publish({
+				id: await deriveSagaEventId(sagaId),
+				type: OverlayEventType.RaffleResult,
+				occurredAt: params.redeemed_at,
+				userDisplayName: params.user_name,
+				roll: userRoll,
+				winningNumber,
+				distance,
+				isWinner,
+				isNewRecord,
+			});
+			if (result.status === "error") throw result.error;
+			return { result: undefined };
+		});
+		if (overlayResult.status === "error") {
+			if (SagaPersistedDataError.is(overlayResult.error)) {
+				return this.handleStepError(overlayResult.error, params, runner);
+			}
+			logger.warn("Best-effort overlay step did not complete", {
+				sagaId,
+				error: overlayResult.error.message,
+			});
+		}
+
 		const chatResult = await runner.executeStep(SendChatMessageStep, async (signal) => {
 			const twitch = this.twitchService;
 			const message = isWinner
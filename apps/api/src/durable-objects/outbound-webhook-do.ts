@@ -0,0 +1,381 @@
+/**
+ * OutboundWebhookDO - Singleton Event Bus subscriber that posts signed domain
+ * events to admin-registered HTTPS endpoints
+ *
+ * Each endpoint picks the topics it wants and a payload format (plain JSON or
+ * a Discord embed). Posts are signed with HMAC-SHA256 using the endpoint's own
+ * secret. An endpoint that accepts an event is recorded here, so when another
+ * endpoint fails and the Event Bus retries, only the failed endpoints are
+ * posted again.
+ */
+
+import { Agent, type AgentContext } from "agents";
+import { Result } from "better-result";
+import { asc, eq, lt } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import { z } from "zod";
+
+import migrations from "../../drizzle/outbound-webhook-do/migrations";
+import { VersionedEventSchema, type Event } from "../domain/domain-event";
+import { EventDeliverySchema } from "../domain/event-subscriber";
+import {
+	CreateOutboundWebhookInputSchema,
+	OutboundWebhookFormatSchema,
+	OutboundWebhookIdSchema,
+	OutboundWebhookTopicSchema,
+	UpdateOutboundWebhookInputSchema,
+	outboundWebhookTopicFor,
+	type OutboundWebhook,
+	type OutboundWebhookTopic,
+} from "../domain/outbound-webhook";
+import { rpc } from "../lib/durable-objects";
+import {
+	OutboundWebhookDbError,
+	OutboundWebhookDeliveryError,
+	OutboundWebhookNotFoundError,
+	OutboundWebhookValidationError,
+	type OutboundWebhookError,
+} from "../lib/errors";
+import { logger } from "../lib/logger";
+import { buildOutboundWebhookRequest } from "../lib/outbound-webhook-payloads";
+import {
+	CreateOutboundWebhookResultCodec,
+	DeleteOutboundWebhookResultCodec,
+	HandleOutboundWebhookEventResultCodec,
+	ListOutboundWebhooksResultCodec,
+	UpdateOutboundWebhookResultCodec,
+} from "../lib/outbound-webhook-rpc-result-codecs";
+import * as schema from "./schemas/outbound-webhook-do.schema";
+import {
+	outboundWebhookDeliveries,
+	outboundWebhooks,
+	type OutboundWebhookRecord,
+} from "./schemas/outbound-webhook-do.schema";
+
+import type { Env } from "../index";
+
+/** Delivery records older than this are pruned; the Event Bus stops retrying long before. */
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+/** A receiver that has not answered by now is treated as failed and retried by the Event Bus. */
+const POST_TIMEOUT_MS = 10_000;
+
+const StoredTopicsSchema = z.array(OutboundWebhookTopicSchema);
+
+class _OutboundWebhookDO extends Agent<Env> {
+	private db: ReturnType<typeof drizzle<typeof schema>>;
+
+	constructor(ctx: AgentContext, env: Env) {
+		super(ctx, env);
+		this.db = drizzle(this.ctx.storage, { schema });
+	}
+
+	async onStart(): Promise<void> {
+		await this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	/** List every Outbound Webhook by name, without secrets. */
+	@rpc(ListOutboundWebhooksResultCodec)
+	async listWebhooks(): Promise<Result<OutboundWebhook[], OutboundWebhookError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db
+					.select()
+					.from(outboundWebhooks)
+					.orderBy(asc(outboundWebhooks.name), asc(outboundWebhooks.id));
+				return rows.map(toOutboundWebhook);
+			},
+			catch: (cause) => new OutboundWebhookDbError({ operation: "listWebhooks", cause }),
+		});
+	}
+
+	/** Register one endpoint; its id is assigned here. */
+	@rpc(CreateOutboundWebhookResultCodec)
+	async createWebhook(input: unknown): Promise<Result<OutboundWebhook, OutboundWebhookError>> {
+		const inputResult = CreateOutboundWebhookInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new OutboundWebhookValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+		const parsed = inputResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const now = new Date().toISOString();
+				const [row] = await this.db
+					.insert(outboundWebhooks)
+					.values({
+						id: crypto.randomUUID(),
+						name: parsed.name,
+						url: parsed.url,
+						secret: parsed.secret,
+						format: parsed.format,
+						topics: JSON.stringify(parsed.topics),
+						enabled: parsed.enabled,
+						createdAt: now,
+						updatedAt: now,
+					})
+					.returning();
+				if (row === undefined) throw new Error("Outbound webhook insert returned no row");
+				logger.info("OutboundWebhookDO: Created webhook", {
+					webhookId: row.id,
+					format: parsed.format,
+					topics: parsed.topics,
+				});
+				return toOutboundWebhook(row);
+			},
+			catch: (cause) => new OutboundWebhookDbError({ operation: "createWebhook", cause }),
+		});
+	}
+
+	/** Apply a partial edit to one endpoint; a new secret takes effect on the next post. */
+	@rpc(UpdateOutboundWebhookResultCodec)
+	async updateWebhook(
+		webhookId: unknown,
+		patch: unknown,
+	): Promise<Result<OutboundWebhook, OutboundWebhookError>> {
+		const idResult = OutboundWebhookIdSchema.safeParse(webhookId);
+		if (!idResult.success) {
+			return Result.err(new OutboundWebhookValidationError({ parseError: idResult.error.message }));
+		}
+		const patchResult = UpdateOutboundWebhookInputSchema.safeParse(patch);
+		if (!patchResult.success) {
+			return Result.err(
+				new OutboundWebhookValidationError({ parseError: patchResult.error.message }),
+			);
+		}
+		const { topics, ...fields } = patchResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const [row] = await this.db
+					.update(outboundWebhooks)
+					.set({
+						...fields,
+						...(topics === undefined ? {} : { topics: JSON.stringify(topics) }),
+						updatedAt: new Date().toISOString(),
+					})
+					.where(eq(outboundWebhooks.id, idResult.data))
+					.returning();
+				if (row === undefined) {
+					throw new OutboundWebhookNotFoundError({ webhookId: idResult.data });
+				}
+				return toOutboundWebhook(row);
+			},
+			catch: (cause) =>
+				OutboundWebhookNotFoundError.is(cause)
+					? cause
+					: new OutboundWebhookDbError({ operation: "updateWebhook", cause }),
+		});
+	}
+
+	/** Delete one endpoint and its delivery records; false when the id was unknown. */
+	@rpc(DeleteOutboundWebhookResultCodec)
+	async deleteWebhook(webhookId: unknown): Promise<Result<boolean, OutboundWebhookError>> {
+		const idResult = OutboundWebhookIdSchema.safeParse(webhookId);
+		if (!idResult.success) {
+			return Result.err(new OutboundWebhookValidationError({ parseError: idResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const deleted = await this.db.transaction(async (tx) => {
+					await tx
+						.delete(outboundWebhookDeliveries)
+						.where(eq(outboundWebhookDeliveries.webhookId, idResult.data));
+					return tx
+						.delete(outboundWebhooks)
+						.where(eq(outboundWebhooks.id, idResult.data))
+						.returning({ id: outboundWebhooks.id });
+				});
+				if (deleted.length > 0) {
+					logger.info("OutboundWebhookDO: Deleted webhook", { webhookId: idResult.data });
+				}
+				return deleted.length > 0;
+			},
+			catch: (cause) => new OutboundWebhookDbError({ operation: "deleteWebhook", cause }),
+		});
+	}
+
+	/**
+	 * Post one domain event, concurrently, to every enabled endpoint subscribed
+	 * to its topic that has not already accepted it. Any failed endpoint fails the whole
+	 * call, so the Event Bus retries and eventually dead-letters the event.
+	 * Replays are flagged to JSON endpoints and never posted to Discord
+	 * channels, where they would read as live announcements.
+	 */
+	@rpc(HandleOutboundWebhookEventResultCodec)
+	async handleEvent(
+		event: unknown,
+		delivery?: unknown,
+	): Promise<Result<void, OutboundWebhookError>> {
+		const parseResult = VersionedEventSchema.safeParse(event);
+		if (!parseResult.success) {
+			return Result.err(
+				new OutboundWebhookValidationError({ parseError: parseResult.error.message }),
+			);
+		}
+		const deliveryResult = EventDeliverySchema.optional().safeParse(delivery);
+		if (!deliveryResult.success) {
+			return Result.err(
+				new OutboundWebhookValidationError({ parseError: deliveryResult.error.message }),
+			);
+		}
+		const validEvent = parseResult.data;
+		const replay = deliveryResult.data?.replay ?? false;
+		const topic = outboundWebhookTopicFor(validEvent);
+		if (topic === null) {
+			return Result.ok();
+		}
+
+		const targetsResult = await Result.tryPromise({
+			try: () => this.findUndeliveredWebhooks(validEvent.id, topic),
+			catch: (cause) => new OutboundWebhookDbError({ operation: "findUndeliveredWebhooks", cause }),
+		});
+		if (targetsResult.isErr()) {
+			return Result.err(targetsResult.error);
+		}
+
+		const targets = targetsResult.value.filter(
+			(webhook) => !(replay && webhook.format === "discord"),
+		);
+		const posts = await Promise.allSettled(
+			targets.map((webhook) => this.post(webhook, topic, validEvent, replay)),
+		);
+
+		const failures: { webhookId: string; status: number | null }[] = [];
+		for (const [index, webhook] of targets.entries()) {
+			const posted = posts[index];
+			const status = posted?.status === "fulfilled" ? posted.value : null;
+			if (status === null || status < 200 || status >= 300) {
+				failures.push({ webhookId: webhook.id, status });
+				continue;
+			}
+
+			const recordResult = await Result.tryPromise({
+				try: () =>
+					this.db
+						.insert(outboundWebhookDeliveries)
+						.values({
+							eventId: validEvent.id,
+							webhookId: webhook.id,
+							status,
+							deliveredAt: new Date().toISOString(),
+						})
+						.onConflictDoNothing(),
+				catch: (cause) => new OutboundWebhookDbError({ operation: "recordDelivery", cause }),
+			});
+			if (recordResult.isErr()) {
+				return Result.err(recordResult.error);
+			}
+		}
+
+		const pruneResult = await Result.tryPromise({
+			try: () =>
+				this.db
+					.delete(outboundWebhookDeliveries)
+					.where(
+						lt(
+							outboundWebhookDeliveries.deliveredAt,
+							new Date(Date.now() - DELIVERY_RETENTION_MS).toISOString(),
+						),
+					),
+			catch: (cause) => new OutboundWebhookDbError({ operation: "pruneDeliveries", cause }),
+		});
+		if (pruneResult.isErr()) {
+			logger.warn("OutboundWebhookDO: Failed to prune delivery records", {
+				error: pruneResult.error.message,
+			});
+		}
+
+		return failures.length === 0
+			? Result.ok()
+			: Result.err(new OutboundWebhookDeliveryError({ eventId: validEvent.id, failures }));
+	}
+
+	private async findUndeliveredWebhooks(
+		eventId: string,
+		topic: OutboundWebhookTopic,
+	): Promise<OutboundWebhookRecord[]> {
+		const enabled = await this.db
+			.select()
+			.from(outboundWebhooks)
+			.where(eq(outboundWebhooks.enabled, true))
+			.orderBy(asc(outboundWebhooks.createdAt), asc(outboundWebhooks.id));
+		const delivered = await this.db
+			.select({ webhookId: outboundWebhookDeliveries.webhookId })
+			.from(outboundWebhookDeliveries)
+			.where(eq(outboundWebhookDeliveries.eventId, eventId));
+		const deliveredIds = new Set(delivered.map((row) => row.webhookId));
+		return enabled.filter(
+			(webhook) =>
+				!deliveredIds.has(webhook.id) &&
+				StoredTopicsSchema.parse(JSON.parse(webhook.topics)).includes(topic),
+		);
+	}
+
+	/**
+	 * Post one signed event; returns the response status, or null when the
+	 * request could not be built or sent.
+	 */
+	private async post(
+		webhook: OutboundWebhookRecord,
+		topic: OutboundWebhookTopic,
+		event: Event,
+		replay: boolean,
+	): Promise<number | null> {
+		try {
+			const request = await buildOutboundWebhookRequest({
+				format: OutboundWebhookFormatSchema.parse(webhook.format),
+				secret: webhook.secret,
+				topic,
+				event,
+				replay,
+				signedAt: new Date(),
+			});
+			const response = await fetch(webhook.url, {
+				method: "POST",
+				headers: request.headers,
+				body: request.body,
+				signal: AbortSignal.timeout(POST_TIMEOUT_MS),
+			});
+			await response.body?.cancel();
+			if (!response.ok) {
+				logger.warn("OutboundWebhookDO: Endpoint rejected event", {
+					webhookId: webhook.id,
+					eventId: event.id,
+					topic,
+					status: response.status,
+				});
+			}
+			return response.status;
+		} catch (error) {
+			logger.warn("OutboundWebhookDO: Failed to post event", {
+				webhookId: webhook.id,
+				eventId: event.id,
+				topic,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	}
+}
+
+/** Parses a stored endpoint row for administrators; the secret is never read back. */
+function toOutboundWebhook(row: OutboundWebhookRecord): OutboundWebhook {
+	return {
+		id: row.id,
+		name: row.name,
+		url: row.url,
+		format: OutboundWebhookFormatSchema.parse(row.format),
+		topics: StoredTopicsSchema.parse(JSON.parse(row.topics)),
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export { _OutboundWebhookDO as OutboundWebhookDO };
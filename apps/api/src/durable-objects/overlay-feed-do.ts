@@ -0,0 +1,451 @@
+/**
+ * OverlayFeedDO - Singleton fan-out of display events to OBS overlays
+ *
+ * Producers append overlay events over RPC; each is persisted with a cursor and
+ * broadcast to every hibernatable WebSocket connection. Overlays reconnect with
+ * the last cursor they rendered and receive everything after it before live
+ * events resume, so an OBS scene switch never drops an event.
+ *
+ * Achievement unlocks and raffle wins are also queued as alerts. The alerts
+ * overlay takes them one at a time and marks each shown, so bursts play in
+ * sequence and a reloaded browser source does not replay old alerts.
+ *
+ * The singleton also stores the named Overlay Theme presets that overlay pages
+ * select with `?theme=`.
+ */
+
+import { Agent, type AgentContext, type Connection, type ConnectionContext } from "agents";
+import { Result } from "better-result";
+import { and, asc, desc, eq, gt, lt, lte, ne, or, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+
+import migrations from "../../drizzle/overlay-feed-do/migrations";
+import {
+	OverlayAlertSchema,
+	OverlayEventIdSchema,
+	OverlayEventSchema,
+	OverlayFeedConnectQuerySchema,
+	type OverlayAlert,
+	type OverlayFeedCursor,
+	type OverlayFeedFrame,
+} from "../domain/overlay-event";
+import {
+	OverlayThemePresetNameSchema,
+	OverlayThemeSchema,
+	type OverlayThemePreset,
+} from "../domain/overlay-theme";
+import { rpc } from "../lib/durable-objects";
+import {
+	OverlayFeedDbError,
+	OverlayFeedValidationError,
+	type OverlayFeedError,
+} from "../lib/errors";
+import { readHttpQueryParameters } from "../lib/http-query-parameters";
+import { logger } from "../lib/logger";
+import {
+	DeleteOverlayThemePresetResultCodec,
+	GetOverlayThemePresetResultCodec,
+	ListOverlayThemePresetsResultCodec,
+	MarkOverlayAlertShownResultCodec,
+	NextOverlayAlertResultCodec,
+	PublishOverlayEventResultCodec,
+	SaveOverlayThemePresetResultCodec,
+} from "../lib/overlay-feed-rpc-result-codecs";
+import * as schema from "./schemas/overlay-feed-do.schema";
+import {
+	overlayAlerts,
+	overlayEvents,
+	overlayThemePresets,
+	type OverlayThemePresetRecord,
+} from "./schemas/overlay-feed-do.schema";
+
+import type { Env } from "../index";
+
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_RETAINED_EVENTS = 500;
+/** Alerts not shown within this window of their event are dropped rather than played late. */
+const ALERT_MAX_AGE_MS = 10 * 60 * 1000;
+
+class _OverlayFeedDO extends Agent<Env> {
+	private db: ReturnType<typeof drizzle<typeof schema>>;
+
+	constructor(ctx: AgentContext, env: Env) {
+		super(ctx, env);
+		this.db = drizzle(this.ctx.storage, { schema });
+	}
+
+	async onStart(): Promise<void> {
+		await this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	/**
+	 * Append one overlay event and broadcast it to connected overlays
+	 *
+	 * Publishing an event id that is already in the feed returns its original
+	 * cursor without a second broadcast, so producers may retry freely. Events
+	 * that are alerts join the display queue in the same transaction.
+	 */
+	@rpc(PublishOverlayEventResultCodec)
+	async publish(event: unknown): Promise<Result<OverlayFeedCursor, OverlayFeedError>> {
+		const parseResult = OverlayEventSchema.safeParse(event);
+		if (!parseResult.success) {
+			logger.warn("OverlayFeedDO: Invalid overlay event", { error: parseResult.error.message });
+			return Result.err(new OverlayFeedValidationError({ parseError: parseResult.error.message }));
+		}
+		const overlayEvent = parseResult.data;
+		const alert = OverlayAlertSchema.safeParse(overlayEvent);
+
+		const appendResult = await Result.tryPromise({
+			try: async () => {
+				const now = new Date().toISOString();
+				const inserted = await this.db.transaction(async (tx) => {
+					const rows = await tx
+						.insert(overlayEvents)
+						.values({
+							eventId: overlayEvent.id,
+							type: overlayEvent.type,
+							event: JSON.stringify(overlayEvent),
+							createdAt: now,
+						})
+						.onConflictDoNothing({ target: overlayEvents.eventId })
+						.returning({ cursor: overlayEvents.cursor });
+					if (rows[0] !== undefined && alert.success) {
+						await tx
+							.insert(overlayAlerts)
+							.values({
+								alertId: alert.data.id,
+								type: alert.data.type,
+								alert: JSON.stringify(alert.data),
+								createdAt: now,
+								occurredAt: new Date(alert.data.occurredAt).toISOString(),
+							})
+							.onConflictDoNothing();
+					}
+					return rows;
+				});
+				if (inserted[0] !== undefined) return { cursor: inserted[0].cursor, duplicate: false };
+
+				const existing = await this.db.query.overlayEvents.findFirst({
+					columns: { cursor: true },
+					where: eq(overlayEvents.eventId, overlayEvent.id),
+				});
+				if (existing === undefined) throw new Error("Overlay event vanished after conflict");
+				return { cursor: existing.cursor, duplicate: true };
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "publish", cause }),
+		});
+		if (appendResult.isErr()) return Result.err(appendResult.error);
+
+		const { cursor, duplicate } = appendResult.value;
+		if (duplicate) return Result.ok(cursor);
+
+		this.broadcast(JSON.stringify({ kind: "event", cursor, event: overlayEvent }));
+		logger.info("OverlayFeedDO: Published overlay event", {
+			eventId: overlayEvent.id,
+			eventType: overlayEvent.type,
+			cursor,
+		});
+
+		const pruneResult = await this.pruneFeed(cursor);
+		if (pruneResult.isErr()) {
+			logger.warn("OverlayFeedDO: Failed to prune overlay events", {
+				error: pruneResult.error.message,
+			});
+		}
+		return Result.ok(cursor);
+	}
+
+	/**
+	 * Read the alert at the head of the display queue
+	 *
+	 * The head stays put until it is marked shown, so an overlay reloaded
+	 * mid-toast shows it again rather than skipping it. Alerts whose event
+	 * happened longer ago than the display window are expired first, however
+	 * recently they were published.
+	 */
+	@rpc(NextOverlayAlertResultCodec)
+	async nextAlert(): Promise<Result<OverlayAlert | null, OverlayFeedError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const cutoff = new Date(Date.now() - ALERT_MAX_AGE_MS).toISOString();
+				await this.db
+					.update(overlayAlerts)
+					.set({ status: "expired" })
+					.where(
+						and(
+							eq(overlayAlerts.status, "pending"),
+							lt(sql`coalesce(${overlayAlerts.occurredAt}, ${overlayAlerts.createdAt})`, cutoff),
+						),
+					);
+
+				for (;;) {
+					const head = await this.db.query.overlayAlerts.findFirst({
+						where: eq(overlayAlerts.status, "pending"),
+						orderBy: [asc(overlayAlerts.createdAt), asc(overlayAlerts.alertId)],
+					});
+					if (head === undefined) return null;
+
+					const parsed = OverlayAlertSchema.safeParse(JSON.parse(head.alert));
+					if (parsed.success) return parsed.data;
+
+					logger.warn("OverlayFeedDO: Expiring unreadable overlay alert", {
+						alertId: head.alertId,
+						error: parsed.error.message,
+					});
+					await this.db
+						.update(overlayAlerts)
+						.set({ status: "expired" })
+						.where(eq(overlayAlerts.alertId, head.alertId));
+				}
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "nextAlert", cause }),
+		});
+	}
+
+	/**
+	 * Remove an alert from the display queue once an overlay has shown it
+	 *
+	 * Marking an alert that already left the queue is acknowledged; the result
+	 * is false only for an alert id the queue never held.
+	 */
+	@rpc(MarkOverlayAlertShownResultCodec)
+	async markAlertShown(alertId: unknown): Promise<Result<boolean, OverlayFeedError>> {
+		const parseResult = OverlayEventIdSchema.safeParse(alertId);
+		if (!parseResult.success) {
+			return Result.err(new OverlayFeedValidationError({ parseError: parseResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				await this.db
+					.update(overlayAlerts)
+					.set({ status: "shown", shownAt: new Date().toISOString() })
+					.where(
+						and(eq(overlayAlerts.alertId, parseResult.data), eq(overlayAlerts.status, "pending")),
+					);
+				const alert = await this.db.query.overlayAlerts.findFirst({
+					columns: { alertId: true },
+					where: eq(overlayAlerts.alertId, parseResult.data),
+				});
+				return alert !== undefined;
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "markAlertShown", cause }),
+		});
+	}
+
+	/** Read one Overlay Theme preset by name. */
+	@rpc(GetOverlayThemePresetResultCodec)
+	async getThemePreset(
+		name: unknown,
+	): Promise<Result<OverlayThemePreset | null, OverlayFeedError>> {
+		const nameResult = OverlayThemePresetNameSchema.safeParse(name);
+		if (!nameResult.success) {
+			return Result.err(new OverlayFeedValidationError({ parseError: nameResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const row = await this.db.query.overlayThemePresets.findFirst({
+					where: eq(overlayThemePresets.name, nameResult.data),
+				});
+				return row === undefined ? null : toOverlayThemePreset(row);
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "getThemePreset", cause }),
+		});
+	}
+
+	/** List every Overlay Theme preset by name. */
+	@rpc(ListOverlayThemePresetsResultCodec)
+	async listThemePresets(): Promise<Result<OverlayThemePreset[], OverlayFeedError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db
+					.select()
+					.from(overlayThemePresets)
+					.orderBy(asc(overlayThemePresets.name));
+				return rows.map(toOverlayThemePreset);
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "listThemePresets", cause }),
+		});
+	}
+
+	/** Create or replace an Overlay Theme preset, keeping its original creation time. */
+	@rpc(SaveOverlayThemePresetResultCodec)
+	async saveThemePreset(
+		name: unknown,
+		theme: unknown,
+	): Promise<Result<OverlayThemePreset, OverlayFeedError>> {
+		const nameResult = OverlayThemePresetNameSchema.safeParse(name);
+		if (!nameResult.success) {
+			return Result.err(new OverlayFeedValidationError({ parseError: nameResult.error.message }));
+		}
+		const themeResult = OverlayThemeSchema.safeParse(theme);
+		if (!themeResult.success) {
+			return Result.err(new OverlayFeedValidationError({ parseError: themeResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const now = new Date().toISOString();
+				const [row] = await this.db
+					.insert(overlayThemePresets)
+					.values({
+						name: nameResult.data,
+						theme: JSON.stringify(themeResult.data),
+						createdAt: now,
+						updatedAt: now,
+					})
+					.onConflictDoUpdate({
+						target: overlayThemePresets.name,
+						set: { theme: JSON.stringify(themeResult.data), updatedAt: now },
+					})
+					.returning();
+				if (row === undefined) throw new Error("Overlay theme preset upsert returned no row");
+				logger.info("OverlayFeedDO: Saved overlay theme preset", { name: nameResult.data });
+				return toOverlayThemePreset(row);
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "saveThemePreset", cause }),
+		});
+	}
+
+	/** Delete an Overlay Theme preset; overlays selecting it stop loading until it is recreated. */
+	@rpc(DeleteOverlayThemePresetResultCodec)
+	async deleteThemePreset(name: unknown): Promise<Result<boolean, OverlayFeedError>> {
+		const nameResult = OverlayThemePresetNameSchema.safeParse(name);
+		if (!nameResult.success) {
+			return Result.err(new OverlayFeedValidationError({ parseError: nameResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const deleted = await this.db
+					.delete(overlayThemePresets)
+					.where(eq(overlayThemePresets.name, nameResult.data))
+					.returning({ name: overlayThemePresets.name });
+				if (deleted.length > 0) {
+					logger.info("OverlayFeedDO: Deleted overlay theme preset", { name: nameResult.data });
+				}
+				return deleted.length > 0;
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "deleteThemePreset", cause }),
+		});
+	}
+
+	/** Overlays only understand feed frames, so Agent state and identity frames are suppressed. */
+	shouldSendProtocolMessages(_connection: Connection, _ctx: ConnectionContext): boolean {
+		return false;
+	}
+
+	/** Replays events after the requested resume cursor, then marks the overlay live. */
+	async onConnect(connection: Connection, ctx: ConnectionContext): Promise<void> {
+		const query = OverlayFeedConnectQuerySchema.safeParse(readHttpQueryParameters(ctx.request.url));
+		const resumeCursor = query.success ? query.data.cursor : undefined;
+
+		const replayResult = await this.readReplay(resumeCursor);
+		if (replayResult.isErr()) {
+			logger.error("OverlayFeedDO: Failed to replay overlay events", {
+				error: replayResult.error.message,
+			});
+			connection.close(1011, "Overlay feed unavailable");
+			return;
+		}
+
+		for (const frame of replayResult.value) {
+			connection.send(JSON.stringify(frame));
+		}
+	}
+
+	async onRequest(): Promise<Response> {
+		return new Response("Expected WebSocket upgrade", { status: 426 });
+	}
+
+	private async readReplay(
+		resumeCursor: OverlayFeedCursor | undefined,
+	): Promise<Result<OverlayFeedFrame[], OverlayFeedError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const [latest] = await this.db
+					.select({ cursor: overlayEvents.cursor })
+					.from(overlayEvents)
+					.orderBy(desc(overlayEvents.cursor))
+					.limit(1);
+				const latestCursor = latest?.cursor ?? 0;
+				if (resumeCursor === undefined) {
+					return [{ kind: "ready", cursor: latestCursor, truncated: false }];
+				}
+
+				// A cursor from before a storage reset is ahead of the feed; replay all of it.
+				const replayFrom = resumeCursor > latestCursor ? 0 : resumeCursor;
+				const rows = await this.db
+					.select()
+					.from(overlayEvents)
+					.where(gt(overlayEvents.cursor, replayFrom))
+					.orderBy(asc(overlayEvents.cursor));
+				const frames: OverlayFeedFrame[] = [];
+				for (const row of rows) {
+					const parsed = OverlayEventSchema.safeParse(JSON.parse(row.event));
+					if (!parsed.success) {
+						logger.warn("OverlayFeedDO: Skipping unreadable overlay event", {
+							cursor: row.cursor,
+							error: parsed.error.message,
+						});
+						continue;
+					}
+					frames.push({ kind: "event", cursor: row.cursor, event: parsed.data });
+				}
+				const oldestCursor = rows[0]?.cursor ?? latestCursor + 1;
+				frames.push({
+					kind: "ready",
+					cursor: latestCursor,
+					truncated: resumeCursor > latestCursor || oldestCursor > replayFrom + 1,
+				});
+				return frames;
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "readReplay", cause }),
+		});
+	}
+
+	/**
+	 * Drops events past retention while always keeping the newest, which anchors
+	 * the cursor, along with alerts that left the queue before the same cutoff.
+	 */
+	private async pruneFeed(
+		latestCursor: OverlayFeedCursor,
+	): Promise<Result<void, OverlayFeedError>> {
+		const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+		return Result.tryPromise({
+			try: async () => {
+				await this.db
+					.delete(overlayEvents)
+					.where(
+						and(
+							ne(overlayEvents.cursor, latestCursor),
+							or(
+								lt(overlayEvents.createdAt, cutoff),
+								lte(overlayEvents.cursor, latestCursor - MAX_RETAINED_EVENTS),
+							),
+						),
+					);
+				await this.db
+					.delete(overlayAlerts)
+					.where(and(ne(overlayAlerts.status, "pending"), lt(overlayAlerts.createdAt, cutoff)));
+			},
+			catch: (cause) => new OverlayFeedDbError({ operation: "pruneFeed", cause }),
+		});
+	}
+}
+
+/** Parses a stored preset row; stored themes were validated on write. */
+function toOverlayThemePreset(row: OverlayThemePresetRecord): OverlayThemePreset {
+	return {
+		name: row.name,
+		theme: OverlayThemeSchema.parse(JSON.parse(row.theme)),
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export { _OverlayFeedDO as OverlayFeedDO };
@@ -2,15 +2,25 @@ import { Result } from "better-result";
 import { z } from "zod";
 
 import { DurableObjectTwitchAccessTokens } from "../adapters/cloudflare/durable-object-access-tokens";
+import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durable-object-domain-event-publisher";
+import { DurableObjectRaidHistory } from "../adapters/cloudflare/durable-object-raid-history";
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
+import { createRaidReceivedEvent } from "../domain/domain-event";
 import { noResultCodec, zodSagaCodec } from "../lib/codecs";
 import { SagaEffectOutcomeUnknown, SagaStepRetrying } from "../lib/errors";
 import { logger } from "../lib/logger";
+import { deriveSagaEventId } from "../lib/saga-event-id";
 import { SagaHost, type SagaHostDefinition } from "../lib/saga-host";
-import { SagaRunner, type SagaStepExecutionError } from "../lib/saga-runner";
+import {
+	SagaRunner,
+	type SagaStepDefinition,
+	type SagaStepExecutionError,
+} from "../lib/saga-runner";
 import { TwitchService } from "../services/twitch-service";
 
+import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
+import type { RaidRecorder } from "../capabilities/raid-history";
 import type { Env } from "../index";
 import type { AgentContext } from "agents";
 
@@ -38,13 +48,36 @@ export const RaidShoutoutParamsCodec = zodSagaCodec({
 	}),
 });
 
+const RecordedRaidResultSchema = z.object({ isNewRecord: z.boolean() });
+
+const RecordRaidStep: SagaStepDefinition<z.infer<typeof RecordedRaidResultSchema>> = {
+	name: "record-raid",
+	resultCodec: zodSagaCodec({
+		name: "raid-shoutout-recorded-raid-result",
+		codec: z.codec(RecordedRaidResultSchema, RecordedRaidResultSchema, {
+			decode: (value) => value,
+			encode: (value) => value,
+		}),
+	}),
+	// Recording is idempotent by raid id, so every failure is safe to retry.
+	options: { timeout: 10000, maxRetries: 3, retryAllErrors: true },
+};
+
+const PublishRaidEventStep: SagaStepDefinition<void> = {
+	name: "publish-raid-event",
+	resultCodec: noResultCodec,
+	options: { timeout: 10000, maxRetries: 5, retryAllErrors: true },
+};
+
 const RAID_SHOUTOUT_SAGA: SagaHostDefinition<RaidShoutoutParams> = {
 	sagaType: "raid-shoutout-saga",
 	paramsCodec: RaidShoutoutParamsCodec,
 };
 
-/** Raid thank-you and native shoutout orchestration hosted by the shared saga lifecycle. */
+/** Raid history, thank-you, and native shoutout orchestration hosted by the shared saga lifecycle. */
 class _RaidShoutoutSagaDO extends SagaHost<RaidShoutoutParams, SagaStepExecutionError> {
+	private readonly domainEvents: DomainEventPublisher;
+	private readonly raids: RaidRecorder;
 	private readonly twitchService: TwitchService;
 
 	constructor(ctx: AgentContext, env: Env) {
@@ -53,12 +86,12 @@ class _RaidShoutoutSagaDO extends SagaHost<RaidShoutoutParams, SagaStepExecution
 		if (configuration.status === "error") {
 			throw new Error("Raid Shoutout saga configuration is invalid");
 		}
+		const tracer = new LoggingTracer(logger);
+		this.domainEvents = new DurableObjectDomainEventPublisher(env.EVENT_BUS_DO, tracer);
+		this.raids = new DurableObjectRaidHistory(env.STREAM_LIFECYCLE_DO, tracer);
 		this.twitchService = new TwitchService({
 			configuration: configuration.value.twitch,
-			accessTokens: new DurableObjectTwitchAccessTokens(
-				env.TWITCH_TOKEN_DO,
-				new LoggingTracer(logger),
-			),
+			accessTokens: new DurableObjectTwitchAccessTokens(env.TWITCH_TOKEN_DO, tracer),
 		});
 	}
 
@@ -71,6 +104,48 @@ class _RaidShoutoutSagaDO extends SagaHost<RaidShoutoutParams, SagaStepExecution
 		runner: SagaRunner<RaidShoutoutParams>,
 	): Promise<Result<void, SagaStepExecutionError>> {
 		const twitch = this.twitchService;
+		const sagaId = this.ctx.id.toString();
+
+		const recordResult = await runner.executeStep(RecordRaidStep, async () => {
+			const result = await this.raids.recordRaid({
+				id: params.messageId,
+				raiderUserId: params.raider.userId,
+				raiderLogin: params.raider.login,
+				raiderDisplayName: params.raider.displayName,
+				viewers: params.viewers,
+				raidedAt: params.receivedAt,
+			});
+			if (result.status === "error") throw result.error;
+			return { result: { isNewRecord: result.value.isNewRecord } };
+		});
+		if (recordResult.status === "error") {
+			return this.finishRaidStepError(recordResult.error, runner);
+		}
+
+		const publishResult = await runner.executeStep(PublishRaidEventStep, async () => {
+			const event = {
+				...createRaidReceivedEvent({
+					id: await deriveSagaEventId(sagaId),
+					userId: params.raider.userId,
+					userDisplayName: params.raider.displayName,
+					sagaId,
+					viewers: params.viewers,
+					isNewRecord: recordResult.value.isNewRecord,
+				}),
+				timestamp: params.receivedAt,
+			};
+			const result = await this.domainEvents.publish(event);
+			if (result.status === "error") throw result.error;
+			logger.info("Published raid_received event", {
+				sagaId,
+				eventId: event.id,
+				raiderUserId: params.raider.userId,
+			});
+			return { result: undefined };
+		});
+		if (publishResult.status === "error") {
+			return this.finishRaidStepError(publishResult.error, runner);
+		}
 
 		const chatResult = await runner.executeStep(
 			{
@@ -0,0 +1,286 @@
+/**
+ * RewardRegistryDO - Singleton registry of Channel Point Reward Bindings
+ *
+ * Maps Twitch custom reward ids to the Reward Handler the EventSub inbox runs
+ * when a viewer redeems them. Admins edit bindings at runtime, so wiring a new
+ * reward needs no deploy.
+ *
+ * Redemptions of rewards with no binding are recorded here rather than
+ * rejected, and are listed per reward until the reward is bound.
+ */
+
+import { Agent, type AgentContext } from "agents";
+import { Result } from "better-result";
+import { asc, count, desc, eq, lt, max } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import { z } from "zod";
+
+import migrations from "../../drizzle/reward-registry-do/migrations";
+import {
+	ChannelPointRewardIdSchema,
+	RewardHandlerSchema,
+	SaveRewardBindingInputSchema,
+	type RewardBinding,
+	type UnrecognizedReward,
+} from "../domain/channel-point-reward";
+import { rpc } from "../lib/durable-objects";
+import {
+	RewardRegistryDbError,
+	RewardRegistryValidationError,
+	type RewardRegistryError,
+} from "../lib/errors";
+import { logger } from "../lib/logger";
+import {
+	DeleteRewardBindingResultCodec,
+	ListRewardBindingsResultCodec,
+	ListUnrecognizedRewardsResultCodec,
+	RecordUnrecognizedRedemptionResultCodec,
+	ResolveRewardResultCodec,
+	SaveRewardBindingResultCodec,
+} from "../lib/reward-registry-rpc-result-codecs";
+import * as schema from "./schemas/reward-registry-do.schema";
+import {
+	rewardBindings,
+	unrecognizedRedemptions,
+	type RewardBindingRecord,
+} from "./schemas/reward-registry-do.schema";
+
+import type { Env } from "../index";
+
+/** Unrecognized redemptions older than this are pruned as new ones arrive. */
+const UNRECOGNIZED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** The fields of a Twitch redemption kept for an unbound reward. */
+const UnrecognizedRedemptionInputSchema = z.object({
+	id: z.string().min(1),
+	user_id: z.string().min(1),
+	user_name: z.string(),
+	user_input: z.string(),
+	reward: z.object({ id: ChannelPointRewardIdSchema, title: z.string() }),
+	redeemed_at: z.iso.datetime({ offset: true }),
+});
+
+class _RewardRegistryDO extends Agent<Env> {
+	private db: ReturnType<typeof drizzle<typeof schema>>;
+
+	constructor(ctx: AgentContext, env: Env) {
+		super(ctx, env);
+		this.db = drizzle(this.ctx.storage, { schema });
+	}
+
+	async onStart(): Promise<void> {
+		await this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	/** Read the Reward Binding for one reward id, or null when the reward is unbound. */
+	@rpc(ResolveRewardResultCodec)
+	async resolveReward(
+		rewardId: unknown,
+	): Promise<Result<RewardBinding | null, RewardRegistryError>> {
+		const idResult = ChannelPointRewardIdSchema.safeParse(rewardId);
+		if (!idResult.success) {
+			return Result.err(new RewardRegistryValidationError({ parseError: idResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const row = await this.db.query.rewardBindings.findFirst({
+					where: eq(rewardBindings.rewardId, idResult.data),
+				});
+				return row === undefined ? null : toRewardBinding(row);
+			},
+			catch: (cause) => new RewardRegistryDbError({ operation: "resolveReward", cause }),
+		});
+	}
+
+	/** List every Reward Binding by reward id. */
+	@rpc(ListRewardBindingsResultCodec)
+	async listRewards(): Promise<Result<RewardBinding[], RewardRegistryError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const rows = await this.db
+					.select()
+					.from(rewardBindings)
+					.orderBy(asc(rewardBindings.rewardId));
+				return rows.map(toRewardBinding);
+			},
+			catch: (cause) => new RewardRegistryDbError({ operation: "listRewards", cause }),
+		});
+	}
+
+	/**
+	 * Create or replace the Reward Binding for a reward id, keeping its original
+	 * creation time. Recorded redemptions of the reward are cleared, since it is
+	 * no longer unrecognized.
+	 */
+	@rpc(SaveRewardBindingResultCodec)
+	async saveReward(
+		rewardId: unknown,
+		input: unknown,
+	): Promise<Result<RewardBinding, RewardRegistryError>> {
+		const idResult = ChannelPointRewardIdSchema.safeParse(rewardId);
+		if (!idResult.success) {
+			return Result.err(new RewardRegistryValidationError({ parseError: idResult.error.message }));
+		}
+		const inputResult = SaveRewardBindingInputSchema.safeParse(input);
+		if (!inputResult.success) {
+			return Result.err(
+				new RewardRegistryValidationError({ parseError: inputResult.error.message }),
+			);
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const now = new Date().toISOString();
+				const handler = JSON.stringify(inputResult.data.handler);
+				const row = await this.db.transaction(async (tx) => {
+					const [saved] = await tx
+						.insert(rewardBindings)
+						.values({
+							rewardId: idResult.data,
+							handler,
+							enabled: inputResult.data.enabled,
+							createdAt: now,
+							updatedAt: now,
+						})
+						.onConflictDoUpdate({
+							target: rewardBindings.rewardId,
+							set: { handler, enabled: inputResult.data.enabled, updatedAt: now },
+						})
+						.returning();
+					await tx
+						.delete(unrecognizedRedemptions)
+						.where(eq(unrecognizedRedemptions.rewardId, idResult.data));
+					return saved;
+				});
+				if (row === undefined) throw new Error("Reward binding upsert returned no row");
+				logger.info("RewardRegistryDO: Saved reward binding", {
+					rewardId: idResult.data,
+					handlerKind: inputResult.data.handler.kind,
+					enabled: inputResult.data.enabled,
+				});
+				return toRewardBinding(row);
+			},
+			catch: (cause) => new RewardRegistryDbError({ operation: "saveReward", cause }),
+		});
+	}
+
+	/** Delete the Reward Binding for a reward id; later redemptions are unrecognized again. */
+	@rpc(DeleteRewardBindingResultCodec)
+	async deleteReward(rewardId: unknown): Promise<Result<boolean, RewardRegistryError>> {
+		const idResult = ChannelPointRewardIdSchema.safeParse(rewardId);
+		if (!idResult.success) {
+			return Result.err(new RewardRegistryValidationError({ parseError: idResult.error.message }));
+		}
+
+		return Result.tryPromise({
+			try: async () => {
+				const deleted = await this.db
+					.delete(rewardBindings)
+					.where(eq(rewardBindings.rewardId, idResult.data))
+					.returning({ rewardId: rewardBindings.rewardId });
+				if (deleted.length > 0) {
+					logger.info("RewardRegistryDO: Deleted reward binding", { rewardId: idResult.data });
+				}
+				return deleted.length > 0;
+			},
+			catch: (cause) => new RewardRegistryDbError({ operation: "deleteReward", cause }),
+		});
+	}
+
+	/** Record a redemption of an unbound reward; recording the same redemption twice is a no-op. */
+	@rpc(RecordUnrecognizedRedemptionResultCodec)
+	async recordUnrecognizedRedemption(
+		redemption: unknown,
+	): Promise<Result<void, RewardRegistryError>> {
+		const parseResult = UnrecognizedRedemptionInputSchema.safeParse(redemption);
+		if (!parseResult.success) {
+			return Result.err(
+				new RewardRegistryValidationError({ parseError: parseResult.error.message }),
+			);
+		}
+		const parsed = parseResult.data;
+
+		return Result.tryPromise({
+			try: async () => {
+				const now = new Date();
+				await this.db
+					.insert(unrecognizedRedemptions)
+					.values({
+						redemptionId: parsed.id,
+						rewardId: parsed.reward.id,
+						rewardTitle: parsed.reward.title,
+						userId: parsed.user_id,
+						userDisplayName: parsed.user_name,
+						userInput: parsed.user_input,
+						redeemedAt: parsed.redeemed_at,
+						recordedAt: now.toISOString(),
+					})
+					.onConflictDoNothing({ target: unrecognizedRedemptions.redemptionId });
+				await this.db
+					.delete(unrecognizedRedemptions)
+					.where(
+						lt(
+							unrecognizedRedemptions.recordedAt,
+							new Date(now.getTime() - UNRECOGNIZED_RETENTION_MS).toISOString(),
+						),
+					);
+			},
+			catch: (cause) =>
+				new RewardRegistryDbError({ operation: "recordUnrecognizedRedemption", cause }),
+		});
+	}
+
+	/** List unbound rewards that have been redeemed, most recently redeemed first. */
+	@rpc(ListUnrecognizedRewardsResultCodec)
+	async listUnrecognizedRewards(): Promise<Result<UnrecognizedReward[], RewardRegistryError>> {
+		return Result.tryPromise({
+			try: async () => {
+				const lastRedeemedAt = max(unrecognizedRedemptions.redeemedAt);
+				const groups = await this.db
+					.select({
+						rewardId: unrecognizedRedemptions.rewardId,
+						redemptions: count(),
+						lastRedeemedAt,
+					})
+					.from(unrecognizedRedemptions)
+					.groupBy(unrecognizedRedemptions.rewardId)
+					.orderBy(desc(lastRedeemedAt));
+
+				const rewards: UnrecognizedReward[] = [];
+				for (const group of groups) {
+					if (group.lastRedeemedAt === null) continue;
+					const latest = await this.db.query.unrecognizedRedemptions.findFirst({
+						columns: { rewardTitle: true },
+						where: eq(unrecognizedRedemptions.rewardId, group.rewardId),
+						orderBy: desc(unrecognizedRedemptions.redeemedAt),
+					});
+					rewards.push({
+						rewardId: group.rewardId,
+						rewardTitle: latest?.rewardTitle ?? "",
+						redemptions: group.redemptions,
+						lastRedeemedAt: group.lastRedeemedAt,
+					});
+				}
+				return rewards;
+			},
+			catch: (cause) => new RewardRegistryDbError({ operation: "listUnrecognizedRewards", cause }),
+		});
+	}
+}
+
+/** Parses a stored binding row; stored handlers were validated on write. */
+function toRewardBinding(row: RewardBindingRecord): RewardBinding {
+	return {
+		rewardId: row.rewardId,
+		handler: RewardHandlerSchema.parse(JSON.parse(row.handler)),
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export { _RewardRegistryDO as RewardRegistryDO };
@@ -2,11 +2,19 @@
  * AchievementsDO schema - tracks user achievements and unlock progress
  */
 
-import { index, integer, sqliteTable, text, unique, uniqueIndex } from "drizzle-orm/sqlite-core";
+import {
+	index,
+	integer,
+	primaryKey,
+	sqliteTable,
+	text,
+	unique,
+	uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 
 /**
- * Achievement definitions - static achievement metadata
- * Seeded on DO initialization, updated via migrations
+ * Achievement definitions - achievement metadata
+ * Seeded by the initial migration, then managed at runtime by administrators
  */
 export const achievementDefinitions = sqliteTable("achievement_definitions", {
 	id: text("id").primaryKey(),
@@ -16,7 +24,11 @@ export const achievementDefinitions = sqliteTable("achievement_definitions", {
 	category: text("category").notNull(), // 'song_request' | 'raffle' | 'engagement' | 'special'
 	threshold: integer("threshold"), // NULL for event-based achievements
 	triggerEvent: text("trigger_event").notNull(), // event type that increments progress
-	scope: text("scope").notNull().default("cumulative"), // 'session' | 'cumulative'
+	scope: text("scope").notNull().default("cumulative"), // 'session' | 'season' | 'cumulative'
+	status: text("status").notNull().default("active"), // 'active' | 'disabled' | 'retired'
+	rule: text("rule"), // JSON Achievement Rule Expression for 'rule' achievements
+	tiers: text("tiers"), // JSON thresholds of the tiers above the first; NULL when untiered
+	repeatable: integer("repeatable", { mode: "boolean" }).notNull().default(false),
 });
 
 export type AchievementDefinition = typeof achievementDefinitions.$inferSelect;
@@ -26,7 +38,10 @@ export type InsertAchievementDefinition = typeof achievementDefinitions.$inferIn
  * User achievement progress and unlock status
  * - Progress incremented on matching events
  * - unlockedAt populated when threshold reached (or first event for event-based)
- * - announcement_state records the honest pending/sent chat lifecycle projection
+ * - level: tier reached, or times unlocked for repeatable achievements; 0 while locked
+ * - announcement_state records the honest pending/sent chat lifecycle projection;
+ *   unlocks recorded by an Achievement Backfill are 'suppressed' and never announced
+ * - revoked_at: last moderator revocation; events up to then never count toward it again
  */
 export const userAchievements = sqliteTable(
 	"user_achievements",
@@ -37,8 +52,10 @@ export const userAchievements = sqliteTable(
 		achievementId: text("achievement_id").notNull(),
 		progress: integer("progress").notNull().default(0),
 		unlockedAt: text("unlocked_at"),
+		level: integer("level").notNull().default(0),
 		announcementState: text("announcement_state").notNull().default("pending"),
 		eventId: text("event_id"),
+		revokedAt: text("revoked_at"), // ISO8601
 	},
 	(table) => [
 		unique("user_achievement_viewer_unique").on(table.userId, table.achievementId),
@@ -93,6 +110,22 @@ export const eventHistory = sqliteTable(
 export type EventHistory = typeof eventHistory.$inferSelect;
 export type InsertEventHistory = typeof eventHistory.$inferInsert;
 
+/**
+ * Achievement event credits - which Achievements each event has already
+ * counted toward, so an Achievement Backfill or replay can count an event for
+ * a definition created after it without counting it twice for the rest
+ */
+export const achievementEventCredits = sqliteTable(
+	"achievement_event_credits",
+	{
+		eventId: text("event_id").notNull(),
+		achievementId: text("achievement_id").notNull(),
+		userId: text("user_id").notNull(),
+		creditedAt: text("credited_at").notNull(), // ISO8601
+	},
+	(table) => [primaryKey({ columns: [table.eventId, table.achievementId] })],
+);
+
 /** Persisted ordering watermark for Achievement Stream Session transitions. */
 export const achievementStreamSession = sqliteTable("achievement_stream_session", {
 	singletonId: integer("singleton_id").primaryKey().default(1),
@@ -102,7 +135,7 @@ export const achievementStreamSession = sqliteTable("achievement_stream_session"
 	transitionAt: text("transition_at").notNull(),
 });
 
-/** Transactional outbox for analytics and chat effects created by an Achievement unlock. */
+/** Transactional outbox for analytics, overlay, chat, and domain event effects created by an Achievement unlock. */
 export const achievementUnlockOutbox = sqliteTable(
 	"achievement_unlock_outbox",
 	{
@@ -113,10 +146,16 @@ export const achievementUnlockOutbox = sqliteTable(
 		achievementId: text("achievement_id").notNull(),
 		achievementName: text("achievement_name").notNull(),
 		achievementDescription: text("achievement_description").notNull(),
+		achievementIcon: text("achievement_icon").notNull().default("1f3c6"),
 		category: text("category").notNull(),
+		level: integer("level").notNull().default(1),
+		levelLabel: text("level_label"), // tier name or repeat count; NULL for single-level achievements
 		metricState: text("metric_state").notNull().default("pending"),
 		announcementState: text("announcement_state").notNull().default("pending"),
 		announcementAttempts: integer("announcement_attempts").notNull().default(0),
+		overlayState: text("overlay_state").notNull().default("pending"),
+		domainEventState: text("domain_event_state").notNull().default("pending"),
+		domainEventAttempts: integer("domain_event_attempts").notNull().default(0),
 		createdAt: text("created_at").notNull(),
 		updatedAt: text("updated_at").notNull(),
 	},
@@ -124,3 +163,136 @@ export const achievementUnlockOutbox = sqliteTable(
 		index("idx_achievement_unlock_outbox_pending").on(table.announcementState, table.metricState),
 	],
 );
+
+/** Persisted Achievement unlock awaiting metric, overlay, chat, and domain event delivery. */
+export type AchievementUnlockOutboxEffect = typeof achievementUnlockOutbox.$inferSelect;
+
+/**
+ * Achievement Backfill runs - progress of replaying Song Request and Raffle Roll
+ * history through the Achievement rules
+ * - *_cursor: JSON position of the last history item collected; NULL before the first page
+ * - changes: JSON progress diff, recorded by dry runs only
+ */
+export const achievementBackfillRuns = sqliteTable("achievement_backfill_runs", {
+	id: text("id").primaryKey(),
+	mode: text("mode").notNull(), // 'apply' | 'dry_run'
+	status: text("status").notNull(), // 'collecting' | 'applying' | 'completed' | 'failed'
+	songRequestCursor: text("song_request_cursor"),
+	songRequestsCollected: integer("song_requests_collected", { mode: "boolean" })
+		.notNull()
+		.default(false),
+	raffleRollCursor: text("raffle_roll_cursor"),
+	raffleRollsCollected: integer("raffle_rolls_collected", { mode: "boolean" })
+		.notNull()
+		.default(false),
+	collectedEvents: integer("collected_events").notNull().default(0),
+	processedEvents: integer("processed_events").notNull().default(0),
+	replayedEvents: integer("replayed_events").notNull().default(0),
+	unlockedAchievements: integer("unlocked_achievements").notNull().default(0),
+	changes: text("changes"),
+	error: text("error"),
+	startedAt: text("started_at").notNull(),
+	updatedAt: text("updated_at").notNull(),
+	completedAt: text("completed_at"),
+});
+
+export type AchievementBackfillRunRecord = typeof achievementBackfillRuns.$inferSelect;
+
+/** History collected for an Achievement Backfill run, awaiting replay in timestamp order. */
+export const achievementBackfillEvents = sqliteTable(
+	"achievement_backfill_events",
+	{
+		runId: text("run_id").notNull(),
+		eventId: text("event_id").notNull(),
+		timestamp: text("timestamp").notNull(), // ISO8601
+		event: text("event").notNull(), // JSON domain event
+	},
+	(table) => [
+		primaryKey({ columns: [table.runId, table.eventId] }),
+		index("idx_achievement_backfill_events_order").on(table.runId, table.timestamp, table.eventId),
+	],
+);
+
+/**
+ * Seasons - named date ranges over which season-scoped Achievements and
+ * standings accumulate
+ * - archived_at: set at rollover, once standings are archived
+ * - reset_season_progress: whether rollover resets season-scoped Achievement Progress
+ */
+export const seasons = sqliteTable(
+	"seasons",
+	{
+		id: text("id").primaryKey(),
+		name: text("name").notNull(),
+		startsAt: text("starts_at").notNull(), // ISO8601 UTC
+		endsAt: text("ends_at").notNull(), // ISO8601 UTC, exclusive
+		resetSeasonProgress: integer("reset_season_progress", { mode: "boolean" })
+			.notNull()
+			.default(true),
+		createdAt: text("created_at").notNull(),
+		archivedAt: text("archived_at"),
+	},
+	(table) => [index("idx_seasons_starts_at").on(table.startsAt)],
+);
+
+export type SeasonRecord = typeof seasons.$inferSelect;
+
+/** Every user_achievements row as it stood when a Season rolled over. */
+export const seasonUserAchievements = sqliteTable(
+	"season_user_achievements",
+	{
+		seasonId: text("season_id").notNull(),
+		userId: text("user_id").notNull(),
+		userDisplayName: text("user_display_name").notNull(),
+		achievementId: text("achievement_id").notNull(),
+		progress: integer("progress").notNull(),
+		level: integer("level").notNull(),
+		unlockedAt: text("unlocked_at"),
+	},
+	(table) => [
+		primaryKey({ columns: [table.seasonId, table.userId, table.achievementId] }),
+		index("idx_season_user_achievements_unlocked").on(table.seasonId, table.unlockedAt),
+	],
+);
+
+/** The Raffle Leaderboard by wins as it stood when a Season rolled over. */
+export const seasonRaffleStandings = sqliteTable(
+	"season_raffle_standings",
+	{
+		seasonId: text("season_id").notNull(),
+		rank: integer("rank").notNull(),
+		userId: text("user_id").notNull(),
+		displayName: text("display_name").notNull(),
+		totalRolls: integer("total_rolls").notNull(),
+		totalWins: integer("total_wins").notNull(),
+		closestDistance: integer("closest_distance"),
+		closestRoll: integer("closest_roll"),
+		closestWinningNumber: integer("closest_winning_number"),
+		lastRolledAt: text("last_rolled_at").notNull(),
+	},
+	(table) => [primaryKey({ columns: [table.seasonId, table.rank] })],
+);
+
+/**
+ * Achievement Moderation audit - every Achievement a moderator granted or
+ * revoked by hand, with who did it and why
+ */
+export const achievementModerationAudit = sqliteTable(
+	"achievement_moderation_audit",
+	{
+		id: text("id").primaryKey(),
+		action: text("action").notNull(), // 'grant' | 'revoke'
+		userId: text("user_id").notNull(),
+		userDisplayName: text("user_display_name").notNull(),
+		achievementId: text("achievement_id").notNull(),
+		reason: text("reason").notNull(),
+		actor: text("actor").notNull(), // moderator display name, or "admin" for admin routes
+		createdAt: text("created_at").notNull(), // ISO8601
+	},
+	(table) => [
+		index("idx_achievement_moderation_audit_created").on(table.createdAt),
+		index("idx_achievement_moderation_audit_viewer").on(table.userId, table.achievementId),
+	],
+);
+
+export type AchievementModerationAuditRecord = typeof achievementModerationAudit.$inferSelect;
@@ -1,18 +1,23 @@
-/** Event Bus persistence tables for pending delivery, dead letters, and receipts. */
+/** Event Bus persistence tables for pending delivery, dead letters, receipts, and the Event Log. */
 
-import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { index, integer, primaryKey, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
-/** Events awaiting initial delivery or a retry attempt. */
+/** Subscriber deliveries awaiting a retry attempt. */
 export const pendingEvents = sqliteTable(
 	"pending_events",
 	{
-		id: text("id").primaryKey(),
+		id: text("id").notNull(),
+		subscriber: text("subscriber").notNull(),
 		event: text("event").notNull(),
 		attempts: integer("attempts").notNull().default(0),
 		nextRetryAt: text("next_retry_at").notNull(),
 		createdAt: text("created_at").notNull(),
 	},
-	(table) => [index("idx_pending_next_retry").on(table.nextRetryAt)],
+	(table) => [
+		primaryKey({ columns: [table.id, table.subscriber] }),
+		index("idx_pending_next_retry").on(table.nextRetryAt),
+		index("idx_pending_subscriber_created").on(table.subscriber, table.createdAt),
+	],
 );
 
 /** Persisted row for an Event Bus delivery awaiting retry. */
@@ -20,19 +25,28 @@ export type PendingEvent = typeof pendingEvents.$inferSelect;
 /** Insert representation for an Event Bus delivery awaiting retry. */
 export type InsertPendingEvent = typeof pendingEvents.$inferInsert;
 
-/** Events that exhausted retry policy and await administration or expiry. */
+/** Subscriber deliveries that exhausted retry policy and await administration or expiry. */
 export const deadLetterQueue = sqliteTable(
 	"dead_letter_queue",
 	{
-		id: text("id").primaryKey(),
+		id: text("id").notNull(),
+		subscriber: text("subscriber").notNull(),
+		/** Event type, so dead letters can be filtered without parsing the payload */
+		type: text("type").notNull().default(""),
 		event: text("event").notNull(),
 		error: text("error").notNull(),
+		/** Tag of the subscriber's error, or of the remote error it relayed */
+		errorTag: text("error_tag").notNull().default("UnknownError"),
 		attempts: integer("attempts").notNull(),
 		firstFailedAt: text("first_failed_at").notNull(),
 		lastFailedAt: text("last_failed_at").notNull(),
 		expiresAt: text("expires_at").notNull(),
 	},
-	(table) => [index("idx_dlq_expires_at").on(table.expiresAt)],
+	(table) => [
+		primaryKey({ columns: [table.id, table.subscriber] }),
+		index("idx_dlq_expires_at").on(table.expiresAt),
+		index("idx_dlq_first_failed_at").on(table.firstFailedAt),
+	],
 );
 
 /** Persisted Event Bus dead-letter row. */
@@ -40,8 +54,35 @@ export type DeadLetterEvent = typeof deadLetterQueue.$inferSelect;
 /** Insert representation for an Event Bus dead-letter row. */
 export type InsertDeadLetterEvent = typeof deadLetterQueue.$inferInsert;
 
-/** Durable Event Bus delivery receipts that suppress duplicate producer retries. */
-export const deliveredEvents = sqliteTable("delivered_events", {
-	id: text("id").primaryKey(),
-	deliveredAt: text("delivered_at").notNull(),
-});
+/** Per-subscriber delivery receipts that suppress duplicate producer retries. */
+export const deliveredEvents = sqliteTable(
+	"delivered_events",
+	{
+		id: text("id").notNull(),
+		subscriber: text("subscriber").notNull(),
+		deliveredAt: text("delivered_at").notNull(),
+	},
+	(table) => [
+		primaryKey({ columns: [table.id, table.subscriber] }),
+		index("idx_delivered_subscriber_at").on(table.subscriber, table.deliveredAt),
+	],
+);
+
+/** Append-only Event Log of every accepted domain event, kept for replay until retention expires. */
+export const eventLog = sqliteTable(
+	"event_log",
+	{
+		id: text("id").primaryKey(),
+		type: text("type").notNull(),
+		event: text("event").notNull(),
+		occurredAt: text("occurred_at").notNull(),
+		recordedAt: text("recorded_at").notNull(),
+	},
+	(table) => [
+		index("idx_event_log_occurred").on(table.occurredAt, table.id),
+		index("idx_event_log_recorded_at").on(table.recordedAt),
+	],
+);
+
+/** Persisted Event Log entry. */
+export type EventLogEntry = typeof eventLog.$inferSelect;
@@ -0,0 +1,37 @@
+/** Outbound Webhook persistence: endpoints and the events each has accepted. */
+
+import { index, integer, primaryKey, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+/** Registered Outbound Webhook endpoints; topics are stored as a JSON array. */
+export const outboundWebhooks = sqliteTable("outbound_webhooks", {
+	id: text("id").primaryKey(),
+	name: text("name").notNull(),
+	url: text("url").notNull(),
+	secret: text("secret").notNull(),
+	format: text("format").notNull(),
+	topics: text("topics").notNull(),
+	enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+	createdAt: text("created_at").notNull(),
+	updatedAt: text("updated_at").notNull(),
+});
+
+/** Persisted Outbound Webhook row, including its secret. */
+export type OutboundWebhookRecord = typeof outboundWebhooks.$inferSelect;
+
+/**
+ * One row per event an endpoint accepted, so Event Bus retries re-post only to
+ * the endpoints that failed.
+ */
+export const outboundWebhookDeliveries = sqliteTable(
+	"outbound_webhook_deliveries",
+	{
+		eventId: text("event_id").notNull(),
+		webhookId: text("webhook_id").notNull(),
+		status: integer("status").notNull(),
+		deliveredAt: text("delivered_at").notNull(),
+	},
+	(table) => [
+		primaryKey({ columns: [table.eventId, table.webhookId] }),
+		index("idx_outbound_webhook_deliveries_delivered_at").on(table.deliveredAt),
+	],
+);
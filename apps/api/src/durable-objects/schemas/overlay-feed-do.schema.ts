@@ -0,0 +1,54 @@
+/** Overlay Feed persistence for cursor-based replay to reconnecting overlays. */
+
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+/** Append-only overlay events; the autoincrement cursor is the overlay resume position. */
+export const overlayEvents = sqliteTable(
+	"overlay_events",
+	{
+		cursor: integer("cursor").primaryKey({ autoIncrement: true }),
+		eventId: text("event_id").notNull().unique(),
+		type: text("type").notNull(),
+		event: text("event").notNull(),
+		createdAt: text("created_at").notNull(),
+	},
+	(table) => [index("idx_overlay_events_created_at").on(table.createdAt)],
+);
+
+/** Persisted Overlay Feed row. */
+export type OverlayEventRecord = typeof overlayEvents.$inferSelect;
+/** Insert representation for an Overlay Feed row. */
+export type InsertOverlayEventRecord = typeof overlayEvents.$inferInsert;
+
+/**
+ * Alert display queue. Alerts are handed out oldest first, one at a time, and
+ * leave the queue once an overlay reports them shown.
+ */
+export const overlayAlerts = sqliteTable(
+	"overlay_alerts",
+	{
+		alertId: text("alert_id").primaryKey(),
+		type: text("type").notNull(),
+		alert: text("alert").notNull(),
+		status: text("status").notNull().default("pending"),
+		createdAt: text("created_at").notNull(),
+		/** When the alerted event happened, in UTC; the display window is measured from it. */
+		occurredAt: text("occurred_at"),
+		shownAt: text("shown_at"),
+	},
+	(table) => [index("idx_overlay_alerts_status_created_at").on(table.status, table.createdAt)],
+);
+
+/** Persisted alert display queue row. */
+export type OverlayAlertRecord = typeof overlayAlerts.$inferSelect;
+
+/** Named Overlay Theme presets selectable with `?theme=` on every overlay page. */
+export const overlayThemePresets = sqliteTable("overlay_theme_presets", {
+	name: text("name").primaryKey(),
+	theme: text("theme").notNull(),
+	createdAt: text("created_at").notNull(),
+	updatedAt: text("updated_at").notNull(),
+});
+
+/** Persisted Overlay Theme preset row. */
+export type OverlayThemePresetRecord = typeof overlayThemePresets.$inferSelect;
@@ -0,0 +1,40 @@
+/** Reward registry persistence: Reward Bindings and redemptions of unbound rewards. */
+
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+/** One Reward Binding per Twitch custom reward id; the handler is stored as JSON. */
+export const rewardBindings = sqliteTable("reward_bindings", {
+	rewardId: text("reward_id").primaryKey(),
+	handler: text("handler").notNull(),
+	enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+	createdAt: text("created_at").notNull(),
+	updatedAt: text("updated_at").notNull(),
+});
+
+/** Persisted Reward Binding row. */
+export type RewardBindingRecord = typeof rewardBindings.$inferSelect;
+
+/**
+ * Redemptions of rewards with no binding, kept until the reward is bound or the
+ * retention window passes.
+ */
+export const unrecognizedRedemptions = sqliteTable(
+	"unrecognized_redemptions",
+	{
+		redemptionId: text("redemption_id").primaryKey(),
+		rewardId: text("reward_id").notNull(),
+		rewardTitle: text("reward_title").notNull(),
+		userId: text("user_id").notNull(),
+		userDisplayName: text("user_display_name").notNull(),
+		userInput: text("user_input").notNull(),
+		redeemedAt: text("redeemed_at").notNull(),
+		recordedAt: text("recorded_at").notNull(),
+	},
+	(table) => [
+		index("idx_unrecognized_redemptions_reward_id").on(table.rewardId),
+		index("idx_unrecognized_redemptions_recorded_at").on(table.recordedAt),
+	],
+);
+
+/** Persisted unrecognized redemption row. */
+export type UnrecognizedRedemptionRecord = typeof unrecognizedRedemptions.$inferSelect;
@@ -1,4 +1,4 @@
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { integer, primaryKey, sqliteTable, text } from "drizzle-orm/sqlite-core";
 import { z } from "zod";
 
 import {
@@ -35,6 +35,8 @@ export const pendingRequests = sqliteTable("pending_requests", {
 	requesterUserId: text("requester_user_id").notNull(),
 	requesterDisplayName: text("requester_display_name").notNull(),
 	requestedAt: text("requested_at").notNull(),
+	rewardId: text("reward_id"),
+	redemptionId: text("redemption_id"),
 	firstSeenInSpotifyAt: text("first_seen_in_spotify_at"),
 	lastSeenInSpotifyAt: text("last_seen_in_spotify_at"),
 });
@@ -46,6 +48,8 @@ export type InsertPendingRequest = typeof pendingRequests.$inferInsert;
 
 /** Runtime parser for persisted Pending Request rows and occurrence-seen timestamps. */
 export const PendingRequestRecordSchema = PendingRequestInputSchema.extend({
+	rewardId: DomainIdSchema.nullable(),
+	redemptionId: DomainIdSchema.nullable(),
 	firstSeenInSpotifyAt: IsoInstantSchema.nullable(),
 	lastSeenInSpotifyAt: IsoInstantSchema.nullable(),
 });
@@ -106,6 +110,54 @@ export const SpotifyQueueSnapshotRecordSchema = z.discriminatedUnion("source", [
 /** Parsed persisted Spotify Queue occurrence with source-dependent attribution. */
 export type SpotifyQueueSnapshotRecord = z.infer<typeof SpotifyQueueSnapshotRecordSchema>;
 
+/** One Skip Vote per Viewer against the Now Playing track; cleared when Now Playing changes. */
+export const skipVotes = sqliteTable("skip_votes", {
+	userId: text("user_id").primaryKey(),
+	userDisplayName: text("user_display_name").notNull(),
+	trackId: text("track_id").notNull(),
+	votedAt: text("voted_at").notNull(),
+});
+
+/** SQLite representation of one Skip Vote. */
+export type SkipVote = typeof skipVotes.$inferSelect;
+
+/** Administrator overrides of the default Song Request Policy, one row per Viewer role. */
+export const songRequestPolicies = sqliteTable("song_request_policies", {
+	permission: text("permission").primaryKey(),
+	maxPendingRequests: integer("max_pending_requests").notNull(),
+	cooldownSeconds: integer("cooldown_seconds").notNull(),
+	updatedAt: text("updated_at").notNull(),
+});
+
+/** SQLite representation of one stored Song Request Policy. */
+export type SongRequestPolicyRow = typeof songRequestPolicies.$inferSelect;
+
+/** Singleton row holding the administrator's Track Content Rules. */
+export const trackContentRules = sqliteTable("track_content_rules", {
+	id: integer("id").primaryKey(),
+	banExplicit: integer("ban_explicit", { mode: "boolean" }).notNull(),
+	maxDurationSeconds: integer("max_duration_seconds"),
+	updatedAt: text("updated_at").notNull(),
+});
+
+/** SQLite representation of the stored Track Content Rules. */
+export type TrackContentRulesRow = typeof trackContentRules.$inferSelect;
+
+/** Spotify Tracks and artists moderators have banned from Song Requests. */
+export const trackBlocklist = sqliteTable(
+	"track_blocklist",
+	{
+		kind: text("kind").notNull(),
+		spotifyId: text("spotify_id").notNull(),
+		label: text("label"),
+		createdAt: text("created_at").notNull(),
+	},
+	(table) => [primaryKey({ columns: [table.kind, table.spotifyId] })],
+);
+
+/** SQLite representation of one Track Blocklist entry. */
+export type TrackBlocklistRow = typeof trackBlocklist.$inferSelect;
+
 /** Request History containing only Song Requests confirmed as played. */
 export const requestHistory = sqliteTable("request_history", {
 	eventId: text("event_id").primaryKey(),
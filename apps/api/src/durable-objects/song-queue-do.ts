@@ -9,55 +9,138 @@
 import { Agent, type AgentContext } from "agents";
 import { Result } from "better-result";
 import { RpcTarget } from "cloudflare:workers";
-import { and, asc, count, desc, eq, gt, gte, isNull, lt, lte, max } from "drizzle-orm";
+import {
+	and,
+	asc,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNull,
+	lt,
+	lte,
+	max,
+	ne,
+	or,
+} from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import { z } from "zod";
 
 import migrations from "../../drizzle/song-queue-do/migrations";
-import { DurableObjectSpotifyAccessTokens } from "../adapters/cloudflare/durable-object-access-tokens";
+import {
+	DurableObjectSpotifyAccessTokens,
+	DurableObjectTwitchAccessTokens,
+} from "../adapters/cloudflare/durable-object-access-tokens";
+import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durable-object-domain-event-publisher";
+import { DurableObjectStreamLifecycle } from "../adapters/cloudflare/durable-object-http-state";
+import { DurableObjectOverlayFeed } from "../adapters/cloudflare/durable-object-overlay-feed";
 import {
 	SongQueueCoordinationError,
 	SongQueueParseError,
+	SongQueueSpotifyError,
 	type SongQueueFailure,
 } from "../capabilities/song-queue";
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
+import { createSongSkippedEvent } from "../domain/domain-event";
+import { OverlayEventType } from "../domain/overlay-event";
 import {
+	AddTrackBlocklistEntryInputSchema,
+	DEFAULT_SONG_REQUEST_POLICIES,
+	DEFAULT_TRACK_CONTENT_RULES,
 	PendingRequestInputSchema,
+	RequestHistoryCursorSchema,
 	SongRequestDisplayTextSchema,
 	SongRequestDomainIdSchema,
 	SongRequestInstantSchema,
 	SongRequestLimitSchema,
+	SongRequestPermissionSchema,
+	SongRequestPolicyCheckSchema,
+	SongRequestPolicyPermissionSchema,
+	SongRequestPolicySchema,
+	SongRequestSelectorSchema,
+	TrackBlocklistEntrySchema,
+	TrackBlocklistKeySchema,
+	TrackContentCheckSchema,
+	TrackContentRulesSchema,
+	evaluateSongRequestPolicy,
+	evaluateTrackContent,
+	type AddTrackBlocklistEntryInput,
 	type PendingRequestInput,
+	type RequestHistoryCursor,
 	type RequestHistoryItem,
 	type RequestHistoryResult,
+	type SongRequestPermission,
+	type SongRequestPolicy,
+	type SongRequestPolicyCheck,
+	type SongRequestPolicyDecision,
+	type SongRequestPolicyPermission,
+	type RemovedSongRequest,
+	type SongRequestRemoval,
+	type SongRequestSelector,
+	type SongRequestWithdrawal,
+	type SongRequestsCleared,
 	type SpotifyQueueResult,
 	type TopRequestedTrack,
 	type TopSongRequester,
+	type TrackBlocklistEntry,
+	type TrackBlocklistKey,
+	type TrackContentCheck,
+	type TrackContentDecision,
+	type TrackContentFilter,
+	type TrackContentRules,
 } from "../domain/song-request";
-import { QueuedTrackSchema, type NowPlaying, type QueuedTrack } from "../domain/spotify-queue";
+import {
+	QueuedTrackSchema,
+	SkipVoteInputSchema,
+	requiredSkipVotes,
+	type NowPlaying,
+	type QueuedTrack,
+	type SkipVoteInput,
+	type SkipVoteResult,
+	type SkipVoteThreshold,
+} from "../domain/spotify-queue";
 import { rpc } from "../lib/durable-objects";
 import { SongQueueDbError, SongRequestNotFoundError } from "../lib/errors";
 import { logger } from "../lib/logger";
 import { type RpcResult } from "../lib/rpc-result";
 import {
+	AddTrackBlocklistEntryResultCodec,
+	CastSkipVoteResultCodec,
 	CheckDuplicateSongRequestResultCodec,
+	AdmitSongRequestResultCodec,
+	CheckSongRequestPolicyResultCodec,
+	CheckTrackContentResultCodec,
+	ClearSongRequestsResultCodec,
 	DeleteSongRequestHistoryResultCodec,
 	DeleteSongRequestResultCodec,
 	GetCurrentlyPlayingResultCodec,
 	GetDisplayNameRequestCountResultCodec,
+	GetRequestHistoryAfterResultCodec,
 	GetRequestHistoryResultCodec,
 	GetSessionRequestCountResultCodec,
 	GetSongQueueResultCodec,
+	GetSongRequestPoliciesResultCodec,
 	GetTopRequestersResultCodec,
 	GetTopTracksResultCodec,
+	GetTrackContentFilterResultCodec,
 	GetUserRequestCountResultCodec,
 	GetUserTopTracksResultCodec,
 	PersistSongRequestResultCodec,
+	RemoveSongRequestResultCodec,
+	RemoveTrackBlocklistEntryResultCodec,
+	UpdateSongRequestPolicyResultCodec,
+	UpdateTrackContentRulesResultCodec,
+	WithdrawSongRequestResultCodec,
 	WriteSongRequestHistoryResultCodec,
 	type SongQueueWireError,
 } from "../lib/song-queue-rpc-result-codecs";
+import { parseSpotifyTrackId, spotifyTrackUri } from "../lib/spotify-track-id";
 import { SpotifyService, type SpotifyTrack, type TrackInfo } from "../services/spotify-service";
+import { TwitchService } from "../services/twitch-service";
 import * as schema from "./schemas/song-queue-do.schema";
 import {
 	ArtistNamesJsonSchema,
@@ -67,12 +150,20 @@ import {
 	SpotifyQueueSnapshotRecordSchema,
 	type PendingRequest,
 	type SpotifyQueueSnapshotRecord,
+	type TrackBlocklistRow,
 	type TrackSource,
 	pendingRequests,
 	requestHistory,
+	skipVotes,
+	songRequestPolicies,
 	spotifyQueueSnapshot,
+	trackBlocklist,
+	trackContentRules,
 } from "./schemas/song-queue-do.schema";
 
+import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
+import type { StreamLifecycle } from "../capabilities/http-state-readers";
+import type { OverlayFeedPublisher } from "../capabilities/overlay-feed";
 import type { Env } from "../index";
 
 /** Stable Agent name used to acquire the singleton Song Queue Durable Object. */
@@ -82,6 +173,13 @@ const MAX_STALENESS_MS = 15_000;
 const REFRESH_AFTER_MUTATION_DELAY_SECONDS = 1;
 const CLEANUP_INTERVAL_SECONDS = 5 * 60;
 const MAX_REFRESH_BACKOFF_SECONDS = 5 * 60;
+const TRACK_CONTENT_RULES_ID = 1;
+
+/** Bounded query for Request History after a chronological cursor. */
+const RequestHistoryAfterQuerySchema = z.strictObject({
+	cursor: RequestHistoryCursorSchema.nullable(),
+	limit: SongRequestLimitSchema,
+});
 
 type QueueResult = SpotifyQueueResult;
 type TopTrack = TopRequestedTrack;
@@ -96,6 +194,10 @@ type SongQueueError = Exclude<
 /** Cohesive Song Queue implementation contract exposed over Durable Object RPC. */
 interface SongQueue {
 	persistRequest(request: PendingRequestInput): Promise<Result<void, SongQueueError>>;
+	admitRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueError>>;
 	deleteRequest(eventId: string): Promise<Result<void, SongQueueError>>;
 	getSongQueue(limit: number): Promise<Result<QueueResult, SongQueueError>>;
 	getCurrentlyPlaying(): Promise<Result<NowPlaying, SongQueueError>>;
@@ -105,11 +207,39 @@ interface SongQueue {
 		since?: string,
 		until?: string,
 	): Promise<Result<RequestHistoryResult, SongQueueError>>;
+	getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<Result<RequestHistoryItem[], SongQueueError>>;
 	getUserRequestCount(userId: string): Promise<Result<number, SongQueueError>>;
 	getUserRequestCountByDisplayName(displayName: string): Promise<Result<number, SongQueueError>>;
 	getTopTracks(limit: number): Promise<Result<TopTrack[], SongQueueError>>;
 	getTopTracksByUser(userId: string, limit: number): Promise<Result<TopTrack[], SongQueueError>>;
 	getTopRequesters(limit: number): Promise<Result<TopRequester[], SongQueueError>>;
+	castSkipVote(vote: SkipVoteInput): Promise<Result<SkipVoteResult, SongQueueError>>;
+	checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueError>>;
+	getSongRequestPolicies(): Promise<Result<SongRequestPolicy[], SongQueueError>>;
+	updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<Result<SongRequestPolicy, SongQueueError>>;
+	checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<Result<TrackContentDecision, SongQueueError>>;
+	getTrackContentFilter(): Promise<Result<TrackContentFilter, SongQueueError>>;
+	updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<Result<TrackContentRules, SongQueueError>>;
+	addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<Result<TrackBlocklistEntry, SongQueueError>>;
+	removeTrackBlocklistEntry(key: TrackBlocklistKey): Promise<Result<boolean, SongQueueError>>;
+	removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<Result<SongRequestRemoval, SongQueueError>>;
+	withdrawSongRequest(userId: string): Promise<Result<SongRequestWithdrawal, SongQueueError>>;
+	clearSongRequests(): Promise<Result<SongRequestsCleared, SongQueueError>>;
 }
 
 interface SongQueueAgentState {
@@ -218,14 +348,67 @@ function parseHistoryRecord(
 	return Result.ok({ ...parsed.data, artists: artists.value });
 }
 
+function parsePendingRequestRows(
+	rows: readonly unknown[],
+	operation: string,
+): Result<PendingRequest[], SongQueueParseError> {
+	const requests: PendingRequest[] = [];
+	for (const row of rows) {
+		const parsed = PendingRequestRecordSchema.safeParse(row);
+		if (!parsed.success)
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "persistence",
+					operation,
+					parseError: parsed.error.message,
+				}),
+			);
+		requests.push(parsed.data);
+	}
+	return Result.ok(requests);
+}
+
+function toRemovedSongRequest(request: PendingRequest): RemovedSongRequest {
+	return {
+		eventId: request.eventId,
+		trackId: request.trackId,
+		trackName: request.trackName,
+		requesterUserId: request.requesterUserId,
+		requesterDisplayName: request.requesterDisplayName,
+	};
+}
+
+function parseTrackBlocklistRows(
+	rows: readonly TrackBlocklistRow[],
+	operation: string,
+): Result<TrackBlocklistEntry[], SongQueueParseError> {
+	const entries: TrackBlocklistEntry[] = [];
+	for (const row of rows) {
+		const parsed = TrackBlocklistEntrySchema.safeParse(row);
+		if (!parsed.success)
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "persistence",
+					operation,
+					parseError: parsed.error.message,
+				}),
+			);
+		entries.push(parsed.data);
+	}
+	return Result.ok(entries);
+}
+
 function toTrackInfo(track: SpotifyTrack): TrackInfo {
 	const albumCover = [...track.album.images].sort((a, b) => a.height - b.height)[0];
 	return {
 		id: track.id,
 		name: track.name,
 		artists: track.artists.map((artist) => artist.name),
+		artistIds: track.artists.map((artist) => artist.id),
 		album: track.album.name,
 		albumCoverUrl: albumCover?.url ?? null,
+		explicit: track.explicit,
+		durationMs: track.duration_ms,
 	};
 }
 
@@ -332,6 +515,10 @@ function attributeSpotifyOccurrences(
 
 export interface SongQueueRpcHandleStub {
 	persistRequest(request: PendingRequestInput): Promise<RpcResult<void, SongQueueWireError>>;
+	admitRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<RpcResult<SongRequestPolicyDecision, SongQueueWireError>>;
 	deleteRequest(eventId: string): Promise<RpcResult<void, SongQueueWireError>>;
 	getSongQueue(limit: number): Promise<RpcResult<SpotifyQueueResult, SongQueueWireError>>;
 	getCurrentlyPlaying(): Promise<RpcResult<NowPlaying, SongQueueWireError>>;
@@ -341,6 +528,10 @@ export interface SongQueueRpcHandleStub {
 		since?: string,
 		until?: string,
 	): Promise<RpcResult<RequestHistoryResult, SongQueueWireError>>;
+	getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<RpcResult<RequestHistoryItem[], SongQueueWireError>>;
 	getUserRequestCount(userId: string): Promise<RpcResult<number, SongQueueWireError>>;
 	getUserRequestCountByDisplayName(
 		displayName: string,
@@ -351,6 +542,34 @@ export interface SongQueueRpcHandleStub {
 		limit: number,
 	): Promise<RpcResult<TopRequestedTrack[], SongQueueWireError>>;
 	getTopRequesters(limit: number): Promise<RpcResult<TopSongRequester[], SongQueueWireError>>;
+	castSkipVote(vote: SkipVoteInput): Promise<RpcResult<SkipVoteResult, SongQueueWireError>>;
+	checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<RpcResult<SongRequestPolicyDecision, SongQueueWireError>>;
+	getSongRequestPolicies(): Promise<RpcResult<SongRequestPolicy[], SongQueueWireError>>;
+	updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<RpcResult<SongRequestPolicy, SongQueueWireError>>;
+	checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<RpcResult<TrackContentDecision, SongQueueWireError>>;
+	getTrackContentFilter(): Promise<RpcResult<TrackContentFilter, SongQueueWireError>>;
+	updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<RpcResult<TrackContentRules, SongQueueWireError>>;
+	addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<RpcResult<TrackBlocklistEntry, SongQueueWireError>>;
+	removeTrackBlocklistEntry(
+		key: TrackBlocklistKey,
+	): Promise<RpcResult<boolean, SongQueueWireError>>;
+	removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<RpcResult<SongRequestRemoval, SongQueueWireError>>;
+	withdrawSongRequest(
+		userId: string,
+	): Promise<RpcResult<SongRequestWithdrawal, SongQueueWireError>>;
+	clearSongRequests(): Promise<RpcResult<SongRequestsCleared, SongQueueWireError>>;
 	[Symbol.dispose]?(): void;
 }
 
@@ -365,6 +584,15 @@ class SongQueueClient extends RpcTarget implements SongQueueRpcHandleStub {
 		>;
 	}
 
+	admitRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<RpcResult<SongRequestPolicyDecision, SongQueueWireError>> {
+		return this.queue.admitRequest(request, permission) as unknown as Promise<
+			RpcResult<SongRequestPolicyDecision, SongQueueWireError>
+		>;
+	}
+
 	deleteRequest(eventId: string): Promise<RpcResult<void, SongQueueWireError>> {
 		return this.queue.deleteRequest(eventId) as unknown as Promise<
 			RpcResult<void, SongQueueWireError>
@@ -394,6 +622,15 @@ class SongQueueClient extends RpcTarget implements SongQueueRpcHandleStub {
 		>;
 	}
 
+	getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<RpcResult<RequestHistoryItem[], SongQueueWireError>> {
+		return this.queue.getRequestHistoryAfter(cursor, limit) as unknown as Promise<
+			RpcResult<RequestHistoryItem[], SongQueueWireError>
+		>;
+	}
+
 	getUserRequestCount(userId: string): Promise<RpcResult<number, SongQueueWireError>> {
 		return this.queue.getUserRequestCount(userId) as unknown as Promise<
 			RpcResult<number, SongQueueWireError>
@@ -428,6 +665,94 @@ class SongQueueClient extends RpcTarget implements SongQueueRpcHandleStub {
 			RpcResult<TopRequester[], SongQueueWireError>
 		>;
 	}
+
+	castSkipVote(vote: SkipVoteInput): Promise<RpcResult<SkipVoteResult, SongQueueWireError>> {
+		return this.queue.castSkipVote(vote) as unknown as Promise<
+			RpcResult<SkipVoteResult, SongQueueWireError>
+		>;
+	}
+
+	checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<RpcResult<SongRequestPolicyDecision, SongQueueWireError>> {
+		return this.queue.checkSongRequestPolicy(check) as unknown as Promise<
+			RpcResult<SongRequestPolicyDecision, SongQueueWireError>
+		>;
+	}
+
+	getSongRequestPolicies(): Promise<RpcResult<SongRequestPolicy[], SongQueueWireError>> {
+		return this.queue.getSongRequestPolicies() as unknown as Promise<
+			RpcResult<SongRequestPolicy[], SongQueueWireError>
+		>;
+	}
+
+	updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<RpcResult<SongRequestPolicy, SongQueueWireError>> {
+		return this.queue.updateSongRequestPolicy(policy) as unknown as Promise<
+			RpcResult<SongRequestPolicy, SongQueueWireError>
+		>;
+	}
+
+	checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<RpcResult<TrackContentDecision, SongQueueWireError>> {
+		return this.queue.checkTrackContent(check) as unknown as Promise<
+			RpcResult<TrackContentDecision, SongQueueWireError>
+		>;
+	}
+
+	getTrackContentFilter(): Promise<RpcResult<TrackContentFilter, SongQueueWireError>> {
+		return this.queue.getTrackContentFilter() as unknown as Promise<
+			RpcResult<TrackContentFilter, SongQueueWireError>
+		>;
+	}
+
+	updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<RpcResult<TrackContentRules, SongQueueWireError>> {
+		return this.queue.updateTrackContentRules(rules) as unknown as Promise<
+			RpcResult<TrackContentRules, SongQueueWireError>
+		>;
+	}
+
+	addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<RpcResult<TrackBlocklistEntry, SongQueueWireError>> {
+		return this.queue.addTrackBlocklistEntry(entry) as unknown as Promise<
+			RpcResult<TrackBlocklistEntry, SongQueueWireError>
+		>;
+	}
+
+	removeTrackBlocklistEntry(
+		key: TrackBlocklistKey,
+	): Promise<RpcResult<boolean, SongQueueWireError>> {
+		return this.queue.removeTrackBlocklistEntry(key) as unknown as Promise<
+			RpcResult<boolean, SongQueueWireError>
+		>;
+	}
+
+	removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<RpcResult<SongRequestRemoval, SongQueueWireError>> {
+		return this.queue.removeSongRequest(selector) as unknown as Promise<
+			RpcResult<SongRequestRemoval, SongQueueWireError>
+		>;
+	}
+
+	withdrawSongRequest(
+		userId: string,
+	): Promise<RpcResult<SongRequestWithdrawal, SongQueueWireError>> {
+		return this.queue.withdrawSongRequest(userId) as unknown as Promise<
+			RpcResult<SongRequestWithdrawal, SongQueueWireError>
+		>;
+	}
+
+	clearSongRequests(): Promise<RpcResult<SongRequestsCleared, SongQueueWireError>> {
+		return this.queue.clearSongRequests() as unknown as Promise<
+			RpcResult<SongRequestsCleared, SongQueueWireError>
+		>;
+	}
 }
 
 /**
@@ -436,6 +761,11 @@ class SongQueueClient extends RpcTarget implements SongQueueRpcHandleStub {
 class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue {
 	private db: ReturnType<typeof drizzle<typeof schema>>;
 	private readonly spotifyService: SpotifyService;
+	private readonly twitchService: TwitchService;
+	private readonly streamLifecycle: StreamLifecycle;
+	private readonly domainEvents: DomainEventPublisher;
+	private readonly overlayFeed: OverlayFeedPublisher;
+	private readonly skipVoteThreshold: SkipVoteThreshold;
 	private syncLock: Promise<Result<void, SongQueueError>> | null = null;
 
 	initialState: SongQueueAgentState = {
@@ -459,6 +789,14 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 			configuration: configuration.value.spotify,
 			accessTokens: new DurableObjectSpotifyAccessTokens(env.SPOTIFY_TOKEN_DO, tracer),
 		});
+		this.twitchService = new TwitchService({
+			configuration: configuration.value.twitch,
+			accessTokens: new DurableObjectTwitchAccessTokens(env.TWITCH_TOKEN_DO, tracer),
+		});
+		this.streamLifecycle = new DurableObjectStreamLifecycle(env.STREAM_LIFECYCLE_DO, tracer);
+		this.domainEvents = new DurableObjectDomainEventPublisher(env.EVENT_BUS_DO, tracer);
+		this.overlayFeed = new DurableObjectOverlayFeed(env.OVERLAY_FEED_DO, tracer);
+		this.skipVoteThreshold = configuration.value.voteSkip.threshold;
 	}
 
 	async onStart(): Promise<void> {
@@ -507,16 +845,79 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 			trackId: parsed.data.trackId,
 		});
 
-		this.updateState({ lastSyncAt: null });
-		const scheduleResult = await Result.tryPromise({
-			try: async () => {
-				await this.scheduleRefreshIn(REFRESH_AFTER_MUTATION_DELAY_SECONDS);
-				await this.ensureCleanupSchedule();
-			},
-			catch: (cause) =>
-				new SongQueueCoordinationError({ operation: "persistRequest.scheduleDurableWork", cause }),
-		});
-		return scheduleResult.status === "error" ? Result.err(scheduleResult.error) : Result.ok();
+		return this.schedulePersistedRequestWork("persistRequest");
+	}
+
+	/**
+	 * Persist a song request only if the Viewer's role policy still admits it.
+	 * The quota and cooldown are evaluated in the same transaction as the insert,
+	 * so concurrent redemptions from one Viewer cannot both pass the check.
+	 * Re-admitting an already persisted event is allowed without re-evaluation.
+	 */
+	@rpc(AdmitSongRequestResultCodec)
+	async admitRequest(
+		request: PendingRequestInput,
+		permission: SongRequestPermission,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueError>> {
+		const parsedRequest = parseRpcInput(PendingRequestInputSchema, request, "admitRequest");
+		if (parsedRequest.status === "error") return parsedRequest;
+		const parsedPermission = parseRpcInput(SongRequestPermissionSchema, permission, "admitRequest");
+		if (parsedPermission.status === "error") return parsedPermission;
+		const pending = parsedRequest.value;
+
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const policy =
+				parsedPermission.value === "broadcaster"
+					? null
+					: yield* Result.await(this.readSongRequestPolicy(parsedPermission.value));
+			const decision = yield* Result.await(
+				Result.tryPromise({
+					try: async () =>
+						this.db.transaction((tx): SongRequestPolicyDecision => {
+							const existing = tx.query.pendingRequests
+								.findFirst({ where: eq(pendingRequests.eventId, pending.eventId) })
+								.sync();
+							const allowed: SongRequestPolicyDecision = {
+								_tag: "SongRequestAllowed",
+								permission: parsedPermission.value,
+							};
+							if (existing !== undefined) return allowed;
+
+							const admitted =
+								policy === null
+									? allowed
+									: evaluateSongRequestPolicy(
+											policy,
+											this.readSongRequestActivity(tx, pending.requesterUserId, pending.eventId),
+											pending.requestedAt,
+										);
+							if (admitted._tag === "SongRequestAllowed") {
+								tx.insert(pendingRequests).values(pending).onConflictDoNothing().run();
+							}
+							return admitted;
+						}),
+					catch: (cause) =>
+						new SongQueueDbError({ operation: `admitRequest(${pending.eventId})`, cause }),
+				}),
+			);
+
+			if (decision._tag !== "SongRequestAllowed") {
+				logger.info("Song Request rejected by policy at admission", {
+					eventId: pending.eventId,
+					requesterUserId: pending.requesterUserId,
+					permission: decision.permission,
+					reason: decision._tag,
+				});
+				return Result.ok(decision);
+			}
+
+			logger.info("Persisted song request", {
+				eventId: pending.eventId,
+				trackId: pending.trackId,
+			});
+			yield* Result.await(this.schedulePersistedRequestWork("admitRequest"));
+			return Result.ok(decision);
+		}, this);
 	}
 
 	/**
@@ -651,33 +1052,7 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 					parseError: parsedLimit.error.message,
 				}),
 			);
-		await this.ensureFresh();
-		const readResult = await Result.tryPromise({
-			try: () =>
-				this.db
-					.select()
-					.from(spotifyQueueSnapshot)
-					.where(gt(spotifyQueueSnapshot.position, 0))
-					.orderBy(asc(spotifyQueueSnapshot.position)),
-			catch: (cause) => new SongQueueDbError({ operation: "getSongQueue.findSnapshots", cause }),
-		});
-		if (readResult.status === "error") return readResult;
-		const userTracks: Extract<QueuedTrack, { source: "user" }>[] = [];
-		const autoplayTracks: Extract<QueuedTrack, { source: "autoplay" }>[] = [];
-		for (const record of readResult.value) {
-			const snapshot = parseSnapshotRecord(record, "getSongQueue.parseSnapshot");
-			if (snapshot.status === "error") return snapshot;
-			const artists = parseArtistsJson(snapshot.value.artists, "getSongQueue.parseArtists");
-			if (artists.status === "error") return artists;
-			const track = toQueuedTrack(snapshot.value, artists.value);
-			if (track.source === "user") userTracks.push(track);
-			else autoplayTracks.push(track);
-		}
-		userTracks.sort((left, right) => left.requestedAt.localeCompare(right.requestedAt));
-		return Result.ok({
-			tracks: [...userTracks, ...autoplayTracks].slice(0, parsedLimit.data),
-			totalCount: readResult.value.length,
-		});
+		return this.readSongQueue(parsedLimit.data);
 	}
 
 	/**
@@ -729,6 +1104,56 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 		return Result.ok({ requests, totalCount: readResult.value[1][0]?.count ?? 0 });
 	}
 
+	/**
+	 * Get request history oldest first, resuming after a (requestedAt, eventId) cursor
+	 *
+	 * Keyset paging keeps the order stable while new requests are fulfilled.
+	 */
+	@rpc(GetRequestHistoryAfterResultCodec)
+	async getRequestHistoryAfter(
+		cursor: RequestHistoryCursor | null,
+		limit: number,
+	): Promise<Result<RequestHistoryItem[], SongQueueError>> {
+		const parsedQuery = RequestHistoryAfterQuerySchema.safeParse({ cursor, limit });
+		if (!parsedQuery.success)
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "rpc-input",
+					operation: "getRequestHistoryAfter",
+					parseError: parsedQuery.error.message,
+				}),
+			);
+		const after = parsedQuery.data.cursor;
+		const readResult = await Result.tryPromise({
+			try: async () =>
+				this.db
+					.select()
+					.from(requestHistory)
+					.where(
+						after === null
+							? undefined
+							: or(
+									gt(requestHistory.requestedAt, after.requestedAt),
+									and(
+										eq(requestHistory.requestedAt, after.requestedAt),
+										gt(requestHistory.eventId, after.eventId),
+									),
+								),
+					)
+					.orderBy(asc(requestHistory.requestedAt), asc(requestHistory.eventId))
+					.limit(parsedQuery.data.limit),
+			catch: (cause) => new SongQueueDbError({ operation: "getRequestHistoryAfter", cause }),
+		});
+		if (readResult.status === "error") return readResult;
+		const requests: RequestHistoryItem[] = [];
+		for (const record of readResult.value) {
+			const parsed = parseHistoryRecord(record, "getRequestHistoryAfter.parseRecord");
+			if (parsed.status === "error") return parsed;
+			requests.push(parsed.value);
+		}
+		return Result.ok(requests);
+	}
+
 	/**
 	 * Get count of fulfilled requests since a given timestamp
 	 */
@@ -981,91 +1406,909 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 	}
 
 	/**
-	 * Scheduled refresh callback.
-	 * Keeps the snapshot warm while the queue has active work.
+	 * Record one Viewer's Skip Vote against Now Playing (position 0).
+	 * Votes are distinct per Viewer; reaching the threshold skips the track
+	 * in Spotify and publishes a SongSkipped event.
 	 */
-	async refreshQueueTick(_scheduledFor?: string): Promise<void> {
-		if (this.state.refreshScheduleId !== null || this.state.refreshDueAt !== null) {
-			this.updateState({
-				refreshScheduleId: null,
-				refreshDueAt: null,
-			});
-		}
+	@rpc(CastSkipVoteResultCodec)
+	async castSkipVote(vote: SkipVoteInput): Promise<Result<SkipVoteResult, SongQueueError>> {
+		const parsedVote = parseRpcInput(SkipVoteInputSchema, vote, "castSkipVote");
+		if (parsedVote.status === "error") return parsedVote;
+		await this.ensureFresh();
+		const readResult = await Result.tryPromise({
+			try: () =>
+				this.db.query.spotifyQueueSnapshot.findFirst({
+					where: eq(spotifyQueueSnapshot.position, 0),
+				}),
+			catch: (cause) => new SongQueueDbError({ operation: "castSkipVote.findSnapshot", cause }),
+		});
+		if (readResult.status === "error") return readResult;
+		if (!readResult.value) return Result.ok({ _tag: "NothingPlaying" });
+		const snapshot = parseSnapshotRecord(readResult.value, "castSkipVote.parseSnapshot");
+		if (snapshot.status === "error") return snapshot;
 
-		const result = await this.runSyncCycle();
-		if (result.status === "error") {
-			logger.error("Scheduled song queue refresh failed", {
-				error: result.error,
-				cause: result.error.cause,
-				consecutiveSyncFailures: this.state.consecutiveSyncFailures,
+		const nowPlaying = snapshot.value;
+		const track = { id: nowPlaying.trackId, name: nowPlaying.trackName };
+		const requiredVotes = await this.resolveRequiredSkipVotes();
+		const tallyResult = await Result.tryPromise({
+			try: async () =>
+				this.db.transaction((tx) => {
+					const existing = tx.query.skipVotes
+						.findFirst({ where: eq(skipVotes.userId, parsedVote.value.userId) })
+						.sync();
+					const alreadyVoted = existing?.trackId === nowPlaying.trackId;
+					if (!alreadyVoted) {
+						tx.insert(skipVotes)
+							.values({ ...parsedVote.value, trackId: nowPlaying.trackId })
+							.onConflictDoUpdate({
+								target: skipVotes.userId,
+								set: {
+									userDisplayName: parsedVote.value.userDisplayName,
+									trackId: nowPlaying.trackId,
+									votedAt: parsedVote.value.votedAt,
+								},
+							})
+							.run();
+					}
+					const votes = tx
+						.select()
+						.from(skipVotes)
+						.where(eq(skipVotes.trackId, nowPlaying.trackId))
+						.all();
+					// Claim the votes before Spotify I/O so concurrent voters cannot skip twice.
+					if (votes.length >= requiredVotes) {
+						tx.delete(skipVotes).where(eq(skipVotes.trackId, nowPlaying.trackId)).run();
+					}
+					return { alreadyVoted, votes };
+				}),
+			catch: (cause) => new SongQueueDbError({ operation: "castSkipVote.tally", cause }),
+		});
+		if (tallyResult.status === "error") return tallyResult;
+
+		const { alreadyVoted, votes } = tallyResult.value;
+		if (votes.length < requiredVotes) {
+			return Result.ok({
+				_tag: "SkipVoteRecorded",
+				track,
+				votes: votes.length,
+				requiredVotes,
+				alreadyVoted,
 			});
 		}
-	}
 
-	/**
-	 * Scheduled cleanup callback.
-	 * Deletes stale pending requests even if no reads occur.
-	 */
-	async cleanupStalePendingTick(_scheduledFor?: string): Promise<void> {
-		if (this.state.cleanupScheduleId !== null || this.state.cleanupDueAt !== null) {
-			this.updateState({
-				cleanupScheduleId: null,
-				cleanupDueAt: null,
+		const skipResult = await this.spotifyService.skipTrack();
+		if (skipResult.status === "error") {
+			const restoreResult = await Result.tryPromise({
+				try: () => this.db.insert(skipVotes).values(votes).onConflictDoNothing(),
+				catch: (cause) => new SongQueueDbError({ operation: "castSkipVote.restoreVotes", cause }),
 			});
+			if (restoreResult.status === "error")
+				logger.error("Failed to restore skip votes after skip failure", {
+					trackId: nowPlaying.trackId,
+					error: restoreResult.error.message,
+				});
+			return Result.err(
+				new SongQueueSpotifyError({
+					operation: "castSkipVote.skipTrack",
+					spotifyErrorTag: skipResult.error._tag,
+					cause: skipResult.error,
+				}),
+			);
 		}
 
-		const result = await this.cleanupStalePending();
-		if (result.status === "error") {
-			logger.error("Scheduled song queue cleanup failed", {
-				error: result.error.message,
+		logger.info("Skipped Now Playing by viewer vote", {
+			trackId: nowPlaying.trackId,
+			votes: votes.length,
+			requiredVotes,
+		});
+
+		const publishResult = await this.domainEvents.publish(
+			createSongSkippedEvent({
+				id: crypto.randomUUID(),
+				trackId: nowPlaying.trackId,
+				trackName: nowPlaying.trackName,
+				requestEventId: nowPlaying.eventId,
+				requesterUserId: nowPlaying.requesterUserId,
+				votes: votes.length,
+				requiredVotes,
+			}),
+		);
+		if (publishResult.status === "error") {
+			logger.error("Failed to publish song skipped event", {
+				trackId: nowPlaying.trackId,
+				error: publishResult.error.message,
 			});
 		}
 
+		this.updateState({ lastSyncAt: null });
+		// The skip already happened; a missed refresh only delays the snapshot until the next sync.
 		const scheduleResult = await Result.tryPromise({
-			try: () => this.restoreOrRecomputeSchedules(),
+			try: () => this.scheduleRefreshIn(REFRESH_AFTER_MUTATION_DELAY_SECONDS),
 			catch: (cause) =>
-				new SongQueueCoordinationError({
-					operation: "cleanupStalePendingTick.restoreSchedules",
-					cause,
-				}),
+				new SongQueueCoordinationError({ operation: "castSkipVote.scheduleRefresh", cause }),
 		});
-		if (scheduleResult.status === "error")
-			logger.error("Scheduled Song Queue cleanup schedule repair failed", {
-				error: scheduleResult.error,
+		if (scheduleResult.status === "error") {
+			logger.error("Failed to schedule refresh after vote skip", {
+				trackId: nowPlaying.trackId,
+				error: scheduleResult.error.message,
 			});
+		}
+
+		return Result.ok({ _tag: "TrackSkipped", track, votes: votes.length, requiredVotes });
 	}
 
-	/** Ensure snapshot is fresh while preserving stale fallback on typed sync failures. */
-	private async ensureFresh(): Promise<Result<void, never>> {
-		const lastSyncAt = this.state.lastSyncAt;
-		if (lastSyncAt !== null && Date.now() - new Date(lastSyncAt).getTime() < MAX_STALENESS_MS) {
-			return Result.ok();
-		}
+	/**
+	 * Apply one role's Song Request Policy to a Viewer's Pending Requests and
+	 * most recent pending or played request at the redemption instant.
+	 */
+	@rpc(CheckSongRequestPolicyResultCodec)
+	async checkSongRequestPolicy(
+		check: SongRequestPolicyCheck,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueError>> {
+		const parsedCheck = parseRpcInput(
+			SongRequestPolicyCheckSchema,
+			check,
+			"checkSongRequestPolicy",
+		);
+		if (parsedCheck.status === "error") return parsedCheck;
+		const { eventId, requesterUserId, permission, requestedAt } = parsedCheck.value;
 
-		if (this.syncLock) {
-			await this.syncLock.catch((cause: unknown) =>
-				logger.error("Song Queue sync lock rejected, using stale data", { cause }),
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const policy = yield* Result.await(this.readSongRequestPolicy(permission));
+			const activity = yield* Result.await(
+				Result.tryPromise({
+					try: async () => this.readSongRequestActivity(this.db, requesterUserId, eventId),
+					catch: (cause) =>
+						new SongQueueDbError({ operation: "checkSongRequestPolicy.activity", cause }),
+				}),
 			);
-			return Result.ok();
-		}
 
-		this.syncLock = this.runSyncCycle();
-		try {
-			const result = await this.syncLock;
-			if (result.status === "error")
-				logger.error("Sync failed, using stale data", {
-					error: result.error,
-					cause: "cause" in result.error ? result.error.cause : undefined,
+			const decision = evaluateSongRequestPolicy(policy, activity, requestedAt);
+			if (decision._tag !== "SongRequestAllowed") {
+				logger.info("Song Request rejected by policy", {
+					requesterUserId,
+					permission,
+					reason: decision._tag,
 				});
-		} finally {
-			this.syncLock = null;
-		}
-		return Result.ok();
+			}
+			return Result.ok(decision);
+		}, this);
 	}
 
-	private async runSyncCycle(): Promise<Result<void, SongQueueError>> {
-		const syncedAt = new Date().toISOString();
-		const result = await this.syncFromSpotify(syncedAt);
+	/**
+	 * List the effective Song Request Policy for every Viewer role,
+	 * falling back to defaults for roles without a stored override.
+	 */
+	@rpc(GetSongRequestPoliciesResultCodec)
+	async getSongRequestPolicies(): Promise<Result<SongRequestPolicy[], SongQueueError>> {
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const policies: SongRequestPolicy[] = [];
+			for (const permission of SongRequestPolicyPermissionSchema.options) {
+				policies.push(yield* Result.await(this.readSongRequestPolicy(permission)));
+			}
+			return Result.ok(policies);
+		}, this);
+	}
+
+	/**
+	 * Store one role's Song Request Policy; takes effect for the next redemption.
+	 */
+	@rpc(UpdateSongRequestPolicyResultCodec)
+	async updateSongRequestPolicy(
+		policy: SongRequestPolicy,
+	): Promise<Result<SongRequestPolicy, SongQueueError>> {
+		const parsedPolicy = parseRpcInput(SongRequestPolicySchema, policy, "updateSongRequestPolicy");
+		if (parsedPolicy.status === "error") return parsedPolicy;
+		const updatedAt = new Date().toISOString();
+
+		return Result.tryPromise({
+			try: async () => {
+				await this.db
+					.insert(songRequestPolicies)
+					.values({ ...parsedPolicy.value, updatedAt })
+					.onConflictDoUpdate({
+						target: songRequestPolicies.permission,
+						set: {
+							maxPendingRequests: parsedPolicy.value.maxPendingRequests,
+							cooldownSeconds: parsedPolicy.value.cooldownSeconds,
+							updatedAt,
+						},
+					});
+				logger.info("Updated Song Request policy", parsedPolicy.value);
+				return parsedPolicy.value;
+			},
+			catch: (cause) =>
+				new SongQueueDbError({
+					operation: `updateSongRequestPolicy(${parsedPolicy.value.permission})`,
+					cause,
+				}),
+		});
+	}
+
+	/**
+	 * Check one Spotify Track against the Track Content Rules and any
+	 * Track Blocklist entries naming the track or one of its artists.
+	 */
+	@rpc(CheckTrackContentResultCodec)
+	async checkTrackContent(
+		check: TrackContentCheck,
+	): Promise<Result<TrackContentDecision, SongQueueError>> {
+		const parsedCheck = parseRpcInput(TrackContentCheckSchema, check, "checkTrackContent");
+		if (parsedCheck.status === "error") return parsedCheck;
+		const track = parsedCheck.value;
+
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const rules = yield* Result.await(this.readTrackContentRules());
+			const rows = yield* Result.await(
+				Result.tryPromise({
+					try: () =>
+						this.db
+							.select()
+							.from(trackBlocklist)
+							.where(
+								or(
+									and(
+										eq(trackBlocklist.kind, "track"),
+										eq(trackBlocklist.spotifyId, track.trackId),
+									),
+									track.artistIds.length === 0
+										? undefined
+										: and(
+												eq(trackBlocklist.kind, "artist"),
+												inArray(trackBlocklist.spotifyId, track.artistIds),
+											),
+								),
+							),
+					catch: (cause) =>
+						new SongQueueDbError({ operation: "checkTrackContent.blocklist", cause }),
+				}),
+			);
+			const blocklist = yield* parseTrackBlocklistRows(rows, "checkTrackContent");
+
+			const decision = evaluateTrackContent(rules, blocklist, track);
+			if (decision._tag !== "TrackContentAllowed") {
+				logger.info("Song Request rejected by content filter", {
+					trackId: track.trackId,
+					reason: decision._tag,
+				});
+			}
+			return Result.ok(decision);
+		}, this);
+	}
+
+	/**
+	 * Read the effective Track Content Rules and the full Track Blocklist.
+	 */
+	@rpc(GetTrackContentFilterResultCodec)
+	async getTrackContentFilter(): Promise<Result<TrackContentFilter, SongQueueError>> {
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const rules = yield* Result.await(this.readTrackContentRules());
+			const rows = yield* Result.await(
+				Result.tryPromise({
+					try: () =>
+						this.db
+							.select()
+							.from(trackBlocklist)
+							.orderBy(asc(trackBlocklist.kind), asc(trackBlocklist.createdAt)),
+					catch: (cause) =>
+						new SongQueueDbError({ operation: "getTrackContentFilter.blocklist", cause }),
+				}),
+			);
+			const blocklist = yield* parseTrackBlocklistRows(rows, "getTrackContentFilter");
+			return Result.ok({ rules, blocklist });
+		}, this);
+	}
+
+	/**
+	 * Store the Track Content Rules; takes effect for the next redemption.
+	 */
+	@rpc(UpdateTrackContentRulesResultCodec)
+	async updateTrackContentRules(
+		rules: TrackContentRules,
+	): Promise<Result<TrackContentRules, SongQueueError>> {
+		const parsedRules = parseRpcInput(TrackContentRulesSchema, rules, "updateTrackContentRules");
+		if (parsedRules.status === "error") return parsedRules;
+		const updatedAt = new Date().toISOString();
+
+		return Result.tryPromise({
+			try: async () => {
+				await this.db
+					.insert(trackContentRules)
+					.values({ id: TRACK_CONTENT_RULES_ID, ...parsedRules.value, updatedAt })
+					.onConflictDoUpdate({
+						target: trackContentRules.id,
+						set: { ...parsedRules.value, updatedAt },
+					});
+				logger.info("Updated Track Content Rules", parsedRules.value);
+				return parsedRules.value;
+			},
+			catch: (cause) => new SongQueueDbError({ operation: "updateTrackContentRules", cause }),
+		});
+	}
+
+	/**
+	 * Ban one Spotify Track or artist; re-adding an existing ban replaces its label.
+	 */
+	@rpc(AddTrackBlocklistEntryResultCodec)
+	async addTrackBlocklistEntry(
+		entry: AddTrackBlocklistEntryInput,
+	): Promise<Result<TrackBlocklistEntry, SongQueueError>> {
+		const parsedEntry = parseRpcInput(
+			AddTrackBlocklistEntryInputSchema,
+			entry,
+			"addTrackBlocklistEntry",
+		);
+		if (parsedEntry.status === "error") return parsedEntry;
+		const added = { ...parsedEntry.value, createdAt: new Date().toISOString() };
+
+		return Result.tryPromise({
+			try: async () => {
+				const [row] = await this.db
+					.insert(trackBlocklist)
+					.values(added)
+					.onConflictDoUpdate({
+						target: [trackBlocklist.kind, trackBlocklist.spotifyId],
+						set: { label: added.label },
+					})
+					.returning();
+				logger.info("Added Track Blocklist entry", {
+					kind: added.kind,
+					spotifyId: added.spotifyId,
+				});
+				return row === undefined ? added : { ...added, createdAt: row.createdAt };
+			},
+			catch: (cause) =>
+				new SongQueueDbError({
+					operation: `addTrackBlocklistEntry(${added.kind}:${added.spotifyId})`,
+					cause,
+				}),
+		});
+	}
+
+	/**
+	 * Lift one Track Blocklist ban, reporting whether the entry existed.
+	 */
+	@rpc(RemoveTrackBlocklistEntryResultCodec)
+	async removeTrackBlocklistEntry(
+		key: TrackBlocklistKey,
+	): Promise<Result<boolean, SongQueueError>> {
+		const parsedKey = parseRpcInput(TrackBlocklistKeySchema, key, "removeTrackBlocklistEntry");
+		if (parsedKey.status === "error") return parsedKey;
+		const { kind, spotifyId } = parsedKey.value;
+
+		return Result.tryPromise({
+			try: async () => {
+				const removed = await this.db
+					.delete(trackBlocklist)
+					.where(and(eq(trackBlocklist.kind, kind), eq(trackBlocklist.spotifyId, spotifyId)))
+					.returning({ spotifyId: trackBlocklist.spotifyId });
+				if (removed.length > 0) {
+					logger.info("Removed Track Blocklist entry", { kind, spotifyId });
+				}
+				return removed.length > 0;
+			},
+			catch: (cause) =>
+				new SongQueueDbError({
+					operation: `removeTrackBlocklistEntry(${kind}:${spotifyId})`,
+					cause,
+				}),
+		});
+	}
+
+	/**
+	 * Remove one upcoming Pending Request picked by Spotify Queue position or requester.
+	 * Now Playing is never selected; moderators skip it with the Spotify client instead.
+	 */
+	@rpc(RemoveSongRequestResultCodec)
+	async removeSongRequest(
+		selector: SongRequestSelector,
+	): Promise<Result<SongRequestRemoval, SongQueueError>> {
+		const parsedSelector = parseRpcInput(SongRequestSelectorSchema, selector, "removeSongRequest");
+		if (parsedSelector.status === "error") return parsedSelector;
+
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const target = yield* Result.await(this.findRemovalTarget(parsedSelector.value));
+			if (target === null) {
+				return Result.ok<SongRequestRemoval>({ _tag: "SongRequestNotFound" });
+			}
+
+			const request = yield* Result.await(this.takePendingRequest(target, "removeSongRequest"));
+			yield* Result.await(this.scheduleRefreshAfterRemoval("removeSongRequest"));
+			return Result.ok<SongRequestRemoval>({ _tag: "SongRequestRemoved", request });
+		}, this);
+	}
+
+	/**
+	 * Withdraw a Viewer's most recent Pending Request and cancel its Channel Point Redemption.
+	 * A request that already reached Now Playing stays put and is not refunded.
+	 */
+	@rpc(WithdrawSongRequestResultCodec)
+	async withdrawSongRequest(
+		userId: string,
+	): Promise<Result<SongRequestWithdrawal, SongQueueError>> {
+		const parsedUserId = parseRpcInput(SongRequestDomainIdSchema, userId, "withdrawSongRequest");
+		if (parsedUserId.status === "error") return parsedUserId;
+		await this.ensureFresh();
+
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const { requests, nowPlayingEventId } = yield* Result.await(
+				this.readPendingRequests("withdrawSongRequest"),
+			);
+			const latest = requests
+				.filter((request) => request.requesterUserId === parsedUserId.value)
+				.pop();
+			if (latest === undefined) {
+				return Result.ok<SongRequestWithdrawal>({ _tag: "SongRequestNotFound" });
+			}
+			if (latest.eventId === nowPlayingEventId) {
+				return Result.ok<SongRequestWithdrawal>({
+					_tag: "SongRequestNowPlaying",
+					request: toRemovedSongRequest(latest),
+				});
+			}
+
+			const request = yield* Result.await(this.takePendingRequest(latest, "withdrawSongRequest"));
+			yield* Result.await(this.scheduleRefreshAfterRemoval("withdrawSongRequest"));
+			const refunded = await this.refundRedemption(latest);
+			return Result.ok<SongRequestWithdrawal>({
+				_tag: "SongRequestWithdrawn",
+				request,
+				refunded,
+			});
+		}, this);
+	}
+
+	/**
+	 * Remove every upcoming Pending Request, continuing past Spotify failures so one stuck
+	 * track does not block the rest.
+	 */
+	@rpc(ClearSongRequestsResultCodec)
+	async clearSongRequests(): Promise<Result<SongRequestsCleared, SongQueueError>> {
+		await this.ensureFresh();
+
+		return Result.gen(async function* (this: _SongQueueDO) {
+			const { requests, nowPlayingEventId } = yield* Result.await(
+				this.readPendingRequests("clearSongRequests"),
+			);
+			let removed = 0;
+			let failed = 0;
+			for (const request of requests) {
+				if (request.eventId === nowPlayingEventId) continue;
+				const result = await this.takePendingRequest(request, "clearSongRequests");
+				if (result.status === "error") {
+					logger.warn("Failed to clear Pending Request", {
+						eventId: request.eventId,
+						error: result.error.message,
+					});
+					failed += 1;
+				} else {
+					removed += 1;
+				}
+			}
+
+			if (removed > 0) {
+				yield* Result.await(this.scheduleRefreshAfterRemoval("clearSongRequests"));
+			}
+			return Result.ok({ removed, failed });
+		}, this);
+	}
+
+	/**
+	 * Scheduled refresh callback.
+	 * Keeps the snapshot warm while the queue has active work.
+	 */
+	async refreshQueueTick(_scheduledFor?: string): Promise<void> {
+		if (this.state.refreshScheduleId !== null || this.state.refreshDueAt !== null) {
+			this.updateState({
+				refreshScheduleId: null,
+				refreshDueAt: null,
+			});
+		}
+
+		const result = await this.runSyncCycle();
+		if (result.status === "error") {
+			logger.error("Scheduled song queue refresh failed", {
+				error: result.error,
+				cause: result.error.cause,
+				consecutiveSyncFailures: this.state.consecutiveSyncFailures,
+			});
+		}
+	}
+
+	/**
+	 * Scheduled cleanup callback.
+	 * Deletes stale pending requests even if no reads occur.
+	 */
+	async cleanupStalePendingTick(_scheduledFor?: string): Promise<void> {
+		if (this.state.cleanupScheduleId !== null || this.state.cleanupDueAt !== null) {
+			this.updateState({
+				cleanupScheduleId: null,
+				cleanupDueAt: null,
+			});
+		}
+
+		const result = await this.cleanupStalePending();
+		if (result.status === "error") {
+			logger.error("Scheduled song queue cleanup failed", {
+				error: result.error.message,
+			});
+		}
+
+		const scheduleResult = await Result.tryPromise({
+			try: () => this.restoreOrRecomputeSchedules(),
+			catch: (cause) =>
+				new SongQueueCoordinationError({
+					operation: "cleanupStalePendingTick.restoreSchedules",
+					cause,
+				}),
+		});
+		if (scheduleResult.status === "error")
+			logger.error("Scheduled Song Queue cleanup schedule repair failed", {
+				error: scheduleResult.error,
+			});
+	}
+
+	/** Ensure snapshot is fresh while preserving stale fallback on typed sync failures. */
+	private async ensureFresh(): Promise<Result<void, never>> {
+		const lastSyncAt = this.state.lastSyncAt;
+		if (lastSyncAt !== null && Date.now() - new Date(lastSyncAt).getTime() < MAX_STALENESS_MS) {
+			return Result.ok();
+		}
+
+		if (this.syncLock) {
+			await this.syncLock.catch((cause: unknown) =>
+				logger.error("Song Queue sync lock rejected, using stale data", { cause }),
+			);
+			return Result.ok();
+		}
+
+		this.syncLock = this.runSyncCycle();
+		try {
+			const result = await this.syncLock;
+			if (result.status === "error")
+				logger.error("Sync failed, using stale data", {
+					error: result.error,
+					cause: "cause" in result.error ? result.error.cause : undefined,
+				});
+		} finally {
+			this.syncLock = null;
+		}
+		return Result.ok();
+	}
+
+	/** Read upcoming Spotify Queue occurrences in the order the queue command numbers them. */
+	private async readSongQueue(limit: number): Promise<Result<QueueResult, SongQueueError>> {
+		await this.ensureFresh();
+		const readResult = await Result.tryPromise({
+			try: () =>
+				this.db
+					.select()
+					.from(spotifyQueueSnapshot)
+					.where(gt(spotifyQueueSnapshot.position, 0))
+					.orderBy(asc(spotifyQueueSnapshot.position)),
+			catch: (cause) => new SongQueueDbError({ operation: "getSongQueue.findSnapshots", cause }),
+		});
+		if (readResult.status === "error") return readResult;
+		const userTracks: Extract<QueuedTrack, { source: "user" }>[] = [];
+		const autoplayTracks: Extract<QueuedTrack, { source: "autoplay" }>[] = [];
+		for (const record of readResult.value) {
+			const snapshot = parseSnapshotRecord(record, "getSongQueue.parseSnapshot");
+			if (snapshot.status === "error") return snapshot;
+			const artists = parseArtistsJson(snapshot.value.artists, "getSongQueue.parseArtists");
+			if (artists.status === "error") return artists;
+			const track = toQueuedTrack(snapshot.value, artists.value);
+			if (track.source === "user") userTracks.push(track);
+			else autoplayTracks.push(track);
+		}
+		userTracks.sort((left, right) => left.requestedAt.localeCompare(right.requestedAt));
+		return Result.ok({
+			tracks: [...userTracks, ...autoplayTracks].slice(0, limit),
+			totalCount: readResult.value.length,
+		});
+	}
+
+	/** Read every Pending Request, oldest first, with the event ID of the one Now Playing. */
+	private async readPendingRequests(
+		operation: string,
+	): Promise<
+		Result<{ requests: PendingRequest[]; nowPlayingEventId: string | null }, SongQueueError>
+	> {
+		const rows = await Result.tryPromise({
+			try: async () => ({
+				pending: await this.db
+					.select()
+					.from(pendingRequests)
+					.orderBy(asc(pendingRequests.requestedAt)),
+				nowPlaying: await this.db.query.spotifyQueueSnapshot.findFirst({
+					where: eq(spotifyQueueSnapshot.position, 0),
+				}),
+			}),
+			catch: (cause) => new SongQueueDbError({ operation: `${operation}.readPending`, cause }),
+		});
+		if (rows.status === "error") return Result.err(rows.error);
+
+		const requests = parsePendingRequestRows(rows.value.pending, `${operation}.parsePending`);
+		if (requests.status === "error") return requests;
+		if (rows.value.nowPlaying === undefined) {
+			return Result.ok({ requests: requests.value, nowPlayingEventId: null });
+		}
+		const nowPlaying = parseSnapshotRecord(rows.value.nowPlaying, `${operation}.parseSnapshot`);
+		if (nowPlaying.status === "error") return nowPlaying;
+		return Result.ok({ requests: requests.value, nowPlayingEventId: nowPlaying.value.eventId });
+	}
+
+	private async findRemovalTarget(
+		selector: SongRequestSelector,
+	): Promise<Result<PendingRequest | null, SongQueueError>> {
+		return Result.gen(async function* (this: _SongQueueDO) {
+			if (selector._tag === "QueuePosition") {
+				const queue = yield* Result.await(this.readSongQueue(selector.position));
+				const track = queue.tracks[selector.position - 1];
+				if (track?.source !== "user") return Result.ok(null);
+				const { requests } = yield* Result.await(this.readPendingRequests("removeSongRequest"));
+				return Result.ok(requests.find((request) => request.eventId === track.eventId) ?? null);
+			}
+
+			await this.ensureFresh();
+			const { requests, nowPlayingEventId } = yield* Result.await(
+				this.readPendingRequests("removeSongRequest"),
+			);
+			const displayName = selector.displayName.toLowerCase();
+			const latest = requests
+				.filter(
+					(request) =>
+						request.eventId !== nowPlayingEventId &&
+						request.requesterDisplayName.toLowerCase() === displayName,
+				)
+				.pop();
+			return Result.ok(latest ?? null);
+		}, this);
+	}
+
+	/** Remove a Pending Request's track from Spotify, then forget the request and its occurrence. */
+	private async takePendingRequest(
+		request: PendingRequest,
+		operation: string,
+	): Promise<Result<RemovedSongRequest, SongQueueError>> {
+		const trackId = parseSpotifyTrackId(request.trackId);
+		if (trackId.status === "error") {
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "persistence",
+					operation: `${operation}.parseTrackId`,
+					parseError: trackId.error.message,
+				}),
+			);
+		}
+
+		const removed = await this.spotifyService.removeFromQueue(spotifyTrackUri(trackId.value));
+		if (removed.status === "error" || !removed.value) {
+			return Result.err(
+				new SongQueueDbError({
+					operation: `${operation}.removeFromQueue(${request.eventId})`,
+					cause:
+						removed.status === "error"
+							? removed.error
+							: new Error("Spotify Queue removal was not confirmed"),
+				}),
+			);
+		}
+
+		const deleted = await Result.tryPromise({
+			try: async () =>
+				this.db.transaction((tx) => {
+					tx.delete(pendingRequests).where(eq(pendingRequests.eventId, request.eventId)).run();
+					tx.delete(spotifyQueueSnapshot)
+						.where(eq(spotifyQueueSnapshot.eventId, request.eventId))
+						.run();
+				}),
+			catch: (cause) =>
+				new SongQueueDbError({ operation: `${operation}.delete(${request.eventId})`, cause }),
+		});
+		if (deleted.status === "error") return Result.err(deleted.error);
+
+		logger.info("Removed Pending Request from the Spotify Queue", {
+			eventId: request.eventId,
+			trackId: request.trackId,
+			operation,
+		});
+		return Result.ok(toRemovedSongRequest(request));
+	}
+
+	private async scheduleRefreshAfterRemoval(
+		operation: string,
+	): Promise<Result<void, SongQueueCoordinationError>> {
+		this.updateState({ lastSyncAt: null });
+		return Result.tryPromise({
+			try: () => this.scheduleRefreshIn(REFRESH_AFTER_MUTATION_DELAY_SECONDS),
+			catch: (cause) =>
+				new SongQueueCoordinationError({ operation: `${operation}.scheduleRefresh`, cause }),
+		});
+	}
+
+	/** Cancel a withdrawn request's Channel Point Redemption, reporting whether Twitch accepted it. */
+	private async refundRedemption(request: PendingRequest): Promise<boolean> {
+		if (request.rewardId === null || request.redemptionId === null) return false;
+		const result = await this.twitchService.updateRedemptionStatus(
+			request.rewardId,
+			request.redemptionId,
+			"CANCELED",
+		);
+		if (result.status === "error") {
+			logger.warn("Failed to refund withdrawn Song Request", {
+				eventId: request.eventId,
+				redemptionId: request.redemptionId,
+				error: result.error.message,
+			});
+			return false;
+		}
+		logger.info("Refunded withdrawn Song Request", {
+			eventId: request.eventId,
+			redemptionId: request.redemptionId,
+		});
+		return true;
+	}
+
+	/**
+	 * Fulfill a Song Request's Channel Point Redemption once it reaches Now Playing. Until then the
+	 * redemption stays unfulfilled so a withdrawal can still cancel it. Failures are logged only.
+	 */
+	private async fulfillRedemption(request: PendingRequest): Promise<void> {
+		if (request.rewardId === null || request.redemptionId === null) return;
+		const result = await this.twitchService.updateRedemptionStatus(
+			request.rewardId,
+			request.redemptionId,
+			"FULFILLED",
+		);
+		if (result.status === "error") {
+			logger.warn("Failed to fulfill Song Request redemption at Now Playing", {
+				eventId: request.eventId,
+				redemptionId: request.redemptionId,
+				error: result.error.message,
+			});
+			return;
+		}
+		logger.info("Fulfilled Song Request redemption at Now Playing", {
+			eventId: request.eventId,
+			redemptionId: request.redemptionId,
+		});
+	}
+
+	/** Resolve the Skip Vote threshold, reading the live viewer count only when it matters. */
+	private async resolveRequiredSkipVotes(): Promise<number> {
+		if (this.skipVoteThreshold.kind === "votes") {
+			return requiredSkipVotes(this.skipVoteThreshold, null);
+		}
+		const viewerCount = await this.streamLifecycle.getLatestViewerCount();
+		if (viewerCount.status === "error") {
+			logger.warn("Viewer count unavailable, using minimum skip votes", {
+				error: viewerCount.error.message,
+			});
+			return requiredSkipVotes(this.skipVoteThreshold, null);
+		}
+		return requiredSkipVotes(this.skipVoteThreshold, viewerCount.value);
+	}
+
+	/**
+	 * Count a Viewer's other Pending Requests and find their latest pending or
+	 * played request, synchronously so it can run inside an admission transaction.
+	 */
+	private readSongRequestActivity(
+		db: Pick<typeof this.db, "select">,
+		requesterUserId: string,
+		eventId: string,
+	): { pendingRequests: number; lastRequestedAt: string | null } {
+		const [pending] = db
+			.select({ count: count(), lastRequestedAt: max(pendingRequests.requestedAt) })
+			.from(pendingRequests)
+			.where(
+				and(
+					eq(pendingRequests.requesterUserId, requesterUserId),
+					ne(pendingRequests.eventId, eventId),
+				),
+			)
+			.all();
+		const [history] = db
+			.select({ lastRequestedAt: max(requestHistory.requestedAt) })
+			.from(requestHistory)
+			.where(
+				and(
+					eq(requestHistory.requesterUserId, requesterUserId),
+					ne(requestHistory.eventId, eventId),
+				),
+			)
+			.all();
+		const requestedAtValues = [pending?.lastRequestedAt, history?.lastRequestedAt].filter(
+			(value): value is string => value !== null && value !== undefined,
+		);
+		return {
+			pendingRequests: pending?.count ?? 0,
+			lastRequestedAt:
+				requestedAtValues.length === 0
+					? null
+					: requestedAtValues.reduce((latest, value) =>
+							Date.parse(value) > Date.parse(latest) ? value : latest,
+						),
+		};
+	}
+
+	/** Invalidate the cache and schedule the refresh and cleanup owed after a new Pending Request. */
+	private async schedulePersistedRequestWork(
+		operation: "persistRequest" | "admitRequest",
+	): Promise<Result<void, SongQueueError>> {
+		this.updateState({ lastSyncAt: null });
+		const scheduleResult = await Result.tryPromise({
+			try: async () => {
+				await this.scheduleRefreshIn(REFRESH_AFTER_MUTATION_DELAY_SECONDS);
+				await this.ensureCleanupSchedule();
+			},
+			catch: (cause) =>
+				new SongQueueCoordinationError({ operation: `${operation}.scheduleDurableWork`, cause }),
+		});
+		return scheduleResult.status === "error" ? Result.err(scheduleResult.error) : Result.ok();
+	}
+
+	private async readSongRequestPolicy(
+		permission: SongRequestPolicyPermission,
+	): Promise<Result<SongRequestPolicy, SongQueueError>> {
+		const row = await Result.tryPromise({
+			try: () =>
+				this.db.query.songRequestPolicies.findFirst({
+					where: eq(songRequestPolicies.permission, permission),
+				}),
+			catch: (cause) =>
+				new SongQueueDbError({ operation: `readSongRequestPolicy(${permission})`, cause }),
+		});
+		if (row.status === "error") return Result.err(row.error);
+		if (row.value === undefined) return Result.ok(DEFAULT_SONG_REQUEST_POLICIES[permission]);
+
+		const parsed = SongRequestPolicySchema.safeParse({
+			permission,
+			maxPendingRequests: row.value.maxPendingRequests,
+			cooldownSeconds: row.value.cooldownSeconds,
+		});
+		if (!parsed.success) {
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "persistence",
+					operation: "readSongRequestPolicy",
+					parseError: parsed.error.message,
+				}),
+			);
+		}
+		return Result.ok(parsed.data);
+	}
+
+	private async readTrackContentRules(): Promise<Result<TrackContentRules, SongQueueError>> {
+		const row = await Result.tryPromise({
+			try: () =>
+				this.db.query.trackContentRules.findFirst({
+					where: eq(trackContentRules.id, TRACK_CONTENT_RULES_ID),
+				}),
+			catch: (cause) => new SongQueueDbError({ operation: "readTrackContentRules", cause }),
+		});
+		if (row.status === "error") return Result.err(row.error);
+		if (row.value === undefined) return Result.ok(DEFAULT_TRACK_CONTENT_RULES);
+
+		const parsed = TrackContentRulesSchema.safeParse({
+			banExplicit: row.value.banExplicit,
+			maxDurationSeconds: row.value.maxDurationSeconds,
+		});
+		if (!parsed.success) {
+			return Result.err(
+				new SongQueueParseError({
+					boundary: "persistence",
+					operation: "readTrackContentRules",
+					parseError: parsed.error.message,
+				}),
+			);
+		}
+		return Result.ok(parsed.data);
+	}
+
+	private async runSyncCycle(): Promise<Result<void, SongQueueError>> {
+		const syncedAt = new Date().toISOString();
+		const result = await this.syncFromSpotify(syncedAt);
 
 		if (result.status === "ok") {
 			this.updateState({
@@ -1108,8 +2351,8 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 			currentlyPlayingResult.status === "ok" ? currentlyPlayingResult.value : queueCurrentTrack;
 		const upcomingTracks = queueResult.value.queue.map(toTrackInfo);
 
-		return Result.tryPromise({
-			try: async () => {
+		const syncResult = await Result.tryPromise({
+			try: async () =>
 				this.db.transaction((tx) => {
 					const previousRows = tx
 						.select()
@@ -1176,6 +2419,11 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 						}
 					}
 
+					const newCurrent = attributedItems.find((item) => item.position === 0) ?? null;
+					if (previousCurrent?.trackId !== newCurrent?.trackId) {
+						tx.delete(skipVotes).run();
+					}
+
 					tx.delete(spotifyQueueSnapshot).run();
 					for (const item of attributedItems) {
 						tx.insert(spotifyQueueSnapshot)
@@ -1212,13 +2460,67 @@ class _SongQueueDO extends Agent<Env, SongQueueAgentState> implements SongQueue
 						queueSize: attributedItems.length,
 						userRequests: matchedEventIds.length,
 					});
-				});
-			},
+					const nowPlayingChanged =
+						previousCurrent?.trackId !== newCurrent?.trackId ||
+						(previousCurrent?.eventId ?? null) !== (newCurrent?.eventId ?? null);
+					const reachedNowPlaying =
+						newCurrent?.eventId && newCurrent.eventId !== previousCurrent?.eventId
+							? (allPending.find((request) => request.eventId === newCurrent.eventId) ?? null)
+							: null;
+					return { nowPlayingChanged, newCurrent, reachedNowPlaying };
+				}),
 			catch: (cause: unknown) =>
 				cause instanceof SongQueueParseError
 					? cause
 					: new SongQueueDbError({ operation: "syncFromSpotify.transaction", cause }),
 		});
+		if (syncResult.status === "error") return Result.err(syncResult.error);
+
+		if (syncResult.value.nowPlayingChanged) {
+			await this.publishNowPlayingChange(syncResult.value.newCurrent, syncedAt);
+		}
+		if (syncResult.value.reachedNowPlaying !== null) {
+			await this.fulfillRedemption(syncResult.value.reachedNowPlaying);
+		}
+		return Result.ok();
+	}
+
+	/**
+	 * Push a Now Playing change to the Overlay Feed.
+	 * Overlays fall back to polling while the feed is unreachable, so failures are logged only.
+	 */
+	private async publishNowPlayingChange(
+		current: AttributedSpotifyOccurrence | null,
+		syncedAt: string,
+	): Promise<void> {
+		let track: QueuedTrack | null = null;
+		if (current !== null) {
+			const snapshot = parseSnapshotRecord(
+				{ ...current, syncedAt },
+				"publishNowPlayingChange.parseSnapshot",
+			);
+			const artists = parseArtistsJson(current.artists, "publishNowPlayingChange.parseArtists");
+			if (snapshot.status === "error" || artists.status === "error") {
+				logger.warn("Skipped Now Playing overlay event for unreadable snapshot", {
+					trackId: current.trackId,
+				});
+				return;
+			}
+			track = toQueuedTrack(snapshot.value, artists.value);
+		}
+
+		const publishResult = await this.overlayFeed.publish({
+			id: crypto.randomUUID(),
+			type: OverlayEventType.NowPlayingChanged,
+			occurredAt: syncedAt,
+			track,
+		});
+		if (publishResult.status === "error") {
+			logger.warn("Failed to publish Now Playing overlay event", {
+				trackId: track?.id ?? null,
+				error: publishResult.error.message,
+			});
+		}
 	}
 
 	/**
@@ -10,7 +10,13 @@ import { DurableObjectSongQueue } from "../adapters/cloudflare/durable-object-so
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
 import { createSongRequestSuccessEvent } from "../domain/domain-event";
-import { noResultCodec, stringCodec, zodSagaCodec } from "../lib/codecs";
+import {
+	SongRequestPolicyDecisionSchema,
+	TrackContentDecisionSchema,
+	type SongRequestPolicyDecision,
+	type TrackContentDecision,
+} from "../domain/song-request";
+import { noResultCodec, zodSagaCodec } from "../lib/codecs";
 import {
 	InvalidSpotifyUrlError,
 	SagaEffectOutcomeUnknown,
@@ -19,6 +25,7 @@ import {
 	SagaScheduleError,
 	SagaStepError,
 	SagaStepRetrying,
+	SpotifySearchNoMatchError,
 } from "../lib/errors";
 import { logger } from "../lib/logger";
 import { deriveSagaEventId } from "../lib/saga-event-id";
@@ -30,15 +37,17 @@ import {
 	type SagaStepExecutionError,
 } from "../lib/saga-runner";
 import {
+	parseSpotifyTrackId,
 	parseSpotifyTrackInput,
 	spotifyTrackUri,
 	type SpotifyTrackId,
 } from "../lib/spotify-track-id";
-import { SpotifyService } from "../services/spotify-service";
+import { parseSpotifySearchQuery, pickSpotifySearchMatch } from "../lib/spotify-track-search";
+import { SpotifyService, type SpotifyError } from "../services/spotify-service";
 import { TwitchService } from "../services/twitch-service";
 
 import type { DomainEventPublisher } from "../capabilities/domain-event-publisher";
-import type { SongQueue } from "../capabilities/song-queue";
+import type { SongQueue, SongQueueFailure } from "../capabilities/song-queue";
 import type { Env } from "../index";
 import type { AgentContext } from "agents";
 
@@ -79,24 +88,6 @@ export type SongRequestSagaStatus = SagaHostStatus;
 
 type SongRequestSagaError = SagaStepExecutionError | SagaNotFoundError;
 
-const SongRequestSpotifyTrackSchema = z.object({
-	id: z.string(),
-	name: z.string(),
-	artists: z.array(z.string()),
-	album: z.string(),
-	albumCoverUrl: z.string().nullable(),
-});
-
-type SongRequestSpotifyTrack = z.infer<typeof SongRequestSpotifyTrackSchema>;
-
-const SongRequestSpotifyTrackCodec = zodSagaCodec({
-	name: "song-request-spotify-track",
-	codec: z.codec(SongRequestSpotifyTrackSchema, SongRequestSpotifyTrackSchema, {
-		decode: (value) => value,
-		encode: (value) => value,
-	}),
-});
-
 const SPOTIFY_TRACK_ID_PATTERN = /^[a-zA-Z0-9]+$/;
 
 function isPersistedSpotifyTrackId(value: unknown): value is SpotifyTrackId {
@@ -122,6 +113,136 @@ const SpotifyTrackIdCodec = zodSagaCodec({
 	}),
 });
 
+/** Redemption input as either a Spotify track link or free text to search for. */
+type SongRequestTrackInput =
+	| { readonly _tag: "SpotifyTrackLink"; readonly trackId: SpotifyTrackId }
+	| { readonly _tag: "SpotifyTrackSearch"; readonly query: string };
+
+const SongRequestTrackInputSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("SpotifyTrackLink"), trackId: SpotifyTrackIdSchema }),
+	z.object({ _tag: z.literal("SpotifyTrackSearch"), query: z.string().min(1) }),
+]);
+
+/** Parse results recorded before search fallback hold only the linked track id. */
+const PersistedSongRequestTrackInputSchema = z.union([
+	SpotifyTrackIdSchema,
+	SongRequestTrackInputSchema,
+]);
+
+const CanonicalSongRequestTrackInputSchema = z.discriminatedUnion("_tag", [
+	z.object({ _tag: z.literal("SpotifyTrackLink"), trackId: CanonicalSpotifyTrackIdSchema }),
+	z.object({ _tag: z.literal("SpotifyTrackSearch"), query: z.string().min(1) }),
+]);
+
+const SongRequestTrackInputCodec = zodSagaCodec<SongRequestTrackInput>({
+	name: "song-request-track-input",
+	codec: z.codec(PersistedSongRequestTrackInputSchema, CanonicalSongRequestTrackInputSchema, {
+		decode: (value): SongRequestTrackInput => {
+			if (typeof value === "string") {
+				return { _tag: "SpotifyTrackLink", trackId: parsePersistedSpotifyTrackId(value) };
+			}
+			return value._tag === "SpotifyTrackLink"
+				? { _tag: "SpotifyTrackLink", trackId: parsePersistedSpotifyTrackId(value.trackId) }
+				: value;
+		},
+		encode: (value) => value,
+	}),
+});
+
+/** How get-track-info resolved the requested Spotify Track. */
+const SpotifyTrackResolutionSchema = z.discriminatedUnion("path", [
+	z.object({ path: z.literal("link") }),
+	z.object({
+		path: z.literal("search"),
+		query: z.string().min(1),
+		confidence: z.number().min(0).max(1),
+	}),
+]);
+
+const SongRequestSpotifyTrackSchema = z.object({
+	id: SpotifyTrackIdSchema,
+	name: z.string(),
+	artists: z.array(z.string()),
+	album: z.string(),
+	albumCoverUrl: z.string().nullable(),
+	artistIds: z.array(z.string()),
+	explicit: z.boolean(),
+	durationMs: z.number().int().nonnegative().nullable(),
+	resolution: SpotifyTrackResolutionSchema,
+});
+
+type SongRequestSpotifyTrack = Omit<z.infer<typeof SongRequestSpotifyTrackSchema>, "id"> & {
+	readonly id: SpotifyTrackId;
+};
+
+const CanonicalSongRequestSpotifyTrackSchema = SongRequestSpotifyTrackSchema.extend({
+	id: CanonicalSpotifyTrackIdSchema,
+});
+
+/**
+ * Track info cached before content filtering decodes as unrestricted content,
+ * and track info cached before search fallback was always resolved from a link.
+ */
+const PersistedSongRequestSpotifyTrackSchema = SongRequestSpotifyTrackSchema.extend({
+	artistIds: z.array(z.string()).default([]),
+	explicit: z.boolean().default(false),
+	durationMs: z.number().int().nonnegative().nullable().default(null),
+	resolution: SpotifyTrackResolutionSchema.default({ path: "link" }),
+});
+
+const SongRequestSpotifyTrackCodec = zodSagaCodec<SongRequestSpotifyTrack>({
+	name: "song-request-spotify-track",
+	codec: z.codec(PersistedSongRequestSpotifyTrackSchema, CanonicalSongRequestSpotifyTrackSchema, {
+		decode: (value) => ({ ...value, id: parsePersistedSpotifyTrackId(value.id) }),
+		encode: (value) => value,
+	}),
+});
+
+const SongRequestPolicyDecisionCodec = zodSagaCodec({
+	name: "song-request-policy-decision",
+	codec: z.codec(SongRequestPolicyDecisionSchema, SongRequestPolicyDecisionSchema, {
+		decode: (value) => value,
+		encode: (value) => value,
+	}),
+});
+
+/**
+ * Sagas persisted before admission enforced the policy cached the saga ID here;
+ * those requests were already admitted, so they decode as allowed.
+ */
+const PersistRequestDecisionCodec = zodSagaCodec<SongRequestPolicyDecision>({
+	name: "song-request-persist-request-decision",
+	codec: z.codec(
+		z.union([z.string(), SongRequestPolicyDecisionSchema]),
+		SongRequestPolicyDecisionSchema,
+		{
+			decode: (value) =>
+				typeof value === "string"
+					? ({ _tag: "SongRequestAllowed", permission: "everyone" } as const)
+					: value,
+			encode: (value) => value,
+		},
+	),
+});
+
+type SongRequestPolicyRejection = Exclude<
+	SongRequestPolicyDecision,
+	{ readonly _tag: "SongRequestAllowed" }
+>;
+
+const TrackContentDecisionCodec = zodSagaCodec({
+	name: "track-content-decision",
+	codec: z.codec(TrackContentDecisionSchema, TrackContentDecisionSchema, {
+		decode: (value) => value,
+		encode: (value) => value,
+	}),
+});
+
+type TrackContentRejection = Exclude<
+	TrackContentDecision,
+	{ readonly _tag: "TrackContentAllowed" }
+>;
+
 const PersistRequestUndoSchema = z.object({ eventId: z.string() });
 type PersistRequestUndo = z.infer<typeof PersistRequestUndoSchema>;
 const PersistRequestUndoCodec = zodSagaCodec({
@@ -143,9 +264,9 @@ const AddToSpotifyQueueUndoCodec = zodSagaCodec<AddToSpotifyQueueUndo>({
 	}),
 });
 
-const ParseSpotifyUrlStep: SagaStepDefinition<SpotifyTrackId> = {
+const ParseSpotifyUrlStep: SagaStepDefinition<SongRequestTrackInput> = {
 	name: "parse-spotify-url",
-	resultCodec: SpotifyTrackIdCodec,
+	resultCodec: SongRequestTrackInputCodec,
 };
 
 const GetTrackInfoStep: SagaStepDefinition<SongRequestSpotifyTrack> = {
@@ -154,9 +275,24 @@ const GetTrackInfoStep: SagaStepDefinition<SongRequestSpotifyTrack> = {
 	options: { timeout: 30000, maxRetries: 3 },
 };
 
-const PersistRequestStep: SagaRollbackStepDefinition<string, PersistRequestUndo> = {
+const CheckTrackContentStep: SagaStepDefinition<TrackContentDecision> = {
+	name: "check-track-content",
+	resultCodec: TrackContentDecisionCodec,
+	options: { timeout: 10000, maxRetries: 2 },
+};
+
+const CheckRequestPolicyStep: SagaStepDefinition<SongRequestPolicyDecision> = {
+	name: "check-request-policy",
+	resultCodec: SongRequestPolicyDecisionCodec,
+	options: { timeout: 30000, maxRetries: 3 },
+};
+
+const PersistRequestStep: SagaRollbackStepDefinition<
+	SongRequestPolicyDecision,
+	PersistRequestUndo
+> = {
 	name: "persist-request",
-	resultCodec: stringCodec,
+	resultCodec: PersistRequestDecisionCodec,
 	undoCodec: PersistRequestUndoCodec,
 	options: { timeout: 10000, maxRetries: 2 },
 };
@@ -168,12 +304,6 @@ const AddToSpotifyQueueStep: SagaRollbackStepDefinition<SpotifyTrackId, AddToSpo
 	options: { timeout: 30000, maxRetries: 3, ambiguousEffect: true },
 };
 
-const FulfillRedemptionStep: SagaStepDefinition<void> = {
-	name: "fulfill-redemption",
-	resultCodec: noResultCodec,
-	options: { timeout: 30000, maxRetries: 3 },
-};
-
 const SendChatConfirmationStep: SagaStepDefinition<void> = {
 	name: "send-chat-confirmation",
 	resultCodec: noResultCodec,
@@ -228,35 +358,30 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 		const sagaId = this.ctx.id.toString();
 
 		const parseResult = await runner.executeStep(ParseSpotifyUrlStep, async () => {
-			const trackIdResult = parseSpotifyTrackInput(params.user_input);
-			if (trackIdResult.status === "error") throw trackIdResult.error;
+			const input = parseTrackInput(params.user_input);
+			if (input.status === "error") throw input.error;
 
 			logger.info("Parsed Spotify track input", {
 				sagaId,
-				trackId: trackIdResult.value,
+				inputType: input.value._tag,
 				input: params.user_input,
 			});
-			return { result: trackIdResult.value };
+			return { result: input.value };
 		});
 		if (parseResult.status === "error") {
 			return this.handleStepError(parseResult.error, params, runner);
 		}
-		const trackId = parseResult.value;
+		const trackInput = parseResult.value;
 
-		const trackInfoResult = await runner.executeStep(GetTrackInfoStep, async () => {
-			const spotify = this.spotifyService;
-			const result = await spotify.getTrack(trackId);
-			if (result.status === "error") {
-				if (result.error._tag === "SpotifyTrackNotFoundError") {
-					throw new InvalidSpotifyUrlError({ url: spotifyTrackUri(trackId) });
-				}
-				throw result.error;
-			}
+		const trackInfoResult = await runner.executeStep(GetTrackInfoStep, async (signal) => {
+			const result = await this.resolveTrack(trackInput, signal);
+			if (result.status === "error") throw result.error;
 
 			logger.info("Got track info", {
 				sagaId,
 				trackId: result.value.id,
 				name: result.value.name,
+				resolution: result.value.resolution.path,
 			});
 			return { result: result.value };
 		});
@@ -264,25 +389,83 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 			return this.handleStepError(trackInfoResult.error, params, runner);
 		}
 		const trackInfo = trackInfoResult.value;
+		const trackId = trackInfo.id;
+
+		const contentResult = await runner.executeStep(CheckTrackContentStep, async () => {
+			const result = await this.songQueue.checkTrackContent({
+				trackId: trackInfo.id,
+				artistIds: trackInfo.artistIds,
+				explicit: trackInfo.explicit,
+				durationMs: trackInfo.durationMs,
+			});
+			if (result.status === "error") throw result.error;
+
+			logger.info("Checked Song Request track content", {
+				sagaId,
+				trackId: trackInfo.id,
+				decision: result.value._tag,
+			});
+			return { result: result.value };
+		});
+		if (contentResult.status === "error") {
+			return this.handleStepError(contentResult.error, params, runner);
+		}
+		if (contentResult.value._tag !== "TrackContentAllowed") {
+			return this.rejectRequest(
+				`Song Request rejected by content filter: ${contentResult.value._tag}`,
+				trackContentRejectionMessage(contentResult.value, trackInfo, params),
+				params,
+				runner,
+			);
+		}
+
+		const policyResult = await runner.executeStep(CheckRequestPolicyStep, async (signal) => {
+			const result = await this.checkRequestPolicy(params, signal);
+			if (result.status === "error") throw result.error;
+
+			logger.info("Checked Song Request policy", {
+				sagaId,
+				decision: result.value._tag,
+				permission: result.value.permission,
+				user: params.user_name,
+			});
+			return { result: result.value };
+		});
+		if (policyResult.status === "error") {
+			return this.handleStepError(policyResult.error, params, runner);
+		}
+		if (policyResult.value._tag !== "SongRequestAllowed") {
+			return this.rejectRequest(
+				`Song Request rejected by policy: ${policyResult.value._tag}`,
+				policyRejectionMessage(policyResult.value, params),
+				params,
+				runner,
+			);
+		}
 
 		const persistResult = await runner.executeStepWithRollback(
 			PersistRequestStep,
 			async () => {
-				const result = await this.songQueue.persistPendingRequest({
-					eventId: sagaId,
-					trackId: trackInfo.id,
-					trackName: trackInfo.name,
-					artists: JSON.stringify(trackInfo.artists),
-					album: trackInfo.album,
-					albumCoverUrl: trackInfo.albumCoverUrl,
-					requesterUserId: params.user_id,
-					requesterDisplayName: params.user_name,
-					requestedAt: params.redeemed_at,
-				});
+				const result = await this.songQueue.admitPendingRequest(
+					{
+						eventId: sagaId,
+						trackId: trackInfo.id,
+						trackName: trackInfo.name,
+						artists: JSON.stringify(trackInfo.artists),
+						album: trackInfo.album,
+						albumCoverUrl: trackInfo.albumCoverUrl,
+						requesterUserId: params.user_id,
+						requesterDisplayName: params.user_name,
+						requestedAt: params.redeemed_at,
+						rewardId: params.reward.id,
+						redemptionId: params.id,
+					},
+					policyResult.value.permission,
+				);
 				if (result.status === "error") throw result.error;
 
-				logger.info("Persisted song request", { sagaId });
-				return { result: sagaId, undoPayload: { eventId: sagaId } };
+				logger.info("Admitted song request", { sagaId, decision: result.value._tag });
+				return { result: result.value, undoPayload: { eventId: sagaId } };
 			},
 			async (undoPayload) => {
 				const result = await this.songQueue.deletePendingRequest(undoPayload.eventId);
@@ -293,6 +476,14 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 		if (persistResult.status === "error") {
 			return this.handleStepError(persistResult.error, params, runner);
 		}
+		if (persistResult.value._tag !== "SongRequestAllowed") {
+			return this.rejectRequest(
+				`Song Request rejected by policy at admission: ${persistResult.value._tag}`,
+				policyRejectionMessage(persistResult.value, params),
+				params,
+				runner,
+			);
+		}
 
 		const addToQueueResult = await runner.executeStepWithRollback(
 			AddToSpotifyQueueStep,
@@ -320,31 +511,16 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 			return this.handleStepError(addToQueueResult.error, params, runner);
 		}
 
-		const fulfillResult = await runner.executeStep(FulfillRedemptionStep, async (signal) => {
-			const twitch = this.twitchService;
-			const result = await twitch.updateRedemptionStatus(params.reward.id, params.id, "FULFILLED", {
-				signal,
-			});
-			if (result.status === "error") throw result.error;
-
-			logger.info("Fulfilled redemption", {
-				sagaId,
-				redemptionId: params.id,
-				rewardId: params.reward.id,
-			});
-			return { result: undefined };
-		});
-		if (fulfillResult.status === "error") {
-			return this.handleStepError(fulfillResult.error, params, runner);
-		}
-
 		const pointOfNoReturn = await runner.markPointOfNoReturn();
 		if (pointOfNoReturn.status === "error") return Result.err(pointOfNoReturn.error);
 
 		const chatResult = await runner.executeStep(SendChatConfirmationStep, async (signal) => {
 			const twitch = this.twitchService;
 			const artistNames = trackInfo.artists.join(", ");
-			const message = `@${params.user_name} added "${trackInfo.name}" by ${artistNames} to the queue!`;
+			const message =
+				trackInfo.resolution.path === "search"
+					? `@${params.user_name} found "${trackInfo.name}" by ${artistNames} and added it to the queue!`
+					: `@${params.user_name} added "${trackInfo.name}" by ${artistNames} to the queue!`;
 			const result = await twitch.sendChatMessage(message, { signal });
 			if (result.status === "error") {
 				logger.warn("Failed to send chat confirmation", {
@@ -375,6 +551,7 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 					userDisplayName: params.user_name,
 					sagaId,
 					trackId,
+					artistIds: trackInfo.artistIds,
 				}),
 				timestamp: params.redeemed_at,
 			};
@@ -398,6 +575,109 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 		return Result.ok();
 	}
 
+	/**
+	 * Fetches a linked Spotify Track, or searches for free-text input and keeps the
+	 * best match only when the confidence heuristic accepts it.
+	 */
+	private async resolveTrack(
+		input: SongRequestTrackInput,
+		signal: AbortSignal,
+	): Promise<
+		Result<
+			SongRequestSpotifyTrack,
+			SpotifyError | InvalidSpotifyUrlError | SpotifySearchNoMatchError
+		>
+	> {
+		const spotify = this.spotifyService;
+		if (input._tag === "SpotifyTrackLink") {
+			const result = await spotify.getTrack(input.trackId);
+			if (result.status === "error") {
+				return result.error._tag === "SpotifyTrackNotFoundError"
+					? Result.err(new InvalidSpotifyUrlError({ url: spotifyTrackUri(input.trackId) }))
+					: Result.err(result.error);
+			}
+			return Result.ok({ ...result.value, id: input.trackId, resolution: { path: "link" } });
+		}
+
+		const results = await spotify.searchTracks(input.query, { signal });
+		if (results.status === "error") return Result.err(results.error);
+		const match = pickSpotifySearchMatch(input.query, results.value);
+		if (match === null) return Result.err(new SpotifySearchNoMatchError({ query: input.query }));
+		const trackId = parseSpotifyTrackId(match.track.id);
+		if (trackId.status === "error") return Result.err(trackId.error);
+		return Result.ok({
+			...match.track,
+			id: trackId.value,
+			resolution: { path: "search", query: input.query, confidence: match.confidence },
+		});
+	}
+
+	/**
+	 * Checks the everyone policy first and resolves the Viewer's channel role only when it
+	 * rejects, so VIP and moderator policies relax the default limits but never tighten them.
+	 * A failed role lookup, such as a broadcaster token missing the role scopes, falls back
+	 * to the everyone decision rather than failing the request as a Spotify error.
+	 */
+	private async checkRequestPolicy(
+		params: SongRequestParams,
+		signal: AbortSignal,
+	): Promise<Result<SongRequestPolicyDecision, SongQueueFailure>> {
+		if (params.user_id === params.broadcaster_user_id) {
+			return Result.ok({ _tag: "SongRequestAllowed", permission: "broadcaster" });
+		}
+
+		const check = {
+			eventId: this.ctx.id.toString(),
+			requesterUserId: params.user_id,
+			requestedAt: params.redeemed_at,
+		};
+		const everyone = await this.songQueue.checkSongRequestPolicy({
+			...check,
+			permission: "everyone",
+		});
+		if (everyone.status === "error" || everyone.value._tag === "SongRequestAllowed") {
+			return everyone;
+		}
+
+		const permission = await this.twitchService.getViewerPermission(params.user_id, { signal });
+		if (permission.status === "error") {
+			logger.warn("Viewer role lookup failed, applying the everyone Song Request Policy", {
+				sagaId: check.eventId,
+				userId: params.user_id,
+				error: permission.error.message,
+			});
+			return everyone;
+		}
+		switch (permission.value) {
+			case "broadcaster":
+				return Result.ok({ _tag: "SongRequestAllowed", permission: "broadcaster" });
+			case "everyone":
+				return everyone;
+			case "vip":
+			case "moderator":
+				return this.songQueue.checkSongRequestPolicy({ ...check, permission: permission.value });
+		}
+	}
+
+	/**
+	 * Rejections run before or at persist-request, which inserts nothing when it rejects,
+	 * so no Song Queue or Spotify Queue effect exists yet and refunding the redemption
+	 * is the only compensation needed.
+	 */
+	private async rejectRequest(
+		reason: string,
+		message: string,
+		params: SongRequestParams,
+		runner: SagaRunner<SongRequestParams>,
+	): Promise<Result<void, SongRequestSagaError>> {
+		const refund = await this.refundRedemption(params, runner);
+		if (refund.status === "error") return refund;
+		await this.sendRefundNotice(params, message);
+
+		const failed = await runner.fail(reason);
+		return failed.status === "error" ? Result.err(failed.error) : Result.ok();
+	}
+
 	private async handleStepError(
 		error: SagaStepExecutionError,
 		params: SongRequestParams,
@@ -475,13 +755,20 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 		params: SongRequestParams,
 		error: SagaStepExecutionError,
 	): Promise<void> {
-		const twitch = this.twitchService;
 		const invalidTrackInput =
 			SagaStepError.is(error) &&
 			(error.stepName === ParseSpotifyUrlStep.name || error.causeTag === "InvalidSpotifyUrlError");
+		const noSearchMatch = SagaStepError.is(error) && error.causeTag === "SpotifySearchNoMatchError";
 		const message = invalidTrackInput
 			? `@${params.user_name} your song request was invalid and your points have been refunded. Did you use a valid Spotify track link?`
-			: `@${params.user_name} Spotify song requests are unavailable right now and your points have been refunded.`;
+			: noSearchMatch
+				? `@${params.user_name} I couldn't find a confident Spotify match for your song request and your points have been refunded. Try "artist - title" or a Spotify track link.`
+				: `@${params.user_name} Spotify song requests are unavailable right now and your points have been refunded.`;
+		await this.sendRefundNotice(params, message);
+	}
+
+	private async sendRefundNotice(params: SongRequestParams, message: string): Promise<void> {
+		const twitch = this.twitchService;
 		const result = await twitch.sendChatMessage(message);
 		if (result.status === "error") {
 			logger.warn("Failed to send failure chat message", {
@@ -498,5 +785,51 @@ class _SongRequestSagaDO extends SagaHost<SongRequestParams, SongRequestSagaErro
 	}
 }
 
+function parseTrackInput(input: string): Result<SongRequestTrackInput, InvalidSpotifyUrlError> {
+	const trackId = parseSpotifyTrackInput(input);
+	if (trackId.status === "ok") {
+		return Result.ok({ _tag: "SpotifyTrackLink", trackId: trackId.value });
+	}
+	const query = parseSpotifySearchQuery(input);
+	return query.status === "ok"
+		? Result.ok({ _tag: "SpotifyTrackSearch", query: query.value })
+		: Result.err(query.error);
+}
+
+function policyRejectionMessage(
+	rejection: SongRequestPolicyRejection,
+	params: SongRequestParams,
+): string {
+	return rejection._tag === "PendingRequestLimitReached"
+		? `@${params.user_name} you already have ${rejection.pendingRequests} song requests waiting (limit ${rejection.maxPendingRequests}) and your points have been refunded.`
+		: `@${params.user_name} please wait ${formatSeconds(rejection.retryAfterSeconds)} before requesting another song. Your points have been refunded.`;
+}
+
+function trackContentRejectionMessage(
+	rejection: TrackContentRejection,
+	track: SongRequestSpotifyTrack,
+	params: SongRequestParams,
+): string {
+	switch (rejection._tag) {
+		case "TrackBlocklisted":
+			return `@${params.user_name} "${track.name}" can't be requested on this channel and your points have been refunded.`;
+		case "ArtistBlocklisted": {
+			const artist = track.artists[track.artistIds.indexOf(rejection.artistId)] ?? "that artist";
+			return `@${params.user_name} songs by ${artist} can't be requested on this channel and your points have been refunded.`;
+		}
+		case "ExplicitTrackBanned":
+			return `@${params.user_name} "${track.name}" is marked explicit and can't be requested right now. Your points have been refunded.`;
+		case "TrackTooLong":
+			return `@${params.user_name} "${track.name}" is longer than the ${formatSeconds(rejection.maxDurationSeconds)} limit and your points have been refunded.`;
+	}
+}
+
+function formatSeconds(seconds: number): string {
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.floor(seconds / 60);
+	const remainder = seconds % 60;
+	return remainder === 0 ? `${minutes}m` : `${minutes}m ${remainder}s`;
+}
+
 /** Production Song Request Durable Object with inherited serialized saga RPCs. */
 export { _SongRequestSagaDO as SongRequestSagaDO };
@@ -2,7 +2,7 @@
  * Drizzle schema for StreamLifecycleDO
  */
 
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 /**
  * Viewer snapshots table - stores historical viewer counts
@@ -14,3 +14,26 @@ export const viewerSnapshots = sqliteTable("viewer_snapshots", {
 
 export type ViewerSnapshot = typeof viewerSnapshots.$inferSelect;
 export type NewViewerSnapshot = typeof viewerSnapshots.$inferInsert;
+
+/**
+ * Raids table - incoming raids and the Stream Session they arrived during
+ */
+export const raids = sqliteTable(
+	"raids",
+	{
+		id: text("id").primaryKey(), // EventSub message id
+		raiderUserId: text("raider_user_id").notNull(),
+		raiderLogin: text("raider_login").notNull(),
+		raiderDisplayName: text("raider_display_name").notNull(),
+		viewers: integer("viewers").notNull(),
+		raidedAt: text("raided_at").notNull(), // ISO8601 timestamp
+		streamSessionId: text("stream_session_id"),
+		isNewRecord: integer("is_new_record", { mode: "boolean" }).notNull(),
+	},
+	(table) => [
+		index("idx_raids_raider_user_id").on(table.raiderUserId),
+		index("idx_raids_viewers").on(table.viewers),
+	],
+);
+
+export type RaidRecord = typeof raids.$inferSelect;
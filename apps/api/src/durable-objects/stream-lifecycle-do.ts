@@ -4,7 +4,7 @@
 
 import { Agent, type AgentContext } from "agents";
 import { Result } from "better-result";
-import { and, gte, lte } from "drizzle-orm";
+import { and, count, desc, eq, gte, lte, max, sum } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/durable-sqlite";
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
 import { z } from "zod";
@@ -18,6 +18,7 @@ import { DurableObjectDomainEventPublisher } from "../adapters/cloudflare/durabl
 import { LoggingTracer } from "../capabilities/tracer";
 import { parseWorkerConfiguration } from "../configuration/worker-configuration";
 import { createStreamOfflineEvent, createStreamOnlineEvent } from "../domain/domain-event";
+import { RecordRaidSchema, type Raid, type TopRaider } from "../domain/raid";
 import {
 	type Clock,
 	type InvalidIsoTimestampError,
@@ -28,13 +29,21 @@ import { rpc } from "../lib/durable-objects";
 import { DurableObjectError, StreamLifecycleEffectsPendingError } from "../lib/errors";
 import { logger } from "../lib/logger";
 import {
+	GetLatestViewerCountResultCodec,
 	GetStreamLifecycleStateResultCodec,
+	GetTopRaidersResultCodec,
+	RecordRaidResultCodec,
 	StreamOfflineResultCodec,
 	StreamOnlineResultCodec,
 } from "../lib/stream-lifecycle-rpc-result-codecs";
 import { TwitchService } from "../services/twitch-service";
 import * as schema from "./stream-lifecycle-do.schema";
-import { type ViewerSnapshot, viewerSnapshots } from "./stream-lifecycle-do.schema";
+import {
+	type RaidRecord,
+	raids,
+	type ViewerSnapshot,
+	viewerSnapshots,
+} from "./stream-lifecycle-do.schema";
 import {
 	goOffline,
 	goOnline,
@@ -224,6 +233,138 @@ class _StreamLifecycleDO extends Agent<Env, StreamLifecycleAgentState> {
 		return Result.ok(this.toStreamState());
 	}
 
+	/**
+	 * Get the most recent viewer count snapshot for the active stream
+	 *
+	 * Returns null while offline so stale counts from a previous stream are never used.
+	 */
+	@rpc(GetLatestViewerCountResultCodec)
+	async getLatestViewerCount(): Promise<Result<number | null, DurableObjectError>> {
+		if (this.state._tag !== "LiveStream") {
+			return Result.ok(null);
+		}
+		const startedAt = this.state.startedAt;
+		return Result.tryPromise({
+			try: async () => {
+				const snapshot = await this.db.query.viewerSnapshots.findFirst({
+					where: gte(viewerSnapshots.timestamp, startedAt),
+					orderBy: desc(viewerSnapshots.timestamp),
+				});
+				return snapshot?.viewerCount ?? null;
+			},
+			catch: (cause) =>
+				new DurableObjectError({
+					method: "getLatestViewerCount",
+					message: "Failed to read latest viewer count",
+					cause,
+				}),
+		});
+	}
+
+	/**
+	 * Record an incoming raid against the active Stream Session
+	 *
+	 * Idempotent by raid id: recording the same raid again returns the stored
+	 * Raid, including the record evidence derived the first time.
+	 */
+	@rpc(RecordRaidResultCodec)
+	async recordRaid(input: unknown): Promise<Result<Raid, DurableObjectError>> {
+		const parsed = RecordRaidSchema.safeParse(input);
+		if (!parsed.success) {
+			return Result.err(
+				new DurableObjectError({
+					method: "recordRaid",
+					message: `Invalid raid: ${parsed.error.message}`,
+				}),
+			);
+		}
+		const raid = parsed.data;
+		const streamSessionId = this.state._tag === "LiveStream" ? this.state.streamSessionId : null;
+
+		return Result.tryPromise({
+			try: async () => {
+				const row = await this.db.transaction(async (tx) => {
+					const existing = await tx.query.raids.findFirst({ where: eq(raids.id, raid.id) });
+					if (existing !== undefined) return existing;
+
+					const [biggest] = await tx.select({ viewers: max(raids.viewers) }).from(raids);
+					const [inserted] = await tx
+						.insert(raids)
+						.values({
+							...raid,
+							streamSessionId,
+							isNewRecord: raid.viewers > (biggest?.viewers ?? -1),
+						})
+						.returning();
+					if (inserted === undefined) throw new Error("Raid insert returned no row");
+					return inserted;
+				});
+				logger.info("Recorded raid", {
+					raidId: row.id,
+					raiderUserId: row.raiderUserId,
+					viewers: row.viewers,
+					isNewRecord: row.isNewRecord,
+				});
+				return toRaid(row);
+			},
+			catch: (cause) =>
+				new DurableObjectError({ method: "recordRaid", message: "Failed to record raid", cause }),
+		});
+	}
+
+	/**
+	 * Get Raiders ranked by how often they raided, then by total viewers brought
+	 */
+	@rpc(GetTopRaidersResultCodec)
+	async getTopRaiders(limit: number): Promise<Result<TopRaider[], DurableObjectError>> {
+		const boundedLimit = Math.min(Math.max(Math.trunc(limit) || 1, 1), 100);
+		return Result.tryPromise({
+			try: async () => {
+				const raidCount = count();
+				const totalViewers = sum(raids.viewers).mapWith(Number);
+				const groups = await this.db
+					.select({
+						userId: raids.raiderUserId,
+						raids: raidCount,
+						totalViewers,
+						biggestRaid: max(raids.viewers),
+						lastRaidedAt: max(raids.raidedAt),
+					})
+					.from(raids)
+					.groupBy(raids.raiderUserId)
+					.orderBy(desc(raidCount), desc(totalViewers), desc(max(raids.raidedAt)))
+					.limit(boundedLimit);
+
+				const raiders: TopRaider[] = [];
+				for (const group of groups) {
+					if (group.lastRaidedAt === null || group.biggestRaid === null) continue;
+					// Raiders can rename; the latest raid carries their current name.
+					const latest = await this.db.query.raids.findFirst({
+						columns: { raiderLogin: true, raiderDisplayName: true },
+						where: eq(raids.raiderUserId, group.userId),
+						orderBy: desc(raids.raidedAt),
+					});
+					raiders.push({
+						userId: group.userId,
+						login: latest?.raiderLogin ?? group.userId,
+						displayName: latest?.raiderDisplayName ?? group.userId,
+						raids: group.raids,
+						totalViewers: group.totalViewers,
+						biggestRaid: group.biggestRaid,
+						lastRaidedAt: group.lastRaidedAt,
+					});
+				}
+				return raiders;
+			},
+			catch: (cause) =>
+				new DurableObjectError({
+					method: "getTopRaiders",
+					message: "Failed to read top raiders",
+					cause,
+				}),
+		});
+	}
+
 	/**
 	 * Get viewer history with optional date filters
 	 */
@@ -527,4 +668,18 @@ class _StreamLifecycleDO extends Agent<Env, StreamLifecycleAgentState> {
 	}
 }
 
+/** Maps a stored raid row to its public shape. */
+function toRaid(row: RaidRecord): Raid {
+	return {
+		id: row.id,
+		raiderUserId: row.raiderUserId,
+		raiderLogin: row.raiderLogin,
+		raiderDisplayName: row.raiderDisplayName,
+		viewers: row.viewers,
+		raidedAt: row.raidedAt,
+		streamSessionId: row.streamSessionId,
+		isNewRecord: row.isNewRecord,
+	};
+}
+
 export { _StreamLifecycleDO as StreamLifecycleDO };
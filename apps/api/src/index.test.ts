@@ -161,6 +161,7 @@ describe("Worker HTTP entrypoint", () => {
 			["/api/stats/top-tracks", []],
 			["/api/stats/top-requesters", []],
 			["/api/stats/raffle/leaderboard", []],
+			["/api/stats/raids", []],
 		] as const)("returns the initial contract for %s", async (path, expectedBody) => {
 			const response = await exports.default.fetch(`http://localhost${path}`);
 			expect(response.status).toBe(200);
@@ -195,6 +196,7 @@ describe("Worker HTTP entrypoint", () => {
 			"/api/stats/top-tracks/not-a-viewer",
 			"/api/stats/raffle/user/not-a-viewer",
 			"/api/stats/raffle/user/123?nonce=1",
+			"/api/stats/raids?limit=0",
 		])("rejects non-canonical stats input for %s", async (path) => {
 			const response = await exports.default.fetch(`http://localhost${path}`);
 			expect(response.status).toBe(400);
@@ -13,7 +13,11 @@ import {
 	DurableObjectStreamLifecycle,
 } from "./adapters/cloudflare/durable-object-http-state";
 import { DurableObjectOAuthAuthorizationState } from "./adapters/cloudflare/durable-object-oauth-authorization-state";
+import { DurableObjectOutboundWebhooks } from "./adapters/cloudflare/durable-object-outbound-webhooks";
+import { DurableObjectOverlayFeed } from "./adapters/cloudflare/durable-object-overlay-feed";
 import { DurableObjectRaffleStatistics } from "./adapters/cloudflare/durable-object-raffle-statistics";
+import { DurableObjectRaidHistory } from "./adapters/cloudflare/durable-object-raid-history";
+import { DurableObjectRewardRegistry } from "./adapters/cloudflare/durable-object-reward-registry";
 import { DurableObjectSongQueue } from "./adapters/cloudflare/durable-object-song-queue";
 import { createAdminRoutes } from "./adapters/http/create-admin-routes";
 import { createEventSubRoutes } from "./adapters/http/create-eventsub-routes";
@@ -67,6 +71,7 @@ export default {
 		});
 		const songQueue = new DurableObjectSongQueue(env.SONG_QUEUE_DO, tracer);
 		const raffles = new DurableObjectRaffleStatistics(env.KEYBOARD_RAFFLE_DO, tracer);
+		const raids = new DurableObjectRaidHistory(env.STREAM_LIFECYCLE_DO, tracer);
 		const streamLifecycle = new DurableObjectStreamLifecycle(env.STREAM_LIFECYCLE_DO, tracer);
 		const achievements = new DurableObjectAchievementReader(env.ACHIEVEMENTS_DO, tracer);
 		const eventBusAdministration = new DurableObjectEventBusAdministration(
@@ -74,6 +79,9 @@ export default {
 			tracer,
 		);
 		const chatCommands = new DurableObjectChatCommands(env.COMMANDS_DO, tracer);
+		const overlayFeed = new DurableObjectOverlayFeed(env.OVERLAY_FEED_DO, tracer);
+		const rewardRegistry = new DurableObjectRewardRegistry(env.REWARD_REGISTRY_DO, tracer);
+		const outboundWebhooks = new DurableObjectOutboundWebhooks(env.OUTBOUND_WEBHOOK_DO, tracer);
 		const edgeResponseCache = new CloudflareEdgeResponseCache(
 			caches.default,
 			(task) => executionContext.waitUntil(task),
@@ -94,6 +102,7 @@ export default {
 			logger: invocationLogger,
 			songQueue,
 			raffles,
+			raids,
 			edgeResponseCache,
 			administratorSecret: configuration.value.administratorSecret,
 			streamLifecycle,
@@ -121,7 +130,14 @@ export default {
 				receipts: eventSubReceipts,
 				correlation,
 			}),
-			overlayRoutes: createOverlayRoutes({ logger: invocationLogger }),
+			overlayRoutes: createOverlayRoutes({
+				logger: invocationLogger,
+				overlayFeed,
+				alerts: overlayFeed,
+				themes: overlayFeed,
+				overlaySecret: configuration.value.overlaySecret,
+				administratorSecret: configuration.value.administratorSecret,
+			}),
 			adminRoutes: createAdminRoutes({
 				administratorSecret: configuration.value.administratorSecret,
 				eventBus: eventBusAdministration,
@@ -129,6 +145,9 @@ export default {
 				chatCommands,
 				songQueue,
 				raffles,
+				overlayThemes: overlayFeed,
+				rewards: rewardRegistry,
+				webhooks: outboundWebhooks,
 				logger: invocationLogger,
 			}),
 		});
@@ -150,3 +169,6 @@ export { CommandsDO } from "./durable-objects/commands-do";
 export { RaidShoutoutSagaDO } from "./durable-objects/raid-shoutout-saga-do";
 export { EventSubWebhookDO } from "./durable-objects/eventsub-webhook-do";
 export { OAuthStateDO } from "./durable-objects/oauth-state-do";
+export { OverlayFeedDO } from "./durable-objects/overlay-feed-do";
+export { RewardRegistryDO } from "./durable-objects/reward-registry-do";
+export { OutboundWebhookDO } from "./durable-objects/outbound-webhook-do";
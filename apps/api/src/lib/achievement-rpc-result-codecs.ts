@@ -2,20 +2,37 @@ import { Result } from "better-result";
 import { z } from "zod";
 
 import {
+	AchievementBackfillRunSchema,
 	AchievementDebugTableCountsSchema,
 	AchievementDebugUserSnapshotSchema,
 	AchievementDefinitionsSchema,
+	AchievementDefinitionUpdateResultSchema,
 	AchievementLeaderboardSchema,
 	AchievementResetResultSchema,
+	ManagedAchievementDefinitionSchema,
+	ManagedAchievementDefinitionsSchema,
 	UnlockedAchievementSchema,
 	UnlockedAchievementsSchema,
 	ViewerAchievementProgressListSchema,
 } from "../domain/achievement";
 import {
+	AchievementModerationEntriesSchema,
+	AchievementModerationEntrySchema,
+} from "../domain/achievement-moderation";
+import { SeasonLeaderboardSchema, SeasonSchema, SeasonsSchema } from "../domain/season";
+import { ViewerAchievementProfileSchema } from "../domain/viewer-profile";
+import {
+	AchievementBackfillInProgressError,
 	AchievementDbError,
+	AchievementDefinitionConflictError,
+	AchievementDefinitionValidationError,
 	AchievementEventValidationError,
+	AchievementModerationConflictError,
 	AchievementNotFoundError,
 	AchievementQueryValidationError,
+	AchievementSeasonConflictError,
+	AchievementSeasonNotFoundError,
+	AchievementViewerNotFoundError,
 	InvalidAchievementRecordError,
 	type AchievementError,
 } from "./errors";
@@ -48,6 +65,45 @@ const AchievementWireErrorSchema = z.discriminatedUnion("_tag", [
 		parseError: z.string(),
 		message: z.string(),
 	}),
+	z.object({
+		_tag: z.literal("AchievementDefinitionValidationError"),
+		parseError: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementDefinitionConflictError"),
+		achievementId: z.string(),
+		reason: z.enum(["exists", "retired"]),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementBackfillInProgressError"),
+		runId: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementSeasonNotFoundError"),
+		seasonId: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementSeasonConflictError"),
+		seasonId: z.string(),
+		reason: z.enum(["exists", "overlaps", "archived", "upcoming"]),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementViewerNotFoundError"),
+		viewer: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("AchievementModerationConflictError"),
+		achievementId: z.string(),
+		userId: z.string(),
+		reason: z.enum(["unlocked", "locked"]),
+		message: z.string(),
+	}),
 ]);
 type AchievementWireError = z.infer<typeof AchievementWireErrorSchema>;
 const AchievementErrorToWireSchema = z
@@ -72,6 +128,30 @@ const AchievementErrorFromWireSchema = AchievementWireErrorSchema.transform(
 					recordType: error.recordType,
 					parseError: error.parseError,
 				});
+			case "AchievementDefinitionValidationError":
+				return new AchievementDefinitionValidationError({ parseError: error.parseError });
+			case "AchievementDefinitionConflictError":
+				return new AchievementDefinitionConflictError({
+					achievementId: error.achievementId,
+					reason: error.reason,
+				});
+			case "AchievementBackfillInProgressError":
+				return new AchievementBackfillInProgressError({ runId: error.runId });
+			case "AchievementSeasonNotFoundError":
+				return new AchievementSeasonNotFoundError({ seasonId: error.seasonId });
+			case "AchievementSeasonConflictError":
+				return new AchievementSeasonConflictError({
+					seasonId: error.seasonId,
+					reason: error.reason,
+				});
+			case "AchievementViewerNotFoundError":
+				return new AchievementViewerNotFoundError({ viewer: error.viewer });
+			case "AchievementModerationConflictError":
+				return new AchievementModerationConflictError({
+					achievementId: error.achievementId,
+					userId: error.userId,
+					reason: error.reason,
+				});
 		}
 	},
 );
@@ -93,6 +173,10 @@ export const RecordAchievementEventResultCodec = createAchievementResultCodec(
 export const GetViewerAchievementsResultCodec = createAchievementResultCodec(
 	ViewerAchievementProgressListSchema,
 );
+/** RPC codec for reading one Viewer's Achievement profile, or null for an unknown Viewer. */
+export const GetViewerAchievementProfileResultCodec = createAchievementResultCodec(
+	ViewerAchievementProfileSchema.nullable(),
+);
 /** RPC codec for reading one Viewer's unlocked Achievements. */
 export const GetUnlockedAchievementsResultCodec = createAchievementResultCodec(
 	UnlockedAchievementsSchema,
@@ -101,6 +185,22 @@ export const GetUnlockedAchievementsResultCodec = createAchievementResultCodec(
 export const GetAchievementDefinitionsResultCodec = createAchievementResultCodec(
 	AchievementDefinitionsSchema,
 );
+/** RPC codec for listing every Achievement Definition, whatever its status. */
+export const ListManagedAchievementDefinitionsResultCodec = createAchievementResultCodec(
+	ManagedAchievementDefinitionsSchema,
+);
+/** RPC codec for creating one Achievement Definition. */
+export const CreateAchievementDefinitionResultCodec = createAchievementResultCodec(
+	ManagedAchievementDefinitionSchema,
+);
+/** RPC codec for editing one Achievement Definition and unlocking Viewers who now qualify. */
+export const UpdateAchievementDefinitionResultCodec = createAchievementResultCodec(
+	AchievementDefinitionUpdateResultSchema,
+);
+/** RPC codec for retiring one Achievement Definition. */
+export const RetireAchievementDefinitionResultCodec = createAchievementResultCodec(
+	ManagedAchievementDefinitionSchema,
+);
 /** RPC codec for reading Achievement table counts. */
 export const GetAchievementTableCountsResultCodec = createAchievementResultCodec(
 	AchievementDebugTableCountsSchema,
@@ -127,3 +227,33 @@ export const AchievementStreamOnlineResultCodec = createAchievementResultCodec(z
 export const AchievementStreamOfflineResultCodec = createAchievementResultCodec(z.undefined());
 /** RPC codec for applying one Domain Event to Achievement state. */
 export const HandleAchievementEventResultCodec = createAchievementResultCodec(z.undefined());
+/** RPC codec for starting an Achievement Backfill run. */
+export const StartAchievementBackfillResultCodec = createAchievementResultCodec(
+	AchievementBackfillRunSchema,
+);
+/** RPC codec for reading one Achievement Backfill run, or null when there is none. */
+export const GetAchievementBackfillRunResultCodec = createAchievementResultCodec(
+	AchievementBackfillRunSchema.nullable(),
+);
+/** RPC codec for listing every Season. */
+export const ListSeasonsResultCodec = createAchievementResultCodec(SeasonsSchema);
+/** RPC codec for creating one Season. */
+export const CreateSeasonResultCodec = createAchievementResultCodec(SeasonSchema);
+/** RPC codec for rolling one Season over into its archive. */
+export const RollOverSeasonResultCodec = createAchievementResultCodec(SeasonSchema);
+/** RPC codec for reading one Season's standings, or null for an unknown Season. */
+export const GetSeasonLeaderboardResultCodec = createAchievementResultCodec(
+	SeasonLeaderboardSchema.nullable(),
+);
+/** RPC codec for granting one Viewer an Achievement by hand. */
+export const GrantAchievementResultCodec = createAchievementResultCodec(
+	AchievementModerationEntrySchema,
+);
+/** RPC codec for revoking one Viewer's Achievement by hand. */
+export const RevokeAchievementResultCodec = createAchievementResultCodec(
+	AchievementModerationEntrySchema,
+);
+/** RPC codec for reading the Achievement Moderation audit. */
+export const GetAchievementModerationAuditResultCodec = createAchievementResultCodec(
+	AchievementModerationEntriesSchema,
+);
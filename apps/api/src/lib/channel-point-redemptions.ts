@@ -1,6 +1,8 @@
 import { Result } from "better-result";
 
-import { RewardRoutingConfigError, UnknownRewardError } from "./errors";
+import { RewardRoutingConfigError } from "./errors";
+
+import type { RewardBinding, RewardHandler } from "../domain/channel-point-reward";
 
 export interface TwitchRedemption {
 	id: string;
@@ -36,10 +38,29 @@ export interface RewardRoutingConfig {
 	keyboardRaffleRewardId?: string;
 }
 
-export function parseKnownRewardRedemption(
+/** How the EventSub inbox handles one Channel Point Redemption. */
+export type RewardRedemptionRoute =
+	| {
+			readonly _tag: "HandledReward";
+			readonly handler: RewardHandler;
+			/** Registry bindings win over the configured song request and raffle reward ids. */
+			readonly source: "registry" | "configuration";
+	  }
+	| { readonly _tag: "DisabledReward"; readonly binding: RewardBinding }
+	| { readonly _tag: "UnrecognizedReward" };
+
+/**
+ * Decides which Reward Handler runs for a redemption.
+ *
+ * A Reward Binding from the registry takes precedence; without one, the
+ * configured song request and keyboard raffle reward ids still route to their
+ * sagas. Anything else is unrecognized and should be recorded, not rejected.
+ */
+export function routeRewardRedemption(
 	redemption: TwitchRedemption,
+	binding: RewardBinding | null,
 	config: RewardRoutingConfig,
-): Result<KnownRewardRedemption, UnknownRewardError | RewardRoutingConfigError> {
+): Result<RewardRedemptionRoute, RewardRoutingConfigError> {
 	if (config.songRequestRewardId === undefined || config.songRequestRewardId.length === 0) {
 		return Result.err(new RewardRoutingConfigError({ configKey: "SONG_REQUEST_REWARD_ID" }));
 	}
@@ -52,19 +73,43 @@ export function parseKnownRewardRedemption(
 		return Result.err(new RewardRoutingConfigError({ configKey: "REWARD_ID_CONFLICT" }));
 	}
 
+	if (binding !== null) {
+		return Result.ok(
+			binding.enabled
+				? { _tag: "HandledReward", handler: binding.handler, source: "registry" }
+				: { _tag: "DisabledReward", binding },
+		);
+	}
+
 	if (redemption.reward.id === config.songRequestRewardId) {
-		return Result.ok({ ...redemption, _tag: "SongRequestRedemption" });
+		return Result.ok({
+			_tag: "HandledReward",
+			handler: { kind: "song_request" },
+			source: "configuration",
+		});
 	}
 
 	if (redemption.reward.id === config.keyboardRaffleRewardId) {
-		return Result.ok({ ...redemption, _tag: "KeyboardRaffleRedemption" });
+		return Result.ok({
+			_tag: "HandledReward",
+			handler: { kind: "keyboard_raffle" },
+			source: "configuration",
+		});
 	}
 
-	return Result.err(
-		new UnknownRewardError({
-			redemptionId: redemption.id,
-			rewardId: redemption.reward.id,
-			rewardTitle: redemption.reward.title,
-		}),
-	);
+	return Result.ok({ _tag: "UnrecognizedReward" });
+}
+
+/** Fills a `chat_message` Reward Handler template from one redemption. */
+export function renderRewardChatMessage(template: string, redemption: TwitchRedemption): string {
+	return template.replace(/\{(user|input|reward)\}/g, (_match, placeholder: string) => {
+		switch (placeholder) {
+			case "user":
+				return redemption.user_name;
+			case "input":
+				return redemption.user_input.trim();
+			default:
+				return redemption.reward.title;
+		}
+	});
 }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vite-plus/test";
+
+import { deriveChatMessageObservedEventId } from "./chat-activity";
+
+describe("deriveChatMessageObservedEventId", () => {
+	it("shares one id per Viewer and command within a Chat Activity window", async () => {
+		const first = await deriveChatMessageObservedEventId({
+			userId: "viewer-1",
+			commandName: null,
+			receivedAt: "2026-04-07T14:15:05.123456789Z",
+		});
+		const sameWindow = await deriveChatMessageObservedEventId({
+			userId: "viewer-1",
+			commandName: null,
+			receivedAt: "2026-04-07T14:15:59.000Z",
+		});
+		const nextWindow = await deriveChatMessageObservedEventId({
+			userId: "viewer-1",
+			commandName: null,
+			receivedAt: "2026-04-07T14:16:00.000Z",
+		});
+		const command = await deriveChatMessageObservedEventId({
+			userId: "viewer-1",
+			commandName: "song",
+			receivedAt: "2026-04-07T14:15:05.000Z",
+		});
+		const otherViewer = await deriveChatMessageObservedEventId({
+			userId: "viewer-2",
+			commandName: null,
+			receivedAt: "2026-04-07T14:15:05.000Z",
+		});
+
+		expect(sameWindow).toBe(first);
+		expect(new Set([first, nextWindow, command, otherViewer]).size).toBe(4);
+	});
+});
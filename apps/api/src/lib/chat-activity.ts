@@ -0,0 +1,36 @@
+/**
+ * Chat Activity rate limiting
+ *
+ * Chat Message Observed events are keyed by Viewer, command, and time window.
+ * EventSub processing claims each window before publishing, so chatting more
+ * often than once a window neither earns anything extra nor reaches the Event
+ * Bus, and a redelivered notification that slips past the claim publishes the
+ * same event again.
+ */
+
+import { deriveSagaEventId } from "./saga-event-id";
+
+/** Length of one Chat Activity window. */
+export const CHAT_ACTIVITY_WINDOW_MS = 60_000;
+
+/** Name of the EventSub webhook Durable Object instance that tracks claimed windows. */
+export const CHAT_ACTIVITY_THROTTLE_NAME = "chat-activity";
+
+/** Numbers the Chat Activity window a chat message was received in. */
+export function chatActivityWindow(receivedAt: string): number {
+	const receivedAtMs = Date.parse(receivedAt);
+	return Math.floor(
+		(Number.isNaN(receivedAtMs) ? Date.now() : receivedAtMs) / CHAT_ACTIVITY_WINDOW_MS,
+	);
+}
+
+/** Derives the event id shared by every chat message in one Viewer's window. */
+export async function deriveChatMessageObservedEventId(params: {
+	userId: string;
+	commandName: string | null;
+	receivedAt: string;
+}): Promise<string> {
+	return deriveSagaEventId(
+		`chat-message-observed:${params.userId}:${params.commandName ?? ""}:${chatActivityWindow(params.receivedAt)}`,
+	);
+}
@@ -0,0 +1,74 @@
+import { Result } from "better-result";
+
+import { chatTextResponse } from "../types";
+
+import type { AchievementModeration } from "../../../capabilities/http-state-readers";
+import type { ComputedCommandContext, ComputedCommandHandler } from "../types";
+
+const USAGE = "Usage: !achievement <grant|revoke> @viewer <achievement> <reason>";
+
+/**
+ * Computed chat command handler that lets moderators grant or revoke one
+ * Viewer's Achievement, recording the moderator and reason in the audit.
+ */
+export class AchievementModerationCommandHandler implements ComputedCommandHandler {
+	constructor(private readonly achievements: AchievementModeration) {}
+
+	/**
+	 * Parse the action, Viewer, Achievement id, and reason, then apply the grant or revocation.
+	 *
+	 * @param context - Command invocation context containing the moderation arguments and moderator.
+	 * @returns A Result containing a chat response describing the outcome.
+	 */
+	async handle(context: ComputedCommandContext) {
+		const [action, viewerRaw, achievementIdRaw, ...reasonParts] = context.arg?.split(/\s+/) ?? [];
+		const reason = reasonParts.join(" ");
+		if (
+			(action !== "grant" && action !== "revoke") ||
+			viewerRaw === undefined ||
+			achievementIdRaw === undefined ||
+			reason.length === 0
+		) {
+			return Result.ok(chatTextResponse(USAGE));
+		}
+
+		const viewer = viewerRaw.replace(/^@+/u, "");
+		const achievementId = achievementIdRaw.toLowerCase();
+		const input = { achievementId, viewer, reason, actor: context.viewer.displayName };
+		const result =
+			action === "grant"
+				? await this.achievements.grantAchievement(input)
+				: await this.achievements.revokeAchievement(input);
+		if (result.status === "error") {
+			switch (result.error.remoteErrorTag) {
+				case "AchievementQueryValidationError":
+					return Result.ok(chatTextResponse(USAGE));
+				case "AchievementNotFoundError":
+					return Result.ok(chatTextResponse(`No achievement named ${achievementId}.`));
+				case "AchievementViewerNotFoundError":
+					return Result.ok(chatTextResponse(`@${viewer} hasn't been seen yet.`));
+				case "AchievementDefinitionConflictError":
+					return Result.ok(chatTextResponse(`${achievementId} is retired.`));
+				case "AchievementModerationConflictError":
+					return Result.ok(
+						chatTextResponse(
+							action === "grant"
+								? `@${viewer} already has ${achievementId}.`
+								: `@${viewer} hasn't unlocked ${achievementId}.`,
+						),
+					);
+				default:
+					return Result.ok(chatTextResponse(`Sorry, couldn't ${action} ${achievementId}.`));
+			}
+		}
+
+		const { userDisplayName } = result.value;
+		return Result.ok(
+			chatTextResponse(
+				action === "grant"
+					? `Granted ${achievementId} to @${userDisplayName}.`
+					: `Revoked ${achievementId} from @${userDisplayName}.`,
+			),
+		);
+	}
+}
@@ -1,5 +1,6 @@
 import { Result } from "better-result";
 
+import { formatAchievementWithLevel } from "../../../domain/achievement";
 import { chatTextResponse } from "../types";
 
 import type { AchievementReader } from "../../../capabilities/http-state-readers";
@@ -31,7 +32,9 @@ export class AchievementsCommandHandler implements ComputedCommandHandler {
 			return Result.ok(chatTextResponse(`@${targetUser} hasn't unlocked any achievements yet.`));
 		}
 
-		const names = achievements.map((achievement) => achievement.name).join(", ");
+		const names = achievements
+			.map((achievement) => formatAchievementWithLevel(achievement.name, achievement.levelLabel))
+			.join(", ");
 		return Result.ok(
 			chatTextResponse(
 				`@${targetUser} has unlocked ${achievements.length} achievement${achievements.length === 1 ? "" : "s"}: ${names}`,
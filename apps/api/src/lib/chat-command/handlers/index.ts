@@ -1,14 +1,28 @@
+import { AchievementModerationCommandHandler } from "./achievement-moderation";
 import { AchievementsCommandHandler } from "./achievements";
 import { CommandsCommandHandler } from "./commands";
+import { ProfileCommandHandler } from "./profile";
 import { RaffleLeaderboardCommandHandler } from "./raffle-leaderboard";
+import { RaidsCommandHandler } from "./raids";
 import { SkillIssueCommandHandler } from "./skillissue";
-import { QueueCommandHandler, SongCommandHandler } from "./song";
+import {
+	ClearQueueCommandHandler,
+	QueueCommandHandler,
+	RemoveCommandHandler,
+	SongCommandHandler,
+	VoteSkipCommandHandler,
+	WrongSongCommandHandler,
+} from "./song";
 import { StatsCommandHandler } from "./stats";
 import { TimeCommandHandler } from "./time";
 import { UpdateCommandHandler } from "./update";
 
-import type { AchievementReader } from "../../../capabilities/http-state-readers";
+import type {
+	AchievementModeration,
+	AchievementReader,
+} from "../../../capabilities/http-state-readers";
 import type { RaffleStatistics } from "../../../capabilities/raffle-statistics";
+import type { RaidStatistics } from "../../../capabilities/raid-history";
 import type { SongQueue } from "../../../capabilities/song-queue";
 import type { Clock } from "../../clock";
 import type { CommandCatalog, CommandCounterStore, ComputedCommandHandlers } from "../types";
@@ -23,15 +37,22 @@ export function makeComputedCommandHandlers(dependencies: {
 	catalog: CommandCatalog;
 	clock: Clock;
 	counters: CommandCounterStore;
-	achievements: AchievementReader;
+	achievements: AchievementReader & AchievementModeration;
 	raffles: RaffleStatistics;
+	raids: RaidStatistics;
 	songQueue: SongQueue;
+	publicBaseUrl: string;
 }): ComputedCommandHandlers {
 	return {
+		achievement: new AchievementModerationCommandHandler(dependencies.achievements),
 		achievements: new AchievementsCommandHandler(dependencies.achievements),
+		clearqueue: new ClearQueueCommandHandler(dependencies.songQueue),
 		commands: new CommandsCommandHandler(dependencies.catalog),
+		profile: new ProfileCommandHandler(dependencies.achievements, dependencies.publicBaseUrl),
 		queue: new QueueCommandHandler(dependencies.songQueue),
 		"raffle-leaderboard": new RaffleLeaderboardCommandHandler(dependencies.raffles),
+		raids: new RaidsCommandHandler(dependencies.raids),
+		remove: new RemoveCommandHandler(dependencies.songQueue),
 		skillissue: new SkillIssueCommandHandler(dependencies.counters),
 		song: new SongCommandHandler(dependencies.songQueue),
 		stats: new StatsCommandHandler(
@@ -41,9 +62,17 @@ export function makeComputedCommandHandlers(dependencies: {
 		),
 		time: new TimeCommandHandler(dependencies.clock),
 		update: new UpdateCommandHandler(dependencies.catalog),
+		voteskip: new VoteSkipCommandHandler(dependencies.songQueue, dependencies.clock),
+		wrongsong: new WrongSongCommandHandler(dependencies.songQueue),
 	};
 }
 
+/**
+ * Re-export the achievement moderation command handler.
+ *
+ * @returns AchievementModerationCommandHandler constructor from the handler module.
+ */
+export { AchievementModerationCommandHandler } from "./achievement-moderation";
 /**
  * Re-export the achievements command handler.
  *
@@ -56,18 +85,37 @@ export { AchievementsCommandHandler } from "./achievements";
  * @returns CommandsCommandHandler constructor from the handler module.
  */
 export { CommandsCommandHandler } from "./commands";
+/**
+ * Re-export the profile link command handler.
+ *
+ * @returns ProfileCommandHandler constructor from the handler module.
+ */
+export { ProfileCommandHandler } from "./profile";
 /**
  * Re-export the raffle leaderboard command handler.
  *
  * @returns RaffleLeaderboardCommandHandler constructor from the handler module.
  */
 export { RaffleLeaderboardCommandHandler } from "./raffle-leaderboard";
+/**
+ * Re-export the top raiders command handler.
+ *
+ * @returns RaidsCommandHandler constructor from the handler module.
+ */
+export { RaidsCommandHandler } from "./raids";
 /**
  * Re-export song-related command handlers.
  *
- * @returns QueueCommandHandler and SongCommandHandler constructors from the handler module.
+ * @returns Song, queue, skip-vote, and queue moderation command handler constructors from the handler module.
  */
-export { QueueCommandHandler, SongCommandHandler } from "./song";
+export {
+	ClearQueueCommandHandler,
+	QueueCommandHandler,
+	RemoveCommandHandler,
+	SongCommandHandler,
+	VoteSkipCommandHandler,
+	WrongSongCommandHandler,
+} from "./song";
 /**
  * Re-export the stats command handler.
  *
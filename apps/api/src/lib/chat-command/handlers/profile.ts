@@ -0,0 +1,39 @@
+import { Result } from "better-result";
+
+import { chatTextResponse } from "../types";
+
+import type { AchievementReader } from "../../../capabilities/http-state-readers";
+import type { ComputedCommandContext, ComputedCommandHandler } from "../types";
+
+/**
+ * Computed chat command handler that links a Viewer Profile page.
+ */
+export class ProfileCommandHandler implements ComputedCommandHandler {
+	constructor(
+		private readonly achievements: AchievementReader,
+		private readonly publicBaseUrl: string,
+	) {}
+
+	/**
+	 * Post the profile link for the requested target user, defaulting to the invoking viewer.
+	 *
+	 * @param context - Command invocation context containing the optional target user argument.
+	 * @returns A Result containing a chat response with the profile link.
+	 */
+	async handle(context: ComputedCommandContext) {
+		const targetUser = context.arg?.replace(/^@+/u, "") ?? context.viewer.displayName;
+		const result = await this.achievements.getViewerAchievementProfile(targetUser);
+		if (result.status === "error") {
+			return Result.ok(
+				chatTextResponse(`Sorry, couldn't retrieve the profile for @${targetUser}.`),
+			);
+		}
+		if (result.value === null) {
+			return Result.ok(chatTextResponse(`@${targetUser} doesn't have a profile yet.`));
+		}
+
+		const displayName = result.value.userDisplayName;
+		const url = `${this.publicBaseUrl}/profile/${encodeURIComponent(displayName.toLowerCase())}`;
+		return Result.ok(chatTextResponse(`@${displayName}'s profile: ${url}`));
+	}
+}
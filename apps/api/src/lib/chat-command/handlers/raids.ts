@@ -0,0 +1,39 @@
+import { Result } from "better-result";
+
+import { chatTextResponse } from "../types";
+
+import type { RaidStatistics } from "../../../capabilities/raid-history";
+import type { ComputedCommandHandler } from "../types";
+
+/**
+ * Computed chat command handler for top raider lookups.
+ */
+export class RaidsCommandHandler implements ComputedCommandHandler {
+	constructor(private readonly raids: RaidStatistics) {}
+
+	/**
+	 * Display the channels that raided most, with how many raids each brought.
+	 *
+	 * @returns A Result containing a chat response with top raider information.
+	 */
+	async handle() {
+		const result = await this.raids.getTopRaiders(5);
+		if (result.status === "error") {
+			return Result.ok(chatTextResponse("Sorry, couldn't retrieve the top raiders."));
+		}
+
+		const raiders = result.value;
+		if (raiders.length === 0) {
+			return Result.ok(chatTextResponse("No raids recorded yet."));
+		}
+
+		const leaderboard = raiders
+			.map(
+				(raider, idx) =>
+					`${idx + 1}. @${raider.displayName} (${raider.raids} ${raider.raids === 1 ? "raid" : "raids"}, best ${raider.biggestRaid})`,
+			)
+			.join(" ");
+
+		return Result.ok(chatTextResponse(`Top raiders: ${leaderboard}`));
+	}
+}
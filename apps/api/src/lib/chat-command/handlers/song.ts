@@ -2,9 +2,15 @@ import { Result } from "better-result";
 
 import { chatTextResponse } from "../types";
 
-import type { SongQueueReader } from "../../../capabilities/song-queue";
+import type {
+	SkipVoting,
+	SongQueueReader,
+	SongRequestModeration,
+} from "../../../capabilities/song-queue";
+import type { SongRequestSelector } from "../../../domain/song-request";
 import type { QueuedTrack } from "../../../domain/spotify-queue";
-import type { ComputedCommandHandler } from "../types";
+import type { Clock } from "../../clock";
+import type { ComputedCommandContext, ComputedCommandHandler } from "../types";
 
 /**
  * Computed chat command handler for the currently playing song.
@@ -66,3 +72,170 @@ export class QueueCommandHandler implements ComputedCommandHandler {
 		return Result.ok(chatTextResponse(`Next up: ${trackLines.join(" | ")}`));
 	}
 }
+
+/**
+ * Computed chat command handler for viewer votes to skip the current song.
+ */
+export class VoteSkipCommandHandler implements ComputedCommandHandler {
+	constructor(
+		private readonly skipVoting: SkipVoting,
+		private readonly clock: Clock,
+	) {}
+
+	/**
+	 * Cast the viewer's skip vote and report the tally or the skip.
+	 *
+	 * @param context - Command invocation context containing viewer identity.
+	 * @returns A Result containing a chat response with the vote outcome.
+	 */
+	async handle(context: ComputedCommandContext) {
+		const result = await this.skipVoting.castSkipVote({
+			userId: context.viewer.userId,
+			userDisplayName: context.viewer.displayName,
+			votedAt: this.clock.now().toISOString(),
+		});
+		if (result.status === "error") {
+			return Result.ok(chatTextResponse("Sorry, couldn't count that skip vote right now."));
+		}
+
+		const outcome = result.value;
+		switch (outcome._tag) {
+			case "NothingPlaying":
+				return Result.ok(chatTextResponse("No track currently playing."));
+			case "SkipVoteRecorded": {
+				const tally = `(${outcome.votes}/${outcome.requiredVotes})`;
+				return Result.ok(
+					chatTextResponse(
+						outcome.alreadyVoted
+							? `@${context.viewer.displayName} already voted to skip "${outcome.track.name}" ${tally}`
+							: `@${context.viewer.displayName} voted to skip "${outcome.track.name}" ${tally}`,
+					),
+				);
+			}
+			case "TrackSkipped":
+				return Result.ok(
+					chatTextResponse(
+						`Vote passed (${outcome.votes}/${outcome.requiredVotes}) - skipping "${outcome.track.name}"`,
+					),
+				);
+		}
+	}
+}
+
+function parseSongRequestSelector(arg: string | null): SongRequestSelector | null {
+	const target = arg?.trim().split(/\s+/)[0]?.replace(/^@/, "") ?? "";
+	if (target.length === 0) return null;
+	if (!/^\d+$/.test(target)) return { _tag: "Requester", displayName: target };
+	const position = Number(target);
+	return position >= 1 && position <= 100 ? { _tag: "QueuePosition", position } : null;
+}
+
+/**
+ * Computed chat command handler for moderators removing one Song Request from the queue.
+ */
+export class RemoveCommandHandler implements ComputedCommandHandler {
+	constructor(private readonly moderation: SongRequestModeration) {}
+
+	/**
+	 * Remove the request at a queue position, or a Viewer's latest upcoming request.
+	 *
+	 * @param context - Command invocation context containing the position or Viewer argument.
+	 * @returns A Result containing a chat response with the removal outcome.
+	 */
+	async handle(context: ComputedCommandContext) {
+		const selector = parseSongRequestSelector(context.arg);
+		if (selector === null) {
+			return Result.ok(chatTextResponse("Usage: !remove <position|user>"));
+		}
+
+		const result = await this.moderation.removeSongRequest(selector);
+		if (result.status === "error") {
+			return Result.ok(chatTextResponse("Sorry, couldn't remove that song request right now."));
+		}
+
+		const removal = result.value;
+		if (removal._tag === "SongRequestNotFound") {
+			return Result.ok(
+				chatTextResponse(
+					selector._tag === "QueuePosition"
+						? `No song request at position ${selector.position}.`
+						: `@${selector.displayName} has no upcoming song requests.`,
+				),
+			);
+		}
+		return Result.ok(
+			chatTextResponse(
+				`Removed "${removal.request.trackName}" requested by @${removal.request.requesterDisplayName}`,
+			),
+		);
+	}
+}
+
+/**
+ * Computed chat command handler for viewers withdrawing their own latest Song Request.
+ */
+export class WrongSongCommandHandler implements ComputedCommandHandler {
+	constructor(private readonly moderation: SongRequestModeration) {}
+
+	/**
+	 * Withdraw the viewer's latest request and report whether their points were refunded.
+	 *
+	 * @param context - Command invocation context containing viewer identity.
+	 * @returns A Result containing a chat response with the withdrawal outcome.
+	 */
+	async handle(context: ComputedCommandContext) {
+		const viewer = context.viewer.displayName;
+		const result = await this.moderation.withdrawSongRequest(context.viewer.userId);
+		if (result.status === "error") {
+			return Result.ok(chatTextResponse(`@${viewer} sorry, couldn't remove your song right now.`));
+		}
+
+		const withdrawal = result.value;
+		switch (withdrawal._tag) {
+			case "SongRequestNotFound":
+				return Result.ok(chatTextResponse(`@${viewer} you have no song requests in the queue.`));
+			case "SongRequestNowPlaying":
+				return Result.ok(
+					chatTextResponse(
+						`@${viewer} "${withdrawal.request.trackName}" is already playing and can't be removed.`,
+					),
+				);
+			case "SongRequestWithdrawn":
+				return Result.ok(
+					chatTextResponse(
+						withdrawal.refunded
+							? `@${viewer} removed "${withdrawal.request.trackName}" and refunded your points.`
+							: `@${viewer} removed "${withdrawal.request.trackName}", but your points couldn't be refunded.`,
+					),
+				);
+		}
+	}
+}
+
+/**
+ * Computed chat command handler for moderators clearing every upcoming Song Request.
+ */
+export class ClearQueueCommandHandler implements ComputedCommandHandler {
+	constructor(private readonly moderation: SongRequestModeration) {}
+
+	/**
+	 * Remove all upcoming requests, leaving Now Playing untouched.
+	 *
+	 * @returns A Result containing a chat response with how many requests were cleared.
+	 */
+	async handle() {
+		const result = await this.moderation.clearSongRequests();
+		if (result.status === "error") {
+			return Result.ok(chatTextResponse("Sorry, couldn't clear the queue right now."));
+		}
+
+		const { removed, failed } = result.value;
+		if (removed === 0 && failed === 0) {
+			return Result.ok(chatTextResponse("No song requests to clear."));
+		}
+		const cleared = `Cleared ${removed} song ${removed === 1 ? "request" : "requests"}`;
+		return Result.ok(
+			chatTextResponse(failed === 0 ? cleared : `${cleared} (${failed} couldn't be removed)`),
+		);
+	}
+}
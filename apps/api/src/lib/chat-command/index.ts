@@ -1,8 +1,12 @@
 import { ChatCommandEngine } from "./executor";
 import { makeComputedCommandHandlers } from "./handlers";
 
-import type { AchievementReader } from "../../capabilities/http-state-readers";
+import type {
+	AchievementModeration,
+	AchievementReader,
+} from "../../capabilities/http-state-readers";
 import type { RaffleStatistics } from "../../capabilities/raffle-statistics";
+import type { RaidStatistics } from "../../capabilities/raid-history";
 import type { SongQueue } from "../../capabilities/song-queue";
 import type { Clock } from "../clock";
 import type { Logger } from "../logging";
@@ -21,9 +25,12 @@ export type ChatCommandEngineDependencies = Readonly<{
 	counters: CommandCounterStore;
 	sender: ChatSender;
 	metrics: ChatCommandMetrics;
-	achievements: AchievementReader;
+	achievements: AchievementReader & AchievementModeration;
 	raffles: RaffleStatistics;
+	raids: RaidStatistics;
 	songQueue: SongQueue;
+	/** Origin the Worker is publicly served from, without a trailing slash */
+	publicBaseUrl: string;
 	clock: Clock;
 	logger: Logger;
 	sendCheckpoint?: ChatCommandSendCheckpoint;
@@ -43,7 +50,9 @@ export function makeChatCommandExecutor(
 			counters: dependencies.counters,
 			achievements: dependencies.achievements,
 			raffles: dependencies.raffles,
+			raids: dependencies.raids,
 			songQueue: dependencies.songQueue,
+			publicBaseUrl: dependencies.publicBaseUrl,
 		}),
 		dependencies.clock,
 		dependencies.logger,
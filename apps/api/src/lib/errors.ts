@@ -460,17 +460,12 @@ export class InvalidSpotifyUrlError extends TaggedError("InvalidSpotifyUrlError"
 	}
 }
 
-export class UnknownRewardError extends TaggedError("UnknownRewardError")<{
-	redemptionId: string;
-	rewardId: string;
-	rewardTitle: string;
+export class SpotifySearchNoMatchError extends TaggedError("SpotifySearchNoMatchError")<{
+	query: string;
 	message: string;
 }> {
-	constructor(args: { redemptionId: string; rewardId: string; rewardTitle: string }) {
-		super({
-			...args,
-			message: `Unknown reward ${args.rewardId} (${args.rewardTitle}) for redemption ${args.redemptionId}`,
-		});
+	constructor(args: { query: string }) {
+		super({ ...args, message: `No confident Spotify match for: ${args.query}` });
 	}
 }
 
@@ -485,6 +480,102 @@ export class RewardRoutingConfigError extends TaggedError("RewardRoutingConfigEr
 	}
 }
 
+// =============================================================================
+// Reward Registry Errors
+// =============================================================================
+
+export class RewardRegistryValidationError extends TaggedError("RewardRegistryValidationError")<{
+	parseError: string;
+	message: string;
+}> {
+	constructor(args: { parseError: string }) {
+		super({
+			...args,
+			message: `Invalid reward registry input: ${args.parseError}`,
+		});
+	}
+}
+
+export class RewardRegistryDbError extends TaggedError("RewardRegistryDbError")<{
+	operation: string;
+	message: string;
+	cause?: unknown;
+}> {
+	constructor(args: { operation: string; cause?: unknown }) {
+		super({
+			operation: args.operation,
+			message: `Reward registry DB error during ${args.operation}`,
+			cause: args.cause,
+		});
+	}
+}
+
+/** Union of all reward registry errors */
+export type RewardRegistryError = RewardRegistryValidationError | RewardRegistryDbError;
+
+// =============================================================================
+// Outbound Webhook Errors
+// =============================================================================
+
+export class OutboundWebhookValidationError extends TaggedError("OutboundWebhookValidationError")<{
+	parseError: string;
+	message: string;
+}> {
+	constructor(args: { parseError: string }) {
+		super({
+			...args,
+			message: `Invalid outbound webhook input: ${args.parseError}`,
+		});
+	}
+}
+
+export class OutboundWebhookNotFoundError extends TaggedError("OutboundWebhookNotFoundError")<{
+	webhookId: string;
+	message: string;
+}> {
+	constructor(args: { webhookId: string }) {
+		super({ ...args, message: `Outbound webhook not found: ${args.webhookId}` });
+	}
+}
+
+/** One or more endpoints rejected or never answered an event; delivered endpoints are not re-posted. */
+export class OutboundWebhookDeliveryError extends TaggedError("OutboundWebhookDeliveryError")<{
+	eventId: string;
+	failures: ReadonlyArray<{ webhookId: string; status: number | null }>;
+	message: string;
+}> {
+	constructor(args: {
+		eventId: string;
+		failures: ReadonlyArray<{ webhookId: string; status: number | null }>;
+	}) {
+		super({
+			...args,
+			message: `Outbound webhook delivery failed for ${args.failures.length} endpoint(s)`,
+		});
+	}
+}
+
+export class OutboundWebhookDbError extends TaggedError("OutboundWebhookDbError")<{
+	operation: string;
+	message: string;
+	cause?: unknown;
+}> {
+	constructor(args: { operation: string; cause?: unknown }) {
+		super({
+			operation: args.operation,
+			message: `Outbound webhook DB error during ${args.operation}`,
+			cause: args.cause,
+		});
+	}
+}
+
+/** Union of all outbound webhook errors */
+export type OutboundWebhookError =
+	| OutboundWebhookValidationError
+	| OutboundWebhookNotFoundError
+	| OutboundWebhookDeliveryError
+	| OutboundWebhookDbError;
+
 // =============================================================================
 // Song Queue Errors
 // =============================================================================
@@ -634,13 +725,123 @@ export class InvalidAchievementRecordError extends TaggedError("InvalidAchieveme
 	}
 }
 
+/** Expected failure for an Achievement Definition the rules cannot evaluate as written. */
+export class AchievementDefinitionValidationError extends TaggedError(
+	"AchievementDefinitionValidationError",
+)<{ parseError: string; message: string }> {
+	constructor(args: { parseError: string }) {
+		super({ ...args, message: `Invalid Achievement Definition: ${args.parseError}` });
+	}
+}
+
+/**
+ * Expected failure when an Achievement Definition id is already taken, or
+ * when a change targets a retired definition.
+ */
+export class AchievementDefinitionConflictError extends TaggedError(
+	"AchievementDefinitionConflictError",
+)<{ achievementId: string; reason: "exists" | "retired"; message: string }> {
+	constructor(args: { achievementId: string; reason: "exists" | "retired" }) {
+		super({
+			...args,
+			message:
+				args.reason === "exists"
+					? `Achievement Definition already exists: ${args.achievementId}`
+					: `Achievement Definition is retired: ${args.achievementId}`,
+		});
+	}
+}
+
+/** Expected failure when an Achievement Backfill starts while another is still running. */
+export class AchievementBackfillInProgressError extends TaggedError(
+	"AchievementBackfillInProgressError",
+)<{ runId: string; message: string }> {
+	constructor(args: { runId: string }) {
+		super({ ...args, message: `Achievement Backfill already running: ${args.runId}` });
+	}
+}
+
+/** Expected failure when no Season has the given id. */
+export class AchievementSeasonNotFoundError extends TaggedError("AchievementSeasonNotFoundError")<{
+	seasonId: string;
+	message: string;
+}> {
+	constructor(args: { seasonId: string }) {
+		super({ ...args, message: `Season not found: ${args.seasonId}` });
+	}
+}
+
+/**
+ * Expected failure when a new Season reuses an id or overlaps another Season,
+ * or when a rollover targets a Season that is archived or has not started.
+ */
+export class AchievementSeasonConflictError extends TaggedError("AchievementSeasonConflictError")<{
+	seasonId: string;
+	reason: "exists" | "overlaps" | "archived" | "upcoming";
+	message: string;
+}> {
+	constructor(args: { seasonId: string; reason: "exists" | "overlaps" | "archived" | "upcoming" }) {
+		super({
+			...args,
+			message:
+				args.reason === "exists"
+					? `Season already exists: ${args.seasonId}`
+					: args.reason === "overlaps"
+						? `Season overlaps another Season: ${args.seasonId}`
+						: args.reason === "archived"
+							? `Season is already archived: ${args.seasonId}`
+							: `Season has not started yet: ${args.seasonId}`,
+		});
+	}
+}
+
+/** Expected failure when no Viewer matches an Achievement Moderation lookup. */
+export class AchievementViewerNotFoundError extends TaggedError("AchievementViewerNotFoundError")<{
+	viewer: string;
+	message: string;
+}> {
+	constructor(args: { viewer: string }) {
+		super({ ...args, message: `Viewer not found: ${args.viewer}` });
+	}
+}
+
+/**
+ * Expected failure when a moderator grants an Achievement the Viewer already
+ * has, or revokes one they have not unlocked.
+ */
+export class AchievementModerationConflictError extends TaggedError(
+	"AchievementModerationConflictError",
+)<{
+	achievementId: string;
+	userId: string;
+	reason: "unlocked" | "locked";
+	message: string;
+}> {
+	constructor(args: { achievementId: string; userId: string; reason: "unlocked" | "locked" }) {
+		super({
+			...args,
+			message:
+				args.reason === "unlocked"
+					? `Viewer ${args.userId} already unlocked ${args.achievementId}`
+					: `Viewer ${args.userId} has not unlocked ${args.achievementId}`,
+		});
+	}
+}
+
 /** Union of all achievement-related errors */
 export type AchievementError =
 	| AchievementDbError
 	| AchievementNotFoundError
 	| AchievementEventValidationError
 	| AchievementQueryValidationError
-	| InvalidAchievementRecordError;
+	| InvalidAchievementRecordError
+	| AchievementDefinitionValidationError
+	| AchievementDefinitionConflictError
+	| AchievementBackfillInProgressError
+	| AchievementSeasonNotFoundError
+	| AchievementSeasonConflictError
+	| AchievementViewerNotFoundError
+	| AchievementModerationConflictError;
 
 // =============================================================================
 // Commands Errors
@@ -884,6 +1085,39 @@ export type EventBusError =
 	| EventBusDbError
 	| DLQItemNotFoundError;
 
+// =============================================================================
+// Overlay Feed Errors
+// =============================================================================
+
+export class OverlayFeedValidationError extends TaggedError("OverlayFeedValidationError")<{
+	parseError: string;
+	message: string;
+}> {
+	constructor(args: { parseError: string }) {
+		super({
+			...args,
+			message: `Invalid overlay feed input: ${args.parseError}`,
+		});
+	}
+}
+
+export class OverlayFeedDbError extends TaggedError("OverlayFeedDbError")<{
+	operation: string;
+	message: string;
+	cause?: unknown;
+}> {
+	constructor(args: { operation: string; cause?: unknown }) {
+		super({
+			operation: args.operation,
+			message: `Overlay feed DB error during ${args.operation}`,
+			cause: args.cause,
+		});
+	}
+}
+
+/** Union of all overlay feed errors */
+export type OverlayFeedError = OverlayFeedValidationError | OverlayFeedDbError;
+
 // =============================================================================
 // Stream Lifecycle Errors and Interface
 // =============================================================================
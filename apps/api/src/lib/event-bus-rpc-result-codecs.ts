@@ -2,8 +2,13 @@ import { Result } from "better-result";
 import { z } from "zod";
 
 import {
+	DeadLetterBulkDeleteResultSchema,
+	DeadLetterBulkReplayResultSchema,
 	DeadLetterListSchema,
 	DeadLetterReplayResultSchema,
+	DeadLetterSummarySchema,
+	EventLogReplayResultSchema,
+	EventSubscriberLagListSchema,
 	PendingEventListSchema,
 } from "../capabilities/event-bus-administration";
 import {
@@ -83,3 +88,21 @@ export const ReplayDeadLetterEventResultCodec = createEventBusResultCodec(
 );
 /** RPC codec for deleting one dead-letter Domain Event. */
 export const DeleteDeadLetterEventResultCodec = createEventBusResultCodec(z.undefined());
+/** RPC codec for grouping dead-letter Domain Events by error reason. */
+export const GetDeadLetterSummaryResultCodec = createEventBusResultCodec(DeadLetterSummarySchema);
+/** RPC codec for replaying every dead-letter Domain Event matching a filter. */
+export const BulkReplayDeadLetterEventsResultCodec = createEventBusResultCodec(
+	DeadLetterBulkReplayResultSchema,
+);
+/** RPC codec for deleting every dead-letter Domain Event matching a filter. */
+export const BulkDeleteDeadLetterEventsResultCodec = createEventBusResultCodec(
+	DeadLetterBulkDeleteResultSchema,
+);
+
+/** RPC codec for reading each subscriber's Event Bus backlog. */
+export const GetEventSubscriberLagResultCodec = createEventBusResultCodec(
+	EventSubscriberLagListSchema,
+);
+
+/** RPC codec for replaying one page of the Event Log to one subscriber. */
+export const ReplayEventLogResultCodec = createEventBusResultCodec(EventLogReplayResultSchema);
@@ -1,6 +1,7 @@
 import { Result } from "better-result";
 import { z } from "zod";
 
+import { ChatActivityClaimError } from "../capabilities/eventsub-receipts";
 import {
 	EventSubReceiptConflictError,
 	EventSubReceiptCorruptError,
@@ -52,3 +53,26 @@ export const GetEventSubReceiptStatusResultCodec = Result.codec({
 		err: EventSubReceiptErrorFromWireSchema,
 	},
 });
+
+const ChatActivityClaimWireErrorSchema = z.object({
+	_tag: z.literal("ChatActivityClaimError"),
+	failure: z.enum(["transport", "protocol", "invalid"]),
+	message: z.string(),
+});
+
+/** RPC codec for claiming one Viewer's Chat Activity window. */
+export const ClaimChatActivityWindowResultCodec = Result.codec({
+	serialize: {
+		ok: z.boolean(),
+		err: z
+			.custom<ChatActivityClaimError>((value) => ChatActivityClaimError.is(value))
+			.transform((error) => ({ _tag: error._tag, failure: error.failure, message: error.message }))
+			.pipe(ChatActivityClaimWireErrorSchema),
+	},
+	deserialize: {
+		ok: z.boolean(),
+		err: ChatActivityClaimWireErrorSchema.transform(
+			(error) => new ChatActivityClaimError({ failure: error.failure }),
+		),
+	},
+});
@@ -2,6 +2,7 @@ import { Result } from "better-result";
 import { z } from "zod";
 
 import {
+	KeyboardRaffleRollPageSchema,
 	KeyboardRaffleRollSchema,
 	RaffleLeaderboardEntrySchema,
 	RaffleLeaderboardSchema,
@@ -88,6 +89,10 @@ export const RecordKeyboardRaffleRollResultCodec = createKeyboardRaffleResultCod
 );
 /** RPC codec for deleting one Keyboard Raffle Roll. */
 export const DeleteKeyboardRaffleRollResultCodec = createKeyboardRaffleResultCodec(z.undefined());
+/** RPC codec for reading persisted Rolls in chronological order. */
+export const GetKeyboardRaffleRollsAfterResultCodec = createKeyboardRaffleResultCodec(
+	KeyboardRaffleRollPageSchema,
+);
 /** RPC codec for reading the Keyboard Raffle leaderboard. */
 export const GetKeyboardRaffleLeaderboardResultCodec =
 	createKeyboardRaffleResultCodec(RaffleLeaderboardSchema);
@@ -0,0 +1,151 @@
+import { EventType, type Event } from "../domain/domain-event";
+import { parseSpotifyTrackId } from "./spotify-track-id";
+
+import type { OutboundWebhookFormat, OutboundWebhookTopic } from "../domain/outbound-webhook";
+
+/** Header carrying `sha256=<hex>` HMAC of `<timestamp>.<body>` keyed with the endpoint secret. */
+export const OUTBOUND_WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+/** Header carrying the signing time, so receivers can reject stale replays. */
+export const OUTBOUND_WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+/** Header present on administrator-requested Event Log replays, absent on live posts. */
+export const OUTBOUND_WEBHOOK_REPLAY_HEADER = "X-Webhook-Replay";
+
+const TWITCH_PURPLE = 0x9146ff;
+const OFFLINE_GREY = 0x6b7280;
+const SPOTIFY_GREEN = 0x1db954;
+const RAFFLE_GOLD = 0xf5b301;
+
+interface DiscordEmbed {
+	readonly title: string;
+	readonly description: string;
+	readonly color: number;
+	readonly timestamp: string;
+	readonly url?: string;
+}
+
+/** One signed Outbound Webhook post, ready for `fetch`. */
+export interface OutboundWebhookRequest {
+	readonly body: string;
+	readonly headers: Record<string, string>;
+}
+
+/**
+ * Render one domain event in an Outbound Webhook's format. JSON posts carry
+ * the event verbatim and whether it is a replay; Discord posts carry one
+ * embed, so a Discord channel webhook URL can be registered as is.
+ */
+export function renderOutboundWebhookPayload(
+	format: OutboundWebhookFormat,
+	topic: OutboundWebhookTopic,
+	event: Event,
+	replay = false,
+): unknown {
+	switch (format) {
+		case "json":
+			return { id: event.id, topic, occurredAt: event.timestamp, replay, event };
+		case "discord":
+			return { embeds: [renderDiscordEmbed(event)] };
+	}
+}
+
+function renderDiscordEmbed(event: Event): DiscordEmbed {
+	const timestamp = event.timestamp;
+	switch (event.type) {
+		case EventType.StreamOnline:
+			return {
+				title: "🔴 Stream is live!",
+				description: "Come hang out in chat.",
+				color: TWITCH_PURPLE,
+				timestamp: event.startedAt,
+			};
+		case EventType.StreamOffline:
+			return {
+				title: "Stream is offline",
+				description: "Thanks for watching!",
+				color: OFFLINE_GREY,
+				timestamp: event.endedAt,
+			};
+		case EventType.SongRequestSuccess: {
+			const trackId = parseSpotifyTrackId(event.trackId);
+			return {
+				title: "🎵 Song requested",
+				description: `@${event.userDisplayName} added a song to the queue.`,
+				color: SPOTIFY_GREEN,
+				timestamp,
+				...(trackId.isOk() ? { url: `https://open.spotify.com/track/${trackId.value}` } : {}),
+			};
+		}
+		case EventType.RaffleRoll:
+			return {
+				title: "🎹 We have a raffle winner!",
+				description: `@${event.userDisplayName} rolled ${event.roll} and won the keyboard raffle!`,
+				color: RAFFLE_GOLD,
+				timestamp,
+			};
+		case EventType.AchievementUnlocked:
+			return {
+				title: "🏆 Achievement unlocked",
+				description:
+					`@${event.userDisplayName} unlocked "${event.achievementName}"! ${event.achievementDescription}`.trim(),
+				color: TWITCH_PURPLE,
+				timestamp,
+			};
+		// Never posted: these events have no Outbound Webhook topic.
+		case EventType.SongSkipped:
+		case EventType.ChatMessageObserved:
+		case EventType.RaidReceived:
+			return { title: event.type, description: "", color: TWITCH_PURPLE, timestamp };
+	}
+}
+
+/**
+ * Render and sign one Outbound Webhook post.
+ *
+ * @param input - Endpoint format and secret, the event, its topic and delivery, and the signing time.
+ * @returns The JSON body and the headers receivers verify it with.
+ */
+export async function buildOutboundWebhookRequest(input: {
+	readonly format: OutboundWebhookFormat;
+	readonly secret: string;
+	readonly topic: OutboundWebhookTopic;
+	readonly event: Event;
+	readonly replay: boolean;
+	readonly signedAt: Date;
+}): Promise<OutboundWebhookRequest> {
+	const body = JSON.stringify(
+		renderOutboundWebhookPayload(input.format, input.topic, input.event, input.replay),
+	);
+	const timestamp = Math.floor(input.signedAt.getTime() / 1000).toString();
+	const signature = await signOutboundWebhookPayload(input.secret, timestamp, body);
+	return {
+		body,
+		headers: {
+			"content-type": "application/json",
+			[OUTBOUND_WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`,
+			[OUTBOUND_WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+			"X-Webhook-Event-Id": input.event.id,
+			"X-Webhook-Topic": input.topic,
+			...(input.replay ? { [OUTBOUND_WEBHOOK_REPLAY_HEADER]: "true" } : {}),
+		},
+	};
+}
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>` keyed with an endpoint secret. */
+export async function signOutboundWebhookPayload(
+	secret: string,
+	timestamp: string,
+	body: string,
+): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = new Uint8Array(
+		await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`)),
+	);
+	return [...signature].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,89 @@
+import { Result } from "better-result";
+import { z } from "zod";
+
+import { OutboundWebhookSchema } from "../domain/outbound-webhook";
+import {
+	OutboundWebhookDbError,
+	OutboundWebhookDeliveryError,
+	OutboundWebhookNotFoundError,
+	OutboundWebhookValidationError,
+	type OutboundWebhookError,
+} from "./errors";
+
+const OutboundWebhookWireErrorSchema = z.discriminatedUnion("_tag", [
+	z.object({
+		_tag: z.literal("OutboundWebhookValidationError"),
+		parseError: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("OutboundWebhookNotFoundError"),
+		webhookId: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("OutboundWebhookDeliveryError"),
+		eventId: z.string(),
+		failures: z
+			.array(z.object({ webhookId: z.string(), status: z.number().int().nullable() }))
+			.readonly(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("OutboundWebhookDbError"),
+		operation: z.string(),
+		cause: z.unknown().optional(),
+		message: z.string(),
+	}),
+]);
+type OutboundWebhookWireError = z.infer<typeof OutboundWebhookWireErrorSchema>;
+const OutboundWebhookErrorToWireSchema = z
+	.custom<OutboundWebhookError>(
+		(value) => typeof value === "object" && value !== null && "_tag" in value,
+	)
+	.transform((error): OutboundWebhookWireError => ({ ...error, message: error.message }))
+	.pipe(OutboundWebhookWireErrorSchema);
+const OutboundWebhookErrorFromWireSchema = OutboundWebhookWireErrorSchema.transform(
+	(error): OutboundWebhookError => {
+		switch (error._tag) {
+			case "OutboundWebhookValidationError":
+				return new OutboundWebhookValidationError({ parseError: error.parseError });
+			case "OutboundWebhookNotFoundError":
+				return new OutboundWebhookNotFoundError({ webhookId: error.webhookId });
+			case "OutboundWebhookDeliveryError":
+				return new OutboundWebhookDeliveryError({
+					eventId: error.eventId,
+					failures: error.failures,
+				});
+			case "OutboundWebhookDbError":
+				return new OutboundWebhookDbError({ operation: error.operation, cause: error.cause });
+		}
+	},
+);
+function createOutboundWebhookResultCodec<T>(okSchema: z.ZodType<T>) {
+	return Result.codec({
+		serialize: { ok: okSchema, err: OutboundWebhookErrorToWireSchema },
+		deserialize: { ok: okSchema, err: OutboundWebhookErrorFromWireSchema },
+	});
+}
+
+/** RPC codec for listing every Outbound Webhook. */
+export const ListOutboundWebhooksResultCodec = createOutboundWebhookResultCodec(
+	z.array(OutboundWebhookSchema),
+);
+
+/** RPC codec for registering one Outbound Webhook. */
+export const CreateOutboundWebhookResultCodec =
+	createOutboundWebhookResultCodec(OutboundWebhookSchema);
+
+/** RPC codec for editing one Outbound Webhook. */
+export const UpdateOutboundWebhookResultCodec =
+	createOutboundWebhookResultCodec(OutboundWebhookSchema);
+
+/** RPC codec for deleting an Outbound Webhook; false when the id was unknown. */
+export const DeleteOutboundWebhookResultCodec = createOutboundWebhookResultCodec(z.boolean());
+
+/** RPC codec for posting one domain event to every subscribed Outbound Webhook. */
+export const HandleOutboundWebhookEventResultCodec = createOutboundWebhookResultCodec(
+	z.undefined(),
+);
@@ -0,0 +1,71 @@
+import { Result } from "better-result";
+import { z } from "zod";
+
+import { OverlayAlertSchema, OverlayFeedCursorSchema } from "../domain/overlay-event";
+import { OverlayThemePresetSchema } from "../domain/overlay-theme";
+import { OverlayFeedDbError, OverlayFeedValidationError, type OverlayFeedError } from "./errors";
+
+const OverlayFeedWireErrorSchema = z.discriminatedUnion("_tag", [
+	z.object({
+		_tag: z.literal("OverlayFeedValidationError"),
+		parseError: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("OverlayFeedDbError"),
+		operation: z.string(),
+		cause: z.unknown().optional(),
+		message: z.string(),
+	}),
+]);
+type OverlayFeedWireError = z.infer<typeof OverlayFeedWireErrorSchema>;
+const OverlayFeedErrorToWireSchema = z
+	.custom<OverlayFeedError>(
+		(value) => typeof value === "object" && value !== null && "_tag" in value,
+	)
+	.transform((error): OverlayFeedWireError => ({ ...error, message: error.message }))
+	.pipe(OverlayFeedWireErrorSchema);
+const OverlayFeedErrorFromWireSchema = OverlayFeedWireErrorSchema.transform(
+	(error): OverlayFeedError => {
+		switch (error._tag) {
+			case "OverlayFeedValidationError":
+				return new OverlayFeedValidationError({ parseError: error.parseError });
+			case "OverlayFeedDbError":
+				return new OverlayFeedDbError({ operation: error.operation, cause: error.cause });
+		}
+	},
+);
+function createOverlayFeedResultCodec<T>(okSchema: z.ZodType<T>) {
+	return Result.codec({
+		serialize: { ok: okSchema, err: OverlayFeedErrorToWireSchema },
+		deserialize: { ok: okSchema, err: OverlayFeedErrorFromWireSchema },
+	});
+}
+
+/** RPC codec for appending one overlay event; the ok value is its feed cursor. */
+export const PublishOverlayEventResultCodec = createOverlayFeedResultCodec(OverlayFeedCursorSchema);
+
+/** RPC codec for reading the alert at the head of the display queue, or null when empty. */
+export const NextOverlayAlertResultCodec = createOverlayFeedResultCodec(
+	OverlayAlertSchema.nullable(),
+);
+
+/** RPC codec for marking an alert shown; false when the alert id is unknown. */
+export const MarkOverlayAlertShownResultCodec = createOverlayFeedResultCodec(z.boolean());
+
+/** RPC codec for reading one Overlay Theme preset, or null when it does not exist. */
+export const GetOverlayThemePresetResultCodec = createOverlayFeedResultCodec(
+	OverlayThemePresetSchema.nullable(),
+);
+
+/** RPC codec for listing every Overlay Theme preset. */
+export const ListOverlayThemePresetsResultCodec = createOverlayFeedResultCodec(
+	z.array(OverlayThemePresetSchema),
+);
+
+/** RPC codec for creating or replacing an Overlay Theme preset. */
+export const SaveOverlayThemePresetResultCodec =
+	createOverlayFeedResultCodec(OverlayThemePresetSchema);
+
+/** RPC codec for deleting an Overlay Theme preset; false when it did not exist. */
+export const DeleteOverlayThemePresetResultCodec = createOverlayFeedResultCodec(z.boolean());
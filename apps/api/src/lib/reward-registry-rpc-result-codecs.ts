@@ -0,0 +1,72 @@
+import { Result } from "better-result";
+import { z } from "zod";
+
+import { RewardBindingSchema, UnrecognizedRewardSchema } from "../domain/channel-point-reward";
+import {
+	RewardRegistryDbError,
+	RewardRegistryValidationError,
+	type RewardRegistryError,
+} from "./errors";
+
+const RewardRegistryWireErrorSchema = z.discriminatedUnion("_tag", [
+	z.object({
+		_tag: z.literal("RewardRegistryValidationError"),
+		parseError: z.string(),
+		message: z.string(),
+	}),
+	z.object({
+		_tag: z.literal("RewardRegistryDbError"),
+		operation: z.string(),
+		cause: z.unknown().optional(),
+		message: z.string(),
+	}),
+]);
+type RewardRegistryWireError = z.infer<typeof RewardRegistryWireErrorSchema>;
+const RewardRegistryErrorToWireSchema = z
+	.custom<RewardRegistryError>(
+		(value) => typeof value === "object" && value !== null && "_tag" in value,
+	)
+	.transform((error): RewardRegistryWireError => ({ ...error, message: error.message }))
+	.pipe(RewardRegistryWireErrorSchema);
+const RewardRegistryErrorFromWireSchema = RewardRegistryWireErrorSchema.transform(
+	(error): RewardRegistryError => {
+		switch (error._tag) {
+			case "RewardRegistryValidationError":
+				return new RewardRegistryValidationError({ parseError: error.parseError });
+			case "RewardRegistryDbError":
+				return new RewardRegistryDbError({ operation: error.operation, cause: error.cause });
+		}
+	},
+);
+function createRewardRegistryResultCodec<T>(okSchema: z.ZodType<T>) {
+	return Result.codec({
+		serialize: { ok: okSchema, err: RewardRegistryErrorToWireSchema },
+		deserialize: { ok: okSchema, err: RewardRegistryErrorFromWireSchema },
+	});
+}
+
+/** RPC codec for looking up the Reward Binding of one reward id, or null when unbound. */
+export const ResolveRewardResultCodec = createRewardRegistryResultCodec(
+	RewardBindingSchema.nullable(),
+);
+
+/** RPC codec for listing every Reward Binding. */
+export const ListRewardBindingsResultCodec = createRewardRegistryResultCodec(
+	z.array(RewardBindingSchema),
+);
+
+/** RPC codec for creating or replacing one Reward Binding. */
+export const SaveRewardBindingResultCodec = createRewardRegistryResultCodec(RewardBindingSchema);
+
+/** RPC codec for deleting a Reward Binding; false when the reward was not bound. */
+export const DeleteRewardBindingResultCodec = createRewardRegistryResultCodec(z.boolean());
+
+/** RPC codec for recording a redemption of an unbound reward. */
+export const RecordUnrecognizedRedemptionResultCodec = createRewardRegistryResultCodec(
+	z.undefined(),
+);
+
+/** RPC codec for listing unbound rewards that viewers have redeemed. */
+export const ListUnrecognizedRewardsResultCodec = createRewardRegistryResultCodec(
+	z.array(UnrecognizedRewardSchema),
+);
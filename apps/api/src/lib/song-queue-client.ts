@@ -1,6 +1,10 @@
 import { Result } from "better-result";
 
-import { SongQueueCoordinationError, SongQueueParseError } from "../capabilities/song-queue";
+import {
+	SongQueueCoordinationError,
+	SongQueueParseError,
+	SongQueueSpotifyError,
+} from "../capabilities/song-queue";
 import { DurableObjectError, SongQueueDbError } from "./errors";
 import { callRpcResultUnsafe } from "./rpc-result";
 import {
@@ -26,7 +30,11 @@ import type {
 import type { NowPlaying } from "../domain/spotify-queue";
 import type { SongQueueRpcHandleStub } from "../durable-objects/song-queue-do";
 
-type SongQueueError = SongQueueDbError | SongQueueParseError | SongQueueCoordinationError;
+type SongQueueError =
+	| SongQueueDbError
+	| SongQueueParseError
+	| SongQueueCoordinationError
+	| SongQueueSpotifyError;
 
 type SongQueueHandleAcquisition = Promise<Result<SongQueueRpcHandleStub, DurableObjectError>>;
 
@@ -1,17 +1,35 @@
 import { Result } from "better-result";
 import { z } from "zod";
 
-import { SongQueueCoordinationError, SongQueueParseError } from "../capabilities/song-queue";
 import {
+	SongQueueCoordinationError,
+	SongQueueParseError,
+	SongQueueSpotifyError,
+} from "../capabilities/song-queue";
+import {
+	RequestHistoryPageSchema,
 	RequestHistoryResultSchema,
+	SongRequestPolicyDecisionSchema,
+	SongRequestPolicySchema,
+	SongRequestRemovalSchema,
+	SongRequestWithdrawalSchema,
+	SongRequestsClearedSchema,
 	SpotifyQueueResultSchema,
 	TopRequestedTrackSchema,
 	TopSongRequesterSchema,
+	TrackBlocklistEntrySchema,
+	TrackContentDecisionSchema,
+	TrackContentFilterSchema,
+	TrackContentRulesSchema,
 } from "../domain/song-request";
-import { NowPlayingSchema } from "../domain/spotify-queue";
+import { NowPlayingSchema, SkipVoteResultSchema } from "../domain/spotify-queue";
 import { SongQueueDbError, SongRequestNotFoundError } from "./errors";
 
-type SongQueueRpcError = SongQueueDbError | SongQueueParseError | SongQueueCoordinationError;
+type SongQueueRpcError =
+	| SongQueueDbError
+	| SongQueueParseError
+	| SongQueueCoordinationError
+	| SongQueueSpotifyError;
 
 const SongQueueWireErrorSchema = z.discriminatedUnion("_tag", [
 	z.object({
@@ -34,6 +52,13 @@ const SongQueueWireErrorSchema = z.discriminatedUnion("_tag", [
 		message: z.string(),
 		cause: z.unknown().optional(),
 	}),
+	z.object({
+		_tag: z.literal("SongQueueSpotifyError"),
+		operation: z.string(),
+		spotifyErrorTag: z.string(),
+		message: z.string(),
+		cause: z.unknown().optional(),
+	}),
 ]);
 
 /** Clone-safe wire representation of an expected Song Queue failure. */
@@ -47,7 +72,8 @@ const SongQueueErrorToWireSchema = z
 			"_tag" in value &&
 			(value._tag === "SongQueueDbError" ||
 				value._tag === "SongQueueParseError" ||
-				value._tag === "SongQueueCoordinationError"),
+				value._tag === "SongQueueCoordinationError" ||
+				value._tag === "SongQueueSpotifyError"),
 	)
 	.transform((error): SongQueueWireError => {
 		switch (error._tag) {
@@ -74,6 +100,14 @@ const SongQueueErrorToWireSchema = z
 					message: error.message,
 					cause: error.cause,
 				};
+			case "SongQueueSpotifyError":
+				return {
+					_tag: error._tag,
+					operation: error.operation,
+					spotifyErrorTag: error.spotifyErrorTag,
+					message: error.message,
+					cause: error.cause,
+				};
 			default:
 				throw new Error("Song Queue RPC codec received an unsupported failure");
 		}
@@ -93,6 +127,12 @@ const SongQueueErrorFromWireSchema = SongQueueWireErrorSchema.transform(
 				});
 			case "SongQueueCoordinationError":
 				return new SongQueueCoordinationError({ operation: error.operation, cause: error.cause });
+			case "SongQueueSpotifyError":
+				return new SongQueueSpotifyError({
+					operation: error.operation,
+					spotifyErrorTag: error.spotifyErrorTag,
+					cause: error.cause,
+				});
 		}
 	},
 );
@@ -144,6 +184,9 @@ export const GetSongQueueResultCodec = createSongQueueResultCodec(SpotifyQueueRe
 export const GetCurrentlyPlayingResultCodec = createSongQueueResultCodec(NowPlayingSchema);
 /** RPC codec for reading bounded Song Request History. */
 export const GetRequestHistoryResultCodec = createSongQueueResultCodec(RequestHistoryResultSchema);
+/** RPC codec for reading Song Request History oldest first after a cursor. */
+export const GetRequestHistoryAfterResultCodec =
+	createSongQueueResultCodec(RequestHistoryPageSchema);
 /** RPC codec for counting Song Requests in one Stream Session. */
 export const GetSessionRequestCountResultCodec = createSongQueueResultCodec(
 	z.number().int().nonnegative(),
@@ -170,3 +213,41 @@ export const GetTopRequestersResultCodec = createSongQueueResultCodec(
 );
 /** RPC codec for checking a recent duplicate Song Request. */
 export const CheckDuplicateSongRequestResultCodec = createSongQueueResultCodec(z.boolean());
+/** RPC codec for casting one Viewer's Skip Vote against Now Playing. */
+export const CastSkipVoteResultCodec = createSongQueueResultCodec(SkipVoteResultSchema);
+/** RPC codec for applying a Song Request Policy to one Viewer's redemption. */
+export const CheckSongRequestPolicyResultCodec = createSongQueueResultCodec(
+	SongRequestPolicyDecisionSchema,
+);
+/** RPC codec for atomically admitting one Song Request under its Viewer role's policy. */
+export const AdmitSongRequestResultCodec = createSongQueueResultCodec(
+	SongRequestPolicyDecisionSchema,
+);
+/** RPC codec for listing the effective Song Request Policy of every Viewer role. */
+export const GetSongRequestPoliciesResultCodec = createSongQueueResultCodec(
+	z.array(SongRequestPolicySchema).max(10),
+);
+/** RPC codec for storing one Viewer role's Song Request Policy. */
+export const UpdateSongRequestPolicyResultCodec =
+	createSongQueueResultCodec(SongRequestPolicySchema);
+/** RPC codec for checking one Spotify Track against the content filter. */
+export const CheckTrackContentResultCodec = createSongQueueResultCodec(TrackContentDecisionSchema);
+/** RPC codec for reading the Track Content Rules and Track Blocklist. */
+export const GetTrackContentFilterResultCodec =
+	createSongQueueResultCodec(TrackContentFilterSchema);
+/** RPC codec for storing the Track Content Rules. */
+export const UpdateTrackContentRulesResultCodec =
+	createSongQueueResultCodec(TrackContentRulesSchema);
+/** RPC codec for banning one Spotify Track or artist. */
+export const AddTrackBlocklistEntryResultCodec =
+	createSongQueueResultCodec(TrackBlocklistEntrySchema);
+/** RPC codec for lifting one Track Blocklist ban. */
+export const RemoveTrackBlocklistEntryResultCodec = createSongQueueResultCodec(z.boolean());
+/** RPC codec for a moderator removing one Pending Request. */
+export const RemoveSongRequestResultCodec = createSongQueueResultCodec(SongRequestRemovalSchema);
+/** RPC codec for a Viewer withdrawing their latest Pending Request. */
+export const WithdrawSongRequestResultCodec = createSongQueueResultCodec(
+	SongRequestWithdrawalSchema,
+);
+/** RPC codec for clearing every upcoming Pending Request. */
+export const ClearSongRequestsResultCodec = createSongQueueResultCodec(SongRequestsClearedSchema);
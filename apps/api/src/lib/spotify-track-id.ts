@@ -52,6 +52,16 @@ export function parseSpotifyTrackInput(
 	return Result.ok(trackId as SpotifyTrackId);
 }
 
+/**
+ * Parse a bare Spotify track identifier, such as one returned by the Web API.
+ *
+ * @param value - The untrusted track identifier.
+ * @returns The parsed track identifier, or an invalid-URL error.
+ */
+export function parseSpotifyTrackId(value: string): Result<SpotifyTrackId, InvalidSpotifyUrlError> {
+	return parseSpotifyTrackInput(`spotify:track:${value}`);
+}
+
 /**
  * Construct the canonical Spotify URI for a parsed track identifier.
  *
@@ -0,0 +1,101 @@
+import { Result } from "better-result";
+
+import { InvalidSpotifyUrlError } from "./errors";
+
+/** Lowest confidence at which a Spotify search result is accepted for a Song Request. */
+export const MIN_SPOTIFY_SEARCH_CONFIDENCE = 0.6;
+
+const MIN_QUERY_LENGTH = 3;
+const MAX_QUERY_LENGTH = 200;
+const IGNORED_TOKENS = new Set(["a", "an", "the", "by", "feat", "ft", "featuring"]);
+
+/** A search result with enough metadata to compare against free-text input. */
+export interface SpotifySearchCandidate {
+	readonly name: string;
+	readonly artists: readonly string[];
+}
+
+/** The search result chosen for free-text input with its heuristic confidence. */
+export interface SpotifySearchMatch<T extends SpotifySearchCandidate> {
+	readonly track: T;
+	readonly confidence: number;
+}
+
+/**
+ * Parse free-text Song Request input such as "artist - title" into a search query.
+ *
+ * Inputs that look like links are rejected so a mistyped Spotify URL is reported
+ * instead of being searched for.
+ *
+ * @param input - The untrusted redemption input that did not parse as a track link.
+ * @returns The whitespace-collapsed query, or an invalid-URL error.
+ */
+export function parseSpotifySearchQuery(input: string): Result<string, InvalidSpotifyUrlError> {
+	const query = input.trim().replace(/\s+/g, " ");
+	if (
+		URL.canParse(query) ||
+		/^spotify:/i.test(query) ||
+		query.length < MIN_QUERY_LENGTH ||
+		query.length > MAX_QUERY_LENGTH
+	) {
+		return Result.err(new InvalidSpotifyUrlError({ url: input }));
+	}
+	return Result.ok(query);
+}
+
+function tokenize(value: string): Set<string> {
+	const tokens = value
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((token) => token.length > 0 && !IGNORED_TOKENS.has(token));
+	return new Set(tokens);
+}
+
+function coverage(expected: Set<string>, actual: Set<string>): number {
+	if (expected.size === 0) return 0;
+	let matched = 0;
+	for (const token of expected) {
+		if (actual.has(token)) matched += 1;
+	}
+	return matched / expected.size;
+}
+
+/**
+ * Score how well one search result matches a query, from 0 to 1.
+ *
+ * Most of the weight is on every query word appearing in the title or artists, so
+ * "artist - title" and bare titles both score highly. The rest rewards the query
+ * naming the whole title, ignoring suffixes like "(Remastered 2011)" or "- Live".
+ */
+export function scoreSpotifySearchCandidate(
+	query: string,
+	candidate: SpotifySearchCandidate,
+): number {
+	const queryTokens = tokenize(query);
+	const candidateTokens = tokenize([candidate.name, ...candidate.artists].join(" "));
+	const titleTokens = tokenize(candidate.name.replace(/\s*(\(.*?\)|\[.*?\]|\s-\s.*)$/g, ""));
+	const score =
+		0.7 * coverage(queryTokens, candidateTokens) + 0.3 * coverage(titleTokens, queryTokens);
+	return Math.round(score * 100) / 100;
+}
+
+/**
+ * Pick the best-scoring search result, preferring Spotify's ranking on ties.
+ *
+ * @returns The chosen result, or null when none reaches the minimum confidence.
+ */
+export function pickSpotifySearchMatch<T extends SpotifySearchCandidate>(
+	query: string,
+	candidates: readonly T[],
+): SpotifySearchMatch<T> | null {
+	let best: SpotifySearchMatch<T> | null = null;
+	for (const track of candidates) {
+		const confidence = scoreSpotifySearchCandidate(query, track);
+		if (best === null || confidence > best.confidence) {
+			best = { track, confidence };
+		}
+	}
+	return best !== null && best.confidence >= MIN_SPOTIFY_SEARCH_CONFIDENCE ? best : null;
+}
@@ -1,6 +1,7 @@
 import { Result } from "better-result";
 import { z } from "zod";
 
+import { RaidSchema, TopRaidersSchema } from "../domain/raid";
 import { StreamLifecycleStateSchema } from "../domain/stream-lifecycle";
 import { InvalidIsoTimestampError } from "./clock";
 import { DurableObjectError, StreamLifecycleEffectsPendingError } from "./errors";
@@ -65,3 +66,21 @@ export const GetStreamLifecycleStateResultCodec = Result.codec({
 	serialize: { ok: StreamLifecycleStateSchema, err: DurableObjectErrorToWireSchema },
 	deserialize: { ok: StreamLifecycleStateSchema, err: DurableObjectErrorFromWireSchema },
 });
+/** RPC codec for reading the most recent live viewer count. */
+export const GetLatestViewerCountResultCodec = Result.codec({
+	serialize: { ok: z.number().int().nonnegative().nullable(), err: DurableObjectErrorToWireSchema },
+	deserialize: {
+		ok: z.number().int().nonnegative().nullable(),
+		err: DurableObjectErrorFromWireSchema,
+	},
+});
+/** RPC codec for recording one incoming Raid. */
+export const RecordRaidResultCodec = Result.codec({
+	serialize: { ok: RaidSchema, err: DurableObjectErrorToWireSchema },
+	deserialize: { ok: RaidSchema, err: DurableObjectErrorFromWireSchema },
+});
+/** RPC codec for reading Raiders ranked by how often they raided. */
+export const GetTopRaidersResultCodec = Result.codec({
+	serialize: { ok: TopRaidersSchema, err: DurableObjectErrorToWireSchema },
+	deserialize: { ok: TopRaidersSchema, err: DurableObjectErrorFromWireSchema },
+});
@@ -57,10 +57,19 @@ const SpotifyTrackSchema = z.object({
 			}),
 		),
 	}),
+	explicit: z.boolean(),
+	duration_ms: z.number().int().nonnegative(),
 });
 
 export type SpotifyTrack = z.infer<typeof SpotifyTrackSchema>;
 
+// Zod schema for track search response
+const SearchTracksResponseSchema = z.object({
+	tracks: z.object({
+		items: z.array(SpotifyTrackSchema),
+	}),
+});
+
 // Zod schema for currently playing response
 const CurrentlyPlayingSchema = z.object({
 	is_playing: z.boolean(),
@@ -126,8 +135,25 @@ export interface TrackInfo {
 	id: string;
 	name: string;
 	artists: string[];
+	artistIds: string[];
 	album: string;
 	albumCoverUrl: string | null;
+	explicit: boolean;
+	durationMs: number;
+}
+
+function toTrackInfo(track: SpotifyTrack): TrackInfo {
+	const albumCover = [...track.album.images].sort((a, b) => a.height - b.height)[0];
+	return {
+		id: track.id,
+		name: track.name,
+		artists: track.artists.map((a) => a.name),
+		artistIds: track.artists.map((a) => a.id),
+		album: track.album.name,
+		albumCoverUrl: albumCover?.url ?? null,
+		explicit: track.explicit,
+		durationMs: track.duration_ms,
+	};
 }
 
 /** Errors that can occur during Spotify provider operations. */
@@ -342,15 +368,99 @@ export class SpotifyService {
 			track_id: track.id,
 			track_name: track.name,
 		});
-		const albumCover = track.album.images.sort((a, b) => a.height - b.height)[0];
-
-		return Result.ok({
-			id: track.id,
-			name: track.name,
-			artists: track.artists.map((a) => a.name),
-			album: track.album.name,
-			albumCoverUrl: albumCover?.url ?? null,
+		return Result.ok(toTrackInfo(track));
+	}
+
+	/**
+	 * Search the Spotify catalog for tracks matching free text, in Spotify's relevance order
+	 */
+	async searchTracks(
+		query: string,
+		options: { readonly limit?: number; readonly signal?: AbortSignal } = {},
+	): Promise<
+		Result<
+			TrackInfo[],
+			| ProviderAccessTokenError
+			| SpotifyRateLimitError
+			| SpotifyUnauthorizedError
+			| SpotifyNetworkError
+			| SpotifyParseError
+		>
+	> {
+		const tokenResult = await this.getToken();
+		if (tokenResult.status === "error") {
+			return Result.err(tokenResult.error);
+		}
+		const token = tokenResult.value;
+
+		const searchParams = new URLSearchParams({
+			q: query,
+			type: "track",
+			limit: String(options.limit ?? 5),
+		});
+		const fetchResult = await Result.tryPromise({
+			try: () =>
+				fetch(`https://api.spotify.com/v1/search?${searchParams.toString()}`, {
+					headers: {
+						Authorization: `Bearer ${token}`,
+					},
+					signal: options.signal,
+				}),
+			catch: (cause) =>
+				new SpotifyNetworkError({ status: 0, context: `searchTracks: ${String(cause)}` }),
+		});
+
+		if (fetchResult.status === "error") {
+			logger.error("Spotify searchTracks network error", { error: fetchResult.error.message });
+			return Result.err(fetchResult.error);
+		}
+
+		const response = fetchResult.value;
+
+		if (response.status === 429) {
+			const retryAfter = response.headers.get("Retry-After");
+			const retryAfterMs = retryAfter ? Number.parseInt(retryAfter, 10) * 1000 : 1000;
+			logger.warn("Spotify rate limited", { retryAfterMs });
+			return Result.err(new SpotifyRateLimitError({ retryAfterMs }));
+		}
+
+		if (response.status === 401) {
+			logger.error("Spotify unauthorized for searchTracks");
+			return Result.err(new SpotifyUnauthorizedError());
+		}
+
+		if (!response.ok) {
+			logger.error("Spotify searchTracks failed", { status: response.status });
+			return Result.err(
+				new SpotifyNetworkError({ status: response.status, context: "searchTracks" }),
+			);
+		}
+
+		const jsonResult = await Result.tryPromise({
+			try: () => response.json(),
+			catch: (cause) => new SpotifyParseError({ context: "search", parseError: String(cause) }),
+		});
+
+		if (jsonResult.status === "error") {
+			logger.error("Failed to parse Spotify search JSON", { error: jsonResult.error.message });
+			return Result.err(jsonResult.error);
+		}
+
+		const parsed = SearchTracksResponseSchema.safeParse(jsonResult.value);
+
+		if (!parsed.success) {
+			logger.error("Failed to parse Spotify search response", { error: parsed.error.message });
+			return Result.err(
+				new SpotifyParseError({ context: "search", parseError: parsed.error.message }),
+			);
+		}
+
+		logger.info("Spotify search succeeded", {
+			event: "spotify.search.succeeded",
+			component: "service",
+			result_count: parsed.data.tracks.items.length,
 		});
+		return Result.ok(parsed.data.tracks.items.map(toTrackInfo));
 	}
 
 	/**
@@ -519,15 +629,7 @@ export class SpotifyService {
 		}
 
 		const track = parsed.data.item;
-		const albumCover = track.album.images.sort((a, b) => a.height - b.height)[0];
-
-		return Result.ok({
-			id: track.id,
-			name: track.name,
-			artists: track.artists.map((a) => a.name),
-			album: track.album.name,
-			albumCoverUrl: albumCover?.url ?? null,
-		});
+		return Result.ok(toTrackInfo(track));
 	}
 
 	/**
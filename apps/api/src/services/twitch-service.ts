@@ -29,6 +29,7 @@ import { RedactedValue } from "../lib/redacted";
 
 import type { TwitchAccessTokens } from "../capabilities/provider-access-tokens";
 import type { TwitchProviderConfiguration } from "../configuration/worker-configuration";
+import type { Permission } from "../lib/permissions";
 
 const DEFAULT_TWITCH_RETRY_AFTER_MS = 1_000;
 const MAXIMUM_TWITCH_RETRY_AFTER_MS = 15 * 60 * 1_000;
@@ -88,6 +89,11 @@ const TwitchRedemptionUpdateResponseSchema = z.object({
 	data: z.array(z.object({ id: NonEmptyProviderStringSchema.optional() })).min(1),
 });
 
+// Zod schema for Twitch Helix /moderation/moderators and /channels/vips responses
+const TwitchChannelRoleResponseSchema = z.object({
+	data: z.array(z.object({ user_id: NonEmptyProviderStringSchema })),
+});
+
 export type TwitchTokenResponse = z.infer<typeof TwitchTokenResponseSchema>;
 
 // Zod schema for Twitch Helix /streams response
@@ -941,9 +947,97 @@ export class TwitchService {
 		);
 	}
 
+	/**
+	 * Resolve a Viewer's channel role from the broadcaster's moderator and VIP lists.
+	 * The broadcaster is recognized by ID without a Helix request.
+	 */
+	async getViewerPermission(
+		userId: string,
+		options: { readonly signal?: AbortSignal } = {},
+	): Promise<Result<Permission, TwitchError>> {
+		if (userId === this.broadcasterId) return Result.ok("broadcaster");
+
+		const tokenResult = await this.getToken();
+		if (tokenResult.status === "error") {
+			return Result.err(tokenResult.error);
+		}
+		const accessToken = tokenResult.value;
+
+		return Result.tryPromise(
+			{
+				try: async (): Promise<Permission> => {
+					if (await this.hasChannelRole("moderation/moderators", userId, accessToken, options)) {
+						return "moderator";
+					}
+					if (await this.hasChannelRole("channels/vips", userId, accessToken, options)) {
+						return "vip";
+					}
+					return "everyone";
+				},
+				catch: (error) => {
+					if (
+						TwitchParseError.is(error) ||
+						TwitchRateLimitError.is(error) ||
+						TwitchNetworkError.is(error)
+					) {
+						return error;
+					}
+					return new TwitchNetworkError({
+						status: 0,
+						context: `getViewerPermission: ${String(error)}`,
+					});
+				},
+			},
+			{
+				retry: {
+					times: 3,
+					delayMs: 1000,
+					backoff: "exponential",
+					shouldRetry: (error) =>
+						options.signal?.aborted !== true && isRetryableTwitchTechnicalError(error),
+				},
+			},
+		);
+	}
+
+	private async hasChannelRole(
+		path: "moderation/moderators" | "channels/vips",
+		userId: string,
+		accessToken: string,
+		options: { readonly signal?: AbortSignal },
+	): Promise<boolean> {
+		const url = new URL(`https://api.twitch.tv/helix/${path}`);
+		url.searchParams.set("broadcaster_id", this.broadcasterId);
+		url.searchParams.set("user_id", userId);
+
+		const response = await fetch(url, {
+			headers: this.userTokenHeaders(accessToken),
+			signal: options.signal,
+		});
+
+		if (response.status === 429) {
+			throw new TwitchRateLimitError({ retryAfterMs: parseTwitchRetryAfterMs(response) });
+		}
+		if (!response.ok) {
+			throw new TwitchNetworkError({
+				status: response.status,
+				context: `getViewerPermission ${path}`,
+			});
+		}
+
+		const responseJson = await response.json().catch((cause: unknown) => {
+			throw new TwitchParseError({ context: `${path} JSON`, parseError: String(cause) });
+		});
+		const parsed = TwitchChannelRoleResponseSchema.safeParse(responseJson);
+		if (!parsed.success) {
+			throw new TwitchParseError({ context: path, parseError: parsed.error.message });
+		}
+		return parsed.data.data.some((entry) => entry.user_id === userId);
+	}
+
 	/**
 	 * Build shared auth headers for Twitch Helix endpoints that use the broadcaster user token.
-	 * Chat messages, native shoutouts, and redemption updates all require this same auth context.
+	 * Chat messages, native shoutouts, redemption updates, and channel role lookups share this auth context.
 	 */
 	private userTokenHeaders(accessToken: string, headers?: HeadersInit): Headers {
 		const result = new Headers(headers);
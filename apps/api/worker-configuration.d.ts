@@ -10,6 +10,8 @@ declare namespace Cloudflare {
 		ANALYTICS: AnalyticsEngineDataset;
 		SONG_REQUEST_REWARD_ID: "c2063c79-a24c-4b17-94f7-c871f2876708";
 		KEYBOARD_RAFFLE_REWARD_ID: "29afa291-244a-47a8-8be8-ded13995e83d";
+		VOTE_SKIP_THRESHOLD: "3";
+		PUBLIC_BASE_URL: "https://cf-twitch-api.mulroy.workers.dev";
 		TWITCH_CLIENT_ID: string;
 		TWITCH_CLIENT_SECRET: string;
 		TWITCH_ACCESS_TOKEN: string;
@@ -21,6 +23,7 @@ declare namespace Cloudflare {
 		SPOTIFY_CLIENT_SECRET: string;
 		OAUTH_SETUP_SECRET: string;
 		ADMIN_SECRET: string;
+		OVERLAY_SECRET: string;
 		SPOTIFY_TOKEN_DO: DurableObjectNamespace<import("./src/index").SpotifyTokenDO>;
 		TWITCH_TOKEN_DO: DurableObjectNamespace<import("./src/index").TwitchTokenDO>;
 		STREAM_LIFECYCLE_DO: DurableObjectNamespace<import("./src/index").StreamLifecycleDO>;
@@ -34,6 +37,9 @@ declare namespace Cloudflare {
 		RAID_SHOUTOUT_SAGA_DO: DurableObjectNamespace<import("./src/index").RaidShoutoutSagaDO>;
 		OAUTH_STATE_DO: DurableObjectNamespace<import("./src/index").OAuthStateDO>;
 		EVENTSUB_WEBHOOK_DO: DurableObjectNamespace<import("./src/index").EventSubWebhookDO>;
+		OVERLAY_FEED_DO: DurableObjectNamespace<import("./src/index").OverlayFeedDO>;
+		REWARD_REGISTRY_DO: DurableObjectNamespace<import("./src/index").RewardRegistryDO>;
+		OUTBOUND_WEBHOOK_DO: DurableObjectNamespace<import("./src/index").OutboundWebhookDO>;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -41,7 +47,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "SONG_REQUEST_REWARD_ID" | "KEYBOARD_RAFFLE_REWARD_ID" | "TWITCH_CLIENT_ID" | "TWITCH_CLIENT_SECRET" | "TWITCH_ACCESS_TOKEN" | "TWITCH_REFRESH_TOKEN" | "TWITCH_EVENTSUB_SECRET" | "TWITCH_BROADCASTER_ID" | "TWITCH_BROADCASTER_NAME" | "SPOTIFY_CLIENT_ID" | "SPOTIFY_CLIENT_SECRET" | "OAUTH_SETUP_SECRET" | "ADMIN_SECRET">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "SONG_REQUEST_REWARD_ID" | "KEYBOARD_RAFFLE_REWARD_ID" | "VOTE_SKIP_THRESHOLD" | "PUBLIC_BASE_URL" | "TWITCH_CLIENT_ID" | "TWITCH_CLIENT_SECRET" | "TWITCH_ACCESS_TOKEN" | "TWITCH_REFRESH_TOKEN" | "TWITCH_EVENTSUB_SECRET" | "TWITCH_BROADCASTER_ID" | "TWITCH_BROADCASTER_NAME" | "SPOTIFY_CLIENT_ID" | "SPOTIFY_CLIENT_SECRET" | "OAUTH_SETUP_SECRET" | "ADMIN_SECRET" | "OVERLAY_SECRET">> {}
 }
 declare module "*.sql" {
 	const value: string;